@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  requireAdmin: vi.fn(async () => ({ response: null, userId: "admin_test" })),
+  topSpenders: vi.fn(),
+}));
+
+vi.mock("@/lib/admin-auth", () => ({
+  requireAdmin: mocks.requireAdmin,
+}));
+
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  getLLMSpendLedger: vi.fn(() => ({ topSpenders: mocks.topSpenders })),
+}));
+
+function spender(userId: string, tier: "free" | "pro" | "premium", estimatedCostUsd: number) {
+  return {
+    userId,
+    tier,
+    orchestrations: 3,
+    inputTokens: 3000,
+    outputTokens: 6000,
+    totalTokens: 9000,
+    estimatedCostUsd,
+    providers: { glm: { totalTokens: 9000, estimatedCostUsd } },
+  };
+}
+
+describe("/api/admin/llm-spend", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists the month's top spenders and flags those over their tier ceiling", async () => {
+    mocks.topSpenders.mockResolvedValueOnce([spender("user_pro", "pro", 6.5), spender("user_free", "free", 0.2)]);
+    const { GET } = await import("@/app/api/admin/llm-spend/route");
+
+    const response = await GET(new NextRequest("https://www.localley.io/api/admin/llm-spend?month=2026-09&limit=5"));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mocks.topSpenders).toHaveBeenCalledWith({ month: new Date("2026-09-01T00:00:00Z"), limit: 5 });
+    expect(body).toMatchObject({
+      month: "2026-09",
+      ceilings: { free: 0.5, pro: 5, premium: 20 },
+      spenders: [
+        { userId: "user_pro", overCostCeiling: true },
+        { userId: "user_free", overCostCeiling: false },
+      ],
+    });
+  });
+
+  it("rejects malformed month and limit values", async () => {
+    const { GET } = await import("@/app/api/admin/llm-spend/route");
+
+    for (const query of ["month=2026-13", "month=Sept", "limit=0", "limit=500"]) {
+      const response = await GET(new NextRequest(`https://www.localley.io/api/admin/llm-spend?${query}`));
+      expect(response.status).toBe(400);
+    }
+    expect(mocks.topSpenders).not.toHaveBeenCalled();
+  });
+
+  it("returns the admin check response for non-admins", async () => {
+    mocks.requireAdmin.mockResolvedValueOnce({
+      response: Response.json({ error: "Forbidden" }, { status: 403 }),
+      userId: null,
+    } as never);
+    const { GET } = await import("@/app/api/admin/llm-spend/route");
+
+    const response = await GET(new NextRequest("https://www.localley.io/api/admin/llm-spend"));
+
+    expect(response.status).toBe(403);
+    expect(mocks.topSpenders).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown>;
+
+const mocks = vi.hoisted(() => ({
+  requireAdmin: vi.fn(async () => ({ response: null, userId: "admin_test" })),
+  tables: {} as Record<string, Row[]>,
+  updates: [] as Array<{ table: string; values: Row; ids: unknown[] }>,
+  inserts: [] as Array<{ table: string; rows: Row[] }>,
+}));
+
+vi.mock("@/lib/admin-auth", () => ({
+  requireAdmin: mocks.requireAdmin,
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  createSupabaseAdmin: vi.fn(() => ({
+    from(table: string) {
+      const filters: Array<(row: Row) => boolean> = [];
+      let update: Row | null = null;
+      const run = () => {
+        const found = (mocks.tables[table] ?? []).filter((row) => filters.every((filter) => filter(row)));
+        if (update) {
+          mocks.updates.push({ table, values: update, ids: found.map((row) => row.id) });
+          found.forEach((row) => Object.assign(row, update));
+        }
+        return { data: found, error: null };
+      };
+      const builder = {
+        select: () => builder,
+        order: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return builder;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return builder;
+        },
+        update: (values: Row) => {
+          update = values;
+          return builder;
+        },
+        insert: async (rows: Row[]) => {
+          mocks.inserts.push({ table, rows });
+          return { error: null };
+        },
+        then: (resolve: (value: ReturnType<typeof run>) => void) => resolve(run()),
+      };
+      return builder;
+    },
+  })),
+}));
+
+function earning(id: string, guide: string, points: number) {
+  return {
+    id,
+    guide_clerk_user_id: guide,
+    earning_month: "2026-09-01",
+    total_engagement_points: points,
+    held_engagement_points: 2,
+    gross_amount: 25,
+    status: "calculated",
+  };
+}
+
+function audit(guide: string, countedPoints: number) {
+  return {
+    guide_clerk_user_id: guide,
+    computed_at: "2026-10-01T09:00:00Z",
+    explanation: { guideClerkUserId: guide, month: "2026-09-01", countedPoints, holds: [] },
+  };
+}
+
+function approveRequest(body: Record<string, unknown>) {
+  return new NextRequest("https://www.localley.io/api/admin/payouts/approve", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "content-type": "application/json" },
+  });
+}
+
+describe("/api/admin/payouts/approve", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.updates = [];
+    mocks.inserts = [];
+  });
+
+  it("approves audited earnings, records who approved them and returns each explanation", async () => {
+    mocks.tables = {
+      guide_earnings: [earning("e1", "guide_a", 40), earning("e2", "guide_b", 12)],
+      guide_point_audits: [audit("guide_a", 40), audit("guide_b", 12)],
+    };
+    const { POST } = await import("@/app/api/admin/payouts/approve/route");
+
+    const response = await POST(approveRequest({ month: "2026-09-01" }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.approved).toBe(2);
+    expect(body.explanations.map((explanation: Row) => explanation.guideClerkUserId)).toEqual(["guide_a", "guide_b"]);
+    expect(mocks.updates).toEqual([
+      {
+        table: "guide_earnings",
+        values: expect.objectContaining({ status: "approved", approved_by: "admin_test" }),
+        ids: ["e1", "e2"],
+      },
+    ]);
+    expect(mocks.inserts[0].table).toBe("payout_audit_log");
+    expect(mocks.inserts[0].rows).toEqual([
+      expect.objectContaining({ action: "approve", admin_clerk_user_id: "admin_test", earning_id: "e1" }),
+      expect.objectContaining({ action: "approve", admin_clerk_user_id: "admin_test", earning_id: "e2" }),
+    ]);
+  });
+
+  it("refuses the whole batch when any earning's points don't match its audit", async () => {
+    mocks.tables = {
+      guide_earnings: [earning("e1", "guide_a", 40), earning("e2", "guide_b", 12), earning("e3", "guide_c", 9)],
+      guide_point_audits: [audit("guide_a", 40), audit("guide_b", 15)],
+    };
+    const { POST } = await import("@/app/api/admin/payouts/approve/route");
+
+    const response = await POST(approveRequest({ month: "2026-09-01" }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.unaudited).toEqual(["e2", "e3"]);
+    expect(mocks.updates).toEqual([]);
+    expect(mocks.inserts).toEqual([]);
+  });
+});
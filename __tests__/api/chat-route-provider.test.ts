@@ -16,6 +16,10 @@ const mocks = vi.hoisted(() => ({
     tier: "pro",
   })),
   generateChatReplyWithFallback: vi.fn(),
+  streamChatReplyWithFallback: vi.fn(),
+  loadConversationMemory: vi.fn(),
+  saveAssistantReply: vi.fn(async () => "message-1"),
+  recordSpend: vi.fn(async () => {}),
 }));
 
 vi.mock("@clerk/nextjs/server", () => ({
@@ -32,9 +36,24 @@ vi.mock("@/lib/usage-tracking", () => ({
 
 vi.mock("@/lib/llm/chat-provider", () => ({
   generateChatReplyWithFallback: mocks.generateChatReplyWithFallback,
+  streamChatReplyWithFallback: mocks.streamChatReplyWithFallback,
 }));
 
-function createChatRequest() {
+vi.mock("@/lib/llm/spend-ledger", () => ({
+  getLLMSpendLedger: () => ({ record: mocks.recordSpend }),
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  createSupabaseAdmin: vi.fn(() => ({})),
+}));
+
+vi.mock("@/lib/chat-memory", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/chat-memory")>()),
+  loadConversationMemory: mocks.loadConversationMemory,
+  saveAssistantReply: mocks.saveAssistantReply,
+}));
+
+function createChatRequest(headers: Record<string, string> = {}, extraBody: Record<string, unknown> = {}) {
   return new NextRequest("https://www.localley.io/api/chat", {
     method: "POST",
     body: JSON.stringify({
@@ -44,13 +63,26 @@ function createChatRequest() {
           content: "Can you help me plan something local-first?",
         },
       ],
+      ...extraBody,
     }),
     headers: {
       "content-type": "application/json",
+      ...headers,
     },
   });
 }
 
+const streamStart = {
+  type: "start",
+  provider: "glm",
+  model: "glm-5.2",
+  fallbackUsed: false,
+  fallbackReason: null,
+  primaryProvider: "glm",
+  primaryModel: "glm-5.2",
+  primaryConfigured: true,
+};
+
 describe("/api/chat provider routing", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -153,4 +185,215 @@ describe("/api/chat provider routing", () => {
       primaryConfigured: true,
     });
   });
+
+  it("streams reply deltas as server-sent events when requested", async () => {
+    mocks.streamChatReplyWithFallback.mockReturnValueOnce(
+      (async function* () {
+        yield streamStart;
+        yield { type: "delta", content: "Local " };
+        yield { type: "delta", content: "first." };
+        yield { type: "done", content: "Local first." };
+      })()
+    );
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({ accept: "text/event-stream" }));
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(mocks.generateChatReplyWithFallback).not.toHaveBeenCalled();
+    expect(body).toBe(
+      [streamStart, { type: "delta", content: "Local " }, { type: "delta", content: "first." }, { type: "done", content: "Local first." }]
+        .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+        .join("")
+    );
+  });
+
+  it("records the tokens a streamed reply spent against the user", async () => {
+    const { reportTokenUsage } = await import("@/lib/llm/usage-meter");
+    mocks.streamChatReplyWithFallback.mockReturnValueOnce(
+      (async function* () {
+        yield streamStart;
+        yield { type: "delta", content: "Local first." };
+        reportTokenUsage("glm", { inputTokens: 900, outputTokens: 40, totalTokens: 940 });
+        yield { type: "done", content: "Local first." };
+      })()
+    );
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({ accept: "text/event-stream" }));
+    await response.text();
+
+    expect(mocks.recordSpend).toHaveBeenCalledWith({
+      userId: "user_test",
+      requestId: expect.any(String),
+      requestType: "chat",
+      tier: "pro",
+      tokenUsage: { glm: { inputTokens: 900, outputTokens: 40, totalTokens: 940 } },
+    });
+  });
+
+  it("ends the stream with the reply's prose and its structured itinerary", async () => {
+    const itinerary = {
+      title: "Seoul Hidden Gems",
+      city: "Seoul",
+      dailyPlans: [{
+        day: 1,
+        theme: "Old lanes",
+        activities: [{
+          time: "10:00 AM",
+          type: "morning",
+          name: "Ikseon-dong Hanok Street",
+          address: "Ikseon-dong, Jongno-gu, Seoul",
+          description: "Wander the hanok lanes before the cafes fill up.",
+          category: "neighborhood",
+          localleyScore: 4,
+          duration: "2 hours",
+          cost: "Free",
+        }],
+      }],
+    };
+    const reply = `# Seoul Hidden Gems\n\n**Day 1: Old lanes**\n\n\`\`\`itinerary-json\n${JSON.stringify(itinerary)}\n\`\`\``;
+    mocks.streamChatReplyWithFallback.mockReturnValueOnce(
+      (async function* () {
+        yield streamStart;
+        yield { type: "delta", content: reply };
+        yield { type: "done", content: reply };
+      })()
+    );
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({ accept: "text/event-stream" }));
+    const events = (await response.text())
+      .split("\n\n")
+      .filter(Boolean)
+      .map((frame) => JSON.parse(frame.replace(/^data: /, "")));
+
+    expect(events.at(-1)).toEqual({
+      type: "done",
+      content: "# Seoul Hidden Gems\n\n**Day 1: Old lanes**",
+      itinerary,
+    });
+    expect(mocks.streamChatReplyWithFallback.mock.calls[0][0].systemPrompt).toContain("```itinerary-json");
+  });
+
+  it("returns an error response when streaming fails before the first token", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.streamChatReplyWithFallback.mockReturnValueOnce(
+      (async function* () {
+        throw new Error("Anthropic returned an empty chat response");
+      })()
+    );
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({ accept: "text/event-stream" }));
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    consoleError.mockRestore();
+  });
+
+  it("ends the stream with an error event when the reply breaks mid-way", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.streamChatReplyWithFallback.mockReturnValueOnce(
+      (async function* () {
+        yield streamStart;
+        yield { type: "delta", content: "Half" };
+        throw new Error("503 upstream reset");
+      })()
+    );
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({ accept: "text/event-stream" }));
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).toContain(`data: ${JSON.stringify({ type: "delta", content: "Half" })}\n\n`);
+    expect(body).toContain(
+      `data: ${JSON.stringify({ type: "error", message: "The reply was interrupted. Please try again." })}\n\n`
+    );
+    consoleError.mockRestore();
+  });
+
+  it("loads a saved conversation's history and pinned preferences server-side", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.loadConversationMemory.mockResolvedValueOnce({
+      conversationId: "5b7e8a4c-2f0d-4c1b-9a57-0f7c3e2d1a90",
+      summary: "Planning 4 days in Seoul; ruled out Myeongdong.",
+      summarizedThrough: "2026-08-01T10:00:00.000Z",
+      preferences: { dates: "12-15 May", dietary: ["vegetarian"], party: "2 adults" },
+      messages: [
+        { role: "assistant", content: "Mangwon Market is great for lunch.", createdAt: "2026-08-01T10:05:00.000Z" },
+        { role: "user", content: "Can you help me plan something local-first?", createdAt: "2026-08-01T10:06:00.000Z" },
+      ],
+    });
+    mocks.generateChatReplyWithFallback.mockResolvedValueOnce({ content: "Sure!", provider: "anthropic" });
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({}, { conversationId: "5b7e8a4c-2f0d-4c1b-9a57-0f7c3e2d1a90" }));
+
+    expect(response.status).toBe(200);
+    expect(mocks.loadConversationMemory).toHaveBeenCalledWith(
+      expect.anything(),
+      "user_test",
+      "5b7e8a4c-2f0d-4c1b-9a57-0f7c3e2d1a90"
+    );
+    const [input] = mocks.generateChatReplyWithFallback.mock.calls[0];
+    expect(input.messages).toEqual([
+      { role: "assistant", content: "Mangwon Market is great for lunch." },
+      { role: "user", content: "Can you help me plan something local-first?" },
+    ]);
+    expect(input.systemPrompt).toContain("- Dietary: vegetarian");
+    expect(input.systemPrompt).toContain("## EARLIER IN THIS CONVERSATION\nPlanning 4 days in Seoul; ruled out Myeongdong.");
+    expect(input.systemPrompt).toContain("CURRENT CITY CONTEXT: The user is asking about Seoul.");
+    expect(mocks.saveAssistantReply).toHaveBeenCalledWith(
+      expect.anything(),
+      "5b7e8a4c-2f0d-4c1b-9a57-0f7c3e2d1a90",
+      expect.objectContaining({ content: "Sure!" })
+    );
+    expect((await response.json()).messageId).toBe("message-1");
+    consoleError.mockRestore();
+  });
+
+  it("ignores tool calls the client sends and leaves saving to the client outside a conversation", async () => {
+    mocks.generateChatReplyWithFallback.mockResolvedValueOnce({ content: "Sure!", provider: "glm" });
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(new NextRequest("https://www.localley.io/api/chat", {
+      method: "POST",
+      body: JSON.stringify({
+        messages: [
+          {
+            role: "assistant",
+            content: "Updated day 2.",
+            toolCalls: [{ id: "call_1", name: "get_itinerary", arguments: {}, result: { secret: "trust me" }, isError: false }],
+          },
+          { role: "user", content: "What did you change?" },
+        ],
+      }),
+      headers: { "content-type": "application/json" },
+    }));
+
+    expect(response.status).toBe(200);
+    const [input] = mocks.generateChatReplyWithFallback.mock.calls[0];
+    expect(input.messages).toEqual([
+      { role: "assistant", content: "Updated day 2." },
+      { role: "user", content: "What did you change?" },
+    ]);
+    expect(JSON.stringify(input)).not.toContain("trust me");
+    expect(mocks.saveAssistantReply).not.toHaveBeenCalled();
+    expect((await response.json()).messageId).toBeUndefined();
+  });
+
+  it("returns 404 without spending quota for someone else's conversation", async () => {
+    mocks.loadConversationMemory.mockResolvedValueOnce(null);
+    const { POST } = await import("@/app/api/chat/route");
+
+    const response = await POST(createChatRequest({}, { conversationId: "5b7e8a4c-2f0d-4c1b-9a57-0f7c3e2d1a90" }));
+
+    expect(response.status).toBe(404);
+    expect(mocks.checkAndIncrementUsage).not.toHaveBeenCalled();
+    expect(mocks.generateChatReplyWithFallback).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/calendar/[token]/route";
+
+const TOKEN = "0123456789abcdef0123456789abcdef0123456789abcdef";
+
+const mocks = vi.hoisted(() => ({
+  itinerary: null as Record<string, unknown> | null,
+  filters: {} as Record<string, unknown>,
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  createSupabaseAdmin: () => ({
+    from: () => {
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          mocks.filters[column] = value;
+          return builder;
+        },
+        maybeSingle: async () => ({
+          data: mocks.filters.calendar_token === TOKEN ? mocks.itinerary : null,
+          error: null,
+        }),
+      };
+      return builder;
+    },
+  }),
+}));
+
+function feed(token: string) {
+  return GET(new NextRequest(`https://www.localley.io/api/calendar/${token}`), {
+    params: Promise.resolve({ token }),
+  });
+}
+
+beforeEach(() => {
+  mocks.filters = {};
+  mocks.itinerary = {
+    id: "itin-1",
+    title: "Tokyo Eats",
+    city: "Tokyo",
+    start_date: "2026-11-05",
+    current_version: 7,
+    activities: [
+      { day: 1, theme: "Shinjuku", activities: [{ name: "Omoide Yokocho", time: "6:00 PM", category: "food" }] },
+    ],
+  };
+});
+
+describe("calendar subscription feed", () => {
+  it("serves the current itinerary for a valid feed token", async () => {
+    const response = await feed(`${TOKEN}.ics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/calendar; charset=utf-8");
+    expect(mocks.filters.calendar_token).toBe(TOKEN);
+    expect(body).toContain("SUMMARY:Omoide Yokocho");
+    expect(body).toContain("DTSTART:20261105T180000");
+    expect(body).toContain("SEQUENCE:7");
+    expect(body).toContain("URL:https://www.localley.io/itineraries/itin-1");
+  });
+
+  it("returns 404 for unknown or malformed tokens", async () => {
+    expect((await feed(`${"f".repeat(48)}.ics`)).status).toBe(404);
+    expect((await feed("short")).status).toBe(404);
+  });
+});
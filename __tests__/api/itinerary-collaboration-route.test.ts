@@ -0,0 +1,217 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as collaborateRoute } from "@/app/api/itineraries/[id]/collaborate/route";
+import { POST as inviteRoute } from "@/app/api/itineraries/[id]/collaborators/route";
+
+const ITINERARY_ID = "8a1e4c2b-5d3f-4e6a-9b7c-0f2d1e3a4b5c";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(async () => ({ userId: "user_owner" as string | null })),
+  itinerary: null as Record<string, unknown> | null,
+  collaborators: {} as Record<string, "editor" | "viewer">,
+  invites: [] as Record<string, unknown>[],
+  saveItineraryVersion: vi.fn(),
+  loadItineraryVersion: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: mocks.auth }));
+
+vi.mock("@/lib/supabase", () => ({
+  createSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value;
+          return builder;
+        },
+        maybeSingle: async () => {
+          if (table === "itineraries") return { data: mocks.itinerary, error: null };
+          const role = mocks.collaborators[filters.clerk_user_id as string];
+          return { data: role ? { role } : null, error: null };
+        },
+        insert: async (row: Record<string, unknown>) => {
+          mocks.invites.push(row);
+          return { error: null };
+        },
+      };
+      return builder;
+    },
+  }),
+}));
+
+vi.mock("@/lib/itineraries/version-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/itineraries/version-store")>()),
+  saveItineraryVersion: mocks.saveItineraryVersion,
+  loadItineraryVersion: mocks.loadItineraryVersion,
+}));
+
+function activity(name: string) {
+  return { name, time: "10:00 AM", type: "morning", address: `${name}, Busan`, category: "attraction" };
+}
+
+const basePlan = [
+  { day: 1, theme: "Coast", activities: [activity("Haeundae Beach"), activity("Dongbaekseom"), activity("The Bay 101")] },
+];
+
+function collaborate(body: unknown) {
+  return collaborateRoute(
+    new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/collaborate`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: ITINERARY_ID }) }
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.auth.mockResolvedValue({ userId: "user_owner" });
+  mocks.collaborators = { user_editor: "editor", user_viewer: "viewer" };
+  mocks.invites = [];
+  mocks.itinerary = {
+    id: ITINERARY_ID,
+    clerk_user_id: "user_owner",
+    title: "Busan Weekend",
+    city: "Busan",
+    // The owner added a stop at the start of the day in version 5
+    activities: [{ ...basePlan[0], activities: [activity("Cheongsapo"), ...basePlan[0].activities] }],
+    highlights: ["Beaches"],
+    estimated_cost: "$200",
+    current_version: 5,
+  };
+  mocks.saveItineraryVersion.mockImplementation(async (_supabase, args) => ({
+    version: 6,
+    itinerary: { ...mocks.itinerary, ...args.changes, current_version: 6 },
+  }));
+});
+
+describe("collaborative itinerary edits", () => {
+  it("rebases an editor's changes onto edits saved since their version", async () => {
+    mocks.auth.mockResolvedValue({ userId: "user_editor" });
+    mocks.loadItineraryVersion.mockResolvedValueOnce({
+      version: 4,
+      snapshot: { title: "Busan Weekend", city: "Busan", days: 1, activities: basePlan },
+    });
+
+    const response = await collaborate({
+      baseVersion: 4,
+      operations: [
+        { op: "remove_activity", day: 1, index: 1 },
+        { op: "add_activity", day: 1, index: 0, activity: activity("Gamcheon Culture Village") },
+      ],
+      details: { title: "Busan with friends" },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mocks.loadItineraryVersion).toHaveBeenCalledWith(expect.anything(), ITINERARY_ID, 4);
+    expect(mocks.saveItineraryVersion).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      itineraryId: ITINERARY_ID,
+      clerkUserId: "user_editor",
+      source: "edit",
+      changes: expect.objectContaining({ title: "Busan with friends", days: 1 }),
+      operations: [
+        expect.objectContaining({ op: "remove_activity", day: 1, index: 2 }),
+        expect.objectContaining({ op: "add_activity", day: 1, index: 0 }),
+      ],
+    }));
+    expect(body).toMatchObject({ success: true, rebased: true, itinerary: { version: 6, role: "editor" } });
+    expect(body.itinerary.dailyPlans[0].activities.map((item: { name: string }) => item.name)).toEqual([
+      "Gamcheon Culture Village",
+      "Cheongsapo",
+      "Haeundae Beach",
+      "The Bay 101",
+    ]);
+  });
+
+  it("reports queued edits to activities removed in the meantime", async () => {
+    mocks.auth.mockResolvedValue({ userId: "user_editor" });
+    mocks.itinerary!.activities = [{ ...basePlan[0], activities: [activity("Haeundae Beach"), activity("The Bay 101")] }];
+    mocks.loadItineraryVersion.mockResolvedValueOnce({
+      version: 4,
+      snapshot: { title: "Busan Weekend", city: "Busan", days: 1, activities: basePlan },
+    });
+
+    const response = await collaborate({
+      baseVersion: 4,
+      operations: [
+        { op: "replace_activity", day: 1, index: 1, activity: { ...activity("Dongbaekseom"), time: "06:00 AM" } },
+        { op: "retheme_day", day: 1, theme: "Sunrise" },
+      ],
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      rebased: true,
+      conflicts: ["Updated Dongbaekseom on day 1"],
+      itinerary: { dailyPlans: [{ theme: "Sunrise" }] },
+    });
+  });
+
+  it("applies changes made against the current version directly", async () => {
+    const response = await collaborate({
+      baseVersion: 5,
+      operations: [{ op: "retheme_day", day: 1, theme: "Sea breeze" }],
+    });
+
+    expect(response.status).toBe(200);
+    expect(mocks.loadItineraryVersion).not.toHaveBeenCalled();
+    await expect(response.json()).resolves.toMatchObject({
+      rebased: false,
+      conflicts: [],
+      itinerary: { dailyPlans: [{ theme: "Sea breeze" }], role: "owner" },
+    });
+  });
+
+  it("keeps viewers and strangers out", async () => {
+    mocks.auth.mockResolvedValue({ userId: "user_viewer" });
+    expect((await collaborate({ baseVersion: 5, operations: [] })).status).toBe(403);
+
+    mocks.auth.mockResolvedValue({ userId: "user_stranger" });
+    expect((await collaborate({ baseVersion: 5, operations: [] })).status).toBe(404);
+
+    mocks.auth.mockResolvedValue({ userId: "user_editor" });
+    expect((await collaborate({ baseVersion: 9, operations: [] })).status).toBe(400);
+    expect(mocks.saveItineraryVersion).not.toHaveBeenCalled();
+  });
+});
+
+describe("inviting collaborators", () => {
+  function invite(role: string) {
+    return inviteRoute(
+      new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/collaborators`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ role }),
+      }),
+      { params: Promise.resolve({ id: ITINERARY_ID }) }
+    );
+  }
+
+  it("creates a single-use invite link for the owner", async () => {
+    const response = await invite("viewer");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.inviteUrl).toBe(`https://www.localley.io/itineraries/invite/${body.token}`);
+    expect(body.token).toMatch(/^[0-9a-f]{48}$/);
+    expect(mocks.invites).toEqual([expect.objectContaining({
+      itinerary_id: ITINERARY_ID,
+      token: body.token,
+      role: "viewer",
+      created_by: "user_owner",
+    })]);
+  });
+
+  it("only lets the owner invite", async () => {
+    mocks.auth.mockResolvedValue({ userId: "user_editor" });
+    expect((await invite("editor")).status).toBe(403);
+    mocks.auth.mockResolvedValue({ userId: "user_owner" });
+    expect((await invite("owner")).status).toBe(400);
+    expect(mocks.invites).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as logExpense } from "@/app/api/itineraries/[id]/expenses/route";
+import { DELETE as deleteExpense } from "@/app/api/itineraries/[id]/expenses/[expenseId]/route";
+
+const ITINERARY_ID = "8a1e4c2b-5d3f-4e6a-9b7c-0f2d1e3a4b5c";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(async () => ({ userId: "user_owner" as string | null })),
+  getItineraryAccess: vi.fn(),
+  listTripMembers: vi.fn(),
+  addItineraryExpense: vi.fn(),
+  getItineraryExpense: vi.fn(),
+  deleteItineraryExpense: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: mocks.auth }));
+
+vi.mock("@/lib/supabase", () => ({ createSupabaseAdmin: () => ({}) }));
+
+vi.mock("@/lib/itineraries/collaboration", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/itineraries/collaboration")>()),
+  getItineraryAccess: mocks.getItineraryAccess,
+}));
+
+vi.mock("@/lib/itineraries/budget", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/itineraries/budget")>()),
+  listTripMembers: mocks.listTripMembers,
+  addItineraryExpense: mocks.addItineraryExpense,
+  getItineraryExpense: mocks.getItineraryExpense,
+  deleteItineraryExpense: mocks.deleteItineraryExpense,
+}));
+
+function post(body: unknown) {
+  return logExpense(
+    new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/expenses`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: ITINERARY_ID }) }
+  );
+}
+
+function remove(expenseId: string) {
+  return deleteExpense(
+    new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/expenses/${expenseId}`, {
+      method: "DELETE",
+    }),
+    { params: Promise.resolve({ id: ITINERARY_ID, expenseId }) }
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.auth.mockResolvedValue({ userId: "user_viewer" });
+  mocks.getItineraryAccess.mockImplementation(async (_supabase, _id, userId: string) => {
+    const roles: Record<string, string> = { user_owner: "owner", user_editor: "editor", user_viewer: "viewer" };
+    return roles[userId] ? { role: roles[userId], itinerary: { id: ITINERARY_ID, clerk_user_id: "user_owner" } } : null;
+  });
+  mocks.listTripMembers.mockResolvedValue([
+    { userId: "user_owner", name: "Ana", role: "owner" },
+    { userId: "user_editor", name: "Ben", role: "editor" },
+    { userId: "user_viewer", name: "Chloe", role: "viewer" },
+  ]);
+  mocks.addItineraryExpense.mockImplementation(async (_supabase, args) => ({ id: "expense-1", ...args.expense }));
+  mocks.getItineraryExpense.mockResolvedValue({ id: "expense-1", createdBy: "user_editor" });
+});
+
+describe("POST /api/itineraries/[id]/expenses", () => {
+  it("lets anyone on the trip log spend, viewers included", async () => {
+    const response = await post({ amount: 18000, currency: "krw", category: "food", splitWith: ["user_owner", "user_viewer"] });
+
+    expect(response.status).toBe(200);
+    expect(mocks.addItineraryExpense).toHaveBeenCalledWith(expect.anything(), {
+      itineraryId: ITINERARY_ID,
+      userId: "user_viewer",
+      expense: expect.objectContaining({ amount: 18000, currency: "KRW", splitWith: ["user_owner", "user_viewer"] }),
+    });
+  });
+
+  it("rejects payers and sharers who aren't on the trip", async () => {
+    const response = await post({ amount: 10, currency: "USD", category: "food", paidBy: "user_stranger" });
+
+    expect(response.status).toBe(400);
+    expect(mocks.addItineraryExpense).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown currencies and hides trips the caller isn't on", async () => {
+    expect((await post({ amount: 10, currency: "XYZ", category: "food" })).status).toBe(400);
+
+    mocks.auth.mockResolvedValue({ userId: "user_stranger" });
+    expect((await post({ amount: 10, currency: "USD", category: "food" })).status).toBe(404);
+  });
+});
+
+describe("DELETE /api/itineraries/[id]/expenses/[expenseId]", () => {
+  it("only lets whoever logged it or the owner remove an expense", async () => {
+    expect((await remove("expense-1")).status).toBe(403);
+    expect(mocks.deleteItineraryExpense).not.toHaveBeenCalled();
+
+    mocks.auth.mockResolvedValue({ userId: "user_owner" });
+    expect((await remove("expense-1")).status).toBe(200);
+    expect(mocks.deleteItineraryExpense).toHaveBeenCalledWith(expect.anything(), ITINERARY_ID, "expense-1");
+  });
+
+  it("404s for expenses that don't exist", async () => {
+    mocks.getItineraryExpense.mockResolvedValue(null);
+    mocks.auth.mockResolvedValue({ userId: "user_owner" });
+
+    expect((await remove("missing")).status).toBe(404);
+  });
+});
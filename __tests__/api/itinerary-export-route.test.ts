@@ -0,0 +1,107 @@
+import JSZip from "jszip";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/itineraries/[id]/export/route";
+
+const ITINERARY_ID = "3c9d2f4e-1a7b-4e8c-9d0f-5b6a7c8d9e0f";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(async () => ({ userId: "user_owner" as string | null })),
+  itinerary: null as Record<string, unknown> | null,
+  renderItineraryPdf: vi.fn(async () => new Uint8Array([0x25, 0x50, 0x44, 0x46])),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: mocks.auth }));
+
+vi.mock("@/lib/supabase", () => ({
+  createSupabaseAdmin: vi.fn(() => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value;
+          return builder;
+        },
+        single: async () => ({ data: mocks.itinerary, error: mocks.itinerary ? null : { message: "not found" } }),
+        maybeSingle: async () => table === "itinerary_collaborators"
+          ? { data: filters.clerk_user_id === "user_friend" ? { role: "viewer" } : null, error: null }
+          : { data: mocks.itinerary, error: null },
+      };
+      return builder;
+    },
+  })),
+}));
+
+// Page rendering needs the OG image renderer; the PDF writer is covered separately
+vi.mock("@/lib/itineraries/pdf-export", () => ({ renderItineraryPdf: mocks.renderItineraryPdf }));
+
+function exportItinerary(format?: string) {
+  const query = format ? `?format=${format}` : "";
+  return GET(new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/export${query}`), {
+    params: Promise.resolve({ id: ITINERARY_ID }),
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.auth.mockResolvedValue({ userId: "user_owner" });
+  mocks.itinerary = {
+    id: ITINERARY_ID,
+    clerk_user_id: "user_owner",
+    shared: false,
+    title: "Busan Weekend",
+    city: "Busan",
+    days: 1,
+    estimated_cost: "$200",
+    highlights: ["Beaches"],
+    activities: [
+      {
+        day: 1,
+        theme: "Coast",
+        activities: [
+          { name: "Haeundae Beach", nameKo: "해운대", time: "10:00 AM", address: "Haeundae-gu, Busan", lat: 35.1587, lng: 129.1604 },
+        ],
+      },
+    ],
+  };
+});
+
+describe("itinerary export", () => {
+  it("renders a PDF by default", async () => {
+    const response = await exportItinerary();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+    expect(response.headers.get("content-disposition")).toBe('attachment; filename="Busan-Weekend.pdf"');
+    expect(mocks.renderItineraryPdf).toHaveBeenCalledWith(expect.objectContaining({
+      title: "Busan Weekend",
+      dailyPlans: [expect.objectContaining({ activities: [expect.objectContaining({ nameKo: "해운대" })] })],
+    }));
+  });
+
+  it("bundles map files for offline use", async () => {
+    const response = await exportItinerary("bundle");
+    const zip = await JSZip.loadAsync(await response.arrayBuffer());
+
+    expect(response.headers.get("content-type")).toBe("application/zip");
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining(["busan-weekend.gpx", "busan-weekend.kml"]));
+    expect(await zip.file("busan-weekend.gpx")!.async("string")).toContain('<wpt lat="35.1587" lon="129.1604">');
+  });
+
+  it("keeps the printable page and rejects unknown formats", async () => {
+    const html = await exportItinerary("html");
+    expect(html.headers.get("content-type")).toBe("text/html");
+
+    expect((await exportItinerary("docx")).status).toBe(400);
+    expect(mocks.renderItineraryPdf).not.toHaveBeenCalled();
+  });
+
+  it("only exports private itineraries for their owner and collaborators", async () => {
+    mocks.auth.mockResolvedValue({ userId: "user_friend" });
+    expect((await exportItinerary("bundle")).status).toBe(200);
+
+    mocks.auth.mockResolvedValue({ userId: "user_stranger" });
+    expect((await exportItinerary("bundle")).status).toBe(403);
+  });
+});
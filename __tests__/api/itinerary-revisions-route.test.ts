@@ -0,0 +1,201 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as reviseRoute } from "@/app/api/itineraries/[id]/revise/route";
+import { POST as restoreRoute } from "@/app/api/itineraries/[id]/versions/[version]/restore/route";
+
+const ITINERARY_ID = "3c6f1d2a-9b8e-4f47-a1c5-2e7d9f0b4a66";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(async () => ({ userId: "user_a" as string | null })),
+  row: null as Record<string, unknown> | null,
+  generateText: vi.fn(),
+  saveItineraryVersion: vi.fn(),
+  loadItineraryVersion: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: mocks.auth }));
+
+vi.mock("@/lib/supabase-server", () => ({
+  createSupabaseServerClient: vi.fn(async () => {
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      single: async () => ({ data: mocks.row, error: mocks.row ? null : { message: "not found" } }),
+      maybeSingle: async () => ({ data: mocks.row, error: null }),
+    };
+    return { from: () => builder };
+  }),
+}));
+
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  GLMProvider: class {
+    isAvailable() {
+      return true;
+    }
+    generateText = mocks.generateText;
+  },
+}));
+
+vi.mock("@/lib/itineraries/version-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/itineraries/version-store")>()),
+  saveItineraryVersion: mocks.saveItineraryVersion,
+  loadItineraryVersion: mocks.loadItineraryVersion,
+}));
+
+function activity(name: string) {
+  return {
+    name,
+    time: "10:00 AM",
+    type: "morning",
+    description: `Spend the morning at ${name}.`,
+    address: `${name}, Jongno-gu, Seoul`,
+    category: "attraction",
+  };
+}
+
+const curatedPlan = [
+  { day: 1, theme: "Palaces", activities: [activity("Changdeokgung"), activity("Ikseon-dong"), activity("Bukchon")] },
+  { day: 2, theme: "Markets", activities: [activity("Gwangjang Market"), activity("Dongdaemun"), activity("Naksan Park")] },
+];
+
+function storedRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ITINERARY_ID,
+    title: "Seoul Old Town",
+    city: "Seoul",
+    days: 2,
+    activities: curatedPlan,
+    local_score: 8,
+    highlights: ["Palaces"],
+    estimated_cost: "$150",
+    current_version: 3,
+    ...overrides,
+  };
+}
+
+function reviseRequest(revisionRequest: string) {
+  return new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/revise`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ revisionRequest }),
+  });
+}
+
+function modelReply(body: unknown) {
+  return { content: JSON.stringify(body), provider: "glm" as const };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.row = storedRow();
+  mocks.saveItineraryVersion.mockImplementation(async (_supabase, args) => ({
+    version: 4,
+    itinerary: { ...storedRow(), ...args.changes, current_version: 4 },
+  }));
+});
+
+describe("itinerary revisions", () => {
+  it("applies the model's operations and leaves the rest of the plan untouched", async () => {
+    mocks.generateText.mockResolvedValueOnce(modelReply({
+      summary: "Swapped Dongdaemun for a quieter market.",
+      operations: [{ op: "replace_activity", day: 2, index: 1, activity: activity("Tongin Market") }],
+    }));
+
+    const response = await reviseRoute(reviseRequest("Swap Dongdaemun for something quieter"), {
+      params: Promise.resolve({ id: ITINERARY_ID }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mocks.generateText.mock.calls[0][0].userPrompt).toContain("  [1] Dongdaemun | 10:00 AM | morning | attraction");
+    expect(mocks.saveItineraryVersion).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      itineraryId: ITINERARY_ID,
+      clerkUserId: "user_a",
+      source: "revise",
+      summary: "Swapped Dongdaemun for a quieter market.",
+      operations: [expect.objectContaining({
+        op: "replace_activity",
+        day: 2,
+        index: 1,
+        previous: expect.objectContaining({ name: "Dongdaemun" }),
+      })],
+    }));
+    const saved = mocks.saveItineraryVersion.mock.calls[0][1].changes;
+    expect(saved).toMatchObject({ title: "Seoul Old Town", days: 2, highlights: ["Palaces"] });
+    expect(saved.activities[0]).toEqual(curatedPlan[0]);
+    expect(saved.activities[1].activities.map((item: { name: string }) => item.name)).toEqual([
+      "Gwangjang Market",
+      "Tongin Market",
+      "Naksan Park",
+    ]);
+    expect(body).toMatchObject({
+      success: true,
+      version: 4,
+      changes: ["Replaced Dongdaemun with Tongin Market on day 2"],
+      itinerary: { id: ITINERARY_ID, title: "Seoul Old Town" },
+    });
+  });
+
+  it("keeps the stored plan when the operations do not fit it", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.generateText.mockResolvedValueOnce(modelReply({
+      operations: [{ op: "remove_activity", day: 2, index: 7 }],
+    }));
+
+    const response = await reviseRoute(reviseRequest("Drop the last stop"), {
+      params: Promise.resolve({ id: ITINERARY_ID }),
+    });
+
+    expect(response.status).toBe(502);
+    expect(mocks.saveItineraryVersion).not.toHaveBeenCalled();
+  });
+});
+
+describe("restoring itinerary versions", () => {
+  const snapshot = {
+    title: "Seoul Old Town",
+    city: "Seoul",
+    days: 1,
+    activities: [curatedPlan[0]],
+    local_score: 8,
+    highlights: ["Palaces"],
+    estimated_cost: "$100",
+  };
+
+  function restore(version: string) {
+    return restoreRoute(
+      new NextRequest(`https://www.localley.io/api/itineraries/${ITINERARY_ID}/versions/${version}/restore`, { method: "POST" }),
+      { params: Promise.resolve({ id: ITINERARY_ID, version }) }
+    );
+  }
+
+  it("saves the earlier snapshot as a new version", async () => {
+    mocks.loadItineraryVersion.mockResolvedValueOnce({ version: 2, snapshot });
+
+    const response = await restore("2");
+
+    expect(response.status).toBe(200);
+    expect(mocks.loadItineraryVersion).toHaveBeenCalledWith(expect.anything(), ITINERARY_ID, 2);
+    expect(mocks.saveItineraryVersion).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      source: "restore",
+      changes: snapshot,
+      restoredFrom: 2,
+      summary: "Restored version 2.",
+      operations: [expect.objectContaining({ op: "remove_day", day: 2 })],
+    }));
+    await expect(response.json()).resolves.toMatchObject({ success: true, version: 4 });
+  });
+
+  it("rejects the current version, unknown versions and other users' itineraries", async () => {
+    expect((await restore("3")).status).toBe(400);
+    expect((await restore("latest")).status).toBe(400);
+
+    mocks.loadItineraryVersion.mockResolvedValueOnce(null);
+    expect((await restore("9")).status).toBe(404);
+
+    mocks.row = null;
+    expect((await restore("2")).status).toBe(404);
+    expect(mocks.saveItineraryVersion).not.toHaveBeenCalled();
+  });
+});
@@ -48,6 +48,10 @@ vi.mock("@/lib/llm", () => ({
       providers: { glm: true, openai: true, gemini: true, claude: true },
     })),
   })),
+  getSemanticItineraryCache: vi.fn(() => ({
+    getStats: vi.fn(() => ({ lookups: 0, hitRate: 0 })),
+    resetStats: vi.fn(),
+  })),
   estimateOrchestrationCost: vi.fn((tier: string) => ({
     tier,
     estimatedCost: 0,
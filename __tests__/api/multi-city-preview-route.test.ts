@@ -76,7 +76,7 @@ describe("POST /api/v2/trips/preview", () => {
     expect(body).toMatchObject({
       ok: true,
       preview: {
-        plannerVersion: "corridor-v1",
+        plannerVersion: "corridor-v2",
         stops: [
           { position: 0, destinationSlug: "seoul", nights: 3, dayIndexes: [1, 2, 3] },
           { position: 1, destinationSlug: "busan", nights: 2, dayIndexes: [4, 5, 6] },
@@ -114,6 +114,28 @@ describe("POST /api/v2/trips/preview", () => {
     expect(JSON.stringify(body)).not.toContain("interests");
   });
 
+  it("explains optimized orders and lists the requested number of alternatives", async () => {
+    const optimized = (query: string) => POST(new NextRequest(`https://www.localley.io/api/v2/trips/preview${query}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...corridorGoldenTrips[4].request, objective: "transfer_minutes" }),
+    }));
+
+    const response = await optimized("?alternatives=1");
+    expect(response.status).toBe(200);
+    const { preview } = await response.json();
+    expect(preview.ordering).toMatchObject({
+      objective: "transfer_minutes",
+      chosen: { order: ["busan", "gyeongju", "seoul"], transferMinutes: 450 },
+    });
+    expect(preview.ordering.alternatives).toHaveLength(1);
+    expect(preview.ordering.explanation).toContain("40 fewer transfer minutes");
+
+    const invalid = await optimized("?alternatives=50");
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ ok: false, error: { code: "INVALID_REQUEST" } });
+  });
+
   it("rejects strict, malformed and over-capacity requests", async () => {
     const invalid = await POST(request({ ...corridorGoldenTrips[0].request, unexpected: true }));
     expect(invalid.status).toBe(400);
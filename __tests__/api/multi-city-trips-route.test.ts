@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as listRoute, POST as createRoute } from "@/app/api/v2/trips/route";
+import { DELETE, GET, PATCH } from "@/app/api/v2/trips/[id]/route";
+import { GET as versionsRoute } from "@/app/api/v2/trips/[id]/versions/route";
+import { corridorGoldenTrips } from "@/__tests__/fixtures/corridor-golden-trips";
+import { MultiCityTripRequestSchema, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import type { StoredTrip } from "@/lib/trips/trip-store";
+
+const TRIP_ID = "6f2c3c1e-8a53-4a57-9d6e-0f3b2b7d9a11";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(async () => ({ userId: "clerk_owner" as string | null })),
+  rateLimit: vi.fn(async () => null as NextResponse | null),
+  createTrip: vi.fn(),
+  listTrips: vi.fn(),
+  loadTrip: vi.fn(),
+  renameTrip: vi.fn(),
+  deleteTrip: vi.fn(),
+  saveTripReplan: vi.fn(),
+  listTripVersions: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: mocks.auth }));
+
+vi.mock("@/lib/rate-limit", () => ({
+  rateLimiters: { strict: mocks.rateLimit, standard: mocks.rateLimit, relaxed: mocks.rateLimit },
+}));
+
+vi.mock("@/lib/supabase-server", () => ({
+  createSupabaseServerClient: vi.fn(async () => ({})),
+}));
+
+vi.mock("@/lib/trips/trip-store", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/trips/trip-store")>();
+  return {
+    ...actual,
+    createTrip: mocks.createTrip,
+    listTrips: mocks.listTrips,
+    loadTrip: mocks.loadTrip,
+    renameTrip: mocks.renameTrip,
+    deleteTrip: mocks.deleteTrip,
+    saveTripReplan: mocks.saveTripReplan,
+    listTripVersions: mocks.listTripVersions,
+  };
+});
+
+function jsonRequest(method: string, body: unknown, path = "/api/v2/trips") {
+  return new NextRequest(`https://www.localley.io${path}`, {
+    method,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function bareRequest(method: string, path: string) {
+  return new NextRequest(`https://www.localley.io${path}`, { method });
+}
+
+function context(id = TRIP_ID) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function storedTrip(overrides: Partial<StoredTrip> = {}): StoredTrip {
+  const request = MultiCityTripRequestSchema.parse(corridorGoldenTrips[0].request);
+  return {
+    id: TRIP_ID,
+    title: "Korea rail loop",
+    status: "draft",
+    version: 1,
+    request,
+    plan: planCorridorTrip(request),
+    itinerary: null,
+    createdAt: "2026-07-20T00:00:00.000Z",
+    updatedAt: "2026-07-20T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("/api/v2/trips", () => {
+  const previousFlag = process.env.MULTI_CITY_TRIPS_API;
+
+  beforeEach(() => {
+    process.env.MULTI_CITY_TRIPS_API = "on";
+    vi.clearAllMocks();
+    mocks.auth.mockResolvedValue({ userId: "clerk_owner" });
+    mocks.rateLimit.mockResolvedValue(null);
+    mocks.createTrip.mockResolvedValue({ tripId: TRIP_ID, version: 1 });
+    mocks.loadTrip.mockResolvedValue(storedTrip());
+    mocks.saveTripReplan.mockResolvedValue({ tripId: TRIP_ID, version: 2 });
+    mocks.renameTrip.mockResolvedValue(true);
+    mocks.deleteTrip.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    if (previousFlag === undefined) delete process.env.MULTI_CITY_TRIPS_API;
+    else process.env.MULTI_CITY_TRIPS_API = previousFlag;
+  });
+
+  it("is undiscoverable when the server-only flag is off", async () => {
+    delete process.env.MULTI_CITY_TRIPS_API;
+    const response = await createRoute(jsonRequest("POST", { title: "x", trip: corridorGoldenTrips[0].request }));
+    expect(response.status).toBe(404);
+    expect(mocks.rateLimit).not.toHaveBeenCalled();
+    expect(mocks.createTrip).not.toHaveBeenCalled();
+  });
+
+  it("requires a signed-in owner", async () => {
+    mocks.auth.mockResolvedValue({ userId: null });
+    const response = await listRoute(bareRequest("GET", "/api/v2/trips"));
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ ok: false, error: { code: "UNAUTHORIZED" } });
+  });
+
+  it("plans and persists a new trip for the current user", async () => {
+    const response = await createRoute(jsonRequest("POST", {
+      title: "Korea rail loop",
+      trip: corridorGoldenTrips[0].request,
+    }));
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      ok: true,
+      trip: {
+        id: TRIP_ID,
+        version: 1,
+        plan: { stops: [{ destinationSlug: "seoul" }, { destinationSlug: "busan" }] },
+      },
+    });
+    expect(mocks.createTrip).toHaveBeenCalledWith(
+      expect.anything(),
+      "clerk_owner",
+      "Korea rail loop",
+      expect.objectContaining({ totalDays: 6 }),
+      expect.objectContaining({ plannerVersion: "corridor-v2" }),
+    );
+  });
+
+  it("rejects unplannable trips before touching storage", async () => {
+    const response = await createRoute(jsonRequest("POST", {
+      title: "Impossible",
+      trip: { ...corridorGoldenTrips[0].request, destinations: [{ destinationSlug: "seoul" }, { destinationSlug: "nara" }] },
+    }));
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ error: { code: "UNSUPPORTED_ROUTE" } });
+    expect(mocks.createTrip).not.toHaveBeenCalled();
+  });
+
+  it("reads a saved trip and hides trips owned by someone else", async () => {
+    const found = await GET(bareRequest("GET", `/api/v2/trips/${TRIP_ID}`), context());
+    expect(found.status).toBe(200);
+    expect(await found.json()).toMatchObject({ ok: true, trip: { id: TRIP_ID, title: "Korea rail loop", version: 1 } });
+    expect(mocks.loadTrip).toHaveBeenCalledWith(expect.anything(), "clerk_owner", TRIP_ID);
+
+    mocks.loadTrip.mockResolvedValue(null);
+    const missing = await GET(bareRequest("GET", `/api/v2/trips/${TRIP_ID}`), context());
+    expect(missing.status).toBe(404);
+
+    const malformed = await GET(bareRequest("GET", "/api/v2/trips/not-a-uuid"), context("not-a-uuid"));
+    expect(malformed.status).toBe(404);
+  });
+
+  it("re-plans and appends a version when nights change", async () => {
+    const response = await PATCH(jsonRequest("PATCH", {
+      trip: {
+        ...corridorGoldenTrips[0].request,
+        destinations: [
+          { destinationSlug: "seoul", nights: 2, locked: true },
+          { destinationSlug: "busan" },
+        ],
+      },
+    }, `/api/v2/trips/${TRIP_ID}`), context());
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ ok: true, replanned: true });
+    expect(mocks.saveTripReplan).toHaveBeenCalledWith(
+      expect.anything(),
+      "clerk_owner",
+      TRIP_ID,
+      null,
+      expect.anything(),
+      expect.objectContaining({
+        stops: [
+          expect.objectContaining({ destinationSlug: "seoul", nights: 2 }),
+          expect.objectContaining({ destinationSlug: "busan", nights: 3 }),
+        ],
+      }),
+      "Updated nights.",
+    );
+  });
+
+  it("renames without re-planning when the trip request is unchanged", async () => {
+    const response = await PATCH(jsonRequest("PATCH", {
+      title: "Renamed",
+      trip: corridorGoldenTrips[0].request,
+    }, `/api/v2/trips/${TRIP_ID}`), context());
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ replanned: false });
+    expect(mocks.saveTripReplan).not.toHaveBeenCalled();
+    expect(mocks.renameTrip).toHaveBeenCalledWith(expect.anything(), "clerk_owner", TRIP_ID, "Renamed");
+  });
+
+  it("rejects empty patches", async () => {
+    const response = await PATCH(jsonRequest("PATCH", {}, `/api/v2/trips/${TRIP_ID}`), context());
+    expect(response.status).toBe(400);
+  });
+
+  it("deletes owned trips and reports missing ones", async () => {
+    const deleted = await DELETE(bareRequest("DELETE", `/api/v2/trips/${TRIP_ID}`), context());
+    expect(deleted.status).toBe(200);
+
+    mocks.deleteTrip.mockResolvedValue(false);
+    const missing = await DELETE(bareRequest("DELETE", `/api/v2/trips/${TRIP_ID}`), context());
+    expect(missing.status).toBe(404);
+  });
+
+  it("lists the version history newest first", async () => {
+    const trip = storedTrip({ version: 2 });
+    mocks.loadTrip.mockResolvedValue(trip);
+    mocks.listTripVersions.mockResolvedValue([
+      { version: 2, plannerVersion: "corridor-v1", changeSummary: "Updated nights.", plan: trip.plan, createdAt: "2026-07-21T00:00:00.000Z" },
+      { version: 1, plannerVersion: "corridor-v1", changeSummary: "Created trip.", plan: trip.plan, createdAt: "2026-07-20T00:00:00.000Z" },
+    ]);
+    const response = await versionsRoute(bareRequest("GET", `/api/v2/trips/${TRIP_ID}/versions`), context());
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.currentVersion).toBe(2);
+    expect(body.versions.map((version: { version: number }) => version.version)).toEqual([2, 1]);
+  });
+});
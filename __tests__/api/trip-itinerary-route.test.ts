@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/v2/trips/[id]/itinerary/route";
+import { corridorGoldenTrips } from "@/__tests__/fixtures/corridor-golden-trips";
+import { MultiCityTripRequestSchema, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import { CorridorItineraryError } from "@/lib/trips/corridor-itinerary";
+
+const TRIP_ID = "6f2c3c1e-8a53-4a57-9d6e-0f3b2b7d9a11";
+
+const mocks = vi.hoisted(() => ({
+  auth: vi.fn(async () => ({ userId: "clerk_owner" as string | null })),
+  rateLimit: vi.fn(async () => null as NextResponse | null),
+  loadTrip: vi.fn(),
+  saveTripItinerary: vi.fn(),
+  charge: vi.fn(),
+  refundUsage: vi.fn(async () => ({ success: true, newCount: 0 })),
+  generateCorridorItinerary: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({ auth: mocks.auth }));
+
+vi.mock("@/lib/rate-limit", () => ({
+  rateLimiters: { strict: mocks.rateLimit, standard: mocks.rateLimit, relaxed: mocks.rateLimit },
+}));
+
+vi.mock("@/lib/supabase-server", () => ({
+  createSupabaseServerClient: vi.fn(async () => ({})),
+}));
+
+vi.mock("@/lib/llm", () => ({
+  getOrchestrator: vi.fn(() => ({ generateItinerary: vi.fn() })),
+}));
+
+vi.mock("@/lib/usage-tracking", () => ({
+  checkAndIncrementUsageWeighted: mocks.charge,
+  refundUsage: mocks.refundUsage,
+}));
+
+vi.mock("@/lib/trips/trip-store", () => ({
+  loadTrip: mocks.loadTrip,
+  saveTripItinerary: mocks.saveTripItinerary,
+}));
+
+vi.mock("@/lib/trips/corridor-itinerary", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/trips/corridor-itinerary")>();
+  return { ...actual, generateCorridorItinerary: mocks.generateCorridorItinerary };
+});
+
+const request = MultiCityTripRequestSchema.parse(corridorGoldenTrips[0].request);
+const plan = planCorridorTrip(request);
+const itinerary = { title: "Seoul → Busan", dailyPlans: [] };
+
+function generate() {
+  return POST(
+    new NextRequest(`https://www.localley.io/api/v2/trips/${TRIP_ID}/itinerary`, { method: "POST" }),
+    { params: Promise.resolve({ id: TRIP_ID }) },
+  );
+}
+
+describe("/api/v2/trips/[id]/itinerary", () => {
+  const previousFlag = process.env.MULTI_CITY_TRIPS_API;
+
+  beforeEach(() => {
+    process.env.MULTI_CITY_TRIPS_API = "on";
+    vi.clearAllMocks();
+    mocks.loadTrip.mockResolvedValue({ id: TRIP_ID, version: 3, request, plan, itinerary: null });
+    mocks.charge.mockResolvedValue({ allowed: true, tier: "pro" });
+    mocks.generateCorridorItinerary.mockResolvedValue(itinerary);
+    mocks.saveTripItinerary.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    if (previousFlag === undefined) delete process.env.MULTI_CITY_TRIPS_API;
+    else process.env.MULTI_CITY_TRIPS_API = previousFlag;
+  });
+
+  it("saves the itinerary against the trip version it was generated from", async () => {
+    const response = await generate();
+
+    expect(response.status).toBe(200);
+    expect(mocks.charge).toHaveBeenCalledWith("clerk_owner", "itineraries_created", plan.stops.length);
+    expect(mocks.saveTripItinerary).toHaveBeenCalledWith({}, TRIP_ID, 3, itinerary);
+    expect(mocks.refundUsage).not.toHaveBeenCalled();
+  });
+
+  it("refunds every stop's credit when a stop fails to generate", async () => {
+    mocks.generateCorridorItinerary.mockRejectedValue(new CorridorItineraryError("No Busan spots.", "busan"));
+
+    const response = await generate();
+
+    expect(response.status).toBe(422);
+    expect(mocks.saveTripItinerary).not.toHaveBeenCalled();
+    expect(mocks.refundUsage).toHaveBeenCalledWith("clerk_owner", "itineraries_created", plan.stops.length);
+  });
+
+  it("refunds and asks for a retry when the trip was re-planned meanwhile", async () => {
+    mocks.saveTripItinerary.mockResolvedValue(false);
+
+    const response = await generate();
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ ok: false, error: { code: "TRIP_CHANGED" } });
+    expect(mocks.refundUsage).toHaveBeenCalledWith("clerk_owner", "itineraries_created", plan.stops.length);
+  });
+
+  it("charges nothing, so refunds nothing, when the limit is reached", async () => {
+    mocks.charge.mockResolvedValue({ allowed: false, tier: "free" });
+
+    const response = await generate();
+
+    expect(response.status).toBe(429);
+    expect(mocks.generateCorridorItinerary).not.toHaveBeenCalled();
+    expect(mocks.refundUsage).not.toHaveBeenCalled();
+  });
+});
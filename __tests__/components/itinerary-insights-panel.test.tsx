@@ -1,6 +1,7 @@
 import { render, screen } from "@testing-library/react";
 import { describe, expect, it } from "vitest";
 import { ItineraryInsightsPanel } from "@/components/itinerary/itinerary-insights-panel";
+import { summarizeItineraryBudget } from "@/lib/itineraries/budget";
 
 const insights = [
   {
@@ -49,4 +50,38 @@ describe("ItineraryInsightsPanel", () => {
       screen.queryByText("This long helper should not appear in compact chat previews."),
     ).toBeNull();
   });
+
+  it("shows planned against logged spend when the viewer is on the trip", () => {
+    const budget = summarizeItineraryBudget({
+      dailyPlans: [{ day: 1, theme: "Mangwon", activities: [{ name: "Mangwon Market", category: "market", cost: "₩20,000" }] }],
+      currency: "KRW",
+      expenses: [
+        {
+          id: "expense-1",
+          activityKey: "mangwon market",
+          day: 1,
+          category: "food",
+          description: "",
+          amount: 25000,
+          currency: "KRW",
+          paidBy: "user_a",
+          splitWith: [],
+          spentOn: null,
+          createdBy: "user_a",
+          createdAt: "2026-10-19T08:00:00Z",
+        },
+      ],
+    });
+
+    const { rerender } = render(<ItineraryInsightsPanel insights={[]} budget={budget} showActual />);
+
+    expect(screen.getByText("Planned vs. spent")).toBeTruthy();
+    expect(screen.getByText("Day 1: Mangwon")).toBeTruthy();
+    expect(screen.getByText("Food & drink")).toBeTruthy();
+    expect(screen.getByText(/₩25,000 of/)).toBeTruthy();
+
+    rerender(<ItineraryInsightsPanel insights={[]} budget={budget} />);
+    expect(screen.getByText("Planned spend")).toBeTruthy();
+    expect(screen.queryByText(/₩25,000/)).toBeNull();
+  });
 });
@@ -1,4 +1,4 @@
-import { render, screen } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { describe, expect, it, vi } from "vitest";
 import {
   buildChatPreviewInsights,
@@ -69,6 +69,49 @@ describe("ItineraryPreview", () => {
     );
   });
 
+  it("renders and saves the structured itinerary without parsing the prose", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ itinerary: { id: "saved-1" } })));
+    vi.stubGlobal("fetch", fetchMock);
+    const dailyPlans = [{
+      day: 1,
+      theme: "Old Tokyo",
+      activities: [{
+        time: "10:00 AM",
+        type: "morning" as const,
+        name: "Yanaka Ginza",
+        address: "Yanaka Ginza, Taito City, Tokyo",
+        description: "Walk the old shopping street.",
+        category: "market",
+        localleyScore: 5,
+        duration: "1-2 hours",
+        cost: "$10-20",
+      }],
+    }];
+
+    render(
+      <ItineraryPreview
+        content="Here is a slow day in Yanaka."
+        itinerary={{ title: "Tokyo Hidden Gems", city: "Tokyo", dailyPlans, tips: ["Bring small bills."] }}
+      />
+    );
+
+    expect(screen.getByText("Day 1: Old Tokyo")).toBeTruthy();
+    expect(screen.getByText("Yanaka Ginza, Taito City, Tokyo")).toBeTruthy();
+    expect(screen.getByText("Hidden Gem")).toBeTruthy();
+    expect(screen.getByTestId("chat-trip-notes").textContent).toContain("Bring small bills.");
+
+    fireEvent.click(screen.getByRole("button", { name: /save/i }));
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    expect(JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string)).toMatchObject({
+      title: "Tokyo Hidden Gems",
+      city: "Tokyo",
+      days: 1,
+      activities: dailyPlans,
+    });
+
+    vi.unstubAllGlobals();
+  });
+
   it("dedupes repeated chat tips before rendering or saving insights", () => {
     expect(
       buildChatPreviewInsights([
@@ -0,0 +1,272 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { revalidateTag } from "next/cache";
+import {
+    decodeFeedCursor,
+    invalidateActivityFeed,
+    invalidateAllActivityFeeds,
+    loadActivityFeed,
+    resolveActivityPrivacy,
+    toSortableTimestamp,
+} from "@/lib/activity-feed";
+
+vi.mock("next/cache", () => ({
+    unstable_cache: (callback: () => unknown) => callback,
+    revalidateTag: vi.fn(),
+}));
+
+type Row = Record<string, unknown>;
+
+// Timestamps compare as instants, everything else as strings
+function compare(a: unknown, b: unknown): number {
+    const [x, y] = [String(a), String(b)];
+    if (/^\d{4}-\d{2}-\d{2}T/.test(x) && /^\d{4}-\d{2}-\d{2}T/.test(y)) return Date.parse(x) - Date.parse(y);
+    return x < y ? -1 : x > y ? 1 : 0;
+}
+
+const OPERATORS: Record<string, (order: number) => boolean> = {
+    lt: (order) => order < 0,
+    lte: (order) => order <= 0,
+    eq: (order) => order === 0,
+};
+
+// PostgREST's `or` filter syntax, as far as the feed uses it
+function parseLogic(expression: string): (row: Row) => boolean {
+    const terms: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let index = 0; index < expression.length; index++) {
+        if (expression[index] === "(") depth++;
+        if (expression[index] === ")") depth--;
+        if (expression[index] === "," && depth === 0) {
+            terms.push(expression.slice(start, index));
+            start = index + 1;
+        }
+    }
+    terms.push(expression.slice(start));
+
+    return (row) => terms.some((term) => {
+        if (term.startsWith("and(")) {
+            return term.slice(4, -1).split(/,(?=\w+\.)/).every((part) => parseLogic(part)(row));
+        }
+        const [, column, operator, value] = /^(\w+)\.(\w+)\."?(.*?)"?$/.exec(term)!;
+        return OPERATORS[operator](compare(row[column], value));
+    });
+}
+
+function fakeSupabase(tables: Record<string, Row[]>) {
+    return {
+        from(table: string) {
+            const rows = tables[table] ?? [];
+            const filters: Array<(row: Row) => boolean> = [];
+            const orderBy: string[] = [];
+            let max = Infinity;
+            const run = () => {
+                const found = rows.filter((row) => filters.every((filter) => filter(row)));
+                found.sort((a, b) => {
+                    for (const column of orderBy) {
+                        const order = compare(b[column], a[column]);
+                        if (order !== 0) return order;
+                    }
+                    return 0;
+                });
+                return { data: found.slice(0, max), error: null };
+            };
+            const builder = {
+                select: () => builder,
+                eq: (column: string, value: unknown) => {
+                    filters.push((row) => row[column] === value);
+                    return builder;
+                },
+                in: (column: string, values: unknown[]) => {
+                    filters.push((row) => values.includes(row[column]));
+                    return builder;
+                },
+                not: (column: string) => {
+                    filters.push((row) => row[column] != null);
+                    return builder;
+                },
+                lt: (column: string, value: string) => {
+                    filters.push((row) => compare(row[column], value) < 0);
+                    return builder;
+                },
+                lte: (column: string, value: string) => {
+                    filters.push((row) => compare(row[column], value) <= 0);
+                    return builder;
+                },
+                or: (expression: string) => {
+                    filters.push(parseLogic(expression));
+                    return builder;
+                },
+                order: (column: string) => {
+                    orderBy.push(column);
+                    return builder;
+                },
+                limit: (count: number) => {
+                    max = count;
+                    return builder;
+                },
+                then: (resolve: (value: ReturnType<typeof run>) => void) => resolve(run()),
+            };
+            return builder;
+        },
+    } as unknown as SupabaseClient;
+}
+
+function user(clerkId: string, activityPrivacy: Row = {}) {
+    return { clerk_id: clerkId, username: clerkId, level: 3, activity_privacy: activityPrivacy };
+}
+
+function review(id: string, clerkUserId: string, createdAt: string) {
+    return {
+        id,
+        spot_id: `spot-${id}`,
+        rating: 4,
+        comment: "Worth the queue",
+        created_at: createdAt,
+        clerk_user_id: clerkUserId,
+        spot: { name: { en: "Gwangjang Market" } },
+    };
+}
+
+function reviewId(index: number) {
+    return `7f0c2a4e-2f55-4d3c-9a55-5d9f6b1e8c0${index}`;
+}
+
+describe("loadActivityFeed", () => {
+    it("merges followed users' activity newest first, within their privacy settings", async () => {
+        const supabase = fakeSupabase({
+            follows: [
+                { follower_id: "me", following_id: "ana" },
+                { follower_id: "me", following_id: "ben" },
+                { follower_id: "me", following_id: "cho" },
+                { follower_id: "me", following_id: "dan" },
+                { follower_id: "dan", following_id: "me" },
+            ],
+            users: [
+                user("ana", { reviews: false }),
+                user("ben", { audience: "nobody" }),
+                user("cho", { audience: "mutuals" }),
+                user("dan", { audience: "mutuals" }),
+            ],
+            itineraries: [
+                {
+                    id: "it-1",
+                    title: "Seoul after dark",
+                    city: "Seoul",
+                    days: 3,
+                    share_code: "abc123",
+                    shared: true,
+                    shared_at: "2026-10-18T10:00:00.000Z",
+                    clerk_user_id: "ana",
+                },
+            ],
+            spot_reviews: [
+                review("r-ana", "ana", "2026-10-19T09:00:00.000Z"),
+                review("r-ben", "ben", "2026-10-19T09:30:00.000Z"),
+                review("r-cho", "cho", "2026-10-19T09:40:00.000Z"),
+                review("r-dan", "dan", "2026-10-17T08:00:00.000Z"),
+            ],
+            social_spot_submissions: [
+                {
+                    id: "sub-1",
+                    spot_id: "spot-9",
+                    status: "needs_review",
+                    platform: "tiktok",
+                    extracted_name: "Pending bar",
+                    created_at: "2026-10-19T11:00:00.000Z",
+                    clerk_user_id: "ana",
+                },
+            ],
+            user_challenges: [
+                {
+                    challenge_id: "ch-1",
+                    completed: true,
+                    completed_at: "2026-10-19T07:00:00.000Z",
+                    clerk_user_id: "ana",
+                    challenge: { name: "Busan Explorer", city: "busan", xp_reward: 300 },
+                },
+            ],
+        });
+
+        const page = await loadActivityFeed("me", { limit: 10 }, supabase);
+
+        expect(page.items.map((item) => [item.kind, item.actor.clerkId, item.title])).toEqual([
+            ["challenge_completed", "ana", "Busan Explorer"],
+            ["itinerary_published", "ana", "Seoul after dark"],
+            ["spot_reviewed", "dan", "Gwangjang Market"],
+        ]);
+        expect(page.items[1]).toMatchObject({ href: "/shared/abc123", detail: "3-day trip", city: "Seoul" });
+        expect(page.nextCursor).toBeNull();
+    });
+
+    it("pages with a cursor without skipping or repeating same-time activity", async () => {
+        const reviews = Array.from({ length: 5 }, (_, index) =>
+            review(reviewId(index), "ana", index < 3 ? "2026-10-19T09:00:00.000Z" : `2026-10-1${index}T09:00:00.000Z`)
+        );
+        const supabase = fakeSupabase({
+            follows: [{ follower_id: "me", following_id: "ana" }],
+            users: [user("ana")],
+            spot_reviews: reviews,
+        });
+
+        const first = await loadActivityFeed("me", { limit: 2 }, supabase);
+        const second = await loadActivityFeed("me", { limit: 2, cursor: first.nextCursor }, supabase);
+        const third = await loadActivityFeed("me", { limit: 2, cursor: second.nextCursor }, supabase);
+
+        const ids = [first, second, third].flatMap((page) => page.items.map((item) => item.id));
+        expect(ids).toEqual([2, 1, 0, 4, 3].map((index) => `spot_reviewed:${reviewId(index)}`));
+        expect(third.nextCursor).toBeNull();
+    });
+
+    it("is empty for someone who follows nobody", async () => {
+        const page = await loadActivityFeed("me", {}, fakeSupabase({ follows: [] }));
+        expect(page).toEqual({ items: [], nextCursor: null });
+    });
+});
+
+describe("activity feed helpers", () => {
+    it("falls back to defaults for missing or malformed privacy settings", () => {
+        expect(resolveActivityPrivacy({ audience: "everyone", reviews: false, challenges: "no" })).toEqual({
+            audience: "followers",
+            itineraries: true,
+            reviews: false,
+            submissions: true,
+            challenges: true,
+        });
+        expect(decodeFeedCursor("not-a-cursor")).toBeNull();
+    });
+
+    it("rejects cursors whose key or timestamp could reach the filter unescaped", () => {
+        const cursor = (occurredAt: string, id: string) =>
+            Buffer.from(JSON.stringify([occurredAt, id])).toString("base64url");
+        const at = "2026-10-19T09:00:00.000000Z";
+
+        expect(decodeFeedCursor(cursor(at, `spot_reviewed:${reviewId(1)}`))).toEqual({
+            occurredAt: at,
+            id: `spot_reviewed:${reviewId(1)}`,
+            kind: "spot_reviewed",
+            key: reviewId(1),
+        });
+        expect(decodeFeedCursor(cursor(at, 'spot_reviewed:x",id.gt.0'))).toBeNull();
+        expect(decodeFeedCursor(cursor(at, "spot_reviewed:r1"))).toBeNull();
+        expect(decodeFeedCursor(cursor('2026-10-19T09:00:00Z",id.gt."0', `spot_reviewed:${reviewId(1)}`))).toBeNull();
+        expect(decodeFeedCursor(cursor("October 19, 2026", `spot_reviewed:${reviewId(1)}`))).toBeNull();
+    });
+
+    it("keeps Postgres microseconds in timestamps so they sort as strings", () => {
+        expect(toSortableTimestamp("2026-10-19T09:00:00.1234+00:00")).toBe("2026-10-19T09:00:00.123400Z");
+        expect(toSortableTimestamp("2026-10-19 18:00:00+09")).toBe("2026-10-19T09:00:00.000000Z");
+        expect(toSortableTimestamp("2026-10-19T09:00:00.5Z") > toSortableTimestamp("2026-10-19T09:00:00.123Z")).toBe(true);
+    });
+});
+
+describe("feed invalidation", () => {
+    it("expires cached pages at once so hidden activity isn't served stale", () => {
+        invalidateActivityFeed("user_viewer");
+        invalidateAllActivityFeeds();
+
+        expect(revalidateTag).toHaveBeenCalledWith("activity-feed:user_viewer", { expire: 0 });
+        expect(revalidateTag).toHaveBeenCalledWith("activity-feed", { expire: 0 });
+    });
+});
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recordChallengeEvent } from "@/lib/challenges/engine";
+
+const mocks = vi.hoisted(() => ({
+    notifyAchievementUnlocked: vi.fn(async () => ({ notification: null, pushSent: 0 })),
+    awardXp: vi.fn(async () => ({ status: "awarded", awarded: 300 })),
+}));
+
+vi.mock("@/lib/notification-triggers", () => ({
+    notifyAchievementUnlocked: mocks.notifyAchievementUnlocked,
+}));
+
+vi.mock("@/lib/xp-ledger", () => ({
+    awardXp: mocks.awardXp,
+}));
+
+type Row = Record<string, unknown>;
+
+// Just enough of the query builder for the engine: eq/in filters, select,
+// update, insert honouring the (user_id, challenge_id) primary key
+function fakeSupabase(tables: Record<string, Row[]>) {
+    return {
+        from(table: string) {
+            const rows = (tables[table] ??= []);
+            const filters: Array<(row: Row) => boolean> = [];
+            let patch: Row | null = null;
+            const matching = () => rows.filter((row) => filters.every((filter) => filter(row)));
+            const run = () => {
+                const found = matching();
+                if (patch) found.forEach((row) => Object.assign(row, patch));
+                return { data: found, error: null };
+            };
+            const builder = {
+                select: () => builder,
+                eq: (column: string, value: unknown) => {
+                    filters.push((row) => row[column] === value);
+                    return builder;
+                },
+                in: (column: string, values: unknown[]) => {
+                    filters.push((row) => values.includes(row[column]));
+                    return builder;
+                },
+                update: (values: Row) => {
+                    patch = values;
+                    return builder;
+                },
+                insert: async (values: Row) => {
+                    const taken = rows.some(
+                        (row) => row.user_id === values.user_id && row.challenge_id === values.challenge_id
+                    );
+                    if (taken) return { error: { code: "23505", message: "duplicate key" } };
+                    rows.push({ completed: false, ...values });
+                    return { error: null };
+                },
+                maybeSingle: async () => ({ data: run().data[0] ?? null, error: null }),
+                single: async () => ({ data: run().data[0] ?? null, error: null }),
+                then: (resolve: (value: { data: Row[]; error: null }) => void) => resolve(run()),
+            };
+            return builder;
+        },
+    } as unknown as SupabaseClient;
+}
+
+let tables: Record<string, Row[]>;
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    tables = {
+        users: [{ id: "u1", clerk_id: "user_1", xp: 90 }],
+        spots: [
+            { id: "gem-1", name: { en: "Ilgwang Beach Cafe" }, address: { en: "Ilgwang, Busan" }, category: "cafe", localley_score: 5, destination: { slug: "busan" } },
+            { id: "gem-2", name: { en: "Huinnyeoul" }, address: { en: "Yeongdo, Busan" }, category: "walk", localley_score: 6, destination: null },
+            { id: "tourist", name: { en: "Haeundae Beach" }, address: { en: "Haeundae, Busan" }, category: "beach", localley_score: 2, destination: { slug: "busan" } },
+        ],
+        challenges: [
+            {
+                id: "gems",
+                name: "Busan Gem Hunter",
+                description: "Review 2 hidden gems in Busan this month",
+                city: "Busan",
+                xp_reward: 300,
+                requirements: { type: "count", event: "review_posted", target: 2, filter: { minLocalleyScore: 5 } },
+                starts_at: "2026-10-01T00:00:00Z",
+                ends_at: "2026-11-01T00:00:00Z",
+            },
+            {
+                id: "collector",
+                name: "Collector",
+                description: "Save 5 spots",
+                city: null,
+                xp_reward: 100,
+                requirements: { type: "saved_spots", count: 5 },
+                starts_at: null,
+                ends_at: null,
+            },
+        ],
+        user_challenges: [],
+    };
+});
+
+function review(spotId: string, occurredAt = "2026-10-19T08:00:00Z") {
+    return recordChallengeEvent(
+        { type: "review_posted", clerkUserId: "user_1", subjectId: spotId, spotId, rating: 5, occurredAt },
+        fakeSupabase(tables)
+    );
+}
+
+describe("recordChallengeEvent", () => {
+    it("stores progress per event and awards the challenge once it completes", async () => {
+        expect(await review("gem-1")).toEqual([]);
+        expect(await review("tourist")).toEqual([]);
+        expect(tables.user_challenges).toEqual([
+            expect.objectContaining({ challenge_id: "gems", progress: { count: 1, seen: ["gem-1"] }, completed: false }),
+        ]);
+
+        // The spot has no destination yet, so its city comes from the address
+        expect(await review("gem-2")).toEqual([{ id: "gems", name: "Busan Gem Hunter", xpAwarded: 300 }]);
+        expect(tables.user_challenges[0]).toMatchObject({ progress: { count: 2 }, completed: true });
+        expect(mocks.awardXp).toHaveBeenCalledWith(
+            {
+                clerkUserId: "user_1",
+                reason: "challenge_completed",
+                source: { type: "challenge", id: "gems" },
+                city: "Busan",
+                amount: 300,
+            },
+            expect.anything()
+        );
+        expect(mocks.notifyAchievementUnlocked).toHaveBeenCalledWith(
+            "user_1",
+            "Busan Gem Hunter",
+            "Review 2 hidden gems in Busan this month",
+            300
+        );
+
+        // Finished challenges ignore further events
+        expect(await review("gem-3")).toEqual([]);
+        expect(mocks.notifyAchievementUnlocked).toHaveBeenCalledTimes(1);
+        expect(mocks.awardXp).toHaveBeenCalledTimes(1);
+    });
+
+    it("counts every event when several arrive at once", async () => {
+        await Promise.all([review("gem-1"), review("tourist"), review("gem-2")]);
+
+        expect(tables.user_challenges).toEqual([
+            expect.objectContaining({ challenge_id: "gems", progress: expect.objectContaining({ count: 2 }), completed: true }),
+        ]);
+        expect(mocks.awardXp).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores events outside a challenge's window", async () => {
+        await review("gem-1", "2026-11-02T08:00:00Z");
+        expect(tables.user_challenges).toEqual([]);
+    });
+
+    it("drives the original challenge types from events too", async () => {
+        const supabase = fakeSupabase(tables);
+        await recordChallengeEvent({ type: "spot_saved", clerkUserId: "user_1", subjectId: "tourist" }, supabase);
+
+        expect(tables.user_challenges).toEqual([
+            expect.objectContaining({ challenge_id: "collector", clerk_user_id: "user_1", progress: { count: 1, seen: ["tourist"] } }),
+        ]);
+    });
+
+    it("never throws into the action that raised the event", async () => {
+        const broken = { from: () => { throw new Error("connection reset"); } } as unknown as SupabaseClient;
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await expect(
+            recordChallengeEvent({ type: "spot_saved", clerkUserId: "user_1" }, broken)
+        ).resolves.toEqual([]);
+    });
+});
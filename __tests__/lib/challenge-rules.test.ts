@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+    applyChallengeEvent,
+    describeChallengeRule,
+    describeChallengeSteps,
+    isChallengeActive,
+    isChallengeRuleComplete,
+    measureChallengeRule,
+    parseChallengeRule,
+    type ChallengeEvent,
+    type ChallengeProgress,
+    type ChallengeRule,
+} from "@/lib/challenges/rules";
+
+function review(subjectId: string, overrides: Partial<ChallengeEvent> = {}): ChallengeEvent {
+    return { type: "review_posted", clerkUserId: "user_1", subjectId, city: "busan", localleyScore: 5, ...overrides };
+}
+
+function replay(rule: ChallengeRule, events: ChallengeEvent[], scope: { city?: string | null } = {}) {
+    return events.reduce<ChallengeProgress>((progress, event) => applyChallengeEvent(rule, progress, event, scope), {});
+}
+
+describe("parseChallengeRule", () => {
+    it("reads the original requirement types as event rules", () => {
+        expect(parseChallengeRule({ type: "itinerary_count", count: 5 })).toEqual({
+            type: "count",
+            event: "itinerary_created",
+            target: 5,
+        });
+        expect(parseChallengeRule({ type: "streak", days: 7 })).toEqual({
+            type: "reach",
+            event: "streak_extended",
+            target: 7,
+        });
+    });
+
+    it("validates declarative rules and rejects anything else", () => {
+        const rule = {
+            type: "sequence",
+            rules: [
+                { type: "count", event: "spot_saved", target: 1 },
+                { type: "count", event: "review_posted", target: 1, filter: { minLocalleyScore: 5 } },
+            ],
+        };
+        expect(parseChallengeRule(rule)).toEqual(rule);
+        expect(parseChallengeRule({ type: "count", event: "spot_teleported", target: 1 })).toBeNull();
+        expect(parseChallengeRule({ type: "all", rules: [] })).toBeNull();
+        expect(parseChallengeRule(null)).toBeNull();
+    });
+});
+
+describe("applyChallengeEvent", () => {
+    const hiddenGems: ChallengeRule = { type: "count", event: "review_posted", target: 3, filter: { minLocalleyScore: 5 } };
+
+    it("counts matching events once per subject in the challenge's city", () => {
+        const progress = replay(
+            hiddenGems,
+            [
+                review("spot-1"),
+                review("spot-1"),
+                review("spot-2", { city: "seoul" }),
+                review("spot-3", { localleyScore: 3 }),
+                review("spot-4"),
+                { type: "spot_saved", clerkUserId: "user_1", subjectId: "spot-5", city: "busan", localleyScore: 6 },
+            ],
+            { city: "Busan" }
+        );
+
+        expect(progress).toEqual({ count: 2, seen: ["spot-1", "spot-4"] });
+        expect(isChallengeRuleComplete(hiddenGems, progress)).toBe(false);
+
+        const done = applyChallengeEvent(hiddenGems, progress, review("spot-6"), { city: "Busan" });
+        expect(done).toEqual({ count: 3 });
+        expect(isChallengeRuleComplete(hiddenGems, done)).toBe(true);
+    });
+
+    it("returns the same progress when an event doesn't count", () => {
+        const progress = { count: 1, seen: ["spot-1"] };
+        expect(applyChallengeEvent(hiddenGems, progress, review("spot-1"))).toBe(progress);
+    });
+
+    it("keeps the best value for reach rules", () => {
+        const streak: ChallengeRule = { type: "reach", event: "streak_extended", target: 7 };
+        const progress = replay(streak, [3, 5, 2].map((value) => ({ type: "streak_extended", clerkUserId: "user_1", value })));
+
+        expect(progress).toEqual({ count: 5 });
+        expect(measureChallengeRule(streak, progress)).toEqual({ current: 5, total: 7 });
+    });
+
+    it("advances a sequence one step at a time", () => {
+        const anywhereThenSeoul: ChallengeRule = {
+            type: "sequence",
+            rules: [
+                { type: "count", event: "review_posted", target: 1 },
+                { type: "count", event: "review_posted", target: 1, city: "Seoul" },
+            ],
+        };
+
+        const afterOne = replay(anywhereThenSeoul, [review("spot-1", { city: "seoul" })]);
+        expect(afterOne).toEqual({ steps: [{ count: 1 }, {}] });
+
+        const afterTwo = applyChallengeEvent(anywhereThenSeoul, afterOne, review("spot-2", { city: "seoul" }));
+        expect(isChallengeRuleComplete(anywhereThenSeoul, afterTwo)).toBe(true);
+    });
+
+    it("offers each event to every step of an all rule", () => {
+        const both: ChallengeRule = {
+            type: "all",
+            rules: [
+                { type: "count", event: "spot_saved", target: 2 },
+                { type: "count", event: "itinerary_shared", target: 1 },
+            ],
+        };
+        const progress = replay(both, [
+            { type: "itinerary_shared", clerkUserId: "user_1", subjectId: "trip-1" },
+            { type: "spot_saved", clerkUserId: "user_1", subjectId: "spot-1" },
+        ]);
+
+        expect(measureChallengeRule(both, progress)).toEqual({ current: 2, total: 3 });
+        expect(describeChallengeSteps(both, progress)).toEqual([
+            { label: "Save 2 spots", current: 1, total: 2, isCompleted: false },
+            { label: "Share an itinerary", current: 1, total: 1, isCompleted: true },
+        ]);
+    });
+});
+
+describe("challenge helpers", () => {
+    it("describes rules in words", () => {
+        expect(describeChallengeRule({ type: "count", event: "review_posted", target: 3, city: "Busan", filter: { minLocalleyScore: 5 } }))
+            .toBe("Review 3 hidden gems in Busan");
+        expect(describeChallengeRule({ type: "reach", event: "streak_extended", target: 7 })).toBe("Reach a 7-day streak");
+        expect(describeChallengeRule({ type: "count", event: "spot_saved", target: 1, label: "Save your first find" }))
+            .toBe("Save your first find");
+    });
+
+    it("only treats challenges as active inside their window", () => {
+        const october = { starts_at: "2026-10-01T00:00:00Z", ends_at: "2026-11-01T00:00:00Z" };
+        expect(isChallengeActive(october, new Date("2026-10-19T00:00:00Z"))).toBe(true);
+        expect(isChallengeActive(october, new Date("2026-11-02T00:00:00Z"))).toBe(false);
+        expect(isChallengeActive({}, new Date("2026-11-02T00:00:00Z"))).toBe(true);
+    });
+});
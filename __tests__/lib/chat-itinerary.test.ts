@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  chatItineraryFromMarkdown,
+  resolveChatItinerary,
+  stripChatItineraryBlock,
+  type ChatItinerary,
+} from "@/lib/itineraries/chat-itinerary";
+
+const activity = {
+  time: "10:00 AM",
+  type: "morning" as const,
+  name: "Yanaka Ginza",
+  address: "Yanaka Ginza, Taito City, Tokyo",
+  description: "Walk the old shopping street and snack on menchi-katsu.",
+  category: "market",
+  localleyScore: 5,
+  duration: "1-2 hours",
+  cost: "$10-20",
+};
+
+const itinerary: ChatItinerary = {
+  title: "Tokyo Hidden Gems",
+  city: "Tokyo",
+  dailyPlans: [{ day: 1, theme: "Old Tokyo", activities: [activity] }],
+  tips: ["Bring small bills."],
+};
+
+const prose = "# Tokyo Hidden Gems\n\n**Day 1: Old Tokyo**\n\n- **Yanaka Ginza (Hidden Gem)**: Snacks.";
+
+function reply(payload: unknown): string {
+  return `${prose}\n\n\`\`\`itinerary-json\n${typeof payload === "string" ? payload : JSON.stringify(payload)}\n\`\`\``;
+}
+
+describe("structured chat itineraries", () => {
+  it("separates the prose from a valid itinerary", async () => {
+    const repair = vi.fn();
+
+    await expect(resolveChatItinerary(reply(itinerary), { repair })).resolves.toEqual({ content: prose, itinerary });
+    await expect(resolveChatItinerary("Try Yanaka on a weekday.")).resolves.toEqual({
+      content: "Try Yanaka on a weekday.",
+    });
+    expect(repair).not.toHaveBeenCalled();
+  });
+
+  it("hides a block that is still streaming in", () => {
+    expect(stripChatItineraryBlock(`${prose}\n\n\`\`\`itinerary-json\n{"title": "Tok`)).toBe(prose);
+  });
+
+  it("repairs invalid activities and keeps the place the draft named", async () => {
+    const repaired = { ...activity, name: "Kayaba Coffee", address: "6-1-29 Yanaka, Taito City, Tokyo", type: "afternoon" as const };
+    const repair = vi.fn(async () => [repaired, null]);
+    const draft = {
+      city: "Tokyo",
+      dailyPlans: [{
+        day: 1,
+        activities: [
+          activity,
+          { name: "Kayaba Coffee", type: "afternoon", address: "6-1-29 Yanaka, Taito City, Tokyo", localleyScore: "5" },
+          { description: "Somewhere nice for dinner" },
+        ],
+      }],
+    };
+
+    const result = await resolveChatItinerary(reply(draft), { repair });
+
+    expect(repair).toHaveBeenCalledWith("Tokyo", [
+      expect.objectContaining({
+        dayTheme: "Day 1",
+        timeSlot: "afternoon",
+        name: "Kayaba Coffee",
+        address: "6-1-29 Yanaka, Taito City, Tokyo",
+        problems: expect.stringContaining("localleyScore"),
+      }),
+      expect.objectContaining({ dayTheme: "Day 1", timeSlot: "afternoon", problems: expect.stringContaining("name") }),
+    ]);
+    expect(result).toEqual({
+      content: prose,
+      itinerary: {
+        title: "Tokyo Hidden Gems",
+        city: "Tokyo",
+        dailyPlans: [{ day: 1, theme: "Day 1", activities: [activity, repaired] }],
+      },
+    });
+  });
+
+  it("falls back to the prose alone when the block cannot be used", async () => {
+    const logger = { error: vi.fn() };
+
+    await expect(resolveChatItinerary(reply("{not json"), { logger })).resolves.toEqual({ content: prose });
+    await expect(
+      resolveChatItinerary(reply({ city: "Tokyo", dailyPlans: [{ activities: [{ name: "Nowhere" }] }] }), {
+        repair: async () => [null],
+        logger,
+      })
+    ).resolves.toEqual({ content: prose });
+    expect(logger.error).toHaveBeenCalledWith("[ChatItinerary] Itinerary block is not valid JSON:", expect.any(SyntaxError));
+    expect(logger.error).toHaveBeenCalledWith("[ChatItinerary] Itinerary still invalid after repair:", expect.any(String));
+  });
+
+  it("recovers legacy markdown itineraries into the same shape", () => {
+    const legacy = chatItineraryFromMarkdown(`# Tokyo Hidden Gems
+
+**Day 1: Local Food**
+
+- **Tsukiji Outer Market (Local Favorite)**: Snack through named stalls in the morning.
+  Address: Tsukiji Outer Market, Chuo City, Tokyo
+
+**Local Tips**
+- Bring small bills.
+`);
+
+    expect(legacy).toMatchObject({
+      title: "Tokyo Hidden Gems",
+      city: "Tokyo",
+      dailyPlans: [{
+        day: 1,
+        theme: "Local Food",
+        activities: [{
+          name: "Tsukiji Outer Market",
+          address: "Tsukiji Outer Market, Chuo City, Tokyo",
+          description: "Snack through named stalls in the morning.",
+          localleyScore: 4,
+          type: "morning",
+        }],
+      }],
+      tips: ["Bring small bills."],
+    });
+  });
+});
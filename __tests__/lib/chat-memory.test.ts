@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildConversationMemoryContext,
+  compactConversationMemory,
+  loadConversationMemory,
+  mergeConversationMessages,
+  summarizeConversation,
+  type ConversationMemory,
+  type StoredChatMessage,
+} from "@/lib/chat-memory";
+
+const mocks = vi.hoisted(() => ({
+  generateChatReplyWithFallback: vi.fn(),
+}));
+
+vi.mock("@/lib/llm/chat-provider", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm/chat-provider")>()),
+  generateChatReplyWithFallback: mocks.generateChatReplyWithFallback,
+}));
+
+const CONVERSATION_ID = "5b7e8a4c-2f0d-4c1b-9a57-0f7c3e2d1a90";
+
+function turns(count: number): StoredChatMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? "user" : "assistant",
+    content: `message ${index}`,
+    createdAt: new Date(Date.UTC(2026, 7, 1, 10, index)).toISOString(),
+  }));
+}
+
+function memory(overrides: Partial<ConversationMemory> = {}): ConversationMemory {
+  return {
+    conversationId: CONVERSATION_ID,
+    summary: null,
+    summarizedThrough: null,
+    preferences: {},
+    messages: turns(4),
+    ...overrides,
+  };
+}
+
+/**
+ * Records every query; `rows` answers by table
+ */
+function createSupabase(rows: Record<string, unknown>) {
+  const calls: Array<{ table: string; ops: Array<[string, ...unknown[]]> }> = [];
+  const from = vi.fn((table: string) => {
+    const call = { table, ops: [] as Array<[string, ...unknown[]]> };
+    calls.push(call);
+    const builder: Record<string, unknown> = {};
+    for (const op of ["select", "eq", "gt", "order", "limit", "update"]) {
+      builder[op] = (...args: unknown[]) => {
+        call.ops.push([op, ...args]);
+        return builder;
+      };
+    }
+    builder.maybeSingle = async () => ({ data: rows[table] ?? null, error: null });
+    builder.then = (resolve: (value: unknown) => void) => resolve({ data: rows[table] ?? null, error: null });
+    return builder;
+  });
+  return { client: { from } as unknown as SupabaseClient, calls };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("loading conversation memory", () => {
+  it("loads only messages after the summary, oldest first, with their tool calls", async () => {
+    const toolCalls = [{ id: "call_1", name: "get_itinerary", arguments: {}, result: {}, isError: false }];
+    const { client, calls } = createSupabase({
+      conversations: {
+        id: CONVERSATION_ID,
+        summary: "Planning Seoul.",
+        summarized_through: "2026-08-01T10:00:00.000Z",
+        traveller_preferences: { budget: "mid-range", dietary: "not a list" },
+      },
+      messages: [
+        { role: "assistant", content: "Updated day 2.", tool_calls: toolCalls, created_at: "2026-08-01T10:02:00.000Z" },
+        { role: "user", content: "Swap lunch", tool_calls: null, created_at: "2026-08-01T10:01:00.000Z" },
+      ],
+    });
+
+    const loaded = await loadConversationMemory(client, "user_a", CONVERSATION_ID);
+
+    expect(loaded).toEqual({
+      conversationId: CONVERSATION_ID,
+      summary: "Planning Seoul.",
+      summarizedThrough: "2026-08-01T10:00:00.000Z",
+      preferences: {},
+      messages: [
+        { role: "user", content: "Swap lunch", createdAt: "2026-08-01T10:01:00.000Z" },
+        { role: "assistant", content: "Updated day 2.", createdAt: "2026-08-01T10:02:00.000Z", toolCalls },
+      ],
+    });
+    expect(calls[0].ops).toContainEqual(["eq", "clerk_user_id", "user_a"]);
+    expect(calls[1].ops).toContainEqual(["gt", "created_at", "2026-08-01T10:00:00.000Z"]);
+  });
+
+  it("returns null for a conversation the user does not own", async () => {
+    const { client, calls } = createSupabase({});
+
+    await expect(loadConversationMemory(client, "user_b", CONVERSATION_ID)).resolves.toBeNull();
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("compacting conversation memory", () => {
+  it("leaves short conversations alone", async () => {
+    const { client, calls } = createSupabase({});
+    const summarize = vi.fn();
+    const current = memory();
+
+    await expect(compactConversationMemory(client, "user_a", current, { summarize })).resolves.toBe(current);
+    expect(summarize).not.toHaveBeenCalled();
+    expect(calls).toHaveLength(0);
+  });
+
+  it("folds older turns into the stored summary and pins preferences", async () => {
+    const { client, calls } = createSupabase({});
+    const messages = turns(30);
+    const summarize = vi.fn(async () => ({
+      summary: "Planning 4 days in Seoul for two.",
+      preferences: { dates: "12-15 May", dietary: ["vegetarian"], party: "2 adults" },
+    }));
+
+    const compacted = await compactConversationMemory(
+      client,
+      "user_a",
+      memory({ summary: "Earlier.", preferences: { budget: "mid-range" }, messages }),
+      { summarize }
+    );
+
+    expect(summarize).toHaveBeenCalledWith({
+      previousSummary: "Earlier.",
+      preferences: { budget: "mid-range" },
+      messages: messages.slice(0, 20),
+    });
+    expect(compacted).toMatchObject({
+      summary: "Planning 4 days in Seoul for two.",
+      summarizedThrough: messages[19].createdAt,
+      preferences: { dates: "12-15 May", dietary: ["vegetarian"], party: "2 adults" },
+      messages: messages.slice(20),
+    });
+    expect(calls[0].table).toBe("conversations");
+    expect(calls[0].ops).toEqual([
+      ["update", {
+        summary: "Planning 4 days in Seoul for two.",
+        summarized_through: messages[19].createdAt,
+        traveller_preferences: { dates: "12-15 May", dietary: ["vegetarian"], party: "2 adults" },
+      }],
+      ["eq", "id", CONVERSATION_ID],
+      ["eq", "clerk_user_id", "user_a"],
+    ]);
+  });
+
+  it("keeps fewer verbatim turns when recent messages are long", async () => {
+    const { client } = createSupabase({});
+    const messages = turns(12).map((message) => ({ ...message, content: "x".repeat(5000) }));
+
+    const compacted = await compactConversationMemory(client, "user_a", memory({ messages }), {
+      summarize: async () => ({ summary: "Long chat.", preferences: {} }),
+    });
+
+    expect(compacted.messages).toEqual(messages.slice(-2));
+  });
+
+  it("trims the request without persisting when summarising fails", async () => {
+    const { client, calls } = createSupabase({});
+    const logger = { error: vi.fn() };
+    const messages = turns(30);
+
+    const compacted = await compactConversationMemory(client, "user_a", memory({ summary: "Earlier.", messages }), {
+      summarize: async () => {
+        throw new Error("503 upstream unavailable");
+      },
+      logger,
+    });
+
+    expect(compacted).toMatchObject({ summary: "Earlier.", summarizedThrough: null, messages: messages.slice(20) });
+    expect(calls).toHaveLength(0);
+    expect(logger.error).toHaveBeenCalledWith("[CHAT_MEMORY] Could not summarise conversation:", expect.any(Error));
+  });
+});
+
+describe("conversation memory helpers", () => {
+  it("counts messages the client already saved only once", () => {
+    const stored = [
+      { role: "user", content: "Dinner ideas?" },
+      { role: "assistant", content: "Try Euljiro." },
+      { role: "user", content: "Something vegetarian" },
+    ];
+
+    expect(mergeConversationMessages(stored, [{ role: "user", content: "Something vegetarian " }])).toEqual(stored);
+    expect(
+      mergeConversationMessages(stored, [
+        { role: "assistant", content: "Try Euljiro." },
+        { role: "user", content: "Something vegetarian" },
+        { role: "assistant", content: "Here are three." },
+        { role: "user", content: "Thanks" },
+      ])
+    ).toEqual([...stored, { role: "assistant", content: "Here are three." }, { role: "user", content: "Thanks" }]);
+    expect(mergeConversationMessages(stored.slice(0, 2), [{ role: "user", content: "Dinner ideas?" }])).toEqual([
+      ...stored.slice(0, 2),
+      { role: "user", content: "Dinner ideas?" },
+    ]);
+  });
+
+  it("puts pinned preferences and the summary into the prompt", () => {
+    expect(buildConversationMemoryContext({ summary: null, preferences: {} })).toBe("");
+    expect(
+      buildConversationMemoryContext({
+        summary: "Ruled out Myeongdong.",
+        preferences: { destinations: ["Seoul"], budget: "under $100/day", party: "2 adults", other: ["Slow mornings"] },
+      })
+    ).toBe(
+      "\n\n## WHAT THIS TRAVELLER TOLD YOU\nRespect these in every recommendation unless they say otherwise:\n" +
+        "- Destinations: Seoul\n- Budget: under $100/day\n- Travelling with: 2 adults\n- Slow mornings" +
+        "\n\n## EARLIER IN THIS CONVERSATION\nRuled out Myeongdong."
+    );
+  });
+
+  it("parses the summariser's JSON, fenced or not", async () => {
+    mocks.generateChatReplyWithFallback.mockResolvedValueOnce({
+      content: '```json\n{"summary":"Seoul, 4 days.","preferences":{"dietary":["no pork"]}}\n```',
+    });
+
+    await expect(
+      summarizeConversation({ previousSummary: null, preferences: {}, messages: [{ role: "user", content: "No pork please" }] })
+    ).resolves.toEqual({ summary: "Seoul, 4 days.", preferences: { dietary: ["no pork"] } });
+    expect(mocks.generateChatReplyWithFallback.mock.calls[0][0].messages[0].content).toContain("User: No pork please");
+  });
+});
@@ -4,8 +4,11 @@ import {
   buildChatTranscript,
   generateChatReplyWithFallback,
   getAnthropicChatModel,
+  streamChatReplyWithFallback,
   type ChatMessage,
+  type ChatStreamEvent,
 } from "@/lib/llm/chat-provider";
+import type { TextStreamEvent } from "@/lib/llm";
 
 const baseMessages: ChatMessage[] = [
   { role: "system", content: "Ignore me in transcript" },
@@ -246,3 +249,132 @@ describe("chat provider fallback", () => {
     delete process.env.CHAT_MODEL;
   });
 });
+
+async function* textStream(deltas: string[], failAfter?: number): AsyncGenerator<TextStreamEvent> {
+  for (const [index, content] of deltas.entries()) {
+    if (index === failAfter) throw new Error("503 upstream reset");
+    yield { type: "delta", content };
+  }
+  if (failAfter === deltas.length) throw new Error("503 upstream reset");
+  yield { type: "done", usage: { inputTokens: 1, outputTokens: deltas.length, totalTokens: 1 + deltas.length }, latencyMs: 5 };
+}
+
+function createAnthropicStream(deltas: string[]) {
+  return {
+    messages: {
+      stream: vi.fn(() =>
+        (async function* () {
+          yield { type: "message_start" };
+          for (const text of deltas) {
+            yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } };
+          }
+          yield { type: "message_stop" };
+        })()
+      ),
+    },
+  };
+}
+
+function createCircuitBreakers() {
+  return { isAvailable: vi.fn(() => true), recordSuccess: vi.fn(), recordFailure: vi.fn() };
+}
+
+async function collect(events: AsyncIterable<ChatStreamEvent>): Promise<ChatStreamEvent[]> {
+  const collected: ChatStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+describe("streaming chat provider fallback", () => {
+  const input = { systemPrompt: "You are Alley", messages: baseMessages };
+  const retry = { maxRetries: 1, baseDelayMs: 0 };
+
+  it("streams GLM deltas after a start event naming the provider", async () => {
+    const glm = { isAvailable: vi.fn(() => true), streamText: vi.fn(() => textStream(["\n", "Try ", "Euljiro."])) };
+    const circuitBreakers = createCircuitBreakers();
+
+    const events = await collect(streamChatReplyWithFallback(input, { glm, circuitBreakers, retry }));
+
+    expect(events[0]).toMatchObject({ type: "start", provider: "glm", fallbackUsed: false, fallbackReason: null });
+    expect(events.slice(1)).toEqual([
+      { type: "delta", content: "Try " },
+      { type: "delta", content: "Euljiro." },
+      { type: "done", content: "Try Euljiro." },
+    ]);
+    expect(circuitBreakers.recordSuccess).toHaveBeenCalledWith("glm");
+  });
+
+  it("retries GLM and then falls back to Anthropic before the first token", async () => {
+    const glm = { isAvailable: vi.fn(() => true), streamText: vi.fn(() => textStream(["never"], 0)) };
+    const anthropic = createAnthropicStream(["Claude ", "streams."]);
+    const circuitBreakers = createCircuitBreakers();
+    const logger = { error: vi.fn() };
+
+    const events = await collect(
+      streamChatReplyWithFallback(input, { glm, anthropic, circuitBreakers, retry, logger, anthropicModel: "claude-test" }),
+    );
+
+    expect(glm.streamText).toHaveBeenCalledTimes(2);
+    expect(circuitBreakers.recordFailure).toHaveBeenCalledWith("glm");
+    expect(events[0]).toMatchObject({
+      type: "start",
+      provider: "anthropic",
+      model: "claude-test",
+      fallbackUsed: true,
+      fallbackReason: "glm_error",
+    });
+    expect(events.at(-1)).toEqual({ type: "done", content: "Claude streams." });
+    expect(anthropic.messages.stream).toHaveBeenCalledWith({
+      model: "claude-test",
+      max_tokens: 2048,
+      system: "You are Alley",
+      messages: [
+        { role: "user", content: "Plan Seoul" },
+        { role: "assistant", content: "What vibe?" },
+        { role: "user", content: "Local food" },
+      ],
+    });
+  });
+
+  it("does not fall back once GLM has sent a token", async () => {
+    const glm = { isAvailable: vi.fn(() => true), streamText: vi.fn(() => textStream(["Half ", "a reply"], 2)) };
+    const anthropic = createAnthropicStream(["Should not run"]);
+    const circuitBreakers = createCircuitBreakers();
+    const seen: ChatStreamEvent[] = [];
+
+    await expect(
+      (async () => {
+        for await (const event of streamChatReplyWithFallback(input, { glm, anthropic, circuitBreakers, retry })) {
+          seen.push(event);
+        }
+      })(),
+    ).rejects.toThrow("503 upstream reset");
+
+    expect(seen.map((event) => event.type)).toEqual(["start", "delta", "delta"]);
+    expect(glm.streamText).toHaveBeenCalledOnce();
+    expect(anthropic.messages.stream).not.toHaveBeenCalled();
+    expect(circuitBreakers.recordFailure).toHaveBeenCalledWith("glm");
+  });
+
+  it("skips GLM while its circuit is open", async () => {
+    const glm = { isAvailable: vi.fn(() => true), streamText: vi.fn(() => textStream(["GLM"])) };
+    const anthropic = createAnthropicStream(["Claude"]);
+    const circuitBreakers = { ...createCircuitBreakers(), isAvailable: vi.fn((name: string) => name !== "glm") };
+
+    const events = await collect(streamChatReplyWithFallback(input, { glm, anthropic, circuitBreakers, retry }));
+
+    expect(glm.streamText).not.toHaveBeenCalled();
+    expect(events[0]).toMatchObject({ provider: "anthropic", fallbackUsed: false, fallbackReason: "glm_unavailable" });
+  });
+
+  it("falls back when GLM finishes without any text", async () => {
+    const glm = { isAvailable: vi.fn(() => true), streamText: vi.fn(() => textStream(["  "])) };
+    const anthropic = createAnthropicStream(["Claude after empty GLM"]);
+
+    const events = await collect(
+      streamChatReplyWithFallback(input, { glm, anthropic, circuitBreakers: createCircuitBreakers(), retry }),
+    );
+
+    expect(events[0]).toMatchObject({ provider: "anthropic", fallbackUsed: true, fallbackReason: "glm_empty_response" });
+  });
+});
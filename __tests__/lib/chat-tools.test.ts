@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createChatTools } from "@/lib/chat-tools";
+import { ChatToolError, type ChatTool } from "@/lib/llm/chat-agent";
+
+const ITINERARY_ID = "7f0c2a4e-2f55-4d3c-9a55-5d9f6b1e8c01";
+
+function activity(name: string, time: string) {
+  return {
+    name,
+    time,
+    type: "afternoon",
+    description: `Eat at ${name}.`,
+    address: `${name}, Mapo-gu, Seoul`,
+    category: "restaurant",
+    cost: "$25",
+  };
+}
+
+function storedItinerary() {
+  return {
+    id: ITINERARY_ID,
+    title: "Seoul Food Crawl",
+    city: "Seoul",
+    days: 2,
+    current_version: 3,
+    activities: [
+      { day: 1, theme: "Markets", activities: [activity("Mangwon Market", "10:00 AM")] },
+      {
+        day: 2,
+        theme: "Mapo",
+        activities: [activity("Fritz Coffee", "09:00 AM"), activity("Hotel Buffet", "12:30 PM"), activity("Yeonnam Park", "03:00 PM")],
+      },
+    ],
+  };
+}
+
+function createSupabase(row: ReturnType<typeof storedItinerary> | null) {
+  const saves: Array<Record<string, unknown> & { p_changes: Record<string, unknown> }> = [];
+  const from = vi.fn(() => {
+    const filters: Array<[string, unknown]> = [];
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return builder;
+      },
+      maybeSingle: async () => {
+        const owned = filters.every(([column, value]) =>
+          column === "clerk_user_id" ? value === "user_a" : row?.[column as "id"] === value,
+        );
+        return { data: owned ? row : null, error: null };
+      },
+    };
+    return builder;
+  });
+  const rpc = vi.fn(async (_name: string, args: (typeof saves)[number]) => {
+    saves.push(args);
+    return { data: [{ saved_version: saves.length + 1, saved_itinerary: {} }], error: null };
+  });
+  return { client: { from, rpc } as unknown as SupabaseClient, saves, rpc };
+}
+
+function tool(tools: ChatTool[], name: string) {
+  const found = tools.find((candidate) => candidate.name === name);
+  if (!found) throw new Error(`missing tool ${name}`);
+  return (args: unknown) => found.execute(found.parameters.parse(args));
+}
+
+describe("chat itinerary tools", () => {
+  let supabase: ReturnType<typeof createSupabase>;
+  let tools: ChatTool[];
+
+  beforeEach(() => {
+    supabase = createSupabase(storedItinerary());
+    tools = createChatTools({ userId: "user_a", getSupabase: () => supabase.client });
+  });
+
+  it("swaps an activity by removing it and adding the replacement at the same index", async () => {
+    const removed = await tool(tools, "remove_itinerary_activity")({ itineraryId: ITINERARY_ID, day: 2, activityIndex: 1 });
+    expect(removed).toMatchObject({ itineraryId: ITINERARY_ID, updated: true, removed: { index: 1, name: "Hotel Buffet" } });
+
+    const [firstSave] = supabase.saves;
+    expect(supabase.rpc).toHaveBeenCalledWith("save_itinerary_version", expect.anything());
+    expect(firstSave).toMatchObject({
+      p_itinerary_id: ITINERARY_ID,
+      p_clerk_user_id: "user_a",
+      p_source: "chat",
+      p_operations: [{ op: "remove_activity", day: 2, index: 1, activity: { name: "Hotel Buffet" } }],
+      p_summary: "Removed Hotel Buffet from day 2.",
+      p_base_version: 3,
+    });
+    supabase = createSupabase({ ...storedItinerary(), activities: firstSave.p_changes.activities as never });
+    tools = createChatTools({ userId: "user_a", getSupabase: () => supabase.client });
+
+    const added = await tool(tools, "add_itinerary_activity")({
+      itineraryId: ITINERARY_ID,
+      day: 2,
+      position: 1,
+      activity: {
+        name: "Eulji Myeonok",
+        description: "Cold naengmyeon for about $10.",
+        address: "Mapo-daero 12, Mapo-gu, Seoul",
+        category: "restaurant",
+        time: "12:30 PM",
+        cost: "$10",
+      },
+    });
+
+    expect(added).toMatchObject({
+      updated: true,
+      added: { index: 1, name: "Eulji Myeonok" },
+      day: { day: 2, activities: [{ name: "Fritz Coffee" }, { name: "Eulji Myeonok" }, { name: "Yeonnam Park" }] },
+    });
+    expect(supabase.saves[0].p_operations).toEqual([
+      expect.objectContaining({ op: "add_activity", day: 2, index: 1, activity: expect.objectContaining({ name: "Eulji Myeonok" }) }),
+    ]);
+    const saved = supabase.saves[0].p_changes.activities as Array<{ day: number; activities: Array<{ name: string }> }>;
+    expect(saved[0].activities.map((item) => item.name)).toEqual(["Mangwon Market"]);
+    expect(saved[1].activities.map((item) => item.name)).toEqual(["Fritz Coffee", "Eulji Myeonok", "Yeonnam Park"]);
+  });
+
+  it("refuses an edit when a collaborator saved after the itinerary was read", async () => {
+    supabase.rpc.mockResolvedValueOnce({
+      data: null,
+      error: { code: "40001", message: "Itinerary is at version 4, not 3" },
+    } as never);
+
+    await expect(
+      tool(tools, "remove_itinerary_activity")({ itineraryId: ITINERARY_ID, day: 2, activityIndex: 1 }),
+    ).rejects.toThrow('"Seoul Food Crawl" was just changed by someone else. Read it again with get_itinerary before editing.');
+    expect(supabase.rpc).toHaveBeenCalledWith("save_itinerary_version", expect.objectContaining({ p_base_version: 3 }));
+  });
+
+  it("refuses itineraries owned by someone else and out-of-range edits", async () => {
+    const strangerTools = createChatTools({ userId: "user_b", getSupabase: () => supabase.client });
+
+    await expect(tool(strangerTools, "get_itinerary")({ itineraryId: ITINERARY_ID })).rejects.toThrow(ChatToolError);
+    await expect(
+      tool(tools, "remove_itinerary_activity")({ itineraryId: ITINERARY_ID, day: 2, activityIndex: 5 }),
+    ).rejects.toThrow("Day 2 has 3 activities; index 5 is out of range.");
+    await expect(
+      tool(tools, "remove_itinerary_activity")({ itineraryId: ITINERARY_ID, day: 4, activityIndex: 0 }),
+    ).rejects.toThrow('"Seoul Food Crawl" has no day 4; it has 2 days.');
+    await expect(
+      tool(tools, "add_itinerary_activity")({
+        itineraryId: ITINERARY_ID,
+        day: 1,
+        activity: { name: "Lunch", description: "Grab lunch nearby.", address: "Mapo-gu, Seoul", category: "food" },
+      }),
+    ).rejects.toThrow(ChatToolError);
+    expect(supabase.saves).toEqual([]);
+  });
+
+  it("lists activities with their indexes", async () => {
+    const itinerary = await tool(tools, "get_itinerary")({ itineraryId: ITINERARY_ID });
+
+    expect(itinerary).toMatchObject({
+      title: "Seoul Food Crawl",
+      days: [
+        { day: 1, activities: [{ index: 0, name: "Mangwon Market" }] },
+        { day: 2, activities: [{ index: 0 }, { index: 1, name: "Hotel Buffet", time: "12:30 PM" }, { index: 2 }] },
+      ],
+    });
+  });
+});
+
+describe("chat planning tools", () => {
+  const context = {
+    userId: "user_a",
+    getSupabase: (): SupabaseClient => {
+      throw new Error("database not configured");
+    },
+  };
+  let tools: ChatTool[];
+
+  beforeEach(() => {
+    vi.stubEnv("MULTI_CITY_PREVIEW_API", "on");
+    tools = createChatTools(context);
+    return () => vi.unstubAllEnvs();
+  });
+
+  it("only offers trip planning when plan previews are switched on", () => {
+    vi.stubEnv("MULTI_CITY_PREVIEW_API", "off");
+    expect(createChatTools(context).map((candidate) => candidate.name)).not.toContain("plan_multi_city_trip");
+  });
+
+  it("plans a multi-city corridor without touching the database", async () => {
+    const plan = await tool(tools, "plan_multi_city_trip")({
+      destinations: [{ destinationSlug: "tokyo" }, { destinationSlug: "kyoto" }],
+      orderMode: "user",
+      totalDays: 7,
+      budget: "moderate",
+      pace: "moderate",
+      group: { type: "couple", adults: 2 },
+    });
+
+    expect(plan).toMatchObject({
+      plannerVersion: "corridor-v2",
+      stops: [{ destinationSlug: "tokyo" }, { destinationSlug: "kyoto" }],
+    });
+  });
+
+  it("turns planner and city errors into messages for the model", async () => {
+    await expect(
+      tool(tools, "plan_multi_city_trip")({
+        destinations: [{ destinationSlug: "seoul" }, { destinationSlug: "nara" }],
+        orderMode: "user",
+        totalDays: 7,
+        budget: "moderate",
+        pace: "moderate",
+        group: { type: "solo", adults: 1 },
+      }),
+    ).rejects.toThrow(ChatToolError);
+    await expect(tool(tools, "search_spots")({ city: "Atlantis" })).rejects.toThrow(
+      'Localley has no curated spots for "Atlantis".',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest";
+import { corridorGoldenTrips } from "@/__tests__/fixtures/corridor-golden-trips";
+import type { ItineraryGroundingSpot } from "@/lib/itineraries/grounded-generation";
+import type { OrchestrationRequest, OrchestrationResult } from "@/lib/llm/types";
+import { MultiCityTripRequestSchema, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import {
+  CorridorItineraryError,
+  activityCapacity,
+  generateCorridorItinerary,
+} from "@/lib/trips/corridor-itinerary";
+
+const categories = ["Food", "Cafe", "Culture", "Outdoor", "Shopping", "Nightlife"];
+
+function citySpots(city: string, origin: { lat: number; lng: number }): ItineraryGroundingSpot[] {
+  return Array.from({ length: 18 }, (_, index) => ({
+    id: `${city.toLowerCase()}-${index}`,
+    name: { en: `${city} Local Place ${index}` },
+    description: { en: `${city} Local Place ${index} is a real neighbourhood favourite worth planning a visit around.` },
+    address: { en: `${index} Example-ro, ${city}` },
+    category: categories[index % categories.length],
+    subcategories: [],
+    localley_score: 5,
+    local_percentage: 80,
+    photos: [`https://localley.io/images/spots/${city.toLowerCase()}-${index}.jpg`],
+    location: `POINT(${origin.lng + index / 1000} ${origin.lat + index / 1000})`,
+    verified: true,
+  }));
+}
+
+const spotsByCity: Record<string, ItineraryGroundingSpot[]> = {
+  Seoul: citySpots("Seoul", { lat: 37.55, lng: 126.97 }),
+  Busan: citySpots("Busan", { lat: 35.15, lng: 129.05 }),
+};
+
+function orchestrationResult(request: OrchestrationRequest): OrchestrationResult {
+  return {
+    success: true,
+    data: {
+      title: `${request.params.city} trip`,
+      subtitle: "",
+      city: request.params.city,
+      days: request.params.days,
+      localScore: request.params.city === "Seoul" ? 8 : 6,
+      estimatedCost: "Moderate",
+      highlights: [`${request.params.city} highlight`],
+      dailyPlans: Array.from({ length: request.params.days }, (_, index) => ({
+        day: index + 1,
+        theme: `${request.params.city} day ${index + 1}`,
+        activities: [],
+      })),
+    },
+    metrics: { totalLatencyMs: 1, providersUsed: ["glm"], cacheHits: 0, retryCount: 0 },
+  };
+}
+
+describe("generateCorridorItinerary", () => {
+  const request = MultiCityTripRequestSchema.parse(corridorGoldenTrips[0].request);
+  const plan = planCorridorTrip(request);
+  const options = { tier: "pro" as const, userId: "clerk_owner", requestId: "req-1" };
+
+  it("generates each stop with its own day budgets and stitches one trip", async () => {
+    const generateItinerary = vi.fn(async (orchestration: OrchestrationRequest) => orchestrationResult(orchestration));
+    const itinerary = await generateCorridorItinerary(plan, request, options, {
+      generateItinerary,
+      loadGroundingSpots: async (city) => spotsByCity[city] || [],
+    });
+
+    expect(generateItinerary).toHaveBeenCalledTimes(2);
+    const seoulCall = generateItinerary.mock.calls.find(([call]) => call.params.city === "Seoul")![0];
+    expect(seoulCall.params.days).toBe(3);
+    expect(seoulCall.requestId).toBe("req-1:seoul");
+    expect(seoulCall.params.templatePrompt).toContain("Day 1: arrival day");
+
+    expect(itinerary.city).toBe("Seoul → Busan");
+    expect(itinerary.days).toBe(6);
+    expect(itinerary.localScore).toBe(7);
+    expect(itinerary.dailyPlans.map((day) => [day.day, day.destinationSlug, day.dayType])).toEqual([
+      [1, "seoul", "arrival"],
+      [2, "seoul", "full"],
+      [3, "seoul", "full"],
+      [4, "busan", "transfer"],
+      [5, "busan", "full"],
+      [6, "busan", "departure"],
+    ]);
+
+    for (const day of itinerary.dailyPlans) {
+      const planned = plan.days.find((candidate) => candidate.dayIndex === day.day)!;
+      expect(day.activities.length).toBeLessThanOrEqual(activityCapacity(planned, request.pace));
+    }
+    const [arrival, fullDay] = itinerary.dailyPlans;
+    expect(arrival.activities.length).toBeLessThan(fullDay.activities.length);
+    expect(itinerary.dailyPlans[5].activities.length).toBeLessThan(fullDay.activities.length);
+    expect(itinerary.dailyPlans[3].transportTips).toContain("Seoul → Busan by train");
+    expect(itinerary.insights?.[0]).toMatchObject({ kind: "transport" });
+
+    const seoulIds = itinerary.dailyPlans
+      .filter((day) => day.destinationSlug === "seoul")
+      .flatMap((day) => day.activities.map((activity) => (activity as { spotId?: string }).spotId));
+    expect(seoulIds.every((id) => id?.startsWith("seoul-"))).toBe(true);
+  });
+
+  it("gives no activities to a transfer day the journey fully consumes", () => {
+    const fullTransfer = planCorridorTrip(corridorGoldenTrips[15].request);
+    const transferDay = fullTransfer.days.find((day) => day.type === "transfer")!;
+    expect(activityCapacity(transferDay, "moderate")).toBe(0);
+  });
+
+  it("reports which stop failed", async () => {
+    const failure = generateCorridorItinerary(plan, request, options, {
+      generateItinerary: async (orchestration) => orchestration.params.city === "Busan"
+        ? { success: false, error: "providers down", metrics: { totalLatencyMs: 1, providersUsed: [], cacheHits: 0, retryCount: 0 } }
+        : orchestrationResult(orchestration),
+      loadGroundingSpots: async (city) => spotsByCity[city] || [],
+    });
+    await expect(failure).rejects.toBeInstanceOf(CorridorItineraryError);
+    await expect(failure).rejects.toMatchObject({ destinationSlug: "busan" });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { corridorGoldenTrips } from "@/__tests__/fixtures/corridor-golden-trips";
 import { PlannerValidationError, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import { RouteTimetableSchema } from "@/lib/trips/transport-timetables";
 
 describe("deterministic corridor planner", () => {
   it.each(corridorGoldenTrips)("passes golden trip: $name", ({ request }) => {
@@ -57,3 +58,137 @@ describe("deterministic corridor planner", () => {
     expect(transferDay?.activeMinutesBudget).toBe(0);
   });
 });
+
+describe("order objectives", () => {
+  const threeCities = corridorGoldenTrips[4].request;
+
+  it("ranks orders by the requested objective and reports alternatives", () => {
+    const plan = planCorridorTrip({ ...threeCities, objective: "transfer_minutes" }, { alternatives: 2 });
+    expect(plan.stops.map((stop) => stop.destinationSlug)).toEqual(["busan", "gyeongju", "seoul"]);
+    expect(plan.ordering?.chosen).toEqual({
+      order: ["busan", "gyeongju", "seoul"],
+      score: 450,
+      transferMinutes: 450,
+      costScore: 1,
+      hotelChanges: 2,
+    });
+    expect(plan.ordering?.alternatives.map((candidate) => candidate.order)).toEqual([
+      ["seoul", "gyeongju", "busan"],
+      ["gyeongju", "busan", "seoul"],
+    ]);
+    expect(plan.ordering?.explanation).toBe(
+      "Busan → Gyeongju → Seoul has the fewest door-to-door transfer minutes: 40 fewer transfer minutes than " +
+        "the next best order, Gyeongju → Busan → Seoul. It ties with Seoul → Gyeongju → Busan and comes first by name.",
+    );
+  });
+
+  it("breaks objective ties on transfer minutes and says so", () => {
+    const plan = planCorridorTrip({ ...threeCities, objective: "cost" });
+    expect(plan.ordering?.explanation).toMatch(/^Busan → Gyeongju → Seoul ties on cost bands and wins the tie-break/);
+  });
+
+  it("keeps locked stops at their requested position", () => {
+    const plan = planCorridorTrip({
+      ...threeCities,
+      objective: "cost",
+      destinations: [
+        { destinationSlug: "seoul" },
+        { destinationSlug: "gyeongju" },
+        { destinationSlug: "busan", nights: 3, locked: true },
+      ],
+    });
+    expect(plan.stops.map((stop) => stop.destinationSlug)).toEqual(["seoul", "gyeongju", "busan"]);
+    expect(plan.ordering?.alternatives.every((candidate) => candidate.order[2] === "busan")).toBe(true);
+  });
+
+  it("sees nearby stops on day trips when minimising hotel changes", () => {
+    const naraKyotoOsaka = { ...corridorGoldenTrips[14].request, orderMode: "optimize" as const };
+    const balanced = planCorridorTrip(naraKyotoOsaka);
+    const plan = planCorridorTrip({ ...naraKyotoOsaka, objective: "hotel_changes" });
+
+    expect(balanced.ordering?.chosen.hotelChanges).toBe(2);
+    expect(plan.ordering?.chosen).toMatchObject({
+      order: ["kyoto", "nara", "osaka"],
+      hotelChanges: 0,
+      dayTrips: ["nara", "osaka"],
+    });
+    expect(plan.stops).toEqual([
+      { destinationSlug: "kyoto", position: 0, nights: 7, locked: false },
+      { destinationSlug: "nara", position: 1, nights: 0, locked: false, dayTripFrom: "kyoto" },
+      { destinationSlug: "osaka", position: 2, nights: 0, locked: false, dayTripFrom: "kyoto" },
+    ]);
+    expect(plan.transfers).toEqual([]);
+    expect(plan.days.slice(0, 3).map((day) => [day.destinationSlug, day.type, day.dayTripFrom])).toEqual([
+      ["kyoto", "arrival", undefined],
+      ["nara", "full", "kyoto"],
+      ["osaka", "full", "kyoto"],
+    ]);
+    expect(plan.days[1].activeMinutesBudget).toBeLessThan(balanced.days.find((day) => day.type === "full")!.activeMinutesBudget);
+    expect(plan.ordering?.explanation).toMatch(
+      /^Kyoto → Nara \(day trip\) → Osaka \(day trip\) ties on hotel changes and wins the tie-break: 10 fewer transfer minutes/,
+    );
+  });
+
+  it("keeps stops with requested nights overnight", () => {
+    const plan = planCorridorTrip({
+      ...corridorGoldenTrips[14].request,
+      orderMode: "optimize",
+      objective: "hotel_changes",
+      destinations: [{ destinationSlug: "nara", nights: 2 }, { destinationSlug: "kyoto" }, { destinationSlug: "osaka", nights: 2 }],
+    });
+    expect(plan.stops.find((stop) => stop.destinationSlug === "nara")?.nights).toBeGreaterThan(0);
+    expect(plan.stops.find((stop) => stop.destinationSlug === "osaka")?.nights).toBeGreaterThan(0);
+    expect(plan.ordering?.chosen.hotelChanges).toBe(1);
+  });
+
+  it("adds no ordering block to user-ordered trips", () => {
+    expect(planCorridorTrip(corridorGoldenTrips[0].request).ordering).toBeUndefined();
+  });
+});
+
+describe("timetable-aware transfers", () => {
+  const timetable = (departures: Array<{ departure: string; arrival: string; days?: string[]; service?: string }>) =>
+    new Map([["seoul-busan-ktx", RouteTimetableSchema.parse({ version: 1, edgeId: "seoul-busan-ktx", departures })]]);
+  const seoulBusan = corridorGoldenTrips[0].request;
+
+  it("picks the departure that leaves the most time at the destination", () => {
+    const plan = planCorridorTrip(seoulBusan, {
+      timetables: timetable([
+        { departure: "08:00", arrival: "10:40" },
+        { departure: "09:00", arrival: "11:40", service: "KTX 105" },
+        { departure: "15:00", arrival: "17:40" },
+      ]),
+    });
+    expect(plan.transfers[0].schedule).toEqual({
+      source: "timetable",
+      departureTime: "09:00",
+      arrivalTime: "11:40",
+      readyTime: "12:00",
+      service: "KTX 105",
+    });
+    expect(plan.days.find((day) => day.type === "transfer")?.activeMinutesBudget).toBe(306);
+  });
+
+  it("only considers departures that run on the transfer date", () => {
+    const plan = planCorridorTrip({ ...seoulBusan, startDate: "2026-11-02" }, {
+      timetables: timetable([
+        { departure: "09:00", arrival: "11:40", days: ["sat", "sun"] },
+        { departure: "11:00", arrival: "13:40" },
+      ]),
+    });
+    expect(plan.days[3]).toMatchObject({ localDate: "2026-11-05", type: "transfer", activeMinutesBudget: 204 });
+    expect(plan.transfers[0].schedule?.departureTime).toBe("11:00");
+  });
+
+  it("falls back to duration ranges when no departure is workable", () => {
+    const unscheduled = planCorridorTrip(seoulBusan);
+    const plan = planCorridorTrip(seoulBusan, {
+      timetables: timetable([
+        { departure: "06:30", arrival: "09:10" },
+        { departure: "21:00", arrival: "23:40" },
+      ]),
+    });
+    expect(plan.transfers[0].schedule).toBeUndefined();
+    expect(plan).toEqual(unscheduled);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+    detectEngagementAnomalies,
+    type EngagementFingerprint,
+    type ScreenedEngagement,
+} from "@/lib/engagement-anomalies";
+import { engagementContextFromRequest } from "@/lib/engagement-tracking";
+
+let nextId = 0;
+
+function engagement(
+    viewer: string,
+    creator: string,
+    overrides: Partial<ScreenedEngagement> = {},
+): ScreenedEngagement {
+    nextId++;
+    return {
+        id: `e${nextId}`,
+        viewer_clerk_user_id: viewer,
+        creator_clerk_user_id: creator,
+        engagement_points: 1,
+        ip_hash: `ip-${viewer}`,
+        device_hash: `device-${viewer}`,
+        created_at: new Date(Date.UTC(2026, 8, 1 + (nextId % 28), 12)).toISOString(),
+        ...overrides,
+    };
+}
+
+function fingerprint(clerkUserId: string, deviceHash: string, ipHash = `ip-${clerkUserId}`): EngagementFingerprint {
+    return { clerk_user_id: clerkUserId, device_hash: deviceHash, ip_hash: ipHash };
+}
+
+function minutesAfterNoon(minutes: number): string {
+    return new Date(Date.UTC(2026, 8, 10, 12, minutes)).toISOString();
+}
+
+describe("detectEngagementAnomalies", () => {
+    it("holds a viewer who has used the guide's own browser", () => {
+        const alt = engagement("alt", "guide", { device_hash: "device-guide", ip_hash: "ip-guide" });
+        const honest = engagement("fan", "guide");
+
+        const held = detectEngagementAnomalies({
+            rows: [alt, honest],
+            fingerprints: [fingerprint("guide", "device-guide", "ip-guide")],
+            guideIds: ["guide"],
+        });
+
+        expect(held.get(alt.id)).toEqual(["alt_account"]);
+        expect(held.has(honest.id)).toBe(false);
+    });
+
+    it("holds a viewer on the guide's network only when their month is concentrated on that guide", () => {
+        const housemate = [
+            ...Array.from({ length: 3 }, () => engagement("housemate", "guide", { ip_hash: "ip-home" })),
+            ...Array.from({ length: 3 }, () => engagement("housemate", "other", { ip_hash: "ip-home" })),
+        ];
+        const sockPuppet = Array.from({ length: 5 }, () => engagement("puppet", "guide", { ip_hash: "ip-home" }));
+
+        const held = detectEngagementAnomalies({
+            rows: [...housemate, ...sockPuppet],
+            fingerprints: [fingerprint("guide", "device-guide", "ip-home")],
+            guideIds: ["guide", "other"],
+        });
+
+        expect(sockPuppet.every((row) => held.get(row.id)?.includes("alt_account"))).toBe(true);
+        expect(housemate.some((row) => held.has(row.id))).toBe(false);
+    });
+
+    it("holds bursts from one network or browser, but not the same volume spread out", () => {
+        const burst = Array.from({ length: 21 }, (_, index) =>
+            engagement(`bot${index}`, "guide", { ip_hash: "ip-farm", created_at: minutesAfterNoon(index * 2) })
+        );
+        const steady = Array.from({ length: 21 }, (_, index) =>
+            engagement(`cafe${index}`, "guide", { ip_hash: "ip-cafe", created_at: minutesAfterNoon(index * 10) })
+        );
+        const deviceBurst = Array.from({ length: 11 }, (_, index) =>
+            engagement("binger", "guide", { device_hash: "device-binger", created_at: minutesAfterNoon(index) })
+        );
+
+        const held = detectEngagementAnomalies({
+            rows: [...burst, ...steady, ...deviceBurst],
+            fingerprints: [],
+            guideIds: ["guide"],
+        });
+
+        expect(burst.every((row) => held.get(row.id)?.includes("ip_burst"))).toBe(true);
+        expect(steady.some((row) => held.has(row.id))).toBe(false);
+        expect(deviceBurst.every((row) => held.get(row.id)?.includes("device_burst"))).toBe(true);
+    });
+
+    it("holds engagement from a browser shared by more than three accounts", () => {
+        const rows = ["a", "b", "c", "d"].map((viewer) => engagement(viewer, "guide", { device_hash: "device-kiosk" }));
+        const family = ["e", "f", "g"].map((viewer) => engagement(viewer, "guide", { device_hash: "device-family" }));
+
+        const held = detectEngagementAnomalies({ rows: [...rows, ...family], fingerprints: [], guideIds: ["guide"] });
+
+        expect(rows.every((row) => held.get(row.id)?.includes("shared_device"))).toBe(true);
+        expect(family.some((row) => held.has(row.id))).toBe(false);
+    });
+
+    it("doesn't hold separate browsers behind one carrier NAT or café Wi-Fi", () => {
+        // Same public IP, same phone model and browser language: only the device cookie differs
+        const context = (deviceId?: string) => engagementContextFromRequest(new Request("https://www.localley.io/api/itineraries/1", {
+            headers: {
+                "x-forwarded-for": "203.0.113.7",
+                "user-agent": "Mozilla/5.0 (iPhone; CPU iPhone OS 19_0 like Mac OS X) Mobile/15E148 Safari/604.1",
+                "accept-language": "ko-KR",
+                ...(deviceId ? { cookie: `theme=dark; localley_device=${deviceId}` } : {}),
+            },
+        }));
+        const viewers = ["a", "b", "c", "d", "e"].map((viewer, index) => {
+            const { ipHash, deviceHash } = context(`6f2c3c1e-8a53-4a57-9d6e-0f3b2b7d9a1${index}`);
+            return engagement(viewer, "guide", { ip_hash: ipHash, device_hash: deviceHash });
+        });
+        const cookieless = context();
+
+        const held = detectEngagementAnomalies({
+            rows: [...viewers, engagement("f", "guide", { ip_hash: cookieless.ipHash, device_hash: cookieless.deviceHash })],
+            fingerprints: [],
+            guideIds: ["guide"],
+        });
+
+        expect(new Set([...viewers.map((row) => row.device_hash), cookieless.deviceHash]).size).toBe(6);
+        expect(held.size).toBe(0);
+    });
+
+    it("still holds bursts from a client that drops its device cookie", () => {
+        const context = engagementContextFromRequest(new Request("https://www.localley.io/api/itineraries/1", {
+            headers: { "x-forwarded-for": "198.51.100.23", "user-agent": "python-requests/2.32", "accept-language": "en" },
+        }));
+        const burst = Array.from({ length: 11 }, (_, index) =>
+            engagement(`farm${index}`, "guide", { ip_hash: context.ipHash, device_hash: context.deviceHash, created_at: minutesAfterNoon(index) })
+        );
+
+        const held = detectEngagementAnomalies({ rows: burst, fingerprints: [], guideIds: ["guide"] });
+
+        expect(burst.every((row) => held.get(row.id)?.includes("device_burst"))).toBe(true);
+        expect(burst.every((row) => held.get(row.id)?.includes("shared_device"))).toBe(true);
+    });
+
+    it("holds guides trading engagement around a loop, not one-way fans", () => {
+        const saves = (viewer: string, creator: string) =>
+            Array.from({ length: 5 }, () => engagement(viewer, creator, { engagement_points: 3 }));
+        const ring = [...saves("g1", "g2"), ...saves("g2", "g3"), ...saves("g3", "g1")];
+        const oneWay = saves("g4", "g1");
+        const weakLink = [...saves("g5", "g6"), engagement("g6", "g5")];
+
+        const held = detectEngagementAnomalies({
+            rows: [...ring, ...oneWay, ...weakLink],
+            fingerprints: [],
+            guideIds: ["g1", "g2", "g3", "g4", "g5", "g6"],
+        });
+
+        expect(ring.every((row) => held.get(row.id)?.includes("guide_ring"))).toBe(true);
+        expect([...oneWay, ...weakLink].some((row) => held.has(row.id))).toBe(false);
+    });
+});
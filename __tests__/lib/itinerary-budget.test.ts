@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  categorizeActivity,
+  splitItineraryExpenses,
+  summarizeItineraryBudget,
+  tripCurrency,
+  type ItineraryExpense,
+  type TripMember,
+} from "@/lib/itineraries/budget";
+
+const dailyPlans = [
+  {
+    day: 1,
+    theme: "Mangwon",
+    activities: [
+      { name: "Mangwon Market", category: "market", cost: "₩10,000-20,000" },
+      { name: "Hangang bike rental", category: "activity", cost: "$5" },
+      { name: "Sunset walk", category: "walk", cost: "Varies" },
+    ],
+  },
+  {
+    day: 2,
+    theme: "Seongsu",
+    activities: [{ name: "Seongsu cafe crawl", category: "cafe", cost: "15000" }],
+  },
+];
+
+const members: TripMember[] = [
+  { userId: "user_a", name: "Ana", role: "owner" },
+  { userId: "user_b", name: "Ben", role: "editor" },
+  { userId: "user_c", name: "Chloe", role: "viewer" },
+];
+
+function expense(overrides: Partial<ItineraryExpense>): ItineraryExpense {
+  return {
+    id: "expense",
+    activityKey: null,
+    day: null,
+    category: "food",
+    description: "",
+    amount: 0,
+    currency: "KRW",
+    paidBy: "user_a",
+    splitWith: [],
+    spentOn: null,
+    createdBy: "user_a",
+    createdAt: "2026-10-19T08:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("summarizeItineraryBudget", () => {
+  it("totals planned and logged spend by day and category in the trip currency", () => {
+    const budget = summarizeItineraryBudget({
+      dailyPlans,
+      estimatedCost: "₩200,000",
+      currency: "KRW",
+      expenses: [
+        expense({ activityKey: "mangwon market", category: "food", amount: 18000 }),
+        expense({ day: 2, category: "food", amount: 10, currency: "USD" }),
+        expense({ category: "transport", amount: 5000 }),
+      ],
+    });
+
+    expect(budget.planned).toBe(15000 + 6925 + 15000);
+    expect(budget.estimatedTotal).toBe(200000);
+    expect(budget.actual).toBe(18000 + 13850 + 5000);
+    expect(budget.unpricedActivities).toBe(1);
+    expect(budget.days).toEqual([
+      { key: "day-1", label: "Day 1: Mangwon", planned: 21925, actual: 18000 },
+      { key: "day-2", label: "Day 2: Seongsu", planned: 15000, actual: 13850 },
+      { key: "unassigned", label: "Not tied to a day", planned: 0, actual: 5000 },
+    ]);
+    expect(budget.categories.map((line) => [line.key, line.planned, line.actual])).toEqual([
+      ["food", 30000, 31850],
+      ["activities", 6925, 0],
+      ["transport", 0, 5000],
+    ]);
+    expect(budget.activities[0]).toMatchObject({ name: "Mangwon Market", planned: 15000, actual: 18000 });
+    expect(budget.activities[2]).toMatchObject({ name: "Sunset walk", planned: null });
+  });
+
+  it("scales the plan's per-person prices to the group it's compared against", () => {
+    const budget = summarizeItineraryBudget({
+      dailyPlans,
+      estimatedCost: "₩200,000",
+      currency: "KRW",
+      expenses: [expense({ activityKey: "mangwon market", category: "food", amount: 54000 })],
+      travellers: 3,
+    });
+
+    expect(budget.travellers).toBe(3);
+    expect(budget.planned).toBe((15000 + 6925 + 15000) * 3);
+    expect(budget.estimatedTotal).toBe(600000);
+    expect(budget.activities[0]).toMatchObject({ name: "Mangwon Market", planned: 45000, actual: 54000 });
+  });
+});
+
+describe("splitItineraryExpenses", () => {
+  it("shares costs between the named members and settles the largest debts first", () => {
+    const split = splitItineraryExpenses(
+      [
+        expense({ amount: 30000, paidBy: "user_a" }),
+        expense({ amount: 10000, paidBy: "user_b", splitWith: ["user_b", "user_c"] }),
+      ],
+      members,
+      "KRW"
+    );
+
+    expect(split.balances).toEqual([
+      { userId: "user_a", name: "Ana", paid: 30000, share: 10000, net: 20000 },
+      { userId: "user_b", name: "Ben", paid: 10000, share: 15000, net: -5000 },
+      { userId: "user_c", name: "Chloe", paid: 0, share: 15000, net: -15000 },
+    ]);
+    expect(split.settlements).toEqual([
+      { from: "user_c", to: "user_a", amount: 15000 },
+      { from: "user_b", to: "user_a", amount: 5000 },
+    ]);
+  });
+
+  it("keeps shares exact in the currency's smallest unit", () => {
+    const split = splitItineraryExpenses([expense({ amount: 10, currency: "USD" })], members, "USD");
+
+    expect(split.balances.map((balance) => balance.share)).toEqual([3.34, 3.33, 3.33]);
+    expect(split.settlements.reduce((sum, settlement) => sum + settlement.amount, 0)).toBeCloseTo(6.66);
+  });
+});
+
+describe("categorizeActivity and tripCurrency", () => {
+  it("maps plan categories onto expense categories", () => {
+    expect(categorizeActivity({ name: "Gwangjang", category: "market" })).toBe("food");
+    expect(categorizeActivity({ name: "KTX", category: "transport" })).toBe("transport");
+    expect(categorizeActivity({ name: "Gyeongbokgung", category: "attraction" })).toBe("activities");
+  });
+
+  it("budgets in the city's currency, else USD", () => {
+    expect(tripCurrency("Seoul")).toBe("KRW");
+    expect(tripCurrency("Atlantis")).toBe("USD");
+    expect(tripCurrency(null)).toBe("USD");
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildItineraryCalendar,
+  calendarFeedUrls,
+  parseActivityDuration,
+  parseActivityTime,
+  parseTripStartDate,
+  type ItineraryCalendarInput,
+} from "@/lib/itineraries/calendar";
+
+function calendar(overrides: Partial<ItineraryCalendarInput> = {}) {
+  return buildItineraryCalendar({
+    id: "itin-1",
+    title: "Seoul, After Dark",
+    city: "Seoul",
+    startDate: "2026-10-02",
+    version: 3,
+    generatedAt: new Date("2026-09-20T08:00:00Z"),
+    dailyPlans: [
+      {
+        day: 1,
+        theme: "Old town",
+        activities: [
+          {
+            name: "Gwangjang Market",
+            time: "9:30 AM",
+            duration: "2 hours",
+            address: "88 Changgyeonggung-ro, Jongno-gu",
+            description: "Bindaetteok; go hungry",
+            cost: "₩15,000",
+            lat: 37.57,
+            lng: 126.9995,
+          },
+          { name: "Ikseon-dong Hanok Alley", time: "1:00 PM" },
+          { name: "Euljiro Pojangmacha", time: "evening" },
+        ],
+      },
+      {
+        day: 2,
+        activities: [{ name: "Bukhansan Hike", time: "07:00", duration: "3-4 hrs" }],
+      },
+    ],
+    ...overrides,
+  });
+}
+
+function events(ics: string) {
+  return ics.split("BEGIN:VEVENT").slice(1).map((block) => block.replace(/\r\n /g, ""));
+}
+
+describe("parsing activity times", () => {
+  it("reads 12- and 24-hour times and named times", () => {
+    expect(parseActivityTime("9:30 AM")).toBe(570);
+    expect(parseActivityTime("12 pm")).toBe(720);
+    expect(parseActivityTime("12:15 a.m.")).toBe(15);
+    expect(parseActivityTime("18:45")).toBe(1125);
+    expect(parseActivityTime("noon")).toBe(720);
+    expect(parseActivityTime("morning")).toBeNull();
+    expect(parseActivityTime("25:00")).toBeNull();
+  });
+
+  it("reads durations and ranges", () => {
+    expect(parseActivityDuration("2 hours")).toBe(120);
+    expect(parseActivityDuration("1h 30m")).toBe(90);
+    expect(parseActivityDuration("3-4 hrs")).toBe(210);
+    expect(parseActivityDuration("45 min")).toBe(45);
+    expect(parseActivityDuration("all day")).toBeNull();
+  });
+
+  it("only accepts real start dates", () => {
+    expect(parseTripStartDate("2026-10-02")?.toISOString()).toBe("2026-10-02T00:00:00.000Z");
+    expect(parseTripStartDate("2026-02-30")).toBeNull();
+    expect(parseTripStartDate("next friday")).toBeNull();
+  });
+});
+
+describe("buildItineraryCalendar", () => {
+  it("lays activities out as timed events on the trip's dates", () => {
+    const [market, alley, pojang, hike] = events(calendar());
+
+    expect(market).toContain("DTSTART:20261002T093000");
+    expect(market).toContain("DTEND:20261002T113000");
+    expect(market).toContain("LOCATION:88 Changgyeonggung-ro\\, Jongno-gu");
+    expect(market).toContain("GEO:37.57;126.9995");
+    expect(market).toContain("DESCRIPTION:Bindaetteok\\; go hungry\\nCost: ₩15\\,000\\nDuration: 2 hours\\nDay 1: Old town");
+    // No duration: runs until the next activity, capped at three hours
+    expect(alley).toContain("DTSTART:20261002T130000");
+    expect(alley).toContain("DTEND:20261002T160000");
+    expect(pojang).toContain("DTSTART:20261002T190000");
+    expect(hike).toContain("DTSTART:20261003T070000");
+    expect(hike).toContain("DTEND:20261003T103000");
+  });
+
+  it("keeps event identities stable across revisions", () => {
+    const first = calendar();
+    const revised = calendar({ version: 4 });
+    const uids = (ics: string) => events(ics).map((event) => /UID:(.+)/.exec(event)?.[1]?.trim());
+
+    expect(uids(first)).toEqual(uids(revised));
+    expect(uids(first)[0]).toBe("itin-1-day1-gwangjang-market@localley.io");
+    expect(revised).toContain("SEQUENCE:4");
+  });
+
+  it("starts tomorrow when the trip has no dates", () => {
+    const ics = calendar({ startDate: null, today: new Date("2026-09-20T22:00:00Z") });
+    expect(events(ics)[0]).toContain("DTSTART:20260921T093000");
+  });
+
+  it("folds long lines and uses CRLF line endings", () => {
+    const ics = calendar({ title: "A very long itinerary title ".repeat(5) });
+    const lines = ics.split("\r\n");
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+});
+
+describe("calendarFeedUrls", () => {
+  it("offers a webcal:// link for the feed", () => {
+    expect(calendarFeedUrls("https://www.localley.io", "abc")).toEqual({
+      feedUrl: "https://www.localley.io/api/calendar/abc.ics",
+      webcalUrl: "webcal://www.localley.io/api/calendar/abc.ics",
+    });
+  });
+});
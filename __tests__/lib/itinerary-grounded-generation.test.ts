@@ -47,6 +47,21 @@ describe("grounded itinerary generation", () => {
     expect(ranked.map((candidate) => candidate.id)).toEqual(["2"]);
   });
 
+  it("ranks semantically relevant spots ahead of equally local ones", () => {
+    const candidates = [
+      spot("1", "Huam Rooftop Bar", "Nightlife"),
+      spot("2", "Arc N Book", "Cafe"),
+      spot("3", "Seoul Forest Walk", "Outdoor"),
+    ];
+    const preferences = { days: 1, localnessLevel: 4, pace: "relaxed" };
+
+    expect(rankItineraryGroundingSpots(candidates, preferences).map((candidate) => candidate.id)).toEqual(["1", "2", "3"]);
+    expect(rankItineraryGroundingSpots(candidates, {
+      ...preferences,
+      relevance: new Map([["1", 0.05], ["2", 0.62], ["3", -0.2]]),
+    }).map((candidate) => candidate.id)).toEqual(["2", "1", "3"]);
+  });
+
   it("enforces relaxed pacing, category diversity, and real spot hydration", () => {
     const candidates = [
       spot("1", "Mangwon Food Alley", "Market"),
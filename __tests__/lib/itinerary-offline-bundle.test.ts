@@ -0,0 +1,139 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+  buildItineraryGpx,
+  buildItineraryKml,
+  buildOfflineBundle,
+  collectOfflineStops,
+  type OfflineItinerary,
+} from "@/lib/itineraries/offline-bundle";
+import { planMapSnapshot } from "@/lib/itineraries/map-snapshot";
+
+const itinerary: OfflineItinerary = {
+  id: "itin-1",
+  title: "Seoul: Eat & Drink",
+  city: "Seoul",
+  days: 2,
+  dailyPlans: [
+    {
+      day: 1,
+      theme: "Markets",
+      activities: [
+        {
+          name: "Gwangjang Market",
+          nameKo: "광장시장",
+          time: "9:30 AM",
+          address: "88 Changgyeonggung-ro, Jongno-gu, Seoul",
+          category: "food",
+          lat: 37.57,
+          lng: 126.9995,
+        },
+        { name: "Ikseon-dong <Hanok> Alley", address: "Ikseon-dong, Seoul", lat: 37.5744, lng: 126.9897 },
+        { name: "Somewhere untracked", address: "Jongno-gu, Seoul" },
+      ],
+    },
+    { day: 2, activities: [{ name: "Bukhansan", address: "Seoul", lat: 37.6586, lng: 126.9779 }] },
+  ],
+};
+
+describe("collectOfflineStops", () => {
+  it("keeps plan order and links each stop to directions", () => {
+    const stops = collectOfflineStops(itinerary);
+
+    expect(stops.map((stop) => [stop.day, stop.order, stop.name])).toEqual([
+      [1, 1, "Gwangjang Market"],
+      [1, 2, "Ikseon-dong <Hanok> Alley"],
+      [1, 3, "Somewhere untracked"],
+      [2, 1, "Bukhansan"],
+    ]);
+    expect(stops[0].directionsUrl).toBe("https://map.kakao.com/link/to/Gwangjang%20Market,37.57,126.9995");
+    expect(stops[2]).toMatchObject({ lat: undefined, lng: undefined });
+  });
+});
+
+describe("map formats", () => {
+  it("writes located stops as GPX waypoints with a route per day", () => {
+    const gpx = buildItineraryGpx(itinerary);
+
+    expect(gpx).toContain('<wpt lat="37.57" lon="126.9995">');
+    expect(gpx).toContain("<name>Day 1 · 1. Gwangjang Market (광장시장)</name>");
+    expect(gpx).toContain("Ikseon-dong &lt;Hanok&gt; Alley");
+    expect(gpx).toContain("<name>Seoul: Eat &amp; Drink</name>");
+    expect(gpx).not.toContain("Somewhere untracked");
+    // Day 2 has a single stop, so only day 1 gets a route
+    expect(gpx.match(/<rte>/g)).toHaveLength(1);
+  });
+
+  it("writes KML folders with lng,lat coordinates", () => {
+    const kml = buildItineraryKml(itinerary);
+
+    expect(kml).toContain("<Point><coordinates>126.9995,37.57,0</coordinates></Point>");
+    expect(kml).toContain("<coordinates>126.9995,37.57,0 126.9897,37.5744,0</coordinates>");
+    expect(kml.match(/<Folder>/g)).toHaveLength(2);
+  });
+});
+
+describe("buildOfflineBundle", () => {
+  it("zips GPX, KML, JSON and a readme", async () => {
+    const bundle = await buildOfflineBundle(itinerary, { exportedAt: new Date("2026-10-01T00:00:00Z") });
+    const zip = await JSZip.loadAsync(bundle.data);
+
+    expect(bundle.filename).toBe("seoul-eat-drink-offline.zip");
+    expect(Object.keys(zip.files).sort()).toEqual([
+      "README.txt",
+      "seoul-eat-drink.gpx",
+      "seoul-eat-drink.json",
+      "seoul-eat-drink.kml",
+    ]);
+    const plan = JSON.parse(await zip.file("seoul-eat-drink.json")!.async("string"));
+    expect(plan.exportedAt).toBe("2026-10-01T00:00:00.000Z");
+    expect(plan.dailyPlans[0].activities[2]).toMatchObject({
+      name: "Somewhere untracked",
+      directionsUrl: expect.stringContaining("map.kakao.com/link/search/"),
+    });
+  });
+});
+
+describe("planMapSnapshot", () => {
+  it("fits every stop inside the padded frame", () => {
+    const snapshot = planMapSnapshot(
+      [
+        { lat: 37.57, lng: 126.9995, label: "1" },
+        { lat: 37.6586, lng: 126.9779, label: "2" },
+      ],
+      { width: 1080, height: 480, padding: 48, staticMapsKey: "maps-key" }
+    )!;
+
+    for (const marker of snapshot.markers) {
+      expect(marker.left).toBeGreaterThanOrEqual(48);
+      expect(marker.left).toBeLessThanOrEqual(1080 - 48);
+      expect(marker.top).toBeGreaterThanOrEqual(48);
+      expect(marker.top).toBeLessThanOrEqual(480 - 48);
+    }
+    // One Static Maps image, fetched at half size and double scale, covers the frame
+    expect(snapshot.tiles).toHaveLength(1);
+    expect(snapshot.tiles[0]).toMatchObject({ left: 0, top: 0, width: 1080, height: 480 });
+    const url = new URL(snapshot.tiles[0].url);
+    expect(url.origin + url.pathname).toBe("https://maps.googleapis.com/maps/api/staticmap");
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      zoom: String(snapshot.zoom - 1),
+      size: "540x240",
+      scale: "2",
+      key: "maps-key",
+    });
+    const [lat, lng] = url.searchParams.get("center")!.split(",").map(Number);
+    expect(lat).toBeCloseTo((37.57 + 37.6586) / 2, 1);
+    expect(lng).toBeCloseTo((126.9995 + 126.9779) / 2, 2);
+  });
+
+  it("draws stops without a map image when no Static Maps key is configured", () => {
+    const snapshot = planMapSnapshot([{ lat: 37.57, lng: 126.9995, label: "1" }], { width: 1080, height: 480 })!;
+
+    expect(snapshot.tiles).toEqual([]);
+    expect(snapshot.markers).toEqual([{ label: "1", left: 540, top: 240 }]);
+  });
+
+  it("returns null without coordinates", () => {
+    expect(planMapSnapshot([{ lat: 0, lng: 0, label: "1" }], { width: 100, height: 100 })).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  buildOfflinePrecacheUrls,
+  clearQueuedItineraryEdit,
+  loadQueuedItineraryEdit,
+  queueItineraryEdit,
+  syncOfflineDataOwner,
+} from "@/lib/itineraries/offline";
+import { toItineraryDraft, type CollaborativeItinerary } from "@/lib/itineraries/collaboration";
+
+const ITINERARY_ID = "8a1e4c2b-5d3f-4e6a-9b7c-0f2d1e3a4b5c";
+
+function itinerary(version: number): CollaborativeItinerary {
+  return {
+    id: ITINERARY_ID,
+    title: "Tokyo Weekend",
+    city: "Tokyo",
+    dailyPlans: [{ day: 1, theme: "Shimokitazawa", activities: [{ name: "Bear Pond Espresso", time: "09:00 AM" }] }],
+    insights: [],
+    highlights: [],
+    estimatedCost: "",
+    version,
+    role: "editor",
+  };
+}
+
+describe("buildOfflinePrecacheUrls", () => {
+  it("lists the pages, plan data, spot pages and thumbnails once each", () => {
+    const urls = buildOfflinePrecacheUrls(
+      ITINERARY_ID,
+      [
+        {
+          activities: [
+            { name: "Bear Pond Espresso", image: "https://images.unsplash.com/photo-1.jpg" },
+            { name: "Reload", thumbnail: "/images/reload.jpg" },
+            { name: "Inline", image: "data:image/png;base64,AAAA" },
+            { name: "No photo" },
+          ],
+        },
+        { activities: [{ name: "Bear Pond Espresso", image: "https://images.unsplash.com/photo-1.jpg" }] },
+      ],
+      [{ id: "spot-1", photos: ["https://x.supabase.co/storage/spot-1.jpg", "https://x.supabase.co/storage/spot-1b.jpg"] }]
+    );
+
+    expect(urls).toEqual([
+      `/itineraries/${ITINERARY_ID}`,
+      `/itineraries/${ITINERARY_ID}/edit`,
+      `/api/itineraries/${ITINERARY_ID}/collaborate`,
+      `/api/itineraries/${ITINERARY_ID}/offline`,
+      "/spots/spot-1",
+      "https://images.unsplash.com/photo-1.jpg",
+      "/images/reload.jpg",
+      "https://x.supabase.co/storage/spot-1.jpg",
+    ]);
+  });
+});
+
+describe("offline edit queue", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keeps unsent edits with the version they were made against", () => {
+    const base = itinerary(3);
+    const draft = { ...toItineraryDraft(base), title: "Tokyo on foot" };
+
+    queueItineraryEdit(base, draft, new Date("2026-10-19T08:00:00Z"));
+
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).toEqual({
+      base,
+      draft,
+      queuedAt: "2026-10-19T08:00:00.000Z",
+    });
+    expect(loadQueuedItineraryEdit("another-itinerary")).toBeNull();
+
+    clearQueuedItineraryEdit(ITINERARY_ID);
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).toBeNull();
+  });
+
+  it("ignores corrupted entries", () => {
+    localStorage.setItem(`localley_offline_edit:${ITINERARY_ID}`, "{not json");
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).toBeNull();
+  });
+});
+
+describe("syncOfflineDataOwner", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keeps queued edits for their user and drops them on sign-out or a switch", async () => {
+    queueItineraryEdit(itinerary(3), toItineraryDraft(itinerary(3)));
+
+    await syncOfflineDataOwner("user_alice");
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).not.toBeNull();
+
+    await syncOfflineDataOwner("user_alice");
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).not.toBeNull();
+
+    await syncOfflineDataOwner(null);
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).toBeNull();
+
+    await syncOfflineDataOwner("user_alice");
+    queueItineraryEdit(itinerary(4), toItineraryDraft(itinerary(4)));
+    localStorage.setItem("localley_theme", "dark");
+    await syncOfflineDataOwner("user_bob");
+    expect(loadQueuedItineraryEdit(ITINERARY_ID)).toBeNull();
+    expect(localStorage.getItem("localley_theme")).toBe("dark");
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest";
+import {
+  ItineraryPatchError,
+  applyItineraryOperations,
+  describeItineraryOperation,
+  diffDailyPlans,
+  rebaseItineraryOperations,
+  summarizeItineraryOperations,
+  type RevisionDayPlan,
+} from "@/lib/itineraries/revisions";
+
+function activity(name: string, time = "10:00 AM") {
+  return { name, time, type: "morning", address: `${name}, Seoul`, category: "cafe" };
+}
+
+function plans(): RevisionDayPlan[] {
+  return [
+    { day: 1, theme: "Markets", activities: [activity("Mangwon Market"), activity("Fritz Coffee"), activity("Hangang Park")] },
+    { day: 2, theme: "Mapo", activities: [activity("Yeonnam Park"), activity("Gyeongui Line Forest"), activity("Hongdae")] },
+    { day: 3, theme: "Palaces", activities: [activity("Changdeokgung"), activity("Ikseon-dong")] },
+  ];
+}
+
+function names(dailyPlans: RevisionDayPlan[]) {
+  return dailyPlans.map((plan) => [plan.day, plan.theme, plan.activities.map((item) => item.name)]);
+}
+
+describe("applying itinerary operations", () => {
+  it("applies operations in order and records what they replaced", () => {
+    const before = plans();
+    const { dailyPlans, operations } = applyItineraryOperations(before, [
+      { op: "replace_activity", day: 1, index: 1, activity: activity("Anthracite") },
+      { op: "move_activity", fromDay: 3, fromIndex: 1, toDay: 1, toIndex: 0 },
+      { op: "remove_activity", day: 2, index: 2 },
+      { op: "retheme_day", day: 2, theme: "Slow Mapo" },
+      { op: "add_activity", day: 2, activity: activity("Tteok Museum") },
+    ]);
+
+    expect(names(dailyPlans)).toEqual([
+      [1, "Markets", ["Ikseon-dong", "Mangwon Market", "Anthracite", "Hangang Park"]],
+      [2, "Slow Mapo", ["Yeonnam Park", "Gyeongui Line Forest", "Tteok Museum"]],
+      [3, "Palaces", ["Changdeokgung"]],
+    ]);
+    expect(operations.map(describeItineraryOperation)).toEqual([
+      "Replaced Fritz Coffee with Anthracite on day 1",
+      "Moved Ikseon-dong from day 3 to day 1",
+      "Removed Hongdae from day 2",
+      'Renamed day 2 to "Slow Mapo"',
+      "Added Tteok Museum to day 2",
+    ]);
+    expect(operations[4]).toMatchObject({ index: 2 });
+    expect(names(before)[0]).toEqual([1, "Markets", ["Mangwon Market", "Fritz Coffee", "Hangang Park"]]);
+  });
+
+  it("renumbers days when one is added or removed", () => {
+    const { dailyPlans, operations } = applyItineraryOperations(plans(), [
+      { op: "remove_day", day: 1 },
+      { op: "add_day", day: 3, theme: "Gangnam", activities: [activity("Bongeunsa")] },
+    ]);
+
+    expect(names(dailyPlans)).toEqual([
+      [1, "Mapo", ["Yeonnam Park", "Gyeongui Line Forest", "Hongdae"]],
+      [2, "Palaces", ["Changdeokgung", "Ikseon-dong"]],
+      [3, "Gangnam", ["Bongeunsa"]],
+    ]);
+    expect(operations[0]).toMatchObject({ theme: "Markets", activities: plans()[0].activities });
+  });
+
+  it("rejects operations that do not fit the plan", () => {
+    expect(() => applyItineraryOperations(plans(), [{ op: "remove_activity", day: 3, index: 2 }])).toThrow(
+      new ItineraryPatchError("Day 3 has 2 activities; index 2 is out of range.")
+    );
+    expect(() => applyItineraryOperations(plans(), [{ op: "retheme_day", day: 5, theme: "Busan" }])).toThrow(
+      "The itinerary has no day 5; it has 3 days."
+    );
+    expect(() =>
+      applyItineraryOperations(plans(), [{ op: "add_day", day: 6, activities: [] }])
+    ).toThrow("Cannot add day 6; the itinerary has 3 days.");
+  });
+});
+
+describe("diffing daily plans", () => {
+  it("describes a reshuffle as moves, edits and removals that rebuild the target", () => {
+    const before = plans();
+    const after: RevisionDayPlan[] = [
+      {
+        day: 1,
+        theme: "Markets",
+        activities: [activity("Mangwon Market"), activity("Hongdae"), { ...activity("Hangang Park"), time: "06:00 PM" }],
+      },
+      { day: 2, theme: "Forest walks", activities: [activity("Gyeongui Line Forest"), activity("Seoul Forest")] },
+    ];
+
+    const operations = diffDailyPlans(before, after);
+
+    expect(applyItineraryOperations(before, operations).dailyPlans).toEqual(after);
+    expect(operations.map(describeItineraryOperation)).toEqual([
+      "Moved Hongdae from day 2 to day 1",
+      "Removed Fritz Coffee from day 1",
+      "Updated Hangang Park on day 1",
+      'Renamed day 2 to "Forest walks"',
+      "Moved Gyeongui Line Forest within day 2",
+      "Removed Yeonnam Park from day 2",
+      "Added Seoul Forest to day 2",
+      "Removed day 3",
+    ]);
+  });
+
+  it("finds no changes when only key order differs", () => {
+    const reordered = plans().map((plan) => ({
+      ...plan,
+      activities: plan.activities.map(({ category, address, ...rest }) => ({ category, ...rest, address })),
+    }));
+
+    expect(diffDailyPlans(plans(), reordered)).toEqual([]);
+  });
+
+  it("adds days with their activities", () => {
+    const after = [...plans(), { day: 4, theme: "DMZ", activities: [activity("Imjingak")] }];
+    const operations = diffDailyPlans(plans(), after);
+
+    expect(applyItineraryOperations(plans(), operations).dailyPlans).toEqual(after);
+    expect(summarizeItineraryOperations(operations)).toBe("Added day 4: DMZ; Added Imjingak to day 4.");
+  });
+
+  it("summarises long change lists", () => {
+    const operations = diffDailyPlans(plans(), [{ day: 1, theme: "Markets", activities: [activity("Mangwon Market")] }]);
+
+    expect(summarizeItineraryOperations(operations)).toBe(
+      "Removed Hangang Park from day 1; Removed Fritz Coffee from day 1; Removed day 3 and 1 more change."
+    );
+    expect(summarizeItineraryOperations([])).toBeNull();
+  });
+});
+
+describe("rebasing operations onto a newer plan", () => {
+  it("re-anchors edits by activity so concurrent changes both survive", () => {
+    const base = plans();
+    // Someone else added a stop at the start of day 1 and renamed day 2
+    const current = applyItineraryOperations(base, [
+      { op: "add_activity", day: 1, index: 0, activity: activity("Mangwon Hangang Park") },
+      { op: "retheme_day", day: 2, theme: "Yeonnam" },
+    ]).dailyPlans;
+
+    const { dailyPlans, operations } = rebaseItineraryOperations(base, [
+      { op: "remove_activity", day: 1, index: 1 },
+      { op: "add_activity", day: 1, index: 1, activity: activity("Anthracite") },
+      { op: "move_activity", fromDay: 2, fromIndex: 2, toDay: 1, toIndex: 0 },
+    ], current);
+
+    expect(names(dailyPlans)).toEqual([
+      [1, "Markets", ["Hongdae", "Mangwon Hangang Park", "Mangwon Market", "Anthracite", "Hangang Park"]],
+      [2, "Yeonnam", ["Yeonnam Park", "Gyeongui Line Forest"]],
+      [3, "Palaces", ["Changdeokgung", "Ikseon-dong"]],
+    ]);
+    expect(operations.map(describeItineraryOperation)).toEqual([
+      "Removed Fritz Coffee from day 1",
+      "Added Anthracite to day 1",
+      "Moved Hongdae from day 2 to day 1",
+    ]);
+  });
+
+  it("merges edits to different fields of one activity", () => {
+    const base = plans();
+    const current = applyItineraryOperations(base, [
+      { op: "replace_activity", day: 3, index: 0, activity: { ...activity("Changdeokgung"), time: "09:00 AM" } },
+    ]).dailyPlans;
+
+    const { dailyPlans } = rebaseItineraryOperations(base, [
+      { op: "replace_activity", day: 3, index: 0, activity: { ...activity("Changdeokgung"), category: "palace" } },
+    ], current);
+
+    expect(dailyPlans[2].activities[0]).toEqual({ ...activity("Changdeokgung"), time: "09:00 AM", category: "palace" });
+  });
+
+  it("drops edits to activities someone else removed", () => {
+    const base = plans();
+    const current = applyItineraryOperations(base, [{ op: "remove_activity", day: 2, index: 0 }]).dailyPlans;
+
+    const { dailyPlans, operations, conflicts } = rebaseItineraryOperations(base, [
+      { op: "replace_activity", day: 2, index: 0, activity: { ...activity("Yeonnam Park"), time: "08:00 AM" } },
+      { op: "remove_activity", day: 2, index: 0 },
+      { op: "add_activity", day: 2, activity: activity("Gyeongui Line Forest") },
+    ], current);
+
+    expect(operations).toEqual([]);
+    expect(dailyPlans).toEqual(current);
+    // Only the lost edit is a conflict; removing it again is what they wanted
+    expect(conflicts.map(describeItineraryOperation)).toEqual(["Updated Yeonnam Park on day 2"]);
+  });
+
+  it("reports moves and renames that no longer have a target", () => {
+    const base = plans();
+    const current = applyItineraryOperations(base, [
+      { op: "remove_activity", day: 2, index: 2 },
+      { op: "remove_day", day: 3 },
+    ]).dailyPlans;
+
+    const { dailyPlans, conflicts } = rebaseItineraryOperations(base, [
+      { op: "move_activity", fromDay: 2, fromIndex: 2, toDay: 1, toIndex: 0 },
+      { op: "retheme_day", day: 3, theme: "Hanok" },
+      { op: "retheme_day", day: 1, theme: "Mangwon" },
+    ], current);
+
+    expect(names(dailyPlans)[0][1]).toBe("Mangwon");
+    expect(conflicts.map(describeItineraryOperation)).toEqual([
+      "Moved Hongdae from day 2 to day 1",
+      'Renamed day 3 to "Hanok"',
+    ]);
+  });
+});
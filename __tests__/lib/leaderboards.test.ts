@@ -0,0 +1,274 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+    getLeaderboard,
+    getLeaderboardPeriod,
+    rankByXp,
+    refreshLeaderboards,
+} from "@/lib/leaderboards";
+
+const mocks = vi.hoisted(() => ({
+    awardXp: vi.fn(async () => ({ status: "awarded", awarded: 500 })),
+    notifyAchievementUnlocked: vi.fn(async () => ({ notification: null, pushSent: 0 })),
+}));
+
+vi.mock("@/lib/xp-ledger", () => ({ awardXp: mocks.awardXp }));
+vi.mock("@/lib/notification-triggers", () => ({
+    notifyAchievementUnlocked: mocks.notifyAchievementUnlocked,
+}));
+
+type Row = Record<string, unknown>;
+
+// Like PostgREST, no response carries more than this many rows
+const ROW_CAP = 1000;
+
+// Ledger totals come from the SQL function; here they're whatever the test sets
+function fakeSupabase(tables: Record<string, Row[]>, totals: (args: Row) => Row[]) {
+    const page = (rows: Row[], window: [number, number]) =>
+        rows.slice(window[0], Math.min(window[1] + 1, window[0] + ROW_CAP));
+
+    return {
+        rpc: vi.fn((_name: string, args: Row) => {
+            let window: [number, number] = [0, ROW_CAP - 1];
+            const result = {
+                order: () => result,
+                range: (from: number, to: number) => {
+                    window = [from, to];
+                    return result;
+                },
+                then: (resolve: (value: { data: Row[]; error: null }) => void) =>
+                    resolve({ data: page(totals(args), window), error: null }),
+            };
+            return result;
+        }),
+        from(table: string) {
+            const rows = (tables[table] ??= []);
+            const filters: Array<(row: Row) => boolean> = [];
+            let remove = false;
+            let window: [number, number] = [0, ROW_CAP - 1];
+            const matching = () => rows.filter((row) => filters.every((filter) => filter(row)));
+            const run = () => {
+                const found = matching();
+                if (remove) tables[table] = rows.filter((row) => !found.includes(row));
+                return { data: page(found, window), error: null };
+            };
+            const builder = {
+                select: () => builder,
+                delete: () => {
+                    remove = true;
+                    return builder;
+                },
+                eq: (column: string, value: unknown) => {
+                    filters.push((row) => row[column] === value);
+                    return builder;
+                },
+                in: (column: string, values: unknown[]) => {
+                    filters.push((row) => values.includes(row[column]));
+                    return builder;
+                },
+                lt: (column: string, value: string) => {
+                    filters.push((row) => String(row[column]) < value);
+                    return builder;
+                },
+                lte: (column: string, value: number) => {
+                    filters.push((row) => (row[column] as number) <= value);
+                    return builder;
+                },
+                like: (column: string, pattern: string) => {
+                    filters.push((row) => String(row[column]).startsWith(pattern.replace("%", "")));
+                    return builder;
+                },
+                order: () => builder,
+                limit: () => builder,
+                range: (from: number, to: number) => {
+                    window = [from, to];
+                    return builder;
+                },
+                upsert: async (values: Row[]) => {
+                    for (const value of values) {
+                        const existing = rows.find((row) =>
+                            ["board", "period", "city", "user_id"].every((key) => row[key] === value[key])
+                        );
+                        if (existing) Object.assign(existing, value);
+                        else rows.push({ ...value });
+                    }
+                    return { error: null };
+                },
+                maybeSingle: async () => ({ data: run().data[0] ?? null, error: null }),
+                then: (resolve: (value: ReturnType<typeof run>) => void) => resolve(run()),
+            };
+            return builder;
+        },
+    } as unknown as SupabaseClient & { rpc: ReturnType<typeof vi.fn> };
+}
+
+function total(clerk: string, xp: number, city = "") {
+    return { user_id: `u-${clerk}`, clerk_user_id: clerk, city, xp };
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("getLeaderboardPeriod", () => {
+    it("keys weeks by ISO week, months by month and seasons by quarter", () => {
+        const at = new Date("2026-10-19T12:00:00Z");
+
+        expect(getLeaderboardPeriod("week", at)).toMatchObject({
+            key: "2026-W43",
+            start: new Date("2026-10-19T00:00:00Z"),
+            end: new Date("2026-10-26T00:00:00Z"),
+        });
+        expect(getLeaderboardPeriod("month", at)).toMatchObject({ key: "2026-10", label: "October 2026" });
+        expect(getLeaderboardPeriod("season", at)).toMatchObject({
+            key: "2026-Q4",
+            label: "Autumn 2026 season",
+            start: new Date("2026-10-01T00:00:00Z"),
+            end: new Date("2027-01-01T00:00:00Z"),
+        });
+        expect(getLeaderboardPeriod("week", new Date("2027-01-01T08:00:00Z")).key).toBe("2026-W53");
+    });
+});
+
+describe("rankByXp", () => {
+    it("shares ranks between ties", () => {
+        const ranked = rankByXp([total("a", 10), total("b", 30), total("c", 30), total("d", 5)]);
+        expect(ranked.map((row) => [row.clerk_user_id, row.rank])).toEqual([
+            ["b", 1],
+            ["c", 1],
+            ["a", 3],
+            ["d", 4],
+        ]);
+    });
+});
+
+describe("refreshLeaderboards", () => {
+    it("materialises each board and keeps the previous rank for deltas", async () => {
+        const tables: Record<string, Row[]> = { leaderboard_entries: [], xp_ledger: [] };
+        let week = [total("ana", 120), total("ben", 80), total("ana", 120, "busan")];
+        const supabase = fakeSupabase(tables, (args) =>
+            args.p_since === new Date("2026-10-19T00:00:00Z").toISOString() ? week : []
+        );
+
+        await refreshLeaderboards(new Date("2026-10-20T00:10:00Z"), supabase);
+        week = [total("ana", 120), total("ben", 200), total("ana", 120, "busan")];
+        const summary = await refreshLeaderboards(new Date("2026-10-21T00:10:00Z"), supabase);
+
+        expect(summary.boards.find((board) => board.board === "week")).toEqual({
+            board: "week",
+            period: "2026-W43",
+            entries: 3,
+        });
+        const weekRows = tables.leaderboard_entries.filter((row) => row.board === "week");
+        expect(weekRows).toEqual(expect.arrayContaining([
+            expect.objectContaining({ city: "", clerk_user_id: "ben", rank: 1, previous_rank: 2 }),
+            expect.objectContaining({ city: "", clerk_user_id: "ana", rank: 2, previous_rank: 1 }),
+            expect.objectContaining({ city: "busan", clerk_user_id: "ana", rank: 1, previous_rank: 1 }),
+        ]));
+        expect(supabase.rpc).toHaveBeenCalledWith("xp_leaderboard_totals", expect.objectContaining({
+            p_exclude_reasons: ["opening_balance", "season_award"],
+        }));
+        expect(summary.seasonAwards).toBe(0);
+    });
+
+    it("drops users whose XP for the period was reversed away", async () => {
+        const tables: Record<string, Row[]> = { leaderboard_entries: [], xp_ledger: [] };
+        let all = [total("ana", 50), total("spammer", 40)];
+        const supabase = fakeSupabase(tables, (args) => (args.p_since === null ? all : []));
+
+        await refreshLeaderboards(new Date("2026-10-20T00:10:00Z"), supabase);
+        all = [total("ana", 50)];
+        await refreshLeaderboards(new Date("2026-10-21T00:10:00Z"), supabase);
+
+        expect(tables.leaderboard_entries.map((row) => row.clerk_user_id)).toEqual(["ana"]);
+    });
+
+    it("ranks and keeps everyone on boards longer than one page", async () => {
+        const tables: Record<string, Row[]> = { leaderboard_entries: [], xp_ledger: [] };
+        const everyone = Array.from({ length: 2500 }, (_, index) => total(`user${index}`, 5000 - index));
+        const supabase = fakeSupabase(tables, (args) => (args.p_since === null ? everyone : []));
+
+        await refreshLeaderboards(new Date("2026-10-20T00:10:00Z"), supabase);
+        const summary = await refreshLeaderboards(new Date("2026-10-21T00:10:00Z"), supabase);
+
+        const allTime = tables.leaderboard_entries.filter((row) => row.board === "all_time");
+        expect(summary.boards.find((board) => board.board === "all_time")?.entries).toBe(2500);
+        expect(allTime).toHaveLength(2500);
+        expect(allTime.find((row) => row.clerk_user_id === "user2499")).toMatchObject({
+            rank: 2500,
+            previous_rank: 2500,
+        });
+    });
+
+    it("pays last season's podiums once in the first week of a season", async () => {
+        const tables: Record<string, Row[]> = {
+            leaderboard_entries: [],
+            xp_ledger: [{ reason: "season_award", source_id: "2026-Q3:busan" }],
+        };
+        const supabase = fakeSupabase(tables, (args) =>
+            args.p_until === "2026-10-01T00:00:00.000Z"
+                ? [total("ana", 900), total("ben", 400), total("cho", 300), total("dan", 10), total("ben", 400, "busan")]
+                : []
+        );
+
+        const summary = await refreshLeaderboards(new Date("2026-10-02T00:10:00Z"), supabase);
+
+        expect(summary.seasonAwards).toBe(3);
+        expect(mocks.awardXp).toHaveBeenCalledTimes(3);
+        expect(mocks.awardXp).toHaveBeenCalledWith(
+            expect.objectContaining({
+                clerkUserId: "ana",
+                reason: "season_award",
+                source: { type: "season", id: "2026-Q3:global" },
+                amount: 500,
+            }),
+            supabase
+        );
+        expect(mocks.notifyAchievementUnlocked).toHaveBeenCalledWith(
+            "cho",
+            "Summer 2026 season #3",
+            "You finished #3 overall in the Summer 2026 season",
+            150
+        );
+    });
+});
+
+describe("getLeaderboard", () => {
+    it("ranks the viewer against the people they follow", async () => {
+        const entry = (clerk: string, xp: number, rank: number, previous: number | null) => ({
+            board: "season",
+            period: "2026-Q4",
+            city: "",
+            user_id: `u-${clerk}`,
+            clerk_user_id: clerk,
+            xp,
+            rank,
+            previous_rank: previous,
+            user: { username: clerk, level: 2 },
+        });
+        const tables: Record<string, Row[]> = {
+            follows: [
+                { follower_id: "me", following_id: "ben" },
+                { follower_id: "me", following_id: "cho" },
+            ],
+            leaderboard_entries: [
+                entry("stranger", 900, 1, 1),
+                entry("ben", 500, 2, 5),
+                entry("me", 400, 3, 2),
+                entry("cho", 100, 9, null),
+            ],
+        };
+
+        const board = await getLeaderboard(
+            { board: "season", friends: true, viewerClerkUserId: "me", at: new Date("2026-10-19T12:00:00Z") },
+            fakeSupabase(tables, () => [])
+        );
+
+        expect(board.entries.map((row) => [row.clerkId, row.rank, row.rankChange])).toEqual([
+            ["ben", 1, 1],
+            ["me", 2, -1],
+            ["cho", 3, null],
+        ]);
+        expect(board.entries[1]).toMatchObject({ isCurrentUser: true, title: "Alley Cat" });
+    });
+});
@@ -0,0 +1,311 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  ChatToolError,
+  defineChatTool,
+  generateChatAgentReply,
+  streamChatAgentReply,
+  type ChatAgentInput,
+} from "@/lib/llm/chat-agent";
+import { CircuitBreakerManager } from "@/lib/llm";
+import type { ToolGenerationOptions, ToolGenerationResult, ToolStreamEvent } from "@/lib/llm";
+
+const mocks = vi.hoisted(() => ({
+  generateChatReplyWithFallback: vi.fn(),
+  streamChatReplyWithFallback: vi.fn(),
+}));
+
+vi.mock("@/lib/llm/chat-provider", () => ({
+  generateChatReplyWithFallback: mocks.generateChatReplyWithFallback,
+  streamChatReplyWithFallback: mocks.streamChatReplyWithFallback,
+}));
+
+function turn(content: string, toolCalls: ToolGenerationResult["toolCalls"] = []): ToolGenerationResult {
+  return {
+    content,
+    toolCalls,
+    usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+    latencyMs: 5,
+    provider: "glm",
+  };
+}
+
+function createProvider(...turns: Array<ToolGenerationResult | Error>) {
+  const generateWithTools = vi.fn(async (options: ToolGenerationOptions) => {
+    void options;
+    const next = turns.shift();
+    if (!next || next instanceof Error) throw next ?? new Error("no more turns");
+    return next;
+  });
+  // Streams the same turns, a word per delta; an error after text fails mid-stream
+  const streamWithTools = vi.fn(async function* (options: ToolGenerationOptions): AsyncGenerator<ToolStreamEvent> {
+    void options;
+    const next = turns.shift();
+    if (!next || next instanceof Error) throw next ?? new Error("no more turns");
+    for (const word of next.content.match(/\S+\s*/g) ?? []) {
+      yield { type: "delta", content: word };
+    }
+    const failure = turns[0];
+    if (next.content && failure instanceof Error) {
+      turns.shift();
+      throw failure;
+    }
+    yield { type: "done", toolCalls: next.toolCalls, usage: next.usage, latencyMs: next.latencyMs };
+  });
+  return { isAvailable: vi.fn(() => true), generateWithTools, streamWithTools };
+}
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+const removeActivity = vi.fn(async ({ day, activityIndex }: { day: number; activityIndex: number }) => ({
+  updated: true,
+  removed: { day, activityIndex },
+}));
+
+function createInput(overrides: Partial<ChatAgentInput> = {}): ChatAgentInput {
+  return {
+    systemPrompt: "You are Alley.",
+    fallbackSystemPrompt: async () => "You are Alley without tools.",
+    messages: [{ role: "user", content: "Swap day 2 lunch for somewhere cheaper" }],
+    tools: [
+      defineChatTool({
+        name: "remove_itinerary_activity",
+        description: "Remove an activity",
+        parameters: z.object({ day: z.number().int().min(1), activityIndex: z.number().int().min(0) }),
+        execute: removeActivity,
+      }),
+      defineChatTool({
+        name: "search_spots",
+        description: "Search spots",
+        parameters: z.object({ city: z.string() }),
+        execute: async ({ city }) => {
+          throw new ChatToolError(`Localley has no curated spots for "${city}".`);
+        },
+      }),
+    ],
+    maxTokens: 2048,
+    temperature: 0.7,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("chat agent tool loop", () => {
+  it("executes tool calls and feeds their results back until the model answers", async () => {
+    const provider = createProvider(
+      turn("", [{ id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":2,"activityIndex":1}' }]),
+      turn("Done! Day 2 lunch is gone."),
+    );
+
+    const reply = await generateChatAgentReply(createInput(), { provider, circuitBreakers: new CircuitBreakerManager() });
+
+    expect(reply).toMatchObject({
+      content: "Done! Day 2 lunch is gone.",
+      provider: "glm",
+      fallbackUsed: false,
+      toolCalls: [
+        {
+          id: "call_1",
+          name: "remove_itinerary_activity",
+          arguments: { day: 2, activityIndex: 1 },
+          result: { updated: true, removed: { day: 2, activityIndex: 1 } },
+          isError: false,
+        },
+      ],
+    });
+    expect(removeActivity).toHaveBeenCalledWith({ day: 2, activityIndex: 1 });
+
+    const [first, second] = provider.generateWithTools.mock.calls.map(([options]) => options);
+    expect(first.tools.map((tool) => tool.name)).toEqual(["remove_itinerary_activity", "search_spots"]);
+    expect(first.tools[0].parameters).toMatchObject({ type: "object", required: ["day", "activityIndex"] });
+    expect(first.tools[0].parameters).not.toHaveProperty("$schema");
+    expect(second.messages.slice(-2)).toEqual([
+      {
+        role: "assistant",
+        content: null,
+        toolCalls: [{ id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":2,"activityIndex":1}' }],
+      },
+      { role: "tool", toolCallId: "call_1", content: '{"updated":true,"removed":{"day":2,"activityIndex":1}}' },
+    ]);
+    expect(mocks.generateChatReplyWithFallback).not.toHaveBeenCalled();
+  });
+
+  it("reports bad arguments, unknown tools and tool errors to the model", async () => {
+    const provider = createProvider(
+      turn("", [
+        { id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":0}' },
+        { id: "call_2", name: "delete_account", arguments: "{}" },
+        { id: "call_3", name: "search_spots", arguments: '{"city":"Atlantis"}' },
+        { id: "call_4", name: "search_spots", arguments: "{city:" },
+      ]),
+      turn("Sorry, I couldn't find anything."),
+    );
+
+    const reply = await generateChatAgentReply(createInput(), { provider, circuitBreakers: new CircuitBreakerManager() });
+
+    expect(reply.toolCalls.map((call) => [call.id, call.isError])).toEqual([
+      ["call_1", true],
+      ["call_2", true],
+      ["call_3", true],
+      ["call_4", true],
+    ]);
+    expect(reply.toolCalls[1].result).toEqual({ error: 'Unknown tool "delete_account".' });
+    expect(reply.toolCalls[2].result).toEqual({ error: 'Localley has no curated spots for "Atlantis".' });
+    expect(reply.toolCalls[3].result).toEqual({ error: "Arguments were not valid JSON." });
+    expect(removeActivity).not.toHaveBeenCalled();
+  });
+
+  it("forces a text answer once the step budget is spent", async () => {
+    const call = { id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":1,"activityIndex":0}' };
+    const provider = createProvider(turn("", [call]), turn("", [{ ...call, id: "call_2" }]), turn("That's all I can do."));
+
+    const reply = await generateChatAgentReply(createInput(), {
+      provider,
+      circuitBreakers: new CircuitBreakerManager(),
+      maxSteps: 2,
+    });
+
+    expect(reply.content).toBe("That's all I can do.");
+    expect(provider.generateWithTools.mock.calls.map(([options]) => options.toolChoice)).toEqual(["auto", "auto", "none"]);
+  });
+
+  it("replays persisted tool calls from earlier turns", async () => {
+    const provider = createProvider(turn("Lunch is already swapped."));
+
+    await generateChatAgentReply(
+      createInput({
+        messages: [
+          { role: "user", content: "Drop day 1 breakfast" },
+          {
+            role: "assistant",
+            content: "Removed it.",
+            toolCalls: [
+              { id: "call_0", name: "remove_itinerary_activity", arguments: { day: 1, activityIndex: 0 }, result: { updated: true }, isError: false },
+            ],
+          },
+          { role: "user", content: "Did that work?" },
+        ],
+      }),
+      { provider, circuitBreakers: new CircuitBreakerManager() },
+    );
+
+    expect(provider.generateWithTools.mock.calls[0][0].messages).toEqual([
+      { role: "system", content: "You are Alley." },
+      { role: "user", content: "Drop day 1 breakfast" },
+      {
+        role: "assistant",
+        content: null,
+        toolCalls: [{ id: "call_0", name: "remove_itinerary_activity", arguments: '{"day":1,"activityIndex":0}' }],
+      },
+      { role: "tool", toolCallId: "call_0", content: '{"updated":true}' },
+      { role: "assistant", content: "Removed it." },
+      { role: "user", content: "Did that work?" },
+    ]);
+  });
+});
+
+describe("chat agent fallback", () => {
+  it("falls back to the plain pipeline, told which tools already ran", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const provider = createProvider(
+      turn("", [{ id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":2,"activityIndex":1}' }]),
+      new Error("503 upstream unavailable"),
+    );
+    const circuitBreakers = new CircuitBreakerManager();
+    mocks.generateChatReplyWithFallback.mockResolvedValueOnce({
+      content: "I removed day 2 lunch.",
+      provider: "anthropic",
+      model: "claude-sonnet-4-20250514",
+      fallbackUsed: true,
+      fallbackReason: "glm_error",
+      primaryProvider: "glm",
+      primaryModel: "glm-5.2",
+      primaryConfigured: true,
+    });
+
+    const reply = await generateChatAgentReply(createInput(), { provider, circuitBreakers });
+
+    expect(reply).toMatchObject({ content: "I removed day 2 lunch.", provider: "anthropic", toolCalls: [{ id: "call_1" }] });
+    expect(mocks.generateChatReplyWithFallback).toHaveBeenCalledWith({
+      systemPrompt: expect.stringContaining("ACTIONS ALREADY TAKEN THIS TURN"),
+      messages: [{ role: "user", content: "Swap day 2 lunch for somewhere cheaper" }],
+      maxTokens: 2048,
+      temperature: 0.7,
+    });
+    expect(mocks.generateChatReplyWithFallback.mock.calls[0][0].systemPrompt).toMatch(
+      /^You are Alley without tools\.[\s\S]*remove_itinerary_activity\(\{"day":2,"activityIndex":1\}\)/,
+    );
+    expect(circuitBreakers.get("glm").getStatus().failures).toBe(1);
+    consoleError.mockRestore();
+  });
+
+  it("skips the tool loop when GLM is not configured", async () => {
+    const provider = { isAvailable: vi.fn(() => false), generateWithTools: vi.fn(), streamWithTools: vi.fn() };
+    mocks.generateChatReplyWithFallback.mockResolvedValueOnce({ content: "Plain reply", provider: "anthropic" });
+
+    const reply = await generateChatAgentReply(createInput(), { provider });
+
+    expect(provider.generateWithTools).not.toHaveBeenCalled();
+    expect(reply).toMatchObject({ content: "Plain reply", toolCalls: [] });
+    expect(mocks.generateChatReplyWithFallback.mock.calls[0][0].systemPrompt).toBe("You are Alley without tools.");
+  });
+});
+
+describe("streamed chat agent", () => {
+  it("runs tool turns quietly, then streams the answer token by token", async () => {
+    const provider = createProvider(
+      turn("", [{ id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":2,"activityIndex":1}' }]),
+      turn("Swapped day 2 lunch."),
+    );
+
+    const events = await collect(streamChatAgentReply(createInput(), { provider, circuitBreakers: new CircuitBreakerManager() }));
+
+    expect(events.map((event) => event.type)).toEqual(["tool", "start", "delta", "delta", "delta", "delta", "done"]);
+    expect(events.filter((event) => event.type === "delta").map((event) => event.content).join("")).toBe("Swapped day 2 lunch.");
+    expect(events.at(-1)).toMatchObject({ type: "done", content: "Swapped day 2 lunch.", toolCalls: [{ id: "call_1", isError: false }] });
+    expect(provider.streamWithTools.mock.calls[1][0].messages.at(-1)).toMatchObject({ role: "tool", toolCallId: "call_1" });
+    expect(provider.generateWithTools).not.toHaveBeenCalled();
+    expect(mocks.streamChatReplyWithFallback).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the plain stream when GLM fails before its first token", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const provider = createProvider(
+      turn("", [{ id: "call_1", name: "remove_itinerary_activity", arguments: '{"day":2,"activityIndex":1}' }]),
+      new Error("503 upstream unavailable"),
+    );
+    mocks.streamChatReplyWithFallback.mockImplementationOnce(async function* () {
+      yield { type: "start", provider: "anthropic" };
+      yield { type: "delta", content: "Removed it." };
+      yield { type: "done", content: "Removed it." };
+    });
+
+    const events = await collect(streamChatAgentReply(createInput(), { provider, circuitBreakers: new CircuitBreakerManager() }));
+
+    expect(events.map((event) => event.type)).toEqual(["tool", "start", "delta", "done"]);
+    expect(events.at(-1)).toMatchObject({ content: "Removed it.", toolCalls: [{ id: "call_1" }] });
+    expect(mocks.streamChatReplyWithFallback.mock.calls[0][0].systemPrompt).toContain("ACTIONS ALREADY TAKEN THIS TURN");
+    consoleError.mockRestore();
+  });
+
+  it("ends the stream when GLM fails after tokens went out", async () => {
+    const provider = createProvider(turn("Half an ans"), new Error("connection reset"));
+    const circuitBreakers = new CircuitBreakerManager();
+
+    const events: unknown[] = [];
+    await expect(async () => {
+      for await (const event of streamChatAgentReply(createInput(), { provider, circuitBreakers })) events.push(event);
+    }).rejects.toThrow("connection reset");
+
+    expect(events.map((event) => (event as { type: string }).type)).toEqual(["start", "delta", "delta", "delta"]);
+    expect(mocks.streamChatReplyWithFallback).not.toHaveBeenCalled();
+    expect(circuitBreakers.get("glm").getStatus().failures).toBe(1);
+  });
+});
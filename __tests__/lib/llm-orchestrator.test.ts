@@ -1,5 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
-import { LLMOrchestrator } from "@/lib/llm";
+import { LLMOrchestrator, LLMProviderRegistry } from "@/lib/llm";
+import type { CircuitBreakerManager } from "@/lib/llm";
 import type {
   GeneratedItinerary,
   OrchestrationMetrics,
@@ -66,25 +67,24 @@ function createProvider(name: "glm" | "openai", available: boolean, result: "suc
   return {
     name,
     isAvailable: vi.fn(() => available),
+    healthCheck: vi.fn(async () => available),
     generateItineraryStructure: vi.fn(async () => {
       if (result === "fail") {
         throw new Error(`${name} failed`);
       }
       return itinerary;
     }),
+    generateSingleActivity: vi.fn(),
   };
 }
 
 function createOrchestrator(glm: ReturnType<typeof createProvider>, openai: ReturnType<typeof createProvider>) {
-  const orchestrator = new LLMOrchestrator();
-
-  Object.assign(orchestrator as unknown as Record<string, unknown>, {
-    glm,
-    openai,
+  const orchestrator = new LLMOrchestrator({
+    registry: new LLMProviderRegistry().register(glm).register(openai),
     circuitBreakers: {
       isAvailable: vi.fn(() => true),
       recordFailure: vi.fn(),
-    },
+    } as unknown as CircuitBreakerManager,
   });
 
   return orchestrator as unknown as {
@@ -137,3 +137,61 @@ describe("LLMOrchestrator single-LLM provider routing", () => {
     consoleError.mockRestore();
   });
 });
+
+describe("LLMOrchestrator activity repair", () => {
+  it("completes each invalid activity with the first usable generator and records the spend", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const glm = createProvider("glm", false, "success");
+    const openai = createProvider("openai", true, "success");
+    const repaired = itinerary.dailyPlans[0].activities[0];
+    openai.generateSingleActivity
+      .mockResolvedValueOnce(repaired)
+      .mockRejectedValueOnce(new Error("openai timed out"));
+    const spendLedger = {
+      record: vi.fn(async () => {}),
+      monthlySpendUsd: vi.fn(async () => 0),
+      topSpenders: vi.fn(async () => []),
+    };
+    const orchestrator = new LLMOrchestrator({
+      registry: new LLMProviderRegistry().register(glm).register(openai),
+      circuitBreakers: {
+        isAvailable: vi.fn(() => true),
+        recordSuccess: vi.fn(),
+        recordFailure: vi.fn(),
+      } as unknown as CircuitBreakerManager,
+      spendLedger,
+    });
+
+    const result = await orchestrator.repairActivities({
+      city: "Tokyo",
+      tier: "free",
+      userId: "user_test",
+      requestId: "request_test",
+      activities: [
+        {
+          dayTheme: "Markets",
+          timeSlot: "morning",
+          name: "Tsukiji Outer Market",
+          address: "Tsukiji, Chuo City, Tokyo",
+          problems: "cost: Invalid input",
+        },
+        { dayTheme: "Markets", timeSlot: "evening", problems: "name: Invalid input" },
+      ],
+    });
+
+    expect(result).toEqual([repaired, null]);
+    expect(glm.generateSingleActivity).not.toHaveBeenCalled();
+    expect(openai.generateSingleActivity).toHaveBeenCalledWith({
+      city: "Tokyo",
+      dayTheme: "Markets",
+      timeSlot: "morning",
+      requirements: "Keep this exact place: Tsukiji Outer Market (Tsukiji, Chuo City, Tokyo). Fix these problems: cost: Invalid input",
+      excludeNames: [],
+    });
+    expect(spendLedger.record).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user_test", requestType: "revision", tier: "free" })
+    );
+
+    consoleError.mockRestore();
+  });
+});
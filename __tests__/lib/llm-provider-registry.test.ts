@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreakerManager,
+  LLMCache,
+  LLMOrchestrator,
+  LLMProviderRegistry,
+  readOpenAICompatibleProviderConfigs,
+} from "@/lib/llm";
+import type { GeneratedItinerary, OrchestrationRequest } from "@/lib/llm";
+import { OpenAICompatibleProvider } from "@/lib/llm/providers/openai-compatible";
+import { OpenAI } from "openai";
+
+vi.mock("openai", () => ({
+  OpenAI: vi.fn().mockImplementation(function OpenAIMock() {
+    return { chat: { completions: { create: vi.fn() } } };
+  }),
+}));
+
+const itinerary: GeneratedItinerary = {
+  title: "Seoul Offline Day",
+  subtitle: "Generated by a self-hosted model",
+  city: "Seoul",
+  days: 1,
+  localScore: 7,
+  estimatedCost: "$40-60",
+  highlights: ["Mangwon Market"],
+  dailyPlans: [{ day: 1, theme: "Markets", activities: [] }],
+};
+
+function createProvider(name: string, available = true) {
+  return {
+    name,
+    isAvailable: vi.fn(() => available),
+    healthCheck: vi.fn(async () => available),
+    generateItineraryStructure: vi.fn(async () => ({ ...itinerary, subtitle: `Generated by ${name}` })),
+    generateSingleActivity: vi.fn(),
+  };
+}
+
+const spendLedger = {
+  record: vi.fn(async () => {}),
+  monthlySpendUsd: vi.fn(async () => 0),
+  topSpenders: vi.fn(async () => []),
+};
+
+function createRequest(): OrchestrationRequest {
+  return {
+    type: "itinerary",
+    params: { city: "Seoul", days: 1 },
+    tier: "free",
+    userId: "user_test",
+    requestId: "request_test",
+  };
+}
+
+describe("LLMProviderRegistry", () => {
+  it("places registered providers ahead of the configured tiers and routes", () => {
+    const registry = new LLMProviderRegistry()
+      .register(createProvider("glm"))
+      .register(createProvider("openai"))
+      .register(createProvider("ollama"), { tiers: ["free"], routes: ["emergency"] });
+
+    expect(registry.tierProviders("free")).toEqual(["ollama", "glm", "openai"]);
+    expect(registry.singleLLMProviders("free")).toEqual(["ollama", "glm", "openai"]);
+    expect(registry.tierProviders("pro")).toEqual(["glm", "openai", "gemini"]);
+    expect(registry.routeProviders("emergency")).toEqual(["ollama", "glm", "openai"]);
+    expect(registry.routeProviders("primary")).toEqual(["glm", "gemini", "claude"]);
+    expect(registry.routeProviders("cost_ceiling")).toEqual(["glm", "openai"]);
+  });
+
+  it("rejects duplicate provider names", () => {
+    const registry = new LLMProviderRegistry().register(createProvider("glm"));
+    expect(() => registry.register(createProvider("glm"))).toThrow("already registered");
+  });
+
+  it("runs the orchestrator against a stub provider placed on the free tier", async () => {
+    const local = createProvider("local");
+    const glm = createProvider("glm");
+    const orchestrator = new LLMOrchestrator({
+      registry: new LLMProviderRegistry()
+        .register(glm)
+        .register(local, { tiers: ["free"] }),
+      circuitBreakers: new CircuitBreakerManager(),
+      cache: new LLMCache(),
+      spendLedger,
+    });
+
+    const result = await orchestrator.generateItinerary(createRequest());
+
+    expect(result.success).toBe(true);
+    expect(result.data?.subtitle).toBe("Generated by local");
+    expect(result.metrics.providersUsed).toEqual(["local"]);
+    expect(result.fallbackUsed).toBeUndefined();
+    expect(glm.generateItineraryStructure).not.toHaveBeenCalled();
+    expect(orchestrator.getHealthStatus().providers).toEqual({ glm: true, local: true });
+  });
+
+  it("skips a registered provider whose circuit is open", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const local = createProvider("local");
+    local.generateItineraryStructure.mockRejectedValue(new Error("connection refused"));
+    const glm = createProvider("glm");
+    const circuitBreakers = new CircuitBreakerManager({ threshold: 1, resetTimeMs: 60_000, halfOpenRequests: 1 });
+    const orchestrator = new LLMOrchestrator({
+      registry: new LLMProviderRegistry().register(glm).register(local, { tiers: ["free"] }),
+      circuitBreakers,
+      cache: new LLMCache(),
+      spendLedger,
+    });
+
+    const first = await orchestrator.generateItinerary(createRequest());
+    expect(first.metrics.providersUsed).toEqual(["glm"]);
+    expect(first.fallbackUsed).toBe("emergency");
+    expect(circuitBreakers.isAvailable("local")).toBe(false);
+
+    await orchestrator.generateItinerary(createRequest());
+    expect(local.generateItineraryStructure).toHaveBeenCalledTimes(1);
+
+    consoleError.mockRestore();
+  });
+});
+
+describe("OpenAI-compatible providers from env", () => {
+  afterEach(() => {
+    delete process.env.LLM_OPENAI_COMPATIBLE_PROVIDERS;
+    delete process.env.VLLM_API_KEY;
+  });
+
+  it("reads keyless and keyed providers with their placement", () => {
+    process.env.VLLM_API_KEY = "  vllm_key  ";
+    process.env.LLM_OPENAI_COMPATIBLE_PROVIDERS = JSON.stringify([
+      { name: "ollama", baseURL: "http://localhost:11434/v1", model: "llama3.1", tiers: ["free"] },
+      { name: "vllm", baseURL: "http://gpu.internal:8000/v1", model: "qwen", apiKeyEnv: "VLLM_API_KEY", routes: ["emergency"] },
+    ]);
+
+    expect(readOpenAICompatibleProviderConfigs()).toEqual([
+      { name: "ollama", baseURL: "http://localhost:11434/v1", model: "llama3.1", tiers: ["free"], routes: [], apiKey: null },
+      {
+        name: "vllm",
+        baseURL: "http://gpu.internal:8000/v1",
+        model: "qwen",
+        apiKeyEnv: "VLLM_API_KEY",
+        tiers: [],
+        routes: ["emergency"],
+        apiKey: "vllm_key",
+      },
+    ]);
+  });
+
+  it("ignores invalid config instead of failing", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    process.env.LLM_OPENAI_COMPATIBLE_PROVIDERS = JSON.stringify([{ name: "Bad Name", baseURL: "nope", model: "" }]);
+    expect(readOpenAICompatibleProviderConfigs()).toEqual([]);
+
+    process.env.LLM_OPENAI_COMPATIBLE_PROVIDERS = "[{";
+    expect(readOpenAICompatibleProviderConfigs()).toEqual([]);
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    consoleError.mockRestore();
+  });
+
+  it("lets keyless local servers through without an API key", () => {
+    const provider = new OpenAICompatibleProvider({
+      name: "ollama",
+      baseURL: "http://localhost:11434/v1",
+      model: "llama3.1",
+      apiKey: null,
+      requiresApiKey: false,
+    });
+
+    expect(provider.isAvailable()).toBe(true);
+    expect(OpenAI).toHaveBeenLastCalledWith({ apiKey: "not-needed", baseURL: "http://localhost:11434/v1" });
+    expect(
+      new OpenAICompatibleProvider({ name: "vllm", baseURL: "http://gpu.internal:8000/v1", model: "qwen", apiKey: null }).isAvailable(),
+    ).toBe(false);
+  });
+});
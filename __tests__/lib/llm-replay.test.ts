@@ -0,0 +1,217 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreakerManager,
+  HashedEmbeddingProvider,
+  LLMCache,
+  LLMCassette,
+  LLMOrchestrator,
+  LLMProviderRegistry,
+  LLMReplayMissError,
+  ReplayedProviderError,
+  SemanticItineraryCache,
+  llmRequestHash,
+} from "@/lib/llm";
+import type { GeneratedItinerary, LLMFixture, OrchestrationRequest } from "@/lib/llm";
+import { generateChatReplyWithFallback, streamChatReplyWithFallback } from "@/lib/llm/chat-provider";
+import { GLMProvider } from "@/lib/llm/providers/glm";
+import { OpenAIProvider } from "@/lib/llm/providers/openai";
+
+const { createCompletion } = vi.hoisted(() => ({ createCompletion: vi.fn() }));
+
+vi.mock("openai", () => ({
+  OpenAI: vi.fn().mockImplementation(function OpenAIMock() {
+    return { chat: { completions: { create: createCompletion } } };
+  }),
+}));
+
+const itinerary: GeneratedItinerary = {
+  title: "Busan Harbour Day",
+  subtitle: "Fish markets and hillside lanes",
+  city: "Busan",
+  days: 1,
+  localScore: 8,
+  estimatedCost: "$50-80",
+  highlights: ["Jagalchi Market"],
+  dailyPlans: [
+    {
+      day: 1,
+      theme: "Harbour",
+      activities: [
+        {
+          time: "9:00 AM",
+          type: "morning",
+          name: "Jagalchi Market",
+          address: "52 Jagalchihaean-ro, Jung-gu, Busan",
+          description: "Pick a plate of raw fish upstairs from the auction floor.",
+          category: "market",
+          localleyScore: 5,
+          duration: "2 hours",
+          cost: "$20-30",
+        },
+      ],
+    },
+  ],
+};
+
+function completion(content: string) {
+  return {
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: 120, completion_tokens: 340, total_tokens: 460 },
+  };
+}
+
+function createRequest(): OrchestrationRequest {
+  return {
+    type: "itinerary",
+    params: { city: "Busan", days: 1, interests: ["food"] },
+    tier: "free",
+    userId: "user_test",
+    requestId: "request_test",
+  };
+}
+
+function createOrchestrator() {
+  const cache = new LLMCache();
+  return new LLMOrchestrator({
+    registry: new LLMProviderRegistry().register(new GLMProvider()).register(new OpenAIProvider()),
+    circuitBreakers: new CircuitBreakerManager(),
+    cache,
+    semanticCache: new SemanticItineraryCache(cache, new HashedEmbeddingProvider()),
+    spendLedger: { record: vi.fn(async () => {}), monthlySpendUsd: vi.fn(async () => 0), topSpenders: vi.fn() },
+  });
+}
+
+let fixturesDir: string;
+
+beforeEach(async () => {
+  fixturesDir = await mkdtemp(path.join(tmpdir(), "llm-fixtures-"));
+  process.env.LLM_FIXTURES_DIR = fixturesDir;
+  process.env.GLM_API_KEY = "glm_test_key";
+  process.env.OPENAI_API_KEY = "openai_test_key";
+  createCompletion.mockReset();
+});
+
+afterEach(async () => {
+  for (const name of ["LLM_REPLAY_MODE", "LLM_FIXTURES_DIR", "GLM_API_KEY", "OPENAI_API_KEY"]) {
+    delete process.env[name];
+  }
+  await rm(fixturesDir, { recursive: true, force: true });
+});
+
+describe("LLMCassette", () => {
+  it("hashes requests independently of key order", () => {
+    expect(llmRequestHash("glm", "chat.completions.create", { model: "glm-5.2", temperature: 0.7 })).toBe(
+      llmRequestHash("glm", "chat.completions.create", { temperature: 0.7, model: "glm-5.2", stop: undefined }),
+    );
+    expect(llmRequestHash("glm", "chat.completions.create", { model: "glm-5.2" })).not.toBe(
+      llmRequestHash("openai", "chat.completions.create", { model: "glm-5.2" }),
+    );
+  });
+
+  it("records responses and errors in call order and replays them", async () => {
+    const recorder = new LLMCassette("record", fixturesDir);
+    const request = { model: "glm-5.2", messages: [{ role: "user", content: "Hi" }] };
+    await expect(
+      recorder.run("glm", "chat.completions.create", request, async () => {
+        throw Object.assign(new Error("429 rate limit reached"), { status: 429 });
+      }),
+    ).rejects.toThrow("rate limit");
+    await recorder.run("glm", "chat.completions.create", request, async () => completion("Hello"));
+
+    const [file] = await readdir(fixturesDir);
+    const fixture = JSON.parse(await readFile(path.join(fixturesDir, file), "utf8")) as LLMFixture;
+    expect(fixture).toMatchObject({ version: 1, provider: "glm", request });
+    expect(fixture.interactions).toEqual([
+      { error: { message: "429 rate limit reached", status: 429 } },
+      { response: completion("Hello") },
+    ]);
+
+    const player = new LLMCassette("replay", fixturesDir);
+    const call = vi.fn();
+    const first = player.run("glm", "chat.completions.create", request, call);
+    await expect(first).rejects.toBeInstanceOf(ReplayedProviderError);
+    await expect(first).rejects.toMatchObject({ message: "429 rate limit reached", status: 429 });
+    await expect(player.run("glm", "chat.completions.create", request, call)).resolves.toEqual(completion("Hello"));
+    await expect(player.run("glm", "chat.completions.create", request, call)).resolves.toEqual(completion("Hello"));
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it("fails loudly when a replayed request has no fixture", async () => {
+    const player = new LLMCassette("replay", fixturesDir);
+    await expect(player.run("openai", "chat.completions.create", { model: "gpt-4o" }, vi.fn())).rejects.toBeInstanceOf(
+      LLMReplayMissError,
+    );
+  });
+});
+
+describe("orchestrator record/replay", () => {
+  it("replays a GLM failure and OpenAI fallback without calling the SDK", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    process.env.LLM_REPLAY_MODE = "record";
+    createCompletion
+      .mockRejectedValueOnce(new Error("503 upstream unavailable"))
+      .mockResolvedValueOnce(completion(JSON.stringify(itinerary)));
+
+    const recorded = await createOrchestrator().generateItinerary(createRequest());
+    expect(recorded.metrics.providersUsed).toEqual(["openai"]);
+    expect(await readdir(fixturesDir)).toHaveLength(2);
+
+    process.env.LLM_REPLAY_MODE = "replay";
+    createCompletion.mockReset();
+    createCompletion.mockRejectedValue(new Error("network disabled"));
+
+    const replayed = await createOrchestrator().generateItinerary(createRequest());
+    expect(createCompletion).not.toHaveBeenCalled();
+    expect(replayed).toMatchObject({
+      success: true,
+      data: { title: "Busan Harbour Day" },
+      fallbackUsed: "chatgpt_fallback",
+      metrics: { providersUsed: ["openai"], retryCount: 1 },
+    });
+    consoleError.mockRestore();
+  });
+
+  it("replays chat replies from the GLM primary", async () => {
+    process.env.LLM_REPLAY_MODE = "record";
+    createCompletion.mockResolvedValueOnce(completion("Try the dwaeji gukbap near Seomyeon."));
+    const input = { systemPrompt: "You are Alley.", messages: [{ role: "user", content: "Busan lunch?" }] };
+    await generateChatReplyWithFallback(input);
+
+    process.env.LLM_REPLAY_MODE = "replay";
+    createCompletion.mockReset();
+    const reply = await generateChatReplyWithFallback(input);
+
+    expect(createCompletion).not.toHaveBeenCalled();
+    expect(reply).toMatchObject({ provider: "glm", content: "Try the dwaeji gukbap near Seomyeon." });
+  });
+
+  it("replays streamed chat chunks in order", async () => {
+    process.env.LLM_REPLAY_MODE = "record";
+    createCompletion.mockImplementationOnce(async () =>
+      (async function* () {
+        for (const content of ["Milmyeon ", "in Gaya."]) {
+          yield { choices: [{ delta: { content } }] };
+        }
+        yield { choices: [], usage: { prompt_tokens: 40, completion_tokens: 4, total_tokens: 44 } };
+      })()
+    );
+    const input = { systemPrompt: "You are Alley.", messages: [{ role: "user", content: "Cold noodles?" }] };
+    const readReply = async () => {
+      const deltas: string[] = [];
+      for await (const event of streamChatReplyWithFallback(input)) {
+        if (event.type === "delta") deltas.push(event.content);
+      }
+      return deltas;
+    };
+    expect(await readReply()).toEqual(["Milmyeon ", "in Gaya."]);
+
+    process.env.LLM_REPLAY_MODE = "replay";
+    createCompletion.mockReset();
+
+    expect(await readReply()).toEqual(["Milmyeon ", "in Gaya."]);
+    expect(createCompletion).not.toHaveBeenCalled();
+  });
+});
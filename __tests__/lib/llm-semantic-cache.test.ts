@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreakerManager,
+  HashedEmbeddingProvider,
+  LLMCache,
+  LLMOrchestrator,
+  LLMProviderRegistry,
+  SemanticItineraryCache,
+  cacheKeys,
+  cosineSimilarity,
+} from "@/lib/llm";
+import type { Activity, GeneratedItinerary, ItineraryParams, OrchestrationRequest } from "@/lib/llm";
+
+function activity(name: string, localleyScore: number, category = "food"): Activity {
+  return {
+    time: "10:00 AM",
+    type: "morning",
+    name,
+    address: `${name}, Seoul`,
+    description: `Time at ${name}.`,
+    category,
+    localleyScore,
+    duration: "1 hour",
+    cost: "$10",
+  };
+}
+
+function createItinerary(): GeneratedItinerary {
+  return {
+    title: "Seoul Food and Cafes",
+    subtitle: "Markets and roasteries",
+    city: "Seoul",
+    days: 2,
+    localScore: 8,
+    estimatedCost: "$60-90",
+    highlights: ["Mangwon Market"],
+    dailyPlans: [
+      { day: 1, theme: "Markets", activities: [activity("Mangwon Market", 5), activity("Chain Cafe", 2, "cafe")] },
+      { day: 2, theme: "Roasteries", activities: [activity("Fritz Coffee", 4, "cafe"), activity("Gwangjang Market", 3)] },
+    ],
+  };
+}
+
+function createGenerator(name = "glm") {
+  return {
+    name,
+    isAvailable: vi.fn(() => true),
+    healthCheck: vi.fn(async () => true),
+    generateItineraryStructure: vi.fn(async () => createItinerary()),
+    generateSingleActivity: vi.fn(async () => activity("Euljiro Nogari Alley", 5, "nightlife")),
+  };
+}
+
+function createRequest(params: Partial<ItineraryParams> = {}): OrchestrationRequest {
+  return {
+    type: "itinerary",
+    params: { city: "Seoul", days: 2, interests: ["food", "cafes"], budget: "moderate", ...params },
+    tier: "free",
+    userId: "user_test",
+    requestId: "request_test",
+  };
+}
+
+function createOrchestrator(...generators: ReturnType<typeof createGenerator>[]) {
+  const semanticCache = new SemanticItineraryCache(new LLMCache(), new HashedEmbeddingProvider());
+  const registry = new LLMProviderRegistry();
+  generators.forEach((generator) => registry.register(generator, { tiers: ["free"] }));
+  const orchestrator = new LLMOrchestrator({
+    registry,
+    circuitBreakers: new CircuitBreakerManager(),
+    cache: new LLMCache(),
+    semanticCache,
+    spendLedger: { record: vi.fn(async () => {}), monthlySpendUsd: vi.fn(async () => 0), topSpenders: vi.fn() },
+  });
+  return { orchestrator, semanticCache };
+}
+
+afterEach(() => {
+  delete process.env.LLM_SEMANTIC_CACHE_SERVE_THRESHOLD;
+  delete process.env.LLM_SEMANTIC_CACHE_ADAPT_THRESHOLD;
+  delete process.env.LLM_SEMANTIC_CACHE;
+});
+
+describe("itinerary cache keys", () => {
+  it("ignore interest order, case and city spacing", () => {
+    expect(cacheKeys.itineraryStructure({ city: "Seoul ", days: 3, interests: ["Food", "cafes"] }, "free")).toBe(
+      cacheKeys.itineraryStructure({ city: "seoul", days: 3, interests: ["cafes", "food", "food"] }, "free"),
+    );
+    expect(cacheKeys.itineraryStructure({ city: "Seoul", days: 3, interests: ["food"] }, "free")).not.toBe(
+      cacheKeys.itineraryStructure({ city: "Seoul", days: 3, interests: ["food"] }, "pro"),
+    );
+  });
+
+  it("embed near-identical preferences closer than unrelated ones", async () => {
+    const [base, near, far] = await new HashedEmbeddingProvider().embed([
+      "interests: cafes, food; budget: moderate; pace: moderate",
+      "interests: cafes, food; budget: moderate; pace: relaxed",
+      "interests: hiking, temples; budget: luxury; pace: packed",
+    ]);
+    expect(cosineSimilarity(base, near)).toBeGreaterThan(cosineSimilarity(base, far));
+    expect(cosineSimilarity(base, base)).toBeCloseTo(1);
+  });
+});
+
+describe("orchestrator semantic cache", () => {
+  it("serves a reordered request from the exact cache", async () => {
+    const generator = createGenerator();
+    const { orchestrator, semanticCache } = createOrchestrator(generator);
+
+    const first = await orchestrator.generateItinerary(createRequest());
+    const second = await orchestrator.generateItinerary(createRequest({ interests: ["Cafes", "food"] }));
+
+    expect(first.metrics.semanticCache).toBeUndefined();
+    expect(second).toMatchObject({
+      success: true,
+      data: { title: "Seoul Food and Cafes" },
+      metrics: { cacheHits: 1, providersUsed: [], semanticCache: { match: "exact", similarity: 1 } },
+    });
+    expect(generator.generateItineraryStructure).toHaveBeenCalledOnce();
+    expect(semanticCache.getStats()).toMatchObject({ lookups: 2, exactHits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it("serves a similar request unchanged above the serve threshold", async () => {
+    process.env.LLM_SEMANTIC_CACHE_SERVE_THRESHOLD = "0.5";
+    process.env.LLM_SEMANTIC_CACHE_ADAPT_THRESHOLD = "0.4";
+    const generator = createGenerator();
+    const { orchestrator } = createOrchestrator(generator);
+
+    await orchestrator.generateItinerary(createRequest());
+    const result = await orchestrator.generateItinerary(createRequest({ templatePrompt: "Rainy day plan" }));
+
+    expect(result.metrics.semanticCache?.match).toBe("served");
+    expect(generator.generateItineraryStructure).toHaveBeenCalledOnce();
+    expect(generator.generateSingleActivity).not.toHaveBeenCalled();
+  });
+
+  it("adapts a looser match by regenerating activities for new interests", async () => {
+    process.env.LLM_SEMANTIC_CACHE_SERVE_THRESHOLD = "0.99";
+    process.env.LLM_SEMANTIC_CACHE_ADAPT_THRESHOLD = "0.5";
+    const generator = createGenerator();
+    const { orchestrator, semanticCache } = createOrchestrator(generator);
+
+    await orchestrator.generateItinerary(createRequest());
+    const result = await orchestrator.generateItinerary(createRequest({ interests: ["food", "cafes", "nightlife"] }));
+
+    expect(result.metrics).toMatchObject({ providersUsed: ["glm"], semanticCache: { match: "adapted" } });
+    expect(generator.generateSingleActivity).toHaveBeenCalledWith(
+      expect.objectContaining({
+        city: "Seoul",
+        dayTheme: "Markets",
+        category: "nightlife",
+        excludeNames: ["Mangwon Market", "Chain Cafe", "Fritz Coffee", "Gwangjang Market"],
+      }),
+    );
+    expect(result.data?.dailyPlans[0].activities.map((item) => item.name)).toEqual([
+      "Mangwon Market",
+      "Euljiro Nogari Alley",
+    ]);
+    expect(semanticCache.getStats().adaptedHits).toBe(1);
+
+    const again = await orchestrator.generateItinerary(createRequest());
+    expect(again.data?.dailyPlans[0].activities[1].name).toBe("Chain Cafe");
+  });
+
+  it("never shares an itinerary between requests that differ in budget, pace, group or localness", async () => {
+    process.env.LLM_SEMANTIC_CACHE_SERVE_THRESHOLD = "0.1";
+    process.env.LLM_SEMANTIC_CACHE_ADAPT_THRESHOLD = "0.1";
+    const generator = createGenerator();
+    const { orchestrator } = createOrchestrator(generator);
+
+    await orchestrator.generateItinerary(createRequest({ budget: "budget" }));
+    const luxury = await orchestrator.generateItinerary(createRequest({ budget: "luxury" }));
+    const family = await orchestrator.generateItinerary(createRequest({ budget: "budget", groupType: "family" }));
+    const relaxed = await orchestrator.generateItinerary(createRequest({ budget: "budget", pace: "relaxed" }));
+    const local = await orchestrator.generateItinerary(createRequest({ budget: "budget", localnessLevel: 5 }));
+
+    for (const result of [luxury, family, relaxed, local]) {
+      expect(result.metrics.semanticCache).toBeUndefined();
+    }
+    expect(generator.generateItineraryStructure).toHaveBeenCalledTimes(5);
+  });
+
+  it("generates afresh when adaptation fails or nothing is close enough", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    process.env.LLM_SEMANTIC_CACHE_SERVE_THRESHOLD = "0.99";
+    process.env.LLM_SEMANTIC_CACHE_ADAPT_THRESHOLD = "0.5";
+    const generator = createGenerator();
+    generator.generateSingleActivity.mockRejectedValueOnce(new Error("503"));
+    const { orchestrator, semanticCache } = createOrchestrator(generator);
+
+    await orchestrator.generateItinerary(createRequest());
+    const adaptedFailed = await orchestrator.generateItinerary(createRequest({ interests: ["food", "cafes", "nightlife"] }));
+    const otherCity = await orchestrator.generateItinerary(createRequest({ city: "Busan" }));
+
+    expect(adaptedFailed.metrics.semanticCache).toBeUndefined();
+    expect(otherCity.metrics.semanticCache).toBeUndefined();
+    expect(generator.generateItineraryStructure).toHaveBeenCalledTimes(3);
+    expect(semanticCache.getStats()).toMatchObject({ lookups: 3, adaptFailures: 1, misses: 3, hitRate: 0 });
+    consoleError.mockRestore();
+  });
+
+  it("does not cache reduced-quality fallbacks or run when disabled", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const glm = createGenerator("glm");
+    glm.generateItineraryStructure.mockRejectedValueOnce(new Error("down"));
+    const local = createGenerator("local");
+    const { orchestrator } = createOrchestrator(glm, local);
+    const emergencyRequest = createRequest();
+
+    const fallback = await orchestrator.generateItinerary(emergencyRequest);
+    expect(fallback.fallbackUsed).toBe("emergency");
+    const retried = await orchestrator.generateItinerary(emergencyRequest);
+    expect(retried.metrics.semanticCache).toBeUndefined();
+
+    process.env.LLM_SEMANTIC_CACHE = "false";
+    const disabled = await orchestrator.generateItinerary(emergencyRequest);
+    expect(disabled.metrics.semanticCache).toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreakerManager,
+  LLMCache,
+  LLMOrchestrator,
+  LLMProviderRegistry,
+  SupabaseLLMSpendLedger,
+  spendMonthStart,
+  tierLLMConfigs,
+} from "@/lib/llm";
+import type { GeneratedItinerary, LLMSpendLedger, OrchestrationRequest, UserTier } from "@/lib/llm";
+import { GLMProvider } from "@/lib/llm/providers/glm";
+import { OpenAIProvider } from "@/lib/llm/providers/openai";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const { createCompletion } = vi.hoisted(() => ({ createCompletion: vi.fn() }));
+
+vi.mock("openai", () => ({
+  OpenAI: vi.fn().mockImplementation(function OpenAIMock() {
+    return { chat: { completions: { create: createCompletion } } };
+  }),
+}));
+
+const itinerary: GeneratedItinerary = {
+  title: "Daegu Alley Day",
+  subtitle: "Markets and herb lanes",
+  city: "Daegu",
+  days: 1,
+  localScore: 8,
+  estimatedCost: "$30-50",
+  highlights: ["Seomun Market"],
+  dailyPlans: [
+    {
+      day: 1,
+      theme: "Markets",
+      activities: [
+        {
+          time: "10:00 AM",
+          type: "morning",
+          name: "Seomun Market",
+          address: "45 Keunjang-ro 26-gil, Jung-gu, Daegu",
+          description: "Eat hotteok and knife-cut noodles between the fabric halls.",
+          category: "market",
+          localleyScore: 5,
+          duration: "2 hours",
+          cost: "$10-20",
+        },
+      ],
+    },
+  ],
+};
+
+function completion(promptTokens: number, completionTokens: number) {
+  return {
+    choices: [{ message: { content: JSON.stringify(itinerary) } }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  };
+}
+
+function createRequest(userId: string, tier: UserTier = "free"): OrchestrationRequest {
+  return {
+    type: "itinerary",
+    params: { city: "Daegu", days: 1 },
+    tier,
+    userId,
+    requestId: `request_${userId}`,
+  };
+}
+
+function createLedger(monthlySpendUsd = 0) {
+  return {
+    record: vi.fn(async () => {}),
+    monthlySpendUsd: vi.fn(async () => monthlySpendUsd),
+    topSpenders: vi.fn(async () => []),
+  } satisfies LLMSpendLedger;
+}
+
+function createOrchestrator(spendLedger: LLMSpendLedger, registry = new LLMProviderRegistry()) {
+  return new LLMOrchestrator({
+    registry: registry.register(new GLMProvider()).register(new OpenAIProvider()),
+    circuitBreakers: new CircuitBreakerManager(),
+    cache: new LLMCache(),
+    spendLedger,
+  });
+}
+
+beforeEach(() => {
+  process.env.GLM_API_KEY = "glm_test_key";
+  process.env.OPENAI_API_KEY = "openai_test_key";
+  createCompletion.mockReset();
+});
+
+afterEach(() => {
+  for (const name of ["GLM_API_KEY", "OPENAI_API_KEY", "ENABLE_MULTI_LLM", "MULTI_LLM_PREMIUM_TIER", "LLM_COST_CEILING_FREE_USD"]) {
+    delete process.env[name];
+  }
+});
+
+describe("orchestrator spend accounting", () => {
+  it("records the tokens each provider used for the requesting user", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    createCompletion
+      .mockRejectedValueOnce(new Error("503 upstream unavailable"))
+      .mockResolvedValueOnce(completion(1000, 2000));
+    const ledger = createLedger();
+
+    const result = await createOrchestrator(ledger).generateItinerary(createRequest("user_a"));
+
+    expect(result.metrics.providersUsed).toEqual(["openai"]);
+    expect(result.metrics.tokenUsage).toEqual({
+      openai: { inputTokens: 1000, outputTokens: 2000, totalTokens: 3000 },
+    });
+    expect(ledger.monthlySpendUsd).toHaveBeenCalledWith("user_a");
+    expect(ledger.record).toHaveBeenCalledWith({
+      userId: "user_a",
+      requestId: "request_user_a",
+      requestType: "itinerary",
+      tier: "free",
+      tokenUsage: { openai: { inputTokens: 1000, outputTokens: 2000, totalTokens: 3000 } },
+    });
+    consoleError.mockRestore();
+  });
+
+  it("keeps usage separate for concurrent orchestrations", async () => {
+    createCompletion.mockResolvedValueOnce(completion(100, 200)).mockResolvedValueOnce(completion(300, 400));
+    const ledger = createLedger();
+    const orchestrator = createOrchestrator(ledger);
+
+    const [first, second] = await Promise.all([
+      orchestrator.generateItinerary(createRequest("user_a")),
+      orchestrator.generateItinerary(createRequest("user_b")),
+    ]);
+
+    expect(first.metrics.tokenUsage).toEqual({ glm: { inputTokens: 100, outputTokens: 200, totalTokens: 300 } });
+    expect(second.metrics.tokenUsage).toEqual({ glm: { inputTokens: 300, outputTokens: 400, totalTokens: 700 } });
+  });
+
+  it("routes single-LLM users over their ceiling to the cost ceiling providers", async () => {
+    createCompletion.mockResolvedValueOnce(completion(100, 200));
+    const local = {
+      name: "local",
+      isAvailable: vi.fn(() => true),
+      healthCheck: vi.fn(async () => true),
+      generateItineraryStructure: vi.fn(async () => itinerary),
+      generateSingleActivity: vi.fn(),
+    };
+    const ledger = createLedger(0.75);
+    const registry = new LLMProviderRegistry().register(local, { tiers: ["free"] });
+
+    const result = await createOrchestrator(ledger, registry).generateItinerary(createRequest("user_a"));
+
+    expect(local.generateItineraryStructure).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      success: true,
+      fallbackUsed: "cost_ceiling",
+      metrics: { providersUsed: ["glm"], costCeilingReached: true },
+    });
+  });
+
+  it("skips validation and supervision on the cost ceiling route", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const consoleLog = vi.spyOn(console, "log").mockImplementation(() => {});
+    process.env.ENABLE_MULTI_LLM = "true";
+    process.env.MULTI_LLM_PREMIUM_TIER = "true";
+    createCompletion.mockResolvedValueOnce(completion(100, 200));
+    const supervise = vi.fn();
+    const claude = {
+      name: "claude",
+      isAvailable: vi.fn(() => true),
+      healthCheck: vi.fn(async () => true),
+      supervise,
+    };
+    const ledger = createLedger(25);
+
+    const result = await createOrchestrator(ledger, new LLMProviderRegistry().register(claude)).generateItinerary(
+      createRequest("user_p", "premium"),
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      fallbackUsed: "cost_ceiling",
+      qualityScore: null,
+      metrics: { providersUsed: ["glm"], fallbackRoute: "cost_ceiling", costCeilingReached: true },
+    });
+    expect(supervise).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+    consoleLog.mockRestore();
+  });
+
+  it("lets a zero ceiling disable the check", async () => {
+    process.env.LLM_COST_CEILING_FREE_USD = "0";
+    createCompletion.mockResolvedValueOnce(completion(100, 200));
+    const ledger = createLedger(1000);
+
+    const result = await createOrchestrator(ledger).generateItinerary(createRequest("user_a"));
+
+    expect(tierLLMConfigs.free.monthlyCostCeilingUsd).toBeNull();
+    expect(ledger.monthlySpendUsd).not.toHaveBeenCalled();
+    expect(result.metrics.costCeilingReached).toBeUndefined();
+  });
+});
+
+describe("SupabaseLLMSpendLedger", () => {
+  it("inserts one priced row per provider that used tokens", async () => {
+    const insert = vi.fn(async () => ({ error: null }));
+    const client = { from: vi.fn(() => ({ insert })) } as unknown as SupabaseClient;
+
+    await new SupabaseLLMSpendLedger(() => client).record({
+      userId: "user_a",
+      requestId: "request_a",
+      requestType: "itinerary",
+      tier: "pro",
+      tokenUsage: {
+        glm: { inputTokens: 1000, outputTokens: 2000, totalTokens: 3000 },
+        gemini: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        local: { inputTokens: 50, outputTokens: 50, totalTokens: 100 },
+      },
+    });
+
+    expect(client.from).toHaveBeenCalledWith("llm_usage_events");
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({ provider: "glm", clerk_user_id: "user_a", total_tokens: 3000, estimated_cost_usd: 0.0022 }),
+      expect.objectContaining({ provider: "local", total_tokens: 100, estimated_cost_usd: 0 }),
+    ]);
+  });
+
+  it("reads monthly spend for the UTC month and treats read failures as no spend", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const rpc = vi
+      .fn()
+      .mockResolvedValueOnce({ data: "3.250000", error: null })
+      .mockResolvedValueOnce({ data: null, error: { message: "timeout" } });
+    const ledger = new SupabaseLLMSpendLedger(() => ({ rpc }) as unknown as SupabaseClient);
+
+    await expect(ledger.monthlySpendUsd("user_a", new Date("2026-10-31T23:30:00Z"))).resolves.toBe(3.25);
+    expect(rpc).toHaveBeenCalledWith("get_llm_monthly_spend", { p_clerk_user_id: "user_a", p_month_start: "2026-10-01" });
+    await expect(ledger.monthlySpendUsd("user_a")).resolves.toBe(0);
+    expect(spendMonthStart(new Date("2026-01-15T00:00:00Z"))).toBe("2026-01-01");
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { convertMoney, formatMoney, parseCost } from "@/lib/money";
+
+describe("parseCost", () => {
+  it("reads symbols, codes and currency words", () => {
+    expect(parseCost("₩15,000")).toMatchObject({ amount: 15000, currency: "KRW" });
+    expect(parseCost("HK$120")).toMatchObject({ amount: 120, currency: "HKD" });
+    expect(parseCost("Around 2,000 yen")).toMatchObject({ amount: 2000, currency: "JPY" });
+    expect(parseCost("THB 350")).toMatchObject({ amount: 350, currency: "THB" });
+  });
+
+  it("takes the midpoint of a range and expands Korean and k units", () => {
+    expect(parseCost("$10-20")).toEqual({ amount: 15, min: 10, max: 20, currency: "USD" });
+    expect(parseCost("1-1.5만원")).toEqual({ amount: 12500, min: 10000, max: 15000, currency: "KRW" });
+    expect(parseCost("₩10k ~ ₩20k")).toMatchObject({ amount: 15000, currency: "KRW" });
+  });
+
+  it("falls back to the trip currency for bare numbers and reads free as zero", () => {
+    expect(parseCost("15000", { defaultCurrency: "KRW" })).toMatchObject({ amount: 15000, currency: "KRW" });
+    expect(parseCost(8, { defaultCurrency: "SGD" })).toMatchObject({ amount: 8, currency: "SGD" });
+    expect(parseCost("Free entry", { defaultCurrency: "JPY" })).toMatchObject({ amount: 0, currency: "JPY" });
+  });
+
+  it("gives up on prices it can't read", () => {
+    expect(parseCost("$$")).toBeNull();
+    expect(parseCost("Varies")).toBeNull();
+    expect(parseCost("")).toBeNull();
+    expect(parseCost(undefined)).toBeNull();
+  });
+});
+
+describe("convertMoney", () => {
+  it("converts through the bundled USD rates", () => {
+    expect(convertMoney(10, "USD", "USD")).toBe(10);
+    expect(convertMoney(1, "USD", "KRW")).toBe(1385);
+    expect(convertMoney(1385, "KRW", "JPY")).toBeCloseTo(147);
+    expect(convertMoney(10, "USD", "XXX")).toBeNull();
+  });
+});
+
+describe("formatMoney", () => {
+  it("uses each currency's own decimals", () => {
+    expect(formatMoney(15000, "KRW")).toBe("₩15,000");
+    expect(formatMoney(12.5, "USD")).toBe("$12.50");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+    buildGuidePointExplanations,
+    findUnauditedEarnings,
+    type AuditedEngagement,
+    type GuidePointAudit,
+} from "@/lib/payout-audit";
+
+function row(
+    id: string,
+    viewer: string,
+    contentType: string,
+    points: number,
+    hold: Partial<Pick<AuditedEngagement, "held" | "hold_reasons" | "hold_released_at">> = {},
+): AuditedEngagement {
+    return {
+        id,
+        viewer_clerk_user_id: viewer,
+        creator_clerk_user_id: "guide",
+        content_type: contentType,
+        engagement_points: points,
+        held: false,
+        hold_reasons: [],
+        hold_released_at: null,
+        ...hold,
+    };
+}
+
+describe("buildGuidePointExplanations", () => {
+    it("splits a guide's points into counted and held, with reasons and top viewers", () => {
+        const [explanation] = buildGuidePointExplanations("2026-09-01", [
+            row("1", "ana", "itinerary_view", 1),
+            row("2", "ana", "itinerary_save", 3),
+            row("3", "ben", "spot_save", 2, { hold_released_at: "2026-10-02T09:00:00Z" }),
+            row("4", "alt", "itinerary_save", 3, { held: true, hold_reasons: ["alt_account", "device_burst"] }),
+            row("5", "alt", "itinerary_view", 1, { held: true, hold_reasons: ["alt_account"] }),
+        ]);
+
+        expect(explanation).toMatchObject({
+            guideClerkUserId: "guide",
+            month: "2026-09-01",
+            totalPoints: 10,
+            countedPoints: 6,
+            heldPoints: 4,
+            releasedPoints: 2,
+            uniqueViewers: 2,
+            byContentType: {
+                itinerary_view: { count: 1, points: 1 },
+                itinerary_save: { count: 1, points: 3 },
+                spot_save: { count: 1, points: 2 },
+            },
+            topViewers: [
+                { viewerClerkUserId: "ana", points: 4, share: 0.667 },
+                { viewerClerkUserId: "ben", points: 2, share: 0.333 },
+            ],
+        });
+        expect(explanation.holds.map(({ reason, rows, points }) => [reason, rows, points])).toEqual([
+            ["alt_account", 2, 4],
+            ["device_burst", 1, 3],
+        ]);
+        expect(explanation.holds[0].explanation).toMatch(/^4 points from 2 engagements held: viewers who used/);
+    });
+});
+
+describe("findUnauditedEarnings", () => {
+    it("flags earnings with no explanation or whose points have drifted from it", () => {
+        const audit = (guide: string, countedPoints: number) =>
+            ({ guideClerkUserId: guide, month: "2026-09-01", countedPoints }) as GuidePointAudit;
+        const earning = (guide: string, points: number, month = "2026-09-01") => ({
+            guide_clerk_user_id: guide,
+            earning_month: month,
+            total_engagement_points: points,
+        });
+
+        const earnings = [earning("a", 40), earning("b", 12), earning("c", 8), earning("a", 40, "2026-08-01")];
+
+        expect(findUnauditedEarnings(earnings, [audit("a", 40), audit("b", 15)])).toEqual([
+            earnings[1],
+            earnings[2],
+            earnings[3],
+        ]);
+    });
+});
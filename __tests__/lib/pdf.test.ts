@@ -0,0 +1,84 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { buildImagePdf, decodePng } from "@/lib/pdf";
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 2x2 RGBA PNG; the second row uses the Up filter */
+function samplePng(): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(2, 4);
+  header[8] = 8;
+  header[9] = 6;
+  const rows = Buffer.from([
+    0, 255, 0, 0, 255, 0, 0, 255, 0,
+    2, 0, 0, 0, 0, 0, 255, 0, 255,
+  ]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(rows)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("decodePng", () => {
+  it("unfilters rows and flattens alpha onto white", () => {
+    const image = decodePng(samplePng());
+    expect(image).toMatchObject({ width: 2, height: 2 });
+    // Red, transparent; then red and cyan after adding the row above
+    expect(Array.from(image.rgb)).toEqual([
+      255, 0, 0, 255, 255, 255,
+      255, 0, 0, 0, 255, 255,
+    ]);
+  });
+
+  it("rejects non-PNG data", () => {
+    expect(() => decodePng(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]))).toThrow("Not a PNG");
+  });
+});
+
+describe("buildImagePdf", () => {
+  it("writes a page per image with links and a valid cross-reference table", () => {
+    const pdf = Buffer.from(
+      buildImagePdf(
+        [
+          { png: samplePng(), links: [{ x: 0, y: 0, width: 1, height: 1, url: "https://map.kakao.com/link/to/a,1,2" }] },
+          { png: samplePng() },
+        ],
+        { title: "서울 여행" }
+      )
+    ).toString("latin1");
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("/URI (https://map.kakao.com/link/to/a,1,2)");
+    // Top-left pixel of a 2px-wide image on a 595pt page
+    expect(pdf).toContain("/Rect [0 297.64 297.64 595.28]");
+    expect(pdf).toContain("/Title <FEFFC11CC6B80020C5ECD589>");
+
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { encodeQrCode, qrCodeSvg } from "@/lib/qr-code";
+
+function formatBits(modules: boolean[][]): number {
+  let bits = 0;
+  for (let i = 0; i <= 5; i++) if (modules[i][8]) bits |= 1 << i;
+  if (modules[7][8]) bits |= 1 << 6;
+  if (modules[8][8]) bits |= 1 << 7;
+  if (modules[8][7]) bits |= 1 << 8;
+  for (let i = 9; i < 15; i++) if (modules[8][14 - i]) bits |= 1 << i;
+  return bits;
+}
+
+describe("encodeQrCode", () => {
+  it("picks the smallest version that fits", () => {
+    expect(encodeQrCode("hi")).toMatchObject({ version: 1, size: 21 });
+    // Version 3-M holds 42 bytes, version 4-M 62
+    expect(encodeQrCode("x".repeat(42)).version).toBe(3);
+    expect(encodeQrCode("x".repeat(43)).version).toBe(4);
+    expect(() => encodeQrCode("x".repeat(3000))).toThrow("too long");
+  });
+
+  it("draws finder and timing patterns", () => {
+    const { modules, size } = encodeQrCode("https://www.localley.io");
+    const finder = (x: number, y: number) =>
+      [0, 1, 2, 3, 4, 5, 6].map((dy) => [0, 1, 2, 3, 4, 5, 6].map((dx) => (modules[y + dy][x + dx] ? 1 : 0)).join(""));
+    const expected = ["1111111", "1000001", "1011101", "1011101", "1011101", "1000001", "1111111"];
+
+    expect(finder(0, 0)).toEqual(expected);
+    expect(finder(size - 7, 0)).toEqual(expected);
+    expect(finder(0, size - 7)).toEqual(expected);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it("writes level M format information for the chosen mask", () => {
+    const qr = encodeQrCode("https://map.kakao.com/link/to/Gwangjang%20Market,37.57,126.9995");
+    const decoded = formatBits(qr.modules) ^ 0x5412;
+
+    expect(decoded >>> 13).toBe(0);
+    expect((decoded >>> 10) & 7).toBe(qr.mask);
+    // BCH(15,5): the full word is a multiple of the generator
+    let remainder = decoded;
+    for (let i = 14; i >= 10; i--) if (remainder & (1 << i)) remainder ^= 0x537 << (i - 10);
+    expect(remainder).toBe(0);
+  });
+
+  it("adds version information from version 7", () => {
+    const qr = encodeQrCode("y".repeat(120));
+    let bits = 0;
+    for (let i = 0; i < 18; i++) {
+      if (qr.modules[Math.floor(i / 3)][qr.size - 11 + (i % 3)]) bits |= 1 << i;
+    }
+
+    expect(qr.version).toBe(7);
+    expect(bits).toBe(0x07c94);
+  });
+});
+
+describe("qrCodeSvg", () => {
+  it("renders the modules with a quiet zone", () => {
+    const svg = qrCodeSvg("hi");
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    // Top-left finder starts inside the four-module margin
+    expect(svg).toContain("M4,4h1v1h-1z");
+  });
+});
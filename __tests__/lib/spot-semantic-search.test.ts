@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { HashedEmbeddingProvider, type EmbeddingProvider } from "@/lib/llm/embeddings";
+import {
+  buildSpotEmbeddingText,
+  embedSpots,
+  findSimilarSpotIds,
+  rankSpotsByRelevance,
+  spotContentHash,
+  type EmbeddableSpot,
+  type SpotEmbeddingStore,
+  type StoredSpotEmbedding,
+} from "@/lib/spots/semantic-search";
+
+const spots: EmbeddableSpot[] = [
+  {
+    id: "bar",
+    name: { en: "Soju Hanjan" },
+    category: "Nightlife",
+    subcategories: ["bar"],
+    description: { en: "Loud late-night soju bar with plastic stools and grilled skewers." },
+  },
+  {
+    id: "books",
+    name: { en: "Arc N Book" },
+    category: "Cafe",
+    subcategories: ["bookstore", "coffee"],
+    description: { en: "Quiet bookstore cafe under an arched ceiling, perfect on a rainy day with a coffee." },
+    tips: ["Window seats fill up when it rains"],
+    best_times: { en: "Rainy weekday afternoons" },
+  },
+  {
+    id: "market",
+    name: { en: "Gwangjang Market" },
+    category: "Market",
+    description: { en: "Busy food market known for bindaetteok and mayak gimbap." },
+  },
+];
+
+function createStore(rows: StoredSpotEmbedding[] = []) {
+  const saved: StoredSpotEmbedding[] = [];
+  const store: SpotEmbeddingStore = {
+    load: vi.fn(async (spotIds: string[]) => rows.filter((row) => spotIds.includes(row.spotId))),
+    save: vi.fn(async (_model: string, fresh: StoredSpotEmbedding[]) => {
+      saved.push(...fresh);
+    }),
+    match: vi.fn(async () => ["books", "market"]),
+  };
+  return { store, saved };
+}
+
+describe("semantic spot retrieval", () => {
+  it("ranks spots by meaning rather than by input order", async () => {
+    const ranked = await rankSpotsByRelevance(spots, "rainy-day quiet bookstore cafe", {
+      embeddings: new HashedEmbeddingProvider(),
+    });
+
+    expect(ranked.map((spot) => spot.id)[0]).toBe("books");
+  });
+
+  it("embeds from name, categories, description, tips and best times", () => {
+    expect(buildSpotEmbeddingText(spots[1])).toBe(
+      [
+        "Arc N Book",
+        "Cafe, bookstore, coffee",
+        "Quiet bookstore cafe under an arched ceiling, perfect on a rainy day with a coffee.",
+        "Window seats fill up when it rains",
+        "Best time: Rainy weekday afternoons",
+      ].join("\n"),
+    );
+  });
+
+  it("reuses stored vectors for unchanged spots and re-embeds edited ones", async () => {
+    const embeddings = new HashedEmbeddingProvider();
+    const embed = vi.spyOn(embeddings, "embed");
+    const { store, saved } = createStore([
+      { spotId: "bar", contentHash: spotContentHash(buildSpotEmbeddingText(spots[0])), embedding: [1, 0] },
+      { spotId: "books", contentHash: spotContentHash("an older description"), embedding: [0, 1] },
+    ]);
+
+    const { vectors, embedded } = await embedSpots(spots, { embeddings, store });
+
+    expect(embedded).toBe(2);
+    expect(vectors.get("bar")).toEqual([1, 0]);
+    expect(embed).toHaveBeenCalledWith([buildSpotEmbeddingText(spots[1]), buildSpotEmbeddingText(spots[2])]);
+    expect(store.load).toHaveBeenCalledWith(["bar", "books", "market"], embeddings.name);
+    expect(saved.map((row) => [row.spotId, row.contentHash])).toEqual([
+      ["books", spotContentHash(buildSpotEmbeddingText(spots[1]))],
+      ["market", spotContentHash(buildSpotEmbeddingText(spots[2]))],
+    ]);
+  });
+
+  it("keeps the input order when embedding fails", async () => {
+    const logger = { error: vi.fn() };
+    const failing: EmbeddingProvider = {
+      name: "failing",
+      embed: vi.fn(async () => {
+        throw new Error("429 rate limited");
+      }),
+    };
+
+    const ranked = await rankSpotsByRelevance(spots, "quiet bookstore", { embeddings: failing, logger });
+
+    expect(ranked).toBe(spots);
+    expect(logger.error).toHaveBeenCalledWith(
+      "[SpotSearch] Semantic ranking failed; keeping default order:",
+      expect.any(Error),
+    );
+  });
+
+  it("still ranks when the store is unavailable", async () => {
+    const logger = { error: vi.fn() };
+    const store: SpotEmbeddingStore = {
+      load: vi.fn(async () => {
+        throw new Error("relation \"spot_embeddings\" does not exist");
+      }),
+      save: vi.fn(async () => {
+        throw new Error("relation \"spot_embeddings\" does not exist");
+      }),
+      match: vi.fn(async () => {
+        throw new Error("function match_spot_embeddings does not exist");
+      }),
+    };
+
+    const ranked = await rankSpotsByRelevance(spots, "food market bindaetteok", {
+      embeddings: new HashedEmbeddingProvider(),
+      store,
+      logger,
+    });
+
+    expect(ranked[0].id).toBe("market");
+    expect(logger.error).toHaveBeenCalledTimes(2);
+    expect(await findSimilarSpotIds("food market", "Seoul", 10, { store, logger })).toEqual([]);
+  });
+
+  it("looks up a city's nearest spots in the index with the query's vector", async () => {
+    const embeddings = new HashedEmbeddingProvider();
+    const { store } = createStore();
+
+    const ids = await findSimilarSpotIds("  rainy-day quiet bookstore cafe ", "Seoul", 15, { embeddings, store });
+
+    const [queryVector] = await embeddings.embed(["rainy-day quiet bookstore cafe"]);
+    expect(ids).toEqual(["books", "market"]);
+    expect(store.match).toHaveBeenCalledWith("hashed:256", queryVector, "Seoul", 15);
+    expect(await findSimilarSpotIds(" ", "Seoul", 15, { embeddings, store })).toEqual([]);
+  });
+});
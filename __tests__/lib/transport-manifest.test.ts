@@ -1,14 +1,24 @@
 import { describe, expect, it } from "vitest";
-import { directedTransportEdges, transportManifest } from "@/lib/trips/transport-manifest";
+import { corridorGoldenTrips } from "@/__tests__/fixtures/corridor-golden-trips";
+import { planCorridorTrip } from "@/lib/trips/corridor-planner";
+import {
+  directedTransportEdges,
+  findStaleTransportRoutes,
+  parseTransportManifests,
+  transportManifests,
+} from "@/lib/trips/transport-manifest";
+
+const krJp = transportManifests.find((manifest) => manifest.corridor === "kr-jp")!;
+const krJpEdges = directedTransportEdges.filter((edge) => edge.corridor === "kr-jp");
 
 describe("KR/JP transport manifest", () => {
   it("expands reviewed routes into at least twenty directed edges", () => {
-    expect(transportManifest.routes).toHaveLength(12);
-    expect(directedTransportEdges).toHaveLength(24);
+    expect(krJp.routes).toHaveLength(12);
+    expect(krJpEdges).toHaveLength(24);
   });
 
   it("keeps conservative durations, buffers, provenance, and recheck dates", () => {
-    for (const edge of directedTransportEdges) {
+    for (const edge of krJpEdges) {
       expect(edge.durationMinutes.max).toBeGreaterThanOrEqual(edge.durationMinutes.min);
       expect(edge.departureBufferMinutes + edge.arrivalBufferMinutes).toBeGreaterThanOrEqual(45);
       expect(edge.sources.length).toBeGreaterThan(0);
@@ -25,3 +35,71 @@ describe("KR/JP transport manifest", () => {
     expect(flights.every((edge) => edge.departureBufferMinutes >= 180 && edge.arrivalBufferMinutes >= 75)).toBe(true);
   });
 });
+
+describe("corridor manifest files", () => {
+  it("merges every corridor into one directed edge list", () => {
+    expect(transportManifests.map((manifest) => manifest.corridor)).toEqual(["kr-jp", "southeast-asia", "taiwan"]);
+    expect(directedTransportEdges).toHaveLength(
+      transportManifests.reduce((sum, manifest) => sum + manifest.routes.length * 2, 0),
+    );
+    for (const edge of directedTransportEdges) {
+      expect(edge.departureBufferMinutes + edge.arrivalBufferMinutes).toBeGreaterThanOrEqual(45);
+      expect(edge.manifestVersion).toBe(1);
+    }
+  });
+
+  it("plans trips on the new corridors", () => {
+    const plan = planCorridorTrip({
+      ...corridorGoldenTrips[0].request,
+      destinations: [{ destinationSlug: "bangkok" }, { destinationSlug: "chiang-mai" }],
+    });
+    expect(plan.transfers[0]).toMatchObject({ from: "bangkok", to: "chiang-mai", edgeId: "bangkok-chiang-mai-flight" });
+  });
+
+  it("rejects a file with an unknown destination or corridor", () => {
+    const [route] = krJp.routes;
+    expect(() => parseTransportManifests([{ ...krJp, routes: [{ ...route, to: "atlantis" }] }])).toThrow(/unknown destination/);
+    expect(() => parseTransportManifests([{ ...krJp, corridor: "Mars Base" }])).toThrow(/Corridor ids are lowercase slugs/);
+  });
+
+  it("accepts a corridor that isn't one of the bundled files", () => {
+    const [route] = krJp.routes;
+    const [manifest] = parseTransportManifests([{
+      version: 1,
+      corridor: "hong-kong",
+      routes: [{ ...route, slug: "hong-kong-taipei-flight", from: "hong-kong", to: "taipei" }],
+    }]);
+    expect(manifest.corridor).toBe("hong-kong");
+  });
+
+  it("rejects slugs and directed routes repeated across corridors", () => {
+    const [route] = krJp.routes;
+    const taiwan = transportManifests.find((manifest) => manifest.corridor === "taiwan")!;
+    expect(() => parseTransportManifests([krJp, { ...taiwan, routes: [...taiwan.routes, route] }]))
+      .toThrow(/Duplicate route slug: seoul-busan-ktx/);
+    expect(() => parseTransportManifests([krJp, { ...krJp }])).toThrow(/Duplicate corridor: kr-jp/);
+  });
+});
+
+describe("findStaleTransportRoutes", () => {
+  it("lists routes past their recheck date, most overdue first", () => {
+    expect(findStaleTransportRoutes("2026-12-31")).toEqual([]);
+
+    const stale = findStaleTransportRoutes("2027-02-01");
+    expect(stale).toHaveLength(krJp.routes.length);
+    expect(stale[0]).toEqual({
+      corridor: "kr-jp",
+      slug: "busan-gyeongju-train",
+      recheckAfter: "2027-01-15",
+      daysOverdue: 17,
+    });
+
+    expect(findStaleTransportRoutes("2027-04-15")).toHaveLength(
+      transportManifests.reduce((sum, manifest) => sum + manifest.routes.length, 0),
+    );
+  });
+
+  it("rejects an invalid report date", () => {
+    expect(() => findStaleTransportRoutes("soon")).toThrow(/Invalid report date/);
+  });
+});
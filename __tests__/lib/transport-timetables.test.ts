@@ -0,0 +1,64 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  RouteTimetableSchema,
+  departuresOn,
+  loadTransportTimetables,
+} from "@/lib/trips/transport-timetables";
+
+const directories: string[] = [];
+
+function timetableDirectory(files: Record<string, unknown>): string {
+  const directory = mkdtempSync(path.join(tmpdir(), "timetables-"));
+  directories.push(directory);
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(directory, name), JSON.stringify(content));
+  }
+  return directory;
+}
+
+afterEach(() => {
+  for (const directory of directories.splice(0)) rmSync(directory, { recursive: true, force: true });
+});
+
+const seoulBusan = {
+  version: 1,
+  edgeId: "seoul-busan-ktx",
+  validUntil: "2026-12-31",
+  departures: [
+    { departure: "09:00", arrival: "11:40", days: ["mon", "tue", "wed", "thu", "fri"] },
+    { departure: "23:30", arrival: "26:05" },
+  ],
+};
+
+describe("transport timetables", () => {
+  it("loads one timetable per directed edge from a directory", () => {
+    const timetables = loadTransportTimetables(timetableDirectory({
+      "seoul-busan-ktx.json": seoulBusan,
+      "busan-seoul.json": { ...seoulBusan, edgeId: "seoul-busan-ktx-reverse" },
+      "README.md": "ignored",
+    }));
+    expect([...timetables.keys()]).toEqual(["seoul-busan-ktx-reverse", "seoul-busan-ktx"]);
+  });
+
+  it("rejects unknown edges, duplicate files and backwards services", () => {
+    expect(() => loadTransportTimetables(timetableDirectory({ "a.json": { ...seoulBusan, edgeId: "seoul-nara" } })))
+      .toThrow(/unknown edge: seoul-nara/);
+    expect(() => loadTransportTimetables(timetableDirectory({ "a.json": seoulBusan, "b.json": seoulBusan })))
+      .toThrow(/Duplicate transport timetable for seoul-busan-ktx/);
+    expect(RouteTimetableSchema.safeParse({
+      ...seoulBusan,
+      departures: [{ departure: "11:00", arrival: "09:00" }],
+    }).success).toBe(false);
+  });
+
+  it("filters departures by weekday and validity window", () => {
+    const timetable = RouteTimetableSchema.parse(seoulBusan);
+    expect(departuresOn(timetable, null)).toHaveLength(2);
+    expect(departuresOn(timetable, "2026-11-05")).toHaveLength(2);
+    expect(departuresOn(timetable, "2026-11-07").map((item) => item.departure)).toEqual(["23:30"]);
+    expect(departuresOn(timetable, "2027-01-04")).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { corridorGoldenTrips } from "@/__tests__/fixtures/corridor-golden-trips";
+import type { CorridorItinerary } from "@/lib/trips/corridor-itinerary";
+import { MultiCityTripRequestSchema, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import {
+  TripStoreError,
+  createTrip,
+  describeTripChanges,
+  saveTripItinerary,
+  saveTripReplan,
+} from "@/lib/trips/trip-store";
+
+const base = MultiCityTripRequestSchema.parse(corridorGoldenTrips[0].request);
+
+function rpcClient(result: { data: unknown; error: { code?: string; message: string } | null }) {
+  const rpc = vi.fn(async () => result);
+  return { client: { rpc } as unknown as SupabaseClient, rpc };
+}
+
+describe("describeTripChanges", () => {
+  it("returns null when nothing planner-relevant changed", () => {
+    expect(describeTripChanges(base, MultiCityTripRequestSchema.parse(corridorGoldenTrips[0].request))).toBeNull();
+  });
+
+  it("distinguishes destination, order and night changes", () => {
+    const reordered = { ...base, destinations: [...base.destinations].reverse() };
+    expect(describeTripChanges(base, reordered)).toBe("Updated order.");
+    expect(describeTripChanges(base, { ...base, objective: "cost" })).toBe("Updated order.");
+
+    const swapped = { ...base, destinations: [base.destinations[0], { destinationSlug: "gyeongju", locked: false }] };
+    expect(describeTripChanges(base, swapped)).toBe("Updated destinations.");
+
+    const longerSeoul = {
+      ...base,
+      destinations: [{ ...base.destinations[0], nights: 3, locked: true }, base.destinations[1]],
+    };
+    expect(describeTripChanges(base, longerSeoul)).toBe("Updated nights.");
+
+    expect(describeTripChanges(base, { ...base, totalDays: 7, pace: "active" }))
+      .toBe("Updated totalDays, pace.");
+  });
+});
+
+describe("trip plan persistence", () => {
+  const plan = planCorridorTrip(base);
+
+  it("creates trips through the transactional save_trip_plan RPC", async () => {
+    const { client, rpc } = rpcClient({ data: [{ saved_trip_id: "trip-1", saved_version: 1 }], error: null });
+    await expect(createTrip(client, "clerk_owner", "Korea", base, plan))
+      .resolves.toEqual({ tripId: "trip-1", version: 1 });
+    expect(rpc).toHaveBeenCalledWith("save_trip_plan", {
+      p_trip_id: null,
+      p_clerk_user_id: "clerk_owner",
+      p_title: "Korea",
+      p_request: base,
+      p_plan: plan,
+      p_change_summary: "Created trip.",
+    });
+  });
+
+  it("maps a missing trip to a NOT_FOUND store error", async () => {
+    const { client } = rpcClient({ data: null, error: { code: "P0002", message: "Trip not found" } });
+    const save = saveTripReplan(client, "clerk_owner", "trip-1", null, base, plan, "Updated nights.");
+    await expect(save).rejects.toBeInstanceOf(TripStoreError);
+    await expect(save).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("saves an itinerary against the version it was generated for", async () => {
+    const itinerary = { title: "5-day Seoul → Busan trip", dailyPlans: [] } as CorridorItinerary;
+    const { client, rpc } = rpcClient({ data: true, error: null });
+    await expect(saveTripItinerary(client, "trip-1", 2, itinerary)).resolves.toBe(true);
+    expect(rpc).toHaveBeenCalledWith("save_trip_itinerary", {
+      p_trip_id: "trip-1",
+      p_version: 2,
+      p_itinerary: itinerary,
+    });
+
+    // The trip was re-planned while generating
+    await expect(saveTripItinerary(rpcClient({ data: false, error: null }).client, "trip-1", 2, itinerary))
+      .resolves.toBe(false);
+  });
+});
@@ -132,10 +132,6 @@ describe('Validation Schemas', () => {
     describe('gamificationActionSchema', () => {
         it('should validate valid actions', () => {
             const validActions = [
-                'verify',
-                'verify_spot',
-                'share',
-                'share_spot',
                 'checkin',
                 'discover_spot',
                 'create_itinerary',
@@ -154,6 +150,12 @@ describe('Validation Schemas', () => {
             const result = gamificationActionSchema.safeParse(invalidData);
             expect(result.success).toBe(false);
         });
+
+        it('should reject actions the server has no record to check', () => {
+            ['verify', 'verify_spot', 'share', 'share_spot'].forEach((action) => {
+                expect(gamificationActionSchema.safeParse({ action }).success).toBe(false);
+            });
+        });
     });
 
     describe('idParamSchema', () => {
@@ -0,0 +1,269 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+    awardXp,
+    countStreak,
+    reverseXpForSource,
+    summarizeXpLedger,
+} from "@/lib/xp-ledger";
+
+type Row = Record<string, unknown>;
+
+// Enough of the query builder for the ledger: filters, counts, ranges,
+// inserts that honour the (user_id, idempotency_key) unique constraint, and
+// append_xp_award checking the cap and inserting in one step as the SQL does
+function fakeSupabase(tables: Record<string, Row[]>) {
+    let nextId = 1;
+    return {
+        async rpc(name: string, args: Record<string, unknown>) {
+            if (name !== "append_xp_award") throw new Error(`Unexpected rpc ${name}`);
+            const ledger = (tables.xp_ledger ??= []);
+            const dayStart = `${String(args.p_created_at).slice(0, 10)}T00:00:00`;
+            const today = ledger.filter((row) =>
+                row.user_id === args.p_user_id
+                && row.reason === args.p_reason
+                && (row.amount as number) > 0
+                && String(row.created_at) >= dayStart
+            );
+            if (args.p_daily_cap !== null && today.length >= (args.p_daily_cap as number)) {
+                return { data: "capped", error: null };
+            }
+            if (ledger.some((row) => row.user_id === args.p_user_id && row.idempotency_key === args.p_idempotency_key)) {
+                return { data: "duplicate", error: null };
+            }
+            ledger.push({
+                id: `xp-${nextId++}`,
+                user_id: args.p_user_id,
+                clerk_user_id: args.p_clerk_user_id,
+                amount: args.p_amount,
+                reason: args.p_reason,
+                source_type: args.p_source_type,
+                source_id: args.p_source_id,
+                city: args.p_city,
+                idempotency_key: args.p_idempotency_key,
+                reverses: null,
+                metadata: args.p_metadata,
+                created_at: args.p_created_at,
+            });
+            return { data: "awarded", error: null };
+        },
+        from(table: string) {
+            const rows = (tables[table] ??= []);
+            const filters: Array<(row: Row) => boolean> = [];
+            let patch: Row | null = null;
+            let head = false;
+            let window: [number, number] | null = null;
+            const run = () => {
+                const found = rows.filter((row) => filters.every((filter) => filter(row)));
+                if (patch) found.forEach((row) => Object.assign(row, patch));
+                const data = window ? found.slice(window[0], window[1] + 1) : found;
+                return { data: head ? null : data, count: found.length, error: null };
+            };
+            const builder = {
+                select: (_columns?: string, options?: { head?: boolean }) => {
+                    head = Boolean(options?.head);
+                    return builder;
+                },
+                eq: (column: string, value: unknown) => {
+                    filters.push((row) => row[column] === value);
+                    return builder;
+                },
+                gt: (column: string, value: number) => {
+                    filters.push((row) => (row[column] as number) > value);
+                    return builder;
+                },
+                gte: (column: string, value: string) => {
+                    filters.push((row) => String(row[column]) >= value);
+                    return builder;
+                },
+                in: (column: string, values: unknown[]) => {
+                    filters.push((row) => values.includes(row[column]));
+                    return builder;
+                },
+                order: () => builder,
+                range: (from: number, to: number) => {
+                    window = [from, to];
+                    return builder;
+                },
+                update: (values: Row) => {
+                    patch = values;
+                    return builder;
+                },
+                insert: async (values: Row) => {
+                    const taken = rows.some(
+                        (row) => row.user_id === values.user_id && row.idempotency_key === values.idempotency_key
+                    );
+                    if (taken) return { error: { code: "23505", message: "duplicate key" } };
+                    rows.push({ id: `xp-${nextId++}`, reverses: null, created_at: new Date().toISOString(), ...values });
+                    return { error: null };
+                },
+                upsert: async (values: Row) => {
+                    const existing = rows.find((row) => row.user_id === values.user_id);
+                    if (existing) Object.assign(existing, values);
+                    else rows.push({ ...values });
+                    return { error: null };
+                },
+                maybeSingle: async () => ({ data: run().data?.[0] ?? null, error: null }),
+                then: (resolve: (value: ReturnType<typeof run>) => void) => resolve(run()),
+            };
+            return builder;
+        },
+    } as unknown as SupabaseClient;
+}
+
+const today = new Date("2026-10-19T09:00:00Z");
+let tables: Record<string, Row[]>;
+let supabase: SupabaseClient;
+
+beforeEach(() => {
+    tables = {
+        users: [{ id: "u1", clerk_id: "user_1", xp: 80, level: 1 }],
+        user_progress: [{ user_id: "u1", current_streak: 0 }],
+        xp_ledger: [
+            {
+                id: "opening",
+                user_id: "u1",
+                clerk_user_id: "user_1",
+                amount: 80,
+                reason: "opening_balance",
+                idempotency_key: "opening_balance",
+                reverses: null,
+                created_at: "2026-09-01T00:00:00Z",
+            },
+        ],
+    };
+    supabase = fakeSupabase(tables);
+});
+
+describe("countStreak", () => {
+    it("counts back from today, or from yesterday until a day is missed", () => {
+        expect(countStreak(["2026-10-17", "2026-10-18", "2026-10-19"], today)).toBe(3);
+        expect(countStreak(["2026-10-17", "2026-10-18"], today)).toBe(2);
+        expect(countStreak(["2026-10-16", "2026-10-17"], today)).toBe(0);
+    });
+});
+
+describe("summarizeXpLedger", () => {
+    it("nets reversals and ignores reversed login days", () => {
+        const totals = summarizeXpLedger(
+            [
+                { id: "a", amount: 120, reason: "opening_balance", reverses: null, created_at: "2026-09-01T00:00:00Z" },
+                { id: "b", amount: 10, reason: "daily_login", reverses: null, created_at: "2026-10-18T08:00:00Z" },
+                { id: "c", amount: 10, reason: "daily_login", reverses: null, created_at: "2026-10-19T08:00:00Z" },
+                { id: "d", amount: -10, reason: "daily_login", reverses: "c", created_at: "2026-10-19T09:00:00Z" },
+            ],
+            today
+        );
+        expect(totals).toEqual({ totalXp: 130, level: 2, streak: 1 });
+    });
+
+    it("continues the streak carried over on the opening balance", () => {
+        const opening = {
+            id: "a",
+            amount: 120,
+            reason: "opening_balance",
+            reverses: null,
+            metadata: { level: 2, streak: 12, streak_through: "2026-10-17" },
+            created_at: "2026-10-07T09:00:00Z",
+        };
+        const login = (id: string, day: string) =>
+            ({ id, amount: 10, reason: "daily_login", reverses: null, created_at: `${day}T08:00:00Z` });
+
+        expect(summarizeXpLedger([opening], today).streak).toBe(0);
+        expect(summarizeXpLedger([opening, login("b", "2026-10-18")], today).streak).toBe(13);
+        expect(summarizeXpLedger([opening, login("b", "2026-10-18"), login("c", "2026-10-19")], today).streak).toBe(14);
+        expect(summarizeXpLedger([opening, login("c", "2026-10-19")], today).streak).toBe(1);
+    });
+});
+
+describe("awardXp", () => {
+    it("records the award with its source and recomputes the user's totals", async () => {
+        const result = await awardXp(
+            { clerkUserId: "user_1", reason: "discover_spot", source: { type: "spot", id: "spot-1" }, at: today },
+            supabase
+        );
+
+        expect(result).toMatchObject({ status: "awarded", awarded: 50, totalXp: 130, level: 2, previousLevel: 1 });
+        expect(tables.xp_ledger.at(-1)).toMatchObject({
+            amount: 50,
+            reason: "discover_spot",
+            source_type: "spot",
+            source_id: "spot-1",
+            idempotency_key: "discover_spot:spot:spot-1",
+        });
+        expect(tables.users[0]).toMatchObject({ xp: 130, level: 2 });
+    });
+
+    it("pays once per source", async () => {
+        const award = { clerkUserId: "user_1", reason: "write_review" as const, source: { type: "review" as const, id: "r1" }, at: today };
+        await awardXp(award, supabase);
+        const repeat = await awardXp(award, supabase);
+
+        expect(repeat).toMatchObject({ status: "duplicate", awarded: 0, totalXp: 100 });
+        expect(tables.xp_ledger).toHaveLength(2);
+    });
+
+    it("stops paying once the reason's daily cap is reached", async () => {
+        for (let index = 0; index < 5; index++) {
+            await awardXp(
+                { clerkUserId: "user_1", reason: "share_spot", source: { type: "spot", id: `s${index}` }, at: today },
+                supabase
+            );
+        }
+        const capped = await awardXp(
+            { clerkUserId: "user_1", reason: "share_spot", source: { type: "spot", id: "s5" }, at: today },
+            supabase
+        );
+
+        expect(capped.status).toBe("capped");
+        expect(tables.users[0].xp).toBe(130);
+    });
+
+    it("holds the cap when awards for the same reason arrive together", async () => {
+        const results = await Promise.all(
+            Array.from({ length: 8 }, (_, index) =>
+                awardXp(
+                    { clerkUserId: "user_1", reason: "share_spot", source: { type: "spot", id: `s${index}` }, at: today },
+                    supabase
+                )
+            )
+        );
+
+        expect(results.filter((result) => result.status === "awarded")).toHaveLength(5);
+        expect(tables.xp_ledger.filter((row) => row.reason === "share_spot")).toHaveLength(5);
+    });
+
+    it("derives the streak from login days", async () => {
+        tables.xp_ledger.push({
+            id: "yesterday",
+            user_id: "u1",
+            clerk_user_id: "user_1",
+            amount: 10,
+            reason: "daily_login",
+            idempotency_key: "daily_login:2026-10-18",
+            reverses: null,
+            created_at: "2026-10-18T07:00:00Z",
+        });
+
+        const result = await awardXp({ clerkUserId: "user_1", reason: "daily_login", at: today }, supabase);
+
+        expect(result.streak).toBe(2);
+        expect(tables.user_progress[0].current_streak).toBe(2);
+    });
+});
+
+describe("reverseXpForSource", () => {
+    it("appends a negative row per award once and takes the XP back", async () => {
+        await awardXp(
+            { clerkUserId: "user_1", reason: "write_review", source: { type: "review", id: "spam" }, at: today },
+            supabase
+        );
+
+        expect(await reverseXpForSource({ source: { type: "review", id: "spam" } }, supabase)).toBe(20);
+        expect(await reverseXpForSource({ source: { type: "review", id: "spam" } }, supabase)).toBe(0);
+
+        const reversal = tables.xp_ledger.at(-1);
+        expect(reversal).toMatchObject({ amount: -20, reason: "write_review", reverses: tables.xp_ledger.at(-2)?.id });
+        expect(tables.users[0]).toMatchObject({ xp: 80, level: 1 });
+    });
+});
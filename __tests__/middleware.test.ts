@@ -9,6 +9,8 @@ describe("Clerk public route allowlist", () => {
     "/api/cron/cleanup-stories",
     "/api/cron/process-social-submissions",
     "/api/cron/refresh-weekly-social-trends",
+    "/api/cron/refresh-leaderboards",
+    "/api/calendar/0123456789abcdef0123456789abcdef.ics",
   ])("lets route-level security handle %s", (pathname) => {
     expect(isPublicRoute(new NextRequest(`https://www.localley.io${pathname}`))).toBe(true);
   });
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   getMetricsCollector,
   getOrchestrator,
+  getSemanticItineraryCache,
   estimateOrchestrationCost,
 } from '@/lib/llm';
 import { requireAdmin } from '@/lib/admin-auth';
@@ -24,6 +25,9 @@ export async function GET(req: NextRequest) {
     const collector = getMetricsCollector();
     const metrics = collector.getMetrics();
 
+    // Semantic itinerary cache hit rates since the last clear
+    const semanticCache = getSemanticItineraryCache().getStats();
+
     // Get orchestrator health
     const orchestrator = getOrchestrator();
     const health = orchestrator.getHealthStatus();
@@ -39,6 +43,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
       success: true,
       metrics,
+      semanticCache,
       health,
       chatProviderReadiness,
       costEstimates,
@@ -66,6 +71,7 @@ export async function POST(req: NextRequest) {
     if (body.action === 'clear') {
       const collector = getMetricsCollector();
       collector.clear();
+      getSemanticItineraryCache().resetStats();
 
       return NextResponse.json({
         success: true,
@@ -0,0 +1,71 @@
+/**
+ * LLM Spend Endpoint
+ *
+ * Lists the users with the highest estimated LLM spend in a month, with the
+ * per-tier cost ceilings that degrade them to cheaper routes.
+ * Requires admin authentication.
+ *
+ * Query: month=YYYY-MM (default: current UTC month), limit=1-100 (default 20)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMSpendLedger, spendMonthStart, tierLLMConfigs } from '@/lib/llm';
+import { requireAdmin } from '@/lib/admin-auth';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parseMonth(value: string | null): Date | null {
+  if (!value) return new Date();
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(value);
+  return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1)) : null;
+}
+
+function parseLimit(value: string | null): number | null {
+  if (!value) return DEFAULT_LIMIT;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= MAX_LIMIT ? limit : null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { response } = await requireAdmin('/api/admin/llm-spend', 'GET');
+    if (response) return response;
+
+    const month = parseMonth(req.nextUrl.searchParams.get('month'));
+    const limit = parseLimit(req.nextUrl.searchParams.get('limit'));
+    if (!month || !limit) {
+      return NextResponse.json(
+        { error: `Use month=YYYY-MM and limit between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const spenders = await getLLMSpendLedger().topSpenders({ month, limit });
+    const ceilings = {
+      free: tierLLMConfigs.free.monthlyCostCeilingUsd,
+      pro: tierLLMConfigs.pro.monthlyCostCeilingUsd,
+      premium: tierLLMConfigs.premium.monthlyCostCeilingUsd,
+    };
+
+    return NextResponse.json({
+      success: true,
+      month: spendMonthStart(month).slice(0, 7),
+      ceilings,
+      spenders: spenders.map((spender) => {
+        const ceiling = ceilings[spender.tier];
+        return {
+          ...spender,
+          overCostCeiling: ceiling !== null && spender.estimatedCostUsd >= ceiling,
+        };
+      }),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[llm-spend] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get LLM spend' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseAdmin } from "@/lib/supabase";
 import { requireAdmin } from "@/lib/admin-auth";
+import { findUnauditedEarnings, loadGuidePointAudits, recordPayoutAuditEvents } from "@/lib/payout-audit";
 
 /**
  * POST /api/admin/payouts/approve
@@ -8,7 +9,9 @@ import { requireAdmin } from "@/lib/admin-auth";
  * Admin-only: Approve calculated earnings for payout.
  * Body: { month: "2026-03-01" } or { earningIds: ["uuid1", "uuid2"] }
  *
- * Changes status from "calculated" to "approved".
+ * Changes status from "calculated" to "approved". Refuses (409) if any of the
+ * earnings has no points explanation matching its points — recalculate first.
+ * Returns the explanation for each guide approved.
  */
 export async function POST(req: NextRequest) {
     const adminCheck = await requireAdmin("/api/admin/payouts/approve", "approve_payouts");
@@ -20,7 +23,7 @@ export async function POST(req: NextRequest) {
 
         let query = supabase
             .from("guide_earnings")
-            .update({ status: "approved" })
+            .select("id, guide_clerk_user_id, earning_month, total_engagement_points, held_engagement_points, gross_amount")
             .eq("status", "calculated");
 
         if (body.earningIds?.length) {
@@ -31,12 +34,66 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "Provide month or earningIds" }, { status: 400 });
         }
 
-        const { error, count } = await query.select("id");
+        const { data: earnings, error: fetchError } = await query;
+        if (fetchError) {
+            return NextResponse.json({ error: "Failed to approve", details: fetchError.message }, { status: 500 });
+        }
+        if (!earnings?.length) {
+            return NextResponse.json({ approved: 0, explanations: [] });
+        }
+
+        const audits = await loadGuidePointAudits(supabase, {
+            guideClerkUserIds: [...new Set(earnings.map((earning) => earning.guide_clerk_user_id))],
+        });
+        const unaudited = findUnauditedEarnings(earnings, audits);
+        if (unaudited.length) {
+            return NextResponse.json(
+                {
+                    error: "Some earnings have no up-to-date points audit. Recalculate the month before approving.",
+                    unaudited: unaudited.map((earning) => earning.id),
+                },
+                { status: 409 }
+            );
+        }
+
+        const { data: approved, error } = await supabase
+            .from("guide_earnings")
+            .update({ status: "approved", approved_by: adminCheck.userId, approved_at: new Date().toISOString() })
+            .in("id", earnings.map((earning) => earning.id))
+            .eq("status", "calculated")
+            .select("id");
         if (error) {
             return NextResponse.json({ error: "Failed to approve", details: error.message }, { status: 500 });
         }
 
-        return NextResponse.json({ approved: count || 0 });
+        const approvedIds = new Set((approved || []).map((row) => row.id));
+        const approvedEarnings = earnings.filter((earning) => approvedIds.has(earning.id));
+        const explanationFor = (earning: (typeof earnings)[number]) =>
+            audits.find(
+                (audit) => audit.guideClerkUserId === earning.guide_clerk_user_id && audit.month === earning.earning_month
+            );
+
+        await recordPayoutAuditEvents(
+            supabase,
+            approvedEarnings.map((earning) => ({
+                month: earning.earning_month,
+                action: "approve" as const,
+                adminClerkUserId: adminCheck.userId,
+                guideClerkUserId: earning.guide_clerk_user_id,
+                earningId: earning.id,
+                details: {
+                    countedPoints: earning.total_engagement_points,
+                    heldPoints: earning.held_engagement_points,
+                    grossAmount: earning.gross_amount,
+                    auditComputedAt: explanationFor(earning)?.computedAt,
+                },
+            }))
+        );
+
+        return NextResponse.json({
+            approved: approvedEarnings.length,
+            explanations: approvedEarnings.map(explanationFor),
+        });
     } catch (error) {
         console.error("Payout approval error:", error);
         return NextResponse.json({ error: "Failed to approve payouts" }, { status: 500 });
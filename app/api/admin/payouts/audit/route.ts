@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { requireAdmin } from "@/lib/admin-auth";
+import { auditMonthPoints, loadGuidePointAudits, recordPayoutAuditEvents } from "@/lib/payout-audit";
+
+const MONTH_PATTERN = /^\d{4}-\d{2}-01$/;
+const USER_ID_PATTERN = /^[\w-]+$/;
+const MAX_RELEASE = 500;
+
+/**
+ * GET /api/admin/payouts/audit?month=2026-03-01[&guide=user_123]
+ *
+ * Admin-only: Each guide's points explanation for the month, the engagement
+ * currently held back from payouts, and the month's payout audit log.
+ */
+export async function GET(req: NextRequest) {
+    const adminCheck = await requireAdmin("/api/admin/payouts/audit", "view_payout_audit");
+    if (adminCheck.response) return adminCheck.response;
+
+    try {
+        const month = req.nextUrl.searchParams.get("month") ?? "";
+        const guide = req.nextUrl.searchParams.get("guide");
+        if (!MONTH_PATTERN.test(month)) {
+            return NextResponse.json({ error: "month must be the first of a month, e.g. 2026-03-01" }, { status: 400 });
+        }
+        if (guide !== null && !USER_ID_PATTERN.test(guide)) {
+            return NextResponse.json({ error: "Invalid guide" }, { status: 400 });
+        }
+
+        const supabase = createSupabaseAdmin();
+        const audits = await loadGuidePointAudits(supabase, {
+            month,
+            guideClerkUserIds: guide ? [guide] : undefined,
+        });
+
+        let heldQuery = supabase
+            .from("content_engagement")
+            .select("id, viewer_clerk_user_id, creator_clerk_user_id, content_type, content_id, engagement_points, hold_reasons, created_at")
+            .eq("engagement_month", month)
+            .eq("held", true)
+            .order("created_at", { ascending: true })
+            .limit(1000);
+        let logQuery = supabase
+            .from("payout_audit_log")
+            .select("*")
+            .eq("earning_month", month)
+            .order("created_at", { ascending: true });
+        if (guide) {
+            heldQuery = heldQuery.eq("creator_clerk_user_id", guide);
+            logQuery = logQuery.or(`guide_clerk_user_id.eq.${guide},guide_clerk_user_id.is.null`);
+        }
+
+        const [{ data: held, error: heldError }, { data: log, error: logError }] = await Promise.all([heldQuery, logQuery]);
+        if (heldError || logError) {
+            return NextResponse.json(
+                { error: "Failed to load payout audit", details: (heldError ?? logError)?.message },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ month, audits, held: held || [], log: log || [] });
+    } catch (error) {
+        console.error("Payout audit error:", error);
+        return NextResponse.json({ error: "Failed to load payout audit" }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/payouts/audit
+ *
+ * Admin-only: Release engagement an admin has reviewed and found genuine.
+ * Body: { engagementIds: ["uuid1"], note: "Family sharing a laptop" }
+ *
+ * Released engagement is never held again. The month's explanations are
+ * rebuilt straight away, so its earnings can't be approved until the month
+ * is recalculated.
+ */
+export async function POST(req: NextRequest) {
+    const adminCheck = await requireAdmin("/api/admin/payouts/audit", "release_engagement_holds");
+    if (adminCheck.response) return adminCheck.response;
+
+    try {
+        const body = await req.json().catch(() => ({}));
+        const engagementIds: unknown = body.engagementIds;
+        const note = typeof body.note === "string" ? body.note.trim() : "";
+
+        if (
+            !Array.isArray(engagementIds) ||
+            !engagementIds.length ||
+            engagementIds.length > MAX_RELEASE ||
+            !engagementIds.every((id) => typeof id === "string")
+        ) {
+            return NextResponse.json({ error: `Provide 1-${MAX_RELEASE} engagementIds` }, { status: 400 });
+        }
+        if (!note) {
+            return NextResponse.json({ error: "Provide a note explaining the release" }, { status: 400 });
+        }
+
+        const supabase = createSupabaseAdmin();
+        const { data: released, error } = await supabase
+            .from("content_engagement")
+            .update({
+                held: false,
+                hold_released_by: adminCheck.userId,
+                hold_released_at: new Date().toISOString(),
+            })
+            .in("id", engagementIds)
+            .eq("held", true)
+            .select("id, creator_clerk_user_id, engagement_month, engagement_points, hold_reasons");
+        if (error) {
+            return NextResponse.json({ error: "Failed to release holds", details: error.message }, { status: 500 });
+        }
+
+        const rows = released || [];
+        const byGuide = new Map<string, typeof rows>();
+        for (const row of rows) {
+            const key = `${row.creator_clerk_user_id}\u0000${row.engagement_month}`;
+            byGuide.set(key, [...(byGuide.get(key) ?? []), row]);
+        }
+
+        await recordPayoutAuditEvents(
+            supabase,
+            [...byGuide.values()].map((guideRows) => ({
+                month: guideRows[0].engagement_month,
+                action: "release_hold" as const,
+                adminClerkUserId: adminCheck.userId,
+                guideClerkUserId: guideRows[0].creator_clerk_user_id,
+                details: {
+                    note,
+                    engagementIds: guideRows.map((row) => row.id),
+                    points: guideRows.reduce((sum, row) => sum + row.engagement_points, 0),
+                    reasons: [...new Set(guideRows.flatMap((row) => row.hold_reasons ?? []))],
+                },
+            }))
+        );
+
+        const months = [...new Set(rows.map((row) => row.engagement_month as string))];
+        for (const month of months) {
+            await auditMonthPoints(supabase, month);
+        }
+
+        return NextResponse.json({ released: rows.length, recalculate: months });
+    } catch (error) {
+        console.error("Payout hold release error:", error);
+        return NextResponse.json({ error: "Failed to release holds" }, { status: 500 });
+    }
+}
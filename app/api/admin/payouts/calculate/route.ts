@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseAdmin } from "@/lib/supabase";
 import { requireAdmin } from "@/lib/admin-auth";
 import { STRIPE_PRICE_IDS, stripe } from "@/lib/stripe";
+import { screenMonthEngagement } from "@/lib/engagement-anomalies";
+import { auditMonthPoints, recordPayoutAuditEvents } from "@/lib/payout-audit";
 
 const LOCALLEY_PRICE_IDS = new Set(
     Object.values(STRIPE_PRICE_IDS)
@@ -27,8 +29,10 @@ function isLocalleySubscriptionInvoice(invoice: Stripe.Invoice) {
  *
  * Steps:
  * 1. Get total subscription revenue for the month from Stripe
- * 2. Call the DB function to calculate each guide's share
- * 3. Return summary
+ * 2. Screen the month's engagement and hold anything anomalous
+ * 3. Call the DB function to calculate each guide's share of unheld points
+ * 4. Store each guide's points explanation, which approve/execute require
+ * 5. Return summary
  */
 export async function POST(req: NextRequest) {
     const adminCheck = await requireAdmin("/api/admin/payouts/calculate", "calculate_payouts");
@@ -93,8 +97,10 @@ export async function POST(req: NextRequest) {
 
         const revenueSharePercent = body.revenueSharePercent || 20.0;
 
-        // Run the calculation in the database
         const supabase = createSupabaseAdmin();
+        const screening = await screenMonthEngagement(supabase, monthStr);
+
+        // Run the calculation in the database
         const { data: guideCount, error } = await supabase.rpc("calculate_monthly_earnings", {
             p_month: monthStr,
             p_subscription_revenue: subscriptionRevenue,
@@ -113,13 +119,30 @@ export async function POST(req: NextRequest) {
             .eq("earning_month", monthStr)
             .order("gross_amount", { ascending: false });
 
+        const audits = await auditMonthPoints(supabase, monthStr);
+        await recordPayoutAuditEvents(supabase, [{
+            month: monthStr,
+            action: "calculate",
+            adminClerkUserId: adminCheck.userId,
+            details: {
+                subscriptionRevenue,
+                revenueSharePercent,
+                guidesWithEarnings: guideCount,
+                screened: screening.screened,
+                held: screening.held,
+                heldPoints: screening.heldPoints,
+            },
+        }]);
+
         return NextResponse.json({
             month: monthStr,
             subscriptionRevenue,
             revenueSharePercent,
             revenuePool: subscriptionRevenue * (revenueSharePercent / 100),
             guidesWithEarnings: guideCount,
+            screening,
             earnings: earnings || [],
+            audits,
         });
     } catch (error) {
         console.error("Payout calculation error:", error);
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseAdmin } from "@/lib/supabase";
 import { requireAdmin } from "@/lib/admin-auth";
 import { createTransfer } from "@/lib/stripe-connect";
+import {
+    findUnauditedEarnings,
+    loadGuidePointAudits,
+    recordPayoutAuditEvents,
+    type PayoutAuditEvent,
+} from "@/lib/payout-audit";
 
 /**
  * POST /api/admin/payouts/execute
@@ -11,7 +17,8 @@ import { createTransfer } from "@/lib/stripe-connect";
  *
  * Only processes earnings with status "approved".
  * Admin must first calculate (POST /api/admin/payouts/calculate),
- * then approve earnings, then execute.
+ * then approve earnings, then execute. Earnings whose points no longer match
+ * their points audit are left approved and reported as "blocked".
  */
 export async function POST(req: NextRequest) {
     const adminCheck = await requireAdmin("/api/admin/payouts/execute", "execute_payouts");
@@ -48,12 +55,28 @@ export async function POST(req: NextRequest) {
             earningId: string;
             guideUserId: string;
             amount: number;
-            status: "processing" | "failed";
+            status: "processing" | "failed" | "blocked";
             transferId?: string;
             error?: string;
         }> = [];
 
+        const audits = await loadGuidePointAudits(supabase, {
+            guideClerkUserIds: [...new Set(earnings.map((earning) => earning.guide_clerk_user_id))],
+        });
+        const unaudited = new Set(findUnauditedEarnings(earnings, audits).map((earning) => earning.id));
+
         for (const earning of earnings) {
+            if (unaudited.has(earning.id)) {
+                results.push({
+                    earningId: earning.id,
+                    guideUserId: earning.guide_clerk_user_id,
+                    amount: earning.gross_amount,
+                    status: "blocked",
+                    error: "Points no longer match the audit. Recalculate and re-approve.",
+                });
+                continue;
+            }
+
             const guide = (earning as Record<string, unknown>).guide_profiles as {
                 stripe_account_id: string | null;
                 stripe_payouts_enabled: boolean;
@@ -133,11 +156,34 @@ export async function POST(req: NextRequest) {
 
         const processing = results.filter((r) => r.status === "processing");
         const failed = results.filter((r) => r.status === "failed");
+        const blocked = results.filter((r) => r.status === "blocked");
+
+        const months = new Map(earnings.map((earning) => [earning.id, earning.earning_month as string]));
+        const events: PayoutAuditEvent[] = results.map((result) => ({
+            month: months.get(result.earningId)!,
+            action: "execute",
+            adminClerkUserId: adminCheck.userId,
+            guideClerkUserId: result.guideUserId,
+            earningId: result.earningId,
+            details: {
+                status: result.status,
+                amount: result.amount,
+                transferId: result.transferId,
+                error: result.error,
+            },
+        }));
+        try {
+            await recordPayoutAuditEvents(supabase, events);
+        } catch (auditError) {
+            // Transfers have already been made — report them regardless
+            console.error("Payout audit logging error:", auditError);
+        }
 
         return NextResponse.json({
             processed: results.length,
             processing: processing.length,
             failed: failed.length,
+            blocked: blocked.length,
             totalInitiated: processing.reduce((sum, r) => sum + r.amount, 0),
             results,
         });
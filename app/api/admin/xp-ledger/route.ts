@@ -0,0 +1,136 @@
+/**
+ * XP Ledger Endpoint
+ *
+ * GET shows where a user's XP came from: totals per reason and their recent
+ * ledger rows. POST claws back the XP an entity earned (a spam review, a
+ * fake spot) by appending reversals, or recomputes a user's totals from the
+ * ledger. Requires admin authentication.
+ *
+ * Query (GET): clerkUserId (required), limit=1-500 (default 100)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin-auth';
+import { createSupabaseAdmin } from '@/lib/supabase';
+import { getRankTitle } from '@/lib/gamification';
+import { listXpLedger, recomputeUserProgress, reverseXpForSource } from '@/lib/xp-ledger';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+const adjustmentSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('reverse'),
+    sourceType: z.enum(['spot', 'itinerary', 'review', 'user', 'challenge', 'season']),
+    sourceId: z.string().trim().min(1).max(100),
+    clerkUserId: z.string().trim().min(1).optional(),
+  }),
+  z.object({
+    action: z.literal('recompute'),
+    clerkUserId: z.string().trim().min(1),
+  }),
+]);
+
+function parseLimit(value: string | null): number | null {
+  if (!value) return DEFAULT_LIMIT;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= MAX_LIMIT ? limit : null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { response } = await requireAdmin('/api/admin/xp-ledger', 'GET');
+    if (response) return response;
+
+    const clerkUserId = req.nextUrl.searchParams.get('clerkUserId');
+    const limit = parseLimit(req.nextUrl.searchParams.get('limit'));
+    if (!clerkUserId || !limit) {
+      return NextResponse.json(
+        { error: `Use clerkUserId and limit between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseAdmin();
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, username, xp, level')
+      .eq('clerk_id', clerkUserId)
+      .maybeSingle();
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const entries = await listXpLedger(supabase, clerkUserId, limit);
+    const byReason: Record<string, number> = {};
+    for (const entry of entries) {
+      byReason[entry.reason] = (byReason[entry.reason] ?? 0) + entry.amount;
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        clerkUserId,
+        username: user.username,
+        xp: user.xp || 0,
+        level: user.level || 1,
+        rank: getRankTitle(user.level || 1),
+      },
+      // Over the rows returned; raise the limit to cover the full history
+      byReason,
+      entries,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[xp-ledger] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get XP ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { response } = await requireAdmin('/api/admin/xp-ledger', 'POST');
+    if (response) return response;
+
+    const parsed = adjustmentSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Use action "reverse" with sourceType and sourceId, or "recompute" with clerkUserId' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseAdmin();
+    const body = parsed.data;
+
+    if (body.action === 'reverse') {
+      const reversedXp = await reverseXpForSource(
+        { source: { type: body.sourceType, id: body.sourceId }, clerkUserId: body.clerkUserId },
+        supabase
+      );
+      return NextResponse.json({ success: true, reversedXp });
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id')
+      .eq('clerk_id', body.clerkUserId)
+      .maybeSingle();
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const totals = await recomputeUserProgress(supabase, user.id);
+    return NextResponse.json({ success: true, ...totals });
+  } catch (error) {
+    console.error('[xp-ledger] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to adjust XP' },
+      { status: 500 }
+    );
+  }
+}
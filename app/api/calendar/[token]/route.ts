@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import {
+    buildItineraryCalendar,
+    calendarResponse,
+    type CalendarDayPlan,
+} from "@/lib/itineraries/calendar";
+import {
+    normalizeDailyPlansForDisplay,
+    parseDailyPlans,
+} from "@/lib/itineraries/normalize-daily-plans";
+
+const TOKEN_PATTERN = /^[0-9a-f]{32,}$/;
+
+// Public subscription feed. Calendar apps poll this URL, so every revision of
+// the itinerary shows up in the subscriber's calendar on the next refresh.
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const token = (await params).token.replace(/\.ics$/i, "");
+        if (!TOKEN_PATTERN.test(token)) {
+            return Errors.notFound("Calendar");
+        }
+
+        // Admin client: the feed token stands in for a signed-in user
+        const supabase = createSupabaseAdmin();
+        const { data: itinerary, error } = await supabase
+            .from("itineraries")
+            .select("id, title, city, activities, current_version, start_date")
+            .eq("calendar_token", token)
+            .maybeSingle();
+
+        if (error) {
+            console.error("Error loading calendar feed:", error);
+            return Errors.databaseError();
+        }
+        if (!itinerary) {
+            return Errors.notFound("Calendar");
+        }
+
+        const { dailyPlans } = normalizeDailyPlansForDisplay<CalendarDayPlan>(
+            parseDailyPlans(itinerary.activities)
+        );
+
+        return calendarResponse(
+            buildItineraryCalendar({
+                id: itinerary.id,
+                title: itinerary.title,
+                city: itinerary.city,
+                dailyPlans,
+                startDate: itinerary.start_date,
+                version: itinerary.current_version ?? 0,
+                url: `${req.nextUrl.origin}/itineraries/${itinerary.id}`,
+            }),
+            { cacheSeconds: 300 }
+        );
+    } catch (error) {
+        return handleApiError(error, "calendar-feed");
+    }
+}
@@ -2,15 +2,25 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseAdmin } from "@/lib/supabase";
 import { Errors, handleApiError } from "@/lib/api-errors";
-
-interface ChallengeRequirements {
-    type: string;
-    count?: number;
-    days?: number;
+import {
+    challengeRuleEvents,
+    describeChallengeSteps,
+    isChallengeActive,
+    isChallengeRuleComplete,
+    measureChallengeRule,
+    parseChallengeRule,
+    type ChallengeProgress,
+} from "@/lib/challenges/rules";
+import { CHALLENGE_COLUMNS, completeChallenge, type ChallengeRow } from "@/lib/challenges/engine";
+
+interface UserChallengeRow {
+    challenge_id: string;
+    progress: ChallengeProgress | null;
+    completed: boolean;
 }
 
 // GET - List all challenges with user progress
-export async function GET(req: NextRequest) {
+export async function GET() {
     try {
         const { userId } = await auth();
         if (!userId) {
@@ -29,7 +39,7 @@ export async function GET(req: NextRequest) {
         // Get all challenges
         const { data: challenges, error: challengesError } = await supabase
             .from("challenges")
-            .select("*")
+            .select(CHALLENGE_COLUMNS)
             .order("xp_reward", { ascending: true });
 
         if (challengesError) {
@@ -37,94 +47,59 @@ export async function GET(req: NextRequest) {
             return Errors.databaseError();
         }
 
-        // Get user's completed challenges
-        let completedChallengeIds: string[] = [];
+        // Progress is kept up to date by the challenge engine as events happen
+        let userChallenges: UserChallengeRow[] = [];
         if (userData?.id) {
-            const { data: userChallenges } = await supabase
+            const { data } = await supabase
                 .from("user_challenges")
-                .select("challenge_id")
-                .eq("user_id", userData.id)
-                .eq("completed", true);
+                .select("challenge_id, progress, completed")
+                .eq("user_id", userData.id);
 
-            completedChallengeIds = userChallenges?.map((uc) => uc.challenge_id) || [];
+            userChallenges = (data || []) as UserChallengeRow[];
         }
-
-        // Calculate progress for each challenge
-        const challengesWithProgress = await Promise.all(
-            (challenges || []).map(async (challenge) => {
-                const requirements = challenge.requirements as ChallengeRequirements;
-                let progress = 0;
-                const total = requirements.count || requirements.days || 1;
-
-                if (userData?.id) {
-                    switch (requirements.type) {
-                        case "itinerary_count": {
-                            const { count } = await supabase
-                                .from("itineraries")
-                                .select("*", { count: "exact", head: true })
-                                .eq("clerk_user_id", userId);
-                            progress = count || 0;
-                            break;
-                        }
-                        case "saved_spots": {
-                            const { count } = await supabase
-                                .from("saved_spots")
-                                .select("*", { count: "exact", head: true })
-                                .eq("clerk_user_id", userId);
-                            progress = count || 0;
-                            break;
-                        }
-                        case "following_count": {
-                            const { count } = await supabase
-                                .from("follows")
-                                .select("*", { count: "exact", head: true })
-                                .eq("follower_id", userId);
-                            progress = count || 0;
-                            break;
-                        }
-                        case "followers_count": {
-                            const { count } = await supabase
-                                .from("follows")
-                                .select("*", { count: "exact", head: true })
-                                .eq("following_id", userId);
-                            progress = count || 0;
-                            break;
-                        }
-                        case "streak": {
-                            const { data: progressData } = await supabase
-                                .from("user_progress")
-                                .select("current_streak")
-                                .eq("user_id", userData.id)
-                                .single();
-                            progress = progressData?.current_streak || 0;
-                            break;
-                        }
-                    }
-                }
-
-                const isCompleted = completedChallengeIds.includes(challenge.id);
-                const progressPercentage = Math.min(100, (progress / total) * 100);
-
-                return {
-                    id: challenge.id,
-                    name: challenge.name,
-                    description: challenge.description,
-                    xpReward: challenge.xp_reward,
-                    requirements,
-                    progress,
-                    total,
-                    progressPercentage,
-                    isCompleted,
-                    canClaim: progress >= total && !isCompleted,
-                };
-            })
-        );
+        const stored = new Map(userChallenges.map((row) => [row.challenge_id, row]));
+        const completedChallengeIds = userChallenges.filter((row) => row.completed).map((row) => row.challenge_id);
+
+        const now = new Date();
+        const challengesWithProgress = ((challenges || []) as ChallengeRow[]).flatMap((challenge) => {
+            const requirements = parseChallengeRule(challenge.requirements);
+            if (!requirements) {
+                console.warn(`Challenge ${challenge.id} has unreadable requirements`);
+                return [];
+            }
+
+            const isCompleted = completedChallengeIds.includes(challenge.id);
+            // Seasonal challenges show while they run, and afterwards only to those who finished them
+            if (!isCompleted && !isChallengeActive(challenge, now)) return [];
+
+            const userProgress = stored.get(challenge.id)?.progress ?? null;
+            const { current, total } = measureChallengeRule(requirements, userProgress);
+
+            return [{
+                id: challenge.id,
+                name: challenge.name,
+                description: challenge.description,
+                xpReward: challenge.xp_reward,
+                requirements,
+                // Compound challenges take their look from their first step
+                event: challengeRuleEvents(requirements)[0],
+                city: challenge.city,
+                startsAt: challenge.starts_at,
+                endsAt: challenge.ends_at,
+                steps: describeChallengeSteps(requirements, userProgress),
+                progress: isCompleted ? total : current,
+                total,
+                progressPercentage: isCompleted ? 100 : Math.min(100, (current / total) * 100),
+                isCompleted,
+                canClaim: !isCompleted && isChallengeRuleComplete(requirements, userProgress),
+            }];
+        });
 
         return NextResponse.json({
             success: true,
             challenges: challengesWithProgress,
             completedCount: completedChallengeIds.length,
-            totalCount: challenges?.length || 0,
+            totalCount: challengesWithProgress.length,
         });
     } catch (error) {
         return handleApiError(error, "challenges-get");
@@ -158,57 +133,51 @@ export async function POST(req: NextRequest) {
             return Errors.notFound("User");
         }
 
-        // Check if already claimed
-        const { data: existing } = await supabase
-            .from("user_challenges")
-            .select("id")
-            .eq("user_id", userData.id)
-            .eq("challenge_id", challengeId)
-            .eq("completed", true)
-            .single();
-
-        if (existing) {
-            return Errors.validationError("Challenge already claimed");
-        }
-
         // Get challenge details
         const { data: challenge } = await supabase
             .from("challenges")
-            .select("*")
+            .select(CHALLENGE_COLUMNS)
             .eq("id", challengeId)
-            .single();
+            .single<ChallengeRow>();
 
         if (!challenge) {
             return Errors.notFound("Challenge");
         }
 
-        // Mark challenge as completed
-        await supabase.from("user_challenges").upsert({
-            user_id: userData.id,
-            challenge_id: challengeId,
-            completed: true,
-            completed_at: new Date().toISOString(),
-        });
+        const { data: userChallenge } = await supabase
+            .from("user_challenges")
+            .select("challenge_id, progress, completed")
+            .eq("user_id", userData.id)
+            .eq("challenge_id", challengeId)
+            .maybeSingle<UserChallengeRow>();
+
+        if (userChallenge?.completed) {
+            return Errors.validationError("Challenge already claimed");
+        }
+
+        // Challenges normally pay out as they complete; claiming covers
+        // progress carried over from before the engine tracked it
+        const requirements = parseChallengeRule(challenge.requirements);
+        if (!userChallenge || !requirements || !isChallengeRuleComplete(requirements, userChallenge.progress)) {
+            return Errors.validationError("Challenge isn't complete yet");
+        }
+
+        const award = await completeChallenge(supabase, { id: userData.id, clerkUserId: userId }, challenge);
+        if (!award) {
+            return Errors.validationError("Challenge already claimed");
+        }
 
-        // Award XP
         const { data: user } = await supabase
             .from("users")
             .select("xp")
             .eq("id", userData.id)
             .single();
 
-        const newXp = (user?.xp || 0) + challenge.xp_reward;
-
-        await supabase
-            .from("users")
-            .update({ xp: newXp })
-            .eq("id", userData.id);
-
         return NextResponse.json({
             success: true,
-            xpAwarded: challenge.xp_reward,
-            newTotalXp: newXp,
-            message: `Challenge completed! +${challenge.xp_reward} XP`,
+            xpAwarded: award.xpAwarded,
+            newTotalXp: user?.xp ?? award.xpAwarded,
+            message: `Challenge completed! +${award.xpAwarded} XP`,
         });
     } catch (error) {
         return handleApiError(error, "challenges-claim");
@@ -10,8 +10,37 @@ import {
     applyPublicSpotVisibilityFilters,
     shouldShowPublicSpot,
 } from "@/lib/spots/public-quality";
+import { createSpotEmbeddingStore, findSimilarSpotIds, rankSpotsByRelevance } from "@/lib/spots/semantic-search";
 import { ALL_CITIES, LOCALNESS_LABELS } from "@/lib/cities";
-import { generateChatReplyWithFallback } from "@/lib/llm/chat-provider";
+import { createChatTools } from "@/lib/chat-tools";
+import {
+    buildConversationMemoryContext,
+    compactConversationMemory,
+    loadConversationMemory,
+    mergeConversationMessages,
+    saveAssistantReply,
+} from "@/lib/chat-memory";
+import {
+    CHAT_ITINERARY_FENCE,
+    resolveChatItinerary,
+    type ChatItinerary,
+    type ChatItineraryRepairer,
+} from "@/lib/itineraries/chat-itinerary";
+import {
+    getLLMSpendLedger,
+    getOrchestrator,
+    meterTokenUsage,
+    type TokenUsageByProvider,
+    type UserTier,
+} from "@/lib/llm";
+import {
+    generateChatAgentReply,
+    streamChatAgentReply,
+    type ChatAgentMessage,
+    type ChatAgentStreamEvent,
+    type ChatToolCallRecord,
+} from "@/lib/llm/chat-agent";
+import { isTripPreviewEnabled } from "@/lib/trips/api";
 import type { MultiLanguageField } from "@/types";
 
 // Rate limit: 20 requests per minute per user
@@ -20,6 +49,10 @@ const limiter = rateLimit({
     maxRequests: 20,
 });
 
+// Spots considered per question, and how many of the closest reach the prompt
+const SPOT_CANDIDATE_POOL = 150;
+const SPOT_CONTEXT_LIMIT = 15;
+
 const CITY_ALIASES: Record<string, string> = {
     "saigon": "ho chi minh city",
     "hcmc": "ho chi minh city",
@@ -55,7 +88,8 @@ function detectCityFromMessages(messages: Array<{ role: string; content: string
 }
 
 /**
- * Query Supabase for relevant spots based on city and user's question
+ * Query Supabase for the city's spots and keep those closest in meaning to
+ * the user's question
  */
 async function fetchRelevantSpots(city: string, userMessage: string): Promise<string> {
     try {
@@ -65,59 +99,48 @@ async function fetchRelevantSpots(city: string, userMessage: string): Promise<st
         const cityConfig = ALL_CITIES.find(c => c.name.toLowerCase() === city.toLowerCase());
         if (!cityConfig) return "";
 
-        // Build query — get top spots for this city, prioritizing high localley scores
-        let query = supabase
-            .from("spots")
-            .select("name, description, address, category, subcategories, localley_score, local_percentage, best_times, tips, photos, location, google_place_id")
-            .ilike("address->>en", `%${cityConfig.name}%`);
-
-        query = applyPublicSpotVisibilityFilters(query)
-            .order("localley_score", { ascending: false })
-            .order("local_percentage", { ascending: false })
-            .limit(20);
-
-        // Try to filter by category based on user message keywords
-        const categoryKeywords: Record<string, string[]> = {
-            "Food": ["eat", "food", "lunch", "dinner", "breakfast", "brunch", "restaurant", "meal", "hungry", "cuisine", "dining"],
-            "Cafe": ["cafe", "coffee", "tea", "dessert", "cake", "pastry", "bakery"],
-            "Nightlife": ["bar", "drink", "cocktail", "nightlife", "pub", "club", "night out", "beer", "wine"],
-            "Shopping": ["shop", "shopping", "buy", "store", "market", "souvenir", "clothes", "fashion"],
-            "Outdoor": ["park", "outdoor", "walk", "hike", "nature", "garden", "kids", "children", "family", "playground"],
-            "Market": ["market", "street food", "stall", "vendor"],
-        };
-
-        const lowerMessage = userMessage.toLowerCase();
-        const matchedCategories: string[] = [];
-        for (const [category, keywords] of Object.entries(categoryKeywords)) {
-            if (keywords.some(kw => lowerMessage.includes(kw))) {
-                matchedCategories.push(category);
-            }
-        }
-
-        if (matchedCategories.length > 0) {
-            query = supabase
+        const store = createSpotEmbeddingStore(supabase);
+        const selectSpots = () => applyPublicSpotVisibilityFilters(
+            supabase
                 .from("spots")
-                .select("name, description, address, category, subcategories, localley_score, local_percentage, best_times, tips, photos, location, google_place_id")
-                .ilike("address->>en", `%${cityConfig.name}%`)
-                .in("category", matchedCategories);
+                .select("id, name, description, address, category, subcategories, localley_score, local_percentage, best_times, tips, photos, location, google_place_id")
+        );
 
-            query = applyPublicSpotVisibilityFilters(query)
+        // Candidate pool — the city's public spots, most local first — plus
+        // the spots nearest the message in the embedding index
+        const [{ data: spots, error }, similarIds] = await Promise.all([
+            selectSpots()
+                .ilike("address->>en", `%${cityConfig.name}%`)
                 .order("localley_score", { ascending: false })
                 .order("local_percentage", { ascending: false })
-                .limit(15);
-        }
-
-        const { data: spots, error } = await query;
+                .limit(SPOT_CANDIDATE_POOL),
+            findSimilarSpotIds(userMessage, cityConfig.name, SPOT_CONTEXT_LIMIT, { store }),
+        ]);
 
-        if (error || !spots || spots.length === 0) {
+        if (error || !spots) {
             return "";
         }
 
-        // Format spots into a context block for the AI
-        const visibleSpots = spots.filter((spot) => shouldShowPublicSpot(spot));
+        const pooled = new Set(spots.map((spot) => spot.id));
+        const missingIds = similarIds.filter((id) => !pooled.has(id));
+        if (missingIds.length > 0) {
+            const { data: similarSpots, error: similarError } = await selectSpots().in("id", missingIds);
+            if (similarError) {
+                console.error("[CHAT] Error fetching similar spots:", similarError);
+            } else {
+                spots.push(...(similarSpots ?? []));
+            }
+        }
+
+        // Rank by meaning, then format the closest into a context block for the AI
+        const visibleSpots = await rankSpotsByRelevance(
+            spots.filter((spot) => shouldShowPublicSpot(spot)),
+            userMessage,
+            { store }
+        );
         if (visibleSpots.length === 0) return "";
 
-        const spotLines = visibleSpots.map((spot) => {
+        const spotLines = visibleSpots.slice(0, SPOT_CONTEXT_LIMIT).map((spot) => {
             const name = getLocalizedText(spot.name as MultiLanguageField);
             const desc = getLocalizedText(spot.description as MultiLanguageField);
             const addr = getLocalizedText(spot.address as MultiLanguageField);
@@ -144,7 +167,7 @@ async function fetchRelevantSpots(city: string, userMessage: string): Promise<st
     }
 }
 
-function buildSystemPrompt(city: string | null, spotsContext: string): string {
+function buildSystemPrompt(city: string | null, spotsContext: string, memoryContext = ""): string {
     const cityList = ALL_CITIES.map(c => c.name).join(", ");
 
     return `You are Alley, a savvy local friend from the Localley app who helps travelers discover authentic hidden gems and trendy alley spots.
@@ -215,7 +238,119 @@ IMPORTANT for itineraries:
 - Mark special spots as (Hidden Gem), (Local Favorite), or (Mixed)
 - Put tips, transit advice, what-to-order notes, and practical reminders ONLY under **Local Tips**. Never create a day activity named "Tip", "Getting around", "What to order", "Breakfast", "Lunch", or "Dinner".
 - NO conversational intro like "Absolutely!" or "Here you go!"
-${spotsContext}`;
+- After the Local Tips, end the reply with the same itinerary as JSON in a \`\`\`${CHAT_ITINERARY_FENCE} fenced block. The app draws the itinerary card from it, so it must match the markdown place for place:
+
+\`\`\`${CHAT_ITINERARY_FENCE}
+{"title": "[City] Hidden Gems", "city": "[City]", "dailyPlans": [{"day": 1, "theme": "[Theme]", "activities": [{"time": "10:00 AM", "type": "morning", "name": "[Real Place Name]", "address": "[Exact address]", "description": "[Description]", "category": "cafe", "localleyScore": 5, "duration": "1-2 hours", "cost": "$10-20"}]}], "tips": ["[Tip 1]"]}
+\`\`\`
+
+  "type" is morning, afternoon or evening. "localleyScore" is the Localley Scale number (Hidden Gem = 5, Local Favorite = 4, Mixed = 3). Write valid JSON with no comments.
+${memoryContext}${spotsContext}`;
+}
+
+/**
+ * Replaces the curated spots block when Alley can look spots up with tools
+ */
+function buildToolsContext(itineraryId: string | undefined): string {
+    return `\n\n## TOOLS
+You can look things up and make changes with tools instead of guessing:
+- search_spots and get_spot_details return verified Localley spots. Search before recommending specific places, and use the exact names and addresses from the results.
+- get_itinerary, add_itinerary_activity and remove_itinerary_activity work on the user's saved itineraries. Read the itinerary before editing it. To swap an activity, remove it and add the replacement at the same index.
+${isTripPreviewEnabled() ? "- plan_multi_city_trip orders stops, nights and transfers for trips across several cities.\n" : ""}Only say a change was made when a tool result confirms it. If a tool returns an error, tell the user plainly.${itineraryId ? `\n\nACTIVE ITINERARY: The user has their saved itinerary ${itineraryId} open. "My trip", "day 2" and similar refer to it.` : ""}`;
+}
+
+/**
+ * Agent stream events as sent to the client; `done` carries the reply's
+ * structured itinerary when it has one, and the stored message's id when the
+ * server saved it to the conversation.
+ */
+type ChatReplyStreamEvent =
+    | Exclude<ChatAgentStreamEvent, { type: "done" }>
+    | (Extract<ChatAgentStreamEvent, { type: "done" }> & { itinerary?: ChatItinerary; messageId?: string });
+
+type ReplySaver = (reply: { content: string; toolCalls?: ChatToolCallRecord[]; itinerary?: ChatItinerary }) =>
+    Promise<string | null>;
+
+/**
+ * Lift the itinerary block out of the finished reply, then save it. Deltas
+ * already streamed the block; the client hides it and takes the prose from
+ * `done`.
+ */
+async function* withStructuredItinerary(
+    events: AsyncGenerator<ChatAgentStreamEvent>,
+    repair: ChatItineraryRepairer,
+    saveReply: ReplySaver
+): AsyncGenerator<ChatReplyStreamEvent> {
+    for await (const event of events) {
+        if (event.type !== "done") {
+            yield event;
+            continue;
+        }
+        const done = { ...event, ...(await resolveChatItinerary(event.content, { repair })) };
+        const messageId = await saveReply(done);
+        yield messageId ? { ...done, messageId } : done;
+    }
+}
+
+/**
+ * Meter the tokens each step of a streamed reply spends, and hand the totals
+ * to `onEnd` once the stream finishes, fails or is cancelled
+ */
+async function* meteredEvents<T>(
+    events: AsyncGenerator<T>,
+    tokenUsage: TokenUsageByProvider,
+    onEnd: () => Promise<void>
+): AsyncGenerator<T> {
+    try {
+        while (true) {
+            const step = await meterTokenUsage(tokenUsage, () => events.next());
+            if (step.done) return;
+            yield step.value;
+        }
+    } finally {
+        await events.return(undefined);
+        await onEnd();
+    }
+}
+
+function encodeSSE(event: ChatReplyStreamEvent | { type: "error"; message: string }): Uint8Array {
+    return new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Wait for the first event before answering, so a reply that fails before
+ * any token is sent still gets a normal error response.
+ */
+async function streamChatResponse(events: AsyncGenerator<ChatReplyStreamEvent>): Promise<Response> {
+    const first = await events.next();
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            try {
+                if (!first.done) controller.enqueue(encodeSSE(first.value));
+                for await (const event of events) {
+                    controller.enqueue(encodeSSE(event));
+                }
+            } catch (error) {
+                console.error("[CHAT_STREAM_ERROR]", error);
+                controller.enqueue(encodeSSE({ type: "error", message: "The reply was interrupted. Please try again." }));
+            } finally {
+                controller.close();
+            }
+        },
+        async cancel() {
+            await events.return(undefined);
+        },
+    });
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    });
 }
 
 export async function POST(req: NextRequest) {
@@ -237,10 +372,18 @@ export async function POST(req: NextRequest) {
             return Errors.validationError(validation.error || "Invalid request");
         }
 
-        const { messages, city: explicitCity } = validation.data;
+        const { city: explicitCity, itineraryId, conversationId } = validation.data;
+
+        // With a conversation id, history comes from the database rather than the client
+        let memory = conversationId
+            ? await loadConversationMemory(createSupabaseAdmin(), userId, conversationId)
+            : null;
+        if (conversationId && !memory) {
+            return Errors.notFound("Conversation");
+        }
 
         // Atomic check and increment - prevents race conditions
-        const { allowed, usage } = await checkAndIncrementUsage(userId, "chat_messages");
+        const { allowed, usage, tier } = await checkAndIncrementUsage(userId, "chat_messages");
 
         if (!allowed) {
             return Errors.limitExceeded(
@@ -251,26 +394,81 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        // Determine city context: explicit param > detected from messages
-        const detectedCity = explicitCity || detectCityFromMessages(messages);
-
-        // Fetch relevant spots from database if we know the city
-        const latestUserMessage = messages.filter(m => m.role === "user").pop()?.content || "";
-        const spotsContext = detectedCity
-            ? await fetchRelevantSpots(detectedCity, latestUserMessage)
-            : "";
-
-        const systemPrompt = buildSystemPrompt(detectedCity, spotsContext);
+        // Chat and the memory summariser count toward the user's LLM spend like generation does
+        const tokenUsage: TokenUsageByProvider = {};
+        const recordSpend = () =>
+            getLLMSpendLedger().record({
+                userId,
+                requestId: crypto.randomUUID(),
+                requestType: "chat",
+                tier: tier as UserTier,
+                tokenUsage,
+            });
+
+        let messages: ChatAgentMessage[] = validation.data.messages;
+        let memoryContext = "";
+        if (memory) {
+            const loaded = memory;
+            memory = await meterTokenUsage(tokenUsage, () =>
+                compactConversationMemory(createSupabaseAdmin(), userId, loaded)
+            );
+            messages = mergeConversationMessages(memory.messages, messages);
+            memoryContext = buildConversationMemoryContext(memory);
+        }
 
-        const reply = await generateChatReplyWithFallback({
-            systemPrompt,
+        // Determine city context: explicit param > detected from messages > remembered from summarised turns
+        const detectedCity = explicitCity || detectCityFromMessages(messages) || (memory && detectCityFromMessages([{
+            role: "user",
+            content: [...(memory.preferences.destinations ?? []), memory.summary ?? ""].join(" "),
+        }]));
+
+        const agentInput = {
+            systemPrompt: buildSystemPrompt(detectedCity, buildToolsContext(itineraryId), memoryContext),
+            // Without tools, fall back to stuffing curated spots into the prompt
+            fallbackSystemPrompt: async () => {
+                const latestUserMessage = messages.filter(m => m.role === "user").pop()?.content || "";
+                const spotsContext = detectedCity
+                    ? await fetchRelevantSpots(detectedCity, latestUserMessage)
+                    : "";
+                return buildSystemPrompt(detectedCity, spotsContext, memoryContext);
+            },
             messages,
+            tools: createChatTools({ userId, getSupabase: createSupabaseAdmin }),
             maxTokens: 2048,
             temperature: 0.7,
-        });
+        };
+
+        // Invalid itinerary activities are completed by the orchestrator's generators
+        const repairItinerary: ChatItineraryRepairer = (city, activities) =>
+            getOrchestrator().repairActivities({
+                city,
+                tier: tier as UserTier,
+                userId,
+                requestId: crypto.randomUUID(),
+                activities,
+            });
+
+        // Saved conversations get the reply from here, tool calls and all;
+        // the client only saves replies outside one
+        const saveReply: ReplySaver = async (reply) =>
+            conversationId ? saveAssistantReply(createSupabaseAdmin(), conversationId, reply) : null;
+
+        if (req.headers.get("accept")?.includes("text/event-stream")) {
+            return await streamChatResponse(
+                withStructuredItinerary(
+                    meteredEvents(streamChatAgentReply(agentInput), tokenUsage, recordSpend),
+                    repairItinerary,
+                    saveReply
+                )
+            );
+        }
+
+        const reply = await meterTokenUsage(tokenUsage, () => generateChatAgentReply(agentInput)).finally(recordSpend);
+        const { content, itinerary } = await resolveChatItinerary(reply.content, { repair: repairItinerary });
+        const messageId = await saveReply({ content, toolCalls: reply.toolCalls, itinerary });
 
         return NextResponse.json({
-            message: reply.content,
+            message: content,
             provider: reply.provider,
             model: reply.model,
             fallbackUsed: reply.fallbackUsed,
@@ -278,6 +476,9 @@ export async function POST(req: NextRequest) {
             primaryProvider: reply.primaryProvider,
             primaryModel: reply.primaryModel,
             primaryConfigured: reply.primaryConfigured,
+            ...(reply.toolCalls.length > 0 && { toolCalls: reply.toolCalls }),
+            ...(itinerary && { itinerary }),
+            ...(messageId && { messageId }),
         });
     } catch (error) {
         return handleApiError(error, "[CHAT_ERROR]");
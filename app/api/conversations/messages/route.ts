@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { ChatItinerarySchema } from "@/lib/itineraries/chat-itinerary";
 
 // GET - Fetch messages for a conversation
 export async function GET(req: NextRequest) {
@@ -36,7 +37,7 @@ export async function GET(req: NextRequest) {
         // Fetch messages ordered chronologically
         const { data: messages, error } = await supabase
             .from("messages")
-            .select("id, role, content, created_at")
+            .select("id, role, content, tool_calls, itinerary, created_at")
             .eq("conversation_id", conversationId)
             .order("created_at", { ascending: true });
 
@@ -61,12 +62,17 @@ export async function POST(req: NextRequest) {
         }
 
         const body = await req.json();
-        const { conversationId, role, content } = body;
+        // Tool calls aren't taken from here: /api/chat stores them with its replies
+        const { conversationId, role, content, itinerary } = body;
 
         if (!conversationId || !role || !content) {
             return Errors.validationError("Missing required fields", ["conversationId", "role", "content"]);
         }
 
+        if (itinerary !== undefined && (role !== "assistant" || !ChatItinerarySchema.safeParse(itinerary).success)) {
+            return Errors.validationError("itinerary must be a valid chat itinerary on an assistant message", ["itinerary"]);
+        }
+
         const supabase = await createSupabaseServerClient();
 
         // Verify conversation belongs to user
@@ -88,6 +94,7 @@ export async function POST(req: NextRequest) {
                 conversation_id: conversationId,
                 role,
                 content,
+                ...(itinerary && { itinerary }),
             })
             .select()
             .single();
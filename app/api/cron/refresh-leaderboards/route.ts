@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronRequestAuthorized } from "@/lib/cron-auth";
+import { refreshLeaderboards } from "@/lib/leaderboards";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    const summary = await refreshLeaderboards();
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error(
+      "[leaderboards] Refresh failed:",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+    return NextResponse.json(
+      { success: false, error: "Leaderboards could not be refreshed." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import { decodeFeedCursor, getActivityFeed } from "@/lib/activity-feed";
+
+/**
+ * GET /api/feed?cursor=...&limit=20
+ *
+ * What the people you follow have been up to, newest first. Pass the
+ * previous page's nextCursor to continue; nextCursor is null on the last page.
+ */
+export async function GET(req: NextRequest) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { searchParams } = new URL(req.url);
+        const cursor = searchParams.get("cursor");
+        const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10) || 20, 50);
+
+        if (cursor && !decodeFeedCursor(cursor)) {
+            return Errors.validationError("Invalid cursor");
+        }
+
+        const page = await getActivityFeed(userId, { cursor, limit });
+
+        return NextResponse.json({
+            success: true,
+            items: page.items,
+            nextCursor: page.nextCursor,
+        });
+    } catch (error) {
+        return handleApiError(error, "activity-feed");
+    }
+}
@@ -3,6 +3,9 @@ import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { getRankTitle } from "@/lib/gamification";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { recordChallengeEvent } from "@/lib/challenges/engine";
+import { awardXp, reverseXpForSource } from "@/lib/xp-ledger";
+import { invalidateActivityFeed } from "@/lib/activity-feed";
 
 // GET - List followers/following
 export async function GET(req: NextRequest) {
@@ -151,20 +154,26 @@ export async function POST(req: NextRequest) {
             return Errors.databaseError();
         }
 
-        // Award XP for social activity (fire and forget)
+        // Award XP for social activity (once per followed user)
         try {
-            await fetch(`${req.nextUrl.origin}/api/gamification/award`, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Cookie": req.headers.get("cookie") || "",
-                },
-                body: JSON.stringify({ action: "share_spot" }),
+            await awardXp({
+                clerkUserId: userId,
+                reason: "follow_user",
+                source: { type: "user", id: targetUserId },
             });
         } catch (xpError) {
             console.error("Error awarding XP:", xpError);
         }
 
+        // Both feeds change: the target may share activity with mutuals only
+        invalidateActivityFeed(userId);
+        invalidateActivityFeed(targetUserId);
+
+        await Promise.all([
+            recordChallengeEvent({ type: "user_followed", clerkUserId: userId, subjectId: targetUserId }),
+            recordChallengeEvent({ type: "follower_gained", clerkUserId: targetUserId, subjectId: userId }),
+        ]);
+
         return NextResponse.json({
             success: true,
             following: true,
@@ -202,6 +211,19 @@ export async function DELETE(req: NextRequest) {
             return Errors.databaseError();
         }
 
+        invalidateActivityFeed(userId);
+        invalidateActivityFeed(targetUserId);
+
+        try {
+            await reverseXpForSource({
+                source: { type: "user", id: targetUserId },
+                reason: "follow_user",
+                clerkUserId: userId,
+            });
+        } catch (xpError) {
+            console.error("Error reversing XP:", xpError);
+        }
+
         return NextResponse.json({
             success: true,
             following: false,
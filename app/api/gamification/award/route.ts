@@ -1,9 +1,24 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
-import { XP_REWARDS, getLevel } from "@/lib/gamification";
+import { z } from "zod";
+import { createSupabaseAdmin } from "@/lib/supabase";
 import { gamificationActionSchema, validateBody } from "@/lib/validations";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { loadSpotContext, recordChallengeEvent } from "@/lib/challenges/engine";
+import { awardXp, type XpAward, type XpReason } from "@/lib/xp-ledger";
+
+type GamificationAction = z.infer<typeof gamificationActionSchema>["action"];
+
+// The streak bonus isn't the client's call: it's paid with the day's login
+// once the recomputed streak is long enough. Verifying and sharing spots
+// leave no record here to check a claim against, so clients can't claim them
+const ACTION_REASONS: Record<GamificationAction, XpReason> = {
+    checkin: "discover_spot",
+    discover_spot: "discover_spot",
+    create_itinerary: "create_itinerary",
+    daily_login: "daily_login",
+    streak_bonus: "daily_login",
+};
 
 export async function POST(req: Request) {
     try {
@@ -18,35 +33,10 @@ export async function POST(req: Request) {
             return Errors.validationError(validation.error || "Invalid request");
         }
 
-        const { action } = validation.data;
-
-        // Determine XP amount based on action
-        let amount = 0;
-        switch (action) {
-            case "verify":
-            case "verify_spot":
-                amount = XP_REWARDS.VERIFY_SPOT;
-                break;
-            case "share":
-            case "share_spot":
-                amount = XP_REWARDS.SHARE_SPOT;
-                break;
-            case "checkin":
-            case "discover_spot":
-                amount = XP_REWARDS.DISCOVER_SPOT;
-                break;
-            case "create_itinerary":
-                amount = XP_REWARDS.CREATE_ITINERARY;
-                break;
-            case "daily_login":
-                amount = XP_REWARDS.DAILY_LOGIN;
-                break;
-            case "streak_bonus":
-                amount = XP_REWARDS.STREAK_BONUS;
-                break;
-        }
+        const { action, spotId, itineraryId } = validation.data;
+        const reason = ACTION_REASONS[action];
 
-        const supabase = await createSupabaseServerClient();
+        const supabase = createSupabaseAdmin();
 
         // Get user's database ID from clerk_id
         const { data: existingUser, error: userError } = await supabase
@@ -82,60 +72,95 @@ export async function POST(req: Request) {
             return Errors.notFound("User");
         }
 
-        const currentXp = user.xp || 0;
-        const newXp = currentXp + amount;
-        const oldLevel = getLevel(currentXp);
-        const newLevel = getLevel(newXp);
-        const levelUp = newLevel > oldLevel;
+        // XP is earned by something the server has a record of, so repeats
+        // of it pay once
+        let source: XpAward["source"] = null;
+        let city: string | null = null;
+        if (reason === "discover_spot") {
+            if (!spotId) {
+                return Errors.validationError("spotId is required for this action");
+            }
+            const { data: saved } = await supabase
+                .from("saved_spots")
+                .select("id")
+                .eq("clerk_user_id", userId)
+                .eq("spot_id", spotId)
+                .maybeSingle();
+            if (!saved) {
+                return Errors.notFound("Saved spot");
+            }
+            source = { type: "spot", id: spotId };
+            city = (await loadSpotContext(supabase, spotId)).city ?? null;
+        } else if (reason === "create_itinerary") {
+            if (!itineraryId) {
+                return Errors.validationError("itineraryId is required for this action");
+            }
+            const { data: itinerary } = await supabase
+                .from("itineraries")
+                .select("clerk_user_id, city")
+                .eq("id", itineraryId)
+                .maybeSingle();
+            if (!itinerary || itinerary.clerk_user_id !== userId) {
+                return Errors.notFound("Itinerary");
+            }
+            source = { type: "itinerary", id: itineraryId };
+            city = itinerary.city;
+        }
 
-        // Update XP and level in users table
-        const { error: updateUserError } = await supabase
-            .from("users")
-            .update({
-                xp: newXp,
-                level: newLevel
-            })
-            .eq("id", user.id);
-
-        if (updateUserError) {
-            console.error("Error updating user XP:", updateUserError);
-            return Errors.databaseError();
+        const result = await awardXp({ clerkUserId: userId, reason, source, city }, supabase);
+        let amount = result.awarded;
+        let totals = result;
+
+        if (reason === "daily_login" && result.status === "awarded") {
+            if (result.streak > 1) {
+                const bonus = await awardXp(
+                    { clerkUserId: userId, reason: "streak_bonus", metadata: { streak: result.streak } },
+                    supabase
+                );
+                amount += bonus.awarded;
+                if (bonus.status === "awarded") totals = bonus;
+            }
+
+            await recordChallengeEvent({
+                type: "streak_extended",
+                clerkUserId: userId,
+                value: result.streak,
+            });
         }
 
         // Update progress stats based on action type
-        const { data: progress } = await supabase
-            .from("user_progress")
-            .select("*")
-            .eq("user_id", user.id)
-            .single();
-
-        if (progress) {
-            const progressUpdates: Record<string, unknown> = {
-                updated_at: new Date().toISOString()
-            };
+        if (result.status === "awarded" && reason === "discover_spot") {
+            const { data: progress } = await supabase
+                .from("user_progress")
+                .select("spots_visited")
+                .eq("user_id", user.id)
+                .single();
 
-            if (action === "discover_spot" || action === "checkin") {
-                progressUpdates.spots_visited = (progress.spots_visited || 0) + 1;
-            }
-            if (action === "verify" || action === "verify_spot") {
-                progressUpdates.discoveries = (progress.discoveries || 0) + 1;
+            if (progress) {
+                await supabase
+                    .from("user_progress")
+                    .update({ spots_visited: (progress.spots_visited || 0) + 1 })
+                    .eq("user_id", user.id);
             }
-
-            await supabase
-                .from("user_progress")
-                .update(progressUpdates)
-                .eq("user_id", user.id);
         }
 
+        const levelUp = totals.level > result.previousLevel;
+
         return NextResponse.json({
             success: true,
+            status: result.status,
             xpAwarded: amount,
-            newTotalXp: newXp,
-            newLevel: newLevel,
+            newTotalXp: totals.totalXp,
+            newLevel: totals.level,
             levelUp: levelUp,
-            message: levelUp
-                ? `Level up! You're now level ${newLevel}! +${amount} XP`
-                : `You earned ${amount} XP!`
+            streak: totals.streak,
+            message: result.status === "capped"
+                ? "You've reached today's XP limit for this"
+                : result.status === "duplicate"
+                    ? "XP already earned for this"
+                    : levelUp
+                        ? `Level up! You're now level ${totals.level}! +${amount} XP`
+                        : `You earned ${amount} XP!`
         });
     } catch (error) {
         return handleApiError(error, "gamification-award");
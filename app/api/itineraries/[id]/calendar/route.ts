@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import { canReadItinerary, getItineraryAccess } from "@/lib/itineraries/collaboration";
+import {
+    buildItineraryCalendar,
+    calendarFeedUrls,
+    calendarResponse,
+    createCalendarToken,
+    parseTripStartDate,
+    type CalendarDayPlan,
+} from "@/lib/itineraries/calendar";
+import {
+    normalizeDailyPlansForDisplay,
+    parseDailyPlans,
+} from "@/lib/itineraries/normalize-daily-plans";
+
+const CalendarSettingsSchema = z.object({
+    startDate: z.string().nullable().optional(),
+    feed: z.boolean().optional(),
+}).strict();
+
+// Download the itinerary as an .ics file; ?start=YYYY-MM-DD overrides the
+// saved start date
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const supabase = createSupabaseAdmin();
+
+        const { data: itinerary, error } = await supabase
+            .from("itineraries")
+            .select("id, title, city, activities, current_version, start_date, shared, clerk_user_id")
+            .eq("id", id)
+            .single();
+
+        if (error || !itinerary) {
+            return Errors.notFound("Itinerary");
+        }
+
+        // The owner, anyone on the trip, or anyone once it's shared
+        const { userId } = await auth();
+        if (!await canReadItinerary(supabase, itinerary, userId)) {
+            return Errors.forbidden();
+        }
+
+        const start = req.nextUrl.searchParams.get("start");
+        if (start && !parseTripStartDate(start)) {
+            return Errors.validationError("start must be a date in YYYY-MM-DD format");
+        }
+
+        const { dailyPlans } = normalizeDailyPlansForDisplay<CalendarDayPlan>(
+            parseDailyPlans(itinerary.activities)
+        );
+
+        return calendarResponse(
+            buildItineraryCalendar({
+                id: itinerary.id,
+                title: itinerary.title,
+                city: itinerary.city,
+                dailyPlans,
+                startDate: start || itinerary.start_date,
+                version: itinerary.current_version ?? 0,
+                url: `${req.nextUrl.origin}/itineraries/${itinerary.id}`,
+            }),
+            { filename: itinerary.title }
+        );
+    } catch (error) {
+        return handleApiError(error, "itinerary-calendar");
+    }
+}
+
+// Save the trip's start date and turn the subscription feed on or off (owner only)
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const parsed = CalendarSettingsSchema.safeParse(await req.json().catch(() => null));
+        if (!parsed.success) {
+            return Errors.validationError("Provide a startDate and/or feed setting");
+        }
+        const { startDate, feed } = parsed.data;
+        if (startDate && !parseTripStartDate(startDate)) {
+            return Errors.validationError("startDate must be a date in YYYY-MM-DD format");
+        }
+
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+        // Editors can move the trip dates; the feed link hands out read access,
+        // so only the owner turns it on or off
+        if (access.role === "viewer" || (feed !== undefined && access.role !== "owner")) {
+            return Errors.forbidden("You can't change this itinerary's calendar.");
+        }
+
+        const { data: itinerary, error: fetchError } = await supabase
+            .from("itineraries")
+            .select("start_date, calendar_token")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !itinerary) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const updates: { start_date?: string | null; calendar_token?: string | null } = {};
+        if (startDate !== undefined) updates.start_date = startDate || null;
+        if (feed === true && !itinerary.calendar_token) updates.calendar_token = createCalendarToken();
+        if (feed === false) updates.calendar_token = null;
+
+        if (Object.keys(updates).length > 0) {
+            const { error: updateError } = await supabase
+                .from("itineraries")
+                .update(updates)
+                .eq("id", id);
+
+            if (updateError) {
+                console.error("Error updating calendar settings:", updateError);
+                return Errors.databaseError();
+            }
+        }
+
+        const token = updates.calendar_token !== undefined ? updates.calendar_token : itinerary.calendar_token;
+
+        return NextResponse.json({
+            success: true,
+            startDate: updates.start_date !== undefined ? updates.start_date : itinerary.start_date,
+            feed: token ? calendarFeedUrls(req.nextUrl.origin, token) : null,
+        });
+    } catch (error) {
+        return handleApiError(error, "itinerary-calendar-settings");
+    }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { ErrorCodes, Errors, apiError, handleApiError } from "@/lib/api-errors";
+import {
+    CollaborativeEditSchema,
+    getItineraryAccess,
+    toCollaborativeItinerary,
+} from "@/lib/itineraries/collaboration";
+import {
+    buildItineraryPlanPayload,
+    normalizeDailyPlansForDisplay,
+    parseDailyPlans,
+} from "@/lib/itineraries/normalize-daily-plans";
+import {
+    ItineraryPatchError,
+    applyItineraryOperations,
+    describeItineraryOperation,
+    rebaseItineraryOperations,
+    type RevisionDayPlan,
+} from "@/lib/itineraries/revisions";
+import {
+    ItineraryVersionError,
+    loadItineraryVersion,
+    saveItineraryVersion,
+    type ItinerarySnapshot,
+} from "@/lib/itineraries/version-store";
+
+// Current state of an itinerary for the collaborative editor
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const access = await getItineraryAccess(createSupabaseAdmin(), id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        return NextResponse.json({
+            success: true,
+            itinerary: toCollaborativeItinerary(access.itinerary, access.role),
+        });
+    } catch (error) {
+        return handleApiError(error, "itinerary-collaborate-get");
+    }
+}
+
+// Apply an editor's changes. Operations are diffed against the version the
+// editor last saw; when someone else has saved since, they are rebased onto
+// the current plan so neither person's edits are lost. Edits that no longer
+// have anything to apply to (an activity someone else removed, say) are
+// dropped and described in `conflicts`.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const parsed = CollaborativeEditSchema.safeParse(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return Errors.validationError(parsed.error.issues[0]?.message || "Invalid changes");
+        }
+        const { baseVersion, operations, details } = parsed.data;
+
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+        if (access.role === "viewer") {
+            return Errors.forbidden("Viewers can't edit this itinerary.");
+        }
+
+        const current = toCollaborativeItinerary(access.itinerary, access.role);
+        if (baseVersion > current.version) {
+            return Errors.validationError(`Version ${baseVersion} does not exist yet.`);
+        }
+        if (operations.length === 0 && Object.keys(details).length === 0) {
+            return NextResponse.json({ success: true, itinerary: current });
+        }
+
+        let merged: { dailyPlans: RevisionDayPlan[]; operations: typeof operations; conflicts?: typeof operations };
+        try {
+            if (baseVersion === current.version) {
+                merged = applyItineraryOperations(current.dailyPlans, operations);
+            } else {
+                // Version 1 holds the plan as it was before history began
+                const base = await loadItineraryVersion(supabase, id, Math.max(baseVersion, 1));
+                if (!base) {
+                    return apiError(ErrorCodes.CONFLICT, "Reload the itinerary to keep editing.");
+                }
+                const basePlan = normalizeDailyPlansForDisplay<RevisionDayPlan>(
+                    parseDailyPlans(base.snapshot.activities)
+                );
+                merged = rebaseItineraryOperations(basePlan.dailyPlans, operations, current.dailyPlans);
+            }
+        } catch (error) {
+            if (error instanceof ItineraryPatchError) {
+                return Errors.validationError(error.message);
+            }
+            throw error;
+        }
+
+        const changes: Partial<ItinerarySnapshot> = {
+            activities: buildItineraryPlanPayload(merged.dailyPlans, details.insights ?? current.insights),
+            days: merged.dailyPlans.length,
+        };
+        if (details.title !== undefined) changes.title = details.title;
+        if (details.city !== undefined) changes.city = details.city;
+        if (details.highlights !== undefined) changes.highlights = details.highlights;
+        if (details.estimatedCost !== undefined) changes.estimated_cost = details.estimatedCost || null;
+
+        try {
+            const { version, itinerary } = await saveItineraryVersion(supabase, {
+                itineraryId: id,
+                clerkUserId: userId,
+                source: "edit",
+                changes,
+                operations: merged.operations,
+            });
+
+            return NextResponse.json({
+                success: true,
+                rebased: baseVersion !== current.version,
+                conflicts: (merged.conflicts ?? []).map(describeItineraryOperation),
+                itinerary: toCollaborativeItinerary(
+                    { ...access.itinerary, ...itinerary, current_version: version } as typeof access.itinerary,
+                    access.role
+                ),
+            });
+        } catch (error) {
+            if (error instanceof ItineraryVersionError && error.code === "NOT_FOUND") {
+                return Errors.notFound("Itinerary");
+            }
+            console.error("Error saving collaborative edit:", error);
+            return Errors.databaseError();
+        }
+    } catch (error) {
+        return handleApiError(error, "itinerary-collaborate");
+    }
+}
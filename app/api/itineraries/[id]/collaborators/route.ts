@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import {
+    CollaboratorRoleSchema,
+    createItineraryInvite,
+    getItineraryAccess,
+    listItineraryCollaborators,
+    removeItineraryCollaborator,
+} from "@/lib/itineraries/collaboration";
+
+const InviteRequestSchema = z.object({ role: CollaboratorRoleSchema }).strict();
+
+// List the people an itinerary is shared with
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const collaborators = await listItineraryCollaborators(supabase, id);
+
+        return NextResponse.json({
+            success: true,
+            role: access.role,
+            collaborators,
+        });
+    } catch (error) {
+        return handleApiError(error, "itinerary-collaborators");
+    }
+}
+
+// Create an invite link (owner only)
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const parsed = InviteRequestSchema.safeParse(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return Errors.validationError("Role must be editor or viewer");
+        }
+
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+        if (access.role !== "owner") {
+            return Errors.forbidden("Only the owner can invite collaborators.");
+        }
+
+        const invite = await createItineraryInvite(supabase, {
+            itineraryId: id,
+            role: parsed.data.role,
+            createdBy: userId,
+        });
+
+        return NextResponse.json({
+            success: true,
+            ...invite,
+            inviteUrl: `${request.nextUrl.origin}/itineraries/invite/${invite.token}`,
+        });
+    } catch (error) {
+        return handleApiError(error, "itinerary-invite");
+    }
+}
+
+// Remove a collaborator; owners can remove anyone, collaborators can leave
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const collaboratorId = request.nextUrl.searchParams.get("userId");
+        if (!collaboratorId) {
+            return Errors.validationError("Missing required field: userId");
+        }
+
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+        if (access.role !== "owner" && collaboratorId !== userId) {
+            return Errors.forbidden("Only the owner can remove collaborators.");
+        }
+
+        await removeItineraryCollaborator(supabase, id, collaboratorId);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return handleApiError(error, "itinerary-collaborator-remove");
+    }
+}
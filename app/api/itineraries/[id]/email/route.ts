@@ -8,6 +8,7 @@ import {
     normalizeDailyPlansForDisplay,
     parseDailyPlans,
 } from "@/lib/itineraries/normalize-daily-plans";
+import { awardXp } from "@/lib/xp-ledger";
 
 export async function POST(
     req: NextRequest,
@@ -103,17 +104,13 @@ export async function POST(
             return Errors.externalServiceError("email");
         }
 
-        // Award XP for sharing (fire and forget)
+        // Award XP for sharing (once per itinerary)
         try {
-            await fetch(`${req.nextUrl.origin}/api/gamification/award`, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Cookie": req.headers.get("cookie") || "",
-                },
-                body: JSON.stringify({
-                    action: "share_spot",
-                }),
+            await awardXp({
+                clerkUserId: userId,
+                reason: "share_itinerary",
+                source: { type: "itinerary", id },
+                city: itinerary.city,
             });
         } catch (xpError) {
             console.error("Error awarding XP:", xpError);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import { getItineraryAccess } from "@/lib/itineraries/collaboration";
+import {
+    ItineraryBudgetError,
+    deleteItineraryExpense,
+    getItineraryExpense,
+} from "@/lib/itineraries/budget";
+
+// Remove a logged expense: whoever logged it, or the trip's owner
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; expenseId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id, expenseId } = await params;
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const expense = await getItineraryExpense(supabase, id, expenseId);
+        if (!expense) {
+            return Errors.notFound("Expense");
+        }
+        if (expense.createdBy !== userId && access.role !== "owner") {
+            return Errors.forbidden("Only the person who logged this expense or the trip owner can remove it.");
+        }
+
+        try {
+            await deleteItineraryExpense(supabase, id, expenseId);
+        } catch (error) {
+            if (error instanceof ItineraryBudgetError && error.code === "NOT_FOUND") {
+                return Errors.notFound("Expense");
+            }
+            throw error;
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return handleApiError(error, "itinerary-expense-delete");
+    }
+}
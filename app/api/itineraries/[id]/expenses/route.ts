@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import { getItineraryAccess, toCollaborativeItinerary } from "@/lib/itineraries/collaboration";
+import {
+    ItineraryExpenseRequestSchema,
+    addItineraryExpense,
+    listTripMembers,
+    loadItineraryBudgetReport,
+} from "@/lib/itineraries/budget";
+
+// Planned vs. actual spend, the group's expenses and who owes whom
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const report = await loadItineraryBudgetReport(
+            supabase,
+            toCollaborativeItinerary(access.itinerary, access.role),
+            access.itinerary.clerk_user_id
+        );
+
+        return NextResponse.json({ success: true, role: access.role, ...report });
+    } catch (error) {
+        return handleApiError(error, "itinerary-expenses");
+    }
+}
+
+// Log something the group spent. Anyone on the trip may, viewers included:
+// spending money isn't editing the plan.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const parsed = ItineraryExpenseRequestSchema.safeParse(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return Errors.validationError(parsed.error.issues[0]?.message || "Invalid expense");
+        }
+
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const members = await listTripMembers(supabase, id, access.itinerary.clerk_user_id);
+        const memberIds = new Set(members.map((member) => member.userId));
+        const { paidBy, splitWith } = parsed.data;
+        if ((paidBy && !memberIds.has(paidBy)) || splitWith.some((memberId) => !memberIds.has(memberId))) {
+            return Errors.validationError("Expenses can only be paid by and split between people on this trip.");
+        }
+
+        const expense = await addItineraryExpense(supabase, {
+            itineraryId: id,
+            userId,
+            expense: parsed.data,
+        });
+
+        return NextResponse.json({ success: true, expense });
+    } catch (error) {
+        return handleApiError(error, "itinerary-expenses-post");
+    }
+}
@@ -1,15 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { createSupabaseAdmin } from "@/lib/supabase";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { canReadItinerary } from "@/lib/itineraries/collaboration";
 import {
   normalizeDailyPlansForDisplay,
   parseDailyPlans,
 } from "@/lib/itineraries/normalize-daily-plans";
+import { renderItineraryPdf } from "@/lib/itineraries/pdf-export";
+import { buildOfflineBundle } from "@/lib/itineraries/offline-bundle";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// pdf: rendered A4 document; bundle: GPX/KML/JSON zip for offline map apps;
+// html: printable page for the browser's print dialog
+const EXPORT_FORMATS = ["pdf", "bundle", "html"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
 
 // Activity and Day types for export
 interface ExportActivity {
   name?: string;
+  nameKo?: string;
   time?: string;
   address?: string;
   description?: string;
@@ -17,6 +29,10 @@ interface ExportActivity {
   tips?: string;
   localley_score?: number;
   duration?: string;
+  category?: string;
+  type?: string;
+  lat?: number;
+  lng?: number;
 }
 
 interface ExportDay {
@@ -31,7 +47,12 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const supabase = await createSupabaseServerClient();
+    const format = (req.nextUrl.searchParams.get("format") || "pdf") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return Errors.validationError(`format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const supabase = createSupabaseAdmin();
 
     // Fetch itinerary
     const { data: itinerary, error } = await supabase
@@ -44,17 +65,58 @@ export async function GET(
       return Errors.notFound("Itinerary");
     }
 
-    // Check if user has access (either owner or itinerary is shared)
+    // The owner, anyone on the trip, or anyone once it's shared
     const { userId } = await auth();
-    const isOwner = userId && itinerary.clerk_user_id === userId;
-    const isShared = itinerary.shared;
-
-    if (!isOwner && !isShared) {
+    if (!await canReadItinerary(supabase, itinerary, userId)) {
       return Errors.forbidden();
     }
 
     const { dailyPlans, insights: itineraryInsights } =
       normalizeDailyPlansForDisplay<ExportDay>(parseDailyPlans(itinerary.activities));
+    const filename = itinerary.title.replace(/[^a-z0-9]/gi, "-");
+
+    if (format === "pdf") {
+      const pdf = await renderItineraryPdf({
+        title: itinerary.title,
+        city: itinerary.city,
+        days: itinerary.days,
+        estimatedCost: itinerary.estimated_cost,
+        localScore: itinerary.local_score,
+        highlights: Array.isArray(itinerary.highlights) ? itinerary.highlights : [],
+        insights: itineraryInsights,
+        dailyPlans,
+      });
+
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+        },
+      });
+    }
+
+    if (format === "bundle") {
+      const bundle = await buildOfflineBundle(
+        {
+          id: itinerary.id,
+          title: itinerary.title,
+          city: itinerary.city,
+          days: itinerary.days,
+          highlights: Array.isArray(itinerary.highlights) ? itinerary.highlights : [],
+          estimatedCost: itinerary.estimated_cost,
+          insights: itineraryInsights,
+          dailyPlans,
+        },
+        { url: `${req.nextUrl.origin}/itineraries/${itinerary.id}` }
+      );
+
+      return new NextResponse(Buffer.from(bundle.data), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${bundle.filename}"`,
+        },
+      });
+    }
 
     // Generate HTML content for PDF
     const html = `
@@ -344,7 +406,7 @@ export async function GET(
     return new NextResponse(html, {
       headers: {
         "Content-Type": "text/html",
-        "Content-Disposition": `inline; filename="${itinerary.title.replace(/[^a-z0-9]/gi, "-")}.html"`,
+        "Content-Disposition": `inline; filename="${filename}.html"`,
       },
     });
   } catch (error) {
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import {
+    ActivityFeedbackRequestSchema,
+    addActivityComment,
+    getItineraryAccess,
+    loadActivityFeedback,
+    setActivityVote,
+} from "@/lib/itineraries/collaboration";
+
+// Comments and votes on an itinerary's activities
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const feedback = await loadActivityFeedback(supabase, id, userId);
+
+        return NextResponse.json({ success: true, feedback });
+    } catch (error) {
+        return handleApiError(error, "itinerary-feedback");
+    }
+}
+
+// Comment on or vote for an activity; any collaborator may, viewers included
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const parsed = ActivityFeedbackRequestSchema.safeParse(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return Errors.validationError("Provide an activityKey with a comment or a vote of -1, 0 or 1");
+        }
+
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        if ("comment" in parsed.data) {
+            const user = await currentUser();
+            const comment = await addActivityComment(supabase, {
+                itineraryId: id,
+                activityKey: parsed.data.activityKey,
+                userId,
+                authorName: user?.fullName || user?.username || null,
+                body: parsed.data.comment,
+            });
+            return NextResponse.json({ success: true, comment });
+        }
+
+        await setActivityVote(supabase, {
+            itineraryId: id,
+            activityKey: parsed.data.activityKey,
+            userId,
+            value: parsed.data.vote,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return handleApiError(error, "itinerary-feedback-post");
+    }
+}
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { Errors, handleApiError } from "@/lib/api-errors";
-import { trackEngagement } from "@/lib/engagement-tracking";
+import { engagementContextFromRequest, trackEngagement } from "@/lib/engagement-tracking";
 
 // GET - Check if user has liked an itinerary
 export async function GET(
@@ -105,7 +105,7 @@ export async function POST(
             .update({ like_count: count || 0 })
             .eq("id", id);
 
-        void trackEngagement(userId, "itinerary_save", id, itinerary.clerk_user_id);
+        void trackEngagement(userId, "itinerary_save", id, itinerary.clerk_user_id, engagementContextFromRequest(request));
 
         return NextResponse.json({ liked: true, likeCount: count || 0 });
     } catch (error) {
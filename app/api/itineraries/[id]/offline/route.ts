@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import { getItineraryAccess, toCollaborativeItinerary } from "@/lib/itineraries/collaboration";
+import { buildOfflinePrecacheUrls } from "@/lib/itineraries/offline";
+import { applyPublicSpotVisibilityFilters, shouldShowPublicSpot } from "@/lib/spots/public-quality";
+import { transformSpot, type RawSpot } from "@/lib/spots/transform";
+
+const MAX_SPOT_LOOKUPS = 100;
+
+// What pinning an itinerary for offline use needs: the plan, the spot records
+// behind its activities, and the URLs for the service worker to cache
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const supabase = createSupabaseAdmin();
+        const access = await getItineraryAccess(supabase, id, userId);
+        if (!access) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const itinerary = toCollaborativeItinerary(access.itinerary, access.role);
+        const names = [
+            ...new Set(
+                itinerary.dailyPlans.flatMap((day) =>
+                    day.activities.map((activity) => (typeof activity.name === "string" ? activity.name.trim() : ""))
+                )
+            ),
+        ].filter(Boolean).slice(0, MAX_SPOT_LOOKUPS);
+
+        // Activities don't reference spots by id, so match on the English name.
+        // A failed lookup still lets the plan itself go offline.
+        let spots: ReturnType<typeof transformSpot>[] = [];
+        if (names.length > 0) {
+            const { data, error } = await applyPublicSpotVisibilityFilters(
+                supabase.from("spots").select("*")
+            ).in("name->>en", names);
+            if (error) {
+                console.error("Error matching spots for offline itinerary:", error);
+            } else {
+                spots = ((data || []) as RawSpot[]).filter(shouldShowPublicSpot).map(transformSpot);
+            }
+        }
+
+        return NextResponse.json({
+            success: true,
+            itinerary,
+            spots,
+            urls: buildOfflinePrecacheUrls(id, itinerary.dailyPlans, spots),
+        });
+    } catch (error) {
+        return handleApiError(error, "itinerary-offline");
+    }
+}
@@ -2,14 +2,27 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import OpenAI from "openai";
-import { GLMProvider } from "@/lib/llm";
+import { GLMProvider, recordOrReplay } from "@/lib/llm";
 import { addThumbnailsToItinerary } from "@/lib/activity-images";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { z } from "zod";
 import {
   buildItineraryPlanPayload,
   normalizeDailyPlansForDisplay,
+  parseDailyPlans,
   sanitizeGeneratedDailyPlans,
+  type ItineraryInsight,
 } from "@/lib/itineraries/normalize-daily-plans";
+import {
+  ItineraryOperationsSchema,
+  ItineraryPatchError,
+  applyItineraryOperations,
+  describeItineraryOperation,
+  diffDailyPlans,
+  summarizeItineraryOperations,
+  type RevisionDayPlan,
+} from "@/lib/itineraries/revisions";
+import { saveItineraryVersion } from "@/lib/itineraries/version-store";
 
 const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-2024-08-06";
 
@@ -23,7 +36,7 @@ const getOpenAIClient = () => {
 
 async function generateRevisionWithOpenAI(userPrompt: string): Promise<string> {
   const openai = getOpenAIClient();
-  const completion = await openai.chat.completions.create({
+  const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
     model: OPENAI_MODEL,
     messages: [
       { role: "system", content: REVISION_SYSTEM_PROMPT },
@@ -32,7 +45,10 @@ async function generateRevisionWithOpenAI(userPrompt: string): Promise<string> {
     response_format: { type: "json_object" },
     temperature: 0.7,
     max_tokens: 3000,
-  });
+  };
+  const completion = await recordOrReplay("openai", "chat.completions.create", request, () =>
+    openai.chat.completions.create(request)
+  );
 
   const rawContent = completion.choices[0].message.content;
   if (!rawContent) {
@@ -79,27 +95,50 @@ async function generateRevision(userPrompt: string): Promise<{
 
 const REVISION_SYSTEM_PROMPT = `
 You are an AI assistant helping users revise their travel itineraries.
-Your job is to take an existing itinerary and user's revision requests, then output an updated itinerary.
+Your job is to take an existing itinerary and the user's revision request, then output the smallest set of edits that fulfils it.
 
 CRITICAL RULES:
 1. You MUST respond with valid JSON only. No markdown, no explanations, just pure JSON.
-2. You MUST ALWAYS return the COMPLETE itinerary with ALL days - never return just the new/modified parts.
-3. When adding a day, include ALL existing days PLUS the new day in your response.
+2. NEVER rewrite the whole itinerary. Return only the operations needed for the user's request; everything you do not touch is kept exactly as it is.
+3. Operations are applied in order. Days are numbered from 1 and activity indexes from 0, as they stand after the previous operations. Adding or removing a day renumbers the days after it.
+
+OPERATIONS:
+- {"op": "add_activity", "day": 2, "index": 1, "activity": ACTIVITY} (omit "index" to append to the day)
+- {"op": "remove_activity", "day": 2, "index": 0}
+- {"op": "move_activity", "fromDay": 1, "fromIndex": 3, "toDay": 2, "toIndex": 0}
+- {"op": "replace_activity", "day": 3, "index": 2, "activity": ACTIVITY}
+- {"op": "retheme_day", "day": 1, "theme": "New day theme"}
+- {"op": "add_day", "day": 4, "theme": "Day theme", "activities": [ACTIVITY, ...]}
+- {"op": "remove_day", "day": 2}
 
 ACTIVITY STRUCTURE RULES (VERY IMPORTANT):
 1. Each activity MUST be a COMPLETE, REAL location (restaurant, cafe, attraction, shop, park, etc.)
 2. The "name" field MUST be the actual business/place name (e.g., "Din Tai Fung", "Elephant Mountain", "Shilin Night Market")
 3. NEVER use generic names like "Location", "What to Order", "Local Tip", "Breakfast", "Lunch", or "Dinner"
 4. Include recommendations (what to order, what to see) INSIDE the "description" field
-5. Each day MUST have 3-5 activities - NEVER return a day with 0 activities
+5. Every day MUST keep 3-5 activities - NEVER leave a day with 0 activities; a new day needs 3-5 activities
 6. Each activity should be a distinct location - don't split one location into multiple activities
 7. Tips, reminders, transit guidance, and advice must be returned in top-level "insights", never as activities or day fields.
 8. Never attach tip fields to activities. Do NOT add activity fields like "tips", "notes", "whatToOrder", "gettingAround", "bookingNote", "routeNote", or "localTip".
 
+ACTIVITY is:
+{
+  "name": "REAL spot/business name (e.g., 'Din Tai Fung' NOT 'Lunch' or 'Location')",
+  "time": "09:00 AM",
+  "duration": "2 hours",
+  "description": "Why it's special + what to order/see/do - no standalone tips",
+  "address": "Exact street address with district and city when confidently known; include lane/section/building details when useful for routing. If only an area is known, use the most specific official place + area + city instead of inventing details.",
+  "category": "restaurant/cafe/bar/market/temple/park/museum/shopping/attraction/neighborhood",
+  "cost": "€15-25",
+  "type": "morning/afternoon/evening",
+  "localleyScore": 5
+}
+
 The JSON structure must be:
 {
-  "title": "SHORT 3-5 word title (e.g., 'Seoul Hidden Gems', 'Taipei Family Trip')",
-  "subtitle": "Brief tagline describing the trip",
+  "summary": "One sentence describing what you changed",
+  "operations": [OPERATION, ...],
+  "title": "Only if the request changes what the trip is about: SHORT 3-5 word title",
   "insights": [
     {
       "label": "Short label",
@@ -107,41 +146,50 @@ The JSON structure must be:
       "kind": "local/transport/insight"
     }
   ],
-  "dailyPlans": [
-    {
-      "day": 1,
-      "theme": "Day theme",
-      "activities": [
-        {
-          "name": "REAL spot/business name (e.g., 'Din Tai Fung' NOT 'Lunch' or 'Location')",
-          "time": "09:00 AM",
-          "duration": "2 hours",
-          "description": "Why it's special + what to order/see/do - no standalone tips",
-          "address": "Exact street address with district and city when confidently known; include lane/section/building details when useful for routing. If only an area is known, use the most specific official place + area + city instead of inventing details.",
-          "category": "restaurant/cafe/bar/market/temple/park/museum/shopping/attraction/neighborhood",
-          "cost": "€15-25",
-          "type": "morning/afternoon/evening",
-          "localleyScore": 5
-        }
-      ]
-    }
-  ],
-  "highlights": ["Highlight 1", "Highlight 2"],
+  "highlights": ["Only if they should change"],
   "localScore": 8,
-  "estimatedCost": "€200-300 per person"
+  "estimatedCost": "Only if it changes, e.g. €200-300 per person"
 }
+Omit "title", "insights", "highlights", "localScore" and "estimatedCost" to keep the current values; "insights", when given, replaces the full list.
 
 Guidelines:
-1. ALWAYS return ALL days in dailyPlans - existing days + any new days
-2. Keep what works from the original itinerary
-3. Make the requested changes (add/remove/modify activities)
-4. Maintain the local, authentic vibe
-5. Ensure activities are realistic and well-timed
-6. Keep the Localley score (local authenticity) high
-7. Provide exact, routable addresses and practical details
-8. Every day MUST have at least 3 activities - never return empty days
+1. Make exactly the requested changes and keep what works
+2. Maintain the local, authentic vibe
+3. Ensure activities are realistic and well-timed
+4. Keep the Localley score (local authenticity) high
+5. Provide exact, routable addresses and practical details
 `;
 
+const RevisionResponseSchema = z.object({
+  summary: z.string().trim().min(1).max(500).optional(),
+  operations: ItineraryOperationsSchema,
+  title: z.string().trim().min(1).max(200).optional(),
+  insights: z.array(z.unknown()).optional(),
+  highlights: z.array(z.string()).optional(),
+  localScore: z.number().optional(),
+  estimatedCost: z.string().optional(),
+});
+
+type StoredDayPlan = RevisionDayPlan & { theme: string };
+
+/**
+ * The current plan as the model sees it: one line per activity with the
+ * index operations refer to
+ */
+function describePlanForRevision(dailyPlans: StoredDayPlan[]): string {
+  return dailyPlans
+    .map((plan) => [
+      `Day ${plan.day}: ${plan.theme || "(no theme)"}`,
+      ...plan.activities.map((activity, index) =>
+        `  [${index}] ${activity.name}${[activity.time, activity.type, activity.category]
+          .filter((detail) => typeof detail === "string" && detail)
+          .map((detail) => ` | ${detail}`)
+          .join("")}`
+      ),
+    ].join("\n"))
+    .join("\n");
+}
+
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -173,112 +221,97 @@ export async function POST(
       return Errors.notFound("Itinerary");
     }
 
-    // Parse existing activities
-    const existingActivities =
-      typeof itinerary.activities === "string"
-        ? JSON.parse(itinerary.activities)
-        : itinerary.activities;
+    const existing = normalizeDailyPlansForDisplay<StoredDayPlan>(parseDailyPlans(itinerary.activities));
 
     // Create revision prompt
     const userPrompt = `
 Current Itinerary:
 Title: ${itinerary.title}
 City: ${itinerary.city}
-Days: ${itinerary.days}
-Current Activities: ${JSON.stringify(existingActivities, null, 2)}
+Days: ${existing.dailyPlans.length}
+Current Plan (activity indexes in brackets):
+${describePlanForRevision(existing.dailyPlans)}
 
 User's Revision Request:
 ${revisionRequest}
 
-IMPORTANT: Please revise this itinerary according to the user's request.
-- You MUST return the COMPLETE itinerary with ALL days (existing + any new ones)
-- Do NOT return just the new or modified parts - return EVERYTHING
-- Each day MUST have 3-5 real activities with specific names and exact, routable addresses when known
-- If adding a new day, include Day 1, Day 2, etc. up to the new day
-
-Make sure to:
-1. Apply the requested changes
-2. Keep activities that still work from the original
-3. Maintain realistic timing and flow
-4. Provide exact, routable addresses for every activity when confidently known
-5. Keep the Localley score high (focus on hidden gems)
-6. Return valid JSON in the exact format specified
+IMPORTANT: Return only the operations needed for this request.
+- Do NOT repeat activities that stay the same
+- Every day must still have 3-5 real activities with specific names and exact, routable addresses when known
+- Keep the Localley score high (focus on hidden gems)
+- Return valid JSON in the exact format specified
 `;
 
     const { rawContent, provider: aiProvider } = await generateRevision(userPrompt);
 
-    // Parse AI response
-    let revisedItinerary;
+    // Parse the AI's operations and apply them to the stored plan
+    let revision: z.infer<typeof RevisionResponseSchema>;
+    let dailyPlans: StoredDayPlan[];
+    let insights: ItineraryInsight[];
     try {
-      revisedItinerary = JSON.parse(rawContent);
+      revision = RevisionResponseSchema.parse(JSON.parse(rawContent));
+      const applied = applyItineraryOperations(existing.dailyPlans, revision.operations);
 
-      if (
-        !revisedItinerary.dailyPlans ||
-        !Array.isArray(revisedItinerary.dailyPlans)
-      ) {
-        throw new Error("Invalid itinerary structure");
-      }
-
-      const normalized = normalizeDailyPlansForDisplay(
-        sanitizeGeneratedDailyPlans(revisedItinerary.dailyPlans),
-        revisedItinerary.insights
+      const normalized = normalizeDailyPlansForDisplay<StoredDayPlan>(
+        sanitizeGeneratedDailyPlans(applied.dailyPlans),
+        revision.insights ?? existing.insights
       );
-      revisedItinerary.dailyPlans = normalized.dailyPlans;
-      revisedItinerary.insights = normalized.insights;
+      dailyPlans = normalized.dailyPlans;
+      insights = normalized.insights;
 
       // Validate that each day has activities after moving tips out of activities
-      for (const day of revisedItinerary.dailyPlans) {
+      for (const day of dailyPlans) {
         if (!day.activities || !Array.isArray(day.activities) || day.activities.length === 0) {
           throw new Error(`Day ${day.day} has no activities`);
         }
       }
-    } catch {
-      console.error("Failed to parse AI response:", rawContent);
+    } catch (error) {
+      console.error("Failed to apply AI revision:", error instanceof ItineraryPatchError ? error.message : rawContent);
       return Errors.externalServiceError("AI response parsing");
     }
 
     // Add thumbnail images to activities
-    const dailyPlansWithImages = addThumbnailsToItinerary(
-      revisedItinerary.dailyPlans,
-      itinerary.city
-    );
-    revisedItinerary.dailyPlans = dailyPlansWithImages;
+    dailyPlans = addThumbnailsToItinerary(dailyPlans, itinerary.city);
 
-    // Calculate new days count from daily plans
-    const newDaysCount = revisedItinerary.dailyPlans.length;
+    // What actually changed, after normalisation, is what the history records
+    const operations = diffDailyPlans(existing.dailyPlans, dailyPlans);
 
-    // Update itinerary in database
-    const { data: updatedItinerary, error: updateError } = await supabase
-      .from("itineraries")
-      .update({
-        title: revisedItinerary.title || itinerary.title,
-        activities: buildItineraryPlanPayload(revisedItinerary.dailyPlans, revisedItinerary.insights),
-        days: newDaysCount,
-        local_score: revisedItinerary.localScore || itinerary.local_score,
-        highlights: revisedItinerary.highlights || itinerary.highlights,
-        estimated_cost:
-          revisedItinerary.estimatedCost || itinerary.estimated_cost,
-      })
-      .eq("id", id)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error("Error updating itinerary:", updateError);
+    let version: number;
+    let updatedItinerary: Record<string, unknown>;
+    try {
+      ({ version, itinerary: updatedItinerary } = await saveItineraryVersion(supabase, {
+        itineraryId: id,
+        clerkUserId: userId,
+        source: "revise",
+        changes: {
+          title: revision.title || itinerary.title,
+          activities: buildItineraryPlanPayload(dailyPlans, insights),
+          days: dailyPlans.length,
+          local_score: revision.localScore || itinerary.local_score,
+          highlights: revision.highlights || itinerary.highlights,
+          estimated_cost: revision.estimatedCost || itinerary.estimated_cost,
+        },
+        operations,
+        summary: revision.summary ?? summarizeItineraryOperations(operations),
+      }));
+    } catch (error) {
+      console.error("Error updating itinerary:", error);
       return Errors.databaseError();
     }
 
     return NextResponse.json({
       success: true,
       provider: aiProvider,
+      version,
+      changes: operations.map(describeItineraryOperation),
       itinerary: {
         id: updatedItinerary.id,
-        title: revisedItinerary.title,
-        dailyPlans: revisedItinerary.dailyPlans,
-        insights: revisedItinerary.insights,
-        localScore: revisedItinerary.localScore,
-        highlights: revisedItinerary.highlights,
-        estimatedCost: revisedItinerary.estimatedCost,
+        title: updatedItinerary.title,
+        dailyPlans,
+        insights,
+        localScore: updatedItinerary.local_score,
+        highlights: updatedItinerary.highlights,
+        estimatedCost: updatedItinerary.estimated_cost,
       },
     });
   } catch (error) {
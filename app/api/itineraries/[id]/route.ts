@@ -2,7 +2,8 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { Errors, handleApiError } from "@/lib/api-errors";
-import { trackEngagement } from "@/lib/engagement-tracking";
+import { engagementContextFromRequest, trackEngagement } from "@/lib/engagement-tracking";
+import { reverseXpForSource } from "@/lib/xp-ledger";
 
 export async function DELETE(
     request: Request,
@@ -43,6 +44,12 @@ export async function DELETE(
             return Errors.databaseError();
         }
 
+        try {
+            await reverseXpForSource({ source: { type: "itinerary", id } });
+        } catch (xpError) {
+            console.error("Error reversing XP:", xpError);
+        }
+
         return NextResponse.json({ success: true });
     } catch (error) {
         return handleApiError(error, "itinerary-delete");
@@ -78,7 +85,7 @@ export async function GET(
         }
 
         if (itinerary.clerk_user_id) {
-            void trackEngagement(userId, "itinerary_view", id, itinerary.clerk_user_id);
+            void trackEngagement(userId, "itinerary_view", id, itinerary.clerk_user_id, engagementContextFromRequest(request));
         }
 
         return NextResponse.json(itinerary);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { recordChallengeEvent } from "@/lib/challenges/engine";
 
 // Generate a unique share code
 function generateShareCode(): string {
@@ -30,7 +31,7 @@ export async function POST(
     // Check if itinerary belongs to user
     const { data: itinerary, error: fetchError } = await supabase
       .from("itineraries")
-      .select("id, shared, share_code, clerk_user_id")
+      .select("id, shared, share_code, clerk_user_id, city")
       .eq("id", id)
       .single();
 
@@ -82,6 +83,7 @@ export async function POST(
       .update({
         shared: true,
         share_code: shareCode,
+        shared_at: new Date().toISOString(),
       })
       .eq("id", id);
 
@@ -92,6 +94,13 @@ export async function POST(
 
     const shareUrl = `${req.nextUrl.origin}/shared/${shareCode}`;
 
+    await recordChallengeEvent({
+      type: "itinerary_shared",
+      clerkUserId: userId,
+      subjectId: id,
+      city: itinerary.city,
+    });
+
     return NextResponse.json({
       success: true,
       shareCode,
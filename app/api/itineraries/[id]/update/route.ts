@@ -5,7 +5,10 @@ import { Errors, handleApiError } from "@/lib/api-errors";
 import {
     buildItineraryPlanPayload,
     normalizeDailyPlansForDisplay,
+    parseDailyPlans,
 } from "@/lib/itineraries/normalize-daily-plans";
+import { diffDailyPlans, type RevisionDayPlan } from "@/lib/itineraries/revisions";
+import { ItineraryVersionError, saveItineraryVersion } from "@/lib/itineraries/version-store";
 
 export async function PATCH(
     request: NextRequest,
@@ -39,7 +42,7 @@ export async function PATCH(
         // Check if itinerary exists and user owns it
         const { data: existingItinerary, error: fetchError } = await supabase
             .from("itineraries")
-            .select("clerk_user_id")
+            .select("clerk_user_id, activities")
             .eq("id", id)
             .single();
 
@@ -51,35 +54,43 @@ export async function PATCH(
             return Errors.forbidden("You don't own this itinerary.");
         }
 
-        const normalizedPlan = normalizeDailyPlansForDisplay(days, insights);
+        const normalizedPlan = normalizeDailyPlansForDisplay<RevisionDayPlan>(days, insights);
         const activitiesPayload = buildItineraryPlanPayload(
             normalizedPlan.dailyPlans,
             normalizedPlan.insights
         );
+        const previousPlan = normalizeDailyPlansForDisplay<RevisionDayPlan>(
+            parseDailyPlans(existingItinerary.activities)
+        );
 
-        // Update itinerary
-        const { data, error } = await supabase
-            .from("itineraries")
-            .update({
-                title,
-                city,
-                activities: activitiesPayload,
-                highlights: highlights || [],
-                estimated_cost: estimated_cost || null,
-            })
-            .eq("id", id)
-            .select()
-            .single();
+        // Update itinerary and record the edit as a new version
+        try {
+            const { version, itinerary } = await saveItineraryVersion(supabase, {
+                itineraryId: id,
+                clerkUserId: userId,
+                source: "edit",
+                changes: {
+                    title,
+                    city,
+                    activities: activitiesPayload,
+                    highlights: highlights || [],
+                    estimated_cost: estimated_cost || null,
+                },
+                operations: diffDailyPlans(previousPlan.dailyPlans, normalizedPlan.dailyPlans),
+            });
 
-        if (error) {
+            return NextResponse.json({
+                success: true,
+                version,
+                itinerary,
+            });
+        } catch (error) {
+            if (error instanceof ItineraryVersionError && error.code === "NOT_FOUND") {
+                return Errors.notFound("Itinerary");
+            }
             console.error("Database update error:", error);
             return Errors.databaseError();
         }
-
-        return NextResponse.json({
-            success: true,
-            itinerary: data,
-        });
     } catch (error) {
         return handleApiError(error, "itinerary-update");
     }
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import {
+    normalizeDailyPlansForDisplay,
+    parseDailyPlans,
+} from "@/lib/itineraries/normalize-daily-plans";
+import { diffDailyPlans, type RevisionDayPlan } from "@/lib/itineraries/revisions";
+import {
+    ItineraryVersionError,
+    loadItineraryVersion,
+    saveItineraryVersion,
+} from "@/lib/itineraries/version-store";
+
+/**
+ * Restores an earlier version by saving its snapshot as a new version, so
+ * the versions after it stay in the history. Undo restores current - 1.
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string; version: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id, version: versionParam } = await params;
+        const version = Number(versionParam);
+        if (!Number.isInteger(version) || version < 1) {
+            return Errors.validationError("Version must be a positive whole number");
+        }
+
+        const supabase = await createSupabaseServerClient();
+
+        const { data: itinerary, error } = await supabase
+            .from("itineraries")
+            .select("id, activities, current_version")
+            .eq("id", id)
+            .eq("clerk_user_id", userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error("Error loading itinerary:", error);
+            return Errors.databaseError();
+        }
+        if (!itinerary) {
+            return Errors.notFound("Itinerary");
+        }
+        if (version === itinerary.current_version) {
+            return Errors.validationError("That version is already the current plan");
+        }
+
+        const target = await loadItineraryVersion(supabase, id, version);
+        if (!target) {
+            return Errors.notFound("Itinerary version");
+        }
+
+        const { dailyPlans: currentPlans } = normalizeDailyPlansForDisplay<RevisionDayPlan>(
+            parseDailyPlans(itinerary.activities)
+        );
+        const { dailyPlans: restoredPlans } = normalizeDailyPlansForDisplay<RevisionDayPlan>(
+            parseDailyPlans(target.snapshot.activities)
+        );
+
+        try {
+            const saved = await saveItineraryVersion(supabase, {
+                itineraryId: id,
+                clerkUserId: userId,
+                source: "restore",
+                changes: target.snapshot,
+                operations: diffDailyPlans(currentPlans, restoredPlans),
+                summary: `Restored version ${version}.`,
+                restoredFrom: version,
+            });
+
+            return NextResponse.json({
+                success: true,
+                version: saved.version,
+                itinerary: saved.itinerary,
+            });
+        } catch (saveError) {
+            if (saveError instanceof ItineraryVersionError && saveError.code === "NOT_FOUND") {
+                return Errors.notFound("Itinerary");
+            }
+            console.error("Error restoring itinerary version:", saveError);
+            return Errors.databaseError();
+        }
+    } catch (error) {
+        return handleApiError(error, "itinerary-restore");
+    }
+}
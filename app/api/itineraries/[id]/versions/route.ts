@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import { listItineraryVersions } from "@/lib/itineraries/version-store";
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const { id } = await params;
+        const supabase = await createSupabaseServerClient();
+
+        const { data: itinerary, error } = await supabase
+            .from("itineraries")
+            .select("id, current_version")
+            .eq("id", id)
+            .eq("clerk_user_id", userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error("Error loading itinerary:", error);
+            return Errors.databaseError();
+        }
+        if (!itinerary) {
+            return Errors.notFound("Itinerary");
+        }
+
+        const versions = await listItineraryVersions(supabase, id);
+
+        return NextResponse.json({
+            success: true,
+            currentVersion: itinerary.current_version,
+            versions,
+        });
+    } catch (error) {
+        return handleApiError(error, "itinerary-versions");
+    }
+}
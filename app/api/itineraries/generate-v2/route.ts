@@ -29,6 +29,7 @@ import {
   normalizeDailyPlansForDisplay,
 } from '@/lib/itineraries/normalize-daily-plans';
 import { buildItineraryProviderMeta } from '@/lib/llm/itinerary-provider-meta';
+import { recordChallengeEvent } from '@/lib/challenges/engine';
 
 export async function POST(req: NextRequest) {
   try {
@@ -133,8 +134,16 @@ export async function POST(req: NextRequest) {
     );
 
     // Usage already tracked atomically - no need for separate call
-    // Award XP for creating itinerary (fire and forget)
-    awardXP(req).catch(console.error);
+    if (savedItinerary?.id) {
+      // Award XP for creating itinerary (fire and forget)
+      awardXP(req, savedItinerary.id).catch(console.error);
+      await recordChallengeEvent({
+        type: 'itinerary_created',
+        clerkUserId: userId,
+        subjectId: savedItinerary.id,
+        city: params.city,
+      });
+    }
 
     const response: Record<string, unknown> = {
       success: true,
@@ -222,7 +231,7 @@ async function saveItineraryToDatabase(
 /**
  * Award XP for creating itinerary (fire and forget)
  */
-async function awardXP(req: NextRequest): Promise<void> {
+async function awardXP(req: NextRequest, itineraryId: string): Promise<void> {
   try {
     await fetch(`${req.nextUrl.origin}/api/gamification/award`, {
       method: 'POST',
@@ -232,6 +241,7 @@ async function awardXP(req: NextRequest): Promise<void> {
       },
       body: JSON.stringify({
         action: 'create_itinerary',
+        itineraryId,
       }),
     });
   } catch (error) {
@@ -10,10 +10,12 @@ import { validateCityForItinerary } from '@/lib/cities';
 import { cookies } from 'next/headers';
 import { Errors, handleApiError, apiError, ErrorCodes } from '@/lib/api-errors';
 import { geocodeItineraryActivities } from '@/lib/geocoding';
+import { recordChallengeEvent } from '@/lib/challenges/engine';
 import {
   applyPublicSpotVisibilityFilters,
   shouldShowPublicSpot,
 } from '@/lib/spots/public-quality';
+import { createSpotEmbeddingStore, scoreSpotRelevance } from '@/lib/spots/semantic-search';
 import { isTipLikeActivity, sanitizeGeneratedDailyPlans } from './sanitize-itinerary';
 import {
   buildItineraryPlanPayload,
@@ -22,6 +24,7 @@ import {
 import { generateItineraryTextWithFallback } from './provider-fallback';
 import {
   buildItinerarySpotContext,
+  describeGroundingInterests,
   getPaceStopRange,
   groundGeneratedDailyPlans,
   hasItineraryGroundingCoverage,
@@ -266,15 +269,20 @@ export async function POST(req: NextRequest) {
     if (spotsError) {
       throw new Error(`Could not load verified itinerary spots: ${spotsError.message}`);
     }
-    const visibleSpots = (spots || []).filter((spot) => shouldShowPublicSpot(spot));
-    const groundingSpots = rankItineraryGroundingSpots(
-      visibleSpots as ItineraryGroundingSpot[],
-      { days, interests, localnessLevel, pace },
-    );
-    const hasGroundingCoverage = hasItineraryGroundingCoverage(
-      groundingSpots,
-      { days, interests, localnessLevel, pace },
-    );
+    const visibleSpots = (spots || []).filter((spot) => shouldShowPublicSpot(spot)) as ItineraryGroundingSpot[];
+    const groundingPreferences = {
+      days,
+      interests,
+      localnessLevel,
+      pace,
+      relevance: await scoreSpotRelevance(
+        visibleSpots,
+        describeGroundingInterests(interests, templatePrompt),
+        { store: createSpotEmbeddingStore(supabase) },
+      ),
+    };
+    const groundingSpots = rankItineraryGroundingSpots(visibleSpots, groundingPreferences);
+    const hasGroundingCoverage = hasItineraryGroundingCoverage(groundingSpots, groundingPreferences);
 
     if (!hasGroundingCoverage) {
       return NextResponse.json({
@@ -358,7 +366,7 @@ Respect the pace, keep each day geographically coherent, avoid repeated categori
     itineraryData.dailyPlans = groundGeneratedDailyPlans(
       itineraryData.dailyPlans,
       groundedCandidateSpots,
-      { days, interests, localnessLevel, pace },
+      groundingPreferences,
     );
 
     const paceStops = getPaceStopRange(pace);
@@ -463,20 +471,30 @@ Respect the pace, keep each day geographically coherent, avoid repeated categori
       }
 
       // Usage already tracked atomically - no need for separate call
-      // Award XP for creating itinerary (fire and forget)
-      try {
-        await fetch(`${req.nextUrl.origin}/api/gamification/award`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Cookie': req.headers.get('cookie') || '',
-          },
-          body: JSON.stringify({
-            action: 'create_itinerary',
-          }),
+      if (savedItinerary?.id) {
+        // Award XP for creating itinerary (fire and forget)
+        try {
+          await fetch(`${req.nextUrl.origin}/api/gamification/award`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Cookie': req.headers.get('cookie') || '',
+            },
+            body: JSON.stringify({
+              action: 'create_itinerary',
+              itineraryId: savedItinerary.id,
+            }),
+          });
+        } catch (xpError) {
+          console.error('Error awarding XP:', xpError);
+        }
+
+        await recordChallengeEvent({
+          type: 'itinerary_created',
+          clerkUserId: userId,
+          subjectId: savedItinerary.id,
+          city: normalizedCity,
         });
-      } catch (xpError) {
-        console.error('Error awarding XP:', xpError);
       }
     }
 
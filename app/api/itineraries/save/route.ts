@@ -4,6 +4,7 @@ import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { saveItinerarySchema, validateBody } from "@/lib/validations";
 import { Errors, handleApiError } from "@/lib/api-errors";
 import { geocodeItineraryActivities } from "@/lib/geocoding";
+import { recordChallengeEvent } from "@/lib/challenges/engine";
 import type { DailyPlan } from "@/lib/llm/types";
 import {
     buildItineraryPlanPayload,
@@ -74,6 +75,13 @@ export async function POST(req: Request) {
             return Errors.databaseError();
         }
 
+        await recordChallengeEvent({
+            type: "itinerary_created",
+            clerkUserId: userId,
+            subjectId: itinerary.id,
+            city,
+        });
+
         return NextResponse.json(itinerary);
     } catch (error) {
         return handleApiError(error, "itinerary-save");
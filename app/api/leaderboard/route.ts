@@ -1,90 +1,60 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { createSupabaseAdmin } from "@/lib/supabase";
-import { getRankTitle } from "@/lib/gamification";
+import { LEADERBOARD_BOARDS, getLeaderboard, type LeaderboardBoard } from "@/lib/leaderboards";
 
+/**
+ * GET /api/leaderboard?type=global|city|friends&period=week|month|season|all_time&city=busan
+ *
+ * Boards are materialised daily from the XP ledger, so results (and each
+ * entry's rankChange) are as of the last refresh. Defaults to this season.
+ */
 export async function GET(req: NextRequest) {
     try {
         const { userId } = await auth();
         const { searchParams } = new URL(req.url);
         const type = searchParams.get("type") || "global";
-        const _city = searchParams.get("city"); // Reserved for future city-specific leaderboards
-        const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 100);
+        const period = searchParams.get("period") || "season";
+        const city = searchParams.get("city");
+        const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10) || 50, 100);
 
-        const supabase = createSupabaseAdmin();
-
-        // Base query for top users by XP
-        const query = supabase
-            .from("users")
-            .select("id, clerk_id, username, xp, level")
-            .order("xp", { ascending: false })
-            .limit(limit);
-
-        // For city-specific leaderboard, we'd need to track user locations
-        // For now, global leaderboard is the main feature
-
-        const { data: users, error } = await query;
-
-        if (error) {
-            console.error("Leaderboard fetch error:", error);
+        if (!["global", "city", "friends"].includes(type)) {
+            return NextResponse.json({ error: "type must be global, city or friends" }, { status: 400 });
+        }
+        if (!LEADERBOARD_BOARDS.includes(period as LeaderboardBoard)) {
             return NextResponse.json(
-                { error: "Failed to fetch leaderboard" },
-                { status: 500 }
+                { error: `period must be one of ${LEADERBOARD_BOARDS.join(", ")}` },
+                { status: 400 }
             );
         }
-
-        // Get additional user info from Clerk for display names
-        // For now, use username or generate placeholder
-        const leaderboard = (users || []).map((user, index) => ({
-            rank: index + 1,
-            id: user.id,
-            clerkId: user.clerk_id,
-            username: user.username || `Explorer${index + 1}`,
-            xp: user.xp || 0,
-            level: user.level || 1,
-            title: getRankTitle(user.level || 1),
-            isCurrentUser: user.clerk_id === userId,
-        }));
-
-        // Find current user's rank if not in top results
-        let currentUserRank = null;
-        if (userId) {
-            const userInList = leaderboard.find((u) => u.isCurrentUser);
-            if (!userInList) {
-                // Get current user's rank
-                const { data: currentUser } = await supabase
-                    .from("users")
-                    .select("id, clerk_id, username, xp, level")
-                    .eq("clerk_id", userId)
-                    .single();
-
-                if (currentUser) {
-                    // Count users with more XP
-                    const { count } = await supabase
-                        .from("users")
-                        .select("*", { count: "exact", head: true })
-                        .gt("xp", currentUser.xp || 0);
-
-                    currentUserRank = {
-                        rank: (count || 0) + 1,
-                        id: currentUser.id,
-                        clerkId: currentUser.clerk_id,
-                        username: currentUser.username || "You",
-                        xp: currentUser.xp || 0,
-                        level: currentUser.level || 1,
-                        title: getRankTitle(currentUser.level || 1),
-                        isCurrentUser: true,
-                    };
-                }
-            }
+        if (type === "city" && !city) {
+            return NextResponse.json({ error: "city is required for a city leaderboard" }, { status: 400 });
         }
+        if (type === "friends" && !userId) {
+            return NextResponse.json({ error: "Sign in to see your friends' leaderboard" }, { status: 401 });
+        }
+
+        const board = await getLeaderboard({
+            board: period as LeaderboardBoard,
+            city: type === "city" ? city : null,
+            friends: type === "friends",
+            viewerClerkUserId: userId,
+            limit,
+        });
 
         return NextResponse.json({
             success: true,
             type,
-            leaderboard,
-            currentUserRank,
-            total: leaderboard.length,
+            period: {
+                key: board.period.key,
+                board: board.period.board,
+                label: board.period.label,
+                startsAt: board.period.start?.toISOString() ?? null,
+                endsAt: board.period.end?.toISOString() ?? null,
+            },
+            city: board.city,
+            leaderboard: board.entries,
+            currentUserRank: board.currentUser,
+            total: board.entries.length,
         });
     } catch (error) {
         console.error("Leaderboard error:", error);
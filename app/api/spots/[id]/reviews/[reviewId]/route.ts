@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { Errors, handleApiError } from "@/lib/api-errors";
+import { reverseXpForSource } from "@/lib/xp-ledger";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
 // PUT - Update a review
@@ -113,6 +114,12 @@ export async function DELETE(
             return Errors.databaseError();
         }
 
+        try {
+            await reverseXpForSource({ source: { type: "review", id: reviewId } });
+        } catch (xpError) {
+            console.error("Error reversing XP:", xpError);
+        }
+
         // Update spot stats
         await updateSpotStats(supabase, spotId);
 
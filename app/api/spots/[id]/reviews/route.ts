@@ -3,6 +3,8 @@ import { auth } from "@clerk/nextjs/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { Errors, handleApiError, apiError, ErrorCodes } from "@/lib/api-errors";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadSpotContext, recordChallengeEvent } from "@/lib/challenges/engine";
+import { awardXp } from "@/lib/xp-ledger";
 
 interface ReviewWithUser {
     id: string;
@@ -207,6 +209,26 @@ export async function POST(
         // Update spot stats
         await updateSpotStats(supabase, spotId);
 
+        try {
+            await awardXp({
+                clerkUserId: userId,
+                reason: "write_review",
+                source: { type: "review", id: review.id },
+                city: (await loadSpotContext(supabase, spotId)).city,
+                metadata: { spotId },
+            });
+        } catch (xpError) {
+            console.error("Error awarding XP:", xpError);
+        }
+
+        await recordChallengeEvent({
+            type: "review_posted",
+            clerkUserId: userId,
+            subjectId: spotId,
+            spotId,
+            rating,
+        });
+
         return NextResponse.json(review, { status: 201 });
     } catch (error) {
         return handleApiError(error, "reviews-create");
@@ -4,7 +4,9 @@ import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { createSupabaseAdmin } from "@/lib/supabase";
 import { checkUsageLimit, getUserTier } from "@/lib/usage-tracking";
 import { Errors, handleApiError } from "@/lib/api-errors";
-import { trackEngagement } from "@/lib/engagement-tracking";
+import { engagementContextFromRequest, trackEngagement } from "@/lib/engagement-tracking";
+import { recordChallengeEvent } from "@/lib/challenges/engine";
+import { reverseXpForSource } from "@/lib/xp-ledger";
 
 export async function POST(req: NextRequest) {
   try {
@@ -79,7 +81,7 @@ export async function POST(req: NextRequest) {
           .single();
 
         if (creator?.clerk_id) {
-          void trackEngagement(userId, "spot_save", spotId, creator.clerk_id);
+          void trackEngagement(userId, "spot_save", spotId, creator.clerk_id, engagementContextFromRequest(req));
         }
       }
     } catch (trackingError) {
@@ -96,12 +98,20 @@ export async function POST(req: NextRequest) {
         },
         body: JSON.stringify({
           action: 'discover_spot',
+          spotId,
         }),
       });
     } catch (xpError) {
       console.error('Error awarding XP:', xpError);
     }
 
+    await recordChallengeEvent({
+      type: "spot_saved",
+      clerkUserId: userId,
+      subjectId: spotId,
+      spotId,
+    });
+
     return NextResponse.json({
       success: true,
       saved: true,
@@ -138,6 +148,17 @@ export async function DELETE(req: NextRequest) {
       return Errors.databaseError();
     }
 
+    // Saving and unsaving the same spot shouldn't farm XP
+    try {
+      await reverseXpForSource({
+        source: { type: "spot", id: spotId },
+        reason: "discover_spot",
+        clerkUserId: userId,
+      });
+    } catch (xpError) {
+      console.error("Error reversing XP:", xpError);
+    }
+
     return NextResponse.json({
       success: true,
       saved: false,
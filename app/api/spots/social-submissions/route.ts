@@ -40,6 +40,7 @@ import {
   type SocialLinkMetadata,
 } from "@/lib/social-spot-submissions";
 import { validateBody } from "@/lib/validations";
+import { recordChallengeEvent } from "@/lib/challenges/engine";
 
 export const runtime = "nodejs";
 export const maxDuration = 120;
@@ -57,6 +58,11 @@ function remainingProcessingTimeout(deadlineAt: number | undefined, maximumMs: n
   return Math.min(maximumMs, Math.max(0, deadlineAt - Date.now()));
 }
 
+// A submission counts as approved once it's linked to a Localley spot
+function isApprovedSubmissionStatus(status: string | null | undefined): boolean {
+  return status === "spot_created" || status === "spot_reused";
+}
+
 function isSocialSpotSubmissionsEnabled(): boolean {
   return process.env.NEXT_PUBLIC_SOCIAL_SPOT_SUBMISSIONS_ENABLED === "true";
 }
@@ -1299,6 +1305,14 @@ export async function POST(req: NextRequest) {
     if (mediaQueue.workerRequired) {
       scheduleSocialMediaWorker(req);
     }
+    if (isApprovedSubmissionStatus(submission.status)) {
+      await recordChallengeEvent({
+        type: "social_submission_approved",
+        clerkUserId: userId,
+        subjectId: submission.id,
+        spotId: submission.spot_id,
+      });
+    }
 
     return NextResponse.json({
       success: true,
@@ -1615,6 +1629,19 @@ export async function PATCH(req: NextRequest) {
       return Errors.databaseError("Could not save the added evidence.");
     }
 
+    if (
+      existingSubmission.clerk_user_id &&
+      !isApprovedSubmissionStatus(existingSubmission.status) &&
+      isApprovedSubmissionStatus(updatedSubmission.status)
+    ) {
+      await recordChallengeEvent({
+        type: "social_submission_approved",
+        clerkUserId: existingSubmission.clerk_user_id,
+        subjectId: updatedSubmission.id,
+        spotId: updatedSubmission.spot_id,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       submission: {
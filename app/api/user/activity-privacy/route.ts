@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { Errors, handleApiError } from "@/lib/api-errors";
+import {
+    ACTIVITY_AUDIENCES,
+    invalidateAllActivityFeeds,
+    resolveActivityPrivacy,
+    type ActivityAudience,
+    type ActivityPrivacy,
+} from "@/lib/activity-feed";
+
+// GET who can see the user's activity in their followers' feeds
+export async function GET() {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const supabase = await createSupabaseServerClient();
+
+        const { data: user } = await supabase
+            .from("users")
+            .select("activity_privacy")
+            .eq("clerk_id", userId)
+            .single();
+
+        return NextResponse.json({
+            privacy: resolveActivityPrivacy(user?.activity_privacy),
+        });
+    } catch (error) {
+        return handleApiError(error, "activity-privacy-get");
+    }
+}
+
+// PUT update activity privacy
+export async function PUT(req: NextRequest) {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return Errors.unauthorized();
+        }
+
+        const body = await req.json();
+        const { privacy } = body as { privacy: Partial<ActivityPrivacy> };
+
+        if (!privacy) {
+            return Errors.validationError("Missing privacy settings");
+        }
+
+        if (privacy.audience !== undefined && !ACTIVITY_AUDIENCES.includes(privacy.audience as ActivityAudience)) {
+            return Errors.validationError(`audience must be one of ${ACTIVITY_AUDIENCES.join(", ")}`);
+        }
+
+        const supabase = await createSupabaseServerClient();
+
+        const { data: user } = await supabase
+            .from("users")
+            .select("activity_privacy")
+            .eq("clerk_id", userId)
+            .single();
+
+        const updatedPrivacy = resolveActivityPrivacy({
+            ...resolveActivityPrivacy(user?.activity_privacy),
+            ...privacy,
+        });
+
+        const { error } = await supabase
+            .from("users")
+            .update({
+                activity_privacy: updatedPrivacy,
+                updated_at: new Date().toISOString(),
+            })
+            .eq("clerk_id", userId);
+
+        if (error) {
+            console.error("Error updating activity privacy:", error);
+            return Errors.databaseError();
+        }
+
+        // Followers' cached pages may still show what was just hidden
+        invalidateAllActivityFeeds();
+
+        return NextResponse.json({
+            success: true,
+            privacy: updatedPrivacy,
+        });
+    } catch (error) {
+        return handleApiError(error, "activity-privacy-update");
+    }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getOrchestrator, type UserTier } from "@/lib/llm";
+import { rateLimiters } from "@/lib/rate-limit";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { checkAndIncrementUsageWeighted, refundUsage } from "@/lib/usage-tracking";
+import {
+  isTripId,
+  isTripsApiEnabled,
+  noStoreHeaders,
+  tripErrorResponse,
+  tripNotFoundResponse,
+} from "@/lib/trips/api";
+import {
+  CorridorItineraryError,
+  generateCorridorItinerary,
+  loadCityGroundingSpots,
+  scoreCityGroundingRelevance,
+} from "@/lib/trips/corridor-itinerary";
+import { loadTrip, saveTripItinerary } from "@/lib/trips/trip-store";
+
+export const maxDuration = 120;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.strict(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to generate trip itineraries.");
+
+  const { id } = await params;
+  if (!isTripId(id)) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+  // Credits are taken up front and given back if no itinerary gets saved
+  let charged = 0;
+  const refund = async () => {
+    if (charged > 0) await refundUsage(userId, "itineraries_created", charged);
+  };
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const trip = await loadTrip(supabase, userId, id);
+    if (!trip) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+    // Each stop is a full orchestrated generation, so charge one credit per stop.
+    const { allowed, tier } = await checkAndIncrementUsageWeighted(
+      userId,
+      "itineraries_created",
+      trip.plan.stops.length,
+    );
+    if (!allowed) {
+      return tripErrorResponse(429, "LIMIT_EXCEEDED", "Itinerary generation limit reached for this period.");
+    }
+    charged = trip.plan.stops.length;
+
+    const orchestrator = getOrchestrator();
+    const itinerary = await generateCorridorItinerary(
+      trip.plan,
+      trip.request,
+      { tier: tier as UserTier, userId, requestId: crypto.randomUUID() },
+      {
+        generateItinerary: (orchestration) => orchestrator.generateItinerary(orchestration),
+        loadGroundingSpots: loadCityGroundingSpots,
+        scoreGroundingRelevance: scoreCityGroundingRelevance,
+      },
+    );
+
+    if (!await saveTripItinerary(supabase, id, trip.version, itinerary)) {
+      await refund();
+      return tripErrorResponse(409, "TRIP_CHANGED", "The trip changed while its itinerary was generating. Generate it again.");
+    }
+
+    return NextResponse.json(
+      { ok: true, tripId: id, version: trip.version, itinerary },
+      { headers: noStoreHeaders },
+    );
+  } catch (error) {
+    await refund();
+    if (error instanceof CorridorItineraryError) {
+      return tripErrorResponse(422, "GENERATION_FAILED", error.message);
+    }
+    console.error("[multi-city-trips] Itinerary generation failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to generate the trip itinerary.");
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { rateLimiters } from "@/lib/rate-limit";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { PlannerValidationError, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import {
+  classifyPlannerError,
+  isTripId,
+  isTripsApiEnabled,
+  noStoreHeaders,
+  readJsonBody,
+  toTripDto,
+  tripErrorResponse,
+  tripNotFoundResponse,
+  validationIssues,
+} from "@/lib/trips/api";
+import { getConfiguredTransportTimetables } from "@/lib/trips/transport-timetables";
+import {
+  TripStoreError,
+  UpdateTripRequestSchema,
+  deleteTrip,
+  describeTripChanges,
+  loadTrip,
+  renameTrip,
+  saveTripReplan,
+} from "@/lib/trips/trip-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.relaxed(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to view saved trips.");
+
+  const { id } = await params;
+  if (!isTripId(id)) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const trip = await loadTrip(supabase, userId, id);
+    if (!trip) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+    return NextResponse.json({ ok: true, trip: toTripDto(trip) }, { headers: noStoreHeaders });
+  } catch (error) {
+    console.error("[multi-city-trips] Load failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to load the trip.");
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.standard(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to edit trips.");
+
+  const { id } = await params;
+  if (!isTripId(id)) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+  try {
+    const body = await readJsonBody(request);
+    if (!body.ok) return body.response;
+
+    const parsed = UpdateTripRequestSchema.safeParse(body.value);
+    if (!parsed.success) {
+      return tripErrorResponse(400, "INVALID_REQUEST", "Request validation failed.", validationIssues(parsed.error.issues));
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const current = await loadTrip(supabase, userId, id);
+    if (!current) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+    // Only planner-relevant changes re-plan and append a version; a bare
+    // rename keeps the current version.
+    const changeSummary = parsed.data.trip
+      ? describeTripChanges(current.request, parsed.data.trip)
+      : null;
+
+    if (parsed.data.trip && changeSummary) {
+      let plan;
+      try {
+        plan = planCorridorTrip(parsed.data.trip, { timetables: getConfiguredTransportTimetables() });
+      } catch (error) {
+        if (error instanceof PlannerValidationError) {
+          const classified = classifyPlannerError(error);
+          return tripErrorResponse(422, classified.code, classified.message);
+        }
+        throw error;
+      }
+      await saveTripReplan(
+        supabase,
+        userId,
+        id,
+        parsed.data.title ?? null,
+        parsed.data.trip,
+        plan,
+        changeSummary,
+      );
+    } else if (parsed.data.title !== undefined && parsed.data.title !== current.title) {
+      const renamed = await renameTrip(supabase, userId, id, parsed.data.title);
+      if (!renamed) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+    }
+
+    const updated = await loadTrip(supabase, userId, id);
+    if (!updated) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+    return NextResponse.json(
+      { ok: true, trip: toTripDto(updated), replanned: Boolean(changeSummary) },
+      { headers: noStoreHeaders },
+    );
+  } catch (error) {
+    if (error instanceof TripStoreError && error.code === "NOT_FOUND") {
+      return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+    }
+    console.error("[multi-city-trips] Update failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to update the trip.");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.standard(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to delete trips.");
+
+  const { id } = await params;
+  if (!isTripId(id)) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const deleted = await deleteTrip(supabase, userId, id);
+    if (!deleted) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+    return NextResponse.json({ ok: true }, { headers: noStoreHeaders });
+  } catch (error) {
+    console.error("[multi-city-trips] Delete failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to delete the trip.");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { rateLimiters } from "@/lib/rate-limit";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import {
+  isTripId,
+  isTripsApiEnabled,
+  noStoreHeaders,
+  toTripVersionDto,
+  tripErrorResponse,
+  tripNotFoundResponse,
+} from "@/lib/trips/api";
+import { listTripVersions, loadTrip } from "@/lib/trips/trip-store";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.relaxed(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to view trip history.");
+
+  const { id } = await params;
+  if (!isTripId(id)) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const trip = await loadTrip(supabase, userId, id);
+    if (!trip) return tripErrorResponse(404, "NOT_FOUND", "Trip not found.");
+    const versions = await listTripVersions(supabase, id);
+    return NextResponse.json(
+      { ok: true, currentVersion: trip.version, versions: versions.map(toTripVersionDto) },
+      { headers: noStoreHeaders },
+    );
+  } catch (error) {
+    console.error("[multi-city-trips] Version history failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to load trip history.");
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { rateLimiters } from "@/lib/rate-limit";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { PlannerValidationError, planCorridorTrip } from "@/lib/trips/corridor-planner";
+import {
+  classifyPlannerError,
+  isTripsApiEnabled,
+  noStoreHeaders,
+  readJsonBody,
+  toPreviewDto,
+  tripErrorResponse,
+  tripNotFoundResponse,
+  validationIssues,
+} from "@/lib/trips/api";
+import { getConfiguredTransportTimetables } from "@/lib/trips/transport-timetables";
+import { CreateTripRequestSchema, createTrip, listTrips } from "@/lib/trips/trip-store";
+
+export async function GET(request: NextRequest) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.relaxed(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to view saved trips.");
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const trips = await listTrips(supabase, userId);
+    return NextResponse.json({ ok: true, trips }, { headers: noStoreHeaders });
+  } catch (error) {
+    console.error("[multi-city-trips] List failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to load saved trips.");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isTripsApiEnabled()) return tripNotFoundResponse();
+
+  const limited = await rateLimiters.standard(request);
+  if (limited) return limited;
+
+  const { userId } = await auth();
+  if (!userId) return tripErrorResponse(401, "UNAUTHORIZED", "Sign in to save trips.");
+
+  try {
+    const body = await readJsonBody(request);
+    if (!body.ok) return body.response;
+
+    const parsed = CreateTripRequestSchema.safeParse(body.value);
+    if (!parsed.success) {
+      return tripErrorResponse(400, "INVALID_REQUEST", "Request validation failed.", validationIssues(parsed.error.issues));
+    }
+
+    let plan;
+    try {
+      plan = planCorridorTrip(parsed.data.trip, { timetables: getConfiguredTransportTimetables() });
+    } catch (error) {
+      if (error instanceof PlannerValidationError) {
+        const classified = classifyPlannerError(error);
+        return tripErrorResponse(422, classified.code, classified.message);
+      }
+      throw error;
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const saved = await createTrip(supabase, userId, parsed.data.title, parsed.data.trip, plan);
+    return NextResponse.json(
+      {
+        ok: true,
+        trip: {
+          id: saved.tripId,
+          title: parsed.data.title,
+          version: saved.version,
+          plan: toPreviewDto(plan),
+        },
+      },
+      { status: 201, headers: noStoreHeaders },
+    );
+  } catch (error) {
+    console.error("[multi-city-trips] Create failed", error);
+    return tripErrorResponse(500, "INTERNAL", "Unable to save the trip.");
+  }
+}
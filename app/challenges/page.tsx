@@ -17,21 +17,28 @@ import {
     Flame,
     Map,
     Heart,
+    MapPin,
+    MessageSquare,
+    Share2,
+    CalendarClock,
+    Circle,
 } from "lucide-react";
 import Link from "next/link";
 import { useToast } from "@/hooks/use-toast";
 import { AppBackground } from "@/components/layout/app-background";
+import type { ChallengeEventType, ChallengeRule } from "@/lib/challenges/rules";
 
 interface Challenge {
     id: string;
     name: string;
     description: string;
     xpReward: number;
-    requirements: {
-        type: string;
-        count?: number;
-        days?: number;
-    };
+    requirements: ChallengeRule;
+    event: ChallengeEventType;
+    city: string | null;
+    startsAt: string | null;
+    endsAt: string | null;
+    steps: Array<{ label: string; current: number; total: number; isCompleted: boolean }>;
     progress: number;
     total: number;
     progressPercentage: number;
@@ -39,38 +46,52 @@ interface Challenge {
     canClaim: boolean;
 }
 
-function getChallengeIcon(type: string) {
-    switch (type) {
-        case "itinerary_count":
+function getChallengeIcon(event: ChallengeEventType | undefined) {
+    switch (event) {
+        case "itinerary_created":
             return <Map className="h-6 w-6" />;
-        case "saved_spots":
+        case "itinerary_shared":
+            return <Share2 className="h-6 w-6" />;
+        case "spot_saved":
             return <Heart className="h-6 w-6" />;
-        case "following_count":
-        case "followers_count":
+        case "review_posted":
+            return <MessageSquare className="h-6 w-6" />;
+        case "social_submission_approved":
+            return <MapPin className="h-6 w-6" />;
+        case "user_followed":
+        case "follower_gained":
             return <Users className="h-6 w-6" />;
-        case "streak":
+        case "streak_extended":
             return <Flame className="h-6 w-6" />;
         default:
             return <Target className="h-6 w-6" />;
     }
 }
 
-function getChallengeColor(type: string) {
-    switch (type) {
-        case "itinerary_count":
+function getChallengeColor(event: ChallengeEventType | undefined) {
+    switch (event) {
+        case "itinerary_created":
+        case "itinerary_shared":
             return "text-violet-500 bg-violet-500/10";
-        case "saved_spots":
+        case "spot_saved":
             return "text-red-500 bg-red-500/10";
-        case "following_count":
-        case "followers_count":
+        case "review_posted":
+        case "social_submission_approved":
+            return "text-emerald-500 bg-emerald-500/10";
+        case "user_followed":
+        case "follower_gained":
             return "text-blue-500 bg-blue-500/10";
-        case "streak":
+        case "streak_extended":
             return "text-orange-500 bg-orange-500/10";
         default:
             return "text-gray-500 bg-gray-500/10";
     }
 }
 
+function formatEndsAt(endsAt: string) {
+    return new Date(endsAt).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
 export default function ChallengesPage() {
     const [challenges, setChallenges] = useState<Challenge[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -218,10 +239,10 @@ export default function ChallengesPage() {
                                             <div className="flex items-start gap-4">
                                                 <div
                                                     className={`p-3 rounded-xl ${getChallengeColor(
-                                                        challenge.requirements.type
+                                                        challenge.event
                                                     )}`}
                                                 >
-                                                    {getChallengeIcon(challenge.requirements.type)}
+                                                    {getChallengeIcon(challenge.event)}
                                                 </div>
                                                 <div className="flex-1 min-w-0">
                                                     <div className="flex items-center justify-between gap-2 mb-1">
@@ -233,6 +254,41 @@ export default function ChallengesPage() {
                                                     <p className="text-sm text-muted-foreground mb-3">
                                                         {challenge.description}
                                                     </p>
+                                                    {(challenge.city || challenge.endsAt) && (
+                                                        <div className="flex flex-wrap gap-2 mb-3">
+                                                            {challenge.city && (
+                                                                <Badge variant="outline" className="gap-1">
+                                                                    <MapPin className="h-3 w-3" />
+                                                                    {challenge.city}
+                                                                </Badge>
+                                                            )}
+                                                            {challenge.endsAt && (
+                                                                <Badge variant="outline" className="gap-1">
+                                                                    <CalendarClock className="h-3 w-3" />
+                                                                    Ends {formatEndsAt(challenge.endsAt)}
+                                                                </Badge>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    {challenge.steps.length > 0 && (
+                                                        <ul className="space-y-1 mb-3">
+                                                            {challenge.steps.map((step, index) => (
+                                                                <li key={index} className="flex items-center gap-2 text-sm">
+                                                                    {step.isCompleted ? (
+                                                                        <CheckCircle className="h-4 w-4 shrink-0 text-violet-400" />
+                                                                    ) : (
+                                                                        <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                                                    )}
+                                                                    <span className={step.isCompleted ? "text-muted-foreground line-through" : ""}>
+                                                                        {step.label}
+                                                                    </span>
+                                                                    <span className="ml-auto text-xs text-muted-foreground">
+                                                                        {step.current}/{step.total}
+                                                                    </span>
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
                                                     <div className="space-y-2">
                                                         <div className="flex justify-between text-sm">
                                                             <span className="text-muted-foreground">Progress</span>
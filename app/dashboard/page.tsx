@@ -8,6 +8,7 @@ import { RecentStories } from "@/components/dashboard/recent-stories";
 import { MobileDashboardContent } from "@/components/dashboard/mobile-dashboard-content";
 import { OnboardingPanel } from "@/components/dashboard/onboarding-panel";
 import { AppBackground } from "@/components/layout/app-background";
+import { ActivityFeedList } from "@/components/feed/activity-feed";
 
 // Fetch user's recent itineraries
 async function getRecentItineraries() {
@@ -77,6 +78,14 @@ export default async function DashboardPage({
                                 />
                             </ErrorBoundary>
                         )}
+
+                        {/* Activity from followed travellers, beside the chat on wide screens */}
+                        <aside className="hidden xl:flex w-80 flex-shrink-0 flex-col min-h-0 ml-4 rounded-2xl border border-white/10 bg-[#0b0714]/65 backdrop-blur-xl overflow-hidden">
+                            <h2 className="px-4 py-3 border-b border-white/10 font-semibold">From people you follow</h2>
+                            <div className="flex-1 min-h-0 overflow-y-auto">
+                                <ActivityFeedList limit={10} />
+                            </div>
+                        </aside>
                     </div>
 
                     {/* Mobile/Tablet - Show useful content */}
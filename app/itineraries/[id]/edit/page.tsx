@@ -2,6 +2,7 @@ import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { createSupabaseAdmin } from "@/lib/supabase";
 import { EditForm } from "@/components/itineraries/edit-form";
+import { getItineraryAccess, toCollaborativeItinerary } from "@/lib/itineraries/collaboration";
 
 export default async function EditItineraryPage({
     params,
@@ -16,27 +17,20 @@ export default async function EditItineraryPage({
 
     const { id } = await params;
 
-    // Fetch itinerary from database
-    const supabase = createSupabaseAdmin();
-    const { data: itinerary, error } = await supabase
-        .from("itineraries")
-        .select("*")
-        .eq("id", id)
-        .single();
+    // Owners and invited collaborators only; viewers get a read-only editor
+    const access = await getItineraryAccess(createSupabaseAdmin(), id, userId).catch((error) => {
+        console.error("Error fetching itinerary:", error);
+        return null;
+    });
 
-    if (error || !itinerary) {
-        redirect("/itineraries");
-    }
-
-    // Check ownership
-    if (itinerary.clerk_user_id !== userId) {
+    if (!access) {
         redirect("/itineraries");
     }
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-violet-50 via-indigo-50 to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
             <div className="container mx-auto px-4 py-8">
-                <EditForm itinerary={itinerary} />
+                <EditForm itinerary={toCollaborativeItinerary(access.itinerary, access.role)} />
             </div>
         </div>
     );
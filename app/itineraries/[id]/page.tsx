@@ -11,6 +11,12 @@ import Link from "next/link";
 import { ShareDialog } from "@/components/itineraries/share-dialog";
 import { EmailDialog } from "@/components/itineraries/email-dialog";
 import { StoryDialog } from "@/components/itineraries/story-dialog";
+import { VersionHistoryDialog } from "@/components/itineraries/version-history-dialog";
+import { CollaboratorsDialog } from "@/components/itineraries/collaborators-dialog";
+import { CalendarDialog } from "@/components/itineraries/calendar-dialog";
+import { ExportMenu } from "@/components/itineraries/export-menu";
+import { OfflinePinButton } from "@/components/itineraries/offline-pin-button";
+import { BudgetDialog } from "@/components/itineraries/budget-dialog";
 import { ItineraryMap } from "@/components/itinerary/itinerary-map";
 import { ItineraryInsightsPanel } from "@/components/itinerary/itinerary-insights-panel";
 import { DayRouteSection } from "@/components/itinerary/day-route-section";
@@ -22,6 +28,13 @@ import { SubscriptionTier } from "@/lib/subscription";
 import { validateCityForItinerary } from "@/lib/cities";
 import { getDisplayCity } from "@/lib/city-images";
 import { buildItineraryDisplayPayload } from "@/lib/itineraries/display-payload";
+import { getItineraryAccess, toCollaborativeItinerary } from "@/lib/itineraries/collaboration";
+import {
+  loadItineraryBudgetReport,
+  summarizeItineraryBudget,
+  tripCurrency,
+  type ItineraryBudget,
+} from "@/lib/itineraries/budget";
 import type { Metadata } from "next";
 
 // Type definitions for itinerary data
@@ -90,9 +103,43 @@ async function getItinerary(id: string) {
     highlights: itinerary.highlights,
     estimatedCost: itinerary.estimated_cost,
     createdAt: itinerary.created_at,
+    ownerId: itinerary.clerk_user_id as string | null,
+    startDate: itinerary.start_date as string | null,
+    calendarToken: itinerary.calendar_token as string | null,
   };
 }
 
+// Signed-in viewer, if any
+async function getViewerId(): Promise<string | null> {
+  try {
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+// Planned vs. logged spend for people on the trip; null for everyone else
+async function getTripBudget(id: string, viewerId: string | null): Promise<ItineraryBudget | null> {
+  if (!viewerId) return null;
+
+  try {
+    const supabase = createSupabaseAdmin();
+    const access = await getItineraryAccess(supabase, id, viewerId);
+    if (!access) return null;
+
+    const report = await loadItineraryBudgetReport(
+      supabase,
+      toCollaborativeItinerary(access.itinerary, access.role),
+      access.itinerary.clerk_user_id
+    );
+    return report.budget;
+  } catch (error) {
+    console.error("Error loading trip budget:", error);
+    return null;
+  }
+}
+
 // Get user's subscription tier
 async function getUserSubscriptionTier(): Promise<SubscriptionTier> {
   try {
@@ -170,9 +217,10 @@ export default async function ItineraryViewPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
-  const [itinerary, userTier] = await Promise.all([
+  const [itinerary, userTier, viewerId] = await Promise.all([
     getItinerary(id),
     getUserSubscriptionTier(),
+    getViewerId(),
   ]);
 
   if (!itinerary) {
@@ -181,10 +229,21 @@ export default async function ItineraryViewPage({
 
   // Resolve city name (handles "Unknown City" from chat-saved itineraries)
   const displayCity = resolveCity(itinerary);
+  const isOwner = Boolean(viewerId && viewerId === itinerary.ownerId);
 
   const { dailyPlans: dailyPlansForDisplay, insights: itineraryInsights } =
     buildItineraryDisplayPayload<DayPlan>(itinerary.activities);
 
+  const currency = tripCurrency(displayCity);
+  const tripBudget = await getTripBudget(itinerary.id, viewerId);
+  const budget =
+    tripBudget ??
+    summarizeItineraryBudget({
+      dailyPlans: dailyPlansForDisplay,
+      estimatedCost: itinerary.estimatedCost,
+      currency,
+    });
+
   // Prepare JSON-LD structured data
   const jsonLd = {
     "@context": "https://schema.org",
@@ -259,20 +318,18 @@ export default async function ItineraryViewPage({
               Revise with Alley
             </Button>
           </Link>
-          <a
-            href={`/api/itineraries/${itinerary.id}/export`}
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Button
-              variant="outline"
-              size="sm"
+          <ExportMenu
+            itineraryId={itinerary.id}
+            className="h-10 shrink-0 gap-2 rounded-xl border-white/15 bg-white/[0.055] hover:bg-white/[0.09]"
+          />
+          {viewerId && (
+            <OfflinePinButton
+              itineraryId={itinerary.id}
+              title={itinerary.title}
+              city={displayCity}
               className="h-10 shrink-0 gap-2 rounded-xl border-white/15 bg-white/[0.055] hover:bg-white/[0.09]"
-            >
-              <Download className="h-4 w-4" />
-              Export
-            </Button>
-          </a>
+            />
+          )}
           <ShareDialog
             itineraryId={itinerary.id}
             itineraryTitle={itinerary.title}
@@ -288,6 +345,23 @@ export default async function ItineraryViewPage({
             city={displayCity}
             dailyPlans={dailyPlansForDisplay}
           />
+          {viewerId && tripBudget && (
+            <BudgetDialog
+              itineraryId={itinerary.id}
+              viewerId={viewerId}
+              currency={tripBudget.currency}
+              dailyPlans={dailyPlansForDisplay}
+            />
+          )}
+          {isOwner && <CollaboratorsDialog itineraryId={itinerary.id} />}
+          {isOwner && (
+            <CalendarDialog
+              itineraryId={itinerary.id}
+              startDate={itinerary.startDate}
+              calendarToken={itinerary.calendarToken}
+            />
+          )}
+          {isOwner && <VersionHistoryDialog itineraryId={itinerary.id} />}
         </div>
 
         {/* Interactive Map */}
@@ -312,6 +386,8 @@ export default async function ItineraryViewPage({
               title="Trip notes"
               description="Useful local context, transport notes, and practical details for the whole trip."
               className="border-violet-200/20 bg-[#1a102e]/92"
+              budget={budget}
+              showActual={Boolean(tripBudget)}
             />
           </aside>
 
@@ -381,11 +457,7 @@ export default async function ItineraryViewPage({
                 city={displayCity}
                 dailyPlans={dailyPlansForDisplay}
               />
-              <a
-                href={`/api/itineraries/${itinerary.id}/export`}
-                target="_blank"
-                rel="noopener noreferrer"
-              >
+              <a href={`/api/itineraries/${itinerary.id}/export?format=pdf`} download>
                 <Button className="gap-2 rounded-xl bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700">
                   <Download className="h-4 w-4" />
                   Download PDF
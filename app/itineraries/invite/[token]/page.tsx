@@ -0,0 +1,58 @@
+import Link from "next/link";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { CollaborationError, acceptItineraryInvite } from "@/lib/itineraries/collaboration";
+import { Button } from "@/components/ui/button";
+import { Users } from "lucide-react";
+
+export default async function ItineraryInvitePage({
+    params,
+}: {
+    params: Promise<{ token: string }>;
+}) {
+    const { token } = await params;
+    const { userId } = await auth();
+
+    if (!userId) {
+        redirect(`/sign-in?redirect_url=${encodeURIComponent(`/itineraries/invite/${token}`)}`);
+    }
+
+    let destination: string;
+    try {
+        const user = await currentUser();
+        const { itineraryId } = await acceptItineraryInvite(createSupabaseAdmin(), {
+            token,
+            userId,
+            displayName: user?.fullName || user?.username || null,
+        });
+        // Viewers land in the editor too; it is read-only for them but is
+        // where the group comments and votes
+        destination = `/itineraries/${itineraryId}/edit`;
+    } catch (error) {
+        if (!(error instanceof CollaborationError) || error.code === "DATABASE") {
+            throw error;
+        }
+        const problem = error.code === "EXPIRED"
+            ? "This invite has expired. Ask the trip owner for a new link."
+            : "This invite link isn't valid or has already been used.";
+        return (
+            <div className="max-w-md mx-auto p-8 text-center space-y-6">
+                <div className="flex justify-center">
+                    <div className="h-16 w-16 rounded-full bg-violet-100 dark:bg-violet-900/20 flex items-center justify-center">
+                        <Users className="h-8 w-8 text-violet-600 dark:text-violet-300" />
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <h2 className="text-2xl font-bold">Can&apos;t join this trip</h2>
+                    <p className="text-muted-foreground">{problem}</p>
+                </div>
+                <Button asChild variant="outline">
+                    <Link href="/itineraries">My itineraries</Link>
+                </Button>
+            </div>
+        );
+    }
+
+    redirect(destination);
+}
@@ -2,87 +2,84 @@ import { Suspense } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Trophy, Medal, Award, Crown, ArrowLeft, Flame } from "lucide-react";
-import { getRankTitle } from "@/lib/gamification";
-import { createSupabaseAdmin } from "@/lib/supabase";
+import {
+    Trophy,
+    Medal,
+    Award,
+    Crown,
+    ArrowLeft,
+    ArrowDown,
+    ArrowUp,
+    Flame,
+    Globe2,
+    MapPin,
+    Minus,
+    Users,
+} from "lucide-react";
+import { ENABLED_CITIES } from "@/lib/cities";
+import {
+    getLeaderboard,
+    getLeaderboardPeriod,
+    type Leaderboard,
+    type LeaderboardBoard,
+    type LeaderboardEntry,
+} from "@/lib/leaderboards";
 import { auth } from "@clerk/nextjs/server";
 import Link from "next/link";
 import type { Metadata } from "next";
 import { AppBackground } from "@/components/layout/app-background";
 import { GradientText } from "@/components/ui/gradient-text";
 
+const FILTER_CLASS =
+    "inline-flex items-center gap-1.5 rounded-full border border-border/40 bg-background/60 px-3 py-1 text-sm text-muted-foreground transition-colors hover:text-foreground";
+const FILTER_ACTIVE_CLASS = "border-violet-500/40 bg-violet-500/15 text-foreground";
+
 export const metadata: Metadata = {
     title: "Leaderboard - Localley",
     description: "See the top explorers on Localley. Compete with friends and climb the ranks!",
 };
 
-interface LeaderboardUser {
-    rank: number;
-    id: string;
-    clerk_id: string;
-    username: string | null;
-    xp: number;
-    level: number;
-    isCurrentUser: boolean;
-}
-
-async function getLeaderboard(): Promise<{
-    leaderboard: LeaderboardUser[];
-    currentUserRank: LeaderboardUser | null;
-}> {
-    const { userId } = await auth();
-    const supabase = createSupabaseAdmin();
+type LeaderboardScope = "global" | "city" | "friends";
 
-    // Get top 50 users
-    const { data: users, error } = await supabase
-        .from("users")
-        .select("id, clerk_id, username, xp, level")
-        .order("xp", { ascending: false })
-        .limit(50);
+const PERIOD_TABS: Array<{ board: LeaderboardBoard; label: string }> = [
+    { board: "week", label: "Week" },
+    { board: "month", label: "Month" },
+    { board: "season", label: "Season" },
+    { board: "all_time", label: "All time" },
+];
 
-    if (error) {
-        console.error("Leaderboard error:", error);
-        return { leaderboard: [], currentUserRank: null };
-    }
+const CITY_OPTIONS = ENABLED_CITIES.slice(0, 12);
 
-    const leaderboard: LeaderboardUser[] = (users || []).map((user, index) => ({
-        rank: index + 1,
-        id: user.id,
-        clerk_id: user.clerk_id,
-        username: user.username,
-        xp: user.xp || 0,
-        level: user.level || 1,
-        isCurrentUser: user.clerk_id === userId,
-    }));
+function leaderboardHref(board: LeaderboardBoard, scope: LeaderboardScope, city?: string | null) {
+    const params = new URLSearchParams({ period: board });
+    if (scope !== "global") params.set("type", scope);
+    if (scope === "city" && city) params.set("city", city);
+    return `/leaderboard?${params.toString()}`;
+}
 
-    // Find current user's rank if not in top 50
-    let currentUserRank: LeaderboardUser | null = null;
-    if (userId && !leaderboard.some((u) => u.isCurrentUser)) {
-        const { data: currentUser } = await supabase
-            .from("users")
-            .select("id, clerk_id, username, xp, level")
-            .eq("clerk_id", userId)
-            .single();
+function daysUntil(end: Date): number {
+    return Math.max(1, Math.ceil((end.getTime() - Date.now()) / 86_400_000));
+}
 
-        if (currentUser) {
-            const { count } = await supabase
-                .from("users")
-                .select("*", { count: "exact", head: true })
-                .gt("xp", currentUser.xp || 0);
+async function loadLeaderboard(
+    board: LeaderboardBoard,
+    scope: LeaderboardScope,
+    city: string | null,
+): Promise<Leaderboard | null> {
+    const { userId } = await auth();
 
-            currentUserRank = {
-                rank: (count || 0) + 1,
-                id: currentUser.id,
-                clerk_id: currentUser.clerk_id,
-                username: currentUser.username,
-                xp: currentUser.xp || 0,
-                level: currentUser.level || 1,
-                isCurrentUser: true,
-            };
-        }
+    try {
+        return await getLeaderboard({
+            board,
+            city: scope === "city" ? city : null,
+            friends: scope === "friends",
+            viewerClerkUserId: userId,
+            limit: 50,
+        });
+    } catch (error) {
+        console.error("Leaderboard error:", error);
+        return null;
     }
-
-    return { leaderboard, currentUserRank };
 }
 
 function getRankIcon(rank: number) {
@@ -111,8 +108,27 @@ function getRankBg(rank: number) {
     }
 }
 
-function LeaderboardEntry({ user }: { user: LeaderboardUser }) {
-    const rankTitle = getRankTitle(user.level);
+function RankChange({ change }: { change: number | null }) {
+    if (change === null) {
+        return <span className="text-[10px] font-semibold uppercase text-violet-500">New</span>;
+    }
+    if (change === 0) {
+        return <Minus className="h-3 w-3 text-muted-foreground" aria-label="No change" />;
+    }
+    return change > 0 ? (
+        <span className="flex items-center text-xs font-medium text-emerald-500" aria-label={`Up ${change}`}>
+            <ArrowUp className="h-3 w-3" />
+            {change}
+        </span>
+    ) : (
+        <span className="flex items-center text-xs font-medium text-rose-500" aria-label={`Down ${-change}`}>
+            <ArrowDown className="h-3 w-3" />
+            {-change}
+        </span>
+    );
+}
+
+function LeaderboardRow({ user }: { user: LeaderboardEntry }) {
     const displayName = user.username || `Explorer #${user.rank}`;
 
     return (
@@ -122,8 +138,9 @@ function LeaderboardEntry({ user }: { user: LeaderboardUser }) {
             }`}
         >
             {/* Rank */}
-            <div className="flex-shrink-0 w-10 flex justify-center">
+            <div className="flex-shrink-0 w-10 flex flex-col items-center gap-0.5">
                 {getRankIcon(user.rank)}
+                <RankChange change={user.rankChange} />
             </div>
 
             {/* Avatar */}
@@ -147,7 +164,7 @@ function LeaderboardEntry({ user }: { user: LeaderboardUser }) {
                     <Badge variant="secondary" className="text-xs">
                         Lv. {user.level}
                     </Badge>
-                    <span>{rankTitle}</span>
+                    <span>{user.title}</span>
                 </div>
             </div>
 
@@ -184,8 +201,18 @@ function LeaderboardSkeleton() {
     );
 }
 
-async function LeaderboardContent() {
-    const { leaderboard, currentUserRank } = await getLeaderboard();
+async function LeaderboardContent({
+    board,
+    scope,
+    city,
+}: {
+    board: LeaderboardBoard;
+    scope: LeaderboardScope;
+    city: string | null;
+}) {
+    const result = await loadLeaderboard(board, scope, city);
+    const leaderboard = result?.entries ?? [];
+    const currentUserRank = result?.currentUser ?? null;
 
     if (leaderboard.length === 0) {
         return (
@@ -195,7 +222,9 @@ async function LeaderboardContent() {
                         <Trophy className="h-16 w-16 text-muted-foreground/30 mx-auto mb-4" />
                         <h3 className="text-lg font-semibold mb-2">No explorers yet</h3>
                         <p className="text-muted-foreground">
-                            Be the first to earn XP and claim the top spot!
+                            {scope === "friends"
+                                ? "Follow other explorers to compete with them here."
+                                : "Be the first to earn XP and claim the top spot!"}
                         </p>
                     </div>
                 </CardContent>
@@ -274,7 +303,7 @@ async function LeaderboardContent() {
             {/* Full List */}
             <div className="space-y-3">
                 {leaderboard.map((user) => (
-                    <LeaderboardEntry key={user.id} user={user} />
+                    <LeaderboardRow key={user.id} user={user} />
                 ))}
             </div>
 
@@ -282,14 +311,31 @@ async function LeaderboardContent() {
             {currentUserRank && (
                 <div className="mt-6 pt-6 border-t border-dashed">
                     <p className="text-sm text-muted-foreground mb-3">Your Ranking</p>
-                    <LeaderboardEntry user={currentUserRank} />
+                    <LeaderboardRow user={currentUserRank} />
                 </div>
             )}
         </div>
     );
 }
 
-export default function LeaderboardPage() {
+export default async function LeaderboardPage({
+    searchParams,
+}: {
+    searchParams: Promise<{ period?: string; type?: string; city?: string }>;
+}) {
+    const params = await searchParams;
+    const board = PERIOD_TABS.some((tab) => tab.board === params.period)
+        ? (params.period as LeaderboardBoard)
+        : "season";
+    const city = params.city || null;
+    const scope: LeaderboardScope = params.type === "friends"
+        ? "friends"
+        : params.type === "city" && city
+            ? "city"
+            : "global";
+    const period = getLeaderboardPeriod(board);
+    const daysLeft = period.end ? daysUntil(period.end) : null;
+
     return (
         <AppBackground ambient className="min-h-screen">
             <div className="max-w-3xl mx-auto p-4 pb-24 space-y-6 animate-in fade-in duration-500 md:pb-8">
@@ -321,15 +367,58 @@ export default function LeaderboardPage() {
                     <div className="flex items-center justify-center gap-2 text-sm">
                         <Flame className="h-4 w-4 text-orange-500" />
                         <span className="text-muted-foreground">
-                            Earn XP by creating itineraries, saving spots, and exploring!
+                            {period.label}
+                            {daysLeft !== null && ` · ${daysLeft} ${daysLeft === 1 ? "day" : "days"} left`}
+                            {board === "season" && " · the top three win bonus XP"}
                         </span>
                     </div>
                 </CardContent>
             </Card>
 
+            {/* Filters */}
+            <div className="space-y-3">
+                <div className="flex flex-wrap justify-center gap-2">
+                    {PERIOD_TABS.map((tab) => (
+                        <Link
+                            key={tab.board}
+                            href={leaderboardHref(tab.board, scope, city)}
+                            className={`${FILTER_CLASS} ${tab.board === board ? FILTER_ACTIVE_CLASS : ""}`}
+                        >
+                            {tab.label}
+                        </Link>
+                    ))}
+                </div>
+                <div className="flex flex-wrap justify-center gap-2">
+                    <Link
+                        href={leaderboardHref(board, "global")}
+                        className={`${FILTER_CLASS} ${scope === "global" ? FILTER_ACTIVE_CLASS : ""}`}
+                    >
+                        <Globe2 className="h-3.5 w-3.5" />
+                        Everyone
+                    </Link>
+                    <Link
+                        href={leaderboardHref(board, "friends")}
+                        className={`${FILTER_CLASS} ${scope === "friends" ? FILTER_ACTIVE_CLASS : ""}`}
+                    >
+                        <Users className="h-3.5 w-3.5" />
+                        Friends
+                    </Link>
+                    {CITY_OPTIONS.map((option) => (
+                        <Link
+                            key={option.slug}
+                            href={leaderboardHref(board, "city", option.slug)}
+                            className={`${FILTER_CLASS} ${scope === "city" && city === option.slug ? FILTER_ACTIVE_CLASS : ""}`}
+                        >
+                            <MapPin className="h-3.5 w-3.5" />
+                            {option.name}
+                        </Link>
+                    ))}
+                </div>
+            </div>
+
             {/* Leaderboard */}
-            <Suspense fallback={<LeaderboardSkeleton />}>
-                <LeaderboardContent />
+            <Suspense key={`${board}:${scope}:${city ?? ""}`} fallback={<LeaderboardSkeleton />}>
+                <LeaderboardContent board={board} scope={scope} city={city} />
             </Suspense>
             </div>
         </AppBackground>
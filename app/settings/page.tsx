@@ -16,6 +16,7 @@ import Link from "next/link";
 import { BillingPortalButton } from "@/components/subscription/billing-portal-button";
 import { EmailPreferencesSection } from "@/components/settings/email-preferences";
 import { NotificationPreferencesSection } from "@/components/settings/notification-preferences";
+import { ActivityPrivacySection } from "@/components/settings/activity-privacy";
 
 const LIQUID_CARD = "rounded-2xl border-white/10 bg-white/[0.055] shadow-2xl shadow-violet-950/20 backdrop-blur-xl";
 const LIQUID_CARD_SOFT = "rounded-2xl border-white/10 bg-white/[0.04] shadow-xl shadow-violet-950/10 backdrop-blur-xl";
@@ -442,6 +443,17 @@ export default async function SettingsPage() {
                 </CardContent>
             </Card>
 
+            {/* Activity Privacy */}
+            <Card className={LIQUID_CARD_SOFT}>
+                <CardHeader>
+                    <CardTitle>Activity Privacy</CardTitle>
+                    <CardDescription>Choose what people who follow you see in their feed</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ActivityPrivacySection />
+                </CardContent>
+            </Card>
+
             {/* App Preferences */}
             <Card className={LIQUID_CARD_SOFT}>
                 <CardHeader>
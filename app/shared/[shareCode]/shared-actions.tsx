@@ -59,11 +59,7 @@ export function SharedActions({ itineraryId, shareCode }: SharedActionsProps) {
                     </>
                 )}
             </Button>
-            <a
-                href={`/api/itineraries/${itineraryId}/export`}
-                target="_blank"
-                rel="noopener noreferrer"
-            >
+            <a href={`/api/itineraries/${itineraryId}/export?format=pdf`} download>
                 <Button variant="outline" className="gap-2">
                     <Download className="h-4 w-4" />
                     Download
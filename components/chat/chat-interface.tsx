@@ -13,6 +13,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
 import { useLiveAnnouncer } from "@/components/accessibility/live-region";
 import { isItineraryContent } from "@/lib/chat-formatting";
+import type { ChatToolCall } from "@/lib/api-client";
+import type { ChatItinerary } from "@/lib/itineraries/chat-itinerary";
 import {
   useCreateConversation,
   useSaveMessage,
@@ -26,6 +28,8 @@ interface Message {
   id: string; // Stable key for React
   role: "user" | "assistant";
   content: string;
+  toolCalls?: ChatToolCall[];
+  itinerary?: ChatItinerary;
 }
 
 interface ItineraryContext {
@@ -79,6 +83,7 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
   const [activeItinerary, setActiveItinerary] = useState<ItineraryContext | undefined>(itineraryContext);
   const [chatError, setChatError] = useState<string | null>(null);
   const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
@@ -106,10 +111,18 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
     if (initialConversationId && loadedMessages && loadedMessages.length > 0 && !historyLoaded) {
       setCurrentConversationId(initialConversationId);
       setMessages(
-        loadedMessages.map((msg: { id?: string; role: string; content: string }) => ({
+        loadedMessages.map((msg: {
+          id?: string;
+          role: string;
+          content: string;
+          tool_calls?: ChatToolCall[] | null;
+          itinerary?: ChatItinerary | null;
+        }) => ({
           id: msg.id || generateMessageId(),
           role: msg.role as "user" | "assistant",
           content: msg.content,
+          ...(msg.tool_calls && { toolCalls: msg.tool_calls }),
+          ...(msg.itinerary && { itinerary: msg.itinerary }),
         }))
       );
       setHistoryLoaded(true);
@@ -117,6 +130,8 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
   }, [initialConversationId, loadedMessages, historyLoaded]);
 
   const isLoading = sendChatMutation.isPending || reviseItineraryMutation.isPending;
+  // The skeleton only covers the wait for the first token of a streamed reply
+  const isAwaitingReply = isLoading && !messages.some((message) => message.id === streamingMessageId);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -142,7 +157,7 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
     });
   };
 
-  const saveMessage = async (role: string, content: string) => {
+  const saveMessage = async (role: string, content: string, itinerary?: ChatItinerary) => {
     if (!currentConversationId) {
       // Create new conversation first
       createConversationMutation.mutate(content.substring(0, 50), {
@@ -153,6 +168,7 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
             conversationId: conversation.id,
             role,
             content,
+            itinerary,
           });
         },
       });
@@ -162,6 +178,7 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
         conversationId: currentConversationId,
         role,
         content,
+        itinerary,
       });
     }
   };
@@ -196,8 +213,11 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
       reviseItineraryMutation.mutate(
         { id: activeItinerary.id, revisionRequest: userMessage },
         {
-          onSuccess: () => {
-            const assistantMessage = `Great! I've updated "${activeItinerary.title}" based on your request. The changes have been saved. Would you like to make any other changes?`;
+          onSuccess: (revision) => {
+            const changeList = revision.changes?.length
+              ? `\n\n${revision.changes.map((change) => `- ${change}`).join("\n")}\n\n`
+              : " ";
+            const assistantMessage = `Great! I've updated "${activeItinerary.title}" based on your request.${changeList}The changes have been saved, and you can undo them from the itinerary's history. Would you like to make any other changes?`;
             setMessages((prev) => [...prev, { id: generateMessageId(), role: "assistant", content: assistantMessage }]);
             saveMessage("assistant", assistantMessage);
             announce(`Alley says: ${assistantMessage.substring(0, 150)}`);
@@ -215,20 +235,58 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
         }
       );
     } else {
-      // Normal chat flow - prepare messages for API (without id field)
-      const apiMessages = [...messages, userMessageObj].map(({ role, content }) => ({ role, content }));
+      // Normal chat flow - prepare messages for API (without id field). A saved
+      // conversation's history is loaded server-side, so only the new turn is sent.
+      const apiMessages = (currentConversationId ? [userMessageObj] : [...messages, userMessageObj]).map(({ role, content }) => ({
+        role,
+        content,
+      }));
 
       // Pass city context if available from itinerary context prop
       const cityContext = itineraryContext?.city || undefined;
 
-      sendChatMutation.mutate({ messages: apiMessages, city: cityContext }, {
+      const replyId = generateMessageId();
+      setStreamingMessageId(replyId);
+
+      // Tokens land in one assistant message, created when the first arrives
+      const appendDelta = (delta: string) => {
+        setMessages((prev) =>
+          prev.some((message) => message.id === replyId)
+            ? prev.map((message) =>
+                message.id === replyId ? { ...message, content: message.content + delta } : message
+              )
+            : [...prev, { id: replyId, role: "assistant", content: delta }]
+        );
+      };
+
+      // Alley can read and edit the itinerary this chat saved
+      sendChatMutation.mutate({
+        messages: apiMessages,
+        city: cityContext,
+        itineraryId: linkedItineraryId,
+        conversationId: currentConversationId || undefined,
+        onDelta: appendDelta,
+      }, {
         onSuccess: (data) => {
           const assistantMessage = data.message;
-          setMessages((prev) => [...prev, { id: generateMessageId(), role: "assistant", content: assistantMessage }]);
-          saveMessage("assistant", assistantMessage);
+          const reply: Message = {
+            id: replyId,
+            role: "assistant",
+            content: assistantMessage,
+            toolCalls: data.toolCalls,
+            itinerary: data.itinerary,
+          };
+          setMessages((prev) =>
+            prev.some((message) => message.id === replyId)
+              ? prev.map((message) => (message.id === replyId ? reply : message))
+              : [...prev, reply]
+          );
+          // Replies in a saved conversation were stored by the server with their tool calls
+          if (!data.messageId) saveMessage("assistant", assistantMessage, data.itinerary);
           announce(`Alley says: ${assistantMessage.substring(0, 150)}`);
         },
         onError: (error) => {
+          // A partial reply stays visible; the apology follows it
           const errorMessage = "Oops! I tripped over a cobblestone. Can you say that again?";
           setMessages((prev) => [...prev, { id: generateMessageId(), role: "assistant", content: errorMessage }]);
           setChatError(error.message || "Failed to send message");
@@ -373,7 +431,7 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
                 </Avatar>
                 {isItinerary ? (
                   <div className="flex-1 min-w-0">
-                    <FormattedMessage content={message.content} role={message.role} conversationId={currentConversationId || undefined} />
+                    <FormattedMessage content={message.content} role={message.role} itinerary={message.itinerary} conversationId={currentConversationId || undefined} />
                   </div>
                 ) : (
                   <div
@@ -384,13 +442,13 @@ export function ChatInterface({ className, itineraryContext, selectedTemplate, c
                         : "bg-muted/50 text-foreground border border-border/40 max-w-[85%]"
                     )}
                   >
-                    <FormattedMessage content={message.content} role={message.role} conversationId={currentConversationId || undefined} />
+                    <FormattedMessage content={message.content} role={message.role} itinerary={message.itinerary} conversationId={currentConversationId || undefined} />
                   </div>
                 )}
               </div>
             );
           })}
-          {isLoading && <ChatMessageSkeleton />}
+          {isAwaitingReply && <ChatMessageSkeleton />}
           <div ref={scrollRef} />
 
           {/* Quick Action Buttons - Inside scroll area so they scroll with messages */}
@@ -3,18 +3,24 @@
 import { parseMessageContent, MessageSection, isItineraryContent } from "@/lib/chat-formatting";
 import { Clock, MapPin, Calendar } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { stripChatItineraryBlock, type ChatItinerary } from "@/lib/itineraries/chat-itinerary";
 import { ItineraryPreview } from "./itinerary-preview";
 
 interface FormattedMessageProps {
     content: string;
     role: "user" | "assistant";
+    /** Structured itinerary the reply carried, if any */
+    itinerary?: ChatItinerary;
     conversationId?: string;
 }
 
-export function FormattedMessage({ content, role, conversationId }: FormattedMessageProps) {
+export function FormattedMessage({ content: rawContent, role, itinerary, conversationId }: FormattedMessageProps) {
+    // A streaming reply may still contain the itinerary JSON block
+    const content = stripChatItineraryBlock(rawContent);
+
     // If it's an itinerary from assistant, show the preview
-    if (isItineraryContent(content) && role === "assistant") {
-        return <ItineraryPreview content={content} conversationId={conversationId} />;
+    if (role === "assistant" && (itinerary || isItineraryContent(content))) {
+        return <ItineraryPreview content={content} itinerary={itinerary} conversationId={conversationId} />;
     }
 
     // Strip markdown formatting for display
@@ -8,16 +8,15 @@ import { useToast } from "@/hooks/use-toast";
 import { ItineraryInsightsPanel } from "@/components/itinerary/itinerary-insights-panel";
 import { CityImageAvatar } from "@/components/ui/city-image";
 import { usePlacePhoto } from "@/hooks/use-place-photo";
-import {
-    cleanChatItineraryDescription,
-    getChatTipKind,
-    parseChatItineraryPreview,
-} from "@/lib/itineraries/chat-preview-parser";
+import { getChatTipKind } from "@/lib/itineraries/chat-preview-parser";
+import { chatItineraryFromMarkdown, type ChatItinerary } from "@/lib/itineraries/chat-itinerary";
 import type { ItineraryInsight } from "@/lib/itineraries/normalize-daily-plans";
-import type { ParsedChatActivity } from "@/lib/itineraries/chat-preview-parser";
+import type { Activity, DailyPlan } from "@/lib/llm/types";
 
 interface ItineraryPreviewProps {
     content: string;
+    /** Structured itinerary from the reply; legacy messages fall back to parsing `content` */
+    itinerary?: ChatItinerary;
     conversationId?: string;
 }
 
@@ -42,14 +41,13 @@ export function buildChatPreviewInsights(tips: string[]): ItineraryInsight[] {
     }, []);
 }
 
-function getDayTheme(dayTitle: string): string {
-    const match = dayTitle.match(/^Day\s+\d+\s*[:\-\u2013\u2014]\s*(.+)$/iu);
-    return match?.[1]?.trim() || dayTitle;
+function getDayTitle(day: DailyPlan): string {
+    return `Day ${day.day}: ${day.theme}`;
 }
 
-function getDayRouteSummary(activities: ParsedChatActivity[]): string {
+function getDayRouteSummary(activities: Activity[]): string {
     const names = activities
-        .map((activity) => activity.title.trim())
+        .map((activity) => activity.name.trim())
         .filter(Boolean);
 
     if (names.length === 0) return "No stops yet";
@@ -63,13 +61,13 @@ function ChatPreviewActivityImage({
     city,
     icon: Icon,
 }: {
-    activity: ParsedChatActivity;
+    activity: Activity;
     city: string;
     icon: LucideIcon;
 }) {
     const [failedImage, setFailedImage] = useState<string | null>(null);
-    const placeData = usePlacePhoto(activity.title, city, {
-        enabled: Boolean(activity.title && city && city !== "Unknown City"),
+    const placeData = usePlacePhoto(activity.name, city, {
+        enabled: Boolean(activity.name && city && city !== "Unknown City"),
     });
     const photoUrl =
         placeData.photoUrl && placeData.photoUrl !== failedImage
@@ -109,53 +107,17 @@ function ChatPreviewActivityImage({
     );
 }
 
-export function ItineraryPreview({ content, conversationId }: ItineraryPreviewProps) {
+export function ItineraryPreview({ content, itinerary, conversationId }: ItineraryPreviewProps) {
     const [isSaved, setIsSaved] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const { toast } = useToast();
 
-    const { title, city, days, tips } = parseChatItineraryPreview(content);
+    const { title, city, dailyPlans: days, tips = [] } = itinerary ?? chatItineraryFromMarkdown(content);
     const insights = buildChatPreviewInsights(tips);
 
     const handleSave = async () => {
         setIsSaving(true);
         try {
-            const activities = days.map((day, index) => ({
-                day: index + 1,
-                theme: getDayTheme(day.day),
-                activities: day.activities.map((act, actIndex) => {
-                    let extractedAddress = "";
-                    const addressLineMatch = act.description.match(/(?:Address|Location|Where)\s*[:\-\u2013\u2014]\s*(.+?)(?:\n|$)/iu);
-                    if (addressLineMatch) {
-                        extractedAddress = addressLineMatch[1].trim();
-                    } else {
-                        const locatedAtMatch = act.description.match(/Located at\s+([^.]+)/i);
-                        if (locatedAtMatch) {
-                            extractedAddress = locatedAtMatch[1].trim();
-                        } else {
-                            const inMatch = act.description.match(/\bin\s+([A-Z][^,.]+(?:,\s*[A-Z][^,.]+)?)/);
-                            if (inMatch) {
-                                extractedAddress = `${inMatch[1].trim()}, ${city}`;
-                            }
-                        }
-                    }
-
-                    const cleanedDescription = cleanChatItineraryDescription(act.description);
-
-                    return {
-                        time: `${9 + actIndex * 2}:00 AM`,
-                        type: actIndex < 2 ? "morning" : actIndex < 4 ? "afternoon" : "evening",
-                        name: act.title,
-                        address: act.address || extractedAddress || `${act.title}, ${city}`,
-                        description: cleanedDescription || act.title,
-                        category: "attraction",
-                        localleyScore: act.type === 'hidden-gem' ? 6 : act.type === 'local-favorite' ? 5 : 4,
-                        duration: "1-2 hours",
-                        cost: "$10-30"
-                    };
-                })
-            }));
-
             const response = await fetch('/api/itineraries/save', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -163,7 +125,7 @@ export function ItineraryPreview({ content, conversationId }: ItineraryPreviewPr
                     title,
                     city,
                     days: days.length,
-                    activities,
+                    activities: days,
                     insights,
                     localScore: 7,
                 }),
@@ -204,22 +166,20 @@ export function ItineraryPreview({ content, conversationId }: ItineraryPreviewPr
         }
     };
 
-    const getTypeBadge = (type: string) => {
-        switch (type) {
-            case 'hidden-gem': return { label: 'Hidden Gem', className: 'text-violet-100 bg-violet-500/15 border-violet-300/25' };
-            case 'local-favorite': return { label: 'Local Fave', className: 'text-sky-100 bg-sky-500/15 border-sky-300/25' };
-            case 'mixed': return { label: 'Mixed', className: 'text-amber-100 bg-amber-500/15 border-amber-300/25' };
-            default: return null;
-        }
+    // Badges follow the Localley Scale
+    const getScoreBadge = (score: number) => {
+        if (score >= 6) return { label: 'Legendary', className: 'text-violet-100 bg-violet-500/15 border-violet-300/25' };
+        if (score === 5) return { label: 'Hidden Gem', className: 'text-violet-100 bg-violet-500/15 border-violet-300/25' };
+        if (score === 4) return { label: 'Local Fave', className: 'text-sky-100 bg-sky-500/15 border-sky-300/25' };
+        if (score === 3) return { label: 'Mixed', className: 'text-amber-100 bg-amber-500/15 border-amber-300/25' };
+        return null;
     };
 
-    const getTypeIcon = (type: string) => {
-        switch (type) {
-            case 'hidden-gem': return Gem;
-            case 'local-favorite': return Star;
-            case 'mixed': return Sparkles;
-            default: return MapPin;
-        }
+    const getScoreIcon = (score: number) => {
+        if (score >= 5) return Gem;
+        if (score === 4) return Star;
+        if (score === 3) return Sparkles;
+        return MapPin;
     };
 
     return (
@@ -305,8 +265,8 @@ export function ItineraryPreview({ content, conversationId }: ItineraryPreviewPr
                                         {dayIndex + 1}
                                     </span>
                                     <div className="min-w-0 flex-1">
-                                        <h4 className="min-w-0 break-words text-sm font-semibold leading-snug text-white sm:truncate" title={day.day}>
-                                            {day.day}
+                                        <h4 className="min-w-0 break-words text-sm font-semibold leading-snug text-white sm:truncate" title={getDayTitle(day)}>
+                                            {getDayTitle(day)}
                                         </h4>
                                         <p className="mt-0.5 line-clamp-1 text-xs leading-relaxed text-violet-50/58">
                                             {getDayRouteSummary(day.activities)}
@@ -326,9 +286,9 @@ export function ItineraryPreview({ content, conversationId }: ItineraryPreviewPr
                             {/* Activities */}
                             <div className="space-y-2 p-2 sm:p-3">
                                 {day.activities.map((activity, actIndex) => {
-                                    const badge = getTypeBadge(activity.type);
-                                    const desc = cleanChatItineraryDescription(activity.description);
-                                    const TypeIcon = getTypeIcon(activity.type);
+                                    const badge = getScoreBadge(activity.localleyScore);
+                                    const desc = activity.description;
+                                    const TypeIcon = getScoreIcon(activity.localleyScore);
 
                                     return (
                                         <div key={actIndex} className="relative rounded-lg border border-white/10 bg-white/[0.04] p-2.5 shadow-sm shadow-violet-950/10 transition-colors hover:border-violet-300/24 hover:bg-white/[0.06] sm:p-3">
@@ -348,7 +308,7 @@ export function ItineraryPreview({ content, conversationId }: ItineraryPreviewPr
                                                 <div className="min-w-0 flex-1">
                                                     <div className="flex min-w-0 flex-wrap items-center gap-1.5">
                                                         <h5 className="min-w-0 break-words text-sm font-semibold leading-snug text-white sm:text-[15px]">
-                                                            {activity.title}
+                                                            {activity.name}
                                                         </h5>
                                                         {badge && (
                                                             <span className={`rounded-full border px-1.5 py-0.5 text-[10px] font-medium ${badge.className}`}>
@@ -3,11 +3,12 @@
 import { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { MapPin, Plus, Compass, Sparkles, Calendar, ChevronRight, ArrowRight } from "lucide-react";
+import { MapPin, Plus, Compass, Sparkles, Calendar, ChevronRight, ArrowRight, Users } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { getCityImageUrl } from "@/lib/city-images";
 import { SUPPORTED_CITIES } from "@/lib/supported-cities";
 import { CityImageAvatar } from "@/components/ui/city-image";
+import { ActivityFeedList } from "@/components/feed/activity-feed";
 
 interface RecentItinerary {
     id: string;
@@ -235,6 +236,19 @@ export function MobileDashboardContent({ itineraries }: MobileDashboardContentPr
                 </div>
             )}
 
+            {/* Activity from followed travellers */}
+            <div>
+                <div className="flex items-center gap-2 mb-4">
+                    <div className="h-5 w-5 rounded-full bg-gradient-to-br from-violet-500 to-indigo-500 flex items-center justify-center">
+                        <Users className="h-3 w-3 text-white" />
+                    </div>
+                    <h2 className="font-semibold text-lg">From People You Follow</h2>
+                </div>
+                <div className="rounded-2xl border border-white/10 bg-white/[0.055] backdrop-blur-xl overflow-hidden">
+                    <ActivityFeedList limit={5} />
+                </div>
+            </div>
+
             {/* Explore Cities with premium grid */}
             <div>
                 <div className="flex items-center gap-2 mb-4">
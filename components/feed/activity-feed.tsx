@@ -0,0 +1,129 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { MapPin, Route, Star, Trophy, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActivityFeed } from "@/hooks/use-queries";
+import type { ActivityFeedItem, ActivityKind } from "@/lib/activity-feed";
+import { cn } from "@/lib/utils";
+
+const KIND_META: Record<ActivityKind, { verb: string; icon: typeof Star; color: string }> = {
+    itinerary_published: { verb: "published", icon: Route, color: "text-violet-400" },
+    spot_reviewed: { verb: "reviewed", icon: Star, color: "text-amber-400" },
+    spot_submitted: { verb: "added", icon: MapPin, color: "text-emerald-400" },
+    challenge_completed: { verb: "completed", icon: Trophy, color: "text-rose-400" },
+};
+
+function ActivityFeedRow({ item, onNavigate }: { item: ActivityFeedItem; onNavigate?: () => void }) {
+    const { verb, icon: Icon, color } = KIND_META[item.kind];
+
+    return (
+        <Link
+            href={item.href}
+            onClick={onNavigate}
+            className="flex items-start gap-3 p-3 hover:bg-muted/50 transition-colors"
+        >
+            <div className={cn("flex-shrink-0 mt-0.5", color)}>
+                <Icon className="h-5 w-5" />
+            </div>
+            <div className="flex-1 min-w-0">
+                <p className="text-sm leading-tight">
+                    <span className="font-medium">{item.actor.username}</span>{" "}
+                    <span className="text-muted-foreground">{verb}</span>{" "}
+                    <span className="font-medium">{item.title}</span>
+                </p>
+                {(item.detail || item.rating) && (
+                    <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
+                        {item.rating ? `${"★".repeat(item.rating)} ` : ""}
+                        {item.detail}
+                    </p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(item.occurredAt), { addSuffix: true })}
+                    {item.city && ` · ${item.city}`}
+                </p>
+            </div>
+        </Link>
+    );
+}
+
+function ActivityFeedSkeleton() {
+    return (
+        <div className="flex items-start gap-3 p-3">
+            <Skeleton className="h-5 w-5 rounded-full" />
+            <div className="flex-1 space-y-2">
+                <Skeleton className="h-4 w-3/4" />
+                <Skeleton className="h-3 w-1/4" />
+            </div>
+        </div>
+    );
+}
+
+interface ActivityFeedListProps {
+    limit?: number;
+    /** Called when an item is opened, e.g. to close the popover it sits in */
+    onNavigate?: () => void;
+    className?: string;
+}
+
+/**
+ * What the people you follow have been up to, newest first
+ */
+export function ActivityFeedList({ limit = 20, onNavigate, className }: ActivityFeedListProps) {
+    const { data, isLoading, isError, hasNextPage, fetchNextPage, isFetchingNextPage } = useActivityFeed({ limit });
+    const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+    if (isLoading) {
+        return (
+            <div className={cn("divide-y", className)}>
+                {[...Array(4)].map((_, i) => (
+                    <ActivityFeedSkeleton key={i} />
+                ))}
+            </div>
+        );
+    }
+
+    if (isError || items.length === 0) {
+        return (
+            <div className={cn("flex flex-col items-center justify-center py-10 px-4 text-center text-muted-foreground", className)}>
+                <Users className="h-10 w-10 mb-2 opacity-50" />
+                <p className="text-sm">
+                    {isError ? "Couldn't load activity right now" : "Nothing from people you follow yet"}
+                </p>
+                {!isError && (
+                    <Link
+                        href="/leaderboard"
+                        onClick={onNavigate}
+                        className="text-xs text-violet-400 hover:text-violet-300 mt-1"
+                    >
+                        Find travellers to follow
+                    </Link>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className={cn("divide-y", className)}>
+            {items.map((item) => (
+                <ActivityFeedRow key={item.id} item={item} onNavigate={onNavigate} />
+            ))}
+
+            {hasNextPage && (
+                <div className="p-2">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => fetchNextPage()}
+                        disabled={isFetchingNextPage}
+                    >
+                        {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,12 @@
 "use client";
 
-import { useState } from "react";
+import { useState, type ReactNode } from "react";
 import { Input } from "@/components/ui/input";
 import { PlaceAutocomplete } from "@/components/ui/place-autocomplete";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { GripVertical, Trash2, Copy, Edit2, Check, X } from "lucide-react";
+import { GripVertical, Trash2, Copy, Edit2, Check, X, Pencil } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
 interface Activity {
@@ -27,6 +27,13 @@ interface ActivityEditorProps {
     onDelete: (index: number) => void;
     onDuplicate: (index: number) => void;
     dragHandleProps?: any;
+    /** Hide the edit, duplicate, delete and drag controls */
+    readOnly?: boolean;
+    /** Names of collaborators who have this activity open */
+    editors?: string[];
+    onEditingChange?: (editing: boolean) => void;
+    /** Rendered under the activity, e.g. comments and votes */
+    footer?: ReactNode;
 }
 
 export function ActivityEditor({
@@ -36,18 +43,30 @@ export function ActivityEditor({
     onDelete,
     onDuplicate,
     dragHandleProps,
+    readOnly = false,
+    editors = [],
+    onEditingChange,
+    footer,
 }: ActivityEditorProps) {
     const [isEditing, setIsEditing] = useState(false);
     const [editedActivity, setEditedActivity] = useState(activity);
 
+    const handleEdit = () => {
+        setEditedActivity(activity);
+        setIsEditing(true);
+        onEditingChange?.(true);
+    };
+
     const handleSave = () => {
         onUpdate(index, editedActivity);
         setIsEditing(false);
+        onEditingChange?.(false);
     };
 
     const handleCancel = () => {
         setEditedActivity(activity);
         setIsEditing(false);
+        onEditingChange?.(false);
     };
 
     if (!isEditing) {
@@ -57,7 +76,11 @@ export function ActivityEditor({
                     {/* Drag Handle */}
                     <div
                         {...dragHandleProps}
-                        className="cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground mt-1"
+                        className={
+                            readOnly
+                                ? "hidden"
+                                : "cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground mt-1"
+                        }
                     >
                         <GripVertical className="h-5 w-5" />
                     </div>
@@ -73,34 +96,43 @@ export function ActivityEditor({
                                     </p>
                                 )}
                             </div>
-                            <div className="flex gap-1 flex-shrink-0">
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => setIsEditing(true)}
-                                    className="h-8 w-8 p-0"
-                                >
-                                    <Edit2 className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => onDuplicate(index)}
-                                    className="h-8 w-8 p-0"
-                                >
-                                    <Copy className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => onDelete(index)}
-                                    className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                                >
-                                    <Trash2 className="h-4 w-4" />
-                                </Button>
-                            </div>
+                            {!readOnly && (
+                                <div className="flex gap-1 flex-shrink-0">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={handleEdit}
+                                        className="h-8 w-8 p-0"
+                                    >
+                                        <Edit2 className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => onDuplicate(index)}
+                                        className="h-8 w-8 p-0"
+                                    >
+                                        <Copy className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => onDelete(index)}
+                                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            )}
                         </div>
 
+                        {editors.length > 0 && (
+                            <Badge variant="secondary" className="gap-1 mb-2 bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200">
+                                <Pencil className="h-3 w-3" />
+                                {editors.join(", ")} {editors.length === 1 ? "is" : "are"} editing
+                            </Badge>
+                        )}
+
                         {activity.description && (
                             <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
                                 {activity.description}
@@ -137,6 +169,8 @@ export function ActivityEditor({
                                 </Badge>
                             )}
                         </div>
+
+                        {footer}
                     </div>
                 </div>
             </Card>
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, MessageCircle, Send, ThumbsDown, ThumbsUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useActivityFeedback } from "@/hooks/use-queries";
+import type { ActivityFeedback as ActivityFeedbackData } from "@/lib/itineraries/collaboration";
+
+interface ActivityFeedbackProps {
+  itineraryId: string;
+  activityKey: string;
+  feedback?: ActivityFeedbackData;
+  /** Called after a comment or vote is saved, so collaborators can refetch */
+  onChanged?: () => void;
+}
+
+export function ActivityFeedback({ itineraryId, activityKey, feedback, onChanged }: ActivityFeedbackProps) {
+  const [showComments, setShowComments] = useState(false);
+  const [comment, setComment] = useState("");
+  const { toast } = useToast();
+  const mutation = useActivityFeedback();
+
+  const myVote = feedback?.myVote ?? 0;
+  const comments = feedback?.comments ?? [];
+
+  const submit = (params: { comment?: string; vote?: -1 | 0 | 1 }, onSuccess?: () => void) => {
+    mutation.mutate(
+      { id: itineraryId, activityKey, ...params },
+      {
+        onSuccess: () => {
+          onSuccess?.();
+          onChanged?.();
+        },
+        onError: (error) => {
+          console.error("Error saving activity feedback:", error);
+          toast({
+            title: "Couldn't save that",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleComment = () => {
+    const body = comment.trim();
+    if (!body) return;
+    submit({ comment: body }, () => setComment(""));
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t pt-3" data-testid="activity-feedback">
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-pressed={myVote === 1}
+          aria-label="Vote for this activity"
+          onClick={() => submit({ vote: myVote === 1 ? 0 : 1 })}
+          disabled={mutation.isPending}
+          className={`h-8 gap-1 px-2 ${myVote === 1 ? "text-emerald-600" : "text-muted-foreground"}`}
+        >
+          <ThumbsUp className="h-4 w-4" />
+          {feedback?.upvotes ?? 0}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-pressed={myVote === -1}
+          aria-label="Vote against this activity"
+          onClick={() => submit({ vote: myVote === -1 ? 0 : -1 })}
+          disabled={mutation.isPending}
+          className={`h-8 gap-1 px-2 ${myVote === -1 ? "text-rose-600" : "text-muted-foreground"}`}
+        >
+          <ThumbsDown className="h-4 w-4" />
+          {feedback?.downvotes ?? 0}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowComments(!showComments)}
+          className="h-8 gap-1 px-2 text-muted-foreground"
+        >
+          <MessageCircle className="h-4 w-4" />
+          {comments.length > 0 ? comments.length : "Comment"}
+        </Button>
+      </div>
+
+      {showComments && (
+        <div className="space-y-2">
+          {comments.map((item) => (
+            <div key={item.id} className="rounded-md bg-muted/50 px-3 py-2 text-sm">
+              <span className="font-medium">{item.authorName || "Traveller"}</span>{" "}
+              <span className="text-xs text-muted-foreground">
+                {new Date(item.createdAt).toLocaleString()}
+              </span>
+              <p className="whitespace-pre-wrap">{item.body}</p>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleComment();
+              }}
+              maxLength={1000}
+              placeholder="Add a comment for the group"
+            />
+            <Button
+              size="sm"
+              onClick={handleComment}
+              disabled={mutation.isPending || !comment.trim()}
+              aria-label="Post comment"
+              className="h-9"
+            >
+              {mutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ArrowRight, Loader2, Trash2, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useDeleteItineraryExpense,
+  useItineraryBudget,
+  useLogItineraryExpense,
+} from "@/hooks/use-queries";
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_LABELS,
+  categorizeActivity,
+  type BudgetDayPlan,
+  type ExpenseCategory,
+} from "@/lib/itineraries/budget";
+import { activityKey } from "@/lib/itineraries/revisions";
+import { SUPPORTED_CURRENCIES, formatMoney, parseCost } from "@/lib/money";
+
+interface BudgetDialogProps {
+  itineraryId: string;
+  viewerId: string;
+  currency: string;
+  dailyPlans: Array<BudgetDayPlan & { day: number }>;
+}
+
+const SELECT_CLASS =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm outline-none focus:ring-2 focus:ring-ring";
+
+export function BudgetDialog({ itineraryId, viewerId, currency, dailyPlans }: BudgetDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState("");
+  const [amount, setAmount] = useState("");
+  const [expenseCurrency, setExpenseCurrency] = useState(currency);
+  const [category, setCategory] = useState<ExpenseCategory>("food");
+  const [description, setDescription] = useState("");
+  const [paidBy, setPaidBy] = useState(viewerId);
+  const [splitWith, setSplitWith] = useState<string[]>([]);
+  const router = useRouter();
+  const { toast } = useToast();
+  const report = useItineraryBudget(itineraryId, { enabled: open });
+  const logExpense = useLogItineraryExpense();
+  const deleteExpense = useDeleteItineraryExpense();
+
+  const activities = dailyPlans.flatMap((day) =>
+    day.activities.map((activity) => ({ day: day.day, key: activityKey(activity), activity }))
+  );
+  const members = report.data?.members ?? [];
+  const memberName = (userId: string) => members.find((member) => member.userId === userId)?.name ?? "Former member";
+
+  const handleTargetChange = (value: string) => {
+    setTarget(value);
+    const match = activities.find((entry) => entry.key === value);
+    if (!match) return;
+    setCategory(categorizeActivity(match.activity));
+    setDescription(match.activity.name);
+    // Start from the plan's price so logging "as planned" is one tap
+    const planned = parseCost(match.activity.cost as string | number | undefined, { defaultCurrency: currency });
+    if (planned && !amount) {
+      setAmount(String(planned.amount));
+      setExpenseCurrency(planned.currency);
+    }
+  };
+
+  const toggleSplit = (userId: string) => {
+    setSplitWith((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+  };
+
+  const handleLog = () => {
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast({ title: "Enter an amount", variant: "destructive" });
+      return;
+    }
+
+    const dayTarget = target.startsWith("day:") ? Number(target.slice(4)) : null;
+    const activity = activities.find((entry) => entry.key === target);
+
+    logExpense.mutate(
+      {
+        id: itineraryId,
+        expense: {
+          amount: value,
+          currency: expenseCurrency,
+          category,
+          description,
+          activityKey: activity?.key ?? null,
+          day: activity?.day ?? dayTarget,
+          paidBy,
+          // Everyone ticked is the same as the whole group
+          splitWith: splitWith.length === members.length ? [] : splitWith,
+        },
+      },
+      {
+        onSuccess: () => {
+          setTarget("");
+          setAmount("");
+          setDescription("");
+          setSplitWith([]);
+          router.refresh();
+        },
+        onError: (error) => {
+          console.error("Error logging expense:", error);
+          toast({
+            title: "Failed to log expense",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleDelete = (expenseId: string) => {
+    deleteExpense.mutate(
+      { id: itineraryId, expenseId },
+      {
+        onSuccess: () => router.refresh(),
+        onError: (error) => {
+          console.error("Error deleting expense:", error);
+          toast({
+            title: "Failed to delete expense",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const expenses = report.data?.expenses ?? [];
+  const split = report.data?.split;
+  const role = report.data?.role;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Wallet className="h-4 w-4" />
+          Budget
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trip budget</DialogTitle>
+          <DialogDescription>
+            Log what the group spends against the plan and see who owes whom. Totals are in {currency}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report.isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <select
+                aria-label="What was it for"
+                value={target}
+                onChange={(event) => handleTargetChange(event.target.value)}
+                className={SELECT_CLASS}
+              >
+                <option value="">The trip in general</option>
+                {dailyPlans.map((day) => (
+                  <optgroup key={day.day} label={day.theme ? `Day ${day.day}: ${day.theme}` : `Day ${day.day}`}>
+                    <option value={`day:${day.day}`}>Day {day.day}, not a listed activity</option>
+                    {activities
+                      .filter((entry) => entry.day === day.day)
+                      .map((entry) => (
+                        <option key={entry.key} value={entry.key}>
+                          {entry.activity.name}
+                        </option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  placeholder="Amount"
+                  aria-label="Amount"
+                  value={amount}
+                  onChange={(event) => setAmount(event.target.value)}
+                  className="flex-1"
+                />
+                <select
+                  aria-label="Currency"
+                  value={expenseCurrency}
+                  onChange={(event) => setExpenseCurrency(event.target.value)}
+                  className={`${SELECT_CLASS} w-24`}
+                >
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  aria-label="Category"
+                  value={category}
+                  onChange={(event) => setCategory(event.target.value as ExpenseCategory)}
+                  className={SELECT_CLASS}
+                >
+                  {EXPENSE_CATEGORIES.map((option) => (
+                    <option key={option} value={option}>
+                      {EXPENSE_CATEGORY_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Paid by"
+                  value={paidBy}
+                  onChange={(event) => setPaidBy(event.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  {members.map((member) => (
+                    <option key={member.userId} value={member.userId}>
+                      Paid by {member.userId === viewerId ? "me" : member.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                placeholder="Note (optional)"
+                aria-label="Note"
+                maxLength={200}
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+              />
+              {members.length > 1 && (
+                <fieldset className="space-y-1">
+                  <legend className="text-xs text-muted-foreground">
+                    Split between {splitWith.length === 0 ? "everyone" : `${splitWith.length} of ${members.length}`}
+                  </legend>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {members.map((member) => (
+                      <label key={member.userId} className="flex items-center gap-1.5 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={splitWith.includes(member.userId)}
+                          onChange={() => toggleSplit(member.userId)}
+                        />
+                        {member.userId === viewerId ? "Me" : member.name}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+              <Button onClick={handleLog} disabled={logExpense.isPending} className="w-full gap-2">
+                {logExpense.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Log expense
+              </Button>
+            </div>
+
+            {split && split.settlements.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Settle up</h4>
+                <ul className="space-y-1" data-testid="itinerary-budget-settlements">
+                  {split.settlements.map((settlement) => (
+                    <li key={`${settlement.from}-${settlement.to}`} className="flex items-center gap-2 text-sm">
+                      <span className="truncate">{memberName(settlement.from)}</span>
+                      <ArrowRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <span className="truncate">{memberName(settlement.to)}</span>
+                      <span className="ml-auto tabular-nums font-medium">
+                        {formatMoney(settlement.amount, split.currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Expenses</h4>
+              {expenses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing logged yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {[...expenses].reverse().map((expense) => (
+                    <li key={expense.id} className="flex items-center justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">
+                          {expense.description || EXPENSE_CATEGORY_LABELS[expense.category]}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {memberName(expense.paidBy)} paid{expense.day ? ` · Day ${expense.day}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        <span className="tabular-nums">{formatMoney(expense.amount, expense.currency)}</span>
+                        {(expense.createdBy === viewerId || role === "owner") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(expense.id)}
+                            disabled={deleteExpense.isPending}
+                            aria-label={`Delete ${expense.description || "expense"}`}
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
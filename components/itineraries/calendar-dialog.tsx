@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { CalendarDays, Check, Copy, Download, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUpdateItineraryCalendar } from "@/hooks/use-queries";
+import { calendarFeedUrls } from "@/lib/itineraries/calendar";
+
+interface CalendarDialogProps {
+  itineraryId: string;
+  startDate?: string | null;
+  calendarToken?: string | null;
+}
+
+export function CalendarDialog({ itineraryId, startDate, calendarToken }: CalendarDialogProps) {
+  const [date, setDate] = useState(startDate ?? "");
+  const [savedDate, setSavedDate] = useState(startDate ?? "");
+  const [feed, setFeed] = useState(() =>
+    calendarToken && typeof window !== "undefined"
+      ? calendarFeedUrls(window.location.origin, calendarToken)
+      : null
+  );
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+  const update = useUpdateItineraryCalendar();
+
+  const save = (settings: { startDate?: string | null; feed?: boolean }) => {
+    update.mutate(
+      { id: itineraryId, ...settings },
+      {
+        onSuccess: (data) => {
+          setSavedDate(data.startDate ?? "");
+          setDate(data.startDate ?? "");
+          setFeed(data.feed);
+          setCopied(false);
+        },
+        onError: (error) => {
+          console.error("Error updating calendar settings:", error);
+          toast({
+            title: "Failed to update calendar",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+
+    try {
+      await navigator.clipboard.writeText(feed.feedUrl);
+      setCopied(true);
+      toast({
+        title: "Link copied!",
+        description: "Add it to your calendar app as a subscription to get every change.",
+      });
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      toast({
+        title: "Failed to copy",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadUrl = `/api/itineraries/${itineraryId}/calendar${date ? `?start=${date}` : ""}`;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarDays className="h-4 w-4" />
+          Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to calendar</DialogTitle>
+          <DialogDescription>
+            Every activity becomes an event with its time, place and notes. Without a start date,
+            day 1 is tomorrow.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="calendar-start-date" className="text-sm font-medium">
+              Trip starts
+            </label>
+            <div className="flex gap-2">
+              <Input
+                id="calendar-start-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="flex-1"
+              />
+              <Button
+                variant="outline"
+                onClick={() => save({ startDate: date || null })}
+                disabled={update.isPending || date === savedDate}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <Button asChild className="w-full gap-2">
+            <a href={downloadUrl} download>
+              <Download className="h-4 w-4" />
+              Download .ics
+            </a>
+          </Button>
+
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="text-sm font-semibold">Subscribe</h4>
+            <p className="text-xs text-muted-foreground">
+              A subscribed calendar picks up revisions automatically. Anyone with the link can see the plan.
+            </p>
+            {feed ? (
+              <>
+                <div className="flex gap-2">
+                  <Input value={feed.feedUrl} readOnly className="flex-1" />
+                  <Button size="icon" variant="outline" onClick={handleCopy} aria-label="Copy feed link">
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Button asChild variant="outline" size="sm" className="flex-1">
+                    <a href={feed.webcalUrl}>Open in calendar app</a>
+                  </Button>
+                  <Button asChild variant="outline" size="sm" className="flex-1">
+                    <a
+                      href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(feed.webcalUrl)}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      Google Calendar
+                    </a>
+                  </Button>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => save({ feed: false })}
+                  disabled={update.isPending}
+                  className="w-full text-destructive hover:text-destructive"
+                >
+                  Turn off feed
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => save({ feed: true })}
+                disabled={update.isPending}
+                className="w-full gap-2"
+              >
+                {update.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Create subscription link
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
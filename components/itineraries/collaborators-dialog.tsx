@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Check, Copy, Loader2, UserMinus, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useInviteCollaborator,
+  useItineraryCollaborators,
+  useRemoveCollaborator,
+} from "@/hooks/use-queries";
+import type { CollaboratorRole } from "@/lib/itineraries/collaboration";
+
+interface CollaboratorsDialogProps {
+  itineraryId: string;
+}
+
+const ROLE_LABELS: Record<CollaboratorRole, string> = {
+  editor: "Can edit",
+  viewer: "Can view, comment and vote",
+};
+
+export function CollaboratorsDialog({ itineraryId }: CollaboratorsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState<CollaboratorRole>("editor");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+  const collaborators = useItineraryCollaborators(itineraryId, { enabled: open });
+  const invite = useInviteCollaborator();
+  const remove = useRemoveCollaborator();
+
+  const handleInvite = () => {
+    invite.mutate(
+      { id: itineraryId, role },
+      {
+        onSuccess: (data) => {
+          setInviteUrl(data.inviteUrl);
+          setCopied(false);
+        },
+        onError: (error) => {
+          console.error("Error creating invite:", error);
+          toast({
+            title: "Failed to create invite link",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setCopied(true);
+      toast({
+        title: "Link copied!",
+        description: "Each invite link lets one person join. It expires in 7 days.",
+      });
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      toast({
+        title: "Failed to copy",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = (userId: string) => {
+    remove.mutate(
+      { id: itineraryId, userId },
+      {
+        onError: (error) => {
+          console.error("Error removing collaborator:", error);
+          toast({
+            title: "Failed to remove collaborator",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const people = collaborators.data?.collaborators ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Users className="h-4 w-4" />
+          Collaborate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Plan together</DialogTitle>
+          <DialogDescription>
+            Invite your travel group. Editors change the plan with you in real time; viewers follow along,
+            comment and vote on activities.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {(Object.keys(ROLE_LABELS) as CollaboratorRole[]).map((option) => (
+              <Button
+                key={option}
+                variant={role === option ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setRole(option);
+                  setInviteUrl(null);
+                }}
+                className="flex-1"
+              >
+                {option === "editor" ? "Editor" : "Viewer"}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{ROLE_LABELS[role]}</p>
+
+          {inviteUrl ? (
+            <div className="flex gap-2">
+              <Input value={inviteUrl} readOnly className="flex-1" />
+              <Button size="icon" variant="outline" onClick={handleCopy} aria-label="Copy invite link">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          ) : (
+            <Button onClick={handleInvite} disabled={invite.isPending} className="w-full gap-2">
+              {invite.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create invite link
+            </Button>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">People with access</h4>
+            {collaborators.isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : people.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Only you so far.</p>
+            ) : (
+              <ul className="space-y-2">
+                {people.map((person) => (
+                  <li key={person.userId} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{person.displayName || "Traveller"}</p>
+                      <p className="text-xs text-muted-foreground">{ROLE_LABELS[person.role]}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(person.userId)}
+                      disabled={remove.isPending}
+                      aria-label={`Remove ${person.displayName || "collaborator"}`}
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,7 +8,8 @@ import { Input } from "@/components/ui/input";
 import { PlaceAutocomplete } from "@/components/ui/place-autocomplete";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, ChevronDown, ChevronUp } from "lucide-react";
-import { useState } from "react";
+import { useState, type ReactNode } from "react";
+import { activityKey } from "@/lib/itineraries/revisions";
 
 interface Activity {
     name: string;
@@ -30,9 +31,21 @@ interface DayPlan {
 interface DayEditorProps {
     dayPlan: DayPlan;
     onUpdate: (dayPlan: DayPlan) => void;
+    readOnly?: boolean;
+    /** Collaborator names by the activityKey they are editing */
+    editorsByActivity?: Map<string, string[]>;
+    onEditingChange?: (activityKey: string | null) => void;
+    renderActivityFooter?: (activity: Activity) => ReactNode;
 }
 
-export function DayEditor({ dayPlan, onUpdate }: DayEditorProps) {
+export function DayEditor({
+    dayPlan,
+    onUpdate,
+    readOnly = false,
+    editorsByActivity,
+    onEditingChange,
+    renderActivityFooter,
+}: DayEditorProps) {
     const [isCollapsed, setIsCollapsed] = useState(false);
     const [isAddingActivity, setIsAddingActivity] = useState(false);
     const [newActivity, setNewActivity] = useState<Activity>({
@@ -46,6 +59,16 @@ export function DayEditor({ dayPlan, onUpdate }: DayEditorProps) {
         localleyScore: 4,
     });
 
+    // Key activities by identity, not position, so an editor that is open
+    // stays with its activity when collaborators insert or move others
+    const seen = new Map<string, number>();
+    const activityIds = dayPlan.activities.map((activity) => {
+        const key = activityKey(activity);
+        const occurrence = seen.get(key) ?? 0;
+        seen.set(key, occurrence + 1);
+        return `activity-${dayPlan.day}-${key}-${occurrence}`;
+    });
+
     const handleDragEnd = (result: DropResult) => {
         if (!result.destination) return;
 
@@ -118,6 +141,7 @@ export function DayEditor({ dayPlan, onUpdate }: DayEditorProps) {
                         <Input
                             value={dayPlan.theme || ""}
                             onChange={(e) => onUpdate({ ...dayPlan, theme: e.target.value })}
+                            readOnly={readOnly}
                             placeholder="Day theme (e.g., 'Food Exploration')"
                             className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
                         />
@@ -141,18 +165,20 @@ export function DayEditor({ dayPlan, onUpdate }: DayEditorProps) {
                             <h3 className="font-semibold">
                                 Activities ({dayPlan.activities.length})
                             </h3>
-                            <Button
-                                onClick={() => setIsAddingActivity(!isAddingActivity)}
-                                size="sm"
-                                variant="outline"
-                                className="gap-2"
-                            >
-                                <Plus className="h-4 w-4" />
-                                Add Activity
-                            </Button>
+                            {!readOnly && (
+                                <Button
+                                    onClick={() => setIsAddingActivity(!isAddingActivity)}
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-2"
+                                >
+                                    <Plus className="h-4 w-4" />
+                                    Add Activity
+                                </Button>
+                            )}
                         </div>
 
-                        {isAddingActivity && (
+                        {isAddingActivity && !readOnly && (
                             <Card className="p-4 mb-4 bg-green-50/50 dark:bg-green-950/20 border-green-200">
                                 <div className="space-y-3">
                                     <h4 className="font-semibold">New Activity</h4>
@@ -235,9 +261,10 @@ export function DayEditor({ dayPlan, onUpdate }: DayEditorProps) {
                                     >
                                         {dayPlan.activities.map((activity, index) => (
                                             <Draggable
-                                                key={`activity-${dayPlan.day}-${index}`}
-                                                draggableId={`activity-${dayPlan.day}-${index}`}
+                                                key={activityIds[index]}
+                                                draggableId={activityIds[index]}
                                                 index={index}
+                                                isDragDisabled={readOnly}
                                             >
                                                 {(provided, snapshot) => (
                                                     <div
@@ -256,6 +283,12 @@ export function DayEditor({ dayPlan, onUpdate }: DayEditorProps) {
                                                             onDelete={handleActivityDelete}
                                                             onDuplicate={handleActivityDuplicate}
                                                             dragHandleProps={provided.dragHandleProps}
+                                                            readOnly={readOnly}
+                                                            editors={editorsByActivity?.get(activityKey(activity))}
+                                                            onEditingChange={(editing) =>
+                                                                onEditingChange?.(editing ? activityKey(activity) : null)
+                                                            }
+                                                            footer={renderActivityFooter?.(activity)}
                                                         />
                                                     </div>
                                                 )}
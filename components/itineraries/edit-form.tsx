@@ -1,19 +1,21 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useEffect, useMemo } from "react";
 import { DayEditor } from "./day-editor";
+import { ActivityFeedback } from "./activity-feedback";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Save, X, Check } from "lucide-react";
-import {
-    normalizeDailyPlansForDisplay,
-    parseDailyPlans,
-    type ItineraryInsight,
-} from "@/lib/itineraries/normalize-daily-plans";
+import { useItineraryFeedback } from "@/hooks/use-queries";
+import { useCollaborativeItinerary } from "@/hooks/use-collaborative-itinerary";
+import { Loader2, Save, X, Check, Eye, CloudOff, AlertTriangle } from "lucide-react";
+import type { ItineraryInsight } from "@/lib/itineraries/normalize-daily-plans";
+import type { CollaborativeItinerary } from "@/lib/itineraries/collaboration";
+import { activityKey, type RevisionDayPlan } from "@/lib/itineraries/revisions";
 
 interface Activity {
     name: string;
@@ -32,52 +34,51 @@ interface DayPlan {
     activities: Activity[];
 }
 
-interface Itinerary {
-    id: string;
-    title: string;
-    city: string;
-    days: number;
-    activities: unknown;
-    highlights?: string[];
-    estimated_cost?: string;
-}
-
 interface EditFormProps {
-    itinerary: Itinerary;
+    itinerary: CollaborativeItinerary;
 }
 
 export function EditForm({ itinerary }: EditFormProps) {
     const router = useRouter();
     const { toast } = useToast();
 
-    const parsedPlan = useMemo(
-        () => normalizeDailyPlansForDisplay<DayPlan>(parseDailyPlans(itinerary.activities)),
-        [itinerary.activities]
+    const {
+        draft,
+        updateDraft,
+        readOnly,
+        status: saveStatus,
+        hasPendingChanges: hasUnsavedChanges,
+        syncNow,
+        peers,
+        setEditing,
+        announceFeedback,
+        conflicts,
+        dismissConflicts,
+    } = useCollaborativeItinerary(itinerary);
+    const { data: feedback } = useItineraryFeedback(itinerary.id);
+
+    const { title, city, highlights, insights, estimatedCost } = draft;
+    const dayPlans = draft.dailyPlans as DayPlan[];
+    const isSaving = saveStatus === "saving";
+
+    const feedbackByActivity = useMemo(
+        () => new Map((feedback || []).map((item) => [item.activityKey, item])),
+        [feedback]
     );
+    const editorsByActivity = useMemo(() => {
+        const editors = new Map<string, string[]>();
+        for (const peer of peers) {
+            if (!peer.editing) continue;
+            editors.set(peer.editing, [...(editors.get(peer.editing) || []), peer.name]);
+        }
+        return editors;
+    }, [peers]);
 
-    const [title, setTitle] = useState(itinerary.title);
-    const [city, setCity] = useState(itinerary.city);
-    const [dayPlans, setDayPlans] = useState<DayPlan[]>(parsedPlan.dailyPlans);
-    const [insights, setInsights] = useState<ItineraryInsight[]>(parsedPlan.insights);
-    const [highlights, setHighlights] = useState<string[]>(itinerary.highlights || []);
-    const [estimatedCost, setEstimatedCost] = useState(itinerary.estimated_cost || "");
-
-    const [isSaving, setIsSaving] = useState(false);
-    const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-    const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
-
-    // Track changes
-    useEffect(() => {
-        const hasChanges =
-            title !== itinerary.title ||
-            city !== itinerary.city ||
-            estimatedCost !== (itinerary.estimated_cost || "") ||
-            JSON.stringify(dayPlans) !== JSON.stringify(parsedPlan.dailyPlans) ||
-            JSON.stringify(insights) !== JSON.stringify(parsedPlan.insights) ||
-            JSON.stringify(highlights) !== JSON.stringify(itinerary.highlights || []);
-
-        setHasUnsavedChanges(hasChanges);
-    }, [title, city, dayPlans, insights, highlights, estimatedCost, itinerary, parsedPlan]);
+    const setTitle = (value: string) => updateDraft((current) => ({ ...current, title: value }));
+    const setCity = (value: string) => updateDraft((current) => ({ ...current, city: value }));
+    const setEstimatedCost = (value: string) => updateDraft((current) => ({ ...current, estimatedCost: value }));
+    const setHighlights = (value: string[]) => updateDraft((current) => ({ ...current, highlights: value }));
+    const setInsights = (value: ItineraryInsight[]) => updateDraft((current) => ({ ...current, insights: value }));
 
     // Warn on navigation if unsaved changes
     useEffect(() => {
@@ -92,70 +93,27 @@ export function EditForm({ itinerary }: EditFormProps) {
         return () => window.removeEventListener("beforeunload", handleBeforeUnload);
     }, [hasUnsavedChanges]);
 
-    // Auto-save with debounce (30 seconds after last change)
-    useEffect(() => {
-        if (!hasUnsavedChanges) return;
-
-        const timeoutId = setTimeout(() => {
-            handleSave(true);
-        }, 30000); // 30 second debounce
-
-        return () => clearTimeout(timeoutId);
-        // Existing autosave pattern intentionally re-arms when edited fields change.
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [title, city, dayPlans, insights, highlights, estimatedCost, hasUnsavedChanges]);
-
-    const handleSave = async (isAutoSave = false) => {
-        setIsSaving(true);
-        setSaveStatus("saving");
-
-        try {
-            const response = await fetch(`/api/itineraries/${itinerary.id}/update`, {
-                method: "PATCH",
-                headers: {
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                    title,
-                    city,
-                    days: dayPlans,
-                    insights,
-                    highlights,
-                    estimated_cost: estimatedCost,
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error("Failed to save itinerary");
-            }
-
-            setSaveStatus("saved");
-            setHasUnsavedChanges(false);
+    // Changes sync automatically a moment after editing stops; Save sends
+    // them right away
+    const handleSave = async () => {
+        const saved = await syncNow();
 
+        if (saved) {
             toast({
-                title: isAutoSave ? "Auto-saved" : "Saved successfully",
+                title: "Saved successfully",
                 description: "Your changes have been saved.",
             });
-
-            // Reset saved status after 3 seconds
-            setTimeout(() => {
-                setSaveStatus("idle");
-            }, 3000);
-        } catch (error) {
-            console.error("Save error:", error);
-            setSaveStatus("error");
-
+        } else if (!navigator.onLine) {
+            toast({
+                title: "You're offline",
+                description: "Your changes are kept on this device and will sync when you reconnect.",
+            });
+        } else {
             toast({
                 title: "Save failed",
                 description: "Failed to save your changes. Please try again.",
                 variant: "destructive",
             });
-
-            setTimeout(() => {
-                setSaveStatus("idle");
-            }, 3000);
-        } finally {
-            setIsSaving(false);
         }
     };
 
@@ -170,9 +128,12 @@ export function EditForm({ itinerary }: EditFormProps) {
     };
 
     const handleDayUpdate = (index: number, updatedDay: DayPlan) => {
-        const updatedDays = [...dayPlans];
-        updatedDays[index] = updatedDay;
-        setDayPlans(updatedDays);
+        updateDraft((current) => {
+            const updatedDays = [...current.dailyPlans];
+            // Day editors spread the stored activity, so fields they don't show survive
+            updatedDays[index] = updatedDay as RevisionDayPlan;
+            return { ...current, dailyPlans: updatedDays };
+        });
     };
 
     const handleHighlightsChange = (value: string) => {
@@ -205,7 +166,13 @@ export function EditForm({ itinerary }: EditFormProps) {
             <div className="sticky top-0 z-10 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b p-4 -mx-4">
                 <div className="flex items-center justify-between max-w-5xl mx-auto">
                     <div className="flex items-center gap-3">
-                        <h1 className="text-2xl font-bold">Edit Itinerary</h1>
+                        <h1 className="text-2xl font-bold">{readOnly ? "Group Itinerary" : "Edit Itinerary"}</h1>
+                        {readOnly && (
+                            <Badge variant="secondary" className="gap-1">
+                                <Eye className="h-3 w-3" />
+                                View only
+                            </Badge>
+                        )}
                         {saveStatus === "saving" && (
                             <span className="text-sm text-muted-foreground flex items-center gap-1">
                                 <Loader2 className="h-3 w-3 animate-spin" />
@@ -223,41 +190,90 @@ export function EditForm({ itinerary }: EditFormProps) {
                                 Save failed
                             </span>
                         )}
+                        {saveStatus === "offline" && (
+                            <span className="text-sm text-amber-600 flex items-center gap-1">
+                                <CloudOff className="h-3 w-3" />
+                                Offline, will sync when you reconnect
+                            </span>
+                        )}
                         {hasUnsavedChanges && saveStatus === "idle" && (
                             <span className="text-sm text-amber-600">
                                 Unsaved changes
                             </span>
                         )}
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex items-center gap-2">
+                        {peers.length > 0 && (
+                            <div className="flex -space-x-2 mr-2" data-testid="itinerary-presence">
+                                {peers.map((peer) => (
+                                    <div
+                                        key={peer.userId}
+                                        title={peer.editing ? `${peer.name} is editing` : `${peer.name} is here`}
+                                        className="h-8 w-8 rounded-full border-2 border-background bg-violet-600 text-white text-xs font-semibold flex items-center justify-center overflow-hidden"
+                                    >
+                                        {peer.imageUrl ? (
+                                            // eslint-disable-next-line @next/next/no-img-element
+                                            <img src={peer.imageUrl} alt={peer.name} className="h-full w-full object-cover" />
+                                        ) : (
+                                            peer.name.charAt(0).toUpperCase()
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                         <Button
                             onClick={handleCancel}
                             variant="outline"
                             disabled={isSaving}
                         >
                             <X className="h-4 w-4 mr-2" />
-                            Cancel
-                        </Button>
-                        <Button
-                            onClick={() => handleSave(false)}
-                            disabled={isSaving || !hasUnsavedChanges}
-                        >
-                            {isSaving ? (
-                                <>
-                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                    Saving...
-                                </>
-                            ) : (
-                                <>
-                                    <Save className="h-4 w-4 mr-2" />
-                                    Save
-                                </>
-                            )}
+                            {readOnly ? "Close" : "Cancel"}
                         </Button>
+                        {!readOnly && (
+                            <Button
+                                onClick={handleSave}
+                                disabled={isSaving || !hasUnsavedChanges}
+                            >
+                                {isSaving ? (
+                                    <>
+                                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                        Saving...
+                                    </>
+                                ) : (
+                                    <>
+                                        <Save className="h-4 w-4 mr-2" />
+                                        Save
+                                    </>
+                                )}
+                            </Button>
+                        )}
                     </div>
                 </div>
             </div>
 
+            {/* Offline changes the server couldn't apply */}
+            {conflicts.length > 0 && (
+                <div
+                    className="flex items-start gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 p-4 text-sm"
+                    data-testid="itinerary-sync-conflicts"
+                >
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                    <div className="flex-1 space-y-1">
+                        <p className="font-medium">
+                            Some of your changes weren&apos;t applied because someone else changed the same part of the trip:
+                        </p>
+                        <ul className="list-disc pl-5 text-muted-foreground">
+                            {conflicts.map((conflict, index) => (
+                                <li key={index}>{conflict}</li>
+                            ))}
+                        </ul>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={dismissConflicts}>
+                        Dismiss
+                    </Button>
+                </div>
+            )}
+
             {/* Basic Info */}
             <Card>
                 <CardHeader>
@@ -271,6 +287,7 @@ export function EditForm({ itinerary }: EditFormProps) {
                         <Input
                             value={title}
                             onChange={(e) => setTitle(e.target.value)}
+                            readOnly={readOnly}
                             placeholder="e.g., 3-Day Seoul Adventure"
                         />
                     </div>
@@ -281,6 +298,7 @@ export function EditForm({ itinerary }: EditFormProps) {
                         <Input
                             value={city}
                             onChange={(e) => setCity(e.target.value)}
+                            readOnly={readOnly}
                             placeholder="e.g., Seoul"
                         />
                     </div>
@@ -291,6 +309,7 @@ export function EditForm({ itinerary }: EditFormProps) {
                         <Input
                             value={estimatedCost}
                             onChange={(e) => setEstimatedCost(e.target.value)}
+                            readOnly={readOnly}
                             placeholder="e.g., $500-800"
                         />
                     </div>
@@ -301,6 +320,7 @@ export function EditForm({ itinerary }: EditFormProps) {
                         <Textarea
                             value={highlights.join(", ")}
                             onChange={(e) => handleHighlightsChange(e.target.value)}
+                            readOnly={readOnly}
                             placeholder="e.g., Traditional markets, K-pop culture, Street food"
                             rows={2}
                         />
@@ -319,6 +339,7 @@ export function EditForm({ itinerary }: EditFormProps) {
                     <Textarea
                         value={insights.map((insight) => insight.text).join("\n")}
                         onChange={(e) => handleInsightsChange(e.target.value)}
+                        readOnly={readOnly}
                         placeholder="Add one trip-level insight per line. These stay outside the day sections."
                         rows={Math.max(3, Math.min(6, insights.length + 1))}
                     />
@@ -336,36 +357,49 @@ export function EditForm({ itinerary }: EditFormProps) {
                         key={`day-${day.day}`}
                         dayPlan={day}
                         onUpdate={(updatedDay) => handleDayUpdate(index, updatedDay)}
+                        readOnly={readOnly}
+                        editorsByActivity={editorsByActivity}
+                        onEditingChange={setEditing}
+                        renderActivityFooter={(activity) => (
+                            <ActivityFeedback
+                                itineraryId={itinerary.id}
+                                activityKey={activityKey(activity)}
+                                feedback={feedbackByActivity.get(activityKey(activity))}
+                                onChanged={announceFeedback}
+                            />
+                        )}
                     />
                 ))}
             </div>
 
             {/* Bottom Save/Cancel */}
-            <div className="flex justify-end gap-2 pb-8">
-                <Button
-                    onClick={handleCancel}
-                    variant="outline"
-                    disabled={isSaving}
-                >
-                    Cancel
-                </Button>
-                <Button
-                    onClick={() => handleSave(false)}
-                    disabled={isSaving || !hasUnsavedChanges}
-                >
-                    {isSaving ? (
-                        <>
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                            Saving...
-                        </>
-                    ) : (
-                        <>
-                            <Save className="h-4 w-4 mr-2" />
-                            Save Changes
-                        </>
-                    )}
-                </Button>
-            </div>
+            {!readOnly && (
+                <div className="flex justify-end gap-2 pb-8">
+                    <Button
+                        onClick={handleCancel}
+                        variant="outline"
+                        disabled={isSaving}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSave}
+                        disabled={isSaving || !hasUnsavedChanges}
+                    >
+                        {isSaving ? (
+                            <>
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                Saving...
+                            </>
+                        ) : (
+                            <>
+                                <Save className="h-4 w-4 mr-2" />
+                                Save Changes
+                            </>
+                        )}
+                    </Button>
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,56 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileText, MapPinned, Printer } from "lucide-react";
+
+interface ExportMenuProps {
+  itineraryId: string;
+  className?: string;
+}
+
+export function ExportMenu({ itineraryId, className }: ExportMenuProps) {
+  const exportUrl = `/api/itineraries/${itineraryId}/export`;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem asChild>
+          <a href={`${exportUrl}?format=pdf`} download className="gap-2">
+            <FileText className="h-4 w-4" />
+            <div className="flex flex-col">
+              <span>PDF</span>
+              <span className="text-xs text-muted-foreground">Maps and directions QR codes</span>
+            </div>
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={`${exportUrl}?format=bundle`} download className="gap-2">
+            <MapPinned className="h-4 w-4" />
+            <div className="flex flex-col">
+              <span>Offline maps bundle</span>
+              <span className="text-xs text-muted-foreground">GPX and KML for Organic Maps or Maps.me</span>
+            </div>
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={`${exportUrl}?format=html`} target="_blank" rel="noopener noreferrer" className="gap-2">
+            <Printer className="h-4 w-4" />
+            Print view
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
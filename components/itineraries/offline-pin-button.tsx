@@ -0,0 +1,82 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { CloudDownload, CloudOff, Loader2, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOfflineItinerary } from "@/hooks/use-offline-itinerary";
+
+interface OfflinePinButtonProps {
+  itineraryId: string;
+  title: string;
+  city: string;
+  className?: string;
+}
+
+export function OfflinePinButton({ itineraryId, title, city, className }: OfflinePinButtonProps) {
+  const { toast } = useToast();
+  const { isSupported, isOnline, isPinned, isWorking, pin, unpin } = useOfflineItinerary({
+    id: itineraryId,
+    title,
+    city,
+  });
+
+  if (!isSupported) return null;
+
+  if (!isOnline) {
+    return (
+      <Button variant="outline" size="sm" className={className} disabled>
+        <CloudOff className="h-4 w-4" />
+        {isPinned ? "Offline copy" : "Offline"}
+      </Button>
+    );
+  }
+
+  const handleClick = async () => {
+    try {
+      if (isPinned) {
+        await unpin();
+        toast({
+          title: "Removed offline copy",
+          description: "This trip will load from the network again.",
+        });
+        return;
+      }
+
+      const { failed } = await pin();
+      toast({
+        title: "Available offline",
+        description: failed > 0
+          ? `Saved for offline use. ${failed} ${failed === 1 ? "photo or page" : "photos or pages"} couldn't be downloaded.`
+          : "This trip, its spots and photos will open without a connection.",
+      });
+    } catch (error) {
+      console.error("Error updating offline copy:", error);
+      toast({
+        title: isPinned ? "Failed to remove offline copy" : "Failed to save for offline",
+        description: error instanceof Error ? error.message : "Please try again later",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className={className}
+      onClick={handleClick}
+      disabled={isWorking}
+      aria-pressed={isPinned}
+      title={isPinned ? "Remove the offline copy" : "Save this trip for offline use"}
+    >
+      {isWorking ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : isPinned ? (
+        <Check className="h-4 w-4" />
+      ) : (
+        <CloudDownload className="h-4 w-4" />
+      )}
+      {isPinned ? "Available offline" : "Save offline"}
+    </Button>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { History, Loader2, RotateCcw, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useItineraryHistory, useRestoreItineraryVersion } from "@/hooks/use-queries";
+import {
+  describeItineraryOperation,
+  type ItineraryOperation,
+} from "@/lib/itineraries/revisions";
+import type { ItineraryVersion, ItineraryVersionSource } from "@/lib/itineraries/version-store";
+
+interface VersionHistoryDialogProps {
+  itineraryId: string;
+}
+
+const SOURCE_LABELS: Record<ItineraryVersionSource, string> = {
+  original: "Original plan",
+  revise: "Revised by Alley",
+  edit: "Edited by you",
+  chat: "Changed in chat",
+  restore: "Restored",
+};
+
+function operationMarker(operation: ItineraryOperation): { symbol: string; className: string } {
+  switch (operation.op) {
+    case "add_activity":
+    case "add_day":
+      return { symbol: "+", className: "text-emerald-300" };
+    case "remove_activity":
+    case "remove_day":
+      return { symbol: "−", className: "text-rose-300" };
+    default:
+      return { symbol: "~", className: "text-amber-200" };
+  }
+}
+
+function VersionChanges({ version }: { version: ItineraryVersion }) {
+  if (version.operations.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {version.source === "original" ? "The plan as it was first saved." : "Trip details changed; the day plans did not."}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1" data-testid={`itinerary-version-${version.version}-changes`}>
+      {version.operations.map((operation, index) => {
+        const marker = operationMarker(operation);
+        return (
+          <li key={index} className="flex gap-2 text-xs">
+            <span className={`w-3 shrink-0 font-mono font-semibold ${marker.className}`}>{marker.symbol}</span>
+            <span className="text-violet-100/80">{describeItineraryOperation(operation)}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export function VersionHistoryDialog({ itineraryId }: VersionHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+  const history = useItineraryHistory(itineraryId, { enabled: open });
+  const restore = useRestoreItineraryVersion();
+
+  const currentVersion = history.data?.currentVersion ?? 0;
+  const versions = history.data?.versions ?? [];
+
+  const handleRestore = (version: number, label: string) => {
+    restore.mutate(
+      { id: itineraryId, version },
+      {
+        onSuccess: () => {
+          toast({
+            title: label,
+            description: `Version ${version} is the current plan again. Nothing was deleted from the history.`,
+          });
+          router.refresh();
+        },
+        onError: (error) => {
+          console.error("Error restoring itinerary version:", error);
+          toast({
+            title: "Failed to restore version",
+            description: error.message || "Please try again later",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <History className="h-4 w-4" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every revision, edit and chat change is kept. Restore any version with one click.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : history.isError ? (
+          <p className="text-sm text-muted-foreground">Couldn&apos;t load the history. Please try again later.</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes yet. Revisions and edits will show up here.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {currentVersion > 1 && (
+              <Button
+                onClick={() => handleRestore(currentVersion - 1, "Change undone")}
+                disabled={restore.isPending}
+                className="w-full gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 hover:from-violet-700 hover:to-indigo-700"
+              >
+                {restore.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                Undo last change
+              </Button>
+            )}
+
+            <ol className="max-h-[60vh] space-y-3 overflow-y-auto pr-1">
+              {versions.map((version) => (
+                <li
+                  key={version.version}
+                  className="space-y-2 rounded-xl border border-white/10 bg-white/[0.045] p-3"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold">
+                        Version {version.version} &middot; {SOURCE_LABELS[version.source]}
+                        {version.restoredFrom ? ` (from version ${version.restoredFrom})` : ""}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(version.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    {version.version === currentVersion ? (
+                      <span className="shrink-0 rounded-full bg-violet-500/20 px-2 py-0.5 text-xs font-medium text-violet-100">
+                        Current
+                      </span>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(version.version, "Version restored")}
+                        disabled={restore.isPending}
+                        className="h-8 shrink-0 gap-1"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  {version.summary && version.source === "revise" && (
+                    <p className="text-xs text-violet-100/70">{version.summary}</p>
+                  )}
+                  <VersionChanges version={version} />
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,9 @@
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import type { ItineraryInsight } from "@/lib/itineraries/normalize-daily-plans";
-import { Bus, Lightbulb, Sparkles } from "lucide-react";
+import type { BudgetLine, ItineraryBudget } from "@/lib/itineraries/budget";
+import { formatMoney } from "@/lib/money";
+import { Bus, Lightbulb, Sparkles, Wallet } from "lucide-react";
 
 interface ItineraryInsightsPanelProps {
   insights: ItineraryInsight[];
@@ -9,6 +11,9 @@ interface ItineraryInsightsPanelProps {
   description?: string;
   compact?: boolean;
   className?: string;
+  /** Planned costs, plus logged spend when `showActual` is set */
+  budget?: ItineraryBudget | null;
+  showActual?: boolean;
 }
 
 function getInsightTone(kind: ItineraryInsight["kind"]) {
@@ -38,14 +43,117 @@ function getInsightTone(kind: ItineraryInsight["kind"]) {
   };
 }
 
+function BudgetRows({
+  title,
+  lines,
+  currency,
+  showActual,
+}: {
+  title: string;
+  lines: BudgetLine[];
+  currency: string;
+  showActual: boolean;
+}) {
+  const visible = lines.filter((line) => line.planned > 0 || (showActual && line.actual > 0));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="px-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-100/62">{title}</h4>
+      <ul className="space-y-1">
+        {visible.map((line) => (
+          <li key={line.key} className="flex items-baseline justify-between gap-3 px-1 text-xs">
+            <span className="min-w-0 truncate text-muted-foreground">{line.label}</span>
+            <span className="shrink-0 tabular-nums text-foreground">
+              {showActual && (
+                <span className={cn(line.actual > line.planned && line.planned > 0 && "text-rose-300")}>
+                  {formatMoney(line.actual, currency)}
+                  <span className="text-muted-foreground"> / </span>
+                </span>
+              )}
+              {formatMoney(line.planned, currency)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function BudgetSummary({
+  budget,
+  showActual,
+  compact,
+}: {
+  budget: ItineraryBudget;
+  showActual: boolean;
+  compact: boolean;
+}) {
+  const { currency } = budget;
+  const planned = budget.planned || budget.estimatedTotal || 0;
+  const progress = planned > 0 ? Math.min(100, Math.round((budget.actual / planned) * 100)) : 0;
+  const overBudget = showActual && planned > 0 && budget.actual > planned;
+
+  return (
+    <div
+      className={cn("rounded-lg border border-emerald-300/18 bg-emerald-400/8 p-2.5 text-emerald-100", !compact && "sm:p-3")}
+      data-testid="itinerary-budget-summary"
+    >
+      <div className="flex items-start gap-3">
+        <Wallet className={cn("mt-0.5 h-4 w-4 shrink-0 text-emerald-300", !compact && "h-5 w-5")} aria-hidden="true" />
+        <div className="min-w-0 flex-1 space-y-2">
+          <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+            <h4 className="text-sm font-semibold leading-tight text-foreground">
+              {showActual ? "Planned vs. spent" : "Planned spend"}
+            </h4>
+            <p className="text-sm tabular-nums text-foreground">
+              {showActual && (
+                <span className={cn(overBudget && "text-rose-300")}>
+                  {formatMoney(budget.actual, currency)} of{" "}
+                </span>
+              )}
+              {formatMoney(planned, currency)}
+            </p>
+          </div>
+          {showActual && planned > 0 && (
+            <div className="h-1.5 overflow-hidden rounded-full bg-white/10" aria-hidden="true">
+              <div
+                className={cn("h-full rounded-full", overBudget ? "bg-rose-400" : "bg-emerald-400")}
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          )}
+          {!compact && (
+            <>
+              <BudgetRows title="By day" lines={budget.days} currency={currency} showActual={showActual} />
+              <BudgetRows title="By category" lines={budget.categories} currency={currency} showActual={showActual} />
+            </>
+          )}
+          <p className="text-[11px] leading-relaxed text-muted-foreground">
+            {budget.travellers > 1
+              ? `For ${budget.travellers} travellers, from the plan's per-person prices`
+              : "Per person, from the plan's prices"}
+            {budget.unpricedActivities > 0 &&
+              ` (${budget.unpricedActivities} ${budget.unpricedActivities === 1 ? "price" : "prices"} couldn't be read)`}
+            . Converted at rates as of {budget.fxRatesAsOf}.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export function ItineraryInsightsPanel({
   insights,
   title = "Trip notes",
   description = "Local context, transport notes, and practical advice for the full trip.",
   compact = false,
   className,
+  budget,
+  showActual = false,
 }: ItineraryInsightsPanelProps) {
-  if (insights.length === 0) return null;
+  const hasBudget = Boolean(budget && (budget.planned > 0 || budget.estimatedTotal || (showActual && budget.actual > 0)));
+  if (insights.length === 0 && !hasBudget) return null;
 
   const localCount = insights.filter((insight) => insight.kind === "local").length;
   const transportCount = insights.filter((insight) => insight.kind === "transport").length;
@@ -90,14 +198,22 @@ export function ItineraryInsightsPanel({
             </p>
           )}
         </div>
-        <Badge
-          variant="secondary"
-          className="h-7 w-fit shrink-0 rounded-full border border-violet-300/20 bg-violet-400/12 px-2.5 text-[11px] text-violet-100"
-        >
-          {insights.length} {insights.length === 1 ? "tip" : "tips"}
-        </Badge>
+        {insights.length > 0 && (
+          <Badge
+            variant="secondary"
+            className="h-7 w-fit shrink-0 rounded-full border border-violet-300/20 bg-violet-400/12 px-2.5 text-[11px] text-violet-100"
+          >
+            {insights.length} {insights.length === 1 ? "tip" : "tips"}
+          </Badge>
+        )}
       </div>
 
+      {budget && hasBudget && (
+        <div className={cn(insights.length > 0 && "mb-3")}>
+          <BudgetSummary budget={budget} showActual={showActual} compact={compact} />
+        </div>
+      )}
+
       {!compact && (localCount > 0 || transportCount > 0) && (
         <div className="mb-3 flex flex-wrap gap-1.5">
           {localCount > 0 && (
@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { Bell, Check, CheckCheck, Trash2, X } from "lucide-react";
+import { Bell, Check, CheckCheck, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
     Popover,
@@ -13,6 +13,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ActivityFeedList } from "@/components/feed/activity-feed";
 import { useNotifications } from "@/hooks/use-notifications";
 import { getNotificationMeta, getNotificationUrl } from "@/lib/notifications";
 import { Notification } from "@/types";
@@ -108,6 +110,7 @@ function NotificationSkeleton() {
 export function NotificationCenter() {
     const router = useRouter();
     const [isOpen, setIsOpen] = useState(false);
+    const [tab, setTab] = useState<"notifications" | "following">("notifications");
     const {
         notifications,
         unreadCount,
@@ -144,65 +147,85 @@ export function NotificationCenter() {
                 </Button>
             </PopoverTrigger>
             <PopoverContent className="w-80 p-0" align="end">
-                {/* Header */}
-                <div className="flex items-center justify-between p-3 border-b">
-                    <h3 className="font-semibold">Notifications</h3>
-                    <div className="flex gap-1">
-                        {unreadCount > 0 && (
-                            <Button
-                                variant="ghost"
-                                size="sm"
-                                className="h-7 text-xs"
-                                onClick={markAllAsRead}
-                            >
-                                <CheckCheck className="h-3 w-3 mr-1" />
-                                Mark all read
-                            </Button>
-                        )}
+                <Tabs
+                    value={tab}
+                    onValueChange={(value) => setTab(value as "notifications" | "following")}
+                    className="gap-0"
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between p-3 border-b">
+                        <TabsList className="h-8">
+                            <TabsTrigger value="notifications" className="text-xs">Notifications</TabsTrigger>
+                            <TabsTrigger value="following" className="text-xs">Following</TabsTrigger>
+                        </TabsList>
+                        <div className="flex gap-1">
+                            {tab === "notifications" && unreadCount > 0 && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    onClick={markAllAsRead}
+                                >
+                                    <CheckCheck className="h-3 w-3 mr-1" />
+                                    Mark all read
+                                </Button>
+                            )}
+                        </div>
                     </div>
-                </div>
 
-                {/* Content */}
-                <ScrollArea className="h-[400px]">
-                    {isLoading && notifications.length === 0 ? (
-                        <div className="divide-y">
-                            {[...Array(5)].map((_, i) => (
-                                <NotificationSkeleton key={i} />
-                            ))}
-                        </div>
-                    ) : notifications.length === 0 ? (
-                        <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
-                            <Bell className="h-10 w-10 mb-2 opacity-50" />
-                            <p className="text-sm">No notifications yet</p>
-                        </div>
-                    ) : (
-                        <div className="divide-y">
-                            {notifications.map((notification) => (
-                                <NotificationItem
-                                    key={notification.id}
-                                    notification={notification}
-                                    onRead={() => markAsRead(notification.id)}
-                                    onDelete={() => deleteNotification(notification.id)}
-                                    onClick={() => handleNotificationClick(notification)}
-                                />
-                            ))}
+                    {/* Content */}
+                    <TabsContent value="notifications">
+                        <ScrollArea className="h-[400px]">
+                            {isLoading && notifications.length === 0 ? (
+                                <div className="divide-y">
+                                    {[...Array(5)].map((_, i) => (
+                                        <NotificationSkeleton key={i} />
+                                    ))}
+                                </div>
+                            ) : notifications.length === 0 ? (
+                                <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
+                                    <Bell className="h-10 w-10 mb-2 opacity-50" />
+                                    <p className="text-sm">No notifications yet</p>
+                                </div>
+                            ) : (
+                                <div className="divide-y">
+                                    {notifications.map((notification) => (
+                                        <NotificationItem
+                                            key={notification.id}
+                                            notification={notification}
+                                            onRead={() => markAsRead(notification.id)}
+                                            onDelete={() => deleteNotification(notification.id)}
+                                            onClick={() => handleNotificationClick(notification)}
+                                        />
+                                    ))}
 
-                            {hasMore && (
-                                <div className="p-2">
-                                    <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        className="w-full"
-                                        onClick={loadMore}
-                                        disabled={isLoading}
-                                    >
-                                        {isLoading ? "Loading..." : "Load more"}
-                                    </Button>
+                                    {hasMore && (
+                                        <div className="p-2">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="w-full"
+                                                onClick={loadMore}
+                                                disabled={isLoading}
+                                            >
+                                                {isLoading ? "Loading..." : "Load more"}
+                                            </Button>
+                                        </div>
+                                    )}
                                 </div>
                             )}
-                        </div>
-                    )}
-                </ScrollArea>
+                        </ScrollArea>
+                    </TabsContent>
+
+                    {/* Activity from people the user follows */}
+                    <TabsContent value="following">
+                        <ScrollArea className="h-[400px]">
+                            {tab === "following" && (
+                                <ActivityFeedList limit={10} onNavigate={() => setIsOpen(false)} />
+                            )}
+                        </ScrollArea>
+                    </TabsContent>
+                </Tabs>
 
                 {/* Footer */}
                 <Separator />
@@ -216,7 +239,7 @@ export function NotificationCenter() {
                             router.push("/settings");
                         }}
                     >
-                        Notification settings
+                        {tab === "following" ? "Activity privacy" : "Notification settings"}
                     </Button>
                 </div>
             </PopoverContent>
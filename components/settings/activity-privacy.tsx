@@ -0,0 +1,135 @@
+"use client";
+
+import { Loader2, MapPin, Route, Star, Trophy } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useActivityPrivacy, useUpdateActivityPrivacy } from "@/hooks/use-queries";
+import { useToast } from "@/hooks/use-toast";
+import type { ActivityAudience, ActivityPrivacy } from "@/lib/activity-feed";
+
+const AUDIENCE_LABELS: Record<ActivityAudience, string> = {
+    followers: "Everyone who follows me",
+    mutuals: "Only people I follow back",
+    nobody: "Nobody",
+};
+
+const ACTIVITY_TOGGLES: Array<{
+    key: Exclude<keyof ActivityPrivacy, "audience">;
+    label: string;
+    description: string;
+    icon: typeof Star;
+    color: string;
+}> = [
+    {
+        key: "itineraries",
+        label: "Published itineraries",
+        description: "When you share an itinerary",
+        icon: Route,
+        color: "text-violet-500",
+    },
+    {
+        key: "reviews",
+        label: "Spot reviews",
+        description: "When you review a spot",
+        icon: Star,
+        color: "text-amber-500",
+    },
+    {
+        key: "submissions",
+        label: "Submitted spots",
+        description: "When a spot you found on social media is added",
+        icon: MapPin,
+        color: "text-emerald-500",
+    },
+    {
+        key: "challenges",
+        label: "Completed challenges",
+        description: "When you finish a challenge",
+        icon: Trophy,
+        color: "text-rose-500",
+    },
+];
+
+export function ActivityPrivacySection() {
+    const { toast } = useToast();
+    const { data: privacy, isLoading } = useActivityPrivacy();
+    const updatePrivacy = useUpdateActivityPrivacy();
+
+    const update = async (change: Partial<ActivityPrivacy>) => {
+        try {
+            await updatePrivacy.mutateAsync(change);
+            toast({
+                title: "Privacy updated",
+                description: "Your followers' feeds will reflect this shortly.",
+            });
+        } catch {
+            toast({
+                title: "Error",
+                description: "Failed to update privacy. Please try again.",
+                variant: "destructive",
+            });
+        }
+    };
+
+    if (isLoading || !privacy) {
+        return (
+            <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    const hidden = privacy.audience === "nobody";
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="space-y-0.5">
+                    <Label htmlFor="activity-audience" className="text-base">Who sees your activity</Label>
+                    <p className="text-sm text-muted-foreground">
+                        Shown in the feed of people who follow you
+                    </p>
+                </div>
+                <Select
+                    value={privacy.audience}
+                    onValueChange={(value) => update({ audience: value as ActivityAudience })}
+                    disabled={updatePrivacy.isPending}
+                >
+                    <SelectTrigger id="activity-audience" className="w-full sm:w-56">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(AUDIENCE_LABELS) as ActivityAudience[]).map((audience) => (
+                            <SelectItem key={audience} value={audience}>
+                                {AUDIENCE_LABELS[audience]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {ACTIVITY_TOGGLES.map(({ key, label, description, icon: Icon, color }) => (
+                <div key={key} className="space-y-6">
+                    <Separator />
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-start gap-3">
+                            <Icon className={`h-5 w-5 mt-0.5 ${color}`} />
+                            <div className="space-y-0.5">
+                                <Label htmlFor={`activity-${key}`} className="text-base">{label}</Label>
+                                <p className="text-sm text-muted-foreground">{description}</p>
+                            </div>
+                        </div>
+                        <Switch
+                            id={`activity-${key}`}
+                            checked={!hidden && privacy[key]}
+                            onCheckedChange={(checked) => update({ [key]: checked })}
+                            disabled={hidden || updatePrivacy.isPending}
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -57,16 +57,9 @@ export function SpotInteractions({ spotId, spotName }: SpotInteractionsProps) {
                     url: window.location.href,
                 });
 
-                // Award XP for sharing
-                await fetch("/api/gamification/award", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ action: "share", spotId }),
-                });
-
                 toast({
                     title: "Shared successfully!",
-                    description: "+10 XP earned for sharing",
+                    description: "Thanks for spreading the word",
                 });
             } else {
                 // Fallback: copy to clipboard
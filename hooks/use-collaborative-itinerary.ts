@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth, useUser } from "@clerk/nextjs";
+import { useQueryClient } from "@tanstack/react-query";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { apiClient, isApiError } from "@/lib/api-client";
+import { createSupabaseRealtimeClient } from "@/lib/supabase";
+import {
+  buildCollaborativeEdit,
+  mergeItineraryDrafts,
+  toItineraryDraft,
+  type CollaborativeItinerary,
+  type ItineraryDraft,
+} from "@/lib/itineraries/collaboration";
+import {
+  clearQueuedItineraryEdit,
+  loadQueuedItineraryEdit,
+  queueItineraryEdit,
+} from "@/lib/itineraries/offline";
+import { queryKeys } from "@/hooks/use-queries";
+
+/** How long typing pauses before changes are sent to collaborators */
+const SYNC_DELAY_MS = 1500;
+
+export type SyncStatus = "idle" | "saving" | "saved" | "error" | "offline";
+
+/**
+ * Someone else with the itinerary open. `editing` is the activityKey of the
+ * activity they have open in the editor, if any.
+ */
+export interface ItineraryPeer {
+  userId: string;
+  name: string;
+  imageUrl: string | null;
+  editing: string | null;
+}
+
+type PresencePayload = ItineraryPeer;
+
+/**
+ * Shared editing state for an itinerary. Local edits are diffed into patch
+ * operations and sent a moment after typing stops; the server rebases them if
+ * someone else saved first. Saves by others arrive over the itinerary's
+ * Realtime channel and are merged into the local draft without discarding
+ * unsent edits. The channel also carries presence, so the editor can show
+ * who is here and which activity they are editing.
+ *
+ * Without a connection, edits are queued on the device against the version
+ * they were made on and sent when the browser comes back online. Anything the
+ * server could not rebase because it was changed away meanwhile is reported
+ * in `conflicts`.
+ */
+export function useCollaborativeItinerary(initial: CollaborativeItinerary) {
+  const { getToken } = useAuth();
+  const { user } = useUser();
+  const userId = user?.id;
+  const userName = user?.fullName || user?.username || "Traveller";
+  const userImage = user?.imageUrl || null;
+  const queryClient = useQueryClient();
+
+  const [base, setBase] = useState(initial);
+  const [draft, setDraft] = useState<ItineraryDraft>(() => toItineraryDraft(initial));
+  const [status, setStatus] = useState<SyncStatus>("idle");
+  const [peers, setPeers] = useState<ItineraryPeer[]>([]);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+
+  // Refs mirror state for the async sync loop and channel callbacks
+  const baseRef = useRef(base);
+  const draftRef = useRef(draft);
+  const inFlightRef = useRef(false);
+  const resyncRef = useRef(false);
+  const remoteVersionRef = useRef(initial.version);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const editingRef = useRef<string | null>(null);
+
+  const readOnly = base.role === "viewer";
+  const hasPendingChanges = !readOnly && buildCollaborativeEdit(base, draft) !== null;
+
+  const commit = useCallback((nextBase: CollaborativeItinerary, nextDraft: ItineraryDraft) => {
+    baseRef.current = nextBase;
+    draftRef.current = nextDraft;
+    setBase(nextBase);
+    setDraft(nextDraft);
+  }, []);
+
+  const updateDraft = useCallback((update: (current: ItineraryDraft) => ItineraryDraft) => {
+    const next = update(draftRef.current);
+    draftRef.current = next;
+    setDraft(next);
+  }, []);
+
+  // Merge a newer server state into the draft, keeping unsent local edits
+  const adoptRemote = useCallback((remote: CollaborativeItinerary, sentDraft?: ItineraryDraft) => {
+    if (remote.version < baseRef.current.version) return;
+    const ours = sentDraft ?? toItineraryDraft(baseRef.current);
+    commit(remote, mergeItineraryDrafts(ours, draftRef.current, toItineraryDraft(remote)));
+  }, [commit]);
+
+  const fetchLatest = useCallback(async () => {
+    const result = await apiClient.getCollaborativeItinerary(initial.id);
+    if (isApiError(result)) {
+      console.error("Error loading itinerary changes:", result.error);
+      return;
+    }
+    if (!inFlightRef.current) adoptRemote(result.data.itinerary);
+  }, [adoptRemote, initial.id]);
+
+  // Resolves false if the changes could not be saved
+  const sync = useCallback(async (): Promise<boolean> => {
+    if (baseRef.current.role === "viewer") return false;
+    if (inFlightRef.current) {
+      resyncRef.current = true;
+      return true;
+    }
+    const sent = draftRef.current;
+    const edit = buildCollaborativeEdit(baseRef.current, sent);
+    if (!edit) return true;
+
+    if (!navigator.onLine) {
+      queueItineraryEdit(baseRef.current, sent);
+      setStatus("offline");
+      return false;
+    }
+
+    inFlightRef.current = true;
+    setStatus("saving");
+    try {
+      const result = await apiClient.syncItineraryEdit(initial.id, edit);
+      if (isApiError(result) && result.status === 0) {
+        queueItineraryEdit(baseRef.current, sent);
+        setStatus("offline");
+        return false;
+      }
+      if (isApiError(result)) {
+        throw new Error(result.message || "Failed to save itinerary");
+      }
+      const saved = result.data.itinerary;
+      clearQueuedItineraryEdit(initial.id);
+      adoptRemote(saved, sent);
+      remoteVersionRef.current = Math.max(remoteVersionRef.current, saved.version);
+      if (result.data.conflicts?.length) {
+        setConflicts((current) => [...current, ...result.data.conflicts]);
+      }
+      setStatus("saved");
+      setTimeout(() => setStatus((current) => (current === "saved" ? "idle" : current)), 3000);
+      void channelRef.current?.send({ type: "broadcast", event: "version", payload: { version: saved.version } });
+    } catch (error) {
+      console.error("Save error:", error);
+      setStatus("error");
+      return false;
+    } finally {
+      inFlightRef.current = false;
+    }
+
+    if (resyncRef.current) {
+      resyncRef.current = false;
+      return sync();
+    }
+    if (remoteVersionRef.current > baseRef.current.version) {
+      await fetchLatest();
+    }
+    return true;
+  }, [adoptRemote, fetchLatest, initial.id]);
+
+  // Pick up edits queued while offline, on an earlier visit or before a reload
+  useEffect(() => {
+    const queued = loadQueuedItineraryEdit(initial.id);
+    if (queued && queued.base.role !== "viewer") commit(queued.base, queued.draft);
+  }, [commit, initial.id]);
+
+  // Send queued edits as soon as the connection is back
+  useEffect(() => {
+    const handleOnline = () => void sync();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [sync]);
+
+  // Send changes a moment after the last edit
+  useEffect(() => {
+    if (!hasPendingChanges) return;
+    const timeoutId = setTimeout(() => void sync(), SYNC_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [draft, hasPendingChanges, sync]);
+
+  // Join the itinerary's channel for presence and change notifications
+  useEffect(() => {
+    if (!userId) return;
+
+    let supabase: ReturnType<typeof createSupabaseRealtimeClient>;
+    try {
+      supabase = createSupabaseRealtimeClient(() => getToken({ template: "supabase" }));
+    } catch (error) {
+      console.error("Live collaboration unavailable:", error);
+      return;
+    }
+
+    const channel = supabase.channel(`itinerary:${initial.id}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        setPeers(
+          Object.entries(state)
+            .filter(([key]) => key !== userId)
+            .map(([, presences]) => presences[0])
+            .filter(Boolean)
+            .map((peer) => ({
+              userId: peer.userId,
+              name: peer.name,
+              imageUrl: peer.imageUrl,
+              editing: peer.editing,
+            }))
+        );
+      })
+      .on("broadcast", { event: "version" }, ({ payload }) => {
+        const version = Number(payload?.version);
+        if (!Number.isInteger(version) || version <= remoteVersionRef.current) return;
+        remoteVersionRef.current = version;
+        if (!inFlightRef.current) void fetchLatest();
+      })
+      .on("broadcast", { event: "feedback" }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.itineraryFeedback(initial.id) });
+      })
+      .subscribe((state) => {
+        if (state === "SUBSCRIBED") {
+          void channel.track({
+            userId,
+            name: userName,
+            imageUrl: userImage,
+            editing: editingRef.current,
+          } satisfies PresencePayload);
+        }
+      });
+
+    return () => {
+      channelRef.current = null;
+      void supabase.removeChannel(channel);
+    };
+  }, [fetchLatest, getToken, initial.id, queryClient, userId, userImage, userName]);
+
+  // Tell the others which activity we have open
+  const setEditing = useCallback((activityKey: string | null) => {
+    editingRef.current = activityKey;
+    if (!userId) return;
+    void channelRef.current?.track({
+      userId,
+      name: userName,
+      imageUrl: userImage,
+      editing: activityKey,
+    } satisfies PresencePayload);
+  }, [userId, userImage, userName]);
+
+  // Let the others refetch comments and votes. Viewers may only share
+  // presence on the channel, so their feedback is picked up on the next fetch
+  const announceFeedback = useCallback(() => {
+    if (baseRef.current.role === "viewer") return;
+    void channelRef.current?.send({ type: "broadcast", event: "feedback", payload: {} });
+  }, []);
+
+  const dismissConflicts = useCallback(() => setConflicts([]), []);
+
+  return {
+    draft,
+    updateDraft,
+    version: base.version,
+    role: base.role,
+    readOnly,
+    status,
+    hasPendingChanges,
+    syncNow: sync,
+    peers,
+    setEditing,
+    announceFeedback,
+    conflicts,
+    dismissConflicts,
+  };
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { apiClient, isApiError } from "@/lib/api-client";
+import {
+  getPinnedItineraries,
+  isOfflinePinningSupported,
+  pinItineraryOffline,
+  syncOfflineDataOwner,
+  unpinItineraryOffline,
+  type PinResult,
+  type PinnedItinerary,
+} from "@/lib/itineraries/offline";
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+function subscribeToNothing() {
+  return () => {};
+}
+
+/** Whether the browser thinks it has a connection; true while rendering on the server */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToConnection, () => navigator.onLine, () => true);
+}
+
+/**
+ * Pin an itinerary for offline use. Pinning loads the itinerary's offline
+ * manifest and hands its URLs to the service worker, which keeps them fresh
+ * while online and serves them when the network is gone.
+ */
+export function useOfflineItinerary(itinerary: Omit<PinnedItinerary, "pinnedAt">) {
+  const isSupported = useSyncExternalStore(subscribeToNothing, isOfflinePinningSupported, () => false);
+  const isOnline = useOnlineStatus();
+  const [isPinned, setIsPinned] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const { id, title, city } = itinerary;
+
+  useEffect(() => {
+    if (!isSupported) return;
+    let cancelled = false;
+    getPinnedItineraries()
+      .then((pinned) => {
+        if (!cancelled) setIsPinned(pinned.some((item) => item.id === id));
+      })
+      .catch((error) => console.error("Error checking offline itineraries:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [id, isSupported]);
+
+  const pin = useCallback(async (): Promise<PinResult> => {
+    setIsWorking(true);
+    try {
+      const manifest = await apiClient.getOfflineItinerary(id);
+      if (isApiError(manifest)) {
+        throw new Error(manifest.message || manifest.error);
+      }
+      const result = await pinItineraryOffline({ id, title, city }, manifest.data.urls);
+      setIsPinned(true);
+      return result;
+    } finally {
+      setIsWorking(false);
+    }
+  }, [city, id, title]);
+
+  const unpin = useCallback(async () => {
+    setIsWorking(true);
+    try {
+      await unpinItineraryOffline(id);
+      setIsPinned(false);
+    } finally {
+      setIsWorking(false);
+    }
+  }, [id]);
+
+  return { isSupported, isOnline, isPinned, isWorking, pin, unpin };
+}
+
+/** Drop offline itineraries and queued edits once their user signs out or switches account */
+export function useOfflineDataOwner() {
+  const { isLoaded, userId } = useAuth();
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    syncOfflineDataOwner(userId ?? null).catch((error) =>
+      console.error("Error clearing offline itineraries:", error)
+    );
+  }, [isLoaded, userId]);
+}
@@ -1,8 +1,11 @@
 "use client";
 
 import { useUser } from "@clerk/nextjs";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiClient, isApiError } from "@/lib/api-client";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiClient, isApiError, type AwardPointsRequest, type ChatRequestContext, type ChatRequestMessage } from "@/lib/api-client";
+import type { ActivityPrivacy } from "@/lib/activity-feed";
+import type { ChatItinerary } from "@/lib/itineraries/chat-itinerary";
+import type { CollaboratorRole } from "@/lib/itineraries/collaboration";
 
 // ============================================
 // Query Keys
@@ -14,11 +17,17 @@ export const queryKeys = {
   savedItineraries: ["itineraries", "saved"] as const,
   itinerary: (id: string) => ["itineraries", id] as const,
   itineraryLike: (id: string) => ["itineraries", id, "like"] as const,
+  itineraryHistory: (id: string) => ["itineraries", id, "history"] as const,
+  itineraryCollaborators: (id: string) => ["itineraries", id, "collaborators"] as const,
+  itineraryFeedback: (id: string) => ["itineraries", id, "feedback"] as const,
+  itineraryBudget: (id: string) => ["itineraries", id, "budget"] as const,
   conversations: ["conversations"] as const,
   messages: (conversationId: string) => ["messages", conversationId] as const,
   spotSaved: (spotId: string) => ["spots", spotId, "saved"] as const,
   spotReviews: (spotId: string) => ["spots", spotId, "reviews"] as const,
   emailPreferences: ["user", "emailPreferences"] as const,
+  activityPrivacy: ["user", "activityPrivacy"] as const,
+  activityFeed: ["feed"] as const,
   recommendations: ["recommendations"] as const,
   viatorActivities: (city: string, query?: string) => ["viator", city, query] as const,
   storyBackgrounds: ["story", "backgrounds"] as const,
@@ -270,17 +279,39 @@ export function useMessages(conversationId: string, options?: { enabled?: boolea
 // ============================================
 
 /**
- * Hook to send a chat message.
+ * Hook to send a chat message. Pass `onDelta` to stream the reply token by token.
  */
 export function useSendChatMessage() {
+  const queryClient = useQueryClient();
+
   return useMutation({
-    mutationFn: async (params: { messages: Array<{ role: string; content: string }>; city?: string }) => {
-      const result = await apiClient.sendChatMessage(params.messages, params.city);
+    mutationFn: async ({ messages, onDelta, ...context }: ChatRequestContext & {
+      messages: ChatRequestMessage[];
+      onDelta?: (delta: string) => void;
+    }) => {
+      const result = onDelta
+        ? await apiClient.streamChatMessage(messages, context, onDelta)
+        : await apiClient.sendChatMessage(messages, context);
       if (isApiError(result)) {
         throw new Error(result.message || result.error);
       }
       return result.data;
     },
+    onSuccess: (data) => {
+      // Itinerary edit tools report `{ itineraryId, updated: true }`
+      const updatedIds = new Set(
+        (data.toolCalls ?? []).flatMap((call) => {
+          const result = call.result as { itineraryId?: unknown; updated?: unknown } | null;
+          return !call.isError && result?.updated === true && typeof result.itineraryId === "string"
+            ? [result.itineraryId]
+            : [];
+        })
+      );
+      if (updatedIds.size === 0) return;
+
+      updatedIds.forEach((id) => queryClient.invalidateQueries({ queryKey: queryKeys.itinerary(id) }));
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedItineraries });
+    },
   });
 }
 
@@ -289,8 +320,18 @@ export function useSendChatMessage() {
  */
 export function useSaveMessage() {
   return useMutation({
-    mutationFn: async (params: { conversationId: string; role: string; content: string }) => {
-      const result = await apiClient.saveMessage(params.conversationId, params.role, params.content);
+    mutationFn: async (params: {
+      conversationId: string;
+      role: string;
+      content: string;
+      itinerary?: ChatItinerary;
+    }) => {
+      const result = await apiClient.saveMessage(
+        params.conversationId,
+        params.role,
+        params.content,
+        params.itinerary
+      );
       if (isApiError(result)) {
         throw new Error(result.message || result.error);
       }
@@ -311,7 +352,46 @@ export function useReviseItinerary() {
       if (isApiError(result)) {
         throw new Error(result.message || result.error);
       }
-      return result.data.itinerary;
+      return result.data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.itinerary(variables.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedItineraries });
+    },
+  });
+}
+
+/**
+ * Hook to fetch an itinerary's version history.
+ */
+export function useItineraryHistory(id: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.itineraryHistory(id),
+    queryFn: async () => {
+      const result = await apiClient.getItineraryHistory(id);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+/**
+ * Hook to restore an earlier version of an itinerary (undo restores the one
+ * before the current version).
+ */
+export function useRestoreItineraryVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; version: number }) => {
+      const result = await apiClient.restoreItineraryVersion(params.id, params.version);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.itinerary(variables.id) });
@@ -320,6 +400,103 @@ export function useReviseItinerary() {
   });
 }
 
+/**
+ * Hook to fetch the people an itinerary is shared with and the viewer's role.
+ */
+export function useItineraryCollaborators(id: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.itineraryCollaborators(id),
+    queryFn: async () => {
+      const result = await apiClient.getItineraryCollaborators(id);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+/**
+ * Hook to create an invite link for an editor or viewer.
+ */
+export function useInviteCollaborator() {
+  return useMutation({
+    mutationFn: async (params: { id: string; role: CollaboratorRole }) => {
+      const result = await apiClient.inviteItineraryCollaborator(params.id, params.role);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Hook to remove a collaborator (or leave an itinerary as one).
+ */
+export function useRemoveCollaborator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; userId: string }) => {
+      const result = await apiClient.removeItineraryCollaborator(params.id, params.userId);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.itineraryCollaborators(variables.id) });
+    },
+  });
+}
+
+/**
+ * Hook to fetch comments and votes on an itinerary's activities.
+ */
+export function useItineraryFeedback(id: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.itineraryFeedback(id),
+    queryFn: async () => {
+      const result = await apiClient.getItineraryFeedback(id);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data.feedback;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+/**
+ * Hook to comment on or vote for an activity. Pass `comment` to comment,
+ * otherwise `vote` (-1, 0 to clear, or 1).
+ */
+export function useActivityFeedback() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; activityKey: string; comment?: string; vote?: -1 | 0 | 1 }) => {
+      if (params.comment !== undefined) {
+        const result = await apiClient.commentOnActivity(params.id, params.activityKey, params.comment);
+        if (isApiError(result)) {
+          throw new Error(result.message || result.error);
+        }
+        return result.data;
+      }
+      const result = await apiClient.voteOnActivity(params.id, params.activityKey, params.vote ?? 0);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.itineraryFeedback(variables.id) });
+    },
+  });
+}
+
 // ============================================
 // Itinerary Mutations
 // ============================================
@@ -360,6 +537,79 @@ export function useShareItinerary() {
   });
 }
 
+/**
+ * Hook to set an itinerary's start date or turn its calendar feed on or off.
+ */
+export function useUpdateItineraryCalendar() {
+  return useMutation({
+    mutationFn: async (params: { id: string; startDate?: string | null; feed?: boolean }) => {
+      const { id, ...settings } = params;
+      const result = await apiClient.updateItineraryCalendar(id, settings);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Hook to fetch a trip's budget, expenses and bill split.
+ */
+export function useItineraryBudget(id: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.itineraryBudget(id),
+    queryFn: async () => {
+      const result = await apiClient.getItineraryBudget(id);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    enabled: options?.enabled ?? true,
+  });
+}
+
+/**
+ * Hook to log something the group spent.
+ */
+export function useLogItineraryExpense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; expense: Parameters<typeof apiClient.logItineraryExpense>[1] }) => {
+      const result = await apiClient.logItineraryExpense(params.id, params.expense);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data.expense;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.itineraryBudget(variables.id) });
+    },
+  });
+}
+
+/**
+ * Hook to remove a logged expense.
+ */
+export function useDeleteItineraryExpense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; expenseId: string }) => {
+      const result = await apiClient.deleteItineraryExpense(params.id, params.expenseId);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.itineraryBudget(variables.id) });
+    },
+  });
+}
+
 /**
  * Hook to email an itinerary.
  */
@@ -596,6 +846,68 @@ export function useUpdateEmailPreferences() {
   });
 }
 
+/**
+ * Hook to get who can see the user's activity.
+ */
+export function useActivityPrivacy() {
+  return useQuery({
+    queryKey: queryKeys.activityPrivacy,
+    queryFn: async () => {
+      const result = await apiClient.getActivityPrivacy();
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data.privacy;
+    },
+  });
+}
+
+/**
+ * Hook to update activity privacy.
+ */
+export function useUpdateActivityPrivacy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (privacy: Partial<ActivityPrivacy>) => {
+      const result = await apiClient.updateActivityPrivacy(privacy);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data.privacy;
+    },
+    onSuccess: (privacy) => {
+      queryClient.setQueryData(queryKeys.activityPrivacy, privacy);
+    },
+  });
+}
+
+// ============================================
+// Activity Feed
+// ============================================
+
+/**
+ * Hook to page through followed travellers' activity, newest first.
+ *
+ * - Stale time: 1 minute (the server caches pages for as long)
+ */
+export function useActivityFeed(options?: { enabled?: boolean; limit?: number }) {
+  return useInfiniteQuery({
+    queryKey: [...queryKeys.activityFeed, options?.limit],
+    queryFn: async ({ pageParam }) => {
+      const result = await apiClient.getActivityFeed(pageParam, options?.limit);
+      if (isApiError(result)) {
+        throw new Error(result.message || result.error);
+      }
+      return result.data;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: 60 * 1000,
+    enabled: options?.enabled ?? true,
+  });
+}
+
 // ============================================
 // Recommendations
 // ============================================
@@ -671,7 +983,7 @@ export function useTrackAffiliateClick() {
  */
 export function useAwardPoints() {
   return useMutation({
-    mutationFn: async (data: { action: string; amount: number; metadata?: Record<string, unknown> }) => {
+    mutationFn: async (data: AwardPointsRequest) => {
       const result = await apiClient.awardPoints(data);
       if (isApiError(result)) {
         throw new Error(result.message || result.error);
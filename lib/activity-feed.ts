@@ -0,0 +1,457 @@
+import { unstable_cache } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { cacheConfig, cacheKeys, expireCache, expireUserCache } from "@/lib/cache";
+
+/**
+ * Activity feed for followed travellers.
+ *
+ * Fan-out on read: nothing is written per follower. A page is assembled by
+ * asking each source table for the newest rows by the people the viewer
+ * follows (after their privacy settings), merging, and cutting at the cursor.
+ * Pages are cached briefly per viewer; follows and privacy changes drop the
+ * affected caches, new activity shows up when the cache expires.
+ */
+
+export type ActivityKind =
+    | "itinerary_published"
+    | "spot_reviewed"
+    | "spot_submitted"
+    | "challenge_completed";
+
+/** Who sees a user's activity: everyone following them, only people they follow back, or no one */
+export type ActivityAudience = "followers" | "mutuals" | "nobody";
+
+export interface ActivityPrivacy {
+    audience: ActivityAudience;
+    itineraries: boolean;
+    reviews: boolean;
+    submissions: boolean;
+    challenges: boolean;
+}
+
+type ActivityToggle = Exclude<keyof ActivityPrivacy, "audience">;
+
+export const ACTIVITY_AUDIENCES: ActivityAudience[] = ["followers", "mutuals", "nobody"];
+
+export const DEFAULT_ACTIVITY_PRIVACY: ActivityPrivacy = {
+    audience: "followers",
+    itineraries: true,
+    reviews: true,
+    submissions: true,
+    challenges: true,
+};
+
+export interface ActivityActor {
+    clerkId: string;
+    username: string;
+    level: number;
+}
+
+export interface ActivityFeedItem {
+    /** `${kind}:${key}`, unique across the feed and the cursor tie-break */
+    id: string;
+    kind: ActivityKind;
+    /** UTC with microseconds, so it sorts as a string the way the database does */
+    occurredAt: string;
+    actor: ActivityActor;
+    /** Itinerary title, spot name or challenge name */
+    title: string;
+    /** Review excerpt, trip length, platform or XP earned */
+    detail: string | null;
+    city: string | null;
+    rating: number | null;
+    href: string;
+}
+
+export interface ActivityFeedPage {
+    items: ActivityFeedItem[];
+    nextCursor: string | null;
+}
+
+export interface ActivityFeedOptions {
+    cursor?: string | null;
+    limit?: number;
+}
+
+interface FeedCursor {
+    occurredAt: string;
+    id: string;
+    kind: ActivityKind;
+    /** The source row's key column value */
+    key: string;
+}
+
+type Row = Record<string, unknown>;
+
+type SourceItem = Omit<ActivityFeedItem, "actor" | "id" | "kind" | "occurredAt"> & {
+    key: string;
+    /** Extra id part for rows the key alone doesn't identify */
+    suffix?: string;
+    occurredAt: string;
+    actorId: string;
+};
+
+/**
+ * One kind of activity. Rows are read newest first by (timeColumn, keyColumn),
+ * which is also the order of the feed ids built from them.
+ */
+interface ActivitySource {
+    kind: ActivityKind;
+    toggle: ActivityToggle;
+    table: string;
+    columns: string;
+    timeColumn: string;
+    keyColumn: string;
+    where?: (query: SourceQuery) => SourceQuery;
+    toItem(row: Row): SourceItem;
+}
+
+type SourceQuery = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+
+const APPROVED_SUBMISSION_STATUSES = ["spot_created", "spot_reused"];
+
+const MAX_PAGE_SIZE = 50;
+
+function localizedName(value: unknown): string {
+    if (typeof value === "string") return value;
+    return (value as { en?: string } | null)?.en ?? "a spot";
+}
+
+function excerpt(text: unknown, length = 140): string | null {
+    if (typeof text !== "string" || !text) return null;
+    return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function one<T>(value: T | T[] | null | undefined): T | null {
+    return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+const ACTIVITY_SOURCES: ActivitySource[] = [
+    {
+        kind: "itinerary_published",
+        toggle: "itineraries",
+        table: "itineraries",
+        columns: "id, title, city, days, share_code, shared_at, clerk_user_id",
+        timeColumn: "shared_at",
+        keyColumn: "id",
+        where: (query) => query.eq("shared", true).not("shared_at", "is", null),
+        toItem: (row) => ({
+            key: row.id as string,
+            occurredAt: row.shared_at as string,
+            actorId: row.clerk_user_id as string,
+            title: row.title as string,
+            detail: `${row.days}-day trip`,
+            city: (row.city as string | null) ?? null,
+            rating: null,
+            href: `/shared/${row.share_code}`,
+        }),
+    },
+    {
+        kind: "spot_reviewed",
+        toggle: "reviews",
+        table: "spot_reviews",
+        columns: "id, spot_id, rating, comment, created_at, clerk_user_id, spot:spots(name)",
+        timeColumn: "created_at",
+        keyColumn: "id",
+        toItem: (row) => ({
+            key: row.id as string,
+            occurredAt: row.created_at as string,
+            actorId: row.clerk_user_id as string,
+            title: localizedName(one(row.spot as { name: unknown } | { name: unknown }[] | null)?.name),
+            detail: excerpt(row.comment),
+            city: null,
+            rating: (row.rating as number | null) ?? null,
+            href: `/spots/${row.spot_id}`,
+        }),
+    },
+    {
+        kind: "spot_submitted",
+        toggle: "submissions",
+        table: "social_spot_submissions",
+        columns: "id, spot_id, platform, extracted_name, extracted_city, created_at, clerk_user_id",
+        timeColumn: "created_at",
+        keyColumn: "id",
+        where: (query) => query.in("status", APPROVED_SUBMISSION_STATUSES).not("spot_id", "is", null),
+        toItem: (row) => ({
+            key: row.id as string,
+            occurredAt: row.created_at as string,
+            actorId: row.clerk_user_id as string,
+            title: (row.extracted_name as string | null) || "a local spot",
+            detail: row.platform === "tiktok" ? "Found on TikTok" : "Found on Instagram",
+            city: (row.extracted_city as string | null) ?? null,
+            rating: null,
+            href: `/spots/${row.spot_id}`,
+        }),
+    },
+    {
+        kind: "challenge_completed",
+        toggle: "challenges",
+        table: "user_challenges",
+        columns: "challenge_id, completed_at, clerk_user_id, challenge:challenges(name, city, xp_reward)",
+        timeColumn: "completed_at",
+        keyColumn: "challenge_id",
+        where: (query) => query.eq("completed", true).not("completed_at", "is", null),
+        toItem: (row) => {
+            const challenge = one(
+                row.challenge as { name: string; city: string | null; xp_reward: number | null } | null
+            );
+            return {
+                key: row.challenge_id as string,
+                suffix: row.clerk_user_id as string,
+                occurredAt: row.completed_at as string,
+                actorId: row.clerk_user_id as string,
+                title: challenge?.name ?? "a challenge",
+                detail: challenge?.xp_reward ? `+${challenge.xp_reward} XP` : null,
+                city: challenge?.city ?? null,
+                rating: null,
+                href: "/challenges",
+            };
+        },
+    },
+];
+
+const SOURCE_KINDS = ACTIVITY_SOURCES.map((source) => source.kind);
+
+/**
+ * Merge a stored activity_privacy value over the defaults, ignoring anything malformed
+ */
+export function resolveActivityPrivacy(value: unknown): ActivityPrivacy {
+    const stored = value && typeof value === "object" ? (value as Partial<Record<keyof ActivityPrivacy, unknown>>) : {};
+    const toggle = (key: ActivityToggle) =>
+        typeof stored[key] === "boolean" ? (stored[key] as boolean) : DEFAULT_ACTIVITY_PRIVACY[key];
+
+    return {
+        audience: ACTIVITY_AUDIENCES.includes(stored.audience as ActivityAudience)
+            ? (stored.audience as ActivityAudience)
+            : DEFAULT_ACTIVITY_PRIVACY.audience,
+        itineraries: toggle("itineraries"),
+        reviews: toggle("reviews"),
+        submissions: toggle("submissions"),
+        challenges: toggle("challenges"),
+    };
+}
+
+/**
+ * Postgres timestamps as `YYYY-MM-DDTHH:MM:SS.ffffffZ`. A JS Date would drop
+ * the microseconds, and then rows the database sees as distinct could tie
+ * (or swap) at a page boundary.
+ */
+export function toSortableTimestamp(value: string): string {
+    const match = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}(?::?\d{2})?)?$/.exec(value);
+    if (!match) return new Date(value).toISOString().replace("Z", "000Z");
+
+    const [, date, time, fraction = "", zone = "Z"] = match;
+    const offset = zone === "Z" ? "Z" : zone.length === 3 ? `${zone}:00` : zone.replace(/^([+-]\d{2}):?(\d{2})$/, "$1:$2");
+    const seconds = new Date(`${date}T${time}${offset}`).toISOString().slice(0, 19);
+    return `${seconds}.${fraction.padEnd(6, "0").slice(0, 6)}Z`;
+}
+
+export function encodeFeedCursor(item: Pick<ActivityFeedItem, "occurredAt" | "id">): string {
+    return Buffer.from(JSON.stringify([item.occurredAt, item.id])).toString("base64url");
+}
+
+// Every source's key column is a UUID
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Returns null for anything that isn't a cursor this module produced. The
+ * timestamp and key end up in a PostgREST filter, so both must be exactly the
+ * shape the feed writes.
+ */
+export function decodeFeedCursor(cursor: string): FeedCursor | null {
+    try {
+        const [occurredAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+        if (
+            typeof occurredAt !== "string" ||
+            typeof id !== "string" ||
+            !ISO_TIMESTAMP_PATTERN.test(occurredAt) ||
+            Number.isNaN(Date.parse(occurredAt))
+        ) {
+            return null;
+        }
+        const [kind, key] = id.split(":");
+        if (!SOURCE_KINDS.includes(kind as ActivityKind) || !UUID_PATTERN.test(key ?? "")) return null;
+        return { occurredAt: toSortableTimestamp(occurredAt), id, kind: kind as ActivityKind, key };
+    } catch {
+        return null;
+    }
+}
+
+// Newest first; the id breaks ties between things that happened at the same instant
+function compareItems(a: Pick<ActivityFeedItem, "occurredAt" | "id">, b: Pick<ActivityFeedItem, "occurredAt" | "id">) {
+    if (a.occurredAt !== b.occurredAt) return a.occurredAt < b.occurredAt ? 1 : -1;
+    return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Rows of one source that come after the cursor in feed order. Rows from the
+ * cursor's own source at the cursor's instant continue by key; other sources'
+ * rows at that instant sort by kind, since the kind leads the feed id.
+ */
+function afterCursor(query: SourceQuery, source: ActivitySource, after: FeedCursor): SourceQuery {
+    const at = `"${after.occurredAt}"`;
+    if (source.kind === after.kind) {
+        return query.or(
+            `${source.timeColumn}.lt.${at},and(${source.timeColumn}.eq.${at},${source.keyColumn}.lt."${after.key}")`
+        );
+    }
+    return source.kind < after.kind
+        ? query.lte(source.timeColumn, after.occurredAt)
+        : query.lt(source.timeColumn, after.occurredAt);
+}
+
+async function loadSource(
+    supabase: SupabaseClient,
+    source: ActivitySource,
+    actorIds: string[],
+    after: FeedCursor | null,
+    limit: number
+): Promise<Array<Omit<ActivityFeedItem, "actor"> & { actorId: string }>> {
+    // Columns vary by source, so the row type is ours (Row) rather than inferred
+    let query = (supabase.from(source.table).select(source.columns) as unknown as SourceQuery)
+        .in("clerk_user_id", actorIds);
+    if (source.where) query = source.where(query);
+    if (after) query = afterCursor(query, source, after);
+
+    const { data, error } = await query
+        .order(source.timeColumn, { ascending: false })
+        .order(source.keyColumn, { ascending: false })
+        .limit(limit);
+    if (error) throw new Error(`Failed to load ${source.kind} activity: ${error.message}`);
+
+    return ((data ?? []) as unknown as Row[]).map((row) => {
+        const { key, suffix, occurredAt, ...item } = source.toItem(row);
+        return {
+            ...item,
+            id: [source.kind, key, suffix].filter(Boolean).join(":"),
+            kind: source.kind,
+            occurredAt: toSortableTimestamp(occurredAt),
+        };
+    });
+}
+
+/**
+ * The people the viewer follows whose settings let the viewer see their
+ * activity, with those settings
+ */
+async function loadVisibleActors(
+    supabase: SupabaseClient,
+    viewerClerkUserId: string
+): Promise<Map<string, ActivityActor & { privacy: ActivityPrivacy }>> {
+    const { data: follows, error } = await supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", viewerClerkUserId);
+    if (error) throw new Error(`Failed to load follows: ${error.message}`);
+
+    const followingIds = (follows ?? []).map((row) => row.following_id as string);
+    if (followingIds.length === 0) return new Map();
+
+    const { data: users, error: usersError } = await supabase
+        .from("users")
+        .select("clerk_id, username, level, activity_privacy")
+        .in("clerk_id", followingIds);
+    if (usersError) throw new Error(`Failed to load followed users: ${usersError.message}`);
+
+    const candidates = (users ?? []).map((user) => ({
+        clerkId: user.clerk_id as string,
+        username: (user.username as string | null) || "Explorer",
+        level: (user.level as number | null) || 1,
+        privacy: resolveActivityPrivacy(user.activity_privacy),
+    }));
+
+    // "mutuals" only counts if they follow the viewer back
+    const mutualOnly = candidates.filter((actor) => actor.privacy.audience === "mutuals").map((actor) => actor.clerkId);
+    const followsBack = new Set<string>();
+    if (mutualOnly.length > 0) {
+        const { data: back } = await supabase
+            .from("follows")
+            .select("follower_id")
+            .eq("following_id", viewerClerkUserId)
+            .in("follower_id", mutualOnly);
+        for (const row of back ?? []) followsBack.add(row.follower_id as string);
+    }
+
+    return new Map(
+        candidates
+            .filter((actor) =>
+                actor.privacy.audience === "followers" ||
+                (actor.privacy.audience === "mutuals" && followsBack.has(actor.clerkId))
+            )
+            .map((actor) => [actor.clerkId, actor])
+    );
+}
+
+/**
+ * Build one page of the viewer's feed straight from the source tables
+ */
+export async function loadActivityFeed(
+    viewerClerkUserId: string,
+    { cursor = null, limit = 20 }: ActivityFeedOptions = {},
+    client?: SupabaseClient
+): Promise<ActivityFeedPage> {
+    const supabase = client ?? createSupabaseAdmin();
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const after = cursor ? decodeFeedCursor(cursor) : null;
+
+    const actors = await loadVisibleActors(supabase, viewerClerkUserId);
+    if (actors.size === 0) return { items: [], nextCursor: null };
+
+    // Each source can fill the page on its own, so ask each for one more than a page
+    const batches = await Promise.all(
+        ACTIVITY_SOURCES.map((source) => {
+            const actorIds = [...actors.values()]
+                .filter((actor) => actor.privacy[source.toggle])
+                .map((actor) => actor.clerkId);
+            return actorIds.length > 0
+                ? loadSource(supabase, source, actorIds, after, pageSize + 1)
+                : Promise.resolve([]);
+        })
+    );
+
+    const merged = batches.flat().sort(compareItems);
+    const page = merged.slice(0, pageSize);
+
+    return {
+        items: page.map(({ actorId, ...item }) => {
+            const { clerkId, username, level } = actors.get(actorId)!;
+            return { ...item, actor: { clerkId, username, level } };
+        }),
+        nextCursor: merged.length > pageSize ? encodeFeedCursor(page[page.length - 1]) : null,
+    };
+}
+
+/**
+ * The viewer's feed page, cached per viewer and cursor
+ */
+export async function getActivityFeed(
+    viewerClerkUserId: string,
+    { cursor = null, limit = 20 }: ActivityFeedOptions = {}
+): Promise<ActivityFeedPage> {
+    const cachedFetch = unstable_cache(
+        () => loadActivityFeed(viewerClerkUserId, { cursor, limit }),
+        [...cacheKeys.activityFeed(viewerClerkUserId), cursor ?? "first", String(limit)],
+        {
+            revalidate: cacheConfig.activityFeed.revalidate,
+            tags: [...cacheConfig.activityFeed.tags, `activity-feed:${viewerClerkUserId}`],
+        }
+    );
+    return cachedFetch();
+}
+
+/**
+ * Drop cached feed pages after the viewer follows or unfollows someone
+ */
+export function invalidateActivityFeed(viewerClerkUserId: string): void {
+    expireUserCache(viewerClerkUserId, "activity-feed");
+}
+
+/**
+ * Drop every cached feed page. A privacy change can hide someone from any of
+ * their followers, and we don't know whose pages include them.
+ */
+export function invalidateAllActivityFeeds(): void {
+    expireCache("activity-feed");
+}
@@ -7,6 +7,26 @@
  * - Centralized configuration
  */
 
+import type { ChatItinerary } from "@/lib/itineraries/chat-itinerary";
+import type {
+  ActivityComment,
+  ActivityFeedback,
+  CollaborativeEdit,
+  CollaborativeItinerary,
+  CollaboratorRole,
+  ItineraryCollaborator,
+  ItineraryInvite,
+  ItineraryRole,
+} from "@/lib/itineraries/collaboration";
+import type {
+  ItineraryBudgetReport,
+  ItineraryExpense,
+  ItineraryExpenseRequest,
+} from "@/lib/itineraries/budget";
+import type { ItineraryVersion } from "@/lib/itineraries/version-store";
+import type { ActivityFeedPage, ActivityPrivacy } from "@/lib/activity-feed";
+import type { Spot } from "@/types";
+
 // ============================================
 // Base API Types
 // ============================================
@@ -76,6 +96,135 @@ export interface SavedItinerary extends Itinerary {
   userId: string;
 }
 
+export interface ItineraryHistory {
+  currentVersion: number;
+  /** Newest first */
+  versions: ItineraryVersion[];
+}
+
+export interface ItineraryRevision {
+  itinerary: Itinerary;
+  version: number;
+  /** One line per change the revision made */
+  changes: string[];
+}
+
+export interface ItinerarySyncResult {
+  itinerary: CollaborativeItinerary;
+  /** True when someone else saved first and the edit was merged onto theirs */
+  rebased: boolean;
+  /** Changes that were dropped because what they edited is gone */
+  conflicts: string[];
+}
+
+export interface ItineraryCollaborators {
+  role: ItineraryRole;
+  collaborators: ItineraryCollaborator[];
+}
+
+export interface ItineraryCalendarSettings {
+  startDate: string | null;
+  /** Subscription URLs; null while the feed is turned off */
+  feed: { feedUrl: string; webcalUrl: string } | null;
+}
+
+export interface ItineraryBudgetDetails extends ItineraryBudgetReport {
+  role: ItineraryRole;
+}
+
+export interface OfflineItineraryManifest {
+  itinerary: CollaborativeItinerary;
+  /** Spot records matched to the plan's activities */
+  spots: Spot[];
+  /** What the service worker caches when the itinerary is pinned */
+  urls: string[];
+}
+
+/**
+ * A tool Alley called while writing a reply; saved with the message and sent
+ * back with later turns.
+ */
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: unknown;
+  result: unknown;
+  isError: boolean;
+}
+
+export interface ChatReply {
+  message: string;
+  provider: "glm" | "anthropic";
+  model: string;
+  fallbackUsed: boolean;
+  primaryProvider: "glm";
+  primaryModel: string;
+  toolCalls?: ChatToolCall[];
+  /** Structured itinerary when the reply contains one */
+  itinerary?: ChatItinerary;
+  /** Set when the server saved the reply to the conversation */
+  messageId?: string;
+}
+
+export interface ChatRequestMessage {
+  role: string;
+  content: string;
+}
+
+export interface ChatRequestContext {
+  city?: string;
+  /** Saved itinerary Alley may read and edit */
+  itineraryId?: string;
+  /** Saved conversation; the server loads earlier turns, so only new messages need sending */
+  conversationId?: string;
+}
+
+function chatRequestBody(messages: ChatRequestMessage[], { city, itineraryId, conversationId }: ChatRequestContext): string {
+  return JSON.stringify({
+    messages,
+    ...(city && { city }),
+    ...(itineraryId && { itineraryId }),
+    ...(conversationId && { conversationId }),
+  });
+}
+
+type ChatStreamStart = Omit<ChatReply, "message" | "toolCalls" | "itinerary" | "messageId"> & { type: "start" };
+
+type ChatStreamEvent =
+  | ChatStreamStart
+  | { type: "tool"; call: ChatToolCall }
+  | { type: "delta"; content: string }
+  | { type: "done"; content: string; toolCalls?: ChatToolCall[]; itinerary?: ChatItinerary; messageId?: string }
+  | { type: "error"; message: string };
+
+/**
+ * Parse `data:` frames from a server-sent event stream, across chunk boundaries
+ */
+async function* readServerSentEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const data = buffer
+        .slice(0, boundary)
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice(6))
+        .join("\n");
+      buffer = buffer.slice(boundary + 2);
+      if (data) yield JSON.parse(data) as T;
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
 export interface Conversation {
   id: string;
   title?: string;
@@ -100,6 +249,23 @@ export interface Message {
   createdAt: string;
 }
 
+export interface AwardPointsRequest {
+  action: string;
+  spotId?: string;
+  itineraryId?: string;
+}
+
+export interface AwardPointsResult {
+  success: boolean;
+  status: "awarded" | "duplicate" | "capped";
+  xpAwarded: number;
+  newTotalXp: number;
+  newLevel: number;
+  levelUp: boolean;
+  streak: number;
+  message: string;
+}
+
 // ============================================
 // API Client Class
 // ============================================
@@ -243,29 +409,84 @@ class ApiClient {
   // ============================================
 
   async sendChatMessage(
-    messages: Array<{ role: string; content: string }>,
-    city?: string
-  ): Promise<ApiResult<{
-    message: string;
-    provider: "glm" | "anthropic";
-    model: string;
-    fallbackUsed: boolean;
-    primaryProvider: "glm";
-    primaryModel: string;
-  }>> {
-    return this.request<{
-      message: string;
-      provider: "glm" | "anthropic";
-      model: string;
-      fallbackUsed: boolean;
-      primaryProvider: "glm";
-      primaryModel: string;
-    }>("/api/chat", {
+    messages: ChatRequestMessage[],
+    context: ChatRequestContext = {}
+  ): Promise<ApiResult<ChatReply>> {
+    return this.request<ChatReply>("/api/chat", {
       method: "POST",
-      body: JSON.stringify({ messages, ...(city && { city }) }),
+      body: chatRequestBody(messages, context),
     });
   }
 
+  /**
+   * Same as `sendChatMessage`, but hands each token to `onDelta` as it
+   * arrives. Resolves with the complete reply once the stream ends.
+   */
+  async streamChatMessage(
+    messages: ChatRequestMessage[],
+    context: ChatRequestContext,
+    onDelta: (delta: string) => void
+  ): Promise<ApiResult<ChatReply>> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: chatRequestBody(messages, context),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        return {
+          error: data.error || "Request failed",
+          message: data.message,
+          code: data.code,
+          status: response.status,
+          details: data,
+        };
+      }
+
+      let start: ChatStreamStart | null = null;
+      let message = "";
+      let toolCalls: ChatToolCall[] | undefined;
+      let itinerary: ChatItinerary | undefined;
+      let messageId: string | undefined;
+      for await (const event of readServerSentEvents<ChatStreamEvent>(response.body)) {
+        if (event.type === "start") start = event;
+        else if (event.type === "tool") continue;
+        else if (event.type === "delta") onDelta(event.content);
+        else if (event.type === "done") ({ content: message, toolCalls, itinerary, messageId } = event);
+        else return { error: "Stream interrupted", message: event.message, status: response.status };
+      }
+
+      if (!start) {
+        return { error: "Stream interrupted", message: "The reply ended before it started.", status: response.status };
+      }
+      return {
+        data: {
+          message,
+          provider: start.provider,
+          model: start.model,
+          fallbackUsed: start.fallbackUsed,
+          primaryProvider: start.primaryProvider,
+          primaryModel: start.primaryModel,
+          ...(toolCalls && { toolCalls }),
+          ...(itinerary && { itinerary }),
+          ...(messageId && { messageId }),
+        },
+        status: response.status,
+      };
+    } catch (error) {
+      return {
+        error: "Network error",
+        message: error instanceof Error ? error.message : "Unknown error",
+        status: 0,
+      };
+    }
+  }
+
   // ============================================
   // Itinerary Mutations
   // ============================================
@@ -331,13 +552,118 @@ class ApiClient {
   async reviseItinerary(
     id: string,
     revisionRequest: string
-  ): Promise<ApiResult<{ itinerary: Itinerary }>> {
-    return this.request<{ itinerary: Itinerary }>(`/api/itineraries/${id}/revise`, {
+  ): Promise<ApiResult<ItineraryRevision>> {
+    return this.request<ItineraryRevision>(`/api/itineraries/${id}/revise`, {
       method: "POST",
       body: JSON.stringify({ revisionRequest }),
     });
   }
 
+  async getItineraryHistory(id: string): Promise<ApiResult<ItineraryHistory>> {
+    return this.request<ItineraryHistory>(`/api/itineraries/${id}/versions`);
+  }
+
+  async restoreItineraryVersion(
+    id: string,
+    version: number
+  ): Promise<ApiResult<{ version: number }>> {
+    return this.request<{ version: number }>(`/api/itineraries/${id}/versions/${version}/restore`, {
+      method: "POST",
+    });
+  }
+
+  async getCollaborativeItinerary(id: string): Promise<ApiResult<{ itinerary: CollaborativeItinerary }>> {
+    return this.request<{ itinerary: CollaborativeItinerary }>(`/api/itineraries/${id}/collaborate`);
+  }
+
+  async syncItineraryEdit(id: string, edit: CollaborativeEdit): Promise<ApiResult<ItinerarySyncResult>> {
+    return this.request<ItinerarySyncResult>(`/api/itineraries/${id}/collaborate`, {
+      method: "POST",
+      body: JSON.stringify(edit),
+    });
+  }
+
+  async getItineraryCollaborators(id: string): Promise<ApiResult<ItineraryCollaborators>> {
+    return this.request<ItineraryCollaborators>(`/api/itineraries/${id}/collaborators`);
+  }
+
+  async inviteItineraryCollaborator(
+    id: string,
+    role: CollaboratorRole
+  ): Promise<ApiResult<ItineraryInvite & { inviteUrl: string }>> {
+    return this.request<ItineraryInvite & { inviteUrl: string }>(`/api/itineraries/${id}/collaborators`, {
+      method: "POST",
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeItineraryCollaborator(id: string, userId: string): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(
+      `/api/itineraries/${id}/collaborators?userId=${encodeURIComponent(userId)}`,
+      { method: "DELETE" }
+    );
+  }
+
+  async getItineraryFeedback(id: string): Promise<ApiResult<{ feedback: ActivityFeedback[] }>> {
+    return this.request<{ feedback: ActivityFeedback[] }>(`/api/itineraries/${id}/feedback`);
+  }
+
+  async commentOnActivity(
+    id: string,
+    activityKey: string,
+    comment: string
+  ): Promise<ApiResult<{ comment: ActivityComment }>> {
+    return this.request<{ comment: ActivityComment }>(`/api/itineraries/${id}/feedback`, {
+      method: "POST",
+      body: JSON.stringify({ activityKey, comment }),
+    });
+  }
+
+  async voteOnActivity(
+    id: string,
+    activityKey: string,
+    vote: -1 | 0 | 1
+  ): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(`/api/itineraries/${id}/feedback`, {
+      method: "POST",
+      body: JSON.stringify({ activityKey, vote }),
+    });
+  }
+
+  async updateItineraryCalendar(
+    id: string,
+    settings: { startDate?: string | null; feed?: boolean }
+  ): Promise<ApiResult<ItineraryCalendarSettings>> {
+    return this.request<ItineraryCalendarSettings>(`/api/itineraries/${id}/calendar`, {
+      method: "POST",
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async getItineraryBudget(id: string): Promise<ApiResult<ItineraryBudgetDetails>> {
+    return this.request<ItineraryBudgetDetails>(`/api/itineraries/${id}/expenses`);
+  }
+
+  async logItineraryExpense(
+    id: string,
+    expense: Partial<ItineraryExpenseRequest> & Pick<ItineraryExpenseRequest, "amount" | "currency" | "category">
+  ): Promise<ApiResult<{ expense: ItineraryExpense }>> {
+    return this.request<{ expense: ItineraryExpense }>(`/api/itineraries/${id}/expenses`, {
+      method: "POST",
+      body: JSON.stringify(expense),
+    });
+  }
+
+  async deleteItineraryExpense(id: string, expenseId: string): Promise<ApiResult<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(`/api/itineraries/${id}/expenses/${expenseId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async getOfflineItinerary(id: string): Promise<ApiResult<OfflineItineraryManifest>> {
+    return this.request<OfflineItineraryManifest>(`/api/itineraries/${id}/offline`);
+  }
+
   // ============================================
   // Spots Endpoints
   // ============================================
@@ -450,17 +776,38 @@ class ApiClient {
   // Gamification
   // ============================================
 
-  async awardPoints(data: {
-    action: string;
-    amount: number;
-    metadata?: Record<string, unknown>;
-  }): Promise<ApiResult<{ success: boolean }>> {
-    return this.request<{ success: boolean }>("/api/gamification/award", {
+  // The server decides the amount; the spot or itinerary is what earns it
+  async awardPoints(data: AwardPointsRequest): Promise<ApiResult<AwardPointsResult>> {
+    return this.request<AwardPointsResult>("/api/gamification/award", {
       method: "POST",
       body: JSON.stringify(data),
     });
   }
 
+  // ============================================
+  // Activity Feed
+  // ============================================
+
+  async getActivityFeed(cursor?: string | null, limit?: number): Promise<ApiResult<ActivityFeedPage>> {
+    const searchParams = new URLSearchParams();
+    if (cursor) searchParams.set("cursor", cursor);
+    if (limit) searchParams.set("limit", limit.toString());
+    return this.request<ActivityFeedPage>(`/api/feed?${searchParams}`);
+  }
+
+  async getActivityPrivacy(): Promise<ApiResult<{ privacy: ActivityPrivacy }>> {
+    return this.request<{ privacy: ActivityPrivacy }>("/api/user/activity-privacy");
+  }
+
+  async updateActivityPrivacy(
+    privacy: Partial<ActivityPrivacy>
+  ): Promise<ApiResult<{ success: boolean; privacy: ActivityPrivacy }>> {
+    return this.request<{ success: boolean; privacy: ActivityPrivacy }>("/api/user/activity-privacy", {
+      method: "PUT",
+      body: JSON.stringify({ privacy }),
+    });
+  }
+
   // ============================================
   // Geocoding
   // ============================================
@@ -503,11 +850,17 @@ class ApiClient {
   async saveMessage(
     conversationId: string,
     role: string,
-    content: string
+    content: string,
+    itinerary?: ChatItinerary
   ): Promise<ApiResult<{ message: Message }>> {
     return this.request<{ message: Message }>("/api/conversations/messages", {
       method: "POST",
-      body: JSON.stringify({ conversationId, role, content }),
+      body: JSON.stringify({
+        conversationId,
+        role,
+        content,
+        ...(itinerary && { itinerary }),
+      }),
     });
   }
 }
@@ -51,6 +51,14 @@ export const cacheConfig = {
         revalidate: 60, // 1 minute
         tags: ["user-tier"],
     },
+    /**
+     * Followed travellers' activity, assembled on read
+     * Follows and privacy changes invalidate; new activity waits for the TTL
+     */
+    activityFeed: {
+        revalidate: 60, // 1 minute
+        tags: ["activity-feed"],
+    },
 };
 
 /**
@@ -101,6 +109,22 @@ export function invalidateUserCache(userId: string, type: string): void {
     revalidateTag(`${type}:${userId}`, "default");
 }
 
+/**
+ * Expire cache by tag immediately
+ * invalidateCache serves the stale entry once more while it refetches; use
+ * this when that stale read must not happen, e.g. after a privacy change
+ */
+export function expireCache(tag: string): void {
+    revalidateTag(tag, { expire: 0 });
+}
+
+/**
+ * Expire user-specific cache immediately
+ */
+export function expireUserCache(userId: string, type: string): void {
+    expireCache(`${type}:${userId}`);
+}
+
 /**
  * Cache key builders for user-specific data
  */
@@ -110,4 +134,5 @@ export const cacheKeys = {
     userProgress: (userId: string) => [`user-progress`, userId],
     itineraries: (userId: string) => [`itineraries`, userId],
     userTier: (userId: string) => [`user-tier`, userId],
+    activityFeed: (userId: string) => [`activity-feed`, userId],
 };
@@ -0,0 +1,242 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { notifyAchievementUnlocked } from "@/lib/notification-triggers";
+import { inferSpotContextCitySlug } from "@/lib/spots/city-context";
+import { awardXp } from "@/lib/xp-ledger";
+import {
+    applyChallengeEvent,
+    challengeRuleEvents,
+    isChallengeActive,
+    isChallengeRuleComplete,
+    parseChallengeRule,
+    type ChallengeEvent,
+    type ChallengeProgress,
+    type ChallengeRule,
+} from "./rules";
+
+export interface ChallengeRow {
+    id: string;
+    name: string;
+    description: string | null;
+    city: string | null;
+    xp_reward: number;
+    requirements: unknown;
+    starts_at: string | null;
+    ends_at: string | null;
+}
+
+export const CHALLENGE_COLUMNS = "id, name, description, city, xp_reward, requirements, starts_at, ends_at";
+
+export interface CompletedChallenge {
+    id: string;
+    name: string;
+    xpAwarded: number;
+}
+
+type SpotContext = Pick<ChallengeEvent, "city" | "category" | "localleyScore">;
+
+export async function loadSpotContext(supabase: SupabaseClient, spotId: string): Promise<SpotContext> {
+    const { data: spot } = await supabase
+        .from("spots")
+        .select("name, address, category, localley_score, destination:geo_destinations!spots_destination_id_fk(slug)")
+        .eq("id", spotId)
+        .maybeSingle();
+    if (!spot) return {};
+
+    const destination = Array.isArray(spot.destination) ? spot.destination[0] : spot.destination;
+    const text = (value: unknown) =>
+        typeof value === "string" ? value : (value as { en?: string } | null)?.en ?? "";
+
+    return {
+        city: destination?.slug ?? inferSpotContextCitySlug({ name: text(spot.name), address: text(spot.address) }),
+        category: spot.category ?? null,
+        localleyScore: spot.localley_score ?? null,
+    };
+}
+
+/**
+ * Mark a challenge done and pay out its XP. Guarded on `completed = false`
+ * so concurrent events (or a claim racing an event) award it once.
+ */
+export async function completeChallenge(
+    supabase: SupabaseClient,
+    user: { id: string; clerkUserId: string },
+    challenge: Pick<ChallengeRow, "id" | "name" | "description" | "city" | "xp_reward">,
+): Promise<CompletedChallenge | null> {
+    const { data: claimed, error } = await supabase
+        .from("user_challenges")
+        .update({ completed: true, completed_at: new Date().toISOString() })
+        .eq("user_id", user.id)
+        .eq("challenge_id", challenge.id)
+        .eq("completed", false)
+        .select("challenge_id");
+    if (error) throw error;
+    if (!claimed?.length) return null;
+
+    await awardXp(
+        {
+            clerkUserId: user.clerkUserId,
+            reason: "challenge_completed",
+            source: { type: "challenge", id: challenge.id },
+            city: challenge.city,
+            amount: challenge.xp_reward,
+        },
+        supabase
+    );
+
+    await notifyAchievementUnlocked(
+        user.clerkUserId,
+        challenge.name,
+        challenge.description || "Challenge complete",
+        challenge.xp_reward
+    ).catch((notifyError) => console.error("Error sending challenge notification:", notifyError));
+
+    return { id: challenge.id, name: challenge.name, xpAwarded: challenge.xp_reward };
+}
+
+/**
+ * Feed one domain event through every active challenge that listens for it,
+ * store the new progress and award anything it completes. Never throws:
+ * challenges must not break the action that produced the event.
+ */
+export async function recordChallengeEvent(
+    event: ChallengeEvent,
+    client?: SupabaseClient,
+): Promise<CompletedChallenge[]> {
+    try {
+        const supabase = client ?? createSupabaseAdmin();
+        const { data: user } = await supabase
+            .from("users")
+            .select("id")
+            .eq("clerk_id", event.clerkUserId)
+            .maybeSingle();
+        if (!user?.id) return [];
+
+        const { data: challenges, error } = await supabase
+            .from("challenges")
+            .select(CHALLENGE_COLUMNS);
+        if (error) throw error;
+
+        const occurredAt = event.occurredAt ? new Date(event.occurredAt) : new Date();
+        const listening = ((challenges || []) as ChallengeRow[])
+            .filter((challenge) => isChallengeActive(challenge, occurredAt))
+            .map((challenge) => ({ challenge, rule: parseChallengeRule(challenge.requirements) }))
+            .filter((entry): entry is { challenge: ChallengeRow; rule: ChallengeRule } =>
+                Boolean(entry.rule && challengeRuleEvents(entry.rule).includes(event.type))
+            );
+        if (listening.length === 0) return [];
+
+        const enriched: ChallengeEvent = event.spotId
+            ? { ...(await loadSpotContext(supabase, event.spotId)), ...stripEmpty(event) }
+            : event;
+
+        const { data: rows, error: rowsError } = await supabase
+            .from("user_challenges")
+            .select(USER_CHALLENGE_COLUMNS)
+            .eq("user_id", user.id)
+            .in("challenge_id", listening.map(({ challenge }) => challenge.id));
+        if (rowsError) throw rowsError;
+        const stored = new Map(((rows || []) as StoredProgress[]).map((row) => [row.challenge_id, row]));
+
+        const completed: CompletedChallenge[] = [];
+        for (const { challenge, rule } of listening) {
+            const progress = await saveChallengeProgress(
+                supabase,
+                { id: user.id, clerkUserId: event.clerkUserId },
+                challenge,
+                stored.get(challenge.id) ?? null,
+                (previous) => applyChallengeEvent(rule, previous, enriched, { city: challenge.city }),
+            );
+            if (!progress || !isChallengeRuleComplete(rule, progress)) continue;
+
+            const award = await completeChallenge(
+                supabase,
+                { id: user.id, clerkUserId: event.clerkUserId },
+                challenge
+            );
+            if (award) completed.push(award);
+        }
+
+        return completed;
+    } catch (error) {
+        console.error(`Challenge event ${event.type} failed:`, error);
+        return [];
+    }
+}
+
+const USER_CHALLENGE_COLUMNS = "challenge_id, progress, completed, progress_version";
+const SAVE_ATTEMPTS = 5;
+
+interface StoredProgress {
+    challenge_id: string;
+    progress: ChallengeProgress | null;
+    completed: boolean;
+    progress_version: number;
+}
+
+/**
+ * Write the progress `apply` makes from the stored progress, only if nobody
+ * else wrote it since it was read; otherwise re-read and apply again.
+ * Returns the saved progress, or null when there was nothing to save.
+ */
+async function saveChallengeProgress(
+    supabase: SupabaseClient,
+    user: { id: string; clerkUserId: string },
+    challenge: Pick<ChallengeRow, "id">,
+    initial: StoredProgress | null,
+    apply: (previous: ChallengeProgress) => ChallengeProgress,
+): Promise<ChallengeProgress | null> {
+    let row = initial;
+    for (let attempt = 0; attempt < SAVE_ATTEMPTS; attempt++) {
+        if (attempt > 0) {
+            const { data, error } = await supabase
+                .from("user_challenges")
+                .select(USER_CHALLENGE_COLUMNS)
+                .eq("user_id", user.id)
+                .eq("challenge_id", challenge.id)
+                .maybeSingle();
+            if (error) throw error;
+            row = data as StoredProgress | null;
+        }
+        if (row?.completed) return null;
+
+        const previous = row?.progress ?? {};
+        const progress = apply(previous);
+        if (progress === previous) return null;
+
+        if (!row) {
+            const { error } = await supabase
+                .from("user_challenges")
+                .insert({
+                    user_id: user.id,
+                    clerk_user_id: user.clerkUserId,
+                    challenge_id: challenge.id,
+                    progress,
+                    progress_version: 1,
+                });
+            if (!error) return progress;
+            // Another event created the row first
+            if (error.code !== "23505") throw error;
+            continue;
+        }
+
+        const { data: saved, error } = await supabase
+            .from("user_challenges")
+            .update({ progress, progress_version: row.progress_version + 1 })
+            .eq("user_id", user.id)
+            .eq("challenge_id", challenge.id)
+            .eq("progress_version", row.progress_version)
+            .select("challenge_id");
+        if (error) throw error;
+        if (saved?.length) return progress;
+    }
+
+    throw new Error(`Challenge ${challenge.id} progress kept changing while saving`);
+}
+
+// Explicit event fields win over what the spot says, but not when unset
+function stripEmpty(event: ChallengeEvent): ChallengeEvent {
+    return Object.fromEntries(
+        Object.entries(event).filter(([, value]) => value !== undefined && value !== null)
+    ) as unknown as ChallengeEvent;
+}
@@ -0,0 +1,276 @@
+import { z } from "zod";
+import { toCitySlug } from "@/lib/cities";
+
+/**
+ * Declarative challenge rules. A challenge's `requirements` column holds one
+ * of these, so new (seasonal, city-scoped, multi-step) challenges are a row
+ * insert rather than a code change:
+ *
+ *   { "type": "count", "event": "review_posted", "target": 3,
+ *     "filter": { "minLocalleyScore": 5 } }
+ *
+ * with `city = 'Busan'` and `starts_at`/`ends_at` on the row is "review 3
+ * hidden gems in Busan this month". Rules are evaluated one domain event at a
+ * time against progress stored in `user_challenges.progress`.
+ */
+
+export const CHALLENGE_EVENT_TYPES = [
+    "spot_saved",
+    "review_posted",
+    "itinerary_created",
+    "itinerary_shared",
+    "social_submission_approved",
+    "user_followed",
+    "follower_gained",
+    "streak_extended",
+] as const;
+
+export type ChallengeEventType = (typeof CHALLENGE_EVENT_TYPES)[number];
+
+export interface ChallengeEvent {
+    type: ChallengeEventType;
+    clerkUserId: string;
+    /** What the event is about (spot, review, itinerary…); each counts once */
+    subjectId?: string | null;
+    /** The spot involved, used to fill in city, category and score */
+    spotId?: string | null;
+    occurredAt?: string;
+    city?: string | null;
+    category?: string | null;
+    localleyScore?: number | null;
+    rating?: number | null;
+    /** For `reach` rules, e.g. the streak length */
+    value?: number | null;
+}
+
+const EventFilterSchema = z.object({
+    categories: z.array(z.string().trim().toLowerCase().min(1)).min(1).optional(),
+    /** 5+ is what the app calls a hidden gem */
+    minLocalleyScore: z.number().int().min(1).max(6).optional(),
+    minRating: z.number().int().min(1).max(5).optional(),
+}).strict();
+
+export type ChallengeEventFilter = z.infer<typeof EventFilterSchema>;
+
+export type ChallengeRule =
+    | {
+        /** Count matching events */
+        type: "count";
+        event: ChallengeEventType;
+        target: number;
+        city?: string;
+        filter?: ChallengeEventFilter;
+        label?: string;
+    }
+    | {
+        /** Reach a value carried by an event, e.g. a 7-day streak */
+        type: "reach";
+        event: ChallengeEventType;
+        target: number;
+        label?: string;
+    }
+    | { type: "all"; rules: ChallengeRule[]; label?: string }
+    | { type: "sequence"; rules: ChallengeRule[]; label?: string };
+
+export const ChallengeRuleSchema: z.ZodType<ChallengeRule> = z.lazy(() =>
+    z.discriminatedUnion("type", [
+        z.object({
+            type: z.literal("count"),
+            event: z.enum(CHALLENGE_EVENT_TYPES),
+            target: z.number().int().min(1).max(10_000),
+            city: z.string().trim().min(1).optional(),
+            filter: EventFilterSchema.optional(),
+            label: z.string().trim().min(1).max(120).optional(),
+        }).strict(),
+        z.object({
+            type: z.literal("reach"),
+            event: z.enum(CHALLENGE_EVENT_TYPES),
+            target: z.number().int().min(1).max(10_000),
+            label: z.string().trim().min(1).max(120).optional(),
+        }).strict(),
+        z.object({
+            type: z.literal("all"),
+            rules: z.array(ChallengeRuleSchema).min(1).max(10),
+            label: z.string().trim().min(1).max(120).optional(),
+        }).strict(),
+        z.object({
+            type: z.literal("sequence"),
+            rules: z.array(ChallengeRuleSchema).min(1).max(10),
+            label: z.string().trim().min(1).max(120).optional(),
+        }).strict(),
+    ])
+);
+
+// The original hard-coded requirement types, still used by seeded rows
+const LEGACY_EVENTS: Record<string, ChallengeEventType> = {
+    itinerary_count: "itinerary_created",
+    saved_spots: "spot_saved",
+    following_count: "user_followed",
+    followers_count: "follower_gained",
+};
+
+/** The rule in a challenge's `requirements`, or null if it can't be read */
+export function parseChallengeRule(requirements: unknown): ChallengeRule | null {
+    if (requirements && typeof requirements === "object") {
+        const legacy = requirements as { type?: unknown; count?: unknown; days?: unknown };
+        const target = Number(legacy.count ?? legacy.days ?? 1) || 1;
+        if (typeof legacy.type === "string" && legacy.type in LEGACY_EVENTS) {
+            return { type: "count", event: LEGACY_EVENTS[legacy.type], target };
+        }
+        if (legacy.type === "streak") {
+            return { type: "reach", event: "streak_extended", target };
+        }
+    }
+
+    const parsed = ChallengeRuleSchema.safeParse(requirements);
+    return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Stored progress mirrors the rule: `count` for leaf rules (events counted,
+ * or the best value reached), `steps` for compound ones. `seen` holds the
+ * subjects already counted until the rule completes.
+ */
+export interface ChallengeProgress {
+    count?: number;
+    seen?: string[];
+    steps?: ChallengeProgress[];
+}
+
+export function challengeRuleEvents(rule: ChallengeRule): ChallengeEventType[] {
+    if (rule.type === "count" || rule.type === "reach") return [rule.event];
+    return [...new Set(rule.rules.flatMap(challengeRuleEvents))];
+}
+
+export function isChallengeActive(
+    challenge: { starts_at?: string | null; ends_at?: string | null },
+    at: Date = new Date(),
+): boolean {
+    if (challenge.starts_at && new Date(challenge.starts_at) > at) return false;
+    if (challenge.ends_at && new Date(challenge.ends_at) < at) return false;
+    return true;
+}
+
+export function isChallengeRuleComplete(rule: ChallengeRule, progress: ChallengeProgress | null | undefined): boolean {
+    if (rule.type === "count" || rule.type === "reach") return (progress?.count ?? 0) >= rule.target;
+    return rule.rules.every((child, index) => isChallengeRuleComplete(child, progress?.steps?.[index]));
+}
+
+function matchesFilter(rule: Extract<ChallengeRule, { type: "count" }>, event: ChallengeEvent, city: string | null): boolean {
+    if (city && toCitySlug(event.city) !== city) return false;
+
+    const { filter } = rule;
+    if (!filter) return true;
+    if (filter.categories && !filter.categories.includes(event.category?.trim().toLowerCase() ?? "")) return false;
+    if (filter.minLocalleyScore && (event.localleyScore ?? 0) < filter.minLocalleyScore) return false;
+    if (filter.minRating && (event.rating ?? 0) < filter.minRating) return false;
+    return true;
+}
+
+/**
+ * Progress after one event. Returns the same object when the event doesn't
+ * count. Compound `all` rules offer the event to every step; a `sequence`
+ * only to its first unfinished step, so one event never completes two steps.
+ */
+export function applyChallengeEvent(
+    rule: ChallengeRule,
+    progress: ChallengeProgress | null | undefined,
+    event: ChallengeEvent,
+    scope: { city?: string | null } = {},
+): ChallengeProgress {
+    const current = progress ?? {};
+    if (isChallengeRuleComplete(rule, current)) return current;
+
+    switch (rule.type) {
+        case "count": {
+            if (event.type !== rule.event) return current;
+            if (!matchesFilter(rule, event, toCitySlug(rule.city ?? scope.city))) return current;
+            const seen = current.seen ?? [];
+            if (event.subjectId && seen.includes(event.subjectId)) return current;
+
+            const count = (current.count ?? 0) + 1;
+            return count >= rule.target
+                ? { count }
+                : { count, seen: event.subjectId ? [...seen, event.subjectId] : seen };
+        }
+        case "reach": {
+            if (event.type !== rule.event) return current;
+            const value = Math.min(rule.target, Math.floor(event.value ?? 0));
+            return value > (current.count ?? 0) ? { count: value } : current;
+        }
+        case "all":
+        case "sequence": {
+            const steps = rule.rules.map((_, index) => current.steps?.[index] ?? {});
+            const open = rule.type === "sequence"
+                ? [rule.rules.findIndex((child, index) => !isChallengeRuleComplete(child, steps[index]))]
+                : rule.rules.map((_, index) => index);
+
+            let changed = false;
+            for (const index of open) {
+                const next = applyChallengeEvent(rule.rules[index], steps[index], event, scope);
+                if (next !== steps[index]) {
+                    steps[index] = next;
+                    changed = true;
+                }
+            }
+            return changed ? { steps } : current;
+        }
+    }
+}
+
+/** Units done out of units needed, for progress bars */
+export function measureChallengeRule(
+    rule: ChallengeRule,
+    progress: ChallengeProgress | null | undefined,
+): { current: number; total: number } {
+    if (rule.type === "count" || rule.type === "reach") {
+        return { current: Math.min(progress?.count ?? 0, rule.target), total: rule.target };
+    }
+    return rule.rules.reduce(
+        (sum, child, index) => {
+            const measured = measureChallengeRule(child, progress?.steps?.[index]);
+            return { current: sum.current + measured.current, total: sum.total + measured.total };
+        },
+        { current: 0, total: 0 },
+    );
+}
+
+const EVENT_PHRASES: Record<ChallengeEventType, [string, string]> = {
+    spot_saved: ["Save", "spot"],
+    review_posted: ["Review", "spot"],
+    itinerary_created: ["Create", "itinerary"],
+    itinerary_shared: ["Share", "itinerary"],
+    social_submission_approved: ["Get", "social find approved"],
+    user_followed: ["Follow", "explorer"],
+    follower_gained: ["Gain", "follower"],
+    streak_extended: ["Reach a", "day streak"],
+};
+
+export function describeChallengeRule(rule: ChallengeRule): string {
+    if (rule.label) return rule.label;
+    if (rule.type === "all" || rule.type === "sequence") {
+        return rule.rules.map(describeChallengeRule).join(rule.type === "all" ? " and " : ", then ");
+    }
+
+    const [verb, noun] = EVENT_PHRASES[rule.event];
+    if (rule.type === "reach") return `${verb} ${rule.target}-${noun}`;
+
+    const gem = rule.filter?.minLocalleyScore && rule.filter.minLocalleyScore >= 5;
+    const plural = rule.target === 1 ? noun : noun === "itinerary" ? "itineraries" : `${noun}s`;
+    const subject = gem && noun === "spot" ? (rule.target === 1 ? "hidden gem" : "hidden gems") : plural;
+    const amount = rule.target === 1 ? (/^[aeiou]/.test(subject) ? "an" : "a") : rule.target;
+    return `${verb} ${amount} ${subject}${rule.city ? ` in ${rule.city}` : ""}`;
+}
+
+/** The steps of a compound rule with their progress, for display */
+export function describeChallengeSteps(
+    rule: ChallengeRule,
+    progress: ChallengeProgress | null | undefined,
+): Array<{ label: string; current: number; total: number; isCompleted: boolean }> {
+    if (rule.type !== "all" && rule.type !== "sequence") return [];
+    return rule.rules.map((child, index) => ({
+        label: describeChallengeRule(child),
+        ...measureChallengeRule(child, progress?.steps?.[index]),
+        isCompleted: isChallengeRuleComplete(child, progress?.steps?.[index]),
+    }));
+}
@@ -0,0 +1,331 @@
+/**
+ * Long-conversation memory for Alley.
+ *
+ * With a conversation id, /api/chat loads history from the database instead
+ * of trusting the client's copy. Once the unsummarised tail grows past a
+ * budget, the older turns are folded into a rolling summary stored on the
+ * conversation, and traveller preferences mentioned along the way (dates,
+ * budget, dietary needs, party) are pinned beside it. Both go into the system
+ * prompt, so long planning sessions stay within token limits without losing
+ * what the user said an hour ago.
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildChatTranscript, generateChatReplyWithFallback } from "@/lib/llm/chat-provider";
+import type { ChatAgentMessage, ChatToolCallRecord } from "@/lib/llm/chat-agent";
+
+export const TravellerPreferencesSchema = z.object({
+    destinations: z.array(z.string().min(1).max(100)).max(10).optional(),
+    dates: z.string().min(1).max(200).optional(),
+    budget: z.string().min(1).max(200).optional(),
+    dietary: z.array(z.string().min(1).max(100)).max(10).optional(),
+    party: z.string().min(1).max(200).optional(),
+    other: z.array(z.string().min(1).max(200)).max(10).optional(),
+});
+
+export type TravellerPreferences = z.infer<typeof TravellerPreferencesSchema>;
+
+const ConversationDigestSchema = z.object({
+    summary: z.string().min(1).max(4000),
+    preferences: TravellerPreferencesSchema,
+});
+
+export type ConversationDigest = z.infer<typeof ConversationDigestSchema>;
+
+export interface StoredChatMessage extends ChatAgentMessage {
+    createdAt: string;
+}
+
+export interface ConversationMemory {
+    conversationId: string;
+    summary: string | null;
+    /** created_at of the newest message folded into the summary */
+    summarizedThrough: string | null;
+    preferences: TravellerPreferences;
+    /** Messages after the summary, oldest first */
+    messages: StoredChatMessage[];
+}
+
+export type ConversationSummarizer = (input: {
+    previousSummary: string | null;
+    preferences: TravellerPreferences;
+    messages: ChatAgentMessage[];
+}) => Promise<ConversationDigest>;
+
+interface CompactionDependencies {
+    summarize?: ConversationSummarizer;
+    logger?: Pick<Console, "error">;
+}
+
+/** Summarise once the unsummarised tail passes either budget */
+export const MEMORY_MAX_MESSAGES = 24;
+export const MEMORY_MAX_CHARS = 24_000;
+/** Messages kept verbatim after compaction, within RECENT_CHAR_BUDGET */
+const RECENT_MESSAGES = 10;
+const RECENT_CHAR_BUDGET = 12_000;
+/** Newest messages loaded when the tail has never been compacted */
+const MESSAGE_LOAD_LIMIT = 200;
+
+function parsePreferences(value: unknown): TravellerPreferences {
+    const parsed = TravellerPreferencesSchema.safeParse(value ?? {});
+    return parsed.success ? parsed.data : {};
+}
+
+export async function loadConversationMemory(
+    supabase: SupabaseClient,
+    userId: string,
+    conversationId: string
+): Promise<ConversationMemory | null> {
+    const { data: conversation, error } = await supabase
+        .from("conversations")
+        .select("id, summary, summarized_through, traveller_preferences")
+        .eq("id", conversationId)
+        .eq("clerk_user_id", userId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!conversation) return null;
+
+    let query = supabase
+        .from("messages")
+        .select("role, content, tool_calls, created_at")
+        .eq("conversation_id", conversationId);
+    if (conversation.summarized_through) {
+        query = query.gt("created_at", conversation.summarized_through);
+    }
+    const { data: rows, error: messagesError } = await query
+        .order("created_at", { ascending: false })
+        .limit(MESSAGE_LOAD_LIMIT);
+
+    if (messagesError) throw messagesError;
+
+    const messages = (rows ?? [])
+        .reverse()
+        .filter((row) => row.role === "user" || row.role === "assistant")
+        .map((row): StoredChatMessage => ({
+            role: row.role,
+            content: row.content,
+            createdAt: row.created_at,
+            ...(Array.isArray(row.tool_calls) && row.tool_calls.length > 0 && {
+                toolCalls: row.tool_calls as ChatToolCallRecord[],
+            }),
+        }));
+
+    return {
+        conversationId,
+        summary: conversation.summary ?? null,
+        summarizedThrough: conversation.summarized_through ?? null,
+        preferences: parsePreferences(conversation.traveller_preferences),
+        messages,
+    };
+}
+
+function totalChars(messages: ChatAgentMessage[]): number {
+    return messages.reduce((sum, message) => sum + message.content.length, 0);
+}
+
+/**
+ * Index where the verbatim tail starts: at most RECENT_MESSAGES within
+ * RECENT_CHAR_BUDGET, but always the newest two.
+ */
+function recentStart(messages: ChatAgentMessage[]): number {
+    let start = messages.length;
+    let chars = 0;
+    while (start > 0 && messages.length - start < RECENT_MESSAGES) {
+        chars += messages[start - 1].content.length;
+        if (chars > RECENT_CHAR_BUDGET && messages.length - start >= 2) break;
+        start--;
+    }
+    return start;
+}
+
+export function needsCompaction(messages: ChatAgentMessage[]): boolean {
+    return messages.length > MEMORY_MAX_MESSAGES || totalChars(messages) > MEMORY_MAX_CHARS;
+}
+
+/**
+ * Fold older turns into the stored summary when the tail is over budget.
+ * If summarising fails, the older turns are only dropped from this request,
+ * so the prompt stays bounded and the next turn tries again.
+ */
+export async function compactConversationMemory(
+    supabase: SupabaseClient,
+    userId: string,
+    memory: ConversationMemory,
+    dependencies: CompactionDependencies = {}
+): Promise<ConversationMemory> {
+    if (!needsCompaction(memory.messages)) return memory;
+
+    const start = recentStart(memory.messages);
+    const older = memory.messages.slice(0, start);
+    const recent = memory.messages.slice(start);
+    if (older.length === 0) return memory;
+
+    const summarize = dependencies.summarize ?? summarizeConversation;
+    try {
+        const digest = await summarize({
+            previousSummary: memory.summary,
+            preferences: memory.preferences,
+            messages: older,
+        });
+        const summarizedThrough = older[older.length - 1].createdAt;
+
+        const { error } = await supabase
+            .from("conversations")
+            .update({
+                summary: digest.summary,
+                summarized_through: summarizedThrough,
+                traveller_preferences: digest.preferences,
+            })
+            .eq("id", memory.conversationId)
+            .eq("clerk_user_id", userId);
+        if (error) throw error;
+
+        return {
+            ...memory,
+            summary: digest.summary,
+            summarizedThrough,
+            preferences: digest.preferences,
+            messages: recent,
+        };
+    } catch (error) {
+        (dependencies.logger ?? console).error("[CHAT_MEMORY] Could not summarise conversation:", error);
+        return { ...memory, messages: recent };
+    }
+}
+
+function sameMessage(left: ChatAgentMessage, right: ChatAgentMessage): boolean {
+    return left.role === right.role && left.content.trim() === right.content.trim();
+}
+
+/**
+ * Stored history followed by the client's new messages. The client may send
+ * messages it has already saved, so the longest stored suffix that matches
+ * the start of `incoming` is counted once.
+ */
+export function mergeConversationMessages(
+    stored: ChatAgentMessage[],
+    incoming: ChatAgentMessage[]
+): ChatAgentMessage[] {
+    const history = stored.map(({ role, content, toolCalls }) => ({ role, content, ...(toolCalls && { toolCalls }) }));
+
+    for (let overlap = Math.min(history.length, incoming.length); overlap > 0; overlap--) {
+        const suffix = history.slice(history.length - overlap);
+        if (suffix.every((message, index) => sameMessage(message, incoming[index]))) {
+            return [...history, ...incoming.slice(overlap)];
+        }
+    }
+    return [...history, ...incoming];
+}
+
+/**
+ * Store Alley's reply on the conversation from the server. Tool calls are
+ * only ever written here, so the tool history replayed on later turns is what
+ * the tools really returned rather than the client's copy. Returns the new
+ * message's id, or null when it couldn't be saved.
+ */
+export async function saveAssistantReply(
+    supabase: SupabaseClient,
+    conversationId: string,
+    reply: { content: string; toolCalls?: ChatToolCallRecord[]; itinerary?: unknown },
+    logger: Pick<Console, "error"> = console
+): Promise<string | null> {
+    try {
+        const { data, error } = await supabase
+            .from("messages")
+            .insert({
+                conversation_id: conversationId,
+                role: "assistant",
+                content: reply.content,
+                ...(reply.toolCalls?.length && { tool_calls: reply.toolCalls }),
+                ...(reply.itinerary !== undefined && { itinerary: reply.itinerary }),
+            })
+            .select("id")
+            .single();
+        if (error) throw error;
+
+        return (data?.id as string | undefined) ?? null;
+    } catch (error) {
+        logger.error("[CHAT_MEMORY] Could not save reply:", error);
+        return null;
+    }
+}
+
+function describePreferences(preferences: TravellerPreferences): string[] {
+    const lines: string[] = [];
+    if (preferences.destinations?.length) lines.push(`- Destinations: ${preferences.destinations.join(", ")}`);
+    if (preferences.dates) lines.push(`- Dates: ${preferences.dates}`);
+    if (preferences.budget) lines.push(`- Budget: ${preferences.budget}`);
+    if (preferences.dietary?.length) lines.push(`- Dietary: ${preferences.dietary.join(", ")}`);
+    if (preferences.party) lines.push(`- Travelling with: ${preferences.party}`);
+    for (const note of preferences.other ?? []) lines.push(`- ${note}`);
+    return lines;
+}
+
+/**
+ * System prompt section with the pinned preferences and rolling summary;
+ * empty for a conversation with neither.
+ */
+export function buildConversationMemoryContext(memory: Pick<ConversationMemory, "summary" | "preferences">): string {
+    const sections: string[] = [];
+    const preferences = describePreferences(memory.preferences);
+    if (preferences.length > 0) {
+        sections.push(
+            `## WHAT THIS TRAVELLER TOLD YOU\nRespect these in every recommendation unless they say otherwise:\n${preferences.join("\n")}`
+        );
+    }
+    if (memory.summary) {
+        sections.push(`## EARLIER IN THIS CONVERSATION\n${memory.summary}`);
+    }
+    return sections.length > 0 ? `\n\n${sections.join("\n\n")}` : "";
+}
+
+const SUMMARIZER_PROMPT = `You maintain the memory of a long travel-planning chat between a user and Alley, a local travel guide.
+
+You receive the previous summary, the traveller preferences pinned so far, and the next stretch of the conversation. Reply with ONLY a JSON object:
+{
+  "summary": "...",
+  "preferences": {
+    "destinations": ["..."],
+    "dates": "...",
+    "budget": "...",
+    "dietary": ["..."],
+    "party": "...",
+    "other": ["..."]
+  }
+}
+
+summary: the previous summary updated with the new stretch, at most 250 words. Keep decisions made, places recommended or ruled out, itinerary changes and open questions. Drop small talk.
+preferences: the complete, current set. Carry over earlier values unless the user changed them, add new ones, and omit fields nobody has mentioned. "party" is who is travelling (e.g. "2 adults and a 6-year-old"); "other" holds lasting constraints such as pace, mobility or interests.`;
+
+function parseDigest(content: string): ConversationDigest {
+    const json = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "");
+    return ConversationDigestSchema.parse(JSON.parse(json));
+}
+
+/**
+ * Default summariser: the chat model, asked for the digest as JSON
+ */
+export async function summarizeConversation(input: {
+    previousSummary: string | null;
+    preferences: TravellerPreferences;
+    messages: ChatAgentMessage[];
+}): Promise<ConversationDigest> {
+    const reply = await generateChatReplyWithFallback({
+        systemPrompt: SUMMARIZER_PROMPT,
+        messages: [
+            {
+                role: "user",
+                content: [
+                    `PREVIOUS SUMMARY:\n${input.previousSummary || "(none)"}`,
+                    `PINNED PREFERENCES:\n${JSON.stringify(input.preferences)}`,
+                    `CONVERSATION:\n${buildChatTranscript(input.messages)}`,
+                ].join("\n\n"),
+            },
+        ],
+        maxTokens: 1024,
+        temperature: 0.2,
+    });
+    return parseDigest(reply.content);
+}
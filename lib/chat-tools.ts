@@ -0,0 +1,372 @@
+/**
+ * Tools Alley can call during a chat turn: spot search and details from the
+ * curated database, edits to the user's saved itineraries, and multi-city
+ * corridor planning.
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ChatToolError, defineChatTool, type ChatTool } from "@/lib/llm/chat-agent";
+import { ALL_CITIES, LOCALNESS_LABELS } from "@/lib/cities";
+import { geographySeedManifest } from "@/lib/geography/seed-manifest";
+import {
+    buildItineraryPlanPayload,
+    isTipLikeActivity,
+    normalizeDailyPlansForDisplay,
+    parseDailyPlans,
+    type ItineraryInsight,
+} from "@/lib/itineraries/normalize-daily-plans";
+import type { ItineraryOperation } from "@/lib/itineraries/revisions";
+import { ItineraryVersionError, saveItineraryVersion } from "@/lib/itineraries/version-store";
+import {
+    applyPublicSpotVisibilityFilters,
+    shouldShowPublicSpot,
+} from "@/lib/spots/public-quality";
+import { createSpotEmbeddingStore, rankSpotsByRelevance } from "@/lib/spots/semantic-search";
+import { getLocalizedText, transformSpot, type RawSpot } from "@/lib/spots/transform";
+import { CATEGORY_OPTIONS } from "@/lib/spots/types";
+import { isTripPreviewEnabled, toPreviewDto } from "@/lib/trips/api";
+import {
+    MultiCityTripRequestSchema,
+    PlannerValidationError,
+    planCorridorTrip,
+} from "@/lib/trips/corridor-planner";
+import { getConfiguredTransportTimetables } from "@/lib/trips/transport-timetables";
+import type { MultiLanguageField } from "@/types";
+
+export interface ChatToolContext {
+    userId: string;
+    /** Called per tool call, so chat still works when the database is not configured */
+    getSupabase: () => SupabaseClient;
+}
+
+interface StoredActivity {
+    name: string;
+    time?: string;
+    type?: string;
+    description?: string;
+    address?: string;
+    category?: string;
+    cost?: string;
+    duration?: string;
+    localleyScore?: number;
+    [key: string]: unknown;
+}
+
+interface StoredDayPlan {
+    day: number;
+    theme?: string;
+    activities: StoredActivity[];
+    [key: string]: unknown;
+}
+
+interface OwnedItinerary {
+    id: string;
+    title: string;
+    city: string;
+    days: number;
+    version: number;
+    dailyPlans: StoredDayPlan[];
+    insights: ItineraryInsight[];
+}
+
+const SPOT_SUMMARY_COLUMNS =
+    "id, name, description, address, category, subcategories, localley_score, local_percentage, best_times, tips, photos";
+
+/** Spots ranked by meaning when search_spots is given a query */
+const SEMANTIC_CANDIDATE_POOL = 120;
+
+/**
+ * Model-supplied text goes into ilike patterns; drop wildcard and filter syntax
+ */
+function toLikeTerm(value: string): string {
+    return value.replace(/[%_,()\\]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function resolveCity(city: string): string {
+    const wanted = city.trim().toLowerCase();
+    const match = ALL_CITIES.find(
+        (candidate) => candidate.name.toLowerCase() === wanted || candidate.slug === wanted
+    );
+    if (!match) {
+        throw new ChatToolError(`Localley has no curated spots for "${city}".`);
+    }
+    return match.name;
+}
+
+async function loadOwnedItinerary(
+    { getSupabase, userId }: ChatToolContext,
+    itineraryId: string
+): Promise<OwnedItinerary> {
+    const { data, error } = await getSupabase()
+        .from("itineraries")
+        .select("id, title, city, days, activities, current_version")
+        .eq("id", itineraryId)
+        .eq("clerk_user_id", userId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+        throw new ChatToolError("No saved itinerary with that id belongs to this user.");
+    }
+
+    const { dailyPlans, insights } = normalizeDailyPlansForDisplay<StoredDayPlan>(
+        parseDailyPlans(data.activities)
+    );
+    return {
+        id: data.id,
+        title: data.title,
+        city: data.city,
+        days: data.days,
+        version: data.current_version ?? 0,
+        dailyPlans,
+        insights,
+    };
+}
+
+/**
+ * Saves the edited plan as a new itinerary version, so a chat edit can be undone.
+ * The save is based on the version that was loaded; if a collaborator saved in
+ * between, the edit is refused rather than overwriting theirs.
+ */
+async function saveDailyPlans(
+    { getSupabase, userId }: ChatToolContext,
+    itinerary: OwnedItinerary,
+    operation: ItineraryOperation
+): Promise<void> {
+    try {
+        await saveItineraryVersion(getSupabase(), {
+            itineraryId: itinerary.id,
+            clerkUserId: userId,
+            source: "chat",
+            changes: { activities: buildItineraryPlanPayload(itinerary.dailyPlans, itinerary.insights) },
+            operations: [operation],
+            baseVersion: itinerary.version,
+        });
+    } catch (error) {
+        if (error instanceof ItineraryVersionError && error.code === "CONFLICT") {
+            throw new ChatToolError(
+                `"${itinerary.title}" was just changed by someone else. Read it again with get_itinerary before editing.`
+            );
+        }
+        throw error;
+    }
+}
+
+function findDay(itinerary: OwnedItinerary, day: number): StoredDayPlan {
+    const plan = itinerary.dailyPlans.find((candidate) => candidate.day === day);
+    if (!plan) {
+        throw new ChatToolError(`"${itinerary.title}" has no day ${day}; it has ${itinerary.dailyPlans.length} days.`);
+    }
+    return plan;
+}
+
+function summarizeDay(plan: StoredDayPlan) {
+    return {
+        day: plan.day,
+        theme: plan.theme ?? null,
+        activities: plan.activities.map((activity, index) => ({
+            index,
+            name: activity.name,
+            time: activity.time ?? null,
+            type: activity.type ?? null,
+            category: activity.category ?? null,
+            cost: activity.cost ?? null,
+            address: activity.address ?? null,
+        })),
+    };
+}
+
+function summarizeSpotRow(row: Record<string, unknown>) {
+    const score = typeof row.localley_score === "number" ? row.localley_score : 3;
+    return {
+        id: row.id,
+        name: getLocalizedText(row.name as MultiLanguageField),
+        category: row.category ?? null,
+        address: getLocalizedText(row.address as MultiLanguageField),
+        localleyScore: score,
+        localness: LOCALNESS_LABELS[score] ?? "Mixed Crowd",
+        localPercentage: row.local_percentage ?? null,
+        bestTime: getLocalizedText(row.best_times as MultiLanguageField) || null,
+    };
+}
+
+const ItineraryIdSchema = z.uuid().describe("Id of one of the user's saved itineraries");
+const DaySchema = z.number().int().min(1).max(30).describe("1-based day number");
+
+export function createChatTools(context: ChatToolContext): ChatTool[] {
+    const searchSpots = defineChatTool({
+        name: "search_spots",
+        description:
+            "Search Localley's verified spots in a city. With a query, spots closest in meaning come first; otherwise the most local. Use before recommending specific places.",
+        parameters: z.object({
+            city: z.string().min(1).max(100).describe("City name, e.g. Seoul"),
+            category: z.enum(CATEGORY_OPTIONS).optional(),
+            area: z.string().min(1).max(80).optional().describe("Neighbourhood or district, matched against the address"),
+            query: z
+                .string()
+                .min(1)
+                .max(200)
+                .optional()
+                .describe("What the user is after, in their words, e.g. rainy-day quiet bookstore cafe"),
+            limit: z.number().int().min(1).max(10).default(6),
+        }),
+        async execute({ city, category, area, query, limit }) {
+            const cityName = resolveCity(city);
+            let request = context.getSupabase()
+                .from("spots")
+                .select(SPOT_SUMMARY_COLUMNS)
+                .ilike("address->>en", `%${toLikeTerm(cityName)}%`);
+
+            if (area && toLikeTerm(area)) request = request.ilike("address->>en", `%${toLikeTerm(area)}%`);
+            if (category) request = request.eq("category", category);
+
+            const { data, error } = await applyPublicSpotVisibilityFilters(request)
+                .order("localley_score", { ascending: false })
+                .order("local_percentage", { ascending: false })
+                .limit(query ? SEMANTIC_CANDIDATE_POOL : limit);
+
+            if (error) throw error;
+            const visible = (data ?? []).filter((row) => shouldShowPublicSpot(row));
+            const ranked = query
+                ? await rankSpotsByRelevance(visible, query, { store: createSpotEmbeddingStore(context.getSupabase()) })
+                : visible;
+            return { city: cityName, spots: ranked.slice(0, limit).map(summarizeSpotRow) };
+        },
+    });
+
+    const getSpotDetails = defineChatTool({
+        name: "get_spot_details",
+        description: "Full details for one spot returned by search_spots: description, tips, best times and location.",
+        parameters: z.object({
+            spotId: z.uuid(),
+        }),
+        async execute({ spotId }) {
+            const { data, error } = await context.getSupabase().from("spots").select("*").eq("id", spotId).maybeSingle();
+
+            if (error) throw error;
+            if (!data || !shouldShowPublicSpot(data)) {
+                throw new ChatToolError("No spot with that id.");
+            }
+
+            const spot = transformSpot(data as RawSpot);
+            return {
+                id: spot.id,
+                name: spot.name,
+                description: spot.description,
+                category: spot.category,
+                subcategories: spot.subcategories,
+                address: spot.location.address,
+                coordinates: { lat: spot.location.lat, lng: spot.location.lng },
+                localleyScore: spot.localleyScore,
+                localness: LOCALNESS_LABELS[spot.localleyScore] ?? "Mixed Crowd",
+                localPercentage: spot.localPercentage,
+                bestTime: spot.bestTime,
+                tips: spot.tips,
+                verified: spot.verified,
+            };
+        },
+    });
+
+    const getItinerary = defineChatTool({
+        name: "get_itinerary",
+        description: "Read a saved itinerary's days and activities, with each activity's index. Read before editing.",
+        parameters: z.object({
+            itineraryId: ItineraryIdSchema,
+        }),
+        async execute({ itineraryId }) {
+            const itinerary = await loadOwnedItinerary(context, itineraryId);
+            return {
+                id: itinerary.id,
+                title: itinerary.title,
+                city: itinerary.city,
+                days: itinerary.dailyPlans.map(summarizeDay),
+            };
+        },
+    });
+
+    const addItineraryActivity = defineChatTool({
+        name: "add_itinerary_activity",
+        description:
+            "Add a real place to a day of a saved itinerary. To swap an activity, remove it and add the replacement at the same index.",
+        parameters: z.object({
+            itineraryId: ItineraryIdSchema,
+            day: DaySchema,
+            position: z.number().int().min(0).optional().describe("0-based index to insert at; defaults to the end of the day"),
+            activity: z.object({
+                name: z.string().min(1).max(120).describe("The place's real name"),
+                description: z.string().min(1).max(600),
+                address: z.string().min(1).max(300),
+                category: z.string().min(1).max(50),
+                time: z.string().max(20).optional().describe("e.g. 12:30 PM"),
+                type: z.enum(["morning", "afternoon", "evening"]).optional(),
+                duration: z.string().max(40).optional(),
+                cost: z.string().max(40).optional(),
+                localleyScore: z.number().int().min(1).max(6).optional(),
+            }),
+        }),
+        async execute({ itineraryId, day, position, activity }) {
+            if (isTipLikeActivity(activity)) {
+                throw new ChatToolError("Activities must be specific real places; put tips in your reply instead.");
+            }
+
+            const itinerary = await loadOwnedItinerary(context, itineraryId);
+            const plan = findDay(itinerary, day);
+            const index = Math.min(position ?? plan.activities.length, plan.activities.length);
+            plan.activities.splice(index, 0, activity);
+            await saveDailyPlans(context, itinerary, { op: "add_activity", day, index, activity });
+
+            return { itineraryId, updated: true, added: { index, name: activity.name }, day: summarizeDay(plan) };
+        },
+    });
+
+    const removeItineraryActivity = defineChatTool({
+        name: "remove_itinerary_activity",
+        description: "Remove one activity, by index from get_itinerary, from a day of a saved itinerary.",
+        parameters: z.object({
+            itineraryId: ItineraryIdSchema,
+            day: DaySchema,
+            activityIndex: z.number().int().min(0),
+        }),
+        async execute({ itineraryId, day, activityIndex }) {
+            const itinerary = await loadOwnedItinerary(context, itineraryId);
+            const plan = findDay(itinerary, day);
+            if (activityIndex >= plan.activities.length) {
+                throw new ChatToolError(`Day ${day} has ${plan.activities.length} activities; index ${activityIndex} is out of range.`);
+            }
+
+            const [removed] = plan.activities.splice(activityIndex, 1);
+            await saveDailyPlans(context, itinerary, {
+                op: "remove_activity",
+                day,
+                index: activityIndex,
+                activity: removed,
+            });
+
+            return { itineraryId, updated: true, removed: { index: activityIndex, name: removed.name }, day: summarizeDay(plan) };
+        },
+    });
+
+    const planMultiCityTrip = defineChatTool({
+        name: "plan_multi_city_trip",
+        description: `Plan stop order, nights per stop and transfers for a multi-city trip. Destination slugs: ${geographySeedManifest.destinations
+            .map((destination) => destination.slug)
+            .join(", ")}.`,
+        parameters: MultiCityTripRequestSchema,
+        async execute(request) {
+            try {
+                return toPreviewDto(planCorridorTrip(request, { timetables: getConfiguredTransportTimetables() }));
+            } catch (error) {
+                if (error instanceof PlannerValidationError) {
+                    throw new ChatToolError(error.message);
+                }
+                throw error;
+            }
+        },
+    });
+
+    const tools: ChatTool[] = [searchSpots, getSpotDetails, getItinerary, addItineraryActivity, removeItineraryActivity];
+    // Planning follows the same flag as the preview route
+    if (isTripPreviewEnabled()) tools.push(planMultiCityTrip);
+    return tools;
+}
@@ -811,6 +811,13 @@ export function getCityByName(name: string): CityConfig | undefined {
     return ALL_CITIES.find(c => c.name.toLowerCase() === name.toLowerCase());
 }
 
+/** A city name or slug as a slug, so "Busan", "busan" and "Ho Chi Minh" compare */
+export function toCitySlug(city: string | null | undefined): string | null {
+    const trimmed = city?.trim();
+    if (!trimmed) return null;
+    return getCityByName(trimmed)?.slug ?? trimmed.toLowerCase().replace(/\s+/g, "-");
+}
+
 export function getEnabledCities(): CityConfig[] {
     return ENABLED_CITIES;
 }
@@ -0,0 +1,21 @@
+/**
+ * A random id middleware.ts gives each browser once, so engagement screening
+ * can tell browsers apart when they share a network, user agent and language
+ * (carrier NAT, café Wi-Fi). It identifies a browser, not a person, and is only
+ * stored hashed.
+ */
+export const DEVICE_ID_COOKIE = "localley_device";
+
+/** Browsers cap cookie lifetimes at 400 days */
+export const DEVICE_ID_MAX_AGE_SECONDS = 400 * 24 * 60 * 60;
+
+const DEVICE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function readDeviceId(cookieHeader: string | null): string | null {
+    const value = cookieHeader
+        ?.split(";")
+        .map((cookie) => cookie.trim())
+        .find((cookie) => cookie.startsWith(`${DEVICE_ID_COOKIE}=`))
+        ?.slice(DEVICE_ID_COOKIE.length + 1);
+    return value && DEVICE_ID_PATTERN.test(value) ? value : null;
+}
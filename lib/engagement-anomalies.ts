@@ -0,0 +1,360 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Payout screening for guide engagement. `content_engagement` only dedupes by
+ * viewer, content and day, so before each monthly calculation the month is
+ * screened here and suspicious rows are marked `held`, which keeps them out of
+ * `calculate_monthly_earnings`. Holds an admin has released are left alone.
+ */
+
+export type EngagementHoldReason =
+    | "alt_account"
+    | "ip_burst"
+    | "device_burst"
+    | "shared_device"
+    | "guide_ring";
+
+export const ENGAGEMENT_HOLD_REASONS: EngagementHoldReason[] = [
+    "alt_account",
+    "ip_burst",
+    "device_burst",
+    "shared_device",
+    "guide_ring",
+];
+
+export const ENGAGEMENT_ANOMALY_RULES = {
+    /**
+     * A viewer who shares a network with the guide is treated as an alt
+     * account once this much of their month goes to that guide...
+     */
+    altSharedIpMinShare: 0.8,
+    /** ...over at least this many engagements */
+    altSharedIpMinEvents: 5,
+    burstWindowMinutes: 60,
+    /** Engagements with one guide from one network inside the window */
+    ipBurstMaxEvents: 20,
+    /** Engagements with one guide from one browser inside the window */
+    deviceBurstMaxEvents: 10,
+    /** Accounts seen on one browser before its engagement stops counting */
+    maxAccountsPerDevice: 3,
+    /** Points one guide gives another before the pair can form a ring */
+    ringMinPoints: 15,
+} as const;
+
+export interface ScreenedEngagement {
+    id: string;
+    viewer_clerk_user_id: string;
+    creator_clerk_user_id: string;
+    engagement_points: number;
+    ip_hash: string | null;
+    device_hash: string | null;
+    created_at: string;
+}
+
+export interface EngagementFingerprint {
+    clerk_user_id: string;
+    device_hash: string;
+    ip_hash: string;
+}
+
+export interface EngagementAnomalyInput {
+    rows: ScreenedEngagement[];
+    /** Every known device of the month's viewers and creators, and every account seen on its devices */
+    fingerprints: EngagementFingerprint[];
+    /** Approved guides, for ring detection */
+    guideIds: Iterable<string>;
+}
+
+export interface EngagementScreeningSummary {
+    month: string;
+    screened: number;
+    held: number;
+    heldPoints: number;
+    byReason: Record<EngagementHoldReason, { rows: number; points: number }>;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const value = key(item);
+        if (value === null) continue;
+        const group = groups.get(value);
+        if (group) group.push(item);
+        else groups.set(value, [item]);
+    }
+    return groups;
+}
+
+function indexSets(fingerprints: EngagementFingerprint[], key: "device_hash" | "ip_hash") {
+    const byUser = new Map<string, Set<string>>();
+    const byHash = new Map<string, Set<string>>();
+    for (const fingerprint of fingerprints) {
+        const hash = fingerprint[key];
+        if (!byUser.has(fingerprint.clerk_user_id)) byUser.set(fingerprint.clerk_user_id, new Set());
+        byUser.get(fingerprint.clerk_user_id)!.add(hash);
+        if (!byHash.has(hash)) byHash.set(hash, new Set());
+        byHash.get(hash)!.add(fingerprint.clerk_user_id);
+    }
+    return { byUser, byHash };
+}
+
+function shares(a: Set<string> | undefined, b: Set<string> | undefined): boolean {
+    if (!a || !b) return false;
+    for (const value of a) if (b.has(value)) return true;
+    return false;
+}
+
+/** Rows where more than `max` engagements fall inside one sliding window */
+function burstRows(rows: ScreenedEngagement[], max: number): ScreenedEngagement[] {
+    const windowMs = ENGAGEMENT_ANOMALY_RULES.burstWindowMinutes * 60_000;
+    const sorted = [...rows].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+    const flagged = new Set<ScreenedEngagement>();
+    let start = 0;
+    for (let end = 0; end < sorted.length; end++) {
+        const endTime = Date.parse(sorted[end].created_at);
+        while (endTime - Date.parse(sorted[start].created_at) > windowMs) start++;
+        if (end - start + 1 > max) {
+            for (let index = start; index <= end; index++) flagged.add(sorted[index]);
+        }
+    }
+    return [...flagged];
+}
+
+/**
+ * Which engagement rows to hold and why. Pure, so the rules can be tested
+ * and re-run against an explanation without touching the database.
+ *
+ * - alt_account: the viewer has used one of the guide's own browsers, or
+ *   shares a network with the guide and spends most of their month on them
+ * - ip_burst / device_burst: one network or browser engages with one guide
+ *   faster than a person browsing would
+ * - shared_device: the engagement comes from a browser used by more accounts
+ *   than a household would share
+ * - guide_ring: guides trading engagement around a cycle, each giving the next
+ *   at least `ringMinPoints`
+ */
+export function detectEngagementAnomalies({
+    rows,
+    fingerprints,
+    guideIds,
+}: EngagementAnomalyInput): Map<string, EngagementHoldReason[]> {
+    const rules = ENGAGEMENT_ANOMALY_RULES;
+    const reasons = new Map<string, Set<EngagementHoldReason>>();
+    const flag = (flagged: ScreenedEngagement[], reason: EngagementHoldReason) => {
+        for (const row of flagged) {
+            if (!reasons.has(row.id)) reasons.set(row.id, new Set());
+            reasons.get(row.id)!.add(reason);
+        }
+    };
+
+    const devices = indexSets(fingerprints, "device_hash");
+    const networks = indexSets(fingerprints, "ip_hash");
+    const devicesOf = (userId: string, row?: ScreenedEngagement) => {
+        const known = new Set(devices.byUser.get(userId));
+        if (row?.device_hash) known.add(row.device_hash);
+        return known;
+    };
+    const networksOf = (userId: string, row?: ScreenedEngagement) => {
+        const known = new Set(networks.byUser.get(userId));
+        if (row?.ip_hash) known.add(row.ip_hash);
+        return known;
+    };
+
+    // Alt accounts, per viewer and guide
+    const viewerTotals = new Map<string, number>();
+    for (const row of rows) {
+        viewerTotals.set(row.viewer_clerk_user_id, (viewerTotals.get(row.viewer_clerk_user_id) ?? 0) + 1);
+    }
+    const pairs = groupBy(rows, (row) => `${row.viewer_clerk_user_id}\u0000${row.creator_clerk_user_id}`);
+    for (const pairRows of pairs.values()) {
+        const viewer = pairRows[0].viewer_clerk_user_id;
+        const creator = pairRows[0].creator_clerk_user_id;
+        const viewerDevices = new Set(pairRows.flatMap((row) => [...devicesOf(viewer, row)]));
+        const viewerNetworks = new Set(pairRows.flatMap((row) => [...networksOf(viewer, row)]));
+
+        if (shares(viewerDevices, devicesOf(creator))) {
+            flag(pairRows, "alt_account");
+            continue;
+        }
+
+        const concentrated = pairRows.length >= rules.altSharedIpMinEvents &&
+            pairRows.length / (viewerTotals.get(viewer) ?? pairRows.length) >= rules.altSharedIpMinShare;
+        if (concentrated && shares(viewerNetworks, networksOf(creator))) {
+            flag(pairRows, "alt_account");
+        }
+    }
+
+    // Bursts, per guide and network or browser
+    for (const group of groupBy(rows, (row) => row.ip_hash && `${row.creator_clerk_user_id}\u0000${row.ip_hash}`).values()) {
+        flag(burstRows(group, rules.ipBurstMaxEvents), "ip_burst");
+    }
+    for (const group of groupBy(rows, (row) => row.device_hash && `${row.creator_clerk_user_id}\u0000${row.device_hash}`).values()) {
+        flag(burstRows(group, rules.deviceBurstMaxEvents), "device_burst");
+    }
+
+    // Browsers shared by too many accounts
+    for (const [deviceHash, group] of groupBy(rows, (row) => row.device_hash)) {
+        const accounts = new Set(devices.byHash.get(deviceHash));
+        for (const row of group) accounts.add(row.viewer_clerk_user_id);
+        if (accounts.size > rules.maxAccountsPerDevice) flag(group, "shared_device");
+    }
+
+    // Rings: a strong guide-to-guide edge whose target can reach back to its source
+    const guides = new Set(guideIds);
+    const guideRows = groupBy(
+        rows.filter((row) => guides.has(row.viewer_clerk_user_id) && guides.has(row.creator_clerk_user_id)),
+        (row) => `${row.viewer_clerk_user_id}\u0000${row.creator_clerk_user_id}`
+    );
+    const edges = new Map<string, Set<string>>();
+    for (const pairRows of guideRows.values()) {
+        const points = pairRows.reduce((sum, row) => sum + row.engagement_points, 0);
+        if (points < rules.ringMinPoints) continue;
+        const from = pairRows[0].viewer_clerk_user_id;
+        if (!edges.has(from)) edges.set(from, new Set());
+        edges.get(from)!.add(pairRows[0].creator_clerk_user_id);
+    }
+    const reaches = (from: string, to: string) => {
+        const seen = new Set([from]);
+        const queue = [from];
+        while (queue.length) {
+            for (const next of edges.get(queue.shift()!) ?? []) {
+                if (next === to) return true;
+                if (!seen.has(next)) {
+                    seen.add(next);
+                    queue.push(next);
+                }
+            }
+        }
+        return false;
+    };
+    for (const pairRows of guideRows.values()) {
+        const from = pairRows[0].viewer_clerk_user_id;
+        const to = pairRows[0].creator_clerk_user_id;
+        if (edges.get(from)?.has(to) && reaches(to, from)) flag(pairRows, "guide_ring");
+    }
+
+    return new Map(
+        [...reasons].map(([id, found]) => [id, ENGAGEMENT_HOLD_REASONS.filter((reason) => found.has(reason))])
+    );
+}
+
+const PAGE_SIZE = 1000;
+const CHUNK_SIZE = 200;
+
+function chunk<T>(items: T[]): T[][] {
+    const chunks: T[][] = [];
+    for (let index = 0; index < items.length; index += CHUNK_SIZE) chunks.push(items.slice(index, index + CHUNK_SIZE));
+    return chunks;
+}
+
+async function loadMonthEngagement(
+    supabase: SupabaseClient,
+    month: string,
+): Promise<Array<ScreenedEngagement & { hold_released_at: string | null }>> {
+    const rows: Array<ScreenedEngagement & { hold_released_at: string | null }> = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from("content_engagement")
+            .select("id, viewer_clerk_user_id, creator_clerk_user_id, engagement_points, ip_hash, device_hash, created_at, hold_released_at")
+            .eq("engagement_month", month)
+            .order("id", { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`Could not load engagement: ${error.message}`);
+
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+}
+
+async function loadFingerprints(
+    supabase: SupabaseClient,
+    rows: ScreenedEngagement[],
+): Promise<EngagementFingerprint[]> {
+    const users = [...new Set(rows.flatMap((row) => [row.viewer_clerk_user_id, row.creator_clerk_user_id]))];
+    const deviceHashes = [...new Set(rows.map((row) => row.device_hash).filter((hash): hash is string => !!hash))];
+    const found = new Map<string, EngagementFingerprint>();
+
+    const lookups = [
+        ...chunk(users).map((ids) => ["clerk_user_id", ids] as const),
+        ...chunk(deviceHashes).map((hashes) => ["device_hash", hashes] as const),
+    ];
+    for (const [column, values] of lookups) {
+        const { data, error } = await supabase
+            .from("engagement_fingerprints")
+            .select("clerk_user_id, device_hash, ip_hash")
+            .in(column, values);
+        if (error) throw new Error(`Could not load engagement fingerprints: ${error.message}`);
+        for (const fingerprint of data || []) {
+            found.set(`${fingerprint.clerk_user_id}\u0000${fingerprint.device_hash}`, fingerprint);
+        }
+    }
+
+    return [...found.values()];
+}
+
+/**
+ * Re-screen a month (`YYYY-MM-01`) and rewrite its holds. Run before
+ * `calculate_monthly_earnings`; safe to repeat, since holds are recomputed
+ * from scratch and released rows are never held again.
+ */
+export async function screenMonthEngagement(
+    supabase: SupabaseClient,
+    month: string,
+): Promise<EngagementScreeningSummary> {
+    const rows = await loadMonthEngagement(supabase, month);
+
+    const { data: guides, error: guidesError } = await supabase
+        .from("guide_profiles")
+        .select("clerk_user_id")
+        .eq("status", "approved");
+    if (guidesError) throw new Error(`Could not load guides: ${guidesError.message}`);
+
+    const detected = detectEngagementAnomalies({
+        rows,
+        fingerprints: await loadFingerprints(supabase, rows),
+        guideIds: (guides || []).map((guide) => guide.clerk_user_id),
+    });
+
+    const { error: resetError } = await supabase
+        .from("content_engagement")
+        .update({ held: false, hold_reasons: [] })
+        .eq("engagement_month", month)
+        .eq("held", true)
+        .is("hold_released_at", null);
+    if (resetError) throw new Error(`Could not reset engagement holds: ${resetError.message}`);
+
+    const summary: EngagementScreeningSummary = {
+        month,
+        screened: rows.length,
+        held: 0,
+        heldPoints: 0,
+        byReason: Object.fromEntries(
+            ENGAGEMENT_HOLD_REASONS.map((reason) => [reason, { rows: 0, points: 0 }])
+        ) as EngagementScreeningSummary["byReason"],
+    };
+
+    const holds = groupBy(
+        rows.filter((row) => !row.hold_released_at && detected.has(row.id)),
+        (row) => detected.get(row.id)!.join(",")
+    );
+    for (const [key, held] of holds) {
+        const holdReasons = key.split(",") as EngagementHoldReason[];
+        for (const ids of chunk(held.map((row) => row.id))) {
+            const { error } = await supabase
+                .from("content_engagement")
+                .update({ held: true, hold_reasons: holdReasons })
+                .in("id", ids);
+            if (error) throw new Error(`Could not hold engagement: ${error.message}`);
+        }
+
+        const points = held.reduce((sum, row) => sum + row.engagement_points, 0);
+        summary.held += held.length;
+        summary.heldPoints += points;
+        for (const reason of holdReasons) {
+            summary.byReason[reason].rows += held.length;
+            summary.byReason[reason].points += points;
+        }
+    }
+
+    return summary;
+}
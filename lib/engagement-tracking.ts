@@ -1,4 +1,6 @@
+import { createHash } from "node:crypto";
 import { createSupabaseAdmin } from "@/lib/supabase";
+import { readDeviceId } from "@/lib/device-id";
 import { getUserTier } from "@/lib/usage-tracking";
 
 export type EngagementType =
@@ -7,23 +9,89 @@ export type EngagementType =
     | "spot_view"
     | "spot_save";
 
+/**
+ * Hashed network and browser signals for an engagement, used by
+ * lib/engagement-anomalies.ts to spot alt accounts and view bursts.
+ * Raw IPs and user agents are never stored.
+ */
+export interface EngagementContext {
+    ipHash: string;
+    /**
+     * One browser, from its device id cookie. IP, user agent and language
+     * alone are shared by everyone behind the same carrier NAT or café Wi-Fi
+     * on the same phone model, so they're only used for requests without the
+     * cookie: a browser's first visit, and clients that drop cookies.
+     */
+    deviceHash: string;
+}
+
+function hashSignal(...parts: string[]): string {
+    return createHash("sha256")
+        .update([process.env.ENGAGEMENT_HASH_SALT ?? "", ...parts].join("|"))
+        .digest("hex")
+        .slice(0, 32);
+}
+
+export function engagementContextFromRequest(req: Request): EngagementContext {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+        req.headers.get("x-real-ip") ||
+        "unknown";
+    const deviceId = readDeviceId(req.headers.get("cookie"));
+    const userAgent = req.headers.get("user-agent") ?? "";
+    const language = req.headers.get("accept-language") ?? "";
+
+    return {
+        ipHash: hashSignal("ip", ip),
+        deviceHash: deviceId
+            ? hashSignal("device", deviceId)
+            : hashSignal("device", ip, userAgent, language),
+    };
+}
+
+/**
+ * Remember which devices an account uses. Recorded for every engagement,
+ * including guides viewing their own content, so an alt account viewing
+ * from the guide's own browser can be matched later.
+ */
+async function recordFingerprint(
+    clerkUserId: string,
+    context: EngagementContext
+): Promise<void> {
+    const supabase = createSupabaseAdmin();
+    const { error } = await supabase.from("engagement_fingerprints").upsert(
+        {
+            clerk_user_id: clerkUserId,
+            device_hash: context.deviceHash,
+            ip_hash: context.ipHash,
+            last_seen_at: new Date().toISOString(),
+        },
+        { onConflict: "clerk_user_id,device_hash" }
+    );
+    if (error) console.error("Engagement fingerprint error:", error);
+}
+
 /**
  * Track engagement from a paid subscriber viewing/saving guide content.
  * Only counts engagement from Pro/Premium users (they generate revenue).
  * Automatically deduplicates (max 1 per user per content per type per day).
  *
- * Call this from itinerary view, itinerary save, spot view, and spot save endpoints.
+ * Call this from itinerary view, itinerary save, spot view, and spot save endpoints,
+ * passing `engagementContextFromRequest(req)` so the engagement can be screened
+ * before payouts.
  */
 export async function trackEngagement(
     viewerClerkUserId: string,
     contentType: EngagementType,
     contentId: string,
-    creatorClerkUserId: string
+    creatorClerkUserId: string,
+    context?: EngagementContext
 ): Promise<boolean> {
-    // Don't track self-engagement
-    if (viewerClerkUserId === creatorClerkUserId) return false;
-
     try {
+        if (context) await recordFingerprint(viewerClerkUserId, context);
+
+        // Don't track self-engagement
+        if (viewerClerkUserId === creatorClerkUserId) return false;
+
         // Check viewer's tier — only paid subscribers generate revenue
         const tier = await getUserTier(viewerClerkUserId);
         if (tier !== "pro" && tier !== "premium") return false;
@@ -45,6 +113,8 @@ export async function trackEngagement(
             p_content_type: contentType,
             p_content_id: contentId,
             p_creator_clerk_user_id: creatorClerkUserId,
+            p_ip_hash: context?.ipHash ?? null,
+            p_device_hash: context?.deviceHash ?? null,
         });
 
         if (error) {
@@ -64,6 +134,7 @@ export async function trackEngagement(
 
 /**
  * Get engagement summary for a guide for a specific month.
+ * Engagement held by payout screening is reported separately, not counted.
  */
 export async function getGuideEngagement(
     guideClerkUserId: string,
@@ -77,7 +148,7 @@ export async function getGuideEngagement(
 
     const { data, error } = await supabase
         .from("content_engagement")
-        .select("content_type, engagement_points")
+        .select("content_type, engagement_points, held")
         .eq("creator_clerk_user_id", guideClerkUserId)
         .eq("engagement_month", monthStart);
 
@@ -85,6 +156,7 @@ export async function getGuideEngagement(
 
     const summary = {
         totalPoints: 0,
+        heldPoints: 0,
         itineraryViews: 0,
         itinerarySaves: 0,
         spotViews: 0,
@@ -92,6 +164,10 @@ export async function getGuideEngagement(
     };
 
     for (const row of data) {
+        if (row.held) {
+            summary.heldPoints += row.engagement_points;
+            continue;
+        }
         summary.totalPoints += row.engagement_points;
         switch (row.content_type) {
             case "itinerary_view":
@@ -16,6 +16,8 @@ export const XP_REWARDS = {
     VERIFY_SPOT: 100,
     CREATE_ITINERARY: 30,
     SHARE_SPOT: 10,
+    WRITE_REVIEW: 20,
+    FOLLOW_USER: 10,
     DAILY_LOGIN: 10,
     STREAK_BONUS: 20,
 };
@@ -0,0 +1,516 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { getCityByName } from "@/lib/cities";
+import {
+  FX_RATES_AS_OF,
+  FX_RATES_PER_USD,
+  convertMoney,
+  currencyMinorUnits,
+  parseCost,
+  roundMoney,
+} from "@/lib/money";
+import {
+  listItineraryCollaborators,
+  type CollaborativeItinerary,
+  type ItineraryRole,
+} from "./collaboration";
+import { activityKey } from "./revisions";
+
+/**
+ * Trip budgets: planned cost parsed from the plan's free-text `cost` fields,
+ * actual spend logged by the group against activities, and who owes whom.
+ * Everything is totalled in the trip currency (the city's, else USD) with
+ * the bundled rates in lib/money.ts. The model writes prices per traveller,
+ * so planned cost is scaled to the group before it's set against what the
+ * group spent.
+ */
+
+export const EXPENSE_CATEGORIES = ["food", "activities", "transport", "shopping", "stay", "other"] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  food: "Food & drink",
+  activities: "Sights & activities",
+  transport: "Getting around",
+  shopping: "Shopping",
+  stay: "Stay",
+  other: "Other",
+};
+
+const CATEGORY_KEYWORDS: Array<[ExpenseCategory, RegExp]> = [
+  ["food", /food|restaurant|cafe|café|coffee|bar\b|pub|dining|bakery|dessert|market|drink|izakaya|pojangmacha/i],
+  ["transport", /transport|transit|taxi|train|subway|metro|bus\b|ferry/i],
+  ["shopping", /shop|boutique|mall|store|souvenir/i],
+  ["stay", /hotel|hostel|accommodation|guesthouse|ryokan|hanok stay/i],
+];
+
+/** The parts of a plan a budget reads; saved and display plans both fit */
+export type BudgetActivity = { name: string; cost?: unknown; category?: unknown };
+export type BudgetDayPlan = { day?: number; theme?: string; activities: BudgetActivity[] };
+
+export function categorizeActivity(activity: Pick<BudgetActivity, "name" | "category">): ExpenseCategory {
+  const category = typeof activity.category === "string" ? activity.category : "";
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(category))?.[0] ?? "activities";
+}
+
+/** The currency a trip is budgeted in */
+export function tripCurrency(city: string | null | undefined): string {
+  const currency = city ? getCityByName(city)?.currency : undefined;
+  return currency && currency in FX_RATES_PER_USD ? currency : "USD";
+}
+
+/** Body of POST /api/itineraries/[id]/expenses */
+export const ItineraryExpenseRequestSchema = z.object({
+  amount: z.number().positive().max(1_000_000_000),
+  currency: z.string().trim().toUpperCase().refine((code) => code in FX_RATES_PER_USD, "Unsupported currency"),
+  category: z.enum(EXPENSE_CATEGORIES),
+  description: z.string().trim().max(200).default(""),
+  activityKey: z.string().trim().min(1).max(200).nullable().default(null),
+  day: z.number().int().min(1).max(60).nullable().default(null),
+  /** Defaults to whoever logs it */
+  paidBy: z.string().trim().min(1).max(100).optional(),
+  /** Members sharing the cost; empty splits it across the whole group */
+  splitWith: z.array(z.string().trim().min(1).max(100)).max(30).default([]),
+  spentOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().default(null),
+}).strict();
+
+export type ItineraryExpenseRequest = z.infer<typeof ItineraryExpenseRequestSchema>;
+
+export type ItineraryExpense = {
+  id: string;
+  activityKey: string | null;
+  day: number | null;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  currency: string;
+  paidBy: string;
+  splitWith: string[];
+  spentOn: string | null;
+  createdBy: string;
+  createdAt: string;
+};
+
+/** Someone in the group: the owner or a collaborator */
+export type TripMember = {
+  userId: string;
+  name: string;
+  role: ItineraryRole;
+};
+
+export class ItineraryBudgetError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "DATABASE",
+  ) {
+    super(message);
+    this.name = "ItineraryBudgetError";
+  }
+}
+
+// ============================================
+// Planned vs. actual
+// ============================================
+
+export type BudgetLine = {
+  key: string;
+  label: string;
+  planned: number;
+  actual: number;
+};
+
+export type ActivityBudget = {
+  activityKey: string;
+  day: number;
+  name: string;
+  /** Null when the plan's cost couldn't be read */
+  planned: number | null;
+  actual: number;
+};
+
+export type ItineraryBudget = {
+  currency: string;
+  fxRatesAsOf: string;
+  /** How many people the planned figures cover */
+  travellers: number;
+  /** The trip-level estimate from the plan, if it could be read */
+  estimatedTotal: number | null;
+  planned: number;
+  actual: number;
+  /** Activities with a cost that couldn't be read */
+  unpricedActivities: number;
+  days: BudgetLine[];
+  categories: BudgetLine[];
+  activities: ActivityBudget[];
+};
+
+function toTripCurrency(amount: number, from: string, currency: string): number {
+  return convertMoney(amount, from, currency) ?? 0;
+}
+
+export function summarizeItineraryBudget(args: {
+  dailyPlans: BudgetDayPlan[];
+  estimatedCost?: string | null;
+  currency: string;
+  expenses?: ItineraryExpense[];
+  /** Group size; the plan's per-person prices are multiplied by it */
+  travellers?: number;
+}): ItineraryBudget {
+  const { dailyPlans, currency, expenses = [] } = args;
+  const travellers = Math.max(1, Math.floor(args.travellers ?? 1));
+  const round = (amount: number) => roundMoney(amount, currency);
+
+  const activities: ActivityBudget[] = [];
+  const plannedByCategory = new Map<ExpenseCategory, number>();
+  const dayOfActivity = new Map<string, number>();
+  let unpricedActivities = 0;
+
+  for (const [dayIndex, day] of dailyPlans.entries()) {
+    const dayNumber = day.day ?? dayIndex + 1;
+    for (const activity of day.activities) {
+      const key = activityKey(activity);
+      if (!dayOfActivity.has(key)) dayOfActivity.set(key, dayNumber);
+
+      const cost = parseCost(activity.cost as string | number | undefined, { defaultCurrency: currency });
+      const planned = cost ? toTripCurrency(cost.amount, cost.currency, currency) * travellers : null;
+      if (planned === null && activity.cost) unpricedActivities++;
+      if (planned !== null) {
+        const category = categorizeActivity(activity);
+        plannedByCategory.set(category, (plannedByCategory.get(category) ?? 0) + planned);
+      }
+      activities.push({ activityKey: key, day: dayNumber, name: activity.name, planned, actual: 0 });
+    }
+  }
+
+  const actualByDay = new Map<number | null, number>();
+  const actualByCategory = new Map<ExpenseCategory, number>();
+  const actualByActivity = new Map<string, number>();
+  for (const expense of expenses) {
+    const amount = toTripCurrency(expense.amount, expense.currency, currency);
+    const day = expense.day ?? (expense.activityKey ? dayOfActivity.get(expense.activityKey) : undefined) ?? null;
+    actualByDay.set(day, (actualByDay.get(day) ?? 0) + amount);
+    actualByCategory.set(expense.category, (actualByCategory.get(expense.category) ?? 0) + amount);
+    if (expense.activityKey) {
+      actualByActivity.set(expense.activityKey, (actualByActivity.get(expense.activityKey) ?? 0) + amount);
+    }
+  }
+
+  const days: BudgetLine[] = dailyPlans.map((day, dayIndex) => {
+    const dayNumber = day.day ?? dayIndex + 1;
+    return {
+      key: `day-${dayNumber}`,
+      label: day.theme ? `Day ${dayNumber}: ${day.theme}` : `Day ${dayNumber}`,
+      planned: round(
+        activities.filter((activity) => activity.day === dayNumber).reduce((sum, activity) => sum + (activity.planned ?? 0), 0)
+      ),
+      actual: round(actualByDay.get(dayNumber) ?? 0),
+    };
+  });
+  const unassigned = [...actualByDay].filter(([day]) => day === null || !days.some((line) => line.key === `day-${day}`));
+  if (unassigned.length > 0) {
+    days.push({
+      key: "unassigned",
+      label: "Not tied to a day",
+      planned: 0,
+      actual: round(unassigned.reduce((sum, [, amount]) => sum + amount, 0)),
+    });
+  }
+
+  const categories = EXPENSE_CATEGORIES.map((category) => ({
+    key: category,
+    label: EXPENSE_CATEGORY_LABELS[category],
+    planned: round(plannedByCategory.get(category) ?? 0),
+    actual: round(actualByCategory.get(category) ?? 0),
+  })).filter((line) => line.planned > 0 || line.actual > 0);
+
+  const estimate = parseCost(args.estimatedCost, { defaultCurrency: currency });
+
+  return {
+    currency,
+    fxRatesAsOf: FX_RATES_AS_OF,
+    travellers,
+    estimatedTotal: estimate ? round(toTripCurrency(estimate.amount, estimate.currency, currency) * travellers) : null,
+    planned: round(activities.reduce((sum, activity) => sum + (activity.planned ?? 0), 0)),
+    actual: round(expenses.reduce((sum, expense) => sum + toTripCurrency(expense.amount, expense.currency, currency), 0)),
+    unpricedActivities,
+    days,
+    categories,
+    activities: activities.map((activity) => ({
+      ...activity,
+      planned: activity.planned === null ? null : round(activity.planned),
+      actual: round(actualByActivity.get(activity.activityKey) ?? 0),
+    })),
+  };
+}
+
+// ============================================
+// Splitting the bill
+// ============================================
+
+export type MemberBalance = {
+  userId: string;
+  name: string;
+  paid: number;
+  share: number;
+  /** Positive when the group owes them, negative when they owe */
+  net: number;
+};
+
+export type Settlement = {
+  from: string;
+  to: string;
+  amount: number;
+};
+
+export type BillSplit = {
+  currency: string;
+  balances: MemberBalance[];
+  /** Payments that settle everyone up, largest debts paid to the largest creditors first */
+  settlements: Settlement[];
+};
+
+/**
+ * Each expense is shared equally by its `splitWith` members, or the whole
+ * group when it names none. Works in the currency's smallest unit so shares
+ * add up exactly; leftover units go to the first sharers.
+ */
+export function splitItineraryExpenses(
+  expenses: ItineraryExpense[],
+  members: TripMember[],
+  currency: string,
+): BillSplit {
+  const unit = 10 ** currencyMinorUnits(currency);
+  const units = new Map<string, { paid: number; share: number }>();
+  const entry = (userId: string) => {
+    if (!units.has(userId)) units.set(userId, { paid: 0, share: 0 });
+    return units.get(userId)!;
+  };
+  members.forEach((member) => entry(member.userId));
+
+  for (const expense of expenses) {
+    const total = Math.round(toTripCurrency(expense.amount, expense.currency, currency) * unit);
+    const named = expense.splitWith.filter((userId, index, all) => all.indexOf(userId) === index);
+    const sharers = named.length > 0 ? named : members.map((member) => member.userId);
+    if (sharers.length === 0) continue;
+
+    entry(expense.paidBy).paid += total;
+    const base = Math.floor(total / sharers.length);
+    const remainder = total - base * sharers.length;
+    sharers.forEach((userId, index) => {
+      entry(userId).share += base + (index < remainder ? 1 : 0);
+    });
+  }
+
+  const names = new Map(members.map((member) => [member.userId, member.name]));
+  const balances = [...units].map(([userId, { paid, share }]) => ({
+    userId,
+    name: names.get(userId) ?? "Former member",
+    paid,
+    share,
+    net: paid - share,
+  }));
+
+  const creditors = balances.filter((balance) => balance.net > 0).map((balance) => ({ ...balance }));
+  const debtors = balances.filter((balance) => balance.net < 0).map((balance) => ({ ...balance }));
+  creditors.sort((a, b) => b.net - a.net);
+  debtors.sort((a, b) => a.net - b.net);
+
+  const settlements: Settlement[] = [];
+  let creditorIndex = 0;
+  for (const debtor of debtors) {
+    while (debtor.net < 0 && creditorIndex < creditors.length) {
+      const creditor = creditors[creditorIndex];
+      const amount = Math.min(-debtor.net, creditor.net);
+      settlements.push({ from: debtor.userId, to: creditor.userId, amount: amount / unit });
+      debtor.net += amount;
+      creditor.net -= amount;
+      if (creditor.net === 0) creditorIndex++;
+    }
+  }
+
+  return {
+    currency,
+    balances: balances.map((balance) => ({
+      ...balance,
+      paid: balance.paid / unit,
+      share: balance.share / unit,
+      net: balance.net / unit,
+    })),
+    settlements,
+  };
+}
+
+// ============================================
+// Storage
+// ============================================
+
+type ExpenseRow = {
+  id: string;
+  activity_key: string | null;
+  day: number | null;
+  category: ExpenseCategory;
+  description: string;
+  amount: number | string;
+  currency: string;
+  paid_by: string;
+  split_with: string[] | null;
+  spent_on: string | null;
+  created_by: string;
+  created_at: string;
+};
+
+const EXPENSE_COLUMNS =
+  "id,activity_key,day,category,description,amount,currency,paid_by,split_with,spent_on,created_by,created_at";
+
+function toExpense(row: ExpenseRow): ItineraryExpense {
+  return {
+    id: row.id,
+    activityKey: row.activity_key,
+    day: row.day,
+    category: row.category,
+    description: row.description,
+    amount: Number(row.amount),
+    currency: row.currency,
+    paidBy: row.paid_by,
+    splitWith: row.split_with || [],
+    spentOn: row.spent_on,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listItineraryExpenses(
+  supabase: SupabaseClient,
+  itineraryId: string,
+): Promise<ItineraryExpense[]> {
+  const { data, error } = await supabase
+    .from("itinerary_expenses")
+    .select(EXPENSE_COLUMNS)
+    .eq("itinerary_id", itineraryId)
+    .order("created_at", { ascending: true });
+  if (error) throw new ItineraryBudgetError(`Could not load expenses: ${error.message}`, "DATABASE");
+  return ((data || []) as ExpenseRow[]).map(toExpense);
+}
+
+export async function addItineraryExpense(
+  supabase: SupabaseClient,
+  args: { itineraryId: string; userId: string; expense: ItineraryExpenseRequest },
+): Promise<ItineraryExpense> {
+  const { expense } = args;
+  const { data, error } = await supabase
+    .from("itinerary_expenses")
+    .insert({
+      itinerary_id: args.itineraryId,
+      activity_key: expense.activityKey,
+      day: expense.day,
+      category: expense.category,
+      description: expense.description,
+      amount: expense.amount,
+      currency: expense.currency,
+      paid_by: expense.paidBy ?? args.userId,
+      split_with: expense.splitWith,
+      spent_on: expense.spentOn,
+      created_by: args.userId,
+    })
+    .select(EXPENSE_COLUMNS)
+    .single<ExpenseRow>();
+  if (error || !data) {
+    throw new ItineraryBudgetError(`Could not save expense: ${error?.message ?? "no row returned"}`, "DATABASE");
+  }
+  return toExpense(data);
+}
+
+export async function deleteItineraryExpense(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  expenseId: string,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("itinerary_expenses")
+    .delete()
+    .eq("itinerary_id", itineraryId)
+    .eq("id", expenseId)
+    .select("id");
+  if (error) throw new ItineraryBudgetError(`Could not delete expense: ${error.message}`, "DATABASE");
+  if (!data?.length) throw new ItineraryBudgetError("Expense not found.", "NOT_FOUND");
+}
+
+export async function getItineraryExpense(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  expenseId: string,
+): Promise<ItineraryExpense | null> {
+  const { data, error } = await supabase
+    .from("itinerary_expenses")
+    .select(EXPENSE_COLUMNS)
+    .eq("itinerary_id", itineraryId)
+    .eq("id", expenseId)
+    .maybeSingle<ExpenseRow>();
+  if (error) throw new ItineraryBudgetError(`Could not load expense: ${error.message}`, "DATABASE");
+  return data ? toExpense(data) : null;
+}
+
+/**
+ * The owner and collaborators, named from their profiles where they have
+ * one
+ */
+export async function listTripMembers(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  ownerId: string,
+): Promise<TripMember[]> {
+  const collaborators = await listItineraryCollaborators(supabase, itineraryId);
+  const userIds = [ownerId, ...collaborators.map((collaborator) => collaborator.userId)];
+
+  const { data, error } = await supabase
+    .from("users")
+    .select("clerk_id, username")
+    .in("clerk_id", userIds);
+  if (error) throw new ItineraryBudgetError(`Could not load members: ${error.message}`, "DATABASE");
+  const usernames = new Map(
+    ((data || []) as Array<{ clerk_id: string; username: string | null }>).map((row) => [row.clerk_id, row.username])
+  );
+
+  return [
+    { userId: ownerId, name: usernames.get(ownerId) || "Trip organiser", role: "owner" },
+    ...collaborators.map((collaborator) => ({
+      userId: collaborator.userId,
+      name: collaborator.displayName || usernames.get(collaborator.userId) || "Traveller",
+      role: collaborator.role,
+    })),
+  ];
+}
+
+export type ItineraryBudgetReport = {
+  budget: ItineraryBudget;
+  expenses: ItineraryExpense[];
+  members: TripMember[];
+  split: BillSplit;
+};
+
+/** Planned vs. actual, the logged expenses and the bill split for a trip */
+export async function loadItineraryBudgetReport(
+  supabase: SupabaseClient,
+  itinerary: Pick<CollaborativeItinerary, "id" | "city" | "estimatedCost" | "dailyPlans">,
+  ownerId: string,
+): Promise<ItineraryBudgetReport> {
+  const [expenses, members] = await Promise.all([
+    listItineraryExpenses(supabase, itinerary.id),
+    listTripMembers(supabase, itinerary.id, ownerId),
+  ]);
+  const currency = tripCurrency(itinerary.city);
+
+  return {
+    budget: summarizeItineraryBudget({
+      dailyPlans: itinerary.dailyPlans,
+      estimatedCost: itinerary.estimatedCost,
+      currency,
+      expenses,
+      travellers: members.length,
+    }),
+    expenses,
+    members,
+    split: splitItineraryExpenses(expenses, members, currency),
+  };
+}
@@ -0,0 +1,307 @@
+import { activityKey } from "./revisions";
+
+/**
+ * iCalendar (RFC 5545) export for itineraries. Each activity becomes a timed
+ * event in floating local time, so "10:00 AM" stays 10:00 in whatever city
+ * the traveller is in. Event UIDs are derived from the itinerary and the
+ * activity's identity, so a subscribed calendar updates events in place when
+ * the plan is revised instead of duplicating them.
+ */
+
+export interface CalendarActivity {
+  name?: string;
+  time?: string;
+  type?: string;
+  duration?: string;
+  address?: string;
+  description?: string;
+  cost?: string | number;
+  lat?: number;
+  lng?: number;
+}
+
+export interface CalendarDayPlan {
+  day?: number;
+  theme?: string;
+  activities?: CalendarActivity[];
+}
+
+export interface ItineraryCalendarInput {
+  id: string;
+  title: string;
+  city: string;
+  dailyPlans: CalendarDayPlan[];
+  /** YYYY-MM-DD of day 1; without it the plan is laid out from `today` + 1 */
+  startDate?: string | null;
+  /** Bumped on every revision so calendar apps replace changed events */
+  version: number;
+  generatedAt?: Date;
+  url?: string;
+  today?: Date;
+}
+
+const PRODUCT_ID = "-//Localley//Itinerary Calendar//EN";
+const DEFAULT_DURATION_MINUTES = 90;
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 12 * 60;
+
+/** Start times for activities with only a part of the day */
+const PART_OF_DAY_MINUTES: Record<string, number> = {
+  morning: 9 * 60,
+  afternoon: 14 * 60,
+  evening: 19 * 60,
+  night: 21 * 60,
+};
+
+const START_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a YYYY-MM-DD trip start date; null when missing or not a real date
+ */
+export function parseTripStartDate(value: string | null | undefined): Date | null {
+  const text = value?.trim() || "";
+  const match = START_DATE_PATTERN.exec(text);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  // Rejects dates like 2026-02-30 that Date would roll over
+  return date.toISOString().startsWith(text) ? date : null;
+}
+
+/**
+ * Minutes after midnight for times like "9:30 AM", "14:00" or "noon"
+ */
+export function parseActivityTime(value: string | undefined): number | null {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+  if (text === "noon") return 12 * 60;
+  if (text === "midnight") return 0;
+
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/.exec(text);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.replace(/\./g, "");
+  if (!match[2] && !meridiem) return null;
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes for durations like "2 hours", "1-2 hrs", "1h 30m" or "45 min".
+ * Ranges use their midpoint.
+ */
+export function parseActivityDuration(value: string | undefined): number | null {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+
+  const amount = (unit: RegExp): number | null => {
+    const match = new RegExp(`(\\d+(?:\\.\\d+)?)(?:\\s*(?:-|–|to)\\s*(\\d+(?:\\.\\d+)?))?\\s*${unit.source}`).exec(text);
+    if (!match) return null;
+    const low = Number(match[1]);
+    const high = match[2] ? Number(match[2]) : low;
+    return (low + high) / 2;
+  };
+
+  const hours = amount(/(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = amount(/(?:m|min|mins|minute|minutes)\b/);
+  if (hours === null && minutes === null) return null;
+  const total = Math.round((hours ?? 0) * 60 + (minutes ?? 0));
+  return Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, total));
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+/** Floating local date-time: the date plus minutes after its midnight */
+function formatLocalDateTime(date: Date, minutes: number): string {
+  const moment = new Date(date.getTime() + minutes * 60_000);
+  return `${formatDate(moment)}T${pad(moment.getUTCHours())}${pad(moment.getUTCMinutes())}00`;
+}
+
+function formatTimestamp(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60_000);
+}
+
+function slug(value: string): string {
+  return value.replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "activity";
+}
+
+/**
+ * Start and end (minutes after midnight) for each activity of a day. Untimed
+ * activities follow the previous one, or start at their part of the day; an
+ * activity without a duration runs until the next one starts.
+ */
+function scheduleDay(activities: CalendarActivity[]): Array<{ start: number; end: number }> {
+  const starts: number[] = [];
+  let previousEnd = PART_OF_DAY_MINUTES.morning;
+  activities.forEach((activity, index) => {
+    const explicit = parseActivityTime(activity.time)
+      ?? PART_OF_DAY_MINUTES[activity.time?.trim().toLowerCase() ?? ""]
+      ?? PART_OF_DAY_MINUTES[activity.type?.trim().toLowerCase() ?? ""];
+    const start = explicit ?? (index === 0 ? PART_OF_DAY_MINUTES.morning : previousEnd);
+    starts.push(start);
+    previousEnd = start + (parseActivityDuration(activity.duration) ?? DEFAULT_DURATION_MINUTES);
+  });
+
+  return activities.map((activity, index) => {
+    const start = starts[index];
+    const duration = parseActivityDuration(activity.duration);
+    const next = starts[index + 1];
+    const untilNext = next !== undefined && next > start ? next - start : null;
+    const length = duration ?? Math.min(untilNext ?? DEFAULT_DURATION_MINUTES, DEFAULT_DURATION_MINUTES * 2);
+    return { start, end: start + Math.max(MIN_DURATION_MINUTES, length) };
+  });
+}
+
+function describeActivity(activity: CalendarActivity, day: CalendarDayPlan, dayNumber: number): string {
+  const lines = [
+    activity.description?.trim(),
+    activity.cost !== undefined && activity.cost !== "" ? `Cost: ${activity.cost}` : undefined,
+    activity.duration ? `Duration: ${activity.duration}` : undefined,
+    `Day ${dayNumber}${day.theme ? `: ${day.theme}` : ""}`,
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * Render an itinerary as an iCalendar document (CRLF line endings)
+ */
+export function buildItineraryCalendar(input: ItineraryCalendarInput): string {
+  const today = input.today ?? new Date();
+  const firstDay = parseTripStartDate(input.startDate)
+    ?? addDays(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())), 1);
+  const stamp = formatTimestamp(input.generatedAt ?? new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(input.title)}`,
+    `X-WR-CALDESC:${escapeText(`${input.city} itinerary from Localley`)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  input.dailyPlans.forEach((day, dayIndex) => {
+    const dayNumber = day.day ?? dayIndex + 1;
+    const date = addDays(firstDay, dayNumber - 1);
+    const activities = (day.activities || []).filter((activity) => activity.name?.trim());
+    const schedule = scheduleDay(activities);
+    const seen = new Map<string, number>();
+
+    activities.forEach((activity, index) => {
+      const key = slug(activityKey({ name: activity.name! }));
+      const occurrence = seen.get(key) ?? 0;
+      seen.set(key, occurrence + 1);
+      const { start, end } = schedule[index];
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${input.id}-day${dayNumber}-${key}${occurrence ? `-${occurrence + 1}` : ""}@localley.io`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${input.version}`,
+        `DTSTART:${formatLocalDateTime(date, start)}`,
+        `DTEND:${formatLocalDateTime(date, end)}`,
+        `SUMMARY:${escapeText(activity.name!.trim())}`,
+        `DESCRIPTION:${escapeText(describeActivity(activity, day, dayNumber))}`,
+      );
+      if (activity.address?.trim()) {
+        lines.push(`LOCATION:${escapeText(activity.address.trim())}`);
+      }
+      if (Number.isFinite(activity.lat) && Number.isFinite(activity.lng)) {
+        lines.push(`GEO:${activity.lat};${activity.lng}`);
+      }
+      if (input.url) lines.push(`URL:${input.url}`);
+      lines.push("END:VEVENT");
+    });
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Secret for a subscription feed URL; calendar apps can't sign in, so the
+ * token is the only thing guarding the feed
+ */
+export function createCalendarToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * HTTPS and webcal:// URLs for an itinerary's subscription feed
+ */
+export function calendarFeedUrls(origin: string, token: string): { feedUrl: string; webcalUrl: string } {
+  const feedUrl = `${origin}/api/calendar/${token}.ics`;
+  return { feedUrl, webcalUrl: feedUrl.replace(/^https?:\/\//, "webcal://") };
+}
+
+/**
+ * Serve a calendar document, as a download when a filename is given
+ */
+export function calendarResponse(
+  calendar: string,
+  options: { filename?: string; cacheSeconds?: number } = {}
+): Response {
+  const headers: Record<string, string> = {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Cache-Control": options.cacheSeconds
+      ? `public, max-age=${options.cacheSeconds}`
+      : "private, no-store",
+  };
+  if (options.filename) {
+    const name = options.filename.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-") || "itinerary";
+    headers["Content-Disposition"] = `attachment; filename="${name}.ics"`;
+  }
+  return new Response(calendar, { headers });
+}
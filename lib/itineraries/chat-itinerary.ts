@@ -0,0 +1,236 @@
+import { z } from "zod";
+import type { Activity, ActivityRepairTarget, DailyPlan } from "@/lib/llm/types";
+import {
+  cleanChatItineraryDescription,
+  parseChatItineraryPreview,
+  type ParsedChatActivity,
+} from "@/lib/itineraries/chat-preview-parser";
+
+/**
+ * Fence tag for the itinerary JSON Alley appends to an itinerary reply. The
+ * server lifts it out of the prose and returns it as `itinerary`.
+ */
+export const CHAT_ITINERARY_FENCE = "itinerary-json";
+
+const COMPLETE_BLOCK_PATTERN = new RegExp("```" + CHAT_ITINERARY_FENCE + "\\s*([\\s\\S]*?)```");
+// A block still streaming in has no closing fence yet
+const TRAILING_BLOCK_PATTERN = new RegExp("```" + CHAT_ITINERARY_FENCE + "[\\s\\S]*$");
+
+const TimeSlotSchema = z.enum(["morning", "afternoon", "evening"]);
+
+export const ChatItineraryActivitySchema = z.object({
+  time: z.string().min(1).max(40),
+  type: TimeSlotSchema,
+  name: z.string().min(1).max(200),
+  nameKo: z.string().min(1).max(200).optional(),
+  address: z.string().min(1).max(300),
+  description: z.string().min(1).max(2000),
+  category: z.string().min(1).max(60),
+  localleyScore: z.number().int().min(1).max(6),
+  duration: z.string().min(1).max(60),
+  cost: z.string().min(1).max(60),
+  thumbnail: z.string().url().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+}) satisfies z.ZodType<Activity>;
+
+export const ChatDailyPlanSchema = z.object({
+  day: z.number().int().min(1).max(14),
+  theme: z.string().min(1).max(200),
+  activities: z.array(ChatItineraryActivitySchema).min(1).max(12),
+  localTip: z.string().min(1).max(500).optional(),
+  transportTips: z.string().min(1).max(500).optional(),
+}) satisfies z.ZodType<DailyPlan>;
+
+export const ChatItinerarySchema = z.object({
+  title: z.string().min(1).max(200),
+  city: z.string().min(1).max(100),
+  dailyPlans: z.array(ChatDailyPlanSchema).min(1).max(14),
+  tips: z.array(z.string().min(1).max(500)).max(20).optional(),
+});
+
+export type ChatItinerary = z.infer<typeof ChatItinerarySchema>;
+
+/**
+ * Completes the given activities for `city`, in order; null where it could not
+ */
+export type ChatItineraryRepairer = (
+  city: string,
+  targets: ActivityRepairTarget[]
+) => Promise<Array<Activity | null>>;
+
+interface ResolveChatItineraryOptions {
+  repair?: ChatItineraryRepairer;
+  logger?: Pick<Console, "error">;
+}
+
+/**
+ * Reply text without the itinerary block, including one still streaming in
+ */
+export function stripChatItineraryBlock(content: string): string {
+  if (!content.includes("```" + CHAT_ITINERARY_FENCE)) return content;
+  return content.replace(COMPLETE_BLOCK_PATTERN, "").replace(TRAILING_BLOCK_PATTERN, "").trim();
+}
+
+type DraftRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is DraftRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "activity"}: ${issue.message}`).join("; ");
+}
+
+function defaultTimeSlot(index: number): Activity["type"] {
+  return index < 2 ? "morning" : index < 4 ? "afternoon" : "evening";
+}
+
+/**
+ * Fill the cheap structural gaps (title, day numbers, themes) and ask the
+ * repairer for every activity that fails validation. Activities it cannot
+ * repair are dropped. Returns null when the draft is beyond repair.
+ */
+async function repairDraft(draft: unknown, repair: ChatItineraryRepairer): Promise<unknown> {
+  if (!isRecord(draft) || typeof draft.city !== "string" || !Array.isArray(draft.dailyPlans)) {
+    return null;
+  }
+  const city = draft.city;
+  const plans = draft.dailyPlans.filter(isRecord).map((plan, dayIndex) => ({
+    ...plan,
+    day: typeof plan.day === "number" ? plan.day : dayIndex + 1,
+    theme: typeof plan.theme === "string" && plan.theme.trim() ? plan.theme : `Day ${dayIndex + 1}`,
+    activities: Array.isArray(plan.activities) ? [...plan.activities] : [],
+  }));
+
+  const slots: Array<{ plan: number; activity: number }> = [];
+  const targets: ActivityRepairTarget[] = [];
+  plans.forEach((plan, planIndex) => {
+    plan.activities.forEach((activity, activityIndex) => {
+      const parsed = ChatItineraryActivitySchema.safeParse(activity);
+      if (parsed.success) return;
+
+      const fields = isRecord(activity) ? activity : {};
+      const timeSlot = TimeSlotSchema.safeParse(fields.type);
+      slots.push({ plan: planIndex, activity: activityIndex });
+      targets.push({
+        dayTheme: plan.theme,
+        timeSlot: timeSlot.success ? timeSlot.data : defaultTimeSlot(activityIndex),
+        ...(typeof fields.name === "string" && fields.name.trim() && { name: fields.name }),
+        ...(typeof fields.address === "string" && fields.address.trim() && { address: fields.address }),
+        problems: describeIssues(parsed.error),
+      });
+    });
+  });
+
+  if (targets.length > 0) {
+    const repaired = await repair(city, targets);
+    slots.forEach((slot, index) => {
+      plans[slot.plan].activities[slot.activity] = repaired[index] ?? null;
+    });
+  }
+
+  return {
+    ...draft,
+    title: typeof draft.title === "string" && draft.title.trim() ? draft.title : `${city} Hidden Gems`,
+    dailyPlans: plans
+      .map((plan) => ({ ...plan, activities: plan.activities.filter((activity) => activity !== null) }))
+      .filter((plan) => plan.activities.length > 0),
+  };
+}
+
+/**
+ * Split an assistant reply into its prose and its validated itinerary. An
+ * invalid itinerary goes through `repair` once; when that fails too, only
+ * the prose is returned and the client falls back to parsing the markdown.
+ */
+export async function resolveChatItinerary(
+  content: string,
+  options: ResolveChatItineraryOptions = {}
+): Promise<{ content: string; itinerary?: ChatItinerary }> {
+  const block = content.match(COMPLETE_BLOCK_PATTERN);
+  if (!block) return { content: stripChatItineraryBlock(content) };
+
+  const prose = stripChatItineraryBlock(content);
+  const logger = options.logger ?? console;
+
+  let draft: unknown;
+  try {
+    draft = JSON.parse(block[1]);
+  } catch (error) {
+    logger.error("[ChatItinerary] Itinerary block is not valid JSON:", error);
+    return { content: prose };
+  }
+
+  const parsed = ChatItinerarySchema.safeParse(draft);
+  if (parsed.success) return { content: prose, itinerary: parsed.data };
+  if (!options.repair) {
+    logger.error("[ChatItinerary] Invalid itinerary and no repairer:", describeIssues(parsed.error));
+    return { content: prose };
+  }
+
+  try {
+    const repaired = ChatItinerarySchema.safeParse(await repairDraft(draft, options.repair));
+    if (repaired.success) return { content: prose, itinerary: repaired.data };
+    logger.error("[ChatItinerary] Itinerary still invalid after repair:", describeIssues(repaired.error));
+  } catch (error) {
+    logger.error("[ChatItinerary] Itinerary repair failed:", error);
+  }
+  return { content: prose };
+}
+
+const LEGACY_LOCALLEY_SCORES: Record<ParsedChatActivity["type"], number> = {
+  "hidden-gem": 5,
+  "local-favorite": 4,
+  mixed: 3,
+  normal: 3,
+};
+
+function getDayTheme(dayTitle: string): string {
+  const match = dayTitle.match(/^Day\s+\d+\s*[:\-\u2013\u2014]\s*(.+)$/iu);
+  return match?.[1]?.trim() || dayTitle;
+}
+
+function extractLegacyAddress(activity: ParsedChatActivity, city: string): string {
+  if (activity.address) return activity.address;
+
+  const addressLineMatch = activity.description.match(/(?:Address|Location|Where)\s*[:\-\u2013\u2014]\s*(.+?)(?:\n|$)/iu);
+  if (addressLineMatch) return addressLineMatch[1].trim();
+
+  const locatedAtMatch = activity.description.match(/Located at\s+([^.]+)/i);
+  if (locatedAtMatch) return locatedAtMatch[1].trim();
+
+  const inMatch = activity.description.match(/\bin\s+([A-Z][^,.]+(?:,\s*[A-Z][^,.]+)?)/);
+  if (inMatch) return `${inMatch[1].trim()}, ${city}`;
+
+  return `${activity.title}, ${city}`;
+}
+
+/**
+ * Legacy messages saved before replies carried a structured itinerary:
+ * recover one from the markdown.
+ */
+export function chatItineraryFromMarkdown(content: string): ChatItinerary {
+  const { title, city, days, tips } = parseChatItineraryPreview(content);
+
+  return {
+    title,
+    city,
+    dailyPlans: days.map((day, dayIndex) => ({
+      day: dayIndex + 1,
+      theme: getDayTheme(day.day),
+      activities: day.activities.map((activity, activityIndex) => ({
+        time: `${9 + activityIndex * 2}:00 AM`,
+        type: defaultTimeSlot(activityIndex),
+        name: activity.title,
+        address: extractLegacyAddress(activity, city),
+        description: cleanChatItineraryDescription(activity.description) || activity.title,
+        category: "attraction",
+        localleyScore: LEGACY_LOCALLEY_SCORES[activity.type],
+        duration: "1-2 hours",
+        cost: "$10-30",
+      })),
+    })),
+    tips,
+  };
+}
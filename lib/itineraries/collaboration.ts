@@ -0,0 +1,460 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  normalizeDailyPlansForDisplay,
+  parseDailyPlans,
+  type ItineraryInsight,
+} from "./normalize-daily-plans";
+import {
+  ItineraryOperationsSchema,
+  diffDailyPlans,
+  rebaseItineraryOperations,
+  type RevisionDayPlan,
+} from "./revisions";
+
+export type ItineraryRole = "owner" | "editor" | "viewer";
+export type CollaboratorRole = Exclude<ItineraryRole, "owner">;
+
+export const CollaboratorRoleSchema = z.enum(["editor", "viewer"]);
+
+const INVITE_TTL_DAYS = 7;
+
+/**
+ * Body of POST /api/itineraries/[id]/collaborate: plan operations diffed
+ * against `baseVersion`, plus any trip details changed since then
+ */
+export const CollaborativeEditSchema = z.object({
+  baseVersion: z.number().int().min(0),
+  operations: ItineraryOperationsSchema,
+  details: z.object({
+    title: z.string().trim().min(1).max(200).optional(),
+    city: z.string().trim().min(1).max(100).optional(),
+    highlights: z.array(z.string().max(200)).max(20).optional(),
+    estimatedCost: z.string().max(100).optional(),
+    insights: z.array(z.object({
+      id: z.string(),
+      label: z.string(),
+      text: z.string(),
+      kind: z.enum(["local", "transport", "insight"]),
+    })).max(20).optional(),
+  }).strict().default({}),
+}).strict();
+
+export type CollaborativeEdit = z.infer<typeof CollaborativeEditSchema>;
+
+export const ActivityFeedbackRequestSchema = z.union([
+  z.object({ activityKey: z.string().trim().min(1).max(200), comment: z.string().trim().min(1).max(1000) }).strict(),
+  z.object({ activityKey: z.string().trim().min(1).max(200), vote: z.union([z.literal(-1), z.literal(0), z.literal(1)]) }).strict(),
+]);
+
+/**
+ * The live state collaborators edit: the itinerary at `version`, with the
+ * plan normalised the way the editor displays it
+ */
+export type CollaborativeItinerary = {
+  id: string;
+  title: string;
+  city: string;
+  dailyPlans: RevisionDayPlan[];
+  insights: ItineraryInsight[];
+  highlights: string[];
+  estimatedCost: string;
+  version: number;
+  role: ItineraryRole;
+};
+
+/**
+ * What a collaborator can edit: everything in CollaborativeItinerary except
+ * the server's bookkeeping
+ */
+export type ItineraryDraft = Omit<CollaborativeItinerary, "id" | "version" | "role">;
+
+const DRAFT_DETAILS = ["title", "city", "highlights", "estimatedCost", "insights"] as const;
+
+function sameDetail(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function toItineraryDraft(itinerary: CollaborativeItinerary): ItineraryDraft {
+  return {
+    title: itinerary.title,
+    city: itinerary.city,
+    dailyPlans: itinerary.dailyPlans,
+    insights: itinerary.insights,
+    highlights: itinerary.highlights,
+    estimatedCost: itinerary.estimatedCost,
+  };
+}
+
+/**
+ * The edit that turns `base` into `draft`, ready to send to the collaborate
+ * endpoint; null when there is nothing to send
+ */
+export function buildCollaborativeEdit(
+  base: CollaborativeItinerary,
+  draft: ItineraryDraft,
+): CollaborativeEdit | null {
+  const operations = diffDailyPlans(base.dailyPlans, draft.dailyPlans);
+  const details: CollaborativeEdit["details"] = {};
+  for (const field of DRAFT_DETAILS) {
+    if (!sameDetail(base[field], draft[field])) Object.assign(details, { [field]: draft[field] });
+  }
+  if (operations.length === 0 && Object.keys(details).length === 0) return null;
+  return { baseVersion: base.version, operations, details };
+}
+
+/**
+ * Three-way merge of a local draft with a newer server state. Local plan
+ * changes since `base` are rebased onto `remote`; a trip detail keeps the
+ * local value only if it was changed locally.
+ */
+export function mergeItineraryDrafts(
+  base: ItineraryDraft,
+  local: ItineraryDraft,
+  remote: ItineraryDraft,
+): ItineraryDraft {
+  const merged: ItineraryDraft = {
+    ...remote,
+    dailyPlans: rebaseItineraryOperations(
+      base.dailyPlans,
+      diffDailyPlans(base.dailyPlans, local.dailyPlans),
+      remote.dailyPlans,
+    ).dailyPlans,
+  };
+  for (const field of DRAFT_DETAILS) {
+    if (!sameDetail(base[field], local[field])) Object.assign(merged, { [field]: local[field] });
+  }
+  return merged;
+}
+
+export type ItineraryCollaborator = {
+  userId: string;
+  role: CollaboratorRole;
+  displayName: string | null;
+  createdAt: string;
+};
+
+export type ItineraryInvite = {
+  token: string;
+  role: CollaboratorRole;
+  expiresAt: string;
+};
+
+export type ActivityComment = {
+  id: string;
+  activityKey: string;
+  userId: string;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+};
+
+export type ActivityFeedback = {
+  activityKey: string;
+  comments: ActivityComment[];
+  upvotes: number;
+  downvotes: number;
+  myVote: -1 | 0 | 1;
+};
+
+export class CollaborationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "EXPIRED" | "DATABASE",
+  ) {
+    super(message);
+    this.name = "CollaborationError";
+  }
+}
+
+type ItineraryRow = {
+  id: string;
+  clerk_user_id: string;
+  title: string;
+  city: string;
+  activities: unknown;
+  highlights: string[] | null;
+  estimated_cost: string | null;
+  current_version: number;
+};
+
+type CommentRow = {
+  id: string;
+  activity_key: string;
+  clerk_user_id: string;
+  author_name: string | null;
+  body: string;
+  created_at: string;
+};
+
+const ITINERARY_COLUMNS = "id,clerk_user_id,title,city,activities,highlights,estimated_cost,current_version";
+const COMMENT_COLUMNS = "id,activity_key,clerk_user_id,author_name,body,created_at";
+
+function toActivityComment(row: CommentRow): ActivityComment {
+  return {
+    id: row.id,
+    activityKey: row.activity_key,
+    userId: row.clerk_user_id,
+    authorName: row.author_name,
+    body: row.body,
+    createdAt: row.created_at,
+  };
+}
+
+export function toCollaborativeItinerary(row: ItineraryRow, role: ItineraryRole): CollaborativeItinerary {
+  const plan = normalizeDailyPlansForDisplay<RevisionDayPlan>(parseDailyPlans(row.activities));
+  return {
+    id: row.id,
+    title: row.title,
+    city: row.city,
+    dailyPlans: plan.dailyPlans,
+    insights: plan.insights,
+    highlights: row.highlights || [],
+    estimatedCost: row.estimated_cost || "",
+    version: row.current_version,
+    role,
+  };
+}
+
+/**
+ * The user's role on an itinerary with the row itself, or null when the
+ * itinerary does not exist or the user has no access to it
+ */
+export async function getItineraryAccess(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  userId: string,
+): Promise<{ role: ItineraryRole; itinerary: ItineraryRow } | null> {
+  const { data: itinerary, error } = await supabase
+    .from("itineraries")
+    .select(ITINERARY_COLUMNS)
+    .eq("id", itineraryId)
+    .maybeSingle<ItineraryRow>();
+  if (error) throw new CollaborationError(`Could not load itinerary: ${error.message}`, "DATABASE");
+  if (!itinerary) return null;
+  if (itinerary.clerk_user_id === userId) return { role: "owner", itinerary };
+
+  const { data: collaborator, error: collaboratorError } = await supabase
+    .from("itinerary_collaborators")
+    .select("role")
+    .eq("itinerary_id", itineraryId)
+    .eq("clerk_user_id", userId)
+    .maybeSingle<{ role: CollaboratorRole }>();
+  if (collaboratorError) {
+    throw new CollaborationError(`Could not load collaborator: ${collaboratorError.message}`, "DATABASE");
+  }
+  return collaborator ? { role: collaborator.role, itinerary } : null;
+}
+
+/**
+ * Whether a user may read an itinerary row already loaded: its owner, anyone
+ * on the trip, or anyone at all once it's shared
+ */
+export async function canReadItinerary(
+  supabase: SupabaseClient,
+  itinerary: { id: string; clerk_user_id: string; shared: boolean | null },
+  userId: string | null,
+): Promise<boolean> {
+  if (itinerary.shared || itinerary.clerk_user_id === userId) return true;
+  if (!userId) return false;
+  return (await getItineraryAccess(supabase, itinerary.id, userId)) !== null;
+}
+
+export async function createItineraryInvite(
+  supabase: SupabaseClient,
+  args: { itineraryId: string; role: CollaboratorRole; createdBy: string },
+): Promise<ItineraryInvite> {
+  const token = Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await supabase.from("itinerary_invites").insert({
+    itinerary_id: args.itineraryId,
+    token,
+    role: args.role,
+    created_by: args.createdBy,
+    expires_at: expiresAt,
+  });
+  if (error) throw new CollaborationError(`Could not create invite: ${error.message}`, "DATABASE");
+  return { token, role: args.role, expiresAt };
+}
+
+/**
+ * Redeem an invite link. Each link admits one person; opening it again as
+ * that person is a no-op, and the owner opening their own link keeps owning.
+ */
+export async function acceptItineraryInvite(
+  supabase: SupabaseClient,
+  args: { token: string; userId: string; displayName: string | null },
+): Promise<{ itineraryId: string; role: ItineraryRole }> {
+  const { data: invite, error } = await supabase
+    .from("itinerary_invites")
+    .select("id,itinerary_id,role,created_by,expires_at,accepted_by")
+    .eq("token", args.token)
+    .maybeSingle<{
+      id: string;
+      itinerary_id: string;
+      role: CollaboratorRole;
+      created_by: string;
+      expires_at: string;
+      accepted_by: string | null;
+    }>();
+  if (error) throw new CollaborationError(`Could not load invite: ${error.message}`, "DATABASE");
+  if (!invite || (invite.accepted_by && invite.accepted_by !== args.userId)) {
+    throw new CollaborationError("Invite not found.", "NOT_FOUND");
+  }
+
+  const access = await getItineraryAccess(supabase, invite.itinerary_id, args.userId);
+  if (access?.role === "owner") return { itineraryId: invite.itinerary_id, role: "owner" };
+  if (invite.accepted_by === args.userId && access) return { itineraryId: invite.itinerary_id, role: access.role };
+  if (new Date(invite.expires_at).getTime() < Date.now()) {
+    throw new CollaborationError("This invite has expired.", "EXPIRED");
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("itinerary_invites")
+    .update({ accepted_by: args.userId, accepted_at: new Date().toISOString() })
+    .eq("id", invite.id)
+    .is("accepted_by", null)
+    .select("id");
+  if (claimError) throw new CollaborationError(`Could not accept invite: ${claimError.message}`, "DATABASE");
+  if (!claimed?.length) throw new CollaborationError("Invite not found.", "NOT_FOUND");
+
+  const { error: joinError } = await supabase.from("itinerary_collaborators").upsert({
+    itinerary_id: invite.itinerary_id,
+    clerk_user_id: args.userId,
+    role: invite.role,
+    display_name: args.displayName,
+    invited_by: invite.created_by,
+  }, { onConflict: "itinerary_id,clerk_user_id" });
+  if (joinError) throw new CollaborationError(`Could not join itinerary: ${joinError.message}`, "DATABASE");
+
+  return { itineraryId: invite.itinerary_id, role: invite.role };
+}
+
+export async function listItineraryCollaborators(
+  supabase: SupabaseClient,
+  itineraryId: string,
+): Promise<ItineraryCollaborator[]> {
+  const { data, error } = await supabase
+    .from("itinerary_collaborators")
+    .select("clerk_user_id,role,display_name,created_at")
+    .eq("itinerary_id", itineraryId)
+    .order("created_at", { ascending: true });
+  if (error) throw new CollaborationError(`Could not load collaborators: ${error.message}`, "DATABASE");
+  return ((data || []) as Array<{
+    clerk_user_id: string;
+    role: CollaboratorRole;
+    display_name: string | null;
+    created_at: string;
+  }>).map((row) => ({
+    userId: row.clerk_user_id,
+    role: row.role,
+    displayName: row.display_name,
+    createdAt: row.created_at,
+  }));
+}
+
+export async function removeItineraryCollaborator(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  userId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("itinerary_collaborators")
+    .delete()
+    .eq("itinerary_id", itineraryId)
+    .eq("clerk_user_id", userId);
+  if (error) throw new CollaborationError(`Could not remove collaborator: ${error.message}`, "DATABASE");
+}
+
+/**
+ * Comments and vote tallies for every activity that has any, with the
+ * viewer's own vote
+ */
+export async function loadActivityFeedback(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  userId: string,
+): Promise<ActivityFeedback[]> {
+  const [comments, votes] = await Promise.all([
+    supabase
+      .from("itinerary_activity_comments")
+      .select(COMMENT_COLUMNS)
+      .eq("itinerary_id", itineraryId)
+      .order("created_at", { ascending: true })
+      .limit(500),
+    supabase
+      .from("itinerary_activity_votes")
+      .select("activity_key,clerk_user_id,value")
+      .eq("itinerary_id", itineraryId),
+  ]);
+  if (comments.error) {
+    throw new CollaborationError(`Could not load comments: ${comments.error.message}`, "DATABASE");
+  }
+  if (votes.error) throw new CollaborationError(`Could not load votes: ${votes.error.message}`, "DATABASE");
+
+  const feedback = new Map<string, ActivityFeedback>();
+  const entry = (activityKey: string) => {
+    let found = feedback.get(activityKey);
+    if (!found) {
+      found = { activityKey, comments: [], upvotes: 0, downvotes: 0, myVote: 0 };
+      feedback.set(activityKey, found);
+    }
+    return found;
+  };
+
+  for (const row of (comments.data || []) as CommentRow[]) {
+    entry(row.activity_key).comments.push(toActivityComment(row));
+  }
+  for (const row of (votes.data || []) as Array<{ activity_key: string; clerk_user_id: string; value: -1 | 1 }>) {
+    const item = entry(row.activity_key);
+    if (row.value === 1) item.upvotes++;
+    else item.downvotes++;
+    if (row.clerk_user_id === userId) item.myVote = row.value;
+  }
+  return [...feedback.values()];
+}
+
+export async function addActivityComment(
+  supabase: SupabaseClient,
+  args: { itineraryId: string; activityKey: string; userId: string; authorName: string | null; body: string },
+): Promise<ActivityComment> {
+  const { data, error } = await supabase
+    .from("itinerary_activity_comments")
+    .insert({
+      itinerary_id: args.itineraryId,
+      activity_key: args.activityKey,
+      clerk_user_id: args.userId,
+      author_name: args.authorName,
+      body: args.body,
+    })
+    .select(COMMENT_COLUMNS)
+    .single<CommentRow>();
+  if (error || !data) throw new CollaborationError(`Could not add comment: ${error?.message}`, "DATABASE");
+  return toActivityComment(data);
+}
+
+/**
+ * Record a thumbs up (1) or down (-1) on an activity; 0 clears the vote
+ */
+export async function setActivityVote(
+  supabase: SupabaseClient,
+  args: { itineraryId: string; activityKey: string; userId: string; value: -1 | 0 | 1 },
+): Promise<void> {
+  const { error } = args.value === 0
+    ? await supabase
+      .from("itinerary_activity_votes")
+      .delete()
+      .eq("itinerary_id", args.itineraryId)
+      .eq("activity_key", args.activityKey)
+      .eq("clerk_user_id", args.userId)
+    : await supabase.from("itinerary_activity_votes").upsert({
+      itinerary_id: args.itineraryId,
+      activity_key: args.activityKey,
+      clerk_user_id: args.userId,
+      value: args.value,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "itinerary_id,activity_key,clerk_user_id" });
+  if (error) throw new CollaborationError(`Could not save vote: ${error.message}`, "DATABASE");
+}
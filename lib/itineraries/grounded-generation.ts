@@ -20,7 +20,7 @@ export interface ItineraryGroundingSpot {
   best_times?: LocalizedText;
 }
 
-interface GeneratedActivity {
+export interface GeneratedActivity {
   spotId?: string;
   name?: string;
   description?: string;
@@ -32,16 +32,18 @@ interface GeneratedActivity {
   cost?: string;
   localleyScore?: number;
   image?: string;
+  googlePlaceId?: string;
   lat?: number;
   lng?: number;
-  [key: string]: unknown;
 }
 
-interface GeneratedDayPlan {
+/** A day as the model returned it; grounding fills in what it left out */
+export interface GeneratedDayPlan {
   day?: number;
   theme?: string;
   activities?: GeneratedActivity[];
-  [key: string]: unknown;
+  localTip?: string;
+  transportTips?: string;
 }
 
 export interface ItineraryGroundingPreferences {
@@ -49,8 +51,13 @@ export interface ItineraryGroundingPreferences {
   interests?: string[];
   localnessLevel?: number;
   pace?: string;
+  /** Similarity of each spot (by id) to the request's interests, from semantic retrieval */
+  relevance?: Map<string, number>;
 }
 
+/** Ranking points for a perfect semantic match; a localley score step is worth 20 */
+const SEMANTIC_RELEVANCE_WEIGHT = 50;
+
 const INTEREST_CATEGORY_TERMS: Record<string, string[]> = {
   food: ["bakery", "dessert", "food", "market", "restaurant", "street food"],
   cafe: ["cafe", "coffee", "tea"],
@@ -161,10 +168,11 @@ export function hasItineraryGroundingCoverage(
   return usableCapacity >= required && interestsCovered && interestsFitSchedule;
 }
 
-function rankingScore(spot: ItineraryGroundingSpot, interests: string[] | undefined): number {
+function rankingScore(spot: ItineraryGroundingSpot, preferences: ItineraryGroundingPreferences): number {
   return spot.localley_score * 20 +
     (spot.local_percentage || 0) / 5 +
-    interestScore(spot, interests) +
+    interestScore(spot, preferences.interests) +
+    Math.max(0, preferences.relevance?.get(spot.id) ?? 0) * SEMANTIC_RELEVANCE_WEIGHT +
     (spot.verified ? 10 : 0) +
     (getFirstRealDisplaySpotPhoto(spot.photos) ? 12 : 0) +
     Math.min(5, (spot.trending_score || 0) * 5);
@@ -188,10 +196,18 @@ export function rankItineraryGroundingSpots(
   }
 
   return [...unique.values()].sort(
-    (left, right) => rankingScore(right, preferences.interests) - rankingScore(left, preferences.interests),
+    (left, right) => rankingScore(right, preferences) - rankingScore(left, preferences),
   );
 }
 
+/**
+ * Free text describing what the traveller asked for, for semantic retrieval;
+ * empty when there is nothing beyond the defaults.
+ */
+export function describeGroundingInterests(interests: string[] | undefined, notes?: string): string {
+  return [...(interests || []), notes?.trim() || ""].filter(Boolean).join(", ");
+}
+
 export function buildItinerarySpotContext(spots: ItineraryGroundingSpot[]): string {
   return spots.slice(0, 30).map((spot) => {
     const coordinates = parseSpotCoordinates(spot.location);
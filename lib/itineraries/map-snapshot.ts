@@ -0,0 +1,158 @@
+import { hasUsableCoordinates } from "@/lib/spots/location-confidence";
+
+/**
+ * Static map snapshots for printed itineraries. Picks the Web Mercator
+ * viewport that fits a day's stops, then fetches one Google Static Maps image
+ * of it so the map can be baked into a PDF page. Without GOOGLE_MAPS_API_KEY
+ * the stops and route are drawn on a plain background instead.
+ */
+
+export interface MapSnapshotPoint {
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+export interface MapSnapshotTile {
+  url: string;
+  /** Position of the tile's top-left corner within the snapshot, in px */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** data: URI once fetched; undefined if the tile couldn't be loaded */
+  src?: string;
+}
+
+export interface MapSnapshotMarker {
+  label: string;
+  left: number;
+  top: number;
+}
+
+export interface MapSnapshot {
+  width: number;
+  height: number;
+  zoom: number;
+  tiles: MapSnapshotTile[];
+  markers: MapSnapshotMarker[];
+}
+
+const TILE_SIZE = 256;
+const STATIC_MAP_URL = "https://maps.googleapis.com/maps/api/staticmap";
+/** Static Maps serves at most 640px a side, doubled at scale 2 */
+const STATIC_MAP_MAX_SIZE = 640;
+const MAX_ZOOM = 16;
+const SINGLE_POINT_ZOOM = 15;
+const TILE_TIMEOUT_MS = 8000;
+
+function project(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+function unproject(x: number, y: number, zoom: number): { lat: number; lng: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  return {
+    lat: (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI,
+    lng: (x / scale) * 360 - 180,
+  };
+}
+
+/**
+ * Lay out a snapshot of the given size around the points. Returns null when
+ * none of the points have usable coordinates. The snapshot has a map image
+ * only when a Static Maps key is given.
+ */
+export function planMapSnapshot(
+  points: MapSnapshotPoint[],
+  options: { width: number; height: number; padding?: number; staticMapsKey?: string }
+): MapSnapshot | null {
+  const usable = points.filter((point) => hasUsableCoordinates(point.lat, point.lng));
+  if (usable.length === 0) return null;
+
+  const { width, height } = options;
+  const padding = options.padding ?? 48;
+
+  let zoom = usable.length === 1 ? SINGLE_POINT_ZOOM : MAX_ZOOM;
+  const bounds = (z: number) => {
+    const projected = usable.map((point) => project(point.lat, point.lng, z));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+  };
+  for (; zoom > 1; zoom--) {
+    const box = bounds(zoom);
+    if (box.maxX - box.minX <= width - padding * 2 && box.maxY - box.minY <= height - padding * 2) break;
+  }
+
+  const box = bounds(zoom);
+  const originX = (box.minX + box.maxX) / 2 - width / 2;
+  const originY = (box.minY + box.maxY) / 2 - height / 2;
+
+  // At scale 2, a half-size image one zoom level out covers the same
+  // area at full size, so markers projected at `zoom` line up with it
+  const tiles: MapSnapshotTile[] = [];
+  const size = { width: Math.ceil(width / 2), height: Math.ceil(height / 2) };
+  if (options.staticMapsKey && size.width <= STATIC_MAP_MAX_SIZE && size.height <= STATIC_MAP_MAX_SIZE) {
+    const center = unproject(originX + width / 2, originY + height / 2, zoom);
+    const query = new URLSearchParams({
+      center: `${center.lat.toFixed(6)},${center.lng.toFixed(6)}`,
+      zoom: String(zoom - 1),
+      size: `${size.width}x${size.height}`,
+      scale: "2",
+      key: options.staticMapsKey,
+    });
+    tiles.push({ url: `${STATIC_MAP_URL}?${query}`, left: 0, top: 0, width: size.width * 2, height: size.height * 2 });
+  }
+
+  const markers = usable.map((point) => {
+    const { x, y } = project(point.lat, point.lng, zoom);
+    return { label: point.label, left: Math.round(x - originX), top: Math.round(y - originY) };
+  });
+
+  return { width, height, zoom, tiles, markers };
+}
+
+/**
+ * Fetch a snapshot's map image as a data URI. Images shared between snapshots
+ * are fetched once per cache; a failed image is left blank rather than
+ * failing the export.
+ */
+export async function loadMapSnapshotTiles(
+  snapshot: MapSnapshot,
+  cache: Map<string, Promise<string | undefined>> = new Map()
+): Promise<MapSnapshot> {
+  const load = (url: string) => {
+    let pending = cache.get(url);
+    if (!pending) {
+      // Logged without the query string, which carries the API key
+      const endpoint = url.split("?")[0];
+      pending = fetch(url, { signal: AbortSignal.timeout(TILE_TIMEOUT_MS) })
+        .then(async (response) => {
+          if (!response.ok) {
+            console.error(`[MAP_SNAPSHOT] Map HTTP ${response.status}:`, endpoint);
+            return undefined;
+          }
+          const type = response.headers.get("content-type") || "image/png";
+          const buffer = Buffer.from(await response.arrayBuffer());
+          return `data:${type};base64,${buffer.toString("base64")}`;
+        })
+        .catch((error) => {
+          console.error("[MAP_SNAPSHOT] Map fetch failed:", endpoint, error instanceof Error ? error.message : error);
+          return undefined;
+        });
+      cache.set(url, pending);
+    }
+    return pending;
+  };
+
+  const tiles = await Promise.all(
+    snapshot.tiles.map(async (tile) => ({ ...tile, src: await load(tile.url) }))
+  );
+  return { ...snapshot, tiles };
+}
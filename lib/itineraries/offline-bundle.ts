@@ -0,0 +1,257 @@
+import JSZip from "jszip";
+import { buildSpotDirectionsUrl } from "@/lib/spots/map-links";
+import { hasUsableCoordinates } from "@/lib/spots/location-confidence";
+
+/**
+ * Offline bundle export: the plan as GPX and KML (for Organic Maps, Maps.me
+ * and friends) plus a JSON copy, zipped for travellers going without data.
+ */
+
+export interface OfflineActivity {
+  name?: string;
+  nameKo?: string;
+  time?: string;
+  duration?: string;
+  cost?: string | number;
+  address?: string;
+  description?: string;
+  category?: string;
+  type?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface OfflineDayPlan {
+  day?: number;
+  theme?: string;
+  activities?: OfflineActivity[];
+}
+
+export interface OfflineItinerary {
+  id: string;
+  title: string;
+  city: string;
+  days?: number;
+  highlights?: string[];
+  estimatedCost?: string | null;
+  insights?: Array<{ label: string; text: string }>;
+  dailyPlans: OfflineDayPlan[];
+}
+
+export interface OfflineStop {
+  day: number;
+  order: number;
+  name: string;
+  nameKo?: string;
+  time?: string;
+  address: string;
+  description?: string;
+  category?: string;
+  lat?: number;
+  lng?: number;
+  directionsUrl: string;
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function fileSlug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "itinerary";
+}
+
+function namedActivities(day: OfflineDayPlan): OfflineActivity[] {
+  return (day.activities || []).filter((activity) => activity.name?.trim());
+}
+
+function toOfflineStop(activity: OfflineActivity, day: number, order: number, city: string): OfflineStop {
+  const name = activity.name!.trim();
+  const address = activity.address?.trim() || city;
+  const usable = hasUsableCoordinates(activity.lat, activity.lng);
+  return {
+    day,
+    order,
+    name,
+    nameKo: activity.nameKo?.trim() || undefined,
+    time: activity.time?.trim() || undefined,
+    address,
+    description: activity.description?.trim() || undefined,
+    category: activity.category || activity.type || undefined,
+    lat: usable ? activity.lat : undefined,
+    lng: usable ? activity.lng : undefined,
+    directionsUrl: buildSpotDirectionsUrl({
+      name,
+      address,
+      lat: usable ? activity.lat : undefined,
+      lng: usable ? activity.lng : undefined,
+    }),
+  };
+}
+
+/**
+ * Every named activity in plan order, with its directions link
+ */
+export function collectOfflineStops(itinerary: OfflineItinerary): OfflineStop[] {
+  return itinerary.dailyPlans.flatMap((day, dayIndex) =>
+    namedActivities(day).map((activity, index) =>
+      toOfflineStop(activity, day.day ?? dayIndex + 1, index + 1, itinerary.city)
+    )
+  );
+}
+
+function stopTitle(stop: OfflineStop): string {
+  return `Day ${stop.day} · ${stop.order}. ${stop.name}${stop.nameKo ? ` (${stop.nameKo})` : ""}`;
+}
+
+function stopDescription(stop: OfflineStop): string {
+  return [stop.time, stop.address, stop.description].filter(Boolean).join("\n");
+}
+
+function groupByDay(stops: OfflineStop[]): Map<number, OfflineStop[]> {
+  const days = new Map<number, OfflineStop[]>();
+  for (const stop of stops) {
+    days.set(stop.day, [...(days.get(stop.day) ?? []), stop]);
+  }
+  return days;
+}
+
+/**
+ * GPX 1.1: a waypoint per located activity and a route per day
+ */
+export function buildItineraryGpx(itinerary: OfflineItinerary, stops = collectOfflineStops(itinerary)): string {
+  const located = stops.filter((stop) => stop.lat !== undefined && stop.lng !== undefined);
+  const point = (tag: "wpt" | "rtept", stop: OfflineStop, indent: string) => [
+    `${indent}<${tag} lat="${stop.lat}" lon="${stop.lng}">`,
+    `${indent}  <name>${xmlEscape(stopTitle(stop))}</name>`,
+    `${indent}  <desc>${xmlEscape(stopDescription(stop))}</desc>`,
+    `${indent}  <link href="${xmlEscape(stop.directionsUrl)}"><text>Directions</text></link>`,
+    ...(stop.category ? [`${indent}  <type>${xmlEscape(stop.category)}</type>`] : []),
+    `${indent}</${tag}>`,
+  ];
+
+  const routes = [...groupByDay(located)].filter(([, dayStops]) => dayStops.length > 1);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="Localley" xmlns="http://www.topografix.com/GPX/1/1">`,
+    "  <metadata>",
+    `    <name>${xmlEscape(itinerary.title)}</name>`,
+    `    <desc>${xmlEscape(`${itinerary.city} itinerary from Localley`)}</desc>`,
+    "  </metadata>",
+    ...located.flatMap((stop) => point("wpt", stop, "  ")),
+    ...routes.flatMap(([day, dayStops]) => [
+      "  <rte>",
+      `    <name>${xmlEscape(`Day ${day}`)}</name>`,
+      ...dayStops.flatMap((stop) => point("rtept", stop, "    ")),
+      "  </rte>",
+    ]),
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * KML 2.2: a folder per day with placemarks and the day's path
+ */
+export function buildItineraryKml(itinerary: OfflineItinerary, stops = collectOfflineStops(itinerary)): string {
+  const located = stops.filter((stop) => stop.lat !== undefined && stop.lng !== undefined);
+  const days = [...groupByDay(located)];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    "  <Document>",
+    `    <name>${xmlEscape(itinerary.title)}</name>`,
+    `    <description>${xmlEscape(`${itinerary.city} itinerary from Localley`)}</description>`,
+    `    <Style id="stop"><IconStyle><color>ffd6409f</color></IconStyle></Style>`,
+    `    <Style id="route"><LineStyle><color>ccd6409f</color><width>4</width></LineStyle></Style>`,
+    ...days.flatMap(([day, dayStops]) => [
+      "    <Folder>",
+      `      <name>${xmlEscape(`Day ${day}`)}</name>`,
+      ...dayStops.flatMap((stop) => [
+        "      <Placemark>",
+        `        <name>${xmlEscape(stopTitle(stop))}</name>`,
+        `        <description>${xmlEscape(`${stopDescription(stop)}\n${stop.directionsUrl}`)}</description>`,
+        "        <styleUrl>#stop</styleUrl>",
+        `        <Point><coordinates>${stop.lng},${stop.lat},0</coordinates></Point>`,
+        "      </Placemark>",
+      ]),
+      ...(dayStops.length > 1
+        ? [
+          "      <Placemark>",
+          `        <name>${xmlEscape(`Day ${day} route`)}</name>`,
+          "        <styleUrl>#route</styleUrl>",
+          `        <LineString><tessellate>1</tessellate><coordinates>${dayStops.map((stop) => `${stop.lng},${stop.lat},0`).join(" ")}</coordinates></LineString>`,
+          "      </Placemark>",
+        ]
+        : []),
+      "    </Folder>",
+    ]),
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+const README = `Your Localley itinerary, for when you're offline.
+
+  *.kml   Import into Organic Maps, Maps.me or Google My Maps.
+          Organic Maps: open the file, or Bookmarks and Tracks > Import.
+          Maps.me: open the file from your downloads or Files app.
+  *.gpx   The same stops for GPS apps (OsmAnd, Gaia, Garmin).
+  *.json  The full plan, including activities without map coordinates.
+
+Download the offline map for your city in the app before you travel.
+`;
+
+/**
+ * Zip the GPX, KML and JSON exports together
+ */
+export async function buildOfflineBundle(
+  itinerary: OfflineItinerary,
+  options: { exportedAt?: Date; url?: string } = {}
+): Promise<{ filename: string; data: Uint8Array }> {
+  const stops = collectOfflineStops(itinerary);
+  const name = fileSlug(itinerary.title);
+  const zip = new JSZip();
+
+  zip.file(`${name}.kml`, buildItineraryKml(itinerary, stops));
+  zip.file(`${name}.gpx`, buildItineraryGpx(itinerary, stops));
+  zip.file(
+    `${name}.json`,
+    JSON.stringify(
+      {
+        id: itinerary.id,
+        title: itinerary.title,
+        city: itinerary.city,
+        days: itinerary.days ?? itinerary.dailyPlans.length,
+        highlights: itinerary.highlights ?? [],
+        estimatedCost: itinerary.estimatedCost ?? null,
+        insights: itinerary.insights ?? [],
+        url: options.url,
+        exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+        dailyPlans: itinerary.dailyPlans.map((day, dayIndex) => ({
+          ...day,
+          day: day.day ?? dayIndex + 1,
+          activities: namedActivities(day).map((activity, index) => ({
+            ...activity,
+            directionsUrl: toOfflineStop(activity, day.day ?? dayIndex + 1, index + 1, itinerary.city).directionsUrl,
+          })),
+        })),
+      },
+      null,
+      2
+    )
+  );
+  zip.file("README.txt", README);
+
+  return {
+    filename: `${name}-offline.zip`,
+    data: await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" }),
+  };
+}
@@ -0,0 +1,190 @@
+import type { CollaborativeItinerary, ItineraryDraft } from "@/lib/itineraries/collaboration";
+
+/**
+ * Offline pinning. A pinned itinerary's page, editor, plan data, matched spot
+ * pages and thumbnails are copied into the service worker's cache
+ * (public/sw.js), which serves them when the network is gone. Edits made
+ * offline are kept in localStorage until they can be sent. Both belong to the
+ * user who saved them and are dropped when someone else, or nobody, signs in.
+ */
+
+export interface PinnedItinerary {
+  id: string;
+  title: string;
+  city: string;
+  pinnedAt: string;
+}
+
+export interface PinResult {
+  cached: number;
+  failed: number;
+}
+
+interface PrecacheSpot {
+  id: string;
+  photos?: string[];
+}
+
+function isCacheableImage(url: unknown): url is string {
+  return typeof url === "string" && (/^https?:\/\//i.test(url) || (url.startsWith("/") && !url.startsWith("//")));
+}
+
+/**
+ * Everything the service worker should fetch when an itinerary is pinned.
+ * Page HTML is also scanned by the worker for the scripts and images it uses.
+ */
+export function buildOfflinePrecacheUrls(
+  itineraryId: string,
+  dailyPlans: Array<{ activities?: Array<Record<string, unknown>> }>,
+  spots: PrecacheSpot[] = []
+): string[] {
+  const urls = [
+    `/itineraries/${itineraryId}`,
+    `/itineraries/${itineraryId}/edit`,
+    `/api/itineraries/${itineraryId}/collaborate`,
+    `/api/itineraries/${itineraryId}/offline`,
+    ...spots.map((spot) => `/spots/${spot.id}`),
+    ...dailyPlans
+      .flatMap((day) => (day.activities || []).flatMap((activity) => [activity.image, activity.thumbnail]))
+      .filter(isCacheableImage),
+    // The first photo is the thumbnail on spot pages and cards
+    ...spots.map((spot) => spot.photos?.[0]).filter(isCacheableImage),
+  ];
+  return [...new Set(urls)];
+}
+
+// ============================================
+// Service worker messaging
+// ============================================
+
+const SERVICE_WORKER_TIMEOUT_MS = 60_000;
+
+export function isOfflinePinningSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "caches" in window;
+}
+
+async function postToServiceWorker<T>(message: Record<string, unknown>): Promise<T> {
+  if (!isOfflinePinningSupported()) {
+    throw new Error("Offline mode isn't supported in this browser");
+  }
+  await navigator.serviceWorker.register("/sw.js");
+  const registration = await navigator.serviceWorker.ready;
+  const worker = registration.active;
+  if (!worker) {
+    throw new Error("Service worker is not active");
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timeoutId = setTimeout(() => reject(new Error("Service worker did not respond")), SERVICE_WORKER_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeoutId);
+      if (event.data?.error) reject(new Error(event.data.error));
+      else resolve(event.data as T);
+    };
+    worker.postMessage(message, [channel.port2]);
+  });
+}
+
+export function pinItineraryOffline(
+  itinerary: Omit<PinnedItinerary, "pinnedAt">,
+  urls: string[]
+): Promise<PinResult> {
+  return postToServiceWorker<PinResult>({ type: "PIN_ITINERARY", itinerary, urls });
+}
+
+export async function unpinItineraryOffline(id: string): Promise<void> {
+  await postToServiceWorker({ type: "UNPIN_ITINERARY", id });
+}
+
+async function clearPinnedItineraries(): Promise<void> {
+  if (!isOfflinePinningSupported() || !(await navigator.serviceWorker.getRegistration())) return;
+  await postToServiceWorker({ type: "CLEAR_OFFLINE" });
+}
+
+export async function getPinnedItineraries(): Promise<PinnedItinerary[]> {
+  const result = await postToServiceWorker<{ itineraries: PinnedItinerary[] }>({ type: "GET_PINNED_ITINERARIES" });
+  return result.itineraries;
+}
+
+// ============================================
+// Edits made while offline
+// ============================================
+
+const OFFLINE_EDIT_KEY_PREFIX = "localley_offline_edit:";
+// Who the pins and queued edits on this device belong to; "" when signed out
+const OFFLINE_OWNER_KEY = "localley_offline_owner";
+
+/**
+ * Unsent changes to an itinerary: the version they were made against and the
+ * draft. Sending them later lets the server rebase them like any other edit.
+ */
+export interface QueuedItineraryEdit {
+  base: CollaborativeItinerary;
+  draft: ItineraryDraft;
+  queuedAt: string;
+}
+
+export function loadQueuedItineraryEdit(itineraryId: string): QueuedItineraryEdit | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem(OFFLINE_EDIT_KEY_PREFIX + itineraryId);
+    if (!stored) return null;
+    const queued = JSON.parse(stored) as QueuedItineraryEdit;
+    return queued.base?.id === itineraryId && queued.draft ? queued : null;
+  } catch {
+    // localStorage not available or corrupted
+    return null;
+  }
+}
+
+export function queueItineraryEdit(base: CollaborativeItinerary, draft: ItineraryDraft, now = new Date()): void {
+  if (typeof window === "undefined") return;
+  try {
+    const queued: QueuedItineraryEdit = { base, draft, queuedAt: now.toISOString() };
+    localStorage.setItem(OFFLINE_EDIT_KEY_PREFIX + base.id, JSON.stringify(queued));
+  } catch {
+    // localStorage not available or full
+  }
+}
+
+export function clearQueuedItineraryEdit(itineraryId: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.removeItem(OFFLINE_EDIT_KEY_PREFIX + itineraryId);
+  } catch {
+    // localStorage not available
+  }
+}
+
+function clearQueuedItineraryEdits(): void {
+  const keys = Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index));
+  for (const key of keys) {
+    if (key?.startsWith(OFFLINE_EDIT_KEY_PREFIX)) localStorage.removeItem(key);
+  }
+}
+
+// ============================================
+// Sign-in changes
+// ============================================
+
+/**
+ * Record who is signed in on this device, clearing pinned itineraries and
+ * queued edits left by a different user or from before signing out. Data
+ * saved before owners were recorded is kept for the first signed-in user.
+ */
+export async function syncOfflineDataOwner(userId: string | null): Promise<void> {
+  if (typeof window === "undefined") return;
+  const owner = userId ?? "";
+  let previousOwner: string | null;
+  try {
+    previousOwner = localStorage.getItem(OFFLINE_OWNER_KEY);
+    if (previousOwner === owner) return;
+    if (previousOwner !== null || !userId) clearQueuedItineraryEdits();
+    localStorage.setItem(OFFLINE_OWNER_KEY, owner);
+  } catch {
+    // localStorage not available
+    return;
+  }
+  if (previousOwner !== null || !userId) await clearPinnedItineraries();
+}
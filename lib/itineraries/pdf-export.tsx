@@ -0,0 +1,457 @@
+import type { ReactElement, ReactNode } from "react";
+import { ImageResponse } from "next/og";
+import { buildImagePdf, type PdfImagePage, type PdfLink } from "@/lib/pdf";
+import { qrCodeSvg } from "@/lib/qr-code";
+import { buildSpotDirectionsUrl } from "@/lib/spots/map-links";
+import { hasUsableCoordinates } from "@/lib/spots/location-confidence";
+import {
+  loadMapSnapshotTiles,
+  planMapSnapshot,
+  type MapSnapshot,
+} from "./map-snapshot";
+
+/**
+ * Printable PDF export. Pages are laid out here, rendered to PNG with the OG
+ * image renderer and wrapped into an A4 PDF, with a map snapshot per day and
+ * a directions QR code (and link) per activity.
+ */
+
+export interface PrintableActivity {
+  name?: string;
+  nameKo?: string;
+  time?: string;
+  duration?: string;
+  cost?: string | number;
+  address?: string;
+  description?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface PrintableDayPlan {
+  day?: number;
+  theme?: string;
+  activities?: PrintableActivity[];
+}
+
+export interface PrintableItinerary {
+  title: string;
+  city: string;
+  days: number;
+  estimatedCost?: string | null;
+  localScore?: number | null;
+  highlights?: string[];
+  insights?: Array<{ kind: string; text: string }>;
+  dailyPlans: PrintableDayPlan[];
+}
+
+// A4 at 150 dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 80;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 110;
+const GAP = 24;
+const MAP_HEIGHT = 480;
+const COVER_MAP_HEIGHT = 620;
+const ROW_HEIGHT = 220;
+const QR_SIZE = 160;
+/** Activities on a day's first page (below the map) and on its later pages */
+const ROWS_WITH_MAP = 4;
+const ROWS_WITHOUT_MAP = 6;
+
+const COLORS = {
+  ink: "#111827",
+  muted: "#6b7280",
+  accent: "#7c3aed",
+  border: "#e5e7eb",
+  wash: "#f5f3ff",
+};
+
+interface PrintableStop {
+  order: number;
+  name: string;
+  nameKo?: string;
+  time?: string;
+  duration?: string;
+  cost?: string;
+  address?: string;
+  description?: string;
+  lat?: number;
+  lng?: number;
+  directionsUrl: string;
+  qrCode: string;
+}
+
+interface PageLayout {
+  element: ReactElement;
+  links: PdfLink[];
+}
+
+function clip(value: string | undefined, length: number): string | undefined {
+  const text = value?.replace(/\s+/g, " ").trim();
+  if (!text) return undefined;
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function toStops(day: PrintableDayPlan, city: string): PrintableStop[] {
+  return (day.activities || [])
+    .filter((activity) => activity.name?.trim())
+    .map((activity, index) => {
+      const name = activity.name!.trim();
+      const usable = hasUsableCoordinates(activity.lat, activity.lng);
+      const directionsUrl = buildSpotDirectionsUrl({
+        name,
+        address: activity.address?.trim() || city,
+        lat: usable ? activity.lat : undefined,
+        lng: usable ? activity.lng : undefined,
+      });
+      return {
+        order: index + 1,
+        name,
+        nameKo: activity.nameKo?.trim() || undefined,
+        time: activity.time?.trim() || undefined,
+        duration: activity.duration?.trim() || undefined,
+        cost: activity.cost !== undefined && activity.cost !== "" ? String(activity.cost) : undefined,
+        address: activity.address?.trim() || undefined,
+        description: activity.description,
+        lat: usable ? activity.lat : undefined,
+        lng: usable ? activity.lng : undefined,
+        directionsUrl,
+        qrCode: `data:image/svg+xml;base64,${Buffer.from(qrCodeSvg(directionsUrl)).toString("base64")}`,
+      };
+    });
+}
+
+function MapView({ snapshot, top, route }: { snapshot: MapSnapshot; top: number; route?: boolean }) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: MARGIN,
+        top,
+        width: snapshot.width,
+        height: snapshot.height,
+        display: "flex",
+        overflow: "hidden",
+        borderRadius: 24,
+        backgroundColor: "#e5e7eb",
+      }}
+    >
+      {snapshot.tiles.map((tile) =>
+        tile.src ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={tile.url}
+            src={tile.src}
+            width={tile.width}
+            height={tile.height}
+            style={{ position: "absolute", left: tile.left, top: tile.top }}
+            alt=""
+          />
+        ) : null
+      )}
+      {route && snapshot.markers.length > 1 && (
+        <svg
+          width={snapshot.width}
+          height={snapshot.height}
+          viewBox={`0 0 ${snapshot.width} ${snapshot.height}`}
+          style={{ position: "absolute", left: 0, top: 0 }}
+        >
+          <polyline
+            points={snapshot.markers.map((marker) => `${marker.left},${marker.top}`).join(" ")}
+            fill="none"
+            stroke={COLORS.accent}
+            strokeWidth={5}
+            strokeDasharray="12 10"
+            strokeLinecap="round"
+          />
+        </svg>
+      )}
+      {snapshot.markers.map((marker, index) => (
+        <div
+          key={`${marker.label}-${index}`}
+          style={{
+            position: "absolute",
+            left: marker.left - 22,
+            top: marker.top - 22,
+            width: 44,
+            height: 44,
+            borderRadius: 22,
+            border: "4px solid white",
+            backgroundColor: COLORS.accent,
+            color: "white",
+            fontSize: 20,
+            fontWeight: 700,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          {marker.label}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ActivityRow({ stop, top }: { stop: PrintableStop; top: number }) {
+  const meta = [stop.duration, stop.cost].filter(Boolean).join(" · ");
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: MARGIN,
+        top,
+        width: CONTENT_WIDTH,
+        height: ROW_HEIGHT,
+        display: "flex",
+        alignItems: "center",
+        borderBottom: `2px solid ${COLORS.border}`,
+      }}
+    >
+      <div
+        style={{
+          width: 52,
+          height: 52,
+          borderRadius: 26,
+          backgroundColor: COLORS.wash,
+          color: COLORS.accent,
+          fontSize: 24,
+          fontWeight: 700,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          marginRight: 28,
+          flexShrink: 0,
+        }}
+      >
+        {stop.order}
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", flexGrow: 1, width: 700, overflow: "hidden" }}>
+        {stop.time && (
+          <div style={{ display: "flex", fontSize: 22, fontWeight: 600, color: COLORS.accent }}>{stop.time}</div>
+        )}
+        <div style={{ display: "flex", fontSize: 34, fontWeight: 700, color: COLORS.ink }}>{clip(stop.name, 48)}</div>
+        {stop.nameKo && (
+          <div style={{ display: "flex", fontSize: 26, color: COLORS.muted }}>{clip(stop.nameKo, 40)}</div>
+        )}
+        {stop.address && (
+          <div style={{ display: "flex", fontSize: 20, color: COLORS.muted, marginTop: 4 }}>{clip(stop.address, 80)}</div>
+        )}
+        {stop.description && (
+          <div style={{ display: "flex", fontSize: 20, color: COLORS.ink, marginTop: 6 }}>{clip(stop.description, 130)}</div>
+        )}
+        {meta && <div style={{ display: "flex", fontSize: 18, color: COLORS.muted, marginTop: 4 }}>{meta}</div>}
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", alignItems: "center", marginLeft: 24, flexShrink: 0 }}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={stop.qrCode} width={QR_SIZE} height={QR_SIZE} alt="" />
+        <div style={{ display: "flex", fontSize: 16, color: COLORS.muted }}>Scan for directions</div>
+      </div>
+    </div>
+  );
+}
+
+function Page({
+  title,
+  subtitle,
+  footer,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  footer: string;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        width: PAGE_WIDTH,
+        height: PAGE_HEIGHT,
+        display: "flex",
+        position: "relative",
+        backgroundColor: "white",
+        fontFamily: "sans-serif",
+      }}
+    >
+      <div
+        style={{
+          position: "absolute",
+          left: MARGIN,
+          top: MARGIN,
+          width: CONTENT_WIDTH,
+          height: HEADER_HEIGHT,
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "center",
+          borderBottom: `4px solid ${COLORS.accent}`,
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 48, fontWeight: 700, color: COLORS.ink }}>{clip(title, 44)}</div>
+        {subtitle && <div style={{ display: "flex", fontSize: 24, color: COLORS.muted }}>{clip(subtitle, 90)}</div>}
+      </div>
+      {children}
+      <div
+        style={{
+          position: "absolute",
+          left: MARGIN,
+          bottom: 40,
+          width: CONTENT_WIDTH,
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: 18,
+          color: COLORS.muted,
+        }}
+      >
+        <div style={{ display: "flex" }}>Localley</div>
+        <div style={{ display: "flex" }}>{footer}</div>
+      </div>
+    </div>
+  );
+}
+
+function coverPage(itinerary: PrintableItinerary, snapshot: MapSnapshot | null, footer: string): PageLayout {
+  const meta = [
+    itinerary.city,
+    `${itinerary.days} ${itinerary.days === 1 ? "day" : "days"}`,
+    itinerary.estimatedCost || undefined,
+    itinerary.localScore ? `Local score ${itinerary.localScore}/10` : undefined,
+  ].filter(Boolean).join(" · ");
+  const bodyTop = MARGIN + HEADER_HEIGHT + GAP;
+  const notesTop = bodyTop + (snapshot ? COVER_MAP_HEIGHT + GAP * 2 : 0);
+
+  return {
+    links: [],
+    element: (
+      <Page title={itinerary.title} subtitle={meta} footer={footer}>
+        {snapshot && <MapView snapshot={snapshot} top={bodyTop} />}
+        <div
+          style={{
+            position: "absolute",
+            left: MARGIN,
+            top: notesTop,
+            width: CONTENT_WIDTH,
+            display: "flex",
+            flexDirection: "column",
+          }}
+        >
+          {(itinerary.highlights ?? []).length > 0 && (
+            <div style={{ display: "flex", flexDirection: "column", marginBottom: 28 }}>
+              <div style={{ display: "flex", fontSize: 30, fontWeight: 700, color: COLORS.ink, marginBottom: 10 }}>
+                Highlights
+              </div>
+              {(itinerary.highlights ?? []).slice(0, 6).map((highlight) => (
+                <div key={highlight} style={{ display: "flex", fontSize: 22, color: COLORS.ink, marginBottom: 6 }}>
+                  {`• ${clip(highlight, 90)}`}
+                </div>
+              ))}
+            </div>
+          )}
+          {(itinerary.insights ?? []).slice(0, 4).map((insight) => (
+            <div
+              key={insight.text}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                padding: "16px 20px",
+                marginBottom: 14,
+                borderRadius: 16,
+                backgroundColor: COLORS.wash,
+              }}
+            >
+              <div style={{ display: "flex", fontSize: 20, fontWeight: 700, color: COLORS.accent }}>
+                {insight.kind === "transport" ? "Getting around" : "Local tip"}
+              </div>
+              <div style={{ display: "flex", fontSize: 20, color: COLORS.ink }}>{clip(insight.text, 180)}</div>
+            </div>
+          ))}
+        </div>
+      </Page>
+    ),
+  };
+}
+
+function dayPage(
+  dayNumber: number,
+  theme: string | undefined,
+  stops: PrintableStop[],
+  snapshot: MapSnapshot | null,
+  footer: string
+): PageLayout {
+  const rowsTop = MARGIN + HEADER_HEIGHT + GAP + (snapshot ? MAP_HEIGHT + GAP : 0);
+  return {
+    links: stops.map((stop, index) => ({
+      x: MARGIN,
+      y: rowsTop + index * ROW_HEIGHT,
+      width: CONTENT_WIDTH,
+      height: ROW_HEIGHT,
+      url: stop.directionsUrl,
+    })),
+    element: (
+      <Page title={`Day ${dayNumber}`} subtitle={theme} footer={footer}>
+        {snapshot && <MapView snapshot={snapshot} top={MARGIN + HEADER_HEIGHT + GAP} route />}
+        {stops.map((stop, index) => (
+          <ActivityRow key={`${stop.order}-${stop.name}`} stop={stop} top={rowsTop + index * ROW_HEIGHT} />
+        ))}
+      </Page>
+    ),
+  };
+}
+
+async function renderPage(element: ReactElement): Promise<Uint8Array> {
+  const response = new ImageResponse(element, { width: PAGE_WIDTH, height: PAGE_HEIGHT });
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Render an itinerary as an A4 PDF: a cover with the whole trip on a map,
+ * then each day with its route map and activities
+ */
+export async function renderItineraryPdf(itinerary: PrintableItinerary): Promise<Uint8Array> {
+  const tileCache = new Map<string, Promise<string | undefined>>();
+  const snapshot = async (points: Array<{ lat?: number; lng?: number; label: string }>, height: number) => {
+    const plan = planMapSnapshot(
+      points.filter((point): point is { lat: number; lng: number; label: string } =>
+        hasUsableCoordinates(point.lat, point.lng)
+      ),
+      { width: CONTENT_WIDTH, height, staticMapsKey: process.env.GOOGLE_MAPS_API_KEY }
+    );
+    return plan ? loadMapSnapshotTiles(plan, tileCache) : null;
+  };
+
+  const days = itinerary.dailyPlans.map((day, index) => ({
+    number: day.day ?? index + 1,
+    theme: day.theme,
+    stops: toStops(day, itinerary.city),
+  }));
+
+  const layouts: Array<(footer: string) => PageLayout> = [];
+  const coverSnapshot = await snapshot(
+    days.flatMap((day) => day.stops.map((stop) => ({ lat: stop.lat, lng: stop.lng, label: String(day.number) }))),
+    COVER_MAP_HEIGHT
+  );
+  layouts.push((footer) => coverPage(itinerary, coverSnapshot, footer));
+
+  for (const day of days) {
+    const daySnapshot = await snapshot(
+      day.stops.map((stop) => ({ lat: stop.lat, lng: stop.lng, label: String(stop.order) })),
+      MAP_HEIGHT
+    );
+    const firstPageRows = daySnapshot ? ROWS_WITH_MAP : ROWS_WITHOUT_MAP;
+    layouts.push((footer) => dayPage(day.number, day.theme, day.stops.slice(0, firstPageRows), daySnapshot, footer));
+    for (let start = firstPageRows; start < day.stops.length; start += ROWS_WITHOUT_MAP) {
+      const stops = day.stops.slice(start, start + ROWS_WITHOUT_MAP);
+      layouts.push((footer) => dayPage(day.number, `${day.theme ? `${day.theme} · ` : ""}continued`, stops, null, footer));
+    }
+  }
+
+  const pages: PdfImagePage[] = [];
+  // One page at a time: each render holds a full-page bitmap in memory
+  for (const [index, layout] of layouts.entries()) {
+    const { element, links } = layout(`${index + 1} / ${layouts.length}`);
+    pages.push({ png: await renderPage(element), links });
+  }
+
+  return buildImagePdf(pages, { title: itinerary.title, subject: `${itinerary.city} itinerary`, author: "Localley" });
+}
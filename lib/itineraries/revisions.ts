@@ -0,0 +1,510 @@
+import { z } from "zod";
+
+/**
+ * Typed edits to a saved itinerary's daily plans. Every change to a plan
+ * (AI revision, manual edit, chat tool, restore) is stored as a list of these
+ * next to a snapshot in itinerary_versions, so the history can show what
+ * changed and any earlier version can be restored.
+ *
+ * Days are positional: adding or removing a day renumbers the days after it.
+ * A move's `toIndex` is the position after the activity has been taken out.
+ */
+
+export interface RevisionActivity {
+  name: string;
+  [key: string]: unknown;
+}
+
+export interface RevisionDayPlan {
+  day: number;
+  theme?: string;
+  activities: RevisionActivity[];
+  [key: string]: unknown;
+}
+
+const DaySchema = z.number().int().min(1).max(30);
+const IndexSchema = z.number().int().min(0).max(50);
+const ThemeSchema = z.string().trim().min(1).max(200);
+const RevisionActivitySchema = z.looseObject({
+  name: z.string().trim().min(1).max(200),
+});
+
+// Fields the apply step fills in from the plan (`activity` on remove,
+// `previous`, `previousTheme`, `name`) are ignored on input; they let the
+// history describe a change without replaying it.
+export const ItineraryOperationSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("add_activity"),
+    day: DaySchema,
+    index: IndexSchema.optional(),
+    activity: RevisionActivitySchema,
+  }),
+  z.object({
+    op: z.literal("remove_activity"),
+    day: DaySchema,
+    index: IndexSchema,
+    activity: RevisionActivitySchema.optional(),
+  }),
+  z.object({
+    op: z.literal("move_activity"),
+    fromDay: DaySchema,
+    fromIndex: IndexSchema,
+    toDay: DaySchema,
+    toIndex: IndexSchema,
+    name: z.string().optional(),
+  }),
+  z.object({
+    op: z.literal("replace_activity"),
+    day: DaySchema,
+    index: IndexSchema,
+    activity: RevisionActivitySchema,
+    previous: RevisionActivitySchema.optional(),
+  }),
+  z.object({
+    op: z.literal("retheme_day"),
+    day: DaySchema,
+    theme: ThemeSchema,
+    previousTheme: z.string().nullable().optional(),
+  }),
+  z.object({
+    op: z.literal("add_day"),
+    day: DaySchema,
+    theme: ThemeSchema.optional(),
+    activities: z.array(RevisionActivitySchema).max(12).default([]),
+  }),
+  z.object({
+    op: z.literal("remove_day"),
+    day: DaySchema,
+    theme: z.string().nullable().optional(),
+    activities: z.array(RevisionActivitySchema).optional(),
+  }),
+]);
+
+export type ItineraryOperation = z.infer<typeof ItineraryOperationSchema>;
+
+export const ItineraryOperationsSchema = z.array(ItineraryOperationSchema).max(100);
+
+export class ItineraryPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ItineraryPatchError";
+  }
+}
+
+function clonePlans<T extends RevisionDayPlan>(plans: T[]): T[] {
+  return plans.map((plan) => ({
+    ...plan,
+    activities: plan.activities.map((activity) => ({ ...activity })),
+  }));
+}
+
+function findDayIndex(plans: RevisionDayPlan[], day: number): number {
+  const index = plans.findIndex((plan) => plan.day === day);
+  if (index === -1) {
+    throw new ItineraryPatchError(`The itinerary has no day ${day}; it has ${plans.length} days.`);
+  }
+  return index;
+}
+
+function checkIndex(plan: RevisionDayPlan, index: number, allowEnd = false): void {
+  const limit = allowEnd ? plan.activities.length : plan.activities.length - 1;
+  if (index > limit) {
+    throw new ItineraryPatchError(
+      `Day ${plan.day} has ${plan.activities.length} activities; index ${index} is out of range.`
+    );
+  }
+}
+
+function renumberDays(plans: RevisionDayPlan[]): void {
+  plans.forEach((plan, index) => {
+    plan.day = index + 1;
+  });
+}
+
+/**
+ * Apply operations in order to a copy of `plans`. Returns the new plans and
+ * the operations as applied, with indexes resolved and the replaced content
+ * recorded. Throws ItineraryPatchError on the first operation that does not
+ * fit the plan, leaving `plans` untouched.
+ */
+export function applyItineraryOperations<T extends RevisionDayPlan>(
+  plans: T[],
+  operations: ItineraryOperation[]
+): { dailyPlans: T[]; operations: ItineraryOperation[] } {
+  const working = clonePlans(plans);
+  const applied: ItineraryOperation[] = [];
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case "add_activity": {
+        const plan = working[findDayIndex(working, operation.day)];
+        const index = operation.index ?? plan.activities.length;
+        checkIndex(plan, index, true);
+        plan.activities.splice(index, 0, { ...operation.activity });
+        applied.push({ ...operation, index });
+        break;
+      }
+      case "remove_activity": {
+        const plan = working[findDayIndex(working, operation.day)];
+        checkIndex(plan, operation.index);
+        const [removed] = plan.activities.splice(operation.index, 1);
+        applied.push({ ...operation, activity: removed });
+        break;
+      }
+      case "move_activity": {
+        const from = working[findDayIndex(working, operation.fromDay)];
+        const to = working[findDayIndex(working, operation.toDay)];
+        checkIndex(from, operation.fromIndex);
+        const [moved] = from.activities.splice(operation.fromIndex, 1);
+        checkIndex(to, operation.toIndex, true);
+        to.activities.splice(operation.toIndex, 0, moved);
+        applied.push({ ...operation, name: moved.name });
+        break;
+      }
+      case "replace_activity": {
+        const plan = working[findDayIndex(working, operation.day)];
+        checkIndex(plan, operation.index);
+        const previous = plan.activities[operation.index];
+        plan.activities[operation.index] = { ...operation.activity };
+        applied.push({ ...operation, previous });
+        break;
+      }
+      case "retheme_day": {
+        const plan = working[findDayIndex(working, operation.day)];
+        const previousTheme = plan.theme ?? null;
+        plan.theme = operation.theme;
+        applied.push({ ...operation, previousTheme });
+        break;
+      }
+      case "add_day": {
+        if (operation.day > working.length + 1) {
+          throw new ItineraryPatchError(
+            `Cannot add day ${operation.day}; the itinerary has ${working.length} days.`
+          );
+        }
+        const plan = {
+          day: operation.day,
+          ...(operation.theme && { theme: operation.theme }),
+          activities: operation.activities.map((activity) => ({ ...activity })),
+        } as T;
+        working.splice(operation.day - 1, 0, plan);
+        renumberDays(working);
+        applied.push(operation);
+        break;
+      }
+      case "remove_day": {
+        const [removed] = working.splice(findDayIndex(working, operation.day), 1);
+        renumberDays(working);
+        applied.push({ ...operation, theme: removed.theme ?? null, activities: removed.activities });
+        break;
+      }
+    }
+  }
+
+  return { dailyPlans: working, operations: applied };
+}
+
+/**
+ * Deep equality that ignores key order; jsonb does not keep it
+ */
+function sameValue(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (typeof left !== "object" || typeof right !== "object" || left === null || right === null) {
+    return false;
+  }
+  if (Array.isArray(left) !== Array.isArray(right)) return false;
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => sameValue(item, right[index]));
+  }
+  const leftRecord = left as Record<string, unknown>;
+  const rightRecord = right as Record<string, unknown>;
+  const keys = Object.keys(leftRecord).filter((key) => leftRecord[key] !== undefined);
+  return (
+    keys.length === Object.keys(rightRecord).filter((key) => rightRecord[key] !== undefined).length &&
+    keys.every((key) => sameValue(leftRecord[key], rightRecord[key]))
+  );
+}
+
+/**
+ * Identity of an activity within an itinerary: its normalised name. Diffs,
+ * rebases, comments and votes all match activities by it.
+ */
+export function activityKey(activity: Pick<RevisionActivity, "name">): string {
+  return String(activity.name ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Operations that turn `before` into `after`. Activities are matched by name,
+ * so a reshuffle reads as moves and an edited activity as a replace in
+ * place. Day-level fields other than the theme are not diffed.
+ */
+export function diffDailyPlans(
+  before: RevisionDayPlan[],
+  after: RevisionDayPlan[]
+): ItineraryOperation[] {
+  let working = clonePlans(before);
+  const operations: ItineraryOperation[] = [];
+  const record = (operation: ItineraryOperation) => {
+    const result = applyItineraryOperations(working, [operation]);
+    working = result.dailyPlans;
+    operations.push(...result.operations);
+  };
+
+  // Surplus days are removed last so their activities can still move
+  for (let dayIndex = working.length; dayIndex < after.length; dayIndex++) {
+    record({ op: "add_day", day: dayIndex + 1, theme: after[dayIndex].theme || undefined, activities: [] });
+  }
+
+  // Target activities not yet in place, by name
+  const needed = new Map<string, number>();
+  for (const plan of after) {
+    for (const activity of plan.activities) {
+      needed.set(activityKey(activity), (needed.get(activityKey(activity)) ?? 0) + 1);
+    }
+  }
+
+  // Positions that are not yet in their final place: the rest of the current
+  // day, the overflow of finished days and every later day
+  const findUnplaced = (dayIndex: number, index: number, key: string) => {
+    const candidates = [dayIndex, ...[...working.keys()].filter((candidate) => candidate !== dayIndex)];
+    for (const candidate of candidates) {
+      const start =
+        candidate === dayIndex ? index + 1 : candidate < dayIndex ? after[candidate].activities.length : 0;
+      const activities = working[candidate].activities;
+      for (let position = start; position < activities.length; position++) {
+        if (activityKey(activities[position]) === key) return { dayIndex: candidate, index: position };
+      }
+    }
+    return null;
+  };
+
+  after.forEach((target, dayIndex) => {
+    const day = working[dayIndex].day;
+    if (target.theme && target.theme !== working[dayIndex].theme) {
+      record({ op: "retheme_day", day, theme: target.theme });
+    }
+
+    target.activities.forEach((wanted, index) => {
+      const key = activityKey(wanted);
+      const current = working[dayIndex].activities[index];
+
+      if (!current || activityKey(current) !== key) {
+        const source = findUnplaced(dayIndex, index, key);
+        if (source) {
+          record({
+            op: "move_activity",
+            fromDay: working[source.dayIndex].day,
+            fromIndex: source.index,
+            toDay: day,
+            toIndex: index,
+          });
+          // The activity it displaced is not wanted anywhere: drop it here
+          // rather than shuffling it along
+          if (current && !needed.get(activityKey(current))) {
+            record({ op: "remove_activity", day, index: index + 1 });
+          }
+        } else if (current && !needed.get(activityKey(current))) {
+          record({ op: "replace_activity", day, index, activity: wanted });
+        } else {
+          record({ op: "add_activity", day, index, activity: wanted });
+        }
+      }
+
+      if (!sameValue(working[dayIndex].activities[index], wanted)) {
+        record({ op: "replace_activity", day, index, activity: wanted });
+      }
+      needed.set(key, (needed.get(key) ?? 1) - 1);
+    });
+  });
+
+  after.forEach((target, dayIndex) => {
+    for (let index = working[dayIndex].activities.length - 1; index >= target.activities.length; index--) {
+      record({ op: "remove_activity", day: working[dayIndex].day, index });
+    }
+  });
+  for (let dayIndex = working.length - 1; dayIndex >= after.length; dayIndex--) {
+    record({ op: "remove_day", day: working[dayIndex].day });
+  }
+
+  return operations;
+}
+
+function findActivity(
+  plans: RevisionDayPlan[],
+  key: string,
+  preferredDayIndex: number
+): { dayIndex: number; index: number } | null {
+  const order = [preferredDayIndex, ...[...plans.keys()].filter((dayIndex) => dayIndex !== preferredDayIndex)];
+  for (const dayIndex of order) {
+    const index = plans[dayIndex]?.activities.findIndex((activity) => activityKey(activity) === key) ?? -1;
+    if (index !== -1) return { dayIndex, index };
+  }
+  return null;
+}
+
+/**
+ * Position in `current` right after the activity that precedes `index` in
+ * the same day of `base`, so an insert lands next to the same neighbour
+ */
+function anchoredIndex(base: RevisionDayPlan, index: number, current: RevisionDayPlan): number {
+  if (index === 0) return 0;
+  const before = base.activities[index - 1];
+  const anchor = before ? current.activities.findIndex((activity) => activityKey(activity) === activityKey(before)) : -1;
+  return anchor === -1 ? Math.min(index, current.activities.length) : anchor + 1;
+}
+
+/**
+ * Fields `edited` changed relative to `original`, laid over `target`, so two
+ * people editing different fields of one activity both keep their edit
+ */
+function mergeActivityFields(
+  original: RevisionActivity,
+  edited: RevisionActivity,
+  target: RevisionActivity
+): RevisionActivity {
+  const merged: RevisionActivity = { ...target };
+  for (const key of new Set([...Object.keys(original), ...Object.keys(edited)])) {
+    if (sameValue(original[key], edited[key])) continue;
+    if (edited[key] === undefined) delete merged[key];
+    else merged[key] = edited[key];
+  }
+  return merged;
+}
+
+/**
+ * Replay operations written against `base` onto `current`, a later version
+ * someone else has already changed. Operations are re-anchored by activity
+ * identity instead of index: removes and edits find their activity wherever
+ * it is now, inserts land next to the same neighbour, edits merge field by
+ * field, and an operation whose activity was removed meanwhile is dropped.
+ * Returns the merged plans, the operations as applied to `current`, and as
+ * `conflicts` the dropped edits, moves and rethemes the caller may want to
+ * surface. Re-removing something already gone is not a conflict.
+ */
+export function rebaseItineraryOperations<T extends RevisionDayPlan>(
+  base: RevisionDayPlan[],
+  operations: ItineraryOperation[],
+  current: T[]
+): { dailyPlans: T[]; operations: ItineraryOperation[]; conflicts: ItineraryOperation[] } {
+  let theirs = clonePlans(base);
+  let ours = clonePlans(current);
+  const applied: ItineraryOperation[] = [];
+  const conflicts: ItineraryOperation[] = [];
+
+  const apply = (operation: ItineraryOperation) => {
+    const result = applyItineraryOperations(ours, [operation]);
+    ours = result.dailyPlans;
+    applied.push(...result.operations);
+  };
+
+  for (const operation of operations) {
+    // Where the operation points in the version it was written against
+    const before = theirs;
+    theirs = applyItineraryOperations(theirs, [operation]).dailyPlans;
+
+    switch (operation.op) {
+      case "add_activity": {
+        const dayIndex = Math.min(operation.day, ours.length) - 1;
+        if (dayIndex < 0) {
+          conflicts.push(operation);
+          break;
+        }
+        const target = ours[dayIndex];
+        if (target.activities.some((activity) => activityKey(activity) === activityKey(operation.activity))) break;
+        const index = anchoredIndex(before[operation.day - 1], operation.index ?? before[operation.day - 1].activities.length, target);
+        apply({ ...operation, day: target.day, index });
+        break;
+      }
+      case "remove_activity": {
+        const removed = before[operation.day - 1].activities[operation.index];
+        const found = findActivity(ours, activityKey(removed), operation.day - 1);
+        if (found) apply({ op: "remove_activity", day: ours[found.dayIndex].day, index: found.index });
+        break;
+      }
+      case "move_activity": {
+        const moved = before[operation.fromDay - 1].activities[operation.fromIndex];
+        const found = findActivity(ours, activityKey(moved), operation.fromDay - 1);
+        const toDayIndex = operation.toDay - 1;
+        if (!found || !ours[toDayIndex]) {
+          conflicts.push({ ...operation, name: operation.name ?? moved.name });
+          break;
+        }
+        // Take it out first so the anchor is looked up among what stays
+        const without = applyItineraryOperations(ours, [
+          { op: "remove_activity", day: ours[found.dayIndex].day, index: found.index },
+        ]).dailyPlans;
+        apply({
+          op: "move_activity",
+          fromDay: ours[found.dayIndex].day,
+          fromIndex: found.index,
+          toDay: ours[toDayIndex].day,
+          toIndex: anchoredIndex(theirs[toDayIndex], operation.toIndex, without[toDayIndex]),
+        });
+        break;
+      }
+      case "replace_activity": {
+        const original = before[operation.day - 1].activities[operation.index];
+        const found = findActivity(ours, activityKey(original), operation.day - 1);
+        if (!found) {
+          conflicts.push({ ...operation, previous: operation.previous ?? original });
+          break;
+        }
+        const activity = activityKey(original) === activityKey(operation.activity)
+          ? mergeActivityFields(original, operation.activity, ours[found.dayIndex].activities[found.index])
+          : operation.activity;
+        apply({ op: "replace_activity", day: ours[found.dayIndex].day, index: found.index, activity });
+        break;
+      }
+      case "retheme_day":
+        if (ours[operation.day - 1]) apply({ ...operation, day: ours[operation.day - 1].day });
+        else conflicts.push(operation);
+        break;
+      case "add_day":
+        apply({ ...operation, day: Math.min(operation.day, ours.length + 1) });
+        break;
+      case "remove_day":
+        if (ours[operation.day - 1]) apply({ op: "remove_day", day: ours[operation.day - 1].day });
+        break;
+    }
+  }
+
+  return { dailyPlans: ours as T[], operations: applied, conflicts };
+}
+
+export function describeItineraryOperation(operation: ItineraryOperation): string {
+  switch (operation.op) {
+    case "add_activity":
+      return `Added ${operation.activity.name} to day ${operation.day}`;
+    case "remove_activity":
+      return `Removed ${operation.activity?.name ?? `activity ${operation.index + 1}`} from day ${operation.day}`;
+    case "move_activity": {
+      const name = operation.name ?? "an activity";
+      return operation.fromDay === operation.toDay
+        ? `Moved ${name} within day ${operation.toDay}`
+        : `Moved ${name} from day ${operation.fromDay} to day ${operation.toDay}`;
+    }
+    case "replace_activity":
+      return operation.previous && activityKey(operation.previous) !== activityKey(operation.activity)
+        ? `Replaced ${operation.previous.name} with ${operation.activity.name} on day ${operation.day}`
+        : `Updated ${operation.activity.name} on day ${operation.day}`;
+    case "retheme_day":
+      return `Renamed day ${operation.day} to "${operation.theme}"`;
+    case "add_day":
+      return operation.theme ? `Added day ${operation.day}: ${operation.theme}` : `Added day ${operation.day}`;
+    case "remove_day":
+      return `Removed day ${operation.day}`;
+  }
+}
+
+const SUMMARY_MAX_CHANGES = 3;
+
+/**
+ * One-line summary for a version, or null when nothing in the plan changed
+ */
+export function summarizeItineraryOperations(operations: ItineraryOperation[]): string | null {
+  if (operations.length === 0) return null;
+  const lines = operations.slice(0, SUMMARY_MAX_CHANGES).map(describeItineraryOperation);
+  const rest = operations.length - lines.length;
+  const summary = `${lines.join("; ")}${rest > 0 ? ` and ${rest} more ${rest === 1 ? "change" : "changes"}` : ""}.`;
+  return summary.length > 500 ? `${summary.slice(0, 497)}...` : summary;
+}
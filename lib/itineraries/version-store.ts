@@ -0,0 +1,137 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ItineraryOperationsSchema,
+  summarizeItineraryOperations,
+  type ItineraryOperation,
+} from "./revisions";
+
+export type ItineraryVersionSource = "original" | "revise" | "edit" | "chat" | "restore";
+
+/**
+ * Itinerary columns a version can change; also the shape of a snapshot
+ */
+export type ItinerarySnapshot = {
+  title: string;
+  city: string;
+  days: number;
+  activities: unknown;
+  local_score: number | null;
+  highlights: string[] | null;
+  estimated_cost: string | null;
+};
+
+export type ItineraryVersion = {
+  version: number;
+  source: ItineraryVersionSource;
+  operations: ItineraryOperation[];
+  summary: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+};
+
+export type ItineraryVersionWithSnapshot = ItineraryVersion & { snapshot: ItinerarySnapshot };
+
+export class ItineraryVersionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "CONFLICT" | "DATABASE",
+  ) {
+    super(message);
+    this.name = "ItineraryVersionError";
+  }
+}
+
+const VERSION_COLUMNS = "version,source,operations,summary,restored_from,created_at";
+
+type ItineraryVersionRow = {
+  version: number;
+  source: ItineraryVersionSource;
+  operations: unknown;
+  summary: string | null;
+  restored_from: number | null;
+  created_at: string;
+  snapshot?: ItinerarySnapshot;
+};
+
+function toItineraryVersion(row: ItineraryVersionRow): ItineraryVersion {
+  const operations = ItineraryOperationsSchema.safeParse(row.operations);
+  return {
+    version: row.version,
+    source: row.source,
+    operations: operations.success ? operations.data : [],
+    summary: row.summary,
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Apply `changes` to an itinerary and append a version recording them.
+ * Returns the new version number and the updated itinerary row. With
+ * `baseVersion`, the save fails with CONFLICT if anyone has saved since.
+ */
+export async function saveItineraryVersion(
+  supabase: SupabaseClient,
+  args: {
+    itineraryId: string;
+    clerkUserId: string;
+    source: Exclude<ItineraryVersionSource, "original">;
+    changes: Partial<ItinerarySnapshot>;
+    operations: ItineraryOperation[];
+    summary?: string | null;
+    restoredFrom?: number | null;
+    baseVersion?: number | null;
+  },
+): Promise<{ version: number; itinerary: Record<string, unknown> }> {
+  const { data, error } = await supabase.rpc("save_itinerary_version", {
+    p_itinerary_id: args.itineraryId,
+    p_clerk_user_id: args.clerkUserId,
+    p_changes: args.changes,
+    p_source: args.source,
+    p_operations: args.operations,
+    p_summary: args.summary === undefined ? summarizeItineraryOperations(args.operations) : args.summary,
+    p_restored_from: args.restoredFrom ?? null,
+    p_base_version: args.baseVersion ?? null,
+  });
+  if (error) {
+    if (error.code === "P0002") throw new ItineraryVersionError("Itinerary not found.", "NOT_FOUND");
+    if (error.code === "40001") throw new ItineraryVersionError("Itinerary was changed by someone else.", "CONFLICT");
+    throw new ItineraryVersionError(`Could not save itinerary version: ${error.message}`, "DATABASE");
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { saved_version: number; saved_itinerary: Record<string, unknown> }
+    | null;
+  if (!row) throw new ItineraryVersionError("Itinerary version save returned no row.", "DATABASE");
+  return { version: row.saved_version, itinerary: row.saved_itinerary };
+}
+
+export async function listItineraryVersions(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  limit = 50,
+): Promise<ItineraryVersion[]> {
+  const { data, error } = await supabase
+    .from("itinerary_versions")
+    .select(VERSION_COLUMNS)
+    .eq("itinerary_id", itineraryId)
+    .order("version", { ascending: false })
+    .limit(limit);
+  if (error) throw new ItineraryVersionError(`Could not load itinerary versions: ${error.message}`, "DATABASE");
+  return ((data || []) as ItineraryVersionRow[]).map(toItineraryVersion);
+}
+
+export async function loadItineraryVersion(
+  supabase: SupabaseClient,
+  itineraryId: string,
+  version: number,
+): Promise<ItineraryVersionWithSnapshot | null> {
+  const { data, error } = await supabase
+    .from("itinerary_versions")
+    .select(`${VERSION_COLUMNS},snapshot`)
+    .eq("itinerary_id", itineraryId)
+    .eq("version", version)
+    .maybeSingle<ItineraryVersionRow>();
+  if (error) throw new ItineraryVersionError(`Could not load itinerary version: ${error.message}`, "DATABASE");
+  if (!data?.snapshot) return null;
+  return { ...toItineraryVersion(data), snapshot: data.snapshot };
+}
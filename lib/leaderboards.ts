@@ -0,0 +1,396 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { getCityBySlug, toCitySlug } from "@/lib/cities";
+import { getRankTitle } from "@/lib/gamification";
+import { notifyAchievementUnlocked } from "@/lib/notification-triggers";
+import { awardXp } from "@/lib/xp-ledger";
+
+/**
+ * Leaderboards are materialised from the XP ledger into
+ * `leaderboard_entries` once a day: one board per period (this week, month,
+ * season and all time), overall and per city. Reads never aggregate the
+ * ledger, and each refresh keeps the previous rank so the UI can show who
+ * climbed. When a season ends its top three (overall and in each city) are
+ * paid a season award.
+ */
+
+export const LEADERBOARD_BOARDS = ["week", "month", "season", "all_time"] as const;
+
+export type LeaderboardBoard = (typeof LEADERBOARD_BOARDS)[number];
+
+export interface LeaderboardPeriod {
+    board: LeaderboardBoard;
+    key: string;
+    label: string;
+    start: Date | null;
+    end: Date | null;
+}
+
+export interface LeaderboardEntry {
+    rank: number;
+    previousRank: number | null;
+    /** Places climbed since the previous refresh; null when new to the board */
+    rankChange: number | null;
+    id: string;
+    clerkId: string;
+    username: string | null;
+    xp: number;
+    level: number;
+    title: string;
+    isCurrentUser: boolean;
+}
+
+export interface Leaderboard {
+    period: LeaderboardPeriod;
+    city: string | null;
+    friends: boolean;
+    entries: LeaderboardEntry[];
+    currentUser: LeaderboardEntry | null;
+}
+
+const SEASON_NAMES = ["Winter", "Spring", "Summer", "Autumn"];
+const MONTH_FORMAT = new Intl.DateTimeFormat("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+
+// XP from before the ledger existed and last season's prizes don't count
+// toward this period's boards
+const PERIOD_EXCLUDED_REASONS = ["opening_balance", "season_award"];
+
+/** Season-end XP by final rank, overall and on a city board */
+export const SEASON_AWARDS = {
+    global: [500, 300, 150],
+    city: [200, 100, 50],
+};
+
+// Seasons are paid out during the first days of the next one
+const SEASON_AWARD_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const FRIENDS_LIMIT = 500;
+const UPSERT_CHUNK = 500;
+// PostgREST caps every response at 1000 rows, RPC results included
+const PAGE_SIZE = 1000;
+
+function isoWeek(date: Date): { year: number; week: number } {
+    const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+    const firstThursday = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+    const week = 1 + Math.round(
+        ((thursday.getTime() - firstThursday.getTime()) / 86_400_000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7
+    );
+    return { year: thursday.getUTCFullYear(), week };
+}
+
+/** The period a board covers at a moment; weeks start on Monday, all in UTC */
+export function getLeaderboardPeriod(board: LeaderboardBoard, at: Date = new Date()): LeaderboardPeriod {
+    const year = at.getUTCFullYear();
+    const month = at.getUTCMonth();
+
+    switch (board) {
+        case "week": {
+            const start = new Date(Date.UTC(year, month, at.getUTCDate() - ((at.getUTCDay() + 6) % 7)));
+            const end = new Date(start.getTime() + 7 * 86_400_000);
+            const { year: weekYear, week } = isoWeek(at);
+            return { board, key: `${weekYear}-W${String(week).padStart(2, "0")}`, label: "This week", start, end };
+        }
+        case "month": {
+            const start = new Date(Date.UTC(year, month, 1));
+            return {
+                board,
+                key: `${year}-${String(month + 1).padStart(2, "0")}`,
+                label: MONTH_FORMAT.format(start),
+                start,
+                end: new Date(Date.UTC(year, month + 1, 1)),
+            };
+        }
+        case "season": {
+            const quarter = Math.floor(month / 3);
+            return {
+                board,
+                key: `${year}-Q${quarter + 1}`,
+                label: `${SEASON_NAMES[quarter]} ${year} season`,
+                start: new Date(Date.UTC(year, quarter * 3, 1)),
+                end: new Date(Date.UTC(year, quarter * 3 + 3, 1)),
+            };
+        }
+        case "all_time":
+            return { board, key: "all", label: "All time", start: null, end: null };
+    }
+}
+
+/** Highest XP first; ties share a rank and the next rank skips (1, 2, 2, 4) */
+export function rankByXp<T extends { xp: number; clerk_user_id: string }>(rows: T[]): Array<T & { rank: number }> {
+    const sorted = [...rows].sort((a, b) => b.xp - a.xp || a.clerk_user_id.localeCompare(b.clerk_user_id));
+    let rank = 0;
+    return sorted.map((row, index) => {
+        if (index === 0 || sorted[index - 1].xp !== row.xp) rank = index + 1;
+        return { ...row, rank };
+    });
+}
+
+interface TotalsRow {
+    user_id: string;
+    clerk_user_id: string;
+    city: string;
+    xp: number;
+}
+
+/** Every row a query returns, fetched a page at a time so the row cap can't truncate it */
+async function fetchAllPages<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>,
+    failure: string,
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await page(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`${failure}: ${error.message}`);
+
+        const batch = (data || []) as T[];
+        rows.push(...batch);
+        if (batch.length < PAGE_SIZE) return rows;
+    }
+}
+
+/** Recompute one board from the ledger; returns how many rows it holds */
+async function materializeBoard(supabase: SupabaseClient, period: LeaderboardPeriod, at: Date): Promise<number> {
+    const totals = await fetchAllPages<TotalsRow>(
+        (from, to) =>
+            supabase
+                .rpc("xp_leaderboard_totals", {
+                    p_since: period.start?.toISOString() ?? null,
+                    p_until: (period.end ?? at).toISOString(),
+                    p_exclude_reasons: period.board === "all_time" ? [] : PERIOD_EXCLUDED_REASONS,
+                })
+                .order("city", { ascending: true })
+                .order("user_id", { ascending: true })
+                .range(from, to),
+        `Could not total ${period.board} leaderboard`
+    );
+
+    const existing = await fetchAllPages<{ user_id: string; city: string; rank: number }>(
+        (from, to) =>
+            supabase
+                .from("leaderboard_entries")
+                .select("user_id, city, rank")
+                .eq("board", period.board)
+                .eq("period", period.key)
+                .order("city", { ascending: true })
+                .order("user_id", { ascending: true })
+                .range(from, to),
+        `Could not load ${period.board} leaderboard`
+    );
+    const previous = new Map(existing.map((row) => [`${row.city}:${row.user_id}`, row.rank]));
+
+    const byCity = new Map<string, TotalsRow[]>();
+    for (const row of totals) {
+        const rows = byCity.get(row.city) ?? [];
+        rows.push({ ...row, xp: Number(row.xp) });
+        byCity.set(row.city, rows);
+    }
+
+    const computedAt = at.toISOString();
+    const entries = [...byCity.values()].flatMap((rows) =>
+        rankByXp(rows).map((row) => ({
+            board: period.board,
+            period: period.key,
+            city: row.city,
+            user_id: row.user_id,
+            clerk_user_id: row.clerk_user_id,
+            xp: row.xp,
+            rank: row.rank,
+            previous_rank: previous.get(`${row.city}:${row.user_id}`) ?? null,
+            computed_at: computedAt,
+        }))
+    );
+
+    for (let index = 0; index < entries.length; index += UPSERT_CHUNK) {
+        const { error: upsertError } = await supabase
+            .from("leaderboard_entries")
+            .upsert(entries.slice(index, index + UPSERT_CHUNK), { onConflict: "board,period,city,user_id" });
+        if (upsertError) throw new Error(`Could not save ${period.board} leaderboard: ${upsertError.message}`);
+    }
+
+    // Anyone whose XP for the period was reversed down to nothing drops off
+    const { error: pruneError } = await supabase
+        .from("leaderboard_entries")
+        .delete()
+        .eq("board", period.board)
+        .eq("period", period.key)
+        .lt("computed_at", computedAt);
+    if (pruneError) throw new Error(`Could not prune ${period.board} leaderboard: ${pruneError.message}`);
+
+    return entries.length;
+}
+
+/**
+ * Finalise last season and pay its podiums, once per board. Runs only in the
+ * first week of a season so late reversals can't reshuffle paid podiums.
+ */
+async function awardEndedSeason(supabase: SupabaseClient, at: Date): Promise<number> {
+    const current = getLeaderboardPeriod("season", at);
+    if (!current.start || at.getTime() - current.start.getTime() > SEASON_AWARD_WINDOW_MS) return 0;
+
+    const ended = getLeaderboardPeriod("season", new Date(current.start.getTime() - 1));
+    const { data: paid, error: paidError } = await supabase
+        .from("xp_ledger")
+        .select("source_id")
+        .eq("reason", "season_award")
+        .like("source_id", `${ended.key}:%`);
+    if (paidError) throw new Error(`Could not load season awards: ${paidError.message}`);
+    const paidBoards = new Set((paid || []).map((row) => row.source_id));
+
+    await materializeBoard(supabase, ended, at);
+    const { data: podiums, error } = await supabase
+        .from("leaderboard_entries")
+        .select("city, clerk_user_id, rank")
+        .eq("board", "season")
+        .eq("period", ended.key)
+        .lte("rank", SEASON_AWARDS.global.length)
+        .order("rank", { ascending: true });
+    if (error) throw new Error(`Could not load season podiums: ${error.message}`);
+
+    let awarded = 0;
+    for (const podium of (podiums || []) as Array<{ city: string; clerk_user_id: string; rank: number }>) {
+        const boardId = `${ended.key}:${podium.city || "global"}`;
+        if (paidBoards.has(boardId)) continue;
+
+        const amount = (podium.city ? SEASON_AWARDS.city : SEASON_AWARDS.global)[podium.rank - 1];
+        const where = podium.city ? `in ${getCityBySlug(podium.city)?.name ?? podium.city}` : "overall";
+        const result = await awardXp(
+            {
+                clerkUserId: podium.clerk_user_id,
+                reason: "season_award",
+                source: { type: "season", id: boardId },
+                city: podium.city || null,
+                amount,
+                metadata: { season: ended.key, rank: podium.rank },
+                at,
+            },
+            supabase
+        );
+        if (result.status !== "awarded") continue;
+
+        awarded++;
+        await notifyAchievementUnlocked(
+            podium.clerk_user_id,
+            `${ended.label} #${podium.rank}`,
+            `You finished #${podium.rank} ${where} in the ${ended.label}`,
+            amount
+        ).catch((notifyError) => console.error("Error sending season award notification:", notifyError));
+    }
+
+    return awarded;
+}
+
+/** Rebuild every current board and pay out a season that just ended */
+export async function refreshLeaderboards(
+    at: Date = new Date(),
+    client?: SupabaseClient,
+): Promise<{ boards: Array<{ board: LeaderboardBoard; period: string; entries: number }>; seasonAwards: number }> {
+    const supabase = client ?? createSupabaseAdmin();
+    const boards = [];
+    for (const board of LEADERBOARD_BOARDS) {
+        const period = getLeaderboardPeriod(board, at);
+        boards.push({ board, period: period.key, entries: await materializeBoard(supabase, period, at) });
+    }
+    const seasonAwards = await awardEndedSeason(supabase, at);
+    return { boards, seasonAwards };
+}
+
+interface EntryRow {
+    user_id: string;
+    clerk_user_id: string;
+    xp: number;
+    rank: number;
+    previous_rank: number | null;
+    user: { username: string | null; level: number | null } | Array<{ username: string | null; level: number | null }> | null;
+}
+
+const ENTRY_COLUMNS = "user_id, clerk_user_id, xp, rank, previous_rank, user:users(username, level)";
+
+function toEntry(row: EntryRow, viewer: string | null): LeaderboardEntry {
+    const user = Array.isArray(row.user) ? row.user[0] : row.user;
+    const level = user?.level || 1;
+    return {
+        rank: row.rank,
+        previousRank: row.previous_rank,
+        rankChange: row.previous_rank === null ? null : row.previous_rank - row.rank,
+        id: row.user_id,
+        clerkId: row.clerk_user_id,
+        username: user?.username ?? null,
+        xp: row.xp,
+        level,
+        title: getRankTitle(level),
+        isCurrentUser: row.clerk_user_id === viewer,
+    };
+}
+
+// Among friends, both ranks are positions within the group
+function rerank(rows: EntryRow[]): EntryRow[] {
+    const current = new Map(rankByXp(rows).map((row) => [row.user_id, row.rank]));
+    const ranked = rows.filter((row) => row.previous_rank !== null);
+    const before = new Map(
+        rankByXp(ranked.map((row) => ({ ...row, xp: -(row.previous_rank as number) })))
+            .map((row) => [row.user_id, row.rank])
+    );
+    return rows
+        .map((row) => ({ ...row, rank: current.get(row.user_id)!, previous_rank: before.get(row.user_id) ?? null }))
+        .sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * Read a materialised board. `friends` narrows the overall board to the
+ * viewer and the people they follow and ranks them against each other.
+ */
+export async function getLeaderboard(
+    options: {
+        board: LeaderboardBoard;
+        city?: string | null;
+        friends?: boolean;
+        viewerClerkUserId?: string | null;
+        limit?: number;
+        at?: Date;
+    },
+    client?: SupabaseClient,
+): Promise<Leaderboard> {
+    const supabase = client ?? createSupabaseAdmin();
+    const period = getLeaderboardPeriod(options.board, options.at);
+    const viewer = options.viewerClerkUserId ?? null;
+    const limit = options.limit ?? 50;
+    const friends = Boolean(options.friends && viewer);
+    const city = friends ? null : toCitySlug(options.city);
+
+    const base = () => supabase
+        .from("leaderboard_entries")
+        .select(ENTRY_COLUMNS)
+        .eq("board", period.board)
+        .eq("period", period.key)
+        .eq("city", city ?? "");
+
+    let rows: EntryRow[];
+    if (friends) {
+        const { data: follows, error: followsError } = await supabase
+            .from("follows")
+            .select("following_id")
+            .eq("follower_id", viewer);
+        if (followsError) throw new Error(`Could not load follows: ${followsError.message}`);
+
+        const group = [viewer as string, ...(follows || []).map((row) => row.following_id as string)];
+        const { data, error } = await base().in("clerk_user_id", group).limit(FRIENDS_LIMIT);
+        if (error) throw new Error(`Could not load leaderboard: ${error.message}`);
+        rows = rerank((data || []) as EntryRow[]);
+    } else {
+        const { data, error } = await base().order("rank", { ascending: true }).limit(limit);
+        if (error) throw new Error(`Could not load leaderboard: ${error.message}`);
+        rows = (data || []) as EntryRow[];
+    }
+
+    const entries = rows.slice(0, limit).map((row) => toEntry(row, viewer));
+
+    let currentUser: LeaderboardEntry | null = null;
+    if (viewer && !entries.some((entry) => entry.isCurrentUser)) {
+        const own = friends
+            ? rows.find((row) => row.clerk_user_id === viewer)
+            : (await base().eq("clerk_user_id", viewer).maybeSingle()).data as EntryRow | null;
+        currentUser = own ? toEntry(own, viewer) : null;
+    }
+
+    return { period, city, friends, entries, currentUser };
+}
@@ -10,7 +10,7 @@
  * - General responses: Short TTL (1h) - for exact same requests
  */
 
-import type { CacheEntry, CacheOptions } from './types';
+import type { CacheEntry } from './types';
 import { cacheConfig } from './config';
 
 /**
@@ -363,11 +363,34 @@ export const cacheKeys = {
   },
 
   /**
-   * Key for itinerary structure (based on params hash)
+   * Key for itinerary structure (based on params hash). Interests are
+   * compared as a set, so their order and case do not change the key.
    */
-  itineraryStructure(params: { city: string; days: number; interests?: string[] }): string {
-    const hash = simpleHash(JSON.stringify(params));
-    return `itinerary:${hash}`;
+  itineraryStructure(params: { city: string; days: number; interests?: string[] }, tier?: string): string {
+    const normalized = {
+      ...params,
+      city: normalizeCacheText(params.city),
+      interests: normalizeInterests(params.interests),
+    };
+    const hash = simpleHash(JSON.stringify(normalized, Object.keys(normalized).sort()));
+    return tier ? `itinerary:${tier}:${hash}` : `itinerary:${hash}`;
+  },
+
+  /**
+   * Key for the semantic cache entries that may stand in for each other: same
+   * city, trip length and tier, and the same budget, pace, group and localness
+   */
+  semanticItineraryBucket(
+    params: { city: string; days: number; budget?: string; pace?: string; groupType?: string; localnessLevel?: number },
+    tier: string
+  ): string {
+    const preferences = [
+      normalizeCacheText(params.budget ?? 'moderate'),
+      normalizeCacheText(params.pace ?? 'moderate'),
+      normalizeCacheText(params.groupType ?? 'any'),
+      params.localnessLevel ?? 3,
+    ].join('|');
+    return `semantic:itinerary:${normalizeCacheText(params.city).replace(/\s+/g, '_')}:${params.days}:${tier}:${simpleHash(preferences)}`;
   },
 
   /**
@@ -385,6 +408,20 @@ export const cacheKeys = {
   },
 };
 
+/**
+ * Lowercase, trim and collapse whitespace
+ */
+export function normalizeCacheText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Interests as a sorted, de-duplicated, normalised list
+ */
+export function normalizeInterests(interests: string[] = []): string[] {
+  return [...new Set(interests.map(normalizeCacheText).filter(Boolean))].sort();
+}
+
 /**
  * Simple string hash function
  */
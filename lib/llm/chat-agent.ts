@@ -0,0 +1,404 @@
+/**
+ * Tool-calling chat agent.
+ *
+ * Alley answers over several model turns: a turn may call tools (spot
+ * search, itinerary edits, trip planning) whose results are fed back until
+ * the model replies in text. GLM drives the tools. When it is unavailable or
+ * fails, the turn falls back to the plain chat pipeline, which is told about
+ * any tool calls that already ran.
+ */
+
+import { z } from "zod";
+
+import {
+  generateChatReplyWithFallback,
+  streamChatReplyWithFallback,
+  type ChatMessage,
+  type ChatProviderResult,
+  type ChatStreamEvent,
+} from "./chat-provider";
+import { getCircuitBreakerManager, type CircuitBreakerManager } from "./circuit-breaker";
+import { readGLMProviderConfig } from "./env";
+import { GLMProvider } from "./providers/glm";
+import type { ToolCallingProvider } from "./providers/base";
+import type { ToolCall, ToolConversationMessage, ToolDefinition, ToolStreamEvent } from "./types";
+
+export interface ChatTool<TSchema extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  parameters: TSchema;
+  execute(args: z.output<TSchema>): Promise<unknown>;
+}
+
+/**
+ * Identity helper that types `execute` from the parameter schema
+ */
+export function defineChatTool<TSchema extends z.ZodType>(tool: ChatTool<TSchema>): ChatTool<TSchema> {
+  return tool;
+}
+
+/**
+ * A tool failure whose message is safe to hand back to the model
+ */
+export class ChatToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatToolError";
+  }
+}
+
+/**
+ * One executed tool call, as returned to the client and persisted with the
+ * assistant message it led to.
+ */
+export interface ChatToolCallRecord {
+  id: string;
+  name: string;
+  arguments: unknown;
+  result: unknown;
+  isError: boolean;
+}
+
+export interface ChatAgentMessage extends ChatMessage {
+  /** Tool calls made before this assistant message was written */
+  toolCalls?: ChatToolCallRecord[];
+}
+
+export interface ChatAgentInput {
+  systemPrompt: string;
+  /** Prompt for the plain pipeline; only built when the agent falls back */
+  fallbackSystemPrompt: () => Promise<string>;
+  messages: ChatAgentMessage[];
+  tools: ChatTool[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ChatAgentResult extends ChatProviderResult {
+  toolCalls: ChatToolCallRecord[];
+}
+
+/**
+ * Streamed agent turn: a `tool` event per executed call, then the usual chat
+ * stream events. `done` lists the turn's tool calls when any ran.
+ */
+export type ChatAgentStreamEvent =
+  | Exclude<ChatStreamEvent, { type: "done" }>
+  | { type: "tool"; call: ChatToolCallRecord }
+  | { type: "done"; content: string; toolCalls?: ChatToolCallRecord[] };
+
+interface ChatAgentDependencies {
+  provider?: Pick<ToolCallingProvider, "isAvailable" | "generateWithTools" | "streamWithTools">;
+  circuitBreakers?: Pick<CircuitBreakerManager, "isAvailable" | "recordSuccess" | "recordFailure">;
+  /** Model turns allowed to call tools before a text answer is forced */
+  maxSteps?: number;
+  logger?: Pick<Console, "error">;
+}
+
+export const DEFAULT_CHAT_AGENT_MAX_STEPS = 5;
+
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+function toToolDefinition(tool: ChatTool): ToolDefinition {
+  const parameters: Record<string, unknown> = { ...z.toJSONSchema(tool.parameters, { io: "input" }) };
+  delete parameters.$schema;
+  return { name: tool.name, description: tool.description, parameters };
+}
+
+function serializeToolResult(record: ChatToolCallRecord): string {
+  const serialized = JSON.stringify(record.result ?? null);
+  return serialized.length > MAX_TOOL_RESULT_CHARS
+    ? `${serialized.slice(0, MAX_TOOL_RESULT_CHARS)}... (truncated)`
+    : serialized;
+}
+
+/**
+ * Replay earlier turns, including their persisted tool calls, as the
+ * provider-neutral tool conversation.
+ */
+function toToolConversation(systemPrompt: string, messages: ChatAgentMessage[]): ToolConversationMessage[] {
+  const conversation: ToolConversationMessage[] = [{ role: "system", content: systemPrompt }];
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      conversation.push({ role: "user", content: message.content });
+    } else if (message.role === "assistant") {
+      if (message.toolCalls?.length) {
+        conversation.push({
+          role: "assistant",
+          content: null,
+          toolCalls: message.toolCalls.map((call) => ({
+            id: call.id,
+            name: call.name,
+            arguments: JSON.stringify(call.arguments ?? {}),
+          })),
+        });
+        for (const call of message.toolCalls) {
+          conversation.push({ role: "tool", toolCallId: call.id, content: serializeToolResult(call) });
+        }
+      }
+      conversation.push({ role: "assistant", content: message.content });
+    }
+  }
+
+  return conversation;
+}
+
+async function executeToolCall(
+  call: ToolCall,
+  tools: Map<string, ChatTool>,
+  logger: Pick<Console, "error">
+): Promise<ChatToolCallRecord> {
+  const failed = (args: unknown, error: string): ChatToolCallRecord => ({
+    id: call.id,
+    name: call.name,
+    arguments: args,
+    result: { error },
+    isError: true,
+  });
+
+  let args: unknown;
+  try {
+    args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    return failed(call.arguments, "Arguments were not valid JSON.");
+  }
+
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return failed(args, `Unknown tool "${call.name}".`);
+  }
+
+  const parsed = tool.parameters.safeParse(args);
+  if (!parsed.success) {
+    return failed(args, z.prettifyError(parsed.error));
+  }
+
+  try {
+    return { id: call.id, name: call.name, arguments: parsed.data, result: await tool.execute(parsed.data), isError: false };
+  } catch (error) {
+    if (error instanceof ChatToolError) {
+      return failed(parsed.data, error.message);
+    }
+    logger.error(`[CHAT_AGENT] Tool ${call.name} failed:`, error);
+    return failed(parsed.data, "The tool failed unexpectedly.");
+  }
+}
+
+/**
+ * Yields each executed tool call; returns the final text answer, or null
+ * when the turn should fall back to the plain chat pipeline.
+ */
+async function* runToolLoop(
+  input: ChatAgentInput,
+  dependencies: ChatAgentDependencies
+): AsyncGenerator<ChatToolCallRecord, { content: string } | null> {
+  const provider = dependencies.provider ?? new GLMProvider();
+  const circuitBreakers = dependencies.circuitBreakers ?? getCircuitBreakerManager();
+  const logger = dependencies.logger ?? console;
+  const maxSteps = dependencies.maxSteps ?? DEFAULT_CHAT_AGENT_MAX_STEPS;
+
+  if (input.tools.length === 0 || !provider.isAvailable() || !circuitBreakers.isAvailable("glm")) {
+    return null;
+  }
+
+  const tools = new Map(input.tools.map((tool) => [tool.name, tool]));
+  const definitions = input.tools.map(toToolDefinition);
+  const conversation = toToolConversation(input.systemPrompt, input.messages);
+
+  for (let step = 0; step <= maxSteps; step++) {
+    let result;
+    try {
+      result = await provider.generateWithTools({
+        messages: conversation,
+        tools: definitions,
+        toolChoice: step < maxSteps ? "auto" : "none",
+        maxTokens: input.maxTokens ?? 2048,
+        temperature: input.temperature ?? 0.7,
+      });
+    } catch (error) {
+      circuitBreakers.recordFailure("glm");
+      logger.error("[CHAT_AGENT] GLM tool turn failed; falling back to plain chat:", error);
+      return null;
+    }
+    circuitBreakers.recordSuccess("glm");
+
+    if (result.toolCalls.length === 0 || step === maxSteps) {
+      const content = result.content.trim();
+      return content ? { content } : null;
+    }
+
+    conversation.push({ role: "assistant", content: result.content || null, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const record = await executeToolCall(call, tools, logger);
+      conversation.push({ role: "tool", toolCallId: call.id, content: serializeToolResult(record) });
+      yield record;
+    }
+  }
+
+  return null;
+}
+
+function toPlainMessages(messages: ChatAgentMessage[]): ChatMessage[] {
+  return messages.map(({ role, content }) => ({ role, content }));
+}
+
+/**
+ * Tell the plain pipeline what already happened, so it neither repeats nor
+ * denies changes the tools made.
+ */
+function withToolNotes(systemPrompt: string, toolCalls: ChatToolCallRecord[]): string {
+  if (toolCalls.length === 0) return systemPrompt;
+
+  const notes = toolCalls
+    .map((call) => `- ${call.name}(${JSON.stringify(call.arguments)}) -> ${serializeToolResult(call)}`)
+    .join("\n");
+  return `${systemPrompt}\n\n## ACTIONS ALREADY TAKEN THIS TURN\nThese tool calls already ran. Tell the user what they changed and claim nothing beyond these results:\n${notes}`;
+}
+
+function agentReplyMetadata(): Omit<ChatProviderResult, "content"> {
+  const primaryModel = readGLMProviderConfig().model;
+  return {
+    provider: "glm",
+    model: primaryModel,
+    fallbackUsed: false,
+    fallbackReason: null,
+    primaryProvider: "glm",
+    primaryModel,
+    primaryConfigured: true,
+  };
+}
+
+export async function generateChatAgentReply(
+  input: ChatAgentInput,
+  dependencies: ChatAgentDependencies = {}
+): Promise<ChatAgentResult> {
+  const toolCalls: ChatToolCallRecord[] = [];
+  const loop = runToolLoop(input, dependencies);
+  let step = await loop.next();
+  while (!step.done) {
+    toolCalls.push(step.value);
+    step = await loop.next();
+  }
+
+  if (step.value) {
+    return { content: step.value.content, ...agentReplyMetadata(), toolCalls };
+  }
+
+  const reply = await generateChatReplyWithFallback({
+    systemPrompt: withToolNotes(await input.fallbackSystemPrompt(), toolCalls),
+    messages: toPlainMessages(input.messages),
+    maxTokens: input.maxTokens,
+    temperature: input.temperature,
+  });
+  return { ...reply, toolCalls };
+}
+
+/**
+ * Streamed GLM tool loop. Every turn is streamed: turns that only call tools
+ * relay nothing but `tool` events, and text is relayed token by token as soon
+ * as the model writes it. Returns the streamed reply, or null when nothing
+ * reached the client yet and the plain pipeline should take over. Once text
+ * is out, a failure ends the stream, as in `streamChatReplyWithFallback`.
+ */
+async function* streamToolLoop(
+  input: ChatAgentInput,
+  dependencies: ChatAgentDependencies,
+  toolCalls: ChatToolCallRecord[]
+): AsyncGenerator<ChatAgentStreamEvent, string | null> {
+  const provider = dependencies.provider ?? new GLMProvider();
+  const circuitBreakers = dependencies.circuitBreakers ?? getCircuitBreakerManager();
+  const logger = dependencies.logger ?? console;
+  const maxSteps = dependencies.maxSteps ?? DEFAULT_CHAT_AGENT_MAX_STEPS;
+
+  if (input.tools.length === 0 || !provider.isAvailable() || !circuitBreakers.isAvailable("glm")) {
+    return null;
+  }
+
+  const tools = new Map(input.tools.map((tool) => [tool.name, tool]));
+  const definitions = input.tools.map(toToolDefinition);
+  const conversation = toToolConversation(input.systemPrompt, input.messages);
+  let content = "";
+
+  for (let step = 0; step <= maxSteps; step++) {
+    let turnText = "";
+    let requested: ToolCall[] = [];
+    try {
+      const events: AsyncIterator<ToolStreamEvent> = provider.streamWithTools({
+        messages: conversation,
+        tools: definitions,
+        toolChoice: step < maxSteps ? "auto" : "none",
+        maxTokens: input.maxTokens ?? 2048,
+        temperature: input.temperature ?? 0.7,
+      })[Symbol.asyncIterator]();
+
+      for (let next = await events.next(); !next.done; next = await events.next()) {
+        const event = next.value;
+        if (event.type === "done") {
+          requested = event.toolCalls;
+          break;
+        }
+
+        // Leading whitespace is dropped until the reply's first token
+        const delta = content ? event.content : event.content.trimStart();
+        if (!delta) continue;
+        if (!content) yield { type: "start", ...agentReplyMetadata() };
+        // Text written before an earlier turn's tool calls stays; start a new paragraph
+        const separated = content && !turnText ? `\n\n${delta}` : delta;
+        turnText += delta;
+        content += separated;
+        yield { type: "delta", content: separated };
+      }
+    } catch (error) {
+      circuitBreakers.recordFailure("glm");
+      if (content) throw error;
+      logger.error("[CHAT_AGENT] GLM tool turn failed; falling back to plain chat:", error);
+      return null;
+    }
+    circuitBreakers.recordSuccess("glm");
+
+    if (requested.length === 0 || step === maxSteps) {
+      return content.trim() || null;
+    }
+
+    conversation.push({ role: "assistant", content: turnText || null, toolCalls: requested });
+    for (const call of requested) {
+      const record = await executeToolCall(call, tools, logger);
+      conversation.push({ role: "tool", toolCallId: call.id, content: serializeToolResult(record) });
+      toolCalls.push(record);
+      yield { type: "tool", call: record };
+    }
+  }
+
+  return content.trim() || null;
+}
+
+/**
+ * Streaming counterpart of `generateChatAgentReply`. The GLM tool loop
+ * streams its text turns token by token; fallback replies stream through the
+ * plain pipeline.
+ */
+export async function* streamChatAgentReply(
+  input: ChatAgentInput,
+  dependencies: ChatAgentDependencies = {}
+): AsyncGenerator<ChatAgentStreamEvent> {
+  const toolCalls: ChatToolCallRecord[] = [];
+  const withToolCalls = (content: string): ChatAgentStreamEvent =>
+    toolCalls.length > 0 ? { type: "done", content, toolCalls } : { type: "done", content };
+
+  const content = yield* streamToolLoop(input, dependencies, toolCalls);
+  if (content) {
+    yield withToolCalls(content);
+    return;
+  }
+
+  const events = streamChatReplyWithFallback({
+    systemPrompt: withToolNotes(await input.fallbackSystemPrompt(), toolCalls),
+    messages: toPlainMessages(input.messages),
+    maxTokens: input.maxTokens,
+    temperature: input.temperature,
+  });
+  for await (const event of events) {
+    yield event.type === "done" ? withToolCalls(event.content) : event;
+  }
+}
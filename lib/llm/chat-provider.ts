@@ -1,8 +1,14 @@
 import Anthropic from "@anthropic-ai/sdk";
 
+import { getCircuitBreakerManager, type CircuitBreakerManager } from "./circuit-breaker";
 import { getTrimmedEnv, readGLMProviderConfig } from "./env";
 import { GLMProvider } from "./providers/glm";
+import { recordOrReplay, recordOrReplayStream } from "./replay";
+import { retryWithBackoff } from "./retry";
+import { continueTextStream, openTextStream, type OpenedTextStream } from "./streaming";
+import { reportTokenUsage } from "./usage-meter";
 import type { TextGenerationProvider } from "./providers/base";
+import type { LLMProviderName, RetryOptions, TextStreamEvent } from "./types";
 
 export type ChatProviderName = "glm" | "anthropic";
 export type ChatFallbackReason =
@@ -16,14 +22,25 @@ export interface ChatMessage {
   content: string;
 }
 
+interface AnthropicChatRequest {
+  model: string;
+  max_tokens: number;
+  system: string;
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+}
+
 interface AnthropicChatClient {
   messages: {
-    create(input: {
-      model: string;
-      max_tokens: number;
-      system: string;
-      messages: Array<{ role: "user" | "assistant"; content: string }>;
-    }): Promise<{ content: Array<{ type: string; text?: string }> }>;
+    create(input: AnthropicChatRequest): Promise<{
+      content: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens: number; output_tokens: number };
+    }>;
+  };
+}
+
+interface AnthropicStreamingChatClient {
+  messages: {
+    stream(input: AnthropicChatRequest): AsyncIterable<Anthropic.MessageStreamEvent>;
   };
 }
 
@@ -45,6 +62,22 @@ interface ChatProviderDependencies {
   logger?: Pick<Console, "error">;
 }
 
+/**
+ * Streamed chat reply: one `start` naming the provider that answered, its
+ * deltas, then `done` with the full trimmed reply.
+ */
+export type ChatStreamEvent =
+  | ({ type: "start" } & Omit<ChatProviderResult, "content">)
+  | { type: "delta"; content: string }
+  | { type: "done"; content: string };
+
+interface ChatStreamDependencies extends Omit<ChatProviderDependencies, "glm" | "anthropic"> {
+  glm?: Pick<TextGenerationProvider, "isAvailable" | "streamText">;
+  anthropic?: AnthropicStreamingChatClient;
+  circuitBreakers?: Pick<CircuitBreakerManager, "isAvailable" | "recordSuccess" | "recordFailure">;
+  retry?: RetryOptions;
+}
+
 export const DEFAULT_ANTHROPIC_CHAT_MODEL = "claude-sonnet-4-20250514";
 
 export function getAnthropicChatModel(): string {
@@ -63,7 +96,7 @@ export function buildChatTranscript(messages: ChatMessage[]): string {
     .join("\n\n");
 }
 
-function getAnthropicClient(): AnthropicChatClient {
+function getAnthropicClient(): Anthropic {
   const apiKey = getTrimmedEnv("ANTHROPIC_API_KEY");
   if (!apiKey) {
     throw new Error("Anthropic API key is not configured");
@@ -72,6 +105,14 @@ function getAnthropicClient(): AnthropicChatClient {
   return new Anthropic({ apiKey });
 }
 
+/**
+ * The Anthropic fallback calls the SDK directly rather than through a
+ * provider, so it reports its tokens to the usage meter itself
+ */
+function reportAnthropicUsage(inputTokens: number, outputTokens: number): void {
+  reportTokenUsage("claude", { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens });
+}
+
 function getAnthropicText(response: {
   content: Array<{ type: string; text?: string }>;
 }): string {
@@ -138,21 +179,22 @@ export async function generateChatReplyWithFallback(
     fallbackReason = "glm_unavailable";
   }
 
-  const anthropicMessages = input.messages
-    .filter((message) => message.role === "user" || message.role === "assistant")
-    .map((message) => ({
-      role: message.role as "user" | "assistant",
-      content: message.content,
-    }));
+  const anthropicMessages = toAnthropicMessages(input.messages);
 
-  const client = dependencies.anthropic ?? getAnthropicClient();
+  const client: AnthropicChatClient = dependencies.anthropic ?? getAnthropicClient();
   const fallbackModel = dependencies.anthropicModel ?? getAnthropicChatModel();
-  const response = await client.messages.create({
+  const request = {
     model: fallbackModel,
     max_tokens: maxTokens,
     system: input.systemPrompt,
     messages: anthropicMessages,
-  });
+  };
+  const response = await recordOrReplay("claude", "messages.create", request, () =>
+    client.messages.create(request)
+  );
+  if (response.usage) {
+    reportAnthropicUsage(response.usage.input_tokens, response.usage.output_tokens);
+  }
 
   const reply = getAnthropicText(response);
   if (!reply) {
@@ -170,3 +212,152 @@ export async function generateChatReplyWithFallback(
     primaryConfigured,
   };
 }
+
+function toAnthropicMessages(messages: ChatMessage[]): AnthropicChatRequest["messages"] {
+  return messages
+    .filter((message) => message.role === "user" || message.role === "assistant")
+    .map((message) => ({
+      role: message.role as "user" | "assistant",
+      content: message.content,
+    }));
+}
+
+async function* anthropicTextStream(
+  events: AsyncIterable<Anthropic.MessageStreamEvent>
+): AsyncGenerator<TextStreamEvent> {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for await (const event of events) {
+    // Recorded and test streams may leave usage out
+    if (event.type === "message_start") {
+      inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+    } else if (event.type === "message_delta") {
+      outputTokens = event.usage?.output_tokens ?? outputTokens;
+    } else if (event.type === "content_block_delta" && event.delta.type === "text_delta" && event.delta.text) {
+      yield { type: "delta", content: event.delta.text };
+    }
+  }
+  reportAnthropicUsage(inputTokens, outputTokens);
+}
+
+async function* relayChatStream(
+  opened: OpenedTextStream,
+  provider: LLMProviderName,
+  circuitBreakers: NonNullable<ChatStreamDependencies["circuitBreakers"]>
+): AsyncGenerator<ChatStreamEvent> {
+  let content = "";
+  try {
+    for await (const delta of continueTextStream(opened)) {
+      content += delta;
+      yield { type: "delta", content: delta };
+    }
+  } catch (error) {
+    // Tokens already reached the client, so a mid-stream failure is final.
+    circuitBreakers.recordFailure(provider);
+    throw error;
+  }
+  circuitBreakers.recordSuccess(provider);
+  yield { type: "done", content: content.trim() };
+}
+
+/**
+ * Streaming counterpart of `generateChatReplyWithFallback`. GLM is retried
+ * and Anthropic takes over only until the first token is out; after that an
+ * error ends the stream.
+ */
+export async function* streamChatReplyWithFallback(
+  input: {
+    systemPrompt: string;
+    messages: ChatMessage[];
+    maxTokens?: number;
+    temperature?: number;
+  },
+  dependencies: ChatStreamDependencies = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const glm = dependencies.glm ?? new GLMProvider();
+  const circuitBreakers = dependencies.circuitBreakers ?? getCircuitBreakerManager();
+  const retryOptions: RetryOptions = { maxRetries: 1, ...dependencies.retry };
+  const primaryModel = readGLMProviderConfig().model;
+  const maxTokens = input.maxTokens ?? 2048;
+  const temperature = input.temperature ?? 0.7;
+  const primaryConfigured = glm.isAvailable();
+  let fallbackReason: ChatFallbackReason = null;
+
+  if (primaryConfigured && circuitBreakers.isAvailable("glm")) {
+    let opened: OpenedTextStream | null = null;
+    try {
+      opened = await retryWithBackoff(
+        () =>
+          openTextStream(
+            glm.streamText({
+              systemPrompt: input.systemPrompt,
+              userPrompt: buildChatTranscript(input.messages),
+              maxTokens,
+              temperature,
+            })
+          ),
+        retryOptions
+      );
+      fallbackReason = opened ? null : "glm_empty_response";
+    } catch (glmError) {
+      fallbackReason = "glm_error";
+      circuitBreakers.recordFailure("glm");
+      (dependencies.logger ?? console).error(
+        "[CHAT] GLM primary failed before streaming; falling back to Anthropic:",
+        glmError
+      );
+    }
+
+    if (opened) {
+      yield {
+        type: "start",
+        provider: "glm",
+        model: primaryModel,
+        fallbackUsed: false,
+        fallbackReason: null,
+        primaryProvider: "glm",
+        primaryModel,
+        primaryConfigured,
+      };
+      yield* relayChatStream(opened, "glm", circuitBreakers);
+      return;
+    }
+  } else {
+    fallbackReason = "glm_unavailable";
+  }
+
+  const client = dependencies.anthropic ?? getAnthropicClient();
+  const fallbackModel = dependencies.anthropicModel ?? getAnthropicChatModel();
+  const request: AnthropicChatRequest = {
+    model: fallbackModel,
+    max_tokens: maxTokens,
+    system: input.systemPrompt,
+    messages: toAnthropicMessages(input.messages),
+  };
+  const opened = await retryWithBackoff(
+    () =>
+      openTextStream(
+        anthropicTextStream(
+          recordOrReplayStream("claude", "messages.stream", request, () =>
+            Promise.resolve(client.messages.stream(request))
+          )
+        )
+      ),
+    retryOptions
+  );
+  if (!opened) {
+    throw new Error("Anthropic returned an empty chat response");
+  }
+
+  yield {
+    type: "start",
+    provider: "anthropic",
+    model: fallbackModel,
+    fallbackUsed: fallbackReason !== "glm_unavailable",
+    fallbackReason,
+    primaryProvider: "glm",
+    primaryModel,
+    primaryConfigured,
+  };
+  yield* relayChatStream(opened, "claude", circuitBreakers);
+}
@@ -184,8 +184,8 @@ export class CircuitBreaker {
 export class CircuitBreakerManager {
   private breakers: Map<LLMProviderName, CircuitBreaker> = new Map();
 
-  constructor(config: CircuitBreakerConfig = circuitBreakerConfig) {
-    // Initialize breakers for all providers
+  constructor(private readonly config: CircuitBreakerConfig = circuitBreakerConfig) {
+    // Initialize breakers for the built-in providers
     const providers: LLMProviderName[] = ['glm', 'openai', 'gemini', 'claude'];
     for (const provider of providers) {
       this.breakers.set(provider, new CircuitBreaker(provider, config));
@@ -193,12 +193,14 @@ export class CircuitBreakerManager {
   }
 
   /**
-   * Get the circuit breaker for a provider
+   * Get the circuit breaker for a provider, creating one for registered
+   * providers seen for the first time
    */
   get(provider: LLMProviderName): CircuitBreaker {
-    const breaker = this.breakers.get(provider);
+    let breaker = this.breakers.get(provider);
     if (!breaker) {
-      throw new Error(`No circuit breaker for provider: ${provider}`);
+      breaker = new CircuitBreaker(provider, this.config);
+      this.breakers.set(provider, breaker);
     }
     return breaker;
   }
@@ -94,34 +94,56 @@ export const providerConfig = {
 
 export interface TierLLMConfig {
   providers: LLMProviderName[];
+  /** Generators tried in order when multi-LLM orchestration is off */
+  singleLLMProviders: LLMProviderName[];
   claudeSupervision: 'none' | 'basic' | 'full';
   locationValidation: boolean;
   maxRetries: number;
   fallbackRoutes: FallbackRoute[];
   qualityScoreTarget: number | null;
+  /** Estimated monthly spend (USD) after which the user is routed to `cost_ceiling`; null for no ceiling */
+  monthlyCostCeilingUsd: number | null;
+}
+
+/**
+ * Read a USD ceiling from env; zero or a negative value disables it
+ */
+function costCeilingFromEnv(name: string, fallback: number): number | null {
+  const value = parseFloat(process.env[name] || String(fallback));
+  if (Number.isNaN(value)) return fallback;
+  return value > 0 ? value : null;
 }
 
 export const tierLLMConfigs: Record<UserTier, TierLLMConfig> = {
   free: {
     providers: ['glm', 'openai'],
+    singleLLMProviders: ['glm', 'openai'],
     claudeSupervision: 'none',
     locationValidation: false,
     maxRetries: 1,
     fallbackRoutes: ['emergency'],
     qualityScoreTarget: null,
+    get monthlyCostCeilingUsd() {
+      return costCeilingFromEnv('LLM_COST_CEILING_FREE_USD', 0.5);
+    },
   },
 
   pro: {
     providers: ['glm', 'openai', 'gemini'],
+    singleLLMProviders: ['glm', 'openai'],
     claudeSupervision: 'basic',
     locationValidation: true,
     maxRetries: 2,
     fallbackRoutes: ['gemini_fallback', 'claude_fallback', 'emergency'],
     qualityScoreTarget: 7,
+    get monthlyCostCeilingUsd() {
+      return costCeilingFromEnv('LLM_COST_CEILING_PRO_USD', 5);
+    },
   },
 
   premium: {
     providers: ['glm', 'openai', 'gemini', 'claude'],
+    singleLLMProviders: ['glm', 'openai'],
     claudeSupervision: 'full',
     locationValidation: true,
     maxRetries: 3,
@@ -132,6 +154,9 @@ export const tierLLMConfigs: Record<UserTier, TierLLMConfig> = {
       'emergency',
     ],
     qualityScoreTarget: 9,
+    get monthlyCostCeilingUsd() {
+      return costCeilingFromEnv('LLM_COST_CEILING_PREMIUM_USD', 20);
+    },
   },
 };
 
@@ -179,6 +204,14 @@ export const fallbackRoutes: Record<FallbackRoute, FallbackConfig> = {
     reducedQuality: true,
     userNotification: 'Some features temporarily unavailable',
   },
+
+  cost_ceiling: {
+    route: 'cost_ceiling',
+    providers: ['glm', 'openai'], // Cheapest generator first, no validation or supervision
+    skipValidation: true,
+    reducedQuality: true,
+    userNotification: 'Using the standard planner for the rest of this month',
+  },
 };
 
 // ============================================================================
@@ -240,6 +273,38 @@ export const cacheConfig = {
   keyPrefix: 'llm:',
 };
 
+/**
+ * Near-duplicate itinerary requests for the same city, days and tier are
+ * matched by embedding similarity: at or above `serveThreshold` the cached
+ * itinerary is served as-is, at or above `adaptThreshold` it is adapted to
+ * the new request's interests.
+ */
+export const semanticCacheConfig = {
+  get enabled(): boolean {
+    return process.env.LLM_SEMANTIC_CACHE !== 'false';
+  },
+
+  get serveThreshold(): number {
+    return parseFloat(process.env.LLM_SEMANTIC_CACHE_SERVE_THRESHOLD || '0.97');
+  },
+
+  get adaptThreshold(): number {
+    return parseFloat(process.env.LLM_SEMANTIC_CACHE_ADAPT_THRESHOLD || '0.9');
+  },
+
+  ttlSeconds: parseInt(process.env.LLM_SEMANTIC_CACHE_TTL || '86400', 10),
+
+  /**
+   * Cached requests kept per city, days and tier; the oldest are dropped first
+   */
+  maxEntriesPerBucket: 50,
+
+  /**
+   * Activities regenerated when adapting an itinerary to new interests
+   */
+  maxAdaptedActivities: 3,
+};
+
 // ============================================================================
 // Metrics Configuration
 // ============================================================================
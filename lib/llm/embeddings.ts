@@ -0,0 +1,103 @@
+/**
+ * Text Embeddings
+ *
+ * Dense vectors for similarity lookups. OpenAI embeddings are used when an
+ * OpenAI key is configured; otherwise a local hashed bag-of-words embedding
+ * keeps similarity working (lexically) without a network call.
+ */
+
+import { OpenAI } from 'openai';
+import { recordOrReplay } from './replay';
+import { getTrimmedEnv } from './env';
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; vectors from different providers never compare */
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    private readonly model: string = getTrimmedEnv('OPENAI_EMBEDDING_MODEL') || DEFAULT_OPENAI_EMBEDDING_MODEL
+  ) {
+    this.client = new OpenAI({ apiKey });
+    this.name = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const request: OpenAI.EmbeddingCreateParams = { model: this.model, input: texts };
+    const response = await recordOrReplay('openai', 'embeddings.create', request, () =>
+      this.client.embeddings.create(request)
+    );
+    return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+const HASHED_DIMENSIONS = 256;
+
+function hashToken(token: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Signed feature hashing over word unigrams and bigrams, L2-normalised
+ */
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+  readonly name = `hashed:${HASHED_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(HASHED_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+      for (const feature of features) {
+        const hash = hashToken(feature);
+        vector[hash % HASHED_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+      }
+
+      const norm = Math.hypot(...vector);
+      return norm > 0 ? vector.map((value) => value / norm) : vector;
+    });
+  }
+}
+
+/**
+ * Cosine similarity; 0 for mismatched or empty vectors
+ */
+export function cosineSimilarity(left: number[], right: number[]): number {
+  if (left.length === 0 || left.length !== right.length) return 0;
+
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let i = 0; i < left.length; i++) {
+    dot += left[i] * right[i];
+    leftNorm += left[i] * left[i];
+    rightNorm += right[i] * right[i];
+  }
+  return leftNorm > 0 && rightNorm > 0 ? dot / Math.sqrt(leftNorm * rightNorm) : 0;
+}
+
+let globalEmbeddingProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!globalEmbeddingProvider) {
+    const apiKey = getTrimmedEnv('OPENAI_API_KEY');
+    globalEmbeddingProvider = apiKey ? new OpenAIEmbeddingProvider(apiKey) : new HashedEmbeddingProvider();
+  }
+  return globalEmbeddingProvider;
+}
@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export const DEFAULT_GLM_MODEL = "glm-5.2";
 export const DEFAULT_GLM_BASE_URL = "https://api.z.ai/api/paas/v4/";
 
@@ -24,3 +26,52 @@ export function readGLMProviderConfig(): GLMProviderConfig {
     baseURL: getTrimmedEnv("GLM_BASE_URL") || getTrimmedEnv("ZAI_BASE_URL") || DEFAULT_GLM_BASE_URL,
   };
 }
+
+const providerTiers = ["free", "pro", "premium"] as const;
+const providerRoutes = ["primary", "gemini_fallback", "claude_fallback", "chatgpt_fallback", "emergency", "cost_ceiling"] as const;
+
+const OpenAICompatibleProviderEnvSchema = z.array(z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_-]{1,31}$/),
+  baseURL: z.url(),
+  model: z.string().min(1),
+  /** Name of the env var holding the key; omit for keyless local servers. */
+  apiKeyEnv: z.string().regex(/^[A-Z][A-Z0-9_]*$/).optional(),
+  tiers: z.array(z.enum(providerTiers)).default([]),
+  routes: z.array(z.enum(providerRoutes)).default([]),
+}).strict());
+
+export type OpenAICompatibleProviderEnvConfig = z.infer<typeof OpenAICompatibleProviderEnvSchema>[number] & {
+  apiKey: string | null;
+};
+
+/**
+ * Reads extra OpenAI-compatible providers (Ollama, vLLM, ...) from the
+ * `LLM_OPENAI_COMPATIBLE_PROVIDERS` JSON array. Invalid config is logged and
+ * ignored so a typo cannot take down the built-in providers.
+ */
+export function readOpenAICompatibleProviderConfigs(): OpenAICompatibleProviderEnvConfig[] {
+  const raw = getTrimmedEnv("LLM_OPENAI_COMPATIBLE_PROVIDERS");
+  if (!raw) return [];
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    console.error("[LLM] LLM_OPENAI_COMPATIBLE_PROVIDERS is not valid JSON; ignoring it.");
+    return [];
+  }
+
+  const parsed = OpenAICompatibleProviderEnvSchema.safeParse(value);
+  if (!parsed.success) {
+    console.error(
+      "[LLM] Ignoring invalid LLM_OPENAI_COMPATIBLE_PROVIDERS:",
+      parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+    );
+    return [];
+  }
+
+  return parsed.data.map((provider) => ({
+    ...provider,
+    apiKey: provider.apiKeyEnv ? getTrimmedEnv(provider.apiKeyEnv) : null,
+  }));
+}
@@ -21,11 +21,25 @@
 
 // Main orchestrator
 export { LLMOrchestrator, getOrchestrator } from './orchestrator';
+export type { LLMOrchestratorOptions } from './orchestrator';
+
+// Provider registry
+export {
+  LLMProviderRegistry,
+  createDefaultProviderRegistry,
+  canGenerateItineraries,
+  canValidateLocations,
+  canSupervise,
+} from './registry';
+export type { ProviderPlacement } from './registry';
+export { readOpenAICompatibleProviderConfigs } from './env';
+export type { OpenAICompatibleProviderEnvConfig } from './env';
 
 // Providers
 export {
   GLMProvider,
   OpenAIProvider,
+  OpenAICompatibleProvider,
   GeminiProvider,
   ClaudeProvider,
   LLMProviderError,
@@ -43,6 +57,7 @@ export {
   retryConfig,
   circuitBreakerConfig,
   cacheConfig,
+  semanticCacheConfig,
   getConfigForTier,
   getFallbackConfig,
   shouldUseProvider,
@@ -57,6 +72,32 @@ export {
   withCircuitBreaker,
 } from './circuit-breaker';
 export { LLMCache, getLLMCache, cacheKeys } from './cache';
+export {
+  SemanticItineraryCache,
+  adaptCachedItinerary,
+  getSemanticItineraryCache,
+} from './semantic-cache';
+export type { SemanticCacheHit, SemanticCacheOutcome, SemanticCacheStats } from './semantic-cache';
+export {
+  HashedEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  cosineSimilarity,
+  getEmbeddingProvider,
+} from './embeddings';
+export type { EmbeddingProvider } from './embeddings';
+
+// Record/replay
+export {
+  LLMCassette,
+  LLMReplayMissError,
+  ReplayedProviderError,
+  getLLMCassette,
+  getLLMReplayMode,
+  llmRequestHash,
+  recordOrReplay,
+  recordOrReplayStream,
+} from './replay';
+export type { LLMFixture, LLMReplayMode } from './replay';
 
 // Metrics
 export {
@@ -64,12 +105,20 @@ export {
   getMetricsCollector,
   estimateCost,
   estimateOrchestrationCost,
+  estimateProviderCost,
 } from './metrics';
 export type { ProviderMetrics, OrchestratorMetrics } from './metrics';
 
+// Per-user spend
+export { meterTokenUsage, reportTokenUsage } from './usage-meter';
+export type { TokenUsageByProvider } from './usage-meter';
+export { SupabaseLLMSpendLedger, getLLMSpendLedger, spendMonthStart } from './spend-ledger';
+export type { LLMSpendLedger, LLMSpendRecord, LLMSpender } from './spend-ledger';
+
 // Types
 export type {
   // Core types
+  BuiltInLLMProviderName,
   LLMProviderName,
   LLMProviderStatus,
   TextGenerationOptions,
@@ -77,11 +126,21 @@ export type {
   TokenUsage,
   JSONGenerationOptions,
 
+  // Tool calling types
+  ToolDefinition,
+  ToolCall,
+  ToolConversationMessage,
+  ToolGenerationOptions,
+  ToolGenerationResult,
+  ToolStreamEvent,
+
   // Itinerary types
   ItineraryParams,
   Activity,
   DailyPlan,
   GeneratedItinerary,
+  ActivityRepairTarget,
+  ActivityRepairRequest,
 
   // Orchestration types
   UserTier,
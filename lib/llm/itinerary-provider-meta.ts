@@ -21,11 +21,8 @@ function getProviderModel(provider: LLMProviderName | null): string | null {
 function getPrimaryStructureProvider(
   providersUsed: LLMProviderName[],
 ): LLMProviderName | null {
-  return (
-    providersUsed.find((provider) =>
-      provider === "glm" || provider === "openai" || provider === "gemini"
-    ) || null
-  );
+  // Claude only supervises; every other provider, built-in or registered, can generate.
+  return providersUsed.find((provider) => provider !== "claude") || null;
 }
 
 export function buildItineraryProviderMeta(result: OrchestrationResult) {
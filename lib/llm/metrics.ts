@@ -10,6 +10,7 @@
  */
 
 import type {
+  BuiltInLLMProviderName,
   LLMProviderName,
   OrchestrationMetrics,
   TokenUsage,
@@ -66,25 +67,29 @@ interface MetricEntry {
 // Cost Configuration
 // ============================================================================
 
-const COST_PER_1K_TOKENS: Record<LLMProviderName, { input: number; output: number }> = {
+// Registered providers without an entry (e.g. self-hosted models) are costed at zero.
+const COST_PER_1K_TOKENS: Record<BuiltInLLMProviderName, { input: number; output: number }> = {
   glm: { input: 0.0002, output: 0.001 },
   openai: { input: 0.0025, output: 0.01 },
   gemini: { input: 0.000075, output: 0.0003 },
   claude: { input: 0.003, output: 0.015 },
 };
 
+function costPer1kTokens(provider: LLMProviderName): { input: number; output: number } {
+  return COST_PER_1K_TOKENS[provider as BuiltInLLMProviderName] ?? { input: 0, output: 0 };
+}
+
+function emptyProviderLatencies(): Record<LLMProviderName, number[]> {
+  return { glm: [], openai: [], gemini: [], claude: [] };
+}
+
 // ============================================================================
 // Metrics Collector
 // ============================================================================
 
 export class MetricsCollector {
   private entries: MetricEntry[] = [];
-  private providerLatencies: Record<LLMProviderName, number[]> = {
-    glm: [],
-    openai: [],
-    gemini: [],
-    claude: [],
-  };
+  private providerLatencies: Record<LLMProviderName, number[]> = emptyProviderLatencies();
   private maxEntries: number;
   private windowMs: number;
 
@@ -119,10 +124,11 @@ export class MetricsCollector {
     // Record per-provider latencies (approximated from total)
     const perProviderLatency = metrics.totalLatencyMs / metrics.providersUsed.length;
     for (const provider of metrics.providersUsed) {
-      this.providerLatencies[provider].push(perProviderLatency);
+      const latencies = this.latenciesFor(provider);
+      latencies.push(perProviderLatency);
       // Keep only recent entries
-      if (this.providerLatencies[provider].length > this.maxEntries) {
-        this.providerLatencies[provider].shift();
+      if (latencies.length > this.maxEntries) {
+        latencies.shift();
       }
     }
 
@@ -137,13 +143,22 @@ export class MetricsCollector {
     provider: LLMProviderName,
     latencyMs: number
   ): void {
-    this.providerLatencies[provider].push(latencyMs);
+    const latencies = this.latenciesFor(provider);
+    latencies.push(latencyMs);
 
-    if (this.providerLatencies[provider].length > this.maxEntries) {
-      this.providerLatencies[provider].shift();
+    if (latencies.length > this.maxEntries) {
+      latencies.shift();
     }
   }
 
+  /**
+   * Latency samples for a provider, started on first use for registered providers
+   */
+  private latenciesFor(provider: LLMProviderName): number[] {
+    this.providerLatencies[provider] ??= [];
+    return this.providerLatencies[provider];
+  }
+
   /**
    * Get aggregated metrics
    */
@@ -186,7 +201,7 @@ export class MetricsCollector {
 
     // Provider metrics
     const providerMetrics: Record<LLMProviderName, ProviderMetrics> = {} as Record<LLMProviderName, ProviderMetrics>;
-    for (const provider of ['glm', 'openai', 'gemini', 'claude'] as LLMProviderName[]) {
+    for (const provider of Object.keys(this.providerLatencies)) {
       providerMetrics[provider] = this.calculateProviderMetrics(provider, recentEntries);
     }
 
@@ -229,7 +244,7 @@ export class MetricsCollector {
     entries: MetricEntry[]
   ): ProviderMetrics {
     const providerEntries = entries.filter(e => e.providers.includes(provider));
-    const latencies = this.providerLatencies[provider];
+    const latencies = this.providerLatencies[provider] ?? [];
 
     const sortedLatencies = [...latencies].sort((a, b) => a - b);
     const totalLatency = sortedLatencies.reduce((a, b) => a + b, 0);
@@ -251,7 +266,7 @@ export class MetricsCollector {
     }
 
     // Estimate cost
-    const costs = COST_PER_1K_TOKENS[provider];
+    const costs = costPer1kTokens(provider);
     const estimatedCost =
       (totalTokens.inputTokens / 1000) * costs.input +
       (totalTokens.outputTokens / 1000) * costs.output;
@@ -309,12 +324,7 @@ export class MetricsCollector {
    */
   clear(): void {
     this.entries = [];
-    this.providerLatencies = {
-      glm: [],
-      openai: [],
-      gemini: [],
-      claude: [],
-    };
+    this.providerLatencies = emptyProviderLatencies();
   }
 
   /**
@@ -349,17 +359,21 @@ export function estimateCost(
 
   for (const [provider, usage] of Object.entries(tokens)) {
     if (usage) {
-      const costs = COST_PER_1K_TOKENS[provider as LLMProviderName];
-      if (costs) {
-        total += (usage.inputTokens / 1000) * costs.input;
-        total += (usage.outputTokens / 1000) * costs.output;
-      }
+      total += estimateProviderCost(provider, usage);
     }
   }
 
   return Math.round(total * 1000) / 1000; // Round to 3 decimal places
 }
 
+/**
+ * Unrounded cost of one provider's tokens, for per-user accounting
+ */
+export function estimateProviderCost(provider: LLMProviderName, usage: TokenUsage): number {
+  const costs = costPer1kTokens(provider);
+  return (usage.inputTokens / 1000) * costs.input + (usage.outputTokens / 1000) * costs.output;
+}
+
 /**
  * Estimate cost for a typical orchestration by tier
  */
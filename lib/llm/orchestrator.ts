@@ -8,22 +8,41 @@
  * Handles tier-based routing, fallbacks, retries, and caching.
  */
 
-import { GLMProvider, OpenAIProvider, GeminiProvider, ClaudeProvider } from './providers';
+import type { BaseLLMProvider } from './providers';
 import { CircuitBreakerManager, getCircuitBreakerManager } from './circuit-breaker';
 import { LLMCache, getLLMCache, cacheKeys } from './cache';
 import { retryWithBackoff } from './retry';
 import { getMetricsCollector } from './metrics';
+import { getLLMSpendLedger, type LLMSpendLedger } from './spend-ledger';
+import { meterTokenUsage } from './usage-meter';
+import {
+  SemanticItineraryCache,
+  adaptCachedItinerary,
+  getSemanticItineraryCache,
+  type SemanticCacheOutcome,
+} from './semantic-cache';
 import {
   featureFlags,
   tierLLMConfigs,
   fallbackRoutes,
   retryConfig,
+  semanticCacheConfig,
 } from './config';
+import {
+  LLMProviderRegistry,
+  canGenerateItineraries,
+  canSupervise,
+  canValidateLocations,
+  createDefaultProviderRegistry,
+  type SupervisorCapableProvider,
+} from './registry';
 import type {
   OrchestrationRequest,
   OrchestrationResult,
   OrchestrationMetrics,
   ItineraryParams,
+  Activity,
+  ActivityRepairRequest,
   GeneratedItinerary,
   Phase1Results,
   FallbackRoute,
@@ -32,6 +51,7 @@ import type {
   LocationValidationResult,
   VerifiedSpot,
   ValidationReport,
+  SupervisionResult,
 } from './types';
 import { createSupabaseAdmin } from '../supabase';
 import {
@@ -40,24 +60,57 @@ import {
   shouldShowPublicSpot,
 } from '../spots/public-quality';
 
+export interface LLMOrchestratorOptions {
+  registry?: LLMProviderRegistry;
+  circuitBreakers?: CircuitBreakerManager;
+  cache?: LLMCache;
+  spendLedger?: LLMSpendLedger;
+  semanticCache?: SemanticItineraryCache;
+}
+
 /**
  * Main LLM Orchestrator Class
  */
 export class LLMOrchestrator {
-  private openai: OpenAIProvider;
-  private glm: GLMProvider;
-  private gemini: GeminiProvider;
-  private claude: ClaudeProvider;
+  private registry: LLMProviderRegistry;
   private circuitBreakers: CircuitBreakerManager;
   private cache: LLMCache;
+  private spendLedger: LLMSpendLedger;
+  private semanticCache: SemanticItineraryCache;
+
+  constructor(options: LLMOrchestratorOptions = {}) {
+    this.registry = options.registry ?? createDefaultProviderRegistry();
+    this.circuitBreakers = options.circuitBreakers ?? getCircuitBreakerManager();
+    this.cache = options.cache ?? getLLMCache();
+    this.spendLedger = options.spendLedger ?? getLLMSpendLedger();
+    this.semanticCache =
+      options.semanticCache ??
+      (options.cache ? new SemanticItineraryCache(options.cache) : getSemanticItineraryCache());
+  }
 
-  constructor() {
-    this.openai = new OpenAIProvider();
-    this.glm = new GLMProvider();
-    this.gemini = new GeminiProvider();
-    this.claude = new ClaudeProvider();
-    this.circuitBreakers = getCircuitBreakerManager();
-    this.cache = getLLMCache();
+  /**
+   * A registered provider that is configured and not tripped
+   */
+  private isUsable(name: LLMProviderName): boolean {
+    const provider = this.registry.get(name);
+    return Boolean(provider?.isAvailable()) && this.circuitBreakers.isAvailable(name);
+  }
+
+  /**
+   * First registered provider in `names` that passes `capable`
+   */
+  private firstProvider<T extends BaseLLMProvider>(
+    names: LLMProviderName[],
+    capable: (provider: BaseLLMProvider) => provider is T,
+    usable: (name: LLMProviderName) => boolean
+  ): T | null {
+    for (const name of names) {
+      const provider = this.registry.get(name);
+      if (provider && capable(provider) && usable(name)) {
+        return provider;
+      }
+    }
+    return null;
   }
 
   /**
@@ -65,13 +118,168 @@ export class LLMOrchestrator {
    */
   async generateItinerary(request: OrchestrationRequest): Promise<OrchestrationResult> {
     const startTime = Date.now();
+    const tokenUsage = {};
     const metrics: OrchestrationMetrics = {
       totalLatencyMs: 0,
       providersUsed: [],
       cacheHits: 0,
       retryCount: 0,
+      tokenUsage,
     };
 
+    if (await this.isOverCostCeiling(request)) {
+      metrics.costCeilingReached = true;
+    }
+
+    const result = await meterTokenUsage(tokenUsage, async () =>
+      (await this.fromSemanticCache(request, metrics, startTime)) ??
+      this.orchestrate(request, metrics, startTime)
+    );
+
+    if (result.success && result.data && !metrics.semanticCache && isCacheableRoute(result.fallbackUsed)) {
+      await this.semanticCache.store(request.params, request.tier, result.data);
+    }
+
+    await this.spendLedger.record({
+      userId: request.userId,
+      requestId: request.requestId,
+      requestType: request.type,
+      tier: request.tier,
+      tokenUsage,
+    });
+
+    return result;
+  }
+
+  /**
+   * Whether the user's estimated spend this month has reached their tier's ceiling
+   */
+  private async isOverCostCeiling(request: Pick<OrchestrationRequest, 'tier' | 'userId'>): Promise<boolean> {
+    const ceiling = tierLLMConfigs[request.tier].monthlyCostCeilingUsd;
+    if (ceiling === null) {
+      return false;
+    }
+    return (await this.spendLedger.monthlySpendUsd(request.userId)) >= ceiling;
+  }
+
+  /**
+   * Complete activities that failed validation, keeping the place each draft
+   * named. Entries no generator could repair come back as null.
+   */
+  async repairActivities(request: ActivityRepairRequest): Promise<Array<Activity | null>> {
+    const tokenUsage = {};
+    const providers = (await this.isOverCostCeiling(request))
+      ? this.registry.routeProviders('cost_ceiling')
+      : this.registry.singleLLMProviders(request.tier);
+    const generator = this.firstProvider(providers, canGenerateItineraries, (name) => this.isUsable(name));
+
+    const repaired = await meterTokenUsage(tokenUsage, async () => {
+      const activities: Array<Activity | null> = [];
+      for (const target of request.activities) {
+        if (!generator) {
+          activities.push(null);
+          continue;
+        }
+
+        const place = target.name
+          ? `Keep this exact place: ${target.name}${target.address ? ` (${target.address})` : ''}.`
+          : `Choose a real place that fits the ${target.timeSlot} slot.`;
+        try {
+          activities.push(
+            await generator.generateSingleActivity({
+              city: request.city,
+              dayTheme: target.dayTheme,
+              timeSlot: target.timeSlot,
+              requirements: `${place} Fix these problems: ${target.problems}`,
+              excludeNames: [],
+            })
+          );
+          this.circuitBreakers.recordSuccess(generator.name);
+        } catch (error) {
+          this.circuitBreakers.recordFailure(generator.name);
+          console.error('[Orchestrator] Activity repair failed:', error);
+          activities.push(null);
+        }
+      }
+      return activities;
+    });
+
+    await this.spendLedger.record({
+      userId: request.userId,
+      requestId: request.requestId,
+      requestType: 'revision',
+      tier: request.tier,
+      tokenUsage,
+    });
+
+    return repaired;
+  }
+
+  /**
+   * Serve a cached itinerary for the same or a near-identical request,
+   * adapting it to new interests when the match is looser
+   */
+  private async fromSemanticCache(
+    request: OrchestrationRequest,
+    metrics: OrchestrationMetrics,
+    startTime: number
+  ): Promise<OrchestrationResult | null> {
+    const hit = await this.semanticCache.lookup(request.params, request.tier);
+    if (!hit) {
+      this.semanticCache.recordOutcome('miss');
+      return null;
+    }
+
+    let itinerary = hit.itinerary;
+    let outcome: SemanticCacheOutcome = 'exact';
+    if (hit.match === 'similar') {
+      outcome = hit.similarity >= semanticCacheConfig.serveThreshold ? 'served' : 'adapted';
+    }
+
+    if (outcome === 'adapted' && hit.missingInterests.length > 0) {
+      const adapter = this.firstProvider(
+        metrics.costCeilingReached
+          ? this.registry.routeProviders('cost_ceiling')
+          : this.registry.singleLLMProviders(request.tier),
+        canGenerateItineraries,
+        (name) => this.isUsable(name)
+      );
+
+      try {
+        if (!adapter) {
+          throw new Error('No generator available to adapt the cached itinerary');
+        }
+        itinerary = await adaptCachedItinerary(itinerary, request.params, hit.missingInterests, (activity) =>
+          adapter.generateSingleActivity(activity)
+        );
+        metrics.providersUsed.push(adapter.name);
+      } catch (error) {
+        console.error('[Orchestrator] Semantic cache adaptation failed:', error);
+        this.semanticCache.recordOutcome('adapt_failed');
+        return null;
+      }
+    }
+
+    this.semanticCache.recordOutcome(outcome);
+    metrics.cacheHits++;
+    metrics.semanticCache = { match: outcome, similarity: Math.round(hit.similarity * 1000) / 1000 };
+    metrics.totalLatencyMs = Date.now() - startTime;
+    getMetricsCollector().record(metrics, true, request.tier);
+
+    return {
+      success: true,
+      data: itinerary,
+      qualityScore: null,
+      validationReport: null,
+      metrics,
+    };
+  }
+
+  private async orchestrate(
+    request: OrchestrationRequest,
+    metrics: OrchestrationMetrics,
+    startTime: number
+  ): Promise<OrchestrationResult> {
     try {
       // Check if multi-LLM is enabled for this tier
       if (!featureFlags.isEnabledForTier(request.tier)) {
@@ -79,8 +287,8 @@ export class LLMOrchestrator {
         return this.executeSingleLLM(request, metrics, startTime);
       }
 
-      // Determine the best route based on provider availability
-      const route = this.determineRoute(request.tier);
+      // Determine the best route based on provider availability and spend
+      const route = metrics.costCeilingReached ? 'cost_ceiling' : this.determineRoute(request.tier);
       metrics.fallbackRoute = route !== 'primary' ? route : undefined;
 
       // Execute the orchestration
@@ -119,52 +327,19 @@ export class LLMOrchestrator {
    */
   private determineRoute(tier: UserTier): FallbackRoute {
     const tierConfig = tierLLMConfigs[tier];
+    const tierProviders = this.registry.tierProviders(tier);
+    const routeAvailable = (route: FallbackRoute) =>
+      this.registry
+        .routeProviders(route)
+        .every((name) => tierProviders.includes(name) && this.isUsable(name));
 
-    // Check which providers are available
-    const glmAvailable =
-      tierConfig.providers.includes('glm') &&
-      this.glm.isAvailable() &&
-      this.circuitBreakers.isAvailable('glm');
-
-    const openaiAvailable =
-      tierConfig.providers.includes('openai') &&
-      this.openai.isAvailable() &&
-      this.circuitBreakers.isAvailable('openai');
-
-    const geminiAvailable =
-      tierConfig.providers.includes('gemini') &&
-      this.gemini.isAvailable() &&
-      this.circuitBreakers.isAvailable('gemini');
-
-    const claudeAvailable =
-      tierConfig.providers.includes('claude') &&
-      this.claude.isAvailable() &&
-      this.circuitBreakers.isAvailable('claude');
-
-    // Determine best route
-    if (glmAvailable && geminiAvailable && claudeAvailable) {
+    if (routeAvailable('primary')) {
       return 'primary';
     }
 
     // Try fallback routes in order of preference
     for (const route of tierConfig.fallbackRoutes) {
-      const config = fallbackRoutes[route];
-      const allAvailable = config.providers.every((provider) => {
-        switch (provider) {
-          case 'glm':
-            return glmAvailable;
-          case 'openai':
-            return openaiAvailable;
-          case 'gemini':
-            return geminiAvailable;
-          case 'claude':
-            return claudeAvailable;
-          default:
-            return false;
-        }
-      });
-
-      if (allAvailable) {
+      if (routeAvailable(route)) {
         return route;
       }
     }
@@ -186,11 +361,12 @@ export class LLMOrchestrator {
   }> {
     const config = fallbackRoutes[route];
     const params = request.params;
+    const routeProviders = this.registry.routeProviders(route);
     const tierConfig = tierLLMConfigs[request.tier];
 
     // PHASE 1: Parallel execution
     const phase1Start = Date.now();
-    const phase1Results = await this.executePhase1(params, config.providers, metrics);
+    const phase1Results = await this.executePhase1(params, routeProviders, metrics);
     metrics.phase1LatencyMs = Date.now() - phase1Start;
 
     // If no supervision needed, return early
@@ -208,6 +384,7 @@ export class LLMOrchestrator {
       phase1Results,
       params,
       request.tier,
+      routeProviders,
       metrics
     );
     metrics.phase2LatencyMs = Date.now() - phase2Start;
@@ -226,54 +403,15 @@ export class LLMOrchestrator {
     const tasks: Promise<{ type: string; result: unknown }>[] = [];
     const retryOpts = retryConfig.forTier('pro'); // Use pro retry config for phase 1
 
-    // Task 1: Generate itinerary structure
-    if (providers.includes('glm') && this.glm.isAvailable()) {
-      tasks.push(
-        retryWithBackoff(
-          () => this.glm.generateItineraryStructure(params),
-          {
-            ...retryOpts,
-            onRetry: () => {
-              metrics.retryCount++;
-            },
-          }
-        )
-          .then((result) => {
-            metrics.providersUsed.push('glm');
-            this.circuitBreakers.recordSuccess('glm');
-            return { type: 'structure', result };
-          })
-          .catch((error) => {
-            this.circuitBreakers.recordFailure('glm');
-            throw error;
-          })
-      );
-    } else if (providers.includes('openai') && this.openai.isAvailable()) {
-      tasks.push(
-        retryWithBackoff(
-          () => this.openai.generateItineraryStructure(params),
-          {
-            ...retryOpts,
-            onRetry: () => {
-              metrics.retryCount++;
-            },
-          }
-        )
-          .then((result) => {
-            metrics.providersUsed.push('openai');
-            this.circuitBreakers.recordSuccess('openai');
-            return { type: 'structure', result };
-          })
-          .catch((error) => {
-            this.circuitBreakers.recordFailure('openai');
-            throw error;
-          })
-      );
-    } else if (providers.includes('gemini') && this.gemini.isAvailable()) {
-      // Fallback: Use Gemini for structure
+    // Task 1: Generate itinerary structure with the first generator on the route
+    const structureProvider = this.firstProvider(providers, canGenerateItineraries, (name) =>
+      Boolean(this.registry.get(name)?.isAvailable())
+    );
+    if (structureProvider) {
+      const name = structureProvider.name;
       tasks.push(
         retryWithBackoff(
-          () => this.gemini.generateItineraryStructure(params),
+          () => structureProvider.generateItineraryStructure(params),
           {
             ...retryOpts,
             onRetry: () => {
@@ -282,19 +420,22 @@ export class LLMOrchestrator {
           }
         )
           .then((result) => {
-            metrics.providersUsed.push('gemini');
-            this.circuitBreakers.recordSuccess('gemini');
+            metrics.providersUsed.push(name);
+            this.circuitBreakers.recordSuccess(name);
             return { type: 'structure', result };
           })
           .catch((error) => {
-            this.circuitBreakers.recordFailure('gemini');
+            this.circuitBreakers.recordFailure(name);
             throw error;
           })
       );
     }
 
-    // Task 2: Location validation (if Gemini available)
-    if (providers.includes('gemini') && this.gemini.isAvailable()) {
+    // Task 2: Location validation (if a validator such as Gemini is on the route)
+    const locationProvider = this.firstProvider(providers, canValidateLocations, (name) =>
+      Boolean(this.registry.get(name)?.isAvailable())
+    );
+    if (locationProvider) {
       const cacheKey = cacheKeys.locationValidation(params.city);
 
       tasks.push(
@@ -305,7 +446,7 @@ export class LLMOrchestrator {
           }
 
           const result = await retryWithBackoff(
-            () => this.gemini.validateLocations(params.city),
+            () => locationProvider.validateLocations(params.city),
             { maxRetries: 1 }
           );
 
@@ -363,6 +504,7 @@ export class LLMOrchestrator {
     phase1Results: Phase1Results,
     params: ItineraryParams,
     tier: UserTier,
+    routeProviders: LLMProviderName[],
     metrics: OrchestrationMetrics
   ): Promise<{
     itinerary: GeneratedItinerary;
@@ -371,11 +513,12 @@ export class LLMOrchestrator {
   }> {
     const tierConfig = tierLLMConfigs[tier];
     const supervisionLevel = tierConfig.claudeSupervision === 'full' ? 'full' : 'basic';
+    const supervisor = this.firstProvider(routeProviders, canSupervise, (name) => this.isUsable(name));
 
-    // Check if Claude is available
-    if (!this.claude.isAvailable() || !this.circuitBreakers.isAvailable('claude')) {
+    // Check if a supervisor (Claude) is available
+    if (!supervisor) {
       // Skip supervision, return Phase 1 result
-      console.warn('[Orchestrator] Claude unavailable, skipping supervision');
+      console.warn('[Orchestrator] Supervisor unavailable, skipping supervision');
       return {
         itinerary: phase1Results.itinerary!,
         qualityScore: null,
@@ -386,7 +529,7 @@ export class LLMOrchestrator {
     try {
       const supervisionResult = await retryWithBackoff(
         () =>
-          this.claude.supervise({
+          supervisor.supervise({
             itinerary: phase1Results.itinerary!,
             locationData: phase1Results.locationData,
             verifiedSpots: phase1Results.verifiedSpots,
@@ -401,8 +544,8 @@ export class LLMOrchestrator {
         }
       );
 
-      metrics.providersUsed.push('claude');
-      this.circuitBreakers.recordSuccess('claude');
+      metrics.providersUsed.push(supervisor.name);
+      this.circuitBreakers.recordSuccess(supervisor.name);
 
       // Handle revision requests for premium tier
       if (
@@ -413,7 +556,9 @@ export class LLMOrchestrator {
         return this.handleRevisionCycle(
           phase1Results,
           supervisionResult,
+          supervisor,
           params,
+          tier,
           metrics
         );
       }
@@ -428,7 +573,7 @@ export class LLMOrchestrator {
         },
       };
     } catch (error) {
-      this.circuitBreakers.recordFailure('claude');
+      this.circuitBreakers.recordFailure(supervisor.name);
       console.error('[Orchestrator] Claude supervision failed:', error);
 
       // Return Phase 1 result without supervision
@@ -445,8 +590,10 @@ export class LLMOrchestrator {
    */
   private async handleRevisionCycle(
     phase1Results: Phase1Results,
-    supervisionResult: Awaited<ReturnType<ClaudeProvider['supervise']>>,
+    supervisionResult: SupervisionResult,
+    supervisor: SupervisorCapableProvider,
     params: ItineraryParams,
+    tier: UserTier,
     metrics: OrchestrationMetrics
   ): Promise<{
     itinerary: GeneratedItinerary;
@@ -454,12 +601,16 @@ export class LLMOrchestrator {
     validationReport: ValidationReport | null;
   }> {
     const revisedItinerary = phase1Results.itinerary!;
+    const revisionProvider = this.firstProvider(
+      this.registry.singleLLMProviders(tier),
+      canGenerateItineraries,
+      (name) => Boolean(this.registry.get(name)?.isAvailable())
+    );
 
     // Apply targeted revisions
     for (const suggestion of supervisionResult.suggestions) {
-      if (suggestion.suggestedAction === 'replace') {
+      if (suggestion.suggestedAction === 'replace' && revisionProvider) {
         try {
-          const revisionProvider = this.glm.isAvailable() ? this.glm : this.openai;
           const newActivity = await revisionProvider.generateSingleActivity({
             city: params.city,
             dayTheme: revisedItinerary.dailyPlans[suggestion.dayIndex].theme,
@@ -481,7 +632,7 @@ export class LLMOrchestrator {
 
     // Quick revalidation
     try {
-      const revalidation = await this.claude.supervise({
+      const revalidation = await supervisor.supervise({
         itinerary: revisedItinerary,
         locationData: phase1Results.locationData,
         verifiedSpots: phase1Results.verifiedSpots,
@@ -560,14 +711,14 @@ export class LLMOrchestrator {
     metrics: OrchestrationMetrics,
     startTime: number
   ): Promise<OrchestrationResult> {
-    const providers = [
-      { name: 'glm' as const, provider: this.glm },
-      { name: 'openai' as const, provider: this.openai },
-    ];
+    const providers = metrics.costCeilingReached
+      ? this.registry.routeProviders('cost_ceiling')
+      : this.registry.singleLLMProviders(request.tier);
     let lastError: unknown;
 
-    for (const { name, provider } of providers) {
-      if (!provider.isAvailable() || !this.circuitBreakers.isAvailable(name)) {
+    for (const [index, name] of providers.entries()) {
+      const provider = this.registry.get(name);
+      if (!provider || !canGenerateItineraries(provider) || !this.isUsable(name)) {
         continue;
       }
 
@@ -581,7 +732,7 @@ export class LLMOrchestrator {
           data: itinerary,
           qualityScore: null,
           validationReport: null,
-          fallbackUsed: name === 'openai' ? 'chatgpt_fallback' : undefined,
+          fallbackUsed: metrics.costCeilingReached ? 'cost_ceiling' : singleLLMFallback(name, index),
           metrics,
         };
       } catch (error) {
@@ -615,15 +766,20 @@ export class LLMOrchestrator {
     console.warn('[Orchestrator] Executing emergency fallback');
     metrics.fallbackRoute = 'emergency';
 
-    // Try each provider in order
-    const providers = [
-      { name: 'glm' as const, provider: this.glm },
-      { name: 'openai' as const, provider: this.openai },
-      { name: 'gemini' as const, provider: this.gemini },
+    // Try the emergency route first, then every other generator the tier allows
+    const names = [
+      ...new Set([
+        ...this.registry.routeProviders('emergency'),
+        ...this.registry.tierProviders(request.tier),
+      ]),
     ];
+    const providers = names.flatMap((name) => {
+      const provider = this.registry.get(name);
+      return provider && canGenerateItineraries(provider) ? [{ name, provider }] : [];
+    });
 
     for (const { name, provider } of providers) {
-      if (provider.isAvailable() && this.circuitBreakers.isAvailable(name)) {
+      if (this.isUsable(name)) {
         try {
           const itinerary = await provider.generateItineraryStructure(request.params);
           metrics.providersUsed.push(name);
@@ -667,12 +823,9 @@ export class LLMOrchestrator {
     cacheStats: { memorySize: number; redisAvailable: boolean };
   } {
     return {
-      providers: {
-        glm: this.glm.isAvailable(),
-        openai: this.openai.isAvailable(),
-        gemini: this.gemini.isAvailable(),
-        claude: this.claude.isAvailable(),
-      },
+      providers: Object.fromEntries(
+        this.registry.list().map((provider) => [provider.name, provider.isAvailable()])
+      ),
       circuitBreakers: Object.fromEntries(
         this.circuitBreakers.getAllStatus().map((s) => [s.name, s.state])
       ),
@@ -681,6 +834,22 @@ export class LLMOrchestrator {
   }
 }
 
+/**
+ * Only full-quality results are reused for later requests
+ */
+function isCacheableRoute(route: string | undefined): boolean {
+  return !route || fallbackRoutes[route as FallbackRoute]?.reducedQuality === false;
+}
+
+/**
+ * Single-LLM results report OpenAI as the ChatGPT fallback and any later
+ * generator as an emergency fallback.
+ */
+function singleLLMFallback(name: LLMProviderName, index: number): FallbackRoute | undefined {
+  if (index === 0) return undefined;
+  return name === 'openai' ? 'chatgpt_fallback' : 'emergency';
+}
+
 // Singleton instance
 let globalOrchestrator: LLMOrchestrator | null = null;
 
@@ -10,6 +10,11 @@ import type {
   LLMProviderStatus,
   TextGenerationOptions,
   TextGenerationResult,
+  TextStreamEvent,
+  TokenUsage,
+  ToolGenerationOptions,
+  ToolGenerationResult,
+  ToolStreamEvent,
   ItineraryParams,
   GeneratedItinerary,
   SingleActivityRequest,
@@ -18,6 +23,7 @@ import type {
   SupervisionOptions,
   SupervisionResult,
 } from '../types';
+import { reportTokenUsage } from '../usage-meter';
 
 /**
  * Base interface that all LLM providers must implement
@@ -57,6 +63,26 @@ export interface TextGenerationProvider extends BaseLLMProvider {
    * Generate JSON-structured output
    */
   generateJSON<T>(options: TextGenerationOptions): Promise<T>;
+
+  /**
+   * Generate text as a stream of deltas
+   */
+  streamText(options: TextGenerationOptions): AsyncIterable<TextStreamEvent>;
+}
+
+/**
+ * Provider capable of calling tools over a multi-step conversation
+ */
+export interface ToolCallingProvider extends TextGenerationProvider {
+  /**
+   * Run one model turn; the caller executes any returned tool calls
+   */
+  generateWithTools(options: ToolGenerationOptions): Promise<ToolGenerationResult>;
+
+  /**
+   * Stream one model turn; tool calls arrive with the final event
+   */
+  streamWithTools(options: ToolGenerationOptions): AsyncIterable<ToolStreamEvent>;
 }
 
 /**
@@ -163,6 +189,13 @@ export abstract class AbstractLLMProvider implements BaseLLMProvider {
     }
   }
 
+  /**
+   * Report the tokens a completed call used to the current usage meter
+   */
+  protected recordTokenUsage(usage: TokenUsage): void {
+    reportTokenUsage(this.name, usage);
+  }
+
   /**
    * Measure operation latency
    */
@@ -176,6 +209,39 @@ export abstract class AbstractLLMProvider implements BaseLLMProvider {
       latencyMs: Date.now() - start,
     };
   }
+
+  /**
+   * Turn an SDK chunk stream into text stream events, recording success once
+   * it completes and errors as they surface
+   */
+  protected async *streamDeltas<TChunk>(
+    chunks: AsyncIterable<TChunk>,
+    read: (chunk: TChunk) => { content?: string; usage?: Partial<TokenUsage> },
+    toError: (error: unknown) => Error
+  ): AsyncGenerator<TextStreamEvent> {
+    const start = Date.now();
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+    try {
+      for await (const chunk of chunks) {
+        const { content, usage: chunkUsage } = read(chunk);
+        if (chunkUsage) {
+          Object.assign(usage, chunkUsage);
+        }
+        if (content) {
+          yield { type: 'delta', content };
+        }
+      }
+    } catch (error: unknown) {
+      this.recordError();
+      throw toError(error);
+    }
+
+    this.recordSuccess();
+    usage.totalTokens ||= usage.inputTokens + usage.outputTokens;
+    this.recordTokenUsage(usage);
+    yield { type: 'done', usage, latencyMs: Date.now() - start };
+  }
 }
 
 /**
@@ -20,6 +20,7 @@ import {
 import type {
   TextGenerationOptions,
   TextGenerationResult,
+  TextStreamEvent,
   SupervisionOptions,
   SupervisionResult,
   LocationValidationResult,
@@ -33,6 +34,7 @@ import {
   CLAUDE_FACT_CHECK_PROMPT,
   CLAUDE_QUICK_VALIDATION_PROMPT,
 } from './prompts/claude';
+import { recordOrReplay, recordOrReplayStream } from '../replay';
 
 const CLAUDE_MODEL = process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514';
 
@@ -88,12 +90,15 @@ export class ClaudeProvider
 
     const { result, latencyMs } = await this.measureLatency(async () => {
       try {
-        const response = await this.client!.messages.create({
+        const request: Anthropic.MessageCreateParamsNonStreaming = {
           model: CLAUDE_MODEL,
           max_tokens: options.maxTokens ?? 4000,
           system: options.systemPrompt,
           messages: [{ role: 'user', content: options.userPrompt }],
-        });
+        };
+        const response = await recordOrReplay('claude', 'messages.create', request, () =>
+          this.client!.messages.create(request)
+        );
 
         this.recordSuccess();
         return response;
@@ -119,6 +124,7 @@ export class ClaudeProvider
       outputTokens: result.usage.output_tokens,
       totalTokens: result.usage.input_tokens + result.usage.output_tokens,
     };
+    this.recordTokenUsage(usage);
 
     return {
       content,
@@ -128,6 +134,46 @@ export class ClaudeProvider
     };
   }
 
+  streamText(options: TextGenerationOptions): AsyncIterable<TextStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError('claude');
+    }
+
+    const request: Anthropic.MessageCreateParamsStreaming = {
+      model: CLAUDE_MODEL,
+      max_tokens: options.maxTokens ?? 4000,
+      system: options.systemPrompt,
+      messages: [{ role: 'user', content: options.userPrompt }],
+      stream: true,
+    };
+
+    return this.streamDeltas(
+      recordOrReplayStream('claude', 'messages.stream', request, () =>
+        this.client!.messages.create(request)
+      ),
+      (event) => {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          return { content: event.delta.text };
+        }
+        if (event.type === 'message_start') {
+          return { usage: { inputTokens: event.message.usage.input_tokens } };
+        }
+        if (event.type === 'message_delta') {
+          return { usage: { outputTokens: event.usage.output_tokens } };
+        }
+        return {};
+      },
+      (error) =>
+        error instanceof Error && error.message?.includes('rate_limit')
+          ? new RateLimitError('claude')
+          : new LLMProviderError(
+              'claude',
+              'Failed to stream text',
+              error instanceof Error ? error : undefined
+            )
+    );
+  }
+
   async generateJSON<T>(options: TextGenerationOptions): Promise<T> {
     // Add JSON instruction to system prompt
     const jsonSystemPrompt = `${options.systemPrompt}
@@ -7,7 +7,11 @@
  * - Fallback text generation
  */
 
-import { GoogleGenAI } from '@google/genai';
+import {
+  GoogleGenAI,
+  type GenerateContentParameters,
+  type GenerateContentResponse,
+} from '@google/genai';
 import {
   AbstractLLMProvider,
   type ItineraryGenerationProvider,
@@ -21,6 +25,7 @@ import {
 import type {
   TextGenerationOptions,
   TextGenerationResult,
+  TextStreamEvent,
   ItineraryParams,
   GeneratedItinerary,
   SingleActivityRequest,
@@ -32,6 +37,7 @@ import {
   GEMINI_ITINERARY_PROMPT,
   GEMINI_LOCATION_VALIDATION_PROMPT,
 } from './prompts/gemini';
+import { recordOrReplay, recordOrReplayStream } from '../replay';
 
 // Support both environment variable names
 const API_KEY = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY;
@@ -85,7 +91,7 @@ export class GeminiProvider
 
     const { result, latencyMs } = await this.measureLatency(async () => {
       try {
-        const response = await this.client!.models.generateContent({
+        const request: GenerateContentParameters = {
           model: TEXT_MODEL,
           contents: [
             {
@@ -100,7 +106,12 @@ export class GeminiProvider
             maxOutputTokens: options.maxTokens ?? 3000,
             responseMimeType: options.responseFormat === 'json' ? 'application/json' : undefined,
           },
-        });
+        };
+        // Replayed responses are plain JSON, so read only data fields, not SDK getters.
+        const response: Pick<GenerateContentResponse, 'candidates' | 'usageMetadata'> =
+          await recordOrReplay('gemini', 'models.generateContent', request, () =>
+            this.client!.models.generateContent(request)
+          );
 
         this.recordSuccess();
         return response;
@@ -126,6 +137,7 @@ export class GeminiProvider
       outputTokens: result.usageMetadata?.candidatesTokenCount || 0,
       totalTokens: result.usageMetadata?.totalTokenCount || 0,
     };
+    this.recordTokenUsage(usage);
 
     return {
       content,
@@ -135,6 +147,52 @@ export class GeminiProvider
     };
   }
 
+  streamText(options: TextGenerationOptions): AsyncIterable<TextStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError('gemini');
+    }
+
+    const request: GenerateContentParameters = {
+      model: TEXT_MODEL,
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: options.systemPrompt + '\n\n' + options.userPrompt }],
+        },
+      ],
+      config: {
+        temperature: options.temperature ?? 0.8,
+        maxOutputTokens: options.maxTokens ?? 3000,
+      },
+    };
+    const chunks: AsyncIterable<Pick<GenerateContentResponse, 'candidates' | 'usageMetadata'>> =
+      recordOrReplayStream('gemini', 'models.generateContentStream', request, () =>
+        this.client!.models.generateContentStream(request)
+      );
+
+    return this.streamDeltas(
+      chunks,
+      (chunk) => ({
+        content: chunk.candidates?.[0]?.content?.parts?.[0]?.text,
+        usage: chunk.usageMetadata
+          ? {
+              inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+              outputTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+              totalTokens: chunk.usageMetadata.totalTokenCount || 0,
+            }
+          : undefined,
+      }),
+      (error) =>
+        error instanceof Error && error.message?.includes('429')
+          ? new RateLimitError('gemini')
+          : new LLMProviderError(
+              'gemini',
+              'Failed to stream text',
+              error instanceof Error ? error : undefined
+            )
+    );
+  }
+
   async generateJSON<T>(options: TextGenerationOptions): Promise<T> {
     const result = await this.generateText({
       ...options,
@@ -0,0 +1,454 @@
+/**
+ * OpenAI-compatible chat completions provider.
+ *
+ * Backs GLM (Z.AI) and any self-hosted endpoint that speaks the same API,
+ * such as Ollama or vLLM, under a registry name of its own.
+ */
+
+import { OpenAI } from 'openai';
+import {
+  AbstractLLMProvider,
+  type ItineraryGenerationProvider,
+  type ToolCallingProvider,
+  LLMProviderError,
+  ProviderNotAvailableError,
+  JSONParseError,
+  RateLimitError,
+} from './base';
+import type {
+  LLMProviderName,
+  TextGenerationOptions,
+  TextGenerationResult,
+  TextStreamEvent,
+  ToolConversationMessage,
+  ToolGenerationOptions,
+  ToolGenerationResult,
+  ToolStreamEvent,
+  ToolCall,
+  ItineraryParams,
+  GeneratedItinerary,
+  SingleActivityRequest,
+  Activity,
+  TokenUsage,
+} from '../types';
+import { OPENAI_ITINERARY_PROMPT, OPENAI_SINGLE_ACTIVITY_PROMPT } from './prompts/openai';
+import { recordOrReplay, recordOrReplayStream } from '../replay';
+
+export interface OpenAICompatibleProviderConfig {
+  name: LLMProviderName;
+  baseURL: string;
+  model: string;
+  /** Null leaves the provider unavailable unless `requiresApiKey` is false. */
+  apiKey: string | null;
+  /** Local servers usually accept any key; they get a placeholder instead. */
+  requiresApiKey?: boolean;
+  defaultHeaders?: Record<string, string>;
+}
+
+const KEYLESS_PLACEHOLDER_API_KEY = 'not-needed';
+
+function toOpenAIMessage(message: ToolConversationMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+export class OpenAICompatibleProvider
+  extends AbstractLLMProvider
+  implements ItineraryGenerationProvider, ToolCallingProvider
+{
+  readonly name: LLMProviderName;
+  readonly model: string;
+  private client: OpenAI | null = null;
+  private config: OpenAICompatibleProviderConfig;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    super();
+    this.name = config.name;
+    this.model = config.model;
+    this.config = config;
+    this.initializeClient();
+  }
+
+  private initializeClient(): void {
+    const apiKey = this.config.apiKey ||
+      (this.config.requiresApiKey === false ? KEYLESS_PLACEHOLDER_API_KEY : null);
+    if (apiKey) {
+      this.client = new OpenAI({
+        apiKey,
+        baseURL: this.config.baseURL,
+        ...(this.config.defaultHeaders ? { defaultHeaders: this.config.defaultHeaders } : {}),
+      });
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    try {
+      await this.generateText({
+        systemPrompt: 'You are a health check. Reply with ok.',
+        userPrompt: 'ok',
+        maxTokens: 8,
+        temperature: 0,
+      });
+      this.lastHealthCheck = new Date();
+      this.isHealthy = true;
+      return true;
+    } catch {
+      this.lastHealthCheck = new Date();
+      this.isHealthy = false;
+      return false;
+    }
+  }
+
+  async generateText(options: TextGenerationOptions): Promise<TextGenerationResult> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError(this.name);
+    }
+
+    const { result, latencyMs } = await this.measureLatency(async () => {
+      try {
+        const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+          model: this.config.model,
+          messages: [
+            { role: 'system', content: options.systemPrompt },
+            { role: 'user', content: options.userPrompt },
+          ],
+          temperature: options.temperature ?? 0.8,
+          max_tokens: options.maxTokens ?? 3000,
+          response_format:
+            options.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+        };
+        const completion = await recordOrReplay(this.name, 'chat.completions.create', request, () =>
+          this.client!.chat.completions.create(request)
+        );
+
+        this.recordSuccess();
+        return completion;
+      } catch (error: unknown) {
+        this.recordError();
+        if (error instanceof Error && error.message?.toLowerCase().includes('rate limit')) {
+          throw new RateLimitError(this.name);
+        }
+        throw new LLMProviderError(
+          this.name,
+          'Failed to generate text',
+          error instanceof Error ? error : undefined
+        );
+      }
+    });
+
+    const content = result.choices[0]?.message?.content || '';
+    const usage: TokenUsage = {
+      inputTokens: result.usage?.prompt_tokens || 0,
+      outputTokens: result.usage?.completion_tokens || 0,
+      totalTokens: result.usage?.total_tokens || 0,
+    };
+    this.recordTokenUsage(usage);
+
+    return {
+      content,
+      usage,
+      latencyMs,
+      provider: this.name,
+    };
+  }
+
+  async generateWithTools(options: ToolGenerationOptions): Promise<ToolGenerationResult> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError(this.name);
+    }
+
+    const { result, latencyMs } = await this.measureLatency(async () => {
+      try {
+        const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+          model: this.config.model,
+          messages: options.messages.map(toOpenAIMessage),
+          tools: options.tools.map((tool) => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+          tool_choice: options.toolChoice ?? 'auto',
+          temperature: options.temperature ?? 0.8,
+          max_tokens: options.maxTokens ?? 3000,
+        };
+        const completion = await recordOrReplay(this.name, 'chat.completions.create', request, () =>
+          this.client!.chat.completions.create(request)
+        );
+
+        this.recordSuccess();
+        return completion;
+      } catch (error: unknown) {
+        this.recordError();
+        if (error instanceof Error && error.message?.toLowerCase().includes('rate limit')) {
+          throw new RateLimitError(this.name);
+        }
+        throw new LLMProviderError(
+          this.name,
+          'Failed to generate with tools',
+          error instanceof Error ? error : undefined
+        );
+      }
+    });
+
+    const message = result.choices[0]?.message;
+    const usage: TokenUsage = {
+      inputTokens: result.usage?.prompt_tokens || 0,
+      outputTokens: result.usage?.completion_tokens || 0,
+      totalTokens: result.usage?.total_tokens || 0,
+    };
+    this.recordTokenUsage(usage);
+
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls ?? []).flatMap((call) =>
+        call.type === 'function'
+          ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }]
+          : []
+      ),
+      usage,
+      latencyMs,
+      provider: this.name,
+    };
+  }
+
+  async *streamWithTools(options: ToolGenerationOptions): AsyncGenerator<ToolStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError(this.name);
+    }
+
+    const request: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+      model: this.config.model,
+      messages: options.messages.map(toOpenAIMessage),
+      tools: options.tools.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      })),
+      tool_choice: options.toolChoice ?? 'auto',
+      temperature: options.temperature ?? 0.8,
+      max_tokens: options.maxTokens ?? 3000,
+      stream: true,
+    };
+
+    const start = Date.now();
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    // Tool calls arrive in fragments keyed by index; the id and name come first
+    const calls = new Map<number, ToolCall>();
+
+    try {
+      const chunks = recordOrReplayStream(this.name, 'chat.completions.stream', request, () =>
+        this.client!.chat.completions.create(request)
+      );
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta;
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = calls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+          call.id ||= fragment.id ?? '';
+          call.name ||= fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+          calls.set(fragment.index, call);
+        }
+        if (chunk.usage) {
+          usage.inputTokens = chunk.usage.prompt_tokens;
+          usage.outputTokens = chunk.usage.completion_tokens;
+          usage.totalTokens = chunk.usage.total_tokens;
+        }
+        if (delta?.content) {
+          yield { type: 'delta', content: delta.content };
+        }
+      }
+    } catch (error: unknown) {
+      this.recordError();
+      throw error instanceof Error && error.message?.toLowerCase().includes('rate limit')
+        ? new RateLimitError(this.name)
+        : new LLMProviderError(
+            this.name,
+            'Failed to stream with tools',
+            error instanceof Error ? error : undefined
+          );
+    }
+
+    this.recordSuccess();
+    this.recordTokenUsage(usage);
+    yield {
+      type: 'done',
+      toolCalls: [...calls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call),
+      usage,
+      latencyMs: Date.now() - start,
+    };
+  }
+
+  streamText(options: TextGenerationOptions): AsyncIterable<TextStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError(this.name);
+    }
+
+    // Usage chunks are opt-in and not every compatible server supports them, so usage may stay zero.
+    const request: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: options.systemPrompt },
+        { role: 'user', content: options.userPrompt },
+      ],
+      temperature: options.temperature ?? 0.8,
+      max_tokens: options.maxTokens ?? 3000,
+      stream: true,
+    };
+
+    return this.streamDeltas(
+      recordOrReplayStream(this.name, 'chat.completions.stream', request, () =>
+        this.client!.chat.completions.create(request)
+      ),
+      (chunk) => ({
+        content: chunk.choices[0]?.delta?.content ?? undefined,
+        usage: chunk.usage
+          ? {
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            }
+          : undefined,
+      }),
+      (error) =>
+        error instanceof Error && error.message?.toLowerCase().includes('rate limit')
+          ? new RateLimitError(this.name)
+          : new LLMProviderError(
+              this.name,
+              'Failed to stream text',
+              error instanceof Error ? error : undefined
+            )
+    );
+  }
+
+  async generateJSON<T>(options: TextGenerationOptions): Promise<T> {
+    const result = await this.generateText({
+      ...options,
+      responseFormat: 'json',
+    });
+
+    try {
+      return JSON.parse(result.content) as T;
+    } catch {
+      throw new JSONParseError(this.name, result.content);
+    }
+  }
+
+  async generateItineraryStructure(params: ItineraryParams): Promise<GeneratedItinerary> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError(this.name);
+    }
+
+    const itinerary = await this.generateJSON<GeneratedItinerary>({
+      systemPrompt: OPENAI_ITINERARY_PROMPT,
+      userPrompt: this.buildItineraryPrompt(params),
+      temperature: 0.7,
+      maxTokens: 3000,
+      responseFormat: 'json',
+    });
+
+    this.validateItineraryStructure(itinerary);
+    return itinerary;
+  }
+
+  async generateSingleActivity(request: SingleActivityRequest): Promise<Activity> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError(this.name);
+    }
+
+    const userPrompt = `
+Generate a single activity for ${request.city}:
+- Day theme: ${request.dayTheme}
+- Time slot: ${request.timeSlot}
+- Requirements: ${request.requirements}
+- Category preference: ${request.category || 'any'}
+- DO NOT use these names: ${request.excludeNames.join(', ')}
+
+Return a single activity object matching the activity structure.
+`;
+
+    return this.generateJSON<Activity>({
+      systemPrompt: OPENAI_SINGLE_ACTIVITY_PROMPT,
+      userPrompt,
+      temperature: 0.7,
+      maxTokens: 500,
+      responseFormat: 'json',
+    });
+  }
+
+  private buildItineraryPrompt(params: ItineraryParams): string {
+    const parts = [
+      `Create a ${params.days}-day itinerary for ${params.city} with these preferences:`,
+      `- Interests: ${params.interests?.join(', ') || 'general exploration'}`,
+      `- Budget: ${params.budget || 'moderate'}`,
+      `- Localness Level: ${params.localnessLevel || 3}/5 (5 = maximum local authenticity)`,
+      `- Pace: ${params.pace || 'moderate'}`,
+      `- Group Type: ${params.groupType || 'solo'}`,
+    ];
+
+    if (params.templatePrompt) {
+      parts.push(`\nIMPORTANT: Follow this template style:\n${params.templatePrompt}`);
+    }
+
+    parts.push('\nMake it authentic, specific, and full of real local-first places.');
+
+    return parts.join('\n');
+  }
+
+  private validateItineraryStructure(itinerary: GeneratedItinerary): void {
+    if (!itinerary.title || !itinerary.dailyPlans || !Array.isArray(itinerary.dailyPlans)) {
+      throw new LLMProviderError(
+        this.name,
+        'Invalid itinerary structure: missing title or dailyPlans',
+        undefined,
+        true
+      );
+    }
+
+    for (const day of itinerary.dailyPlans) {
+      if (!day.activities || !Array.isArray(day.activities) || day.activities.length === 0) {
+        throw new LLMProviderError(
+          this.name,
+          `Day ${day.day} has no activities`,
+          undefined,
+          true
+        );
+      }
+
+      for (const activity of day.activities) {
+        const invalidNames = ['Location', 'Breakfast', 'Lunch', 'Dinner', 'What to Order'];
+        if (!activity.name || invalidNames.includes(activity.name)) {
+          throw new LLMProviderError(
+            this.name,
+            `Invalid activity name: "${activity.name}"`,
+            undefined,
+            true
+          );
+        }
+      }
+    }
+  }
+}
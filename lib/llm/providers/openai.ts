@@ -17,6 +17,7 @@ import {
 import type {
   TextGenerationOptions,
   TextGenerationResult,
+  TextStreamEvent,
   ItineraryParams,
   GeneratedItinerary,
   SingleActivityRequest,
@@ -24,6 +25,7 @@ import type {
   TokenUsage,
 } from '../types';
 import { OPENAI_ITINERARY_PROMPT, OPENAI_SINGLE_ACTIVITY_PROMPT } from './prompts/openai';
+import { recordOrReplay, recordOrReplayStream } from '../replay';
 
 const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-2024-08-06';
 
@@ -75,7 +77,7 @@ export class OpenAIProvider
 
     const { result, latencyMs } = await this.measureLatency(async () => {
       try {
-        const completion = await this.client!.chat.completions.create({
+        const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
           model: OPENAI_MODEL,
           messages: [
             { role: 'system', content: options.systemPrompt },
@@ -85,7 +87,10 @@ export class OpenAIProvider
           max_tokens: options.maxTokens ?? 3000,
           response_format:
             options.responseFormat === 'json' ? { type: 'json_object' } : undefined,
-        });
+        };
+        const completion = await recordOrReplay('openai', 'chat.completions.create', request, () =>
+          this.client!.chat.completions.create(request)
+        );
 
         this.recordSuccess();
         return completion;
@@ -108,6 +113,7 @@ export class OpenAIProvider
       outputTokens: result.usage?.completion_tokens || 0,
       totalTokens: result.usage?.total_tokens || 0,
     };
+    this.recordTokenUsage(usage);
 
     return {
       content,
@@ -117,6 +123,48 @@ export class OpenAIProvider
     };
   }
 
+  streamText(options: TextGenerationOptions): AsyncIterable<TextStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new ProviderNotAvailableError('openai');
+    }
+
+    const request: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+      model: OPENAI_MODEL,
+      messages: [
+        { role: 'system', content: options.systemPrompt },
+        { role: 'user', content: options.userPrompt },
+      ],
+      temperature: options.temperature ?? 0.8,
+      max_tokens: options.maxTokens ?? 3000,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    return this.streamDeltas(
+      recordOrReplayStream('openai', 'chat.completions.stream', request, () =>
+        this.client!.chat.completions.create(request)
+      ),
+      (chunk) => ({
+        content: chunk.choices[0]?.delta?.content ?? undefined,
+        usage: chunk.usage
+          ? {
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            }
+          : undefined,
+      }),
+      (error) =>
+        error instanceof Error && error.message?.includes('rate limit')
+          ? new RateLimitError('openai')
+          : new LLMProviderError(
+              'openai',
+              'Failed to stream text',
+              error instanceof Error ? error : undefined
+            )
+    );
+  }
+
   async generateJSON<T>(options: TextGenerationOptions): Promise<T> {
     const result = await this.generateText({
       ...options,
@@ -0,0 +1,139 @@
+/**
+ * LLM Provider Registry
+ *
+ * Holds every provider the orchestrator may route to, keyed by name. The
+ * built-in providers are always registered; extra OpenAI-compatible endpoints
+ * come from config and are placed at the front of the tiers and fallback
+ * routes they name, so they pass through the same routing and circuit breakers.
+ */
+
+import {
+  ClaudeProvider,
+  GeminiProvider,
+  GLMProvider,
+  OpenAIProvider,
+  type BaseLLMProvider,
+  type ItineraryGenerationProvider,
+  type LocationValidationProvider,
+  type SupervisorProvider,
+} from './providers';
+import { OpenAICompatibleProvider } from './providers/openai-compatible';
+import { fallbackRoutes, tierLLMConfigs, type TierLLMConfig } from './config';
+import { readOpenAICompatibleProviderConfigs } from './env';
+import type { FallbackConfig, FallbackRoute, LLMProviderName, UserTier } from './types';
+
+export interface ProviderPlacement {
+  /** Tiers whose provider list and single-LLM order start with this provider */
+  tiers?: UserTier[];
+  /** Fallback routes whose provider list starts with this provider */
+  routes?: FallbackRoute[];
+}
+
+export type ItineraryCapableProvider = BaseLLMProvider &
+  Pick<ItineraryGenerationProvider, 'generateItineraryStructure' | 'generateSingleActivity'>;
+export type LocationCapableProvider = BaseLLMProvider & Pick<LocationValidationProvider, 'validateLocations'>;
+export type SupervisorCapableProvider = BaseLLMProvider & Pick<SupervisorProvider, 'supervise'>;
+
+export function canGenerateItineraries(provider: BaseLLMProvider): provider is ItineraryCapableProvider {
+  return typeof (provider as Partial<ItineraryCapableProvider>).generateItineraryStructure === 'function';
+}
+
+export function canValidateLocations(provider: BaseLLMProvider): provider is LocationCapableProvider {
+  return typeof (provider as Partial<LocationCapableProvider>).validateLocations === 'function';
+}
+
+export function canSupervise(provider: BaseLLMProvider): provider is SupervisorCapableProvider {
+  return typeof (provider as Partial<SupervisorCapableProvider>).supervise === 'function';
+}
+
+function unique(names: LLMProviderName[]): LLMProviderName[] {
+  return [...new Set(names)];
+}
+
+export class LLMProviderRegistry {
+  private providers: Map<LLMProviderName, BaseLLMProvider> = new Map();
+  private placements: Map<LLMProviderName, ProviderPlacement> = new Map();
+
+  constructor(
+    private readonly tiers: Record<UserTier, TierLLMConfig> = tierLLMConfigs,
+    private readonly routes: Record<FallbackRoute, FallbackConfig> = fallbackRoutes
+  ) {}
+
+  /**
+   * Register a provider under its name. Names are unique.
+   */
+  register(provider: BaseLLMProvider, placement: ProviderPlacement = {}): this {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`LLM provider already registered: ${provider.name}`);
+    }
+    this.providers.set(provider.name, provider);
+    this.placements.set(provider.name, placement);
+    return this;
+  }
+
+  get(name: LLMProviderName): BaseLLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): BaseLLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Providers allowed for a tier: placed providers first, then the tier config
+   */
+  tierProviders(tier: UserTier): LLMProviderName[] {
+    return unique([...this.placedFor((placement) => placement.tiers?.includes(tier)), ...this.tiers[tier].providers]);
+  }
+
+  /**
+   * Providers a fallback route needs: placed providers first, then the route config
+   */
+  routeProviders(route: FallbackRoute): LLMProviderName[] {
+    return unique([...this.placedFor((placement) => placement.routes?.includes(route)), ...this.routes[route].providers]);
+  }
+
+  /**
+   * Generators tried in order when multi-LLM orchestration is off for a tier
+   */
+  singleLLMProviders(tier: UserTier): LLMProviderName[] {
+    return unique([...this.placedFor((placement) => placement.tiers?.includes(tier)), ...this.tiers[tier].singleLLMProviders]);
+  }
+
+  private placedFor(matches: (placement: ProviderPlacement) => boolean | undefined): LLMProviderName[] {
+    return Array.from(this.placements.entries())
+      .filter(([, placement]) => matches(placement))
+      .map(([name]) => name);
+  }
+}
+
+/**
+ * Registry with the built-in providers plus any configured in
+ * `LLM_OPENAI_COMPATIBLE_PROVIDERS`.
+ */
+export function createDefaultProviderRegistry(): LLMProviderRegistry {
+  const registry = new LLMProviderRegistry()
+    .register(new GLMProvider())
+    .register(new OpenAIProvider())
+    .register(new GeminiProvider())
+    .register(new ClaudeProvider());
+
+  for (const config of readOpenAICompatibleProviderConfigs()) {
+    if (registry.get(config.name)) {
+      console.error(`[LLM] Skipping configured provider "${config.name}": the name is already registered.`);
+      continue;
+    }
+    registry.register(
+      new OpenAICompatibleProvider({
+        name: config.name,
+        baseURL: config.baseURL,
+        model: config.model,
+        apiKey: config.apiKey,
+        requiresApiKey: Boolean(config.apiKeyEnv),
+      }),
+      { tiers: config.tiers, routes: config.routes }
+    );
+  }
+
+  return registry;
+}
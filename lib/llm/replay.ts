@@ -0,0 +1,309 @@
+/**
+ * LLM Record/Replay
+ *
+ * Captures provider SDK request/response pairs as JSON fixtures and replays
+ * them by request hash, so orchestrator, chat and revision flows can run
+ * offline. Controlled by `LLM_REPLAY_MODE`:
+ * - off (default): calls go straight to the provider
+ * - record: calls go to the provider and each response or error is saved
+ * - replay: responses come from fixtures; a missing fixture is an error
+ *
+ * Replay does not change provider availability: set any non-empty API key
+ * for the providers a test expects to be configured.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { getTrimmedEnv } from './env';
+import type { LLMProviderName } from './types';
+
+export type LLMReplayMode = 'off' | 'record' | 'replay';
+
+export const DEFAULT_LLM_FIXTURES_DIR = '__tests__/fixtures/llm';
+
+type RecordedError = { message: string; status?: number };
+
+type RecordedInteraction =
+  | { response: unknown }
+  | { error: RecordedError }
+  /** A streamed call: every chunk received, then the error that ended it, if any */
+  | { chunks: unknown[]; error?: RecordedError };
+
+export interface LLMFixture {
+  version: 1;
+  provider: LLMProviderName;
+  operation: string;
+  requestHash: string;
+  request: unknown;
+  /** Results in call order; replay repeats the last one once exhausted */
+  interactions: RecordedInteraction[];
+}
+
+/**
+ * Thrown in replay mode when no fixture matches a request
+ */
+export class LLMReplayMissError extends Error {
+  constructor(
+    public readonly provider: LLMProviderName,
+    public readonly operation: string,
+    public readonly requestHash: string
+  ) {
+    super(
+      `No LLM fixture for ${provider} ${operation} (${requestHash.slice(0, 16)}). ` +
+        'Re-run with LLM_REPLAY_MODE=record to capture it.'
+    );
+    this.name = 'LLMReplayMissError';
+  }
+}
+
+/**
+ * A provider error replayed from a fixture. The message is kept verbatim so
+ * rate-limit detection and fallbacks behave as they did when recorded.
+ */
+export class ReplayedProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ReplayedProviderError';
+  }
+}
+
+export function getLLMReplayMode(): LLMReplayMode {
+  const mode = getTrimmedEnv('LLM_REPLAY_MODE');
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([left], [right]) => left.localeCompare(right));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of a provider call, independent of object key order
+ */
+export function llmRequestHash(
+  provider: LLMProviderName,
+  operation: string,
+  request: unknown
+): string {
+  return createHash('sha256')
+    .update(stableStringify({ provider, operation, request }))
+    .digest('hex');
+}
+
+function recordedError(error: unknown): RecordedError {
+  const status = (error as { status?: unknown } | null)?.status;
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    status: typeof status === 'number' ? status : undefined,
+  };
+}
+
+export class LLMCassette {
+  private replayCounts: Map<string, number> = new Map();
+  private recordedThisRun: Set<string> = new Set();
+  private fixtures: Map<string, Promise<LLMFixture | null>> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly mode: LLMReplayMode,
+    readonly directory: string
+  ) {}
+
+  /**
+   * Run a provider call through the cassette
+   */
+  async run<T>(
+    provider: LLMProviderName,
+    operation: string,
+    request: unknown,
+    call: () => Promise<T>
+  ): Promise<T> {
+    if (this.mode === 'off') {
+      return call();
+    }
+
+    const requestHash = llmRequestHash(provider, operation, request);
+
+    if (this.mode === 'replay') {
+      const interaction = await this.replay(provider, operation, requestHash);
+      if ('chunks' in interaction) {
+        throw new LLMReplayMissError(provider, operation, requestHash);
+      }
+      if ('error' in interaction) {
+        throw new ReplayedProviderError(interaction.error.message, interaction.error.status);
+      }
+      return interaction.response as T;
+    }
+
+    try {
+      const response = await call();
+      await this.record({ provider, operation, requestHash, request }, { response });
+      return response;
+    } catch (error) {
+      await this.record(
+        { provider, operation, requestHash, request },
+        { error: recordedError(error) }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Run a streaming provider call through the cassette. Chunks replay in the
+   * order they were received, including an error that cut the stream short.
+   */
+  async *stream<T>(
+    provider: LLMProviderName,
+    operation: string,
+    request: unknown,
+    open: () => Promise<AsyncIterable<T>>
+  ): AsyncGenerator<T> {
+    if (this.mode === 'off') {
+      yield* await open();
+      return;
+    }
+
+    const requestHash = llmRequestHash(provider, operation, request);
+
+    if (this.mode === 'replay') {
+      const interaction = await this.replay(provider, operation, requestHash);
+      if (!('chunks' in interaction)) {
+        throw new LLMReplayMissError(provider, operation, requestHash);
+      }
+      for (const chunk of interaction.chunks) {
+        yield chunk as T;
+      }
+      if (interaction.error) {
+        throw new ReplayedProviderError(interaction.error.message, interaction.error.status);
+      }
+      return;
+    }
+
+    const chunks: unknown[] = [];
+    try {
+      for await (const chunk of await open()) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+    } catch (error) {
+      await this.record(
+        { provider, operation, requestHash, request },
+        { chunks, error: recordedError(error) }
+      );
+      throw error;
+    }
+    await this.record({ provider, operation, requestHash, request }, { chunks });
+  }
+
+  private fixturePath(provider: LLMProviderName, requestHash: string): string {
+    return path.join(this.directory, `${provider}-${requestHash.slice(0, 16)}.json`);
+  }
+
+  private loadFixture(provider: LLMProviderName, requestHash: string): Promise<LLMFixture | null> {
+    let fixture = this.fixtures.get(requestHash);
+    if (!fixture) {
+      fixture = readFile(this.fixturePath(provider, requestHash), 'utf8')
+        .then((raw) => JSON.parse(raw) as LLMFixture)
+        .then((parsed) => (parsed.requestHash === requestHash ? parsed : null))
+        .catch(() => null);
+      this.fixtures.set(requestHash, fixture);
+    }
+    return fixture;
+  }
+
+  private async replay(
+    provider: LLMProviderName,
+    operation: string,
+    requestHash: string
+  ): Promise<RecordedInteraction> {
+    const fixture = await this.loadFixture(provider, requestHash);
+    if (!fixture || fixture.interactions.length === 0) {
+      throw new LLMReplayMissError(provider, operation, requestHash);
+    }
+
+    const count = this.replayCounts.get(requestHash) ?? 0;
+    this.replayCounts.set(requestHash, count + 1);
+    return fixture.interactions[Math.min(count, fixture.interactions.length - 1)];
+  }
+
+  private record(
+    call: Pick<LLMFixture, 'provider' | 'operation' | 'requestHash' | 'request'>,
+    interaction: RecordedInteraction
+  ): Promise<void> {
+    // A fresh recording replaces what an earlier run captured for the same request.
+    const previous = this.recordedThisRun.has(call.requestHash)
+      ? this.loadFixture(call.provider, call.requestHash)
+      : Promise.resolve(null);
+    this.recordedThisRun.add(call.requestHash);
+
+    const fixture = previous.then((existing): LLMFixture => ({
+      version: 1,
+      ...call,
+      interactions: [...(existing?.interactions ?? []), interaction],
+    }));
+    this.fixtures.set(call.requestHash, fixture);
+
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(
+        this.fixturePath(call.provider, call.requestHash),
+        `${JSON.stringify(await fixture, null, 2)}\n`
+      );
+    });
+    return this.writes;
+  }
+}
+
+let globalCassette: LLMCassette | null = null;
+
+/**
+ * The cassette for the current `LLM_REPLAY_MODE` and `LLM_FIXTURES_DIR`
+ */
+export function getLLMCassette(): LLMCassette {
+  const mode = getLLMReplayMode();
+  const directory = path.resolve(
+    process.cwd(),
+    getTrimmedEnv('LLM_FIXTURES_DIR') || DEFAULT_LLM_FIXTURES_DIR
+  );
+  if (!globalCassette || globalCassette.mode !== mode || globalCassette.directory !== directory) {
+    globalCassette = new LLMCassette(mode, directory);
+  }
+  return globalCassette;
+}
+
+/**
+ * Record or replay a provider SDK call. `request` must be everything that
+ * determines the response; API keys never belong in it.
+ */
+export function recordOrReplay<T>(
+  provider: LLMProviderName,
+  operation: string,
+  request: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  return getLLMCassette().run(provider, operation, request, call);
+}
+
+/**
+ * Record or replay a streaming provider SDK call
+ */
+export function recordOrReplayStream<T>(
+  provider: LLMProviderName,
+  operation: string,
+  request: unknown,
+  open: () => Promise<AsyncIterable<T>>
+): AsyncGenerator<T> {
+  return getLLMCassette().stream(provider, operation, request, open);
+}
@@ -0,0 +1,236 @@
+/**
+ * Semantic Itinerary Cache
+ *
+ * Generated itineraries are cached per city, trip length, tier, budget, pace,
+ * group type and localness. A request first tries an exact match on its
+ * normalised parameters (interest order and case ignored), then the nearest
+ * cached request by embedding similarity of its interests and notes. The
+ * orchestrator serves close matches as-is and adapts looser ones by
+ * regenerating activities for interests the cached trip lacks.
+ */
+
+import { LLMCache, cacheKeys, getLLMCache, normalizeCacheText, normalizeInterests } from './cache';
+import { semanticCacheConfig } from './config';
+import { cosineSimilarity, getEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+import type { Activity, GeneratedItinerary, ItineraryParams, SingleActivityRequest, UserTier } from './types';
+
+export type SemanticCacheOutcome = 'exact' | 'served' | 'adapted' | 'adapt_failed' | 'miss';
+
+export interface SemanticCacheHit {
+  match: 'exact' | 'similar';
+  similarity: number;
+  /** A copy; safe to modify */
+  itinerary: GeneratedItinerary;
+  /** Requested interests the cached itinerary was not generated for */
+  missingInterests: string[];
+}
+
+export interface SemanticCacheStats {
+  lookups: number;
+  exactHits: number;
+  servedHits: number;
+  adaptedHits: number;
+  adaptFailures: number;
+  misses: number;
+  hitRate: number;
+  thresholds: { serve: number; adapt: number };
+}
+
+interface SemanticCacheEntry {
+  requestKey: string;
+  interests: string[];
+  embeddingModel: string;
+  embedding: number[];
+  itinerary: GeneratedItinerary;
+  createdAt: number;
+}
+
+/**
+ * The preferences compared by similarity. Everything structured is matched
+ * exactly through the bucket key: adapting only fills in missing interests,
+ * so a budget trip must never stand in for a luxury one.
+ */
+function describeRequest(params: ItineraryParams): string {
+  return [
+    `interests: ${normalizeInterests(params.interests).join(', ') || 'general exploration'}`,
+    params.templatePrompt ? `notes: ${normalizeCacheText(params.templatePrompt)}` : '',
+  ]
+    .filter(Boolean)
+    .join('; ');
+}
+
+function emptyCounts(): Omit<SemanticCacheStats, 'hitRate' | 'thresholds'> {
+  return { lookups: 0, exactHits: 0, servedHits: 0, adaptedHits: 0, adaptFailures: 0, misses: 0 };
+}
+
+export class SemanticItineraryCache {
+  private counts = emptyCounts();
+
+  constructor(
+    private readonly cache: LLMCache = getLLMCache(),
+    private readonly embeddings: EmbeddingProvider = getEmbeddingProvider()
+  ) {}
+
+  /**
+   * Closest cached itinerary at or above the adapt threshold
+   */
+  async lookup(params: ItineraryParams, tier: UserTier): Promise<SemanticCacheHit | null> {
+    if (!semanticCacheConfig.enabled) return null;
+    this.counts.lookups++;
+
+    const interests = normalizeInterests(params.interests);
+    const exact = await this.cache.get<SemanticCacheEntry>(cacheKeys.itineraryStructure(params, tier));
+    if (exact) {
+      return { match: 'exact', similarity: 1, itinerary: structuredClone(exact.itinerary), missingInterests: [] };
+    }
+
+    const entries = await this.bucket(params, tier);
+    if (entries.length === 0) return null;
+
+    try {
+      const [embedding] = await this.embeddings.embed([describeRequest(params)]);
+      let best: { entry: SemanticCacheEntry; similarity: number } | null = null;
+      for (const entry of entries) {
+        if (entry.embeddingModel !== this.embeddings.name) continue;
+        const similarity = cosineSimilarity(embedding, entry.embedding);
+        if (!best || similarity > best.similarity) {
+          best = { entry, similarity };
+        }
+      }
+
+      if (!best || best.similarity < semanticCacheConfig.adaptThreshold) return null;
+      return {
+        match: 'similar',
+        similarity: best.similarity,
+        itinerary: structuredClone(best.entry.itinerary),
+        missingInterests: interests.filter((interest) => !best.entry.interests.includes(interest)),
+      };
+    } catch (error) {
+      console.error('[SemanticCache] Embedding lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache a generated itinerary under its exact key and in its similarity bucket
+   */
+  async store(params: ItineraryParams, tier: UserTier, itinerary: GeneratedItinerary): Promise<void> {
+    if (!semanticCacheConfig.enabled) return;
+
+    const requestKey = cacheKeys.itineraryStructure(params, tier);
+    const ttl = semanticCacheConfig.ttlSeconds;
+    const entry: SemanticCacheEntry = {
+      requestKey,
+      interests: normalizeInterests(params.interests),
+      embeddingModel: this.embeddings.name,
+      embedding: [],
+      itinerary: structuredClone(itinerary),
+      createdAt: Date.now(),
+    };
+
+    try {
+      await this.cache.set(requestKey, entry, ttl);
+      [entry.embedding] = await this.embeddings.embed([describeRequest(params)]);
+
+      const entries = (await this.bucket(params, tier)).filter((existing) => existing.requestKey !== requestKey);
+      entries.push(entry);
+      await this.cache.set(
+        cacheKeys.semanticItineraryBucket(params, tier),
+        entries.slice(-semanticCacheConfig.maxEntriesPerBucket),
+        ttl
+      );
+    } catch (error) {
+      console.error('[SemanticCache] Failed to store itinerary:', error);
+    }
+  }
+
+  /**
+   * Count how a lookup was resolved, for the hit-rate metrics
+   */
+  recordOutcome(outcome: SemanticCacheOutcome): void {
+    switch (outcome) {
+      case 'exact':
+        this.counts.exactHits++;
+        break;
+      case 'served':
+        this.counts.servedHits++;
+        break;
+      case 'adapted':
+        this.counts.adaptedHits++;
+        break;
+      case 'adapt_failed':
+        this.counts.adaptFailures++;
+        this.counts.misses++;
+        break;
+      case 'miss':
+        this.counts.misses++;
+        break;
+    }
+  }
+
+  getStats(): SemanticCacheStats {
+    const hits = this.counts.exactHits + this.counts.servedHits + this.counts.adaptedHits;
+    return {
+      ...this.counts,
+      hitRate: this.counts.lookups > 0 ? Math.round((hits / this.counts.lookups) * 100) / 100 : 0,
+      thresholds: { serve: semanticCacheConfig.serveThreshold, adapt: semanticCacheConfig.adaptThreshold },
+    };
+  }
+
+  resetStats(): void {
+    this.counts = emptyCounts();
+  }
+
+  private async bucket(params: ItineraryParams, tier: UserTier): Promise<SemanticCacheEntry[]> {
+    return (await this.cache.get<SemanticCacheEntry[]>(
+      cacheKeys.semanticItineraryBucket(params, tier)
+    )) ?? [];
+  }
+}
+
+/**
+ * Regenerate one activity per missing interest, spread across days and
+ * replacing each day's least local activity. Throws if any replacement fails.
+ */
+export async function adaptCachedItinerary(
+  itinerary: GeneratedItinerary,
+  params: ItineraryParams,
+  missingInterests: string[],
+  generateActivity: (request: SingleActivityRequest) => Promise<Activity>
+): Promise<GeneratedItinerary> {
+  const replaced = new Set<string>();
+  const plans = itinerary.dailyPlans.filter((plan) => plan.activities.length > 0);
+
+  for (const [index, interest] of missingInterests.slice(0, semanticCacheConfig.maxAdaptedActivities).entries()) {
+    const plan = plans[index % plans.length];
+    if (!plan) break;
+
+    const candidates = plan.activities
+      .map((activity, activityIndex) => ({ activity, activityIndex }))
+      .filter(({ activityIndex }) => !replaced.has(`${plan.day}:${activityIndex}`))
+      .sort((left, right) => left.activity.localleyScore - right.activity.localleyScore);
+    const target = candidates[0];
+    if (!target) continue;
+
+    plan.activities[target.activityIndex] = await generateActivity({
+      city: params.city,
+      dayTheme: plan.theme,
+      timeSlot: target.activity.type,
+      requirements: `Suits a traveller interested in ${interest}`,
+      excludeNames: itinerary.dailyPlans.flatMap((day) => day.activities.map((activity) => activity.name)),
+      category: interest,
+    });
+    replaced.add(`${plan.day}:${target.activityIndex}`);
+  }
+
+  return itinerary;
+}
+
+let globalSemanticCache: SemanticItineraryCache | null = null;
+
+export function getSemanticItineraryCache(): SemanticItineraryCache {
+  if (!globalSemanticCache) {
+    globalSemanticCache = new SemanticItineraryCache();
+  }
+  return globalSemanticCache;
+}
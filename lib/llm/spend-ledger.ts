@@ -0,0 +1,144 @@
+/**
+ * LLM Spend Ledger
+ *
+ * Persists the token usage and estimated cost of every orchestration and
+ * chat reply per user and provider (`llm_usage_events`), and reads back
+ * monthly totals for the per-tier cost ceilings and the admin top-spenders
+ * report. Costs come from the same per-1k-token prices as the metrics
+ * collector.
+ *
+ * Accounting never blocks generation: write and read failures are logged and
+ * treated as no spend.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseAdmin } from '../supabase';
+import { estimateProviderCost } from './metrics';
+import type { TokenUsageByProvider } from './usage-meter';
+import type { LLMProviderName, OrchestrationRequest, UserTier } from './types';
+
+export interface LLMSpendRecord {
+  userId: string;
+  requestId: string;
+  requestType: OrchestrationRequest['type'];
+  tier: UserTier;
+  tokenUsage: TokenUsageByProvider;
+}
+
+export interface LLMSpender {
+  userId: string;
+  tier: UserTier;
+  orchestrations: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  providers: Partial<Record<LLMProviderName, { totalTokens: number; estimatedCostUsd: number }>>;
+}
+
+export interface LLMSpendLedger {
+  record(entry: LLMSpendRecord): Promise<void>;
+  /** Estimated spend in the UTC calendar month containing `at` */
+  monthlySpendUsd(userId: string, at?: Date): Promise<number>;
+  topSpenders(options: { month: Date; limit: number }): Promise<LLMSpender[]>;
+}
+
+type TopSpenderRow = {
+  clerk_user_id: string;
+  tier: UserTier;
+  orchestrations: number | string;
+  input_tokens: number | string;
+  output_tokens: number | string;
+  total_tokens: number | string;
+  estimated_cost_usd: number | string;
+  providers: Record<string, { totalTokens: number | string; estimatedCostUsd: number | string }> | null;
+};
+
+/**
+ * First day of the UTC month containing `date`, as YYYY-MM-DD
+ */
+export function spendMonthStart(date: Date = new Date()): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString().split('T')[0];
+}
+
+function toSpender(row: TopSpenderRow): LLMSpender {
+  return {
+    userId: row.clerk_user_id,
+    tier: row.tier,
+    orchestrations: Number(row.orchestrations),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    totalTokens: Number(row.total_tokens),
+    estimatedCostUsd: Number(row.estimated_cost_usd),
+    providers: Object.fromEntries(
+      Object.entries(row.providers ?? {}).map(([provider, totals]) => [
+        provider,
+        { totalTokens: Number(totals.totalTokens), estimatedCostUsd: Number(totals.estimatedCostUsd) },
+      ])
+    ),
+  };
+}
+
+export class SupabaseLLMSpendLedger implements LLMSpendLedger {
+  constructor(private readonly client: () => SupabaseClient = createSupabaseAdmin) {}
+
+  async record(entry: LLMSpendRecord): Promise<void> {
+    const rows = Object.entries(entry.tokenUsage).flatMap(([provider, usage]) =>
+      usage && usage.totalTokens > 0
+        ? [{
+            clerk_user_id: entry.userId,
+            request_id: entry.requestId,
+            request_type: entry.requestType,
+            tier: entry.tier,
+            provider,
+            input_tokens: usage.inputTokens,
+            output_tokens: usage.outputTokens,
+            total_tokens: usage.totalTokens,
+            estimated_cost_usd: Number(estimateProviderCost(provider, usage).toFixed(6)),
+          }]
+        : []
+    );
+    if (rows.length === 0) return;
+
+    try {
+      const { error } = await this.client().from('llm_usage_events').insert(rows);
+      if (error) throw error;
+    } catch (error) {
+      console.error('[LLMSpend] Failed to record usage:', error);
+    }
+  }
+
+  async monthlySpendUsd(userId: string, at: Date = new Date()): Promise<number> {
+    try {
+      const { data, error } = await this.client().rpc('get_llm_monthly_spend', {
+        p_clerk_user_id: userId,
+        p_month_start: spendMonthStart(at),
+      });
+      if (error) throw error;
+      return Number(data ?? 0);
+    } catch (error) {
+      console.error('[LLMSpend] Failed to read monthly spend:', error);
+      return 0;
+    }
+  }
+
+  async topSpenders({ month, limit }: { month: Date; limit: number }): Promise<LLMSpender[]> {
+    const { data, error } = await this.client().rpc('get_top_llm_spenders', {
+      p_month_start: spendMonthStart(month),
+      p_limit: limit,
+    });
+    if (error) {
+      throw new Error(`Failed to load top LLM spenders: ${error.message}`);
+    }
+    return ((data ?? []) as TopSpenderRow[]).map(toSpender);
+  }
+}
+
+let globalLedger: LLMSpendLedger | null = null;
+
+export function getLLMSpendLedger(): LLMSpendLedger {
+  if (!globalLedger) {
+    globalLedger = new SupabaseLLMSpendLedger();
+  }
+  return globalLedger;
+}
@@ -0,0 +1,51 @@
+/**
+ * Text Stream Helpers
+ *
+ * A streamed reply may only fall back to another provider before its first
+ * token reaches the client. `openTextStream` reads up to the first non-blank
+ * delta, so failures before that point can still be retried or routed
+ * elsewhere; everything after it is passed on as-is.
+ */
+
+import type { TextStreamEvent } from './types';
+
+export interface OpenedTextStream {
+  /** First delta with content, leading whitespace removed */
+  first: string;
+  rest: AsyncIterator<TextStreamEvent>;
+}
+
+/**
+ * Start a stream and wait for its first token. Resolves to null when the
+ * provider finishes without producing any text.
+ */
+export async function openTextStream(
+  stream: AsyncIterable<TextStreamEvent>
+): Promise<OpenedTextStream | null> {
+  const iterator = stream[Symbol.asyncIterator]();
+
+  while (true) {
+    const next = await iterator.next();
+    if (next.done || next.value.type === 'done') {
+      return null;
+    }
+    if (next.value.content.trim()) {
+      return { first: next.value.content.trimStart(), rest: iterator };
+    }
+  }
+}
+
+/**
+ * Deltas of an opened stream, starting with its first token
+ */
+export async function* continueTextStream(opened: OpenedTextStream): AsyncGenerator<string> {
+  yield opened.first;
+
+  while (true) {
+    const next = await opened.rest.next();
+    if (next.done || next.value.type === 'done') {
+      return;
+    }
+    yield next.value.content;
+  }
+}
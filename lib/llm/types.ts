@@ -9,7 +9,13 @@
 // Provider Types
 // ============================================================================
 
-export type LLMProviderName = 'glm' | 'openai' | 'gemini' | 'claude';
+export type BuiltInLLMProviderName = 'glm' | 'openai' | 'gemini' | 'claude';
+
+/**
+ * Built-in provider names plus any name added through the provider registry,
+ * such as a self-hosted OpenAI-compatible endpoint.
+ */
+export type LLMProviderName = BuiltInLLMProviderName | (string & {});
 
 export interface LLMProviderStatus {
   name: LLMProviderName;
@@ -38,6 +44,14 @@ export interface TextGenerationResult {
   provider: LLMProviderName;
 }
 
+/**
+ * One event of a streamed text generation: deltas in order, then a single
+ * `done` once the provider has finished.
+ */
+export type TextStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; usage: TokenUsage; latencyMs: number };
+
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
@@ -49,6 +63,51 @@ export interface JSONGenerationOptions<T = unknown> extends TextGenerationOption
   responseFormat: 'json';
 }
 
+// ============================================================================
+// Tool Calling Types
+// ============================================================================
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool's arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON as produced by the model; may be malformed */
+  arguments: string;
+}
+
+export type ToolConversationMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface ToolGenerationOptions {
+  messages: ToolConversationMessage[];
+  tools: ToolDefinition[];
+  /** 'none' forces a text answer while keeping earlier tool turns valid */
+  toolChoice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ToolGenerationResult extends TextGenerationResult {
+  /** Empty when the model answered in text */
+  toolCalls: ToolCall[];
+}
+
+/**
+ * One event of a streamed tool-enabled turn: text deltas as they arrive, then
+ * a single `done` with the tool calls the model made, if any.
+ */
+export type ToolStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; toolCalls: ToolCall[]; usage: TokenUsage; latencyMs: number };
+
 // ============================================================================
 // Itinerary Types
 // ============================================================================
@@ -141,6 +200,10 @@ export interface OrchestrationMetrics {
   retryCount: number;
   fallbackRoute?: string;
   tokenUsage?: Partial<Record<LLMProviderName, TokenUsage>>;
+  /** Set when the user was over their tier's monthly cost ceiling */
+  costCeilingReached?: boolean;
+  /** Set when the itinerary came from the semantic cache */
+  semanticCache?: { match: 'exact' | 'served' | 'adapted'; similarity: number };
 }
 
 // ============================================================================
@@ -270,7 +333,8 @@ export type FallbackRoute =
   | 'gemini_fallback'
   | 'claude_fallback'
   | 'chatgpt_fallback'
-  | 'emergency';
+  | 'emergency'
+  | 'cost_ceiling';
 
 export interface FallbackConfig {
   route: FallbackRoute;
@@ -351,3 +415,25 @@ export interface SingleActivityRequest {
   excludeNames: string[];
   category?: string;
 }
+
+// ============================================================================
+// Activity Repair (for structured chat itineraries)
+// ============================================================================
+
+export interface ActivityRepairTarget {
+  dayTheme: string;
+  timeSlot: 'morning' | 'afternoon' | 'evening';
+  /** Place the draft named; the repair keeps it and fills in the details */
+  name?: string;
+  address?: string;
+  /** What failed validation, in plain words */
+  problems: string;
+}
+
+export interface ActivityRepairRequest {
+  city: string;
+  tier: UserTier;
+  userId: string;
+  requestId: string;
+  activities: ActivityRepairTarget[];
+}
@@ -0,0 +1,37 @@
+/**
+ * Token Usage Meter
+ *
+ * Providers report the tokens of every completed call here. Calls made inside
+ * `meterTokenUsage` are added to that run's totals, so concurrent
+ * orchestrations sharing the same provider instances are counted separately.
+ * Calls outside a metered run (health checks) are ignored.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { LLMProviderName, TokenUsage } from './types';
+
+export type TokenUsageByProvider = Partial<Record<LLMProviderName, TokenUsage>>;
+
+const activeMeter = new AsyncLocalStorage<TokenUsageByProvider>();
+
+/**
+ * Run `operation`, adding the tokens its provider calls use to `totals`
+ */
+export function meterTokenUsage<T>(totals: TokenUsageByProvider, operation: () => Promise<T>): Promise<T> {
+  return activeMeter.run(totals, operation);
+}
+
+/**
+ * Add a provider call's tokens to the current metered run, if any
+ */
+export function reportTokenUsage(provider: LLMProviderName, usage: TokenUsage): void {
+  const totals = activeMeter.getStore();
+  if (!totals) return;
+
+  const current = totals[provider] ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  totals[provider] = {
+    inputTokens: current.inputTokens + usage.inputTokens,
+    outputTokens: current.outputTokens + usage.outputTokens,
+    totalTokens: current.totalTokens + (usage.totalTokens || usage.inputTokens + usage.outputTokens),
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Money in itineraries. Costs come from the model as free text ("₩15,000",
+ * "$10-20 per person", "Free"); parseCost turns them into an amount and an
+ * ISO 4217 currency. Conversion uses a bundled rate table so budgets work
+ * offline and totals don't drift as markets move during a trip.
+ */
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+/** A parsed cost. Ranges keep their ends; `amount` is the midpoint */
+export interface ParsedCost extends Money {
+  min: number;
+  max: number;
+}
+
+/** When FX_RATES_PER_USD was last refreshed */
+export const FX_RATES_AS_OF = "2026-09-01";
+
+/** Units of each currency one US dollar buys, rounded mid-market rates */
+export const FX_RATES_PER_USD: Record<string, number> = {
+  USD: 1,
+  KRW: 1385,
+  JPY: 147,
+  CNY: 7.12,
+  HKD: 7.8,
+  TWD: 31.2,
+  SGD: 1.3,
+  THB: 33.9,
+  VND: 26300,
+  MYR: 4.24,
+  IDR: 16400,
+  PHP: 57.2,
+  KHR: 4010,
+  LAK: 21600,
+  INR: 88.1,
+  EUR: 0.86,
+  GBP: 0.74,
+  AUD: 1.53,
+  NZD: 1.7,
+  CAD: 1.38,
+  CHF: 0.8,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(FX_RATES_PER_USD);
+
+// Longest first so "HK$" wins over "$" and "CN¥" over "¥"
+const CURRENCY_MARKERS: Array<[string, string]> = [
+  ["US$", "USD"],
+  ["HK$", "HKD"],
+  ["NT$", "TWD"],
+  ["S$", "SGD"],
+  ["A$", "AUD"],
+  ["NZ$", "NZD"],
+  ["C$", "CAD"],
+  ["CN¥", "CNY"],
+  ["RMB", "CNY"],
+  ["RM", "MYR"],
+  ["Rp", "IDR"],
+  ["₩", "KRW"],
+  ["원", "KRW"],
+  ["¥", "JPY"],
+  ["円", "JPY"],
+  ["元", "CNY"],
+  ["฿", "THB"],
+  ["₫", "VND"],
+  ["₱", "PHP"],
+  ["៛", "KHR"],
+  ["₭", "LAK"],
+  ["₹", "INR"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["$", "USD"],
+];
+
+const CURRENCY_WORDS: Array<[RegExp, string]> = [
+  [/\bwon\b/i, "KRW"],
+  [/\byen\b/i, "JPY"],
+  [/\b(yuan|renminbi)\b/i, "CNY"],
+  [/\bbaht\b/i, "THB"],
+  [/\bdong\b/i, "VND"],
+  [/\bringgit\b/i, "MYR"],
+  [/\brupiah\b/i, "IDR"],
+  [/\bpesos?\b/i, "PHP"],
+  [/\beuros?\b/i, "EUR"],
+];
+
+const FREE_PATTERN = /\b(free|no charge|no cost|complimentary)\b|무료|無料/i;
+const NUMBER_PATTERN = /(\d+(?:,\d{3})*(?:\.\d+)?|\.\d+)\s*(k\b|만)?/gi;
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|~|to)\s*\D{0,4}$/i;
+
+function detectCurrency(text: string): string | null {
+  const code = text.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find((candidate) => candidate in FX_RATES_PER_USD);
+  if (code) return code;
+  const marker = CURRENCY_MARKERS.find(([symbol]) => text.includes(symbol));
+  if (marker) return marker[1];
+  return CURRENCY_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Read a free-text cost. Returns null when there is no amount to read ("$$",
+ * "Varies") or no currency and no `defaultCurrency` to assume.
+ */
+export function parseCost(
+  text: string | number | null | undefined,
+  options: { defaultCurrency?: string } = {}
+): ParsedCost | null {
+  if (text === null || text === undefined) return null;
+  if (typeof text === "number") {
+    if (!Number.isFinite(text) || text < 0 || !options.defaultCurrency) return null;
+    return { amount: text, min: text, max: text, currency: options.defaultCurrency };
+  }
+
+  const value = text.trim();
+  if (!value) return null;
+
+  const currency = detectCurrency(value) ?? options.defaultCurrency ?? null;
+  const numbers = [...value.matchAll(NUMBER_PATTERN)];
+
+  if (numbers.length === 0) {
+    return FREE_PATTERN.test(value) && currency ? { amount: 0, min: 0, max: 0, currency } : null;
+  }
+  if (!currency) return null;
+
+  const read = (digits: string, unit: string | undefined) => {
+    const amount = Number(digits.replace(/,/g, ""));
+    const multiplier = unit?.toLowerCase() === "k" ? 1_000 : unit === "만" ? 10_000 : 1;
+    return amount * multiplier;
+  };
+
+  const [first, second] = numbers;
+  let min = read(first[1], first[2]);
+  let max = min;
+  if (second && RANGE_SEPARATOR.test(value.slice(first.index! + first[0].length, second.index))) {
+    max = read(second[1], second[2]);
+    // "1-1.5만원": a unit on the upper end applies to both
+    if (!first[2] && second[2]) min = read(first[1], second[2]);
+  }
+  if (max < min) [min, max] = [max, min];
+
+  return { amount: (min + max) / 2, min, max, currency };
+}
+
+/** Convert with the bundled rates; null for a currency the table lacks */
+export function convertMoney(amount: number, from: string, to: string): number | null {
+  if (from === to) return amount;
+  const fromRate = FX_RATES_PER_USD[from];
+  const toRate = FX_RATES_PER_USD[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+/** Decimal places the currency is paid in: 0 for KRW and JPY, 2 for most */
+export function currencyMinorUnits(currency: string): number {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/** Round to what the currency can actually be paid in */
+export function roundMoney(amount: number, currency: string): number {
+  const factor = 10 ** currencyMinorUnits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: currencyMinorUnits(currency),
+    }).format(amount);
+  } catch {
+    return `${amount.toLocaleString("en-US")} ${currency}`;
+  }
+}
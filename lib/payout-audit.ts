@@ -0,0 +1,239 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { EngagementType } from "@/lib/engagement-tracking";
+import { ENGAGEMENT_ANOMALY_RULES, type EngagementHoldReason } from "@/lib/engagement-anomalies";
+
+/**
+ * Explanations of guide payouts. Each calculation stores, per guide and
+ * month, where their points came from and what was held back
+ * (`guide_point_audits`); approve and execute only move earnings whose points
+ * still match that explanation. Every payout action is written to the
+ * append-only `payout_audit_log`.
+ */
+
+export interface AuditedEngagement {
+    id: string;
+    viewer_clerk_user_id: string;
+    creator_clerk_user_id: string;
+    content_type: string;
+    engagement_points: number;
+    held: boolean;
+    hold_reasons: string[] | null;
+    hold_released_at: string | null;
+}
+
+export interface GuidePointHold {
+    reason: EngagementHoldReason;
+    rows: number;
+    points: number;
+    explanation: string;
+}
+
+export interface GuidePointExplanation {
+    guideClerkUserId: string;
+    month: string;
+    totalPoints: number;
+    countedPoints: number;
+    heldPoints: number;
+    /** Points an admin released from a hold, included in countedPoints */
+    releasedPoints: number;
+    uniqueViewers: number;
+    byContentType: Partial<Record<EngagementType, { count: number; points: number }>>;
+    topViewers: Array<{ viewerClerkUserId: string; points: number; share: number }>;
+    holds: GuidePointHold[];
+}
+
+export interface GuidePointAudit extends GuidePointExplanation {
+    computedAt: string;
+}
+
+export type PayoutAuditAction = "calculate" | "release_hold" | "approve" | "execute";
+
+export interface PayoutAuditEvent {
+    month: string;
+    action: PayoutAuditAction;
+    adminClerkUserId: string;
+    guideClerkUserId?: string | null;
+    earningId?: string | null;
+    details?: Record<string, unknown>;
+}
+
+const TOP_VIEWERS = 5;
+
+const HOLD_EXPLANATIONS: Record<EngagementHoldReason, string> = {
+    alt_account:
+        "viewers who used the guide's own browser, or share the guide's network and spent at least " +
+        `${ENGAGEMENT_ANOMALY_RULES.altSharedIpMinShare * 100}% of their month on this guide`,
+    ip_burst:
+        `more than ${ENGAGEMENT_ANOMALY_RULES.ipBurstMaxEvents} engagements from one network within ` +
+        `${ENGAGEMENT_ANOMALY_RULES.burstWindowMinutes} minutes`,
+    device_burst:
+        `more than ${ENGAGEMENT_ANOMALY_RULES.deviceBurstMaxEvents} engagements from one browser within ` +
+        `${ENGAGEMENT_ANOMALY_RULES.burstWindowMinutes} minutes`,
+    shared_device: `browsers used by more than ${ENGAGEMENT_ANOMALY_RULES.maxAccountsPerDevice} accounts`,
+    guide_ring:
+        `guides engaging with each other in a loop, each giving the next at least ` +
+        `${ENGAGEMENT_ANOMALY_RULES.ringMinPoints} points`,
+};
+
+function explainHold(reason: EngagementHoldReason, rows: number, points: number): string {
+    return `${points} point${points === 1 ? "" : "s"} from ${rows} engagement${rows === 1 ? "" : "s"} held: ${HOLD_EXPLANATIONS[reason]}`;
+}
+
+/**
+ * One explanation per guide with engagement in the month. A row held for
+ * several reasons is listed under each, so hold points can add up to more
+ * than heldPoints.
+ */
+export function buildGuidePointExplanations(month: string, rows: AuditedEngagement[]): GuidePointExplanation[] {
+    const byGuide = new Map<string, AuditedEngagement[]>();
+    for (const row of rows) {
+        const guideRows = byGuide.get(row.creator_clerk_user_id);
+        if (guideRows) guideRows.push(row);
+        else byGuide.set(row.creator_clerk_user_id, [row]);
+    }
+
+    return [...byGuide].map(([guideClerkUserId, guideRows]) => {
+        const explanation: GuidePointExplanation = {
+            guideClerkUserId,
+            month,
+            totalPoints: 0,
+            countedPoints: 0,
+            heldPoints: 0,
+            releasedPoints: 0,
+            uniqueViewers: 0,
+            byContentType: {},
+            topViewers: [],
+            holds: [],
+        };
+        const viewers = new Map<string, number>();
+        const holds = new Map<EngagementHoldReason, { rows: number; points: number }>();
+
+        for (const row of guideRows) {
+            const points = row.engagement_points;
+            explanation.totalPoints += points;
+
+            if (row.held) {
+                explanation.heldPoints += points;
+                for (const reason of (row.hold_reasons ?? []) as EngagementHoldReason[]) {
+                    const hold = holds.get(reason) ?? { rows: 0, points: 0 };
+                    holds.set(reason, { rows: hold.rows + 1, points: hold.points + points });
+                }
+                continue;
+            }
+
+            explanation.countedPoints += points;
+            if (row.hold_released_at) explanation.releasedPoints += points;
+            const type = row.content_type as EngagementType;
+            const counts = explanation.byContentType[type] ?? { count: 0, points: 0 };
+            explanation.byContentType[type] = { count: counts.count + 1, points: counts.points + points };
+            viewers.set(row.viewer_clerk_user_id, (viewers.get(row.viewer_clerk_user_id) ?? 0) + points);
+        }
+
+        explanation.uniqueViewers = viewers.size;
+        explanation.topViewers = [...viewers]
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .slice(0, TOP_VIEWERS)
+            .map(([viewerClerkUserId, points]) => ({
+                viewerClerkUserId,
+                points,
+                share: Math.round((points / explanation.countedPoints) * 1000) / 1000,
+            }));
+        explanation.holds = [...holds]
+            .sort((a, b) => b[1].points - a[1].points)
+            .map(([reason, hold]) => ({ reason, ...hold, explanation: explainHold(reason, hold.rows, hold.points) }));
+
+        return explanation;
+    });
+}
+
+/**
+ * Earnings that can't be approved or paid: no stored explanation for the
+ * guide's month, or the points they were calculated on no longer match it
+ * (e.g. a hold was released after calculating).
+ */
+export function findUnauditedEarnings<
+    T extends { guide_clerk_user_id: string; earning_month: string; total_engagement_points: number },
+>(earnings: T[], audits: GuidePointAudit[]): T[] {
+    const counted = new Map(audits.map((audit) => [`${audit.guideClerkUserId}\u0000${audit.month}`, audit.countedPoints]));
+    return earnings.filter(
+        (earning) => counted.get(`${earning.guide_clerk_user_id}\u0000${earning.earning_month}`) !== earning.total_engagement_points
+    );
+}
+
+const PAGE_SIZE = 1000;
+
+async function loadAuditedEngagement(supabase: SupabaseClient, month: string): Promise<AuditedEngagement[]> {
+    const rows: AuditedEngagement[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from("content_engagement")
+            .select("id, viewer_clerk_user_id, creator_clerk_user_id, content_type, engagement_points, held, hold_reasons, hold_released_at")
+            .eq("engagement_month", month)
+            .order("id", { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`Could not load engagement: ${error.message}`);
+
+        rows.push(...((data || []) as AuditedEngagement[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+}
+
+/** Rebuild and store every guide's explanation for a month (`YYYY-MM-01`) */
+export async function auditMonthPoints(supabase: SupabaseClient, month: string): Promise<GuidePointAudit[]> {
+    const computedAt = new Date().toISOString();
+    const explanations = buildGuidePointExplanations(month, await loadAuditedEngagement(supabase, month));
+
+    const { error: clearError } = await supabase.from("guide_point_audits").delete().eq("earning_month", month);
+    if (clearError) throw new Error(`Could not clear point audits: ${clearError.message}`);
+
+    if (explanations.length) {
+        const { error } = await supabase.from("guide_point_audits").insert(
+            explanations.map((explanation) => ({
+                guide_clerk_user_id: explanation.guideClerkUserId,
+                earning_month: month,
+                total_points: explanation.totalPoints,
+                counted_points: explanation.countedPoints,
+                held_points: explanation.heldPoints,
+                explanation,
+                computed_at: computedAt,
+            }))
+        );
+        if (error) throw new Error(`Could not save point audits: ${error.message}`);
+    }
+
+    return explanations.map((explanation) => ({ ...explanation, computedAt }));
+}
+
+/** Stored explanations, for a month or for the guides behind a set of earnings */
+export async function loadGuidePointAudits(
+    supabase: SupabaseClient,
+    filter: { month?: string; guideClerkUserIds?: string[] },
+): Promise<GuidePointAudit[]> {
+    let query = supabase
+        .from("guide_point_audits")
+        .select("explanation, computed_at")
+        .order("counted_points", { ascending: false });
+    if (filter.month) query = query.eq("earning_month", filter.month);
+    if (filter.guideClerkUserIds) query = query.in("guide_clerk_user_id", filter.guideClerkUserIds);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Could not load point audits: ${error.message}`);
+
+    return (data || []).map((row) => ({ ...(row.explanation as GuidePointExplanation), computedAt: row.computed_at }));
+}
+
+export async function recordPayoutAuditEvents(supabase: SupabaseClient, events: PayoutAuditEvent[]): Promise<void> {
+    if (!events.length) return;
+
+    const { error } = await supabase.from("payout_audit_log").insert(
+        events.map((event) => ({
+            earning_month: event.month,
+            action: event.action,
+            admin_clerk_user_id: event.adminClerkUserId,
+            guide_clerk_user_id: event.guideClerkUserId ?? null,
+            earning_id: event.earningId ?? null,
+            details: event.details ?? {},
+        }))
+    );
+    if (error) throw new Error(`Could not record payout audit: ${error.message}`);
+}
@@ -0,0 +1,233 @@
+import { deflateSync, inflateSync } from "node:zlib";
+
+/**
+ * Minimal PDF writer
+ *
+ * Builds a PDF from pre-rendered page images (PNGs from the OG image
+ * renderer), with clickable link areas. Rendering pages as images keeps
+ * every script — Hangul, kana, Thai — looking the same as on screen without
+ * embedding fonts.
+ */
+
+export interface PdfLink {
+  /** Link area in image pixels, measured from the top-left corner */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  url: string;
+}
+
+export interface PdfImagePage {
+  png: Uint8Array;
+  links?: PdfLink[];
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+/** A4 in points */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  /** 8-bit RGB, alpha already flattened onto white */
+  rgb: Uint8Array;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced RGB or RGBA PNG
+ */
+export function decodePng(png: Uint8Array): DecodedImage {
+  if (!PNG_SIGNATURE.every((byte, i) => png[i] === byte)) {
+    throw new Error("Not a PNG image");
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const data: Uint8Array[] = [];
+
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const body = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const [bitDepth, colorType, , , interlace] = body.subarray(8, 13);
+      channels = colorType === 6 ? 4 : colorType === 2 ? 3 : 0;
+      if (bitDepth !== 8 || channels === 0 || interlace !== 0) {
+        throw new Error("Only 8-bit non-interlaced RGB(A) PNGs are supported");
+      }
+    } else if (type === "IDAT") {
+      data.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(data));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      const predictor =
+        filter === 1 ? left
+        : filter === 2 ? up
+        : filter === 3 ? (left + up) >> 1
+        : filter === 4 ? paeth(left, up, upLeft)
+        : 0;
+      pixels[out + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  if (channels === 3) return { width, height, rgb: pixels };
+
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+    const alpha = pixels[i + 3];
+    for (let c = 0; c < 3; c++) {
+      rgb[j + c] = Math.round((pixels[i + c] * alpha + 255 * (255 - alpha)) / 255);
+    }
+  }
+  return { width, height, rgb };
+}
+
+/** PDF text string; UTF-16BE when the text isn't plain ASCII */
+function pdfString(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `(${value.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+  }
+  let hex = "FEFF";
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Assemble A4 pages, one image per page scaled to fill it
+ */
+export function buildImagePdf(pages: PdfImagePage[], info: PdfDocumentInfo = {}): Uint8Array {
+  const encoder = new TextEncoder();
+  const objects: Uint8Array[][] = [];
+  const allocate = () => objects.push([]);
+  const define = (id: number, ...parts: Array<string | Uint8Array>) => {
+    objects[id - 1] = parts.map((part) => (typeof part === "string" ? encoder.encode(part) : part));
+  };
+
+  const catalogId = allocate();
+  const pagesId = allocate();
+  const infoId = allocate();
+  const pageIds: number[] = [];
+
+  pages.forEach((page) => {
+    const image = decodePng(page.png);
+    const compressed = deflateSync(image.rgb);
+    const scale = PAGE_WIDTH / image.width;
+    const pageHeight = Math.min(PAGE_HEIGHT, image.height * scale);
+
+    const imageId = allocate();
+    define(
+      imageId,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}`
+        + ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`,
+      compressed,
+      "\nendstream"
+    );
+
+    const content = `q ${formatNumber(PAGE_WIDTH)} 0 0 ${formatNumber(image.height * scale)} 0 ${formatNumber(pageHeight - image.height * scale)} cm /Im0 Do Q`;
+    const contentId = allocate();
+    define(contentId, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+    const annotationIds = (page.links ?? []).map((link) => {
+      const id = allocate();
+      const x1 = link.x * scale;
+      const y1 = pageHeight - (link.y + link.height) * scale;
+      const rect = [x1, y1, x1 + link.width * scale, y1 + link.height * scale].map(formatNumber).join(" ");
+      define(
+        id,
+        `<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0]`
+          + ` /A << /S /URI /URI ${pdfString(/^[\x20-\x7e]*$/.test(link.url) ? link.url : encodeURI(link.url))} >> >>`
+      );
+      return id;
+    });
+
+    const pageId = allocate();
+    pageIds.push(pageId);
+    define(
+      pageId,
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(PAGE_WIDTH)} ${formatNumber(pageHeight)}]`
+        + ` /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R`
+        + (annotationIds.length ? ` /Annots [${annotationIds.map((id) => `${id} 0 R`).join(" ")}]` : "")
+        + " >>"
+    );
+  });
+
+  define(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  define(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  define(
+    infoId,
+    "<< /Producer (Localley)"
+      + (info.title ? ` /Title ${pdfString(info.title)}` : "")
+      + (info.author ? ` /Author ${pdfString(info.author)}` : "")
+      + (info.subject ? ` /Subject ${pdfString(info.subject)}` : "")
+      + " >>"
+  );
+
+  const chunks: Uint8Array[] = [encoder.encode("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    for (const part of [encoder.encode(`${index + 1} 0 obj\n`), ...parts, encoder.encode("\nendobj\n")]) {
+      chunks.push(part);
+      length += part.length;
+    }
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(encoder.encode(xref));
+
+  return Buffer.concat(chunks);
+}
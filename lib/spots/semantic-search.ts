@@ -0,0 +1,261 @@
+/**
+ * Semantic spot retrieval
+ *
+ * Each spot is embedded from its name, categories, description, tips and best
+ * times, and the vector is stored per embedding model in `spot_embeddings`,
+ * which has an HNSW index per built-in embedder. `findSimilarSpotIds` looks
+ * up a city's nearest spots to free text such as "rainy-day quiet bookstore
+ * cafe" in that index; the ranking helpers order an already-fetched candidate
+ * set the same way. Vectors that are missing or stale are embedded on read
+ * and written back, so the index fills itself;
+ * `scripts/index-spot-embeddings.ts` backfills it ahead of traffic.
+ */
+
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { cosineSimilarity, getEmbeddingProvider, type EmbeddingProvider } from "@/lib/llm/embeddings";
+import { getLocalizedText } from "@/lib/spots/transform";
+import type { MultiLanguageField } from "@/types";
+
+/** Columns `buildSpotEmbeddingText` reads */
+export const SPOT_EMBEDDING_COLUMNS = "id, name, description, category, subcategories, tips, best_times";
+
+export interface EmbeddableSpot {
+    id: string;
+    name: unknown;
+    description?: unknown;
+    category?: string | null;
+    subcategories?: string[] | null;
+    tips?: unknown;
+    best_times?: unknown;
+}
+
+export interface StoredSpotEmbedding {
+    spotId: string;
+    contentHash: string;
+    embedding: number[];
+}
+
+export interface SpotEmbeddingStore {
+    load(spotIds: string[], model: string): Promise<StoredSpotEmbedding[]>;
+    save(model: string, rows: StoredSpotEmbedding[]): Promise<void>;
+    /** Ids of the city's spots with stored vectors nearest the query, closest first */
+    match(model: string, query: number[], city: string, limit: number): Promise<string[]>;
+}
+
+export interface SpotRetrievalDependencies {
+    embeddings?: EmbeddingProvider;
+    /** Where vectors persist between requests; without one, every spot is embedded per call */
+    store?: SpotEmbeddingStore | null;
+    logger?: Pick<Console, "error">;
+}
+
+const EMBED_BATCH_SIZE = 64;
+const STORE_LOOKUP_CHUNK = 200;
+
+function text(value: unknown): string {
+    if (typeof value === "string" || (typeof value === "object" && value !== null && !Array.isArray(value))) {
+        return getLocalizedText(value as MultiLanguageField).trim();
+    }
+    return "";
+}
+
+function tipsText(tips: unknown): string {
+    const list = Array.isArray(tips)
+        ? tips
+        : typeof tips === "object" && tips !== null
+            ? (tips as Record<string, unknown>).en ?? Object.values(tips)[0]
+            : null;
+    return Array.isArray(list) ? list.filter((tip) => typeof tip === "string").join(" ") : "";
+}
+
+/**
+ * The text a spot is embedded from; its hash decides when to re-embed
+ */
+export function buildSpotEmbeddingText(spot: EmbeddableSpot): string {
+    const categories = [spot.category, ...(spot.subcategories ?? [])].filter(Boolean).join(", ");
+    const bestTime = text(spot.best_times);
+    return [
+        text(spot.name),
+        categories,
+        text(spot.description),
+        tipsText(spot.tips),
+        bestTime ? `Best time: ${bestTime}` : "",
+    ]
+        .filter(Boolean)
+        .join("\n");
+}
+
+export function spotContentHash(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+export function createSpotEmbeddingStore(supabase: SupabaseClient): SpotEmbeddingStore {
+    return {
+        async load(spotIds, model) {
+            const rows: StoredSpotEmbedding[] = [];
+            for (let start = 0; start < spotIds.length; start += STORE_LOOKUP_CHUNK) {
+                const { data, error } = await supabase
+                    .from("spot_embeddings")
+                    .select("spot_id, content_hash, embedding")
+                    .eq("embedding_model", model)
+                    .in("spot_id", spotIds.slice(start, start + STORE_LOOKUP_CHUNK));
+
+                if (error) throw error;
+                for (const row of data ?? []) {
+                    rows.push({ spotId: row.spot_id, contentHash: row.content_hash, embedding: row.embedding });
+                }
+            }
+            return rows;
+        },
+
+        async save(model, rows) {
+            if (rows.length === 0) return;
+            const updatedAt = new Date().toISOString();
+            const { error } = await supabase.from("spot_embeddings").upsert(
+                rows.map((row) => ({
+                    spot_id: row.spotId,
+                    embedding_model: model,
+                    content_hash: row.contentHash,
+                    embedding: row.embedding,
+                    updated_at: updatedAt,
+                })),
+                { onConflict: "spot_id,embedding_model" }
+            );
+            if (error) throw error;
+        },
+
+        async match(model, query, city, limit) {
+            const { data, error } = await supabase.rpc("match_spot_embeddings", {
+                p_model: model,
+                p_query: query,
+                p_city: city,
+                p_limit: limit,
+            });
+            if (error) throw error;
+            return ((data ?? []) as Array<{ spot_id: string }>).map((row) => row.spot_id);
+        },
+    };
+}
+
+/**
+ * Vectors for the given spots, keyed by spot id. Stored vectors are reused
+ * while the spot's content is unchanged; the rest are embedded and saved.
+ * Returns how many spots needed embedding alongside the vectors.
+ */
+export async function embedSpots(
+    spots: EmbeddableSpot[],
+    dependencies: SpotRetrievalDependencies = {}
+): Promise<{ vectors: Map<string, number[]>; embedded: number }> {
+    const embeddings = dependencies.embeddings ?? getEmbeddingProvider();
+    const logger = dependencies.logger ?? console;
+    const store = dependencies.store ?? null;
+
+    const contents = new Map(spots.map((spot) => {
+        const content = buildSpotEmbeddingText(spot);
+        return [spot.id, { content, hash: spotContentHash(content) }];
+    }));
+    const vectors = new Map<string, number[]>();
+
+    if (store && contents.size > 0) {
+        try {
+            for (const row of await store.load([...contents.keys()], embeddings.name)) {
+                if (contents.get(row.spotId)?.hash === row.contentHash) {
+                    vectors.set(row.spotId, row.embedding);
+                }
+            }
+        } catch (error) {
+            logger.error("[SpotSearch] Could not load stored spot embeddings:", error);
+        }
+    }
+
+    const stale = [...contents].filter(([spotId, { content }]) => content && !vectors.has(spotId));
+    const fresh: StoredSpotEmbedding[] = [];
+    for (let start = 0; start < stale.length; start += EMBED_BATCH_SIZE) {
+        const batch = stale.slice(start, start + EMBED_BATCH_SIZE);
+        const batchVectors = await embeddings.embed(batch.map(([, { content }]) => content));
+        batch.forEach(([spotId, { hash }], index) => {
+            vectors.set(spotId, batchVectors[index]);
+            fresh.push({ spotId, contentHash: hash, embedding: batchVectors[index] });
+        });
+    }
+
+    if (store && fresh.length > 0) {
+        try {
+            await store.save(embeddings.name, fresh);
+        } catch (error) {
+            logger.error("[SpotSearch] Could not save spot embeddings:", error);
+        }
+    }
+
+    return { vectors, embedded: fresh.length };
+}
+
+/**
+ * Ids of the city's spots nearest the query in the stored index, closest
+ * first. Spots without a stored vector for the current embedder aren't found.
+ * Empty when the query is blank, there's no store, or the lookup fails.
+ */
+export async function findSimilarSpotIds(
+    query: string,
+    city: string,
+    limit: number,
+    dependencies: SpotRetrievalDependencies = {}
+): Promise<string[]> {
+    const store = dependencies.store ?? null;
+    if (!query.trim() || !store) return [];
+
+    const embeddings = dependencies.embeddings ?? getEmbeddingProvider();
+    try {
+        const [queryVector] = await embeddings.embed([query.trim()]);
+        return await store.match(embeddings.name, queryVector, city, limit);
+    } catch (error) {
+        (dependencies.logger ?? console).error("[SpotSearch] Similar spot lookup failed:", error);
+        return [];
+    }
+}
+
+/**
+ * Cosine similarity of each spot to the query, keyed by spot id. Empty when
+ * the query is blank or embedding fails, so callers keep their own ordering.
+ */
+export async function scoreSpotRelevance(
+    spots: EmbeddableSpot[],
+    query: string,
+    dependencies: SpotRetrievalDependencies = {}
+): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (!query.trim() || spots.length === 0) return scores;
+
+    const embeddings = dependencies.embeddings ?? getEmbeddingProvider();
+    try {
+        const [[queryVector], { vectors }] = await Promise.all([
+            embeddings.embed([query.trim()]),
+            embedSpots(spots, { ...dependencies, embeddings }),
+        ]);
+        for (const [spotId, vector] of vectors) {
+            scores.set(spotId, cosineSimilarity(queryVector, vector));
+        }
+    } catch (error) {
+        (dependencies.logger ?? console).error("[SpotSearch] Semantic ranking failed; keeping default order:", error);
+        scores.clear();
+    }
+    return scores;
+}
+
+/**
+ * Candidates ordered by relevance to the query. Ties, and every spot when
+ * embedding fails, keep their input order.
+ */
+export async function rankSpotsByRelevance<TSpot extends EmbeddableSpot>(
+    spots: TSpot[],
+    query: string,
+    dependencies: SpotRetrievalDependencies = {}
+): Promise<TSpot[]> {
+    const scores = await scoreSpotRelevance(spots, query, dependencies);
+    if (scores.size === 0) return spots;
+    return spots
+        .map((spot, index) => ({ spot, index, score: scores.get(spot.id) ?? -1 }))
+        .sort((left, right) => right.score - left.score || left.index - right.index)
+        .map(({ spot }) => spot);
+}
@@ -19,6 +19,19 @@ export const createSupabaseClient = (clerkToken?: string) => {
   return createClient(supabaseUrl, supabaseAnonKey, options);
 };
 
+/**
+ * Create a browser Supabase client that fetches a fresh Clerk token for every
+ * request and Realtime connection. Use this for long-lived clients, such as
+ * private Realtime channels, where a single token would expire.
+ */
+export const createSupabaseRealtimeClient = (getToken: () => Promise<string | null>) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase environment variables are not configured');
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, { accessToken: getToken });
+};
+
 /**
  * Create a Supabase admin client that bypasses RLS.
  *
@@ -0,0 +1,201 @@
+import { NextResponse } from "next/server";
+import type { CorridorPlan, PlannerValidationError } from "./corridor-planner";
+import type { StoredTrip, TripVersion } from "./trip-store";
+
+export const MAX_TRIP_BODY_BYTES = 32 * 1024;
+export const MAX_ORDER_ALTERNATIVES = 10;
+export const noStoreHeaders = { "Cache-Control": "no-store" };
+
+export type TripApiErrorCode =
+  | "INVALID_REQUEST"
+  | "UNAUTHORIZED"
+  | "NOT_FOUND"
+  | "UNKNOWN_DESTINATION"
+  | "UNSUPPORTED_ROUTE"
+  | "UNSATISFIABLE_TRIP"
+  | "LIMIT_EXCEEDED"
+  | "GENERATION_FAILED"
+  | "TRIP_CHANGED"
+  | "INTERNAL";
+
+export function tripErrorResponse(
+  status: number,
+  code: TripApiErrorCode,
+  message: string,
+  issues?: Array<{ path: string; message: string }>,
+) {
+  return NextResponse.json(
+    { ok: false, error: { code, message, ...(issues ? { issues } : {}) } },
+    { status, headers: noStoreHeaders },
+  );
+}
+
+/** Reads `?alternatives=N` for optimized orders; null when it is not a whole number in range. */
+export function readAlternativesParam(request: Request): number | null {
+  const value = new URL(request.url).searchParams.get("alternatives");
+  if (value === null) return 3;
+  if (!/^\d+$/.test(value)) return null;
+  const count = Number(value);
+  return count <= MAX_ORDER_ALTERNATIVES ? count : null;
+}
+
+export function tripNotFoundResponse() {
+  return NextResponse.json({ error: "Not found" }, { status: 404, headers: noStoreHeaders });
+}
+
+export async function readBoundedBody(request: Request): Promise<
+  | { ok: true; text: string }
+  | { ok: false; response: NextResponse }
+> {
+  const declaredLength = request.headers.get("content-length");
+  if (declaredLength !== null && !/^\d+$/.test(declaredLength)) {
+    return { ok: false, response: tripErrorResponse(400, "INVALID_REQUEST", "Content-Length must be a non-negative integer.") };
+  }
+  if (declaredLength !== null && Number(declaredLength) > MAX_TRIP_BODY_BYTES) {
+    return { ok: false, response: tripErrorResponse(413, "INVALID_REQUEST", "Request body is too large.") };
+  }
+
+  if (!request.body) return { ok: true, text: "" };
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let totalBytes = 0;
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.byteLength;
+    if (totalBytes > MAX_TRIP_BODY_BYTES) {
+      await reader.cancel().catch(() => undefined);
+      return { ok: false, response: tripErrorResponse(413, "INVALID_REQUEST", "Request body is too large.") };
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  text += decoder.decode();
+  return { ok: true, text };
+}
+
+/**
+ * Reads a bounded JSON body, enforcing the content type. Returns the parsed
+ * value or a ready-made error response.
+ */
+export async function readJsonBody(request: Request): Promise<
+  | { ok: true; value: unknown }
+  | { ok: false; response: NextResponse }
+> {
+  const contentType = request.headers.get("content-type")?.split(";", 1)[0].trim().toLowerCase();
+  if (contentType !== "application/json") {
+    return { ok: false, response: tripErrorResponse(415, "INVALID_REQUEST", "Content-Type must be application/json.") };
+  }
+  const body = await readBoundedBody(request);
+  if (!body.ok) return body;
+  try {
+    return { ok: true, value: JSON.parse(body.text) };
+  } catch {
+    return { ok: false, response: tripErrorResponse(400, "INVALID_REQUEST", "Request body must be valid JSON.") };
+  }
+}
+
+export function validationIssues(issues: ReadonlyArray<{ path: PropertyKey[]; message: string }>) {
+  return issues.map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+}
+
+function confidenceBand(value: number): "high" | "medium" | "low" {
+  return value >= 0.9 ? "high" : value >= 0.8 ? "medium" : "low";
+}
+
+function costBand(value: "budget" | "moderate" | "premium"): "$" | "$$" | "$$$" {
+  return value === "budget" ? "$" : value === "moderate" ? "$$" : "$$$";
+}
+
+export function toPreviewDto(plan: CorridorPlan) {
+  return {
+    plannerVersion: plan.plannerVersion,
+    stops: plan.stops.map((stop) => ({
+      position: stop.position,
+      destinationSlug: stop.destinationSlug,
+      nights: stop.nights,
+      ...(stop.dayTripFrom ? { dayTripFrom: stop.dayTripFrom } : {}),
+      dayIndexes: plan.days
+        .filter((day) => day.destinationSlug === stop.destinationSlug)
+        .map((day) => day.dayIndex),
+    })),
+    transfers: plan.transfers.map((transfer) => ({
+      position: transfer.position,
+      fromSlug: transfer.from,
+      toSlug: transfer.to,
+      mode: transfer.mode,
+      durationMinutes: transfer.durationMinutes,
+      terminalBufferMinutes: transfer.terminalBufferMinutes,
+      costBand: costBand(transfer.costBand),
+      confidence: confidenceBand(transfer.confidence),
+      ...(transfer.schedule ? { schedule: transfer.schedule } : {}),
+    })),
+    days: plan.days.map((day) => ({
+      dayIndex: day.dayIndex,
+      destinationSlug: day.destinationSlug,
+      type: day.type,
+      activeMinutesBudget: day.activeMinutesBudget,
+      ...(day.dayTripFrom ? { dayTripFrom: day.dayTripFrom } : {}),
+    })),
+    ...(plan.ordering ? { ordering: plan.ordering } : {}),
+    warnings: plan.days.some((day) => day.type === "transfer" && day.activeMinutesBudget === 0)
+      ? ["TRANSFER_DAY_FULL"]
+      : [],
+  };
+}
+
+export function classifyPlannerError(error: PlannerValidationError): {
+  code: "UNKNOWN_DESTINATION" | "UNSUPPORTED_ROUTE" | "UNSATISFIABLE_TRIP";
+  message: string;
+} {
+  const message = error.issues.map((issue) => issue.message).join(" ");
+  if (error.issues.some((issue) => issue.code === "UNKNOWN_DESTINATION")) {
+    return { code: "UNKNOWN_DESTINATION", message };
+  }
+  if (error.issues.some((issue) => issue.code === "UNSUPPORTED_ROUTE")) {
+    return { code: "UNSUPPORTED_ROUTE", message };
+  }
+  return { code: "UNSATISFIABLE_TRIP", message };
+}
+
+export function isTripsApiEnabled(): boolean {
+  return process.env.MULTI_CITY_TRIPS_API === "on";
+}
+
+/** Gates plan previews: the preview route and the chat planning tool. */
+export function isTripPreviewEnabled(): boolean {
+  return process.env.MULTI_CITY_PREVIEW_API === "on";
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isTripId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export function toTripDto(trip: StoredTrip) {
+  return {
+    id: trip.id,
+    title: trip.title,
+    status: trip.status,
+    version: trip.version,
+    request: trip.request,
+    plan: toPreviewDto(trip.plan),
+    itinerary: trip.itinerary,
+    createdAt: trip.createdAt,
+    updatedAt: trip.updatedAt,
+  };
+}
+
+export function toTripVersionDto(version: TripVersion) {
+  return {
+    version: version.version,
+    plannerVersion: version.plannerVersion,
+    changeSummary: version.changeSummary,
+    plan: toPreviewDto(version.plan),
+    createdAt: version.createdAt,
+  };
+}
@@ -0,0 +1,332 @@
+import { geographySeedManifest } from "../geography/seed-manifest";
+import { createSupabaseAdmin } from "../supabase";
+import { applyPublicSpotVisibilityFilters, shouldShowPublicSpot } from "../spots/public-quality";
+import { createSpotEmbeddingStore, scoreSpotRelevance } from "../spots/semantic-search";
+import {
+  describeGroundingInterests,
+  getPaceStopRange,
+  groundGeneratedDailyPlans,
+  rankItineraryGroundingSpots,
+  type GeneratedActivity,
+  type GeneratedDayPlan,
+  type ItineraryGroundingSpot,
+} from "../itineraries/grounded-generation";
+import type {
+  Activity,
+  DailyPlan,
+  GeneratedItinerary,
+  GeneratedItineraryInsight,
+  OrchestrationRequest,
+  OrchestrationResult,
+  UserTier,
+} from "../llm/types";
+import type {
+  CorridorPlan,
+  ParsedMultiCityTripRequest,
+  PlannedDay,
+  PlannedTransfer,
+} from "./corridor-planner";
+
+/** Active minutes one grounded stop takes, including the walk or ride to the next. */
+export const MINUTES_PER_GROUNDED_ACTIVITY = 120;
+
+export type CorridorDailyPlan = DailyPlan & {
+  destinationSlug: string;
+  dayType: PlannedDay["type"];
+  localDate: string | null;
+  activeMinutesBudget: number;
+};
+
+export type CorridorStopItinerary = {
+  destinationSlug: string;
+  city: string;
+  dayIndexes: number[];
+  fallbackUsed?: string;
+};
+
+export type CorridorItinerary = Omit<GeneratedItinerary, "dailyPlans"> & {
+  plannerVersion: CorridorPlan["plannerVersion"];
+  cities: string[];
+  stops: CorridorStopItinerary[];
+  dailyPlans: CorridorDailyPlan[];
+};
+
+export type CorridorItineraryDependencies = {
+  generateItinerary: (request: OrchestrationRequest) => Promise<OrchestrationResult>;
+  loadGroundingSpots: (city: string) => Promise<ItineraryGroundingSpot[]>;
+  /** Similarity of each spot to the trip's interests; ranking ignores it when absent */
+  scoreGroundingRelevance?: (spots: ItineraryGroundingSpot[], query: string) => Promise<Map<string, number>>;
+};
+
+export type CorridorItineraryOptions = {
+  tier: UserTier;
+  userId: string;
+  requestId: string;
+  localnessLevel?: number;
+};
+
+export class CorridorItineraryError extends Error {
+  constructor(
+    message: string,
+    public readonly destinationSlug: string,
+  ) {
+    super(message);
+    this.name = "CorridorItineraryError";
+  }
+}
+
+const dayTypeGuidance: Record<PlannedDay["type"], string> = {
+  arrival: "arrival day — the traveller checks in partway through the day, so favour light afternoon and evening stops near the hotel",
+  transfer: "transfer day — the traveller arrives from another city, so keep stops close together and late in the day",
+  departure: "departure day — leave time to check out and travel, so keep to a short morning near the hotel",
+  rest: "rest day — slow down with one or two unhurried, low-effort stops",
+  full: "full day",
+};
+
+function destinationName(slug: string): string {
+  return geographySeedManifest.destinations.find((destination) => destination.slug === slug)?.name.en || slug;
+}
+
+/**
+ * How many grounded activities fit a day's active-minute budget. Zero-budget
+ * transfer days get no activities rather than an invented one.
+ */
+export function activityCapacity(day: PlannedDay, pace: ParsedMultiCityTripRequest["pace"]): number {
+  if (day.activeMinutesBudget <= 0) return 0;
+  const { max } = getPaceStopRange(pace);
+  return Math.max(1, Math.min(max, Math.floor(day.activeMinutesBudget / MINUTES_PER_GROUNDED_ACTIVITY)));
+}
+
+/**
+ * Trims a grounded day to its capacity. Days that start with travel keep their
+ * latest activities; departure days keep their earliest.
+ */
+function fitActivitiesToDay<T>(activities: T[], day: PlannedDay, capacity: number): T[] {
+  if (activities.length <= capacity) return activities;
+  if (capacity === 0) return [];
+  return day.type === "arrival" || day.type === "transfer"
+    ? activities.slice(activities.length - capacity)
+    : activities.slice(0, capacity);
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h${String(rest).padStart(2, "0")}`;
+}
+
+function transferSummary(transfer: PlannedTransfer): string {
+  const duration = transfer.durationMinutes.min === transfer.durationMinutes.max
+    ? formatMinutes(transfer.durationMinutes.min)
+    : `${formatMinutes(transfer.durationMinutes.min)}–${formatMinutes(transfer.durationMinutes.max)}`;
+  const route = `${destinationName(transfer.from)} → ${destinationName(transfer.to)} by ${transfer.mode}`;
+  if (transfer.schedule) {
+    return `${route}, departing ${transfer.schedule.departureTime} and arriving ${transfer.schedule.arrivalTime}; free to explore from about ${transfer.schedule.readyTime}.`;
+  }
+  return `${route}, ${duration} plus about ${transfer.terminalBufferMinutes} minutes at terminals.`;
+}
+
+function buildStopTemplatePrompt(days: PlannedDay[], pace: ParsedMultiCityTripRequest["pace"]): string {
+  const lines = days.map((day, index) => {
+    const capacity = activityCapacity(day, pace);
+    return `- Day ${index + 1}: ${dayTypeGuidance[day.type]}; about ${day.activeMinutesBudget} active minutes, at most ${capacity} ${capacity === 1 ? "stop" : "stops"}.`;
+  });
+  return [
+    "This city is one stop of a multi-city trip. Respect each day's active-minute budget:",
+    ...lines,
+  ].join("\n");
+}
+
+// Grounding fills activities in from spots; default whatever neither gave
+function toActivity(activity: GeneratedActivity): Activity {
+  return {
+    ...activity,
+    time: activity.time || "",
+    type: activity.type || "afternoon",
+    name: activity.name || "",
+    address: activity.address || "",
+    description: activity.description || "",
+    category: activity.category || "Local",
+    localleyScore: activity.localleyScore ?? 0,
+    duration: activity.duration || "",
+    cost: activity.cost || "",
+  };
+}
+
+async function generateStop(
+  stopSlug: string,
+  days: PlannedDay[],
+  request: ParsedMultiCityTripRequest,
+  options: CorridorItineraryOptions,
+  dependencies: CorridorItineraryDependencies,
+): Promise<{ itinerary: GeneratedItinerary; plans: CorridorDailyPlan[]; fallbackUsed?: string }> {
+  const city = destinationName(stopSlug);
+  const preferences = {
+    days: days.length,
+    interests: request.interests,
+    localnessLevel: options.localnessLevel,
+    pace: request.pace,
+  };
+
+  const [result, candidates] = await Promise.all([
+    dependencies.generateItinerary({
+      type: "itinerary",
+      params: {
+        city,
+        days: days.length,
+        interests: request.interests,
+        budget: request.budget,
+        localnessLevel: options.localnessLevel,
+        pace: request.pace,
+        groupType: request.group.type,
+        templatePrompt: buildStopTemplatePrompt(days, request.pace),
+      },
+      tier: options.tier,
+      userId: options.userId,
+      requestId: `${options.requestId}:${stopSlug}`,
+    }),
+    dependencies.loadGroundingSpots(city),
+  ]);
+
+  if (!result.success || !result.data) {
+    throw new CorridorItineraryError(
+      `Could not generate the ${city} stop: ${result.error || "no itinerary returned"}.`,
+      stopSlug,
+    );
+  }
+
+  const relevance = await dependencies.scoreGroundingRelevance?.(
+    candidates,
+    describeGroundingInterests(request.interests),
+  );
+  const ranked = rankItineraryGroundingSpots(candidates, { ...preferences, relevance });
+  let grounded: GeneratedDayPlan[];
+  try {
+    grounded = groundGeneratedDailyPlans(result.data.dailyPlans, ranked, preferences);
+  } catch (error) {
+    throw new CorridorItineraryError(
+      error instanceof Error ? error.message : `Could not ground the ${city} stop.`,
+      stopSlug,
+    );
+  }
+
+  const plans = days.map((day, index): CorridorDailyPlan => {
+    const generated: GeneratedDayPlan = grounded[index] || {};
+    return {
+      ...generated,
+      day: day.dayIndex,
+      theme: generated.theme || `${city} — day ${index + 1}`,
+      activities: fitActivitiesToDay(
+        (generated.activities || []).map(toActivity),
+        day,
+        activityCapacity(day, request.pace),
+      ),
+      destinationSlug: stopSlug,
+      dayType: day.type,
+      localDate: day.localDate,
+      activeMinutesBudget: day.activeMinutesBudget,
+    };
+  });
+
+  return { itinerary: result.data, plans, fallbackUsed: result.fallbackUsed };
+}
+
+/**
+ * Loads the public, visible spots of one city as grounding candidates, using
+ * the same query shape as single-city generation.
+ */
+export async function loadCityGroundingSpots(city: string): Promise<ItineraryGroundingSpot[]> {
+  const supabase = createSupabaseAdmin();
+  const query = applyPublicSpotVisibilityFilters(
+    supabase
+      .from("spots")
+      .select("*")
+      .ilike("address->>en", `%${city}%`)
+      .gte("localley_score", 3),
+  )
+    .order("localley_score", { ascending: false })
+    .order("local_percentage", { ascending: false })
+    .limit(80);
+  const { data, error } = await query;
+  if (error) throw new Error(`Could not load verified ${city} spots: ${error.message}`);
+  return (data || []).filter((spot) => shouldShowPublicSpot(spot)) as ItineraryGroundingSpot[];
+}
+
+export async function scoreCityGroundingRelevance(
+  spots: ItineraryGroundingSpot[],
+  query: string,
+): Promise<Map<string, number>> {
+  return scoreSpotRelevance(spots, query, { store: createSpotEmbeddingStore(createSupabaseAdmin()) });
+}
+
+/**
+ * Fills every planned day of a corridor trip with grounded activities by
+ * generating each stop through the orchestrator, then stitches the stops into
+ * one multi-city document numbered by trip day.
+ */
+export async function generateCorridorItinerary(
+  plan: CorridorPlan,
+  request: ParsedMultiCityTripRequest,
+  options: CorridorItineraryOptions,
+  dependencies: CorridorItineraryDependencies,
+): Promise<CorridorItinerary> {
+  const stopResults = await Promise.all(plan.stops.map((stop) => generateStop(
+    stop.destinationSlug,
+    plan.days.filter((day) => day.destinationSlug === stop.destinationSlug),
+    request,
+    options,
+    dependencies,
+  )));
+
+  const dailyPlans = stopResults
+    .flatMap((result) => result.plans)
+    .sort((left, right) => left.day - right.day)
+    .map((day) => {
+      const planned = plan.days.find((candidate) => candidate.dayIndex === day.day);
+      const transfer = planned?.transferPosition === undefined
+        ? undefined
+        : plan.transfers[planned.transferPosition];
+      return transfer
+        ? { ...day, transportTips: [transferSummary(transfer), day.transportTips].filter(Boolean).join(" ") }
+        : day;
+    });
+
+  const cities = plan.stops.map((stop) => destinationName(stop.destinationSlug));
+  const insights: GeneratedItineraryInsight[] = [
+    ...plan.transfers.map((transfer) => ({
+      id: `transfer-${transfer.position}`,
+      label: "Getting between cities",
+      text: transferSummary(transfer),
+      kind: "transport" as const,
+    })),
+    ...stopResults.flatMap((result) => result.itinerary.insights || []),
+  ];
+  const localScores = stopResults.map((result) => result.itinerary.localScore).filter(Number.isFinite);
+
+  return {
+    title: `${plan.totalDays}-day ${cities.join(" → ")} trip`,
+    subtitle: plan.stops.map((stop) => `${destinationName(stop.destinationSlug)} (${
+      stop.dayTripFrom ? "day trip" : `${stop.nights} ${stop.nights === 1 ? "night" : "nights"}`
+    })`).join(" · "),
+    city: cities.join(" → "),
+    cities,
+    days: plan.totalDays,
+    localScore: localScores.length > 0
+      ? Math.round(localScores.reduce((sum, value) => sum + value, 0) / localScores.length)
+      : 0,
+    estimatedCost: stopResults
+      .map((result, index) => `${cities[index]}: ${result.itinerary.estimatedCost}`)
+      .join("; "),
+    highlights: stopResults.flatMap((result) => result.itinerary.highlights.slice(0, 2)),
+    insights,
+    plannerVersion: plan.plannerVersion,
+    stops: plan.stops.map((stop, index) => ({
+      destinationSlug: stop.destinationSlug,
+      city: cities[index],
+      dayIndexes: stopResults[index].plans.map((day) => day.day),
+      ...(stopResults[index].fallbackUsed ? { fallbackUsed: stopResults[index].fallbackUsed } : {}),
+    })),
+    dailyPlans,
+  };
+}
@@ -1,6 +1,12 @@
 import { z } from "zod";
 import { geographySeedManifest } from "../geography/seed-manifest";
 import { directedTransportEdges, type DirectedTransportEdge } from "./transport-manifest";
+import {
+  departuresOn,
+  formatServiceTime,
+  parseServiceTime,
+  type TransportTimetables,
+} from "./transport-timetables";
 
 const destinationSlugs = new Set(
   geographySeedManifest.destinations.map((destination) => destination.slug),
@@ -13,6 +19,7 @@ export const MultiCityTripRequestSchema = z.object({
     locked: z.boolean().default(false),
   }).strict()).min(1).max(5),
   orderMode: z.enum(["user", "optimize"]),
+  objective: z.enum(["balanced", "transfer_minutes", "cost", "hotel_changes"]).default("balanced"),
   startDate: z.iso.date().optional(),
   totalDays: z.number().int().min(3).max(21),
   budget: z.enum(["budget", "moderate", "premium"]),
@@ -46,8 +53,20 @@ type ParsedRequest = ParsedMultiCityTripRequest;
 export type PlannedStop = {
   destinationSlug: string;
   position: number;
+  /** 0 for a stop seen on a day trip. */
   nights: number;
   locked: boolean;
+  /** The overnight stop a day trip leaves from and returns to. */
+  dayTripFrom?: string;
+};
+
+export type TransferSchedule = {
+  source: "timetable";
+  departureTime: string;
+  arrivalTime: string;
+  /** When the traveller is through the arrival terminal and free to explore. */
+  readyTime: string;
+  service?: string;
 };
 
 export type PlannedTransfer = {
@@ -61,6 +80,7 @@ export type PlannedTransfer = {
   terminalBufferMinutes: number;
   costBand: DirectedTransportEdge["costBand"];
   confidence: number;
+  schedule?: TransferSchedule;
 };
 
 export type PlannedDay = {
@@ -70,16 +90,38 @@ export type PlannedDay = {
   type: "arrival" | "full" | "transfer" | "rest" | "departure";
   activeMinutesBudget: number;
   transferPosition?: number;
+  dayTripFrom?: string;
+};
+
+export type OrderObjective = ParsedMultiCityTripRequest["objective"];
+
+export type OrderingCandidate = {
+  order: string[];
+  score: number;
+  transferMinutes: number;
+  costScore: number;
+  hotelChanges: number;
+  /** Stops in `order` seen on a day trip from the overnight stop before them. */
+  dayTrips?: string[];
+};
+
+export type OrderingExplanation = {
+  objective: OrderObjective;
+  chosen: OrderingCandidate;
+  alternatives: OrderingCandidate[];
+  explanation: string;
 };
 
 export type CorridorPlan = {
-  plannerVersion: "corridor-v1";
+  // v2 schedules transfers from route timetables; saved trips may still hold v1 plans
+  plannerVersion: "corridor-v1" | "corridor-v2";
   totalDays: number;
   totalNights: number;
   stops: PlannedStop[];
   transfers: PlannedTransfer[];
   days: PlannedDay[];
   hardViolations: [];
+  ordering?: OrderingExplanation;
 };
 
 export type PlannerIssue = {
@@ -94,13 +136,47 @@ export class PlannerValidationError extends Error {
   }
 }
 
+export type PlannerOptions = {
+  /** Per-edge timetables; edges without one keep duration-only planning. */
+  timetables?: TransportTimetables;
+  /** How many runner-up orderings an optimized plan reports. Defaults to 3. */
+  alternatives?: number;
+};
+
 const paceWindowMinutes = { relaxed: 420, moderate: 540, active: 640 } as const;
+const dayStartMinutes = 9 * 60;
+const earliestHotelDepartureMinutes = 7 * 60;
+const latestReadyMinutes = 22 * 60;
+const longTransferMinutes = 180;
+/** Longest one-way trip, terminal buffers included, still worth a day trip. */
+const dayTripMaxMinutes = 150;
+
+function fillBudgetFor(pace: ParsedRequest["pace"]): number {
+  return Math.floor(paceWindowMinutes[pace] * 0.85);
+}
+
+/**
+ * Active minutes left in the destination once a timetabled traveller is ready
+ * to explore, measured against the same pace window as every other day.
+ */
+function scheduledTransferBudget(readyMinutes: number, durationMinutes: number, pace: ParsedRequest["pace"]): number {
+  const fillBudget = fillBudgetFor(pace);
+  const windowEnd = dayStartMinutes + paceWindowMinutes[pace];
+  const free = Math.max(0, windowEnd - Math.max(readyMinutes, dayStartMinutes));
+  const budget = Math.min(fillBudget, Math.floor(free * 0.85));
+  return durationMinutes > longTransferMinutes ? Math.min(Math.floor(fillBudget * 0.5), budget) : budget;
+}
 
 function edgeOccupancy(edge: DirectedTransportEdge): number {
   return edge.departureBufferMinutes + edge.durationMinutes.max +
     edge.arrivalBufferMinutes + edge.hotelChangeMinutes;
 }
 
+/** A day trip's leg leaves the bags at the hotel. */
+function dayTripLegMinutes(edge: DirectedTransportEdge): number {
+  return edge.departureBufferMinutes + edge.durationMinutes.max + edge.arrivalBufferMinutes;
+}
+
 function costPenalty(edge: DirectedTransportEdge, budget: ParsedRequest["budget"]): number {
   if (budget === "premium") return 0;
   if (budget === "moderate") return edge.costBand === "premium" ? 90 : 0;
@@ -118,6 +194,20 @@ function selectEdge(from: string, to: string, budget: ParsedRequest["budget"]):
     )[0] || null;
 }
 
+/** The out and back legs of a day trip, or null when it's too far to go and return the same day. */
+function dayTripLegs(
+  base: string,
+  destination: string,
+  budget: ParsedRequest["budget"],
+): [DirectedTransportEdge, DirectedTransportEdge] | null {
+  const out = selectEdge(base, destination, budget);
+  const back = selectEdge(destination, base, budget);
+  if (!out || !back) return null;
+  return dayTripLegMinutes(out) <= dayTripMaxMinutes && dayTripLegMinutes(back) <= dayTripMaxMinutes
+    ? [out, back]
+    : null;
+}
+
 function permutations<T>(values: readonly T[]): T[][] {
   if (values.length <= 1) return [[...values]];
   return values.flatMap((value, index) =>
@@ -126,46 +216,228 @@ function permutations<T>(values: readonly T[]): T[][] {
   );
 }
 
-function routeScore(
-  stops: ParsedRequest["destinations"],
+const costBandScore = { budget: 0, moderate: 1, premium: 2 } as const;
+
+const objectiveLabels: Record<OrderObjective, string> = {
+  balanced: "the best balance of transfer time, cost and route confidence",
+  transfer_minutes: "the fewest door-to-door transfer minutes",
+  cost: "the lowest transfer cost bands",
+  hotel_changes: "the fewest hotel changes",
+};
+
+const objectiveMeasures: Record<OrderObjective, string> = {
+  balanced: "overall score",
+  transfer_minutes: "transfer minutes",
+  cost: "cost bands",
+  hotel_changes: "hotel changes",
+};
+
+type OrderingMetrics = Omit<OrderingCandidate, "order" | "score" | "dayTrips"> & { balanced: number };
+
+/** A requested stop in trip order, possibly seen on a day trip. */
+type OrderedStop = ParsedRequest["destinations"][number] & { dayTripFrom?: string };
+
+/** Ranking keys per objective, compared in order. */
+const objectiveKeys: Record<OrderObjective, (metrics: OrderingMetrics) => number[]> = {
+  balanced: (metrics) => [metrics.balanced],
+  transfer_minutes: (metrics) => [metrics.transferMinutes, metrics.costScore],
+  cost: (metrics) => [metrics.costScore, metrics.transferMinutes],
+  hotel_changes: (metrics) => [metrics.hotelChanges, metrics.transferMinutes, metrics.costScore],
+};
+
+/**
+ * Transfers between overnight stops each change hotels; day trips add their
+ * out and back legs without one.
+ */
+function orderingMetrics(
+  stops: OrderedStop[],
   budget: ParsedRequest["budget"],
-): number | null {
-  let score = 0;
-  for (let index = 0; index < stops.length - 1; index += 1) {
-    const edge = selectEdge(stops[index].destinationSlug, stops[index + 1].destinationSlug, budget);
+): OrderingMetrics | null {
+  const overnight = stops.filter((stop) => !stop.dayTripFrom);
+  const metrics = { transferMinutes: 0, costScore: 0, hotelChanges: overnight.length - 1, balanced: 0 };
+  const add = (edge: DirectedTransportEdge, minutes: number) => {
+    metrics.transferMinutes += minutes;
+    metrics.costScore += costBandScore[edge.costBand];
+    metrics.balanced += minutes + costPenalty(edge, budget) - edge.confidence * 10;
+  };
+  for (let index = 0; index < overnight.length - 1; index += 1) {
+    const edge = selectEdge(overnight[index].destinationSlug, overnight[index + 1].destinationSlug, budget);
     if (!edge) return null;
-    score += edgeOccupancy(edge) + costPenalty(edge, budget) - edge.confidence * 10;
+    add(edge, edgeOccupancy(edge));
+  }
+  for (const stop of stops) {
+    if (!stop.dayTripFrom) continue;
+    const legs = dayTripLegs(stop.dayTripFrom, stop.destinationSlug, budget);
+    if (!legs) return null;
+    for (const leg of legs) add(leg, dayTripLegMinutes(leg));
+  }
+  return metrics;
+}
+
+/**
+ * Every way to see some stops on day trips from the overnight stop before
+ * them instead of moving hotels. Only unlocked stops without requested nights
+ * within a day trip of that stop qualify; the first stop is always overnight.
+ */
+function dayTripVariants(stops: ParsedRequest["destinations"], budget: ParsedRequest["budget"]): OrderedStop[][] {
+  let variants: OrderedStop[][] = [[]];
+  stops.forEach((stop, index) => {
+    variants = variants.flatMap((prefix) => {
+      const base = prefix.findLast((previous) => !previous.dayTripFrom);
+      const qualifies = index > 0 && !stop.locked && stop.nights === undefined && base !== undefined &&
+        dayTripLegs(base.destinationSlug, stop.destinationSlug, budget) !== null;
+      return qualifies
+        ? [[...prefix, stop], [...prefix, { ...stop, dayTripFrom: base.destinationSlug }]]
+        : [[...prefix, stop]];
+    });
+  });
+  return variants;
+}
+
+/** Whether a base keeps a free day for each day trip once nights are allocated. */
+function fitsDayTrips(stops: OrderedStop[], totalDays: number): boolean {
+  if (stops.every((stop) => !stop.dayTripFrom)) return true;
+  try {
+    allocateNights(stops, totalDays);
+    return true;
+  } catch (error) {
+    if (error instanceof PlannerValidationError) return false;
+    throw error;
+  }
+}
+
+function compareKeys(left: number[], right: number[]): number {
+  for (let index = 0; index < left.length; index += 1) {
+    if (left[index] !== right[index]) return left[index] - right[index];
+  }
+  return 0;
+}
+
+function destinationName(slug: string): string {
+  return geographySeedManifest.destinations.find((destination) => destination.slug === slug)?.name.en || slug;
+}
+
+function describeOrder(candidate: OrderingCandidate): string {
+  return candidate.order
+    .map((slug) => candidate.dayTrips?.includes(slug) ? `${destinationName(slug)} (day trip)` : destinationName(slug))
+    .join(" → ");
+}
+
+function sameMeasures(left: OrderingCandidate, right: OrderingCandidate): boolean {
+  return left.score === right.score &&
+    left.transferMinutes === right.transferMinutes &&
+    left.costScore === right.costScore &&
+    left.hotelChanges === right.hotelChanges;
+}
+
+/**
+ * Explains the winner against the best order that measures differently; orders
+ * that tie on every measure (usually the reverse route) are named as ties.
+ */
+function explainOrdering(objective: OrderObjective, candidates: OrderingCandidate[]): string {
+  const [chosen, ...rest] = candidates;
+  const ties = rest.filter((candidate) => sameMeasures(candidate, chosen));
+  const tieNote = ties.length === 0
+    ? ""
+    : ` It ties with ${ties.map((candidate) => describeOrder(candidate)).join(" and ")} and comes first by name.`;
+  const runnerUp = rest.find((candidate) => !sameMeasures(candidate, chosen));
+  const lead = runnerUp?.score === chosen.score
+    ? `${describeOrder(chosen)} ties on ${objectiveMeasures[objective]} and wins the tie-break`
+    : `${describeOrder(chosen)} has ${objectiveLabels[objective]}`;
+  if (!runnerUp) {
+    return ties.length === 0
+      ? `${lead}; it is the only order that keeps locked stops in place on reviewed routes.`
+      : `${lead}.${tieNote}`;
+  }
+  const comparisons: string[] = [];
+  if (runnerUp.hotelChanges !== chosen.hotelChanges) {
+    const difference = runnerUp.hotelChanges - chosen.hotelChanges;
+    comparisons.push(`${Math.abs(difference)} ${difference > 0 ? "fewer" : "more"} hotel ${Math.abs(difference) === 1 ? "change" : "changes"}`);
+  }
+  if (runnerUp.transferMinutes !== chosen.transferMinutes) {
+    const difference = runnerUp.transferMinutes - chosen.transferMinutes;
+    comparisons.push(`${Math.abs(difference)} ${difference > 0 ? "fewer" : "more"} transfer minutes`);
+  }
+  if (runnerUp.costScore !== chosen.costScore) {
+    comparisons.push(runnerUp.costScore > chosen.costScore ? "cheaper transfers" : "pricier transfers");
   }
-  return score;
+  const versus = comparisons.length === 0
+    ? `: the same transfer minutes and cost as ${describeOrder(runnerUp)}, on more reliable routes.`
+    : `: ${comparisons.join(" and ")} than the next best order, ${describeOrder(runnerUp)}.`;
+  return `${lead}${versus}${tieNote}`;
 }
 
-function orderStops(request: ParsedRequest): ParsedRequest["destinations"] {
+/**
+ * Optimized orders keep every locked stop at its requested position and rank
+ * the remaining permutations by the request's objective. Minimising hotel
+ * changes also weighs seeing nearby stops on day trips.
+ */
+function orderStops(
+  request: ParsedRequest,
+  alternativeCount: number,
+): { stops: OrderedStop[]; ordering?: OrderingExplanation } {
   if (request.orderMode === "user" || request.destinations.length === 1) {
-    return request.destinations;
+    return { stops: request.destinations };
   }
-  const feasible = permutations(request.destinations)
-    .map((stops) => ({ stops, score: routeScore(stops, request.budget) }))
-    .filter((candidate): candidate is { stops: ParsedRequest["destinations"]; score: number } =>
-      candidate.score !== null,
+  const keysFor = objectiveKeys[request.objective];
+  const slugsOf = (stops: OrderedStop[]) => stops.map((stop) => stop.destinationSlug);
+  const tieKey = (stops: OrderedStop[]) =>
+    stops.map((stop) => stop.dayTripFrom ? `${stop.destinationSlug}~` : stop.destinationSlug).join(",");
+  const orders = permutations(request.destinations)
+    .filter((stops) => stops.every((stop, index) =>
+      !stop.locked || request.destinations[index].destinationSlug === stop.destinationSlug,
+    ));
+  const feasible = (request.objective === "hotel_changes"
+    ? orders.flatMap((stops) => dayTripVariants(stops, request.budget))
+      .filter((stops) => fitsDayTrips(stops, request.totalDays))
+    : orders)
+    .map((stops) => ({ stops, metrics: orderingMetrics(stops, request.budget) }))
+    .filter((candidate): candidate is { stops: OrderedStop[]; metrics: OrderingMetrics } =>
+      candidate.metrics !== null,
     )
-    .sort((left, right) => left.score - right.score ||
-      left.stops.map((stop) => stop.destinationSlug).join(",")
-        .localeCompare(right.stops.map((stop) => stop.destinationSlug).join(",")));
+    .sort((left, right) => compareKeys(keysFor(left.metrics), keysFor(right.metrics)) ||
+      tieKey(left.stops).localeCompare(tieKey(right.stops)));
   if (!feasible[0]) {
     throw new PlannerValidationError([{
       code: "UNSUPPORTED_ROUTE",
       message: "No supported transfer order connects every requested destination.",
     }]);
   }
-  return feasible[0].stops;
+  const candidates = feasible.map(({ stops, metrics }): OrderingCandidate => {
+    const dayTrips = slugsOf(stops.filter((stop) => stop.dayTripFrom));
+    return {
+      order: slugsOf(stops),
+      score: Math.round(keysFor(metrics)[0] * 10) / 10,
+      transferMinutes: metrics.transferMinutes,
+      costScore: metrics.costScore,
+      hotelChanges: metrics.hotelChanges,
+      ...(dayTrips.length > 0 ? { dayTrips } : {}),
+    };
+  });
+  return {
+    stops: feasible[0].stops,
+    ordering: {
+      objective: request.objective,
+      chosen: candidates[0],
+      alternatives: candidates.slice(1, 1 + alternativeCount),
+      explanation: explainOrdering(request.objective, candidates),
+    },
+  };
 }
 
+/**
+ * Day-trip stops take no nights; each takes one of its base's full days, so
+ * spare nights go first to the stops with the fewest free days.
+ */
 function allocateNights(
-  ordered: ParsedRequest["destinations"],
+  ordered: OrderedStop[],
   totalDays: number,
 ): PlannedStop[] {
   const availableNights = totalDays - 1;
-  const nights = ordered.map((stop) => stop.nights ?? 2);
+  const nights = ordered.map((stop) => stop.dayTripFrom ? 0 : stop.nights ?? 2);
+  const dayTrips = ordered.map((stop) =>
+    ordered.filter((other) => other.dayTripFrom === stop.destinationSlug).length,
+  );
   const minimum = nights.reduce((sum, value) => sum + value, 0);
   if (minimum > availableNights) {
     throw new PlannerValidationError([{
@@ -176,9 +448,9 @@ function allocateNights(
   let remaining = availableNights - minimum;
   while (remaining > 0) {
     const candidates = ordered
-      .map((stop, index) => ({ stop, index, nights: nights[index] }))
-      .filter(({ stop }) => !stop.locked)
-      .sort((left, right) => left.nights - right.nights || left.index - right.index);
+      .map((stop, index) => ({ stop, index, freeDays: nights[index] - dayTrips[index] }))
+      .filter(({ stop }) => !stop.locked && !stop.dayTripFrom)
+      .sort((left, right) => left.freeDays - right.freeDays || left.index - right.index);
     if (candidates.length === 0) {
       throw new PlannerValidationError([{
         code: "UNSATISFIABLE_TRIP",
@@ -188,11 +460,19 @@ function allocateNights(
     nights[candidates[0].index] += 1;
     remaining -= 1;
   }
+  const short = ordered.find((stop, index) => dayTrips[index] > 0 && nights[index] - 1 < dayTrips[index]);
+  if (short) {
+    throw new PlannerValidationError([{
+      code: "UNSATISFIABLE_TRIP",
+      message: `${short.destinationSlug} has too few nights for its day trips.`,
+    }]);
+  }
   return ordered.map((stop, position) => ({
     destinationSlug: stop.destinationSlug,
     position,
     nights: nights[position],
     locked: stop.locked,
+    ...(stop.dayTripFrom ? { dayTripFrom: stop.dayTripFrom } : {}),
   }));
 }
 
@@ -203,16 +483,63 @@ function addUtcDays(date: string | undefined, offset: number): string | null {
   return value.toISOString().slice(0, 10);
 }
 
-function buildTransfers(stops: PlannedStop[], budget: ParsedRequest["budget"]): PlannedTransfer[] {
-  return stops.slice(0, -1).map((stop, position) => {
-    const to = stops[position + 1];
-    const edge = selectEdge(stop.destinationSlug, to.destinationSlug, budget);
+/**
+ * Picks the timetabled departure that leaves the most active time at the
+ * destination. Departures that need a hotel checkout before 07:00 or leave the
+ * traveller at the terminal after 22:00 are skipped; with none left the
+ * transfer falls back to its duration range.
+ */
+function scheduleTransfer(
+  edge: DirectedTransportEdge,
+  localDate: string | null,
+  pace: ParsedRequest["pace"],
+  timetables: TransportTimetables,
+): TransferSchedule | undefined {
+  const timetable = timetables.get(edge.id);
+  if (!timetable) return undefined;
+  const best = departuresOn(timetable, localDate)
+    .map((item) => {
+      const departure = parseServiceTime(item.departure);
+      const arrival = parseServiceTime(item.arrival);
+      const ready = arrival + edge.arrivalBufferMinutes;
+      return {
+        item,
+        departure,
+        ready,
+        leaveHotel: departure - edge.departureBufferMinutes - edge.hotelChangeMinutes,
+        budget: scheduledTransferBudget(ready, arrival - departure, pace),
+      };
+    })
+    .filter((candidate) => candidate.leaveHotel >= earliestHotelDepartureMinutes && candidate.ready <= latestReadyMinutes)
+    .sort((left, right) => right.budget - left.budget || right.departure - left.departure)[0];
+  if (!best) return undefined;
+  return {
+    source: "timetable",
+    departureTime: best.item.departure,
+    arrivalTime: best.item.arrival,
+    readyTime: formatServiceTime(best.ready),
+    ...(best.item.service ? { service: best.item.service } : {}),
+  };
+}
+
+function buildTransfers(
+  stops: PlannedStop[],
+  request: ParsedRequest,
+  timetables: TransportTimetables,
+): PlannedTransfer[] {
+  const overnight = stops.filter((stop) => !stop.dayTripFrom);
+  let cumulativeNights = 0;
+  return overnight.slice(0, -1).map((stop, position) => {
+    const to = overnight[position + 1];
+    cumulativeNights += stop.nights;
+    const edge = selectEdge(stop.destinationSlug, to.destinationSlug, request.budget);
     if (!edge) {
       throw new PlannerValidationError([{
         code: "UNSUPPORTED_ROUTE",
         message: `No reviewed transfer edge connects ${stop.destinationSlug} to ${to.destinationSlug}.`,
       }]);
     }
+    const schedule = scheduleTransfer(edge, addUtcDays(request.startDate, cumulativeNights), request.pace, timetables);
     return {
       position,
       edgeId: edge.id,
@@ -224,18 +551,27 @@ function buildTransfers(stops: PlannedStop[], budget: ParsedRequest["budget"]):
       terminalBufferMinutes: edge.departureBufferMinutes + edge.arrivalBufferMinutes,
       costBand: edge.costBand,
       confidence: edge.confidence,
+      ...(schedule ? { schedule } : {}),
     };
   });
 }
 
+/**
+ * Day trips fill their base's first full days, out and back on the same day.
+ */
 function buildDays(request: ParsedRequest, stops: PlannedStop[], transfers: PlannedTransfer[]): PlannedDay[] {
-  const fillBudget = Math.floor(paceWindowMinutes[request.pace] * 0.85);
+  const fillBudget = fillBudgetFor(request.pace);
+  const overnight = stops.filter((stop) => !stop.dayTripFrom);
   const boundaries = new Map<number, number>();
   let cumulativeNights = 0;
-  for (let position = 0; position < stops.length - 1; position += 1) {
-    cumulativeNights += stops[position].nights;
+  for (let position = 0; position < overnight.length - 1; position += 1) {
+    cumulativeNights += overnight[position].nights;
     boundaries.set(cumulativeNights + 1, position);
   }
+  const pendingDayTrips = new Map(overnight.map((base) => [
+    base.destinationSlug,
+    stops.filter((stop) => stop.dayTripFrom === base.destinationSlug),
+  ]));
   const days: PlannedDay[] = [];
   let stopPosition = 0;
   let activeFullDays = 0;
@@ -244,6 +580,8 @@ function buildDays(request: ParsedRequest, stops: PlannedStop[], transfers: Plan
     let type: PlannedDay["type"] = "full";
     let activeMinutesBudget = fillBudget;
     let transferPosition: number | undefined;
+    let destinationSlug = overnight[stopPosition].destinationSlug;
+    let dayTripFrom: string | undefined;
     if (dayIndex === 1) {
       type = "arrival";
       activeMinutesBudget = Math.floor(fillBudget * 0.5);
@@ -253,13 +591,29 @@ function buildDays(request: ParsedRequest, stops: PlannedStop[], transfers: Plan
     } else if (boundaries.has(dayIndex)) {
       transferPosition = boundaries.get(dayIndex)!;
       stopPosition = transferPosition + 1;
+      destinationSlug = overnight[stopPosition].destinationSlug;
       const transfer = transfers[transferPosition];
       type = "transfer";
-      const remainingMinutes = Math.max(0, fillBudget - transfer.occupiedMinutes);
-      activeMinutesBudget = transfer.durationMinutes.max > 180
-        ? Math.min(Math.floor(fillBudget * 0.5), remainingMinutes)
-        : remainingMinutes;
+      if (transfer.schedule) {
+        activeMinutesBudget = scheduledTransferBudget(
+          parseServiceTime(transfer.schedule.readyTime),
+          parseServiceTime(transfer.schedule.arrivalTime) - parseServiceTime(transfer.schedule.departureTime),
+          request.pace,
+        );
+      } else {
+        const remainingMinutes = Math.max(0, fillBudget - transfer.occupiedMinutes);
+        activeMinutesBudget = transfer.durationMinutes.max > longTransferMinutes
+          ? Math.min(Math.floor(fillBudget * 0.5), remainingMinutes)
+          : remainingMinutes;
+      }
       activeFullDays = 0;
+    } else if (pendingDayTrips.get(destinationSlug)?.length) {
+      const dayTrip = pendingDayTrips.get(destinationSlug)!.shift()!;
+      const legs = dayTripLegs(destinationSlug, dayTrip.destinationSlug, request.budget)!;
+      activeMinutesBudget = Math.max(0, fillBudget - legs.reduce((sum, leg) => sum + dayTripLegMinutes(leg), 0));
+      dayTripFrom = destinationSlug;
+      destinationSlug = dayTrip.destinationSlug;
+      activeFullDays += 1;
     } else {
       activeFullDays += 1;
       if (activeFullDays > restCadence) {
@@ -271,10 +625,11 @@ function buildDays(request: ParsedRequest, stops: PlannedStop[], transfers: Plan
     days.push({
       dayIndex,
       localDate: addUtcDays(request.startDate, dayIndex - 1),
-      destinationSlug: stops[stopPosition].destinationSlug,
+      destinationSlug,
       type,
       activeMinutesBudget,
       ...(transferPosition === undefined ? {} : { transferPosition }),
+      ...(dayTripFrom ? { dayTripFrom } : {}),
     });
   }
   return days;
@@ -308,7 +663,7 @@ function validateRequest(request: ParsedRequest): void {
   if (issues.length > 0) throw new PlannerValidationError(issues);
 }
 
-export function planCorridorTrip(input: MultiCityTripRequest): CorridorPlan {
+export function planCorridorTrip(input: MultiCityTripRequest, options: PlannerOptions = {}): CorridorPlan {
   const parsed = MultiCityTripRequestSchema.safeParse(input);
   if (!parsed.success) {
     throw new PlannerValidationError(parsed.error.issues.map((issue) => ({
@@ -317,17 +672,18 @@ export function planCorridorTrip(input: MultiCityTripRequest): CorridorPlan {
     })));
   }
   validateRequest(parsed.data);
-  const ordered = orderStops(parsed.data);
+  const { stops: ordered, ordering } = orderStops(parsed.data, options.alternatives ?? 3);
   const stops = allocateNights(ordered, parsed.data.totalDays);
-  const transfers = buildTransfers(stops, parsed.data.budget);
+  const transfers = buildTransfers(stops, parsed.data, options.timetables ?? new Map());
   const days = buildDays(parsed.data, stops, transfers);
   return {
-    plannerVersion: "corridor-v1",
+    plannerVersion: "corridor-v2",
     totalDays: parsed.data.totalDays,
     totalNights: parsed.data.totalDays - 1,
     stops,
     transfers,
     days,
     hardViolations: [],
+    ...(ordering ? { ordering } : {}),
   };
 }
@@ -0,0 +1,10 @@
+import krJp from "./kr-jp.json";
+import southeastAsia from "./southeast-asia.json";
+import taiwan from "./taiwan.json";
+
+/**
+ * Every corridor file the planner loads. A new corridor is a JSON file in
+ * this folder plus a line here; its id, destinations and routes are checked
+ * as data when the manifests are parsed.
+ */
+export const transportCorridorFiles: readonly unknown[] = [krJp, southeastAsia, taiwan];
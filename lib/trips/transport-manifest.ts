@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { geographySeedManifest } from "../geography/seed-manifest";
+import { transportCorridorFiles } from "./transport-corridors";
 
 const destinationSlugs = new Set(
   geographySeedManifest.destinations.map((destination) => destination.slug),
@@ -41,160 +42,127 @@ const routeSchema = z.object({
   }
 });
 
-export const TransportManifestSchema = z.object({
-  version: z.literal(1),
-  corridor: z.literal("kr-jp"),
-  routes: z.array(routeSchema).min(10),
-}).superRefine((manifest, ctx) => {
+/** Corridor ids come from the files themselves; they only need to be slugs. */
+export const TransportCorridorSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Corridor ids are lowercase slugs.");
+
+export type TransportCorridor = z.infer<typeof TransportCorridorSchema>;
+export type TransportRoute = z.infer<typeof routeSchema>;
+
+type RouteIssue = { message: string; path: PropertyKey[] };
+
+/**
+ * Flags slugs and directed from/to/mode keys that repeat. Slugs are the seed
+ * upsert key and directed keys drive edge selection, so both must be unique
+ * across every corridor, not just within one file.
+ */
+function duplicateRouteIssues(
+  routes: ReadonlyArray<{ route: TransportRoute; path: PropertyKey[] }>,
+): RouteIssue[] {
+  const issues: RouteIssue[] = [];
   const slugs = new Set<string>();
   const directedKeys = new Set<string>();
-  for (const [index, route] of manifest.routes.entries()) {
-    if (slugs.has(route.slug)) {
-      ctx.addIssue({ code: "custom", message: `Duplicate route slug: ${route.slug}`, path: ["routes", index] });
-    }
+  for (const { route, path } of routes) {
+    if (slugs.has(route.slug)) issues.push({ message: `Duplicate route slug: ${route.slug}`, path });
     slugs.add(route.slug);
     const keys = [`${route.from}:${route.to}:${route.mode}`];
     if (route.bidirectional) keys.push(`${route.to}:${route.from}:${route.mode}`);
     for (const key of keys) {
-      if (directedKeys.has(key)) {
-        ctx.addIssue({ code: "custom", message: `Duplicate directed route: ${key}`, path: ["routes", index] });
-      }
+      if (directedKeys.has(key)) issues.push({ message: `Duplicate directed route: ${key}`, path });
       directedKeys.add(key);
     }
   }
-});
+  return issues;
+}
 
-export type TransportRoute = z.infer<typeof routeSchema>;
+export const TransportManifestSchema = z.object({
+  version: z.literal(1),
+  corridor: TransportCorridorSchema,
+  routes: z.array(routeSchema).min(1),
+}).superRefine((manifest, ctx) => {
+  const routes = manifest.routes.map((route, index) => ({ route, path: ["routes", index] }));
+  for (const issue of duplicateRouteIssues(routes)) ctx.addIssue({ code: "custom", ...issue });
+});
 
-const RETRIEVED_AT = "2026-07-15T00:00:00.000Z";
-const REVIEWED_AT = "2026-07-15T00:00:00.000Z";
-const RECHECK_AFTER = "2027-01-15";
+export type TransportManifest = z.infer<typeof TransportManifestSchema>;
 
-const source = (publisher: string, url: string, note: string) => ({
-  publisher,
-  url,
-  retrievedAt: RETRIEVED_AT,
-  note,
+const TransportManifestSetSchema = z.array(TransportManifestSchema).min(1).superRefine((manifests, ctx) => {
+  const corridors = new Set<string>();
+  for (const [index, manifest] of manifests.entries()) {
+    if (corridors.has(manifest.corridor)) {
+      ctx.addIssue({ code: "custom", message: `Duplicate corridor: ${manifest.corridor}`, path: [index, "corridor"] });
+    }
+    corridors.add(manifest.corridor);
+  }
+  const routes = manifests.flatMap((manifest, index) =>
+    manifest.routes.map((route, routeIndex) => ({ route, path: [index, "routes", routeIndex] })),
+  );
+  for (const issue of duplicateRouteIssues(routes)) ctx.addIssue({ code: "custom", ...issue });
 });
 
-const route = (
-  value: Omit<TransportRoute, "bidirectional" | "hotelChangeMinutes" | "reviewStatus" | "reviewedAt" | "recheckAfter">,
-): TransportRoute => ({
-  ...value,
-  bidirectional: true,
-  hotelChangeMinutes: 45,
-  reviewStatus: "machine_checked",
-  reviewedAt: REVIEWED_AT,
-  recheckAfter: RECHECK_AFTER,
-});
+/**
+ * Validates a set of corridor manifest files together. Each file is checked on
+ * its own, then slugs and directed routes are checked across the whole set.
+ */
+export function parseTransportManifests(files: readonly unknown[]): TransportManifest[] {
+  return TransportManifestSetSchema.parse(files);
+}
 
-export const transportManifest = TransportManifestSchema.parse({
-  version: 1,
-  corridor: "kr-jp",
-  routes: [
-    route({
-      slug: "seoul-busan-ktx", from: "seoul", to: "busan", mode: "train",
-      durationMinutes: { min: 150, max: 200 }, departureBufferMinutes: 35, arrivalBufferMinutes: 20,
-      costBand: "moderate", confidence: 0.9,
-      bookingHint: "Check the current KORAIL timetable and reserve busy departures in advance.",
-      sources: [source("Korea Tourism Organization", "https://english.visitkorea.or.kr/svc/contents/contentsView.do?vcontsId=1589997", "Official visitor guidance confirms direct Seoul–Busan rail services and conservative journey ranges.")],
-    }),
-    route({
-      slug: "seoul-gyeongju-ktx", from: "seoul", to: "gyeongju", mode: "train",
-      durationMinutes: { min: 120, max: 155 }, departureBufferMinutes: 35, arrivalBufferMinutes: 25,
-      costBand: "moderate", confidence: 0.9,
-      bookingHint: "Use the current KORAIL timetable; Gyeongju station requires an onward local transfer.",
-      sources: [source("Korea Tourism Organization", "https://english.visitkorea.or.kr/svc/contents/contentsView.do?vcontsId=221840", "Official destination guidance states about two hours by KTX from Seoul to Gyeongju.")],
-    }),
-    route({
-      slug: "busan-gyeongju-train", from: "busan", to: "gyeongju", mode: "train",
-      durationMinutes: { min: 55, max: 85 }, departureBufferMinutes: 35, arrivalBufferMinutes: 25,
-      costBand: "budget", confidence: 0.82,
-      bookingHint: "Confirm the current Donghae Line departure and the station used in Busan.",
-      sources: [source("Korea Tourism Organization", "https://english.visitkorea.or.kr/svc/contents/contentsView.do?menuSn=219&vcontsId=1591437", "Official 2026 Donghae Line guidance lists Bujeon, Taehwagang, and Gyeongju segment times.")],
-    }),
-    route({
-      slug: "seoul-jeju-flight", from: "seoul", to: "jeju", mode: "flight",
-      durationMinutes: { min: 70, max: 95 }, departureBufferMinutes: 120, arrivalBufferMinutes: 45,
-      costBand: "moderate", confidence: 0.84,
-      bookingHint: "Search both Gimpo and limited Incheon departures; never assume a specific schedule.",
-      sources: [source("Korea Tourism Organization", "https://english.visitkorea.or.kr/svc/contents/contentsView.do?menuSn=177&vcontsId=1589896", "Official guidance confirms the Seoul-area to Jeju air link and an approximately 75-minute flight.")],
-    }),
-    route({
-      slug: "busan-jeju-flight", from: "busan", to: "jeju", mode: "flight",
-      durationMinutes: { min: 55, max: 80 }, departureBufferMinutes: 120, arrivalBufferMinutes: 45,
-      costBand: "moderate", confidence: 0.82,
-      bookingHint: "Check live airline schedules for Gimhae–Jeju before presenting a departure.",
-      sources: [source("Air Busan", "https://en.airbusan.com/content/individual/booking/route", "The operator's current route page lists Busan–Jeju as a domestic route.")],
-    }),
-    route({
-      slug: "tokyo-kyoto-shinkansen", from: "tokyo", to: "kyoto", mode: "train",
-      durationMinutes: { min: 130, max: 170 }, departureBufferMinutes: 35, arrivalBufferMinutes: 20,
-      costBand: "moderate", confidence: 0.94,
-      bookingHint: "Check the current JR Central timetable and train-specific Japan Rail Pass conditions.",
-      sources: [source("JR Central", "https://global.jr-central.co.jp/en/onlinebooking/contents/shinkansen/", "The official operator guide states about 130 minutes between Tokyo and Kyoto.")],
-    }),
-    route({
-      slug: "tokyo-osaka-shinkansen", from: "tokyo", to: "osaka", mode: "train",
-      durationMinutes: { min: 141, max: 185 }, departureBufferMinutes: 35, arrivalBufferMinutes: 25,
-      costBand: "moderate", confidence: 0.94,
-      bookingHint: "Plan for arrival at Shin-Osaka and a separate local transfer to the accommodation area.",
-      sources: [source("JR Central", "https://global.jr-central.co.jp/en/company/about_shinkansen/", "The official operator reports a fastest Tokyo–Shin-Osaka time of 2 hours 21 minutes.")],
-    }),
-    route({
-      slug: "kyoto-osaka-jr", from: "kyoto", to: "osaka", mode: "train",
-      durationMinutes: { min: 28, max: 55 }, departureBufferMinutes: 25, arrivalBufferMinutes: 20,
-      costBand: "budget", confidence: 0.9,
-      bookingHint: "Select the station pair that matches the accommodation; this edge is city-center to city-center guidance.",
-      sources: [source("JR West", "https://www.westjr.co.jp/global/en/ir/library/fact-sheets/2024/pdf/fact09.pdf", "The official fact sheet lists Osaka–Kyoto rail travel from 28 minutes.")],
-    }),
-    route({
-      slug: "osaka-nara-train", from: "osaka", to: "nara", mode: "train",
-      durationMinutes: { min: 33, max: 60 }, departureBufferMinutes: 25, arrivalBufferMinutes: 20,
-      costBand: "budget", confidence: 0.9,
-      bookingHint: "Choose JR or Kintetsu according to the exact Osaka and Nara neighborhoods.",
-      sources: [source("JR West", "https://www.westjr.co.jp/global/en/ir/library/fact-sheets/2024/pdf/fact09.pdf", "The official fact sheet lists representative Osaka-area to Nara rail times of 33–36 minutes.")],
-    }),
-    route({
-      slug: "kyoto-nara-kintetsu", from: "kyoto", to: "nara", mode: "train",
-      durationMinutes: { min: 33, max: 55 }, departureBufferMinutes: 25, arrivalBufferMinutes: 20,
-      costBand: "budget", confidence: 0.9,
-      bookingHint: "Check current Kintetsu service dates and use regular trains when the sightseeing express is unavailable.",
-      sources: [source("Kintetsu Railway", "https://www.kintetsu.co.jp/foreign/english/aoniyoshi/", "The official 2026 timetable shows Kyoto–Kintetsu-Nara journeys of roughly 33–36 minutes.")],
-    }),
-    route({
-      slug: "seoul-tokyo-flight", from: "seoul", to: "tokyo", mode: "flight",
-      durationMinutes: { min: 130, max: 180 }, departureBufferMinutes: 180, arrivalBufferMinutes: 75,
-      costBand: "premium", confidence: 0.8,
-      bookingHint: "Search all Seoul/Tokyo airport pairs and verify the actual operating day before proposing a flight.",
-      sources: [source("Air Busan", "https://en.airbusan.com/content/individual/booking/route", "The current operator route map confirms Incheon–Tokyo service; exact schedules remain provider data.")],
-    }),
-    route({
-      slug: "busan-osaka-flight", from: "busan", to: "osaka", mode: "flight",
-      durationMinutes: { min: 80, max: 120 }, departureBufferMinutes: 180, arrivalBufferMinutes: 75,
-      costBand: "premium", confidence: 0.82,
-      bookingHint: "Verify the live Gimhae–Kansai schedule and include airport-to-city transfers separately.",
-      sources: [source("Air Busan", "https://en.airbusan.com/content/individual/booking/route", "The current operator route map explicitly lists Busan–Osaka (Kansai).")],
-    }),
-  ],
-});
+/** Corridor files are content, not code; add a route by editing the JSON. */
+export const transportManifests: readonly TransportManifest[] = parseTransportManifests(transportCorridorFiles);
 
 export type DirectedTransportEdge = TransportRoute & {
   id: string;
+  corridor: TransportCorridor;
+  manifestVersion: TransportManifest["version"];
   reverseOf?: string;
 };
 
-export const directedTransportEdges: readonly DirectedTransportEdge[] = transportManifest.routes.flatMap((item) => {
-  const forward: DirectedTransportEdge = { ...item, id: item.slug };
-  if (!item.bidirectional) return [forward];
-  return [
-    forward,
-    {
+export const directedTransportEdges: readonly DirectedTransportEdge[] = transportManifests.flatMap((manifest) =>
+  manifest.routes.flatMap((item) => {
+    const forward: DirectedTransportEdge = {
       ...item,
-      id: `${item.slug}-reverse`,
-      from: item.to,
-      to: item.from,
-      reverseOf: item.slug,
-    },
-  ];
-});
+      id: item.slug,
+      corridor: manifest.corridor,
+      manifestVersion: manifest.version,
+    };
+    if (!item.bidirectional) return [forward];
+    return [
+      forward,
+      {
+        ...forward,
+        id: `${item.slug}-reverse`,
+        from: item.to,
+        to: item.from,
+        reverseOf: item.slug,
+      },
+    ];
+  }),
+);
+
+export type StaleTransportRoute = {
+  corridor: TransportCorridor;
+  slug: string;
+  recheckAfter: string;
+  daysOverdue: number;
+};
+
+/**
+ * Lists manifest routes whose recheck date is on or before `asOf` (an ISO
+ * date), most overdue first. Stale routes still plan; this is an editor queue.
+ */
+export function findStaleTransportRoutes(
+  asOf: string,
+  manifests: readonly TransportManifest[] = transportManifests,
+): StaleTransportRoute[] {
+  const today = Date.parse(`${asOf}T00:00:00Z`);
+  if (Number.isNaN(today)) throw new Error(`Invalid report date: ${asOf}`);
+  return manifests
+    .flatMap((manifest) => manifest.routes.map((route) => ({
+      corridor: manifest.corridor,
+      slug: route.slug,
+      recheckAfter: route.recheckAfter,
+      daysOverdue: Math.round((today - Date.parse(`${route.recheckAfter}T00:00:00Z`)) / 86_400_000),
+    })))
+    .filter((route) => route.daysOverdue >= 0)
+    .sort((left, right) => right.daysOverdue - left.daysOverdue || left.slug.localeCompare(right.slug));
+}
@@ -0,0 +1,97 @@
+import { readdirSync, readFileSync } from "node:fs";
+import * as path from "node:path";
+import { z } from "zod";
+import { directedTransportEdges } from "./transport-manifest";
+
+const edgeIds = new Set(directedTransportEdges.map((edge) => edge.id));
+
+const serviceDays = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+/** GTFS-style service time: hours may pass 24 for trips that run after midnight. */
+const serviceTimeSchema = z.string().regex(/^(?:[0-3]\d|4[0-7]):[0-5]\d$/);
+
+const departureSchema = z.object({
+  departure: serviceTimeSchema,
+  arrival: serviceTimeSchema,
+  days: z.array(z.enum(serviceDays)).min(1).default([...serviceDays]),
+  service: z.string().min(1).max(80).optional(),
+}).strict().refine((item) => parseServiceTime(item.arrival) > parseServiceTime(item.departure), {
+  message: "Arrival must be after departure.",
+});
+
+export const RouteTimetableSchema = z.object({
+  version: z.literal(1),
+  edgeId: z.string(),
+  validFrom: z.iso.date().optional(),
+  validUntil: z.iso.date().optional(),
+  departures: z.array(departureSchema).min(1),
+}).strict().superRefine((timetable, ctx) => {
+  if (!edgeIds.has(timetable.edgeId)) {
+    ctx.addIssue({ code: "custom", message: `Timetable uses an unknown edge: ${timetable.edgeId}`, path: ["edgeId"] });
+  }
+  if (timetable.validFrom && timetable.validUntil && timetable.validUntil < timetable.validFrom) {
+    ctx.addIssue({ code: "custom", message: "validUntil must not precede validFrom.", path: ["validUntil"] });
+  }
+});
+
+export type RouteTimetable = z.infer<typeof RouteTimetableSchema>;
+export type TimetableDeparture = RouteTimetable["departures"][number];
+export type TransportTimetables = ReadonlyMap<string, RouteTimetable>;
+
+export function parseServiceTime(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function formatServiceTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Departures of a directed edge that run on `localDate`. Without a trip date
+ * every departure is a candidate, since the weekday is unknown.
+ */
+export function departuresOn(timetable: RouteTimetable, localDate: string | null): TimetableDeparture[] {
+  if (!localDate) return timetable.departures;
+  if (timetable.validFrom && localDate < timetable.validFrom) return [];
+  if (timetable.validUntil && localDate > timetable.validUntil) return [];
+  const weekday = serviceDays[(new Date(`${localDate}T00:00:00.000Z`).getUTCDay() + 6) % 7];
+  return timetable.departures.filter((item) => item.days.includes(weekday));
+}
+
+/**
+ * Reads every `*.json` timetable in a directory, one file per directed edge.
+ * Files are validated together so an edge cannot have two timetables.
+ */
+export function loadTransportTimetables(directory: string): TransportTimetables {
+  const timetables = new Map<string, RouteTimetable>();
+  const files = readdirSync(directory).filter((file) => file.endsWith(".json")).sort();
+  for (const file of files) {
+    const parsed = RouteTimetableSchema.safeParse(JSON.parse(readFileSync(path.join(directory, file), "utf8")));
+    if (!parsed.success) {
+      throw new Error(`Invalid transport timetable ${file}: ${parsed.error.issues.map((issue) => issue.message).join(" ")}`);
+    }
+    if (timetables.has(parsed.data.edgeId)) {
+      throw new Error(`Duplicate transport timetable for ${parsed.data.edgeId} in ${file}.`);
+    }
+    timetables.set(parsed.data.edgeId, parsed.data);
+  }
+  return timetables;
+}
+
+let configuredTimetables: TransportTimetables | undefined;
+
+/**
+ * Timetables from `TRANSPORT_TIMETABLES_DIR`, loaded once per process. Unset
+ * means duration-only planning for every route.
+ */
+export function getConfiguredTransportTimetables(): TransportTimetables {
+  if (!configuredTimetables) {
+    const directory = process.env.TRANSPORT_TIMETABLES_DIR;
+    configuredTimetables = directory
+      ? loadTransportTimetables(path.resolve(process.cwd(), directory))
+      : new Map();
+  }
+  return configuredTimetables;
+}
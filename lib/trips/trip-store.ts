@@ -0,0 +1,315 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  MultiCityTripRequestSchema,
+  type CorridorPlan,
+  type ParsedMultiCityTripRequest,
+} from "./corridor-planner";
+import type { CorridorItinerary } from "./corridor-itinerary";
+
+export const TripTitleSchema = z.string().trim().min(1).max(200);
+
+export const CreateTripRequestSchema = z.object({
+  title: TripTitleSchema,
+  trip: MultiCityTripRequestSchema,
+}).strict();
+
+export const UpdateTripRequestSchema = z.object({
+  title: TripTitleSchema.optional(),
+  trip: MultiCityTripRequestSchema.optional(),
+}).strict().refine((value) => value.title !== undefined || value.trip !== undefined, {
+  message: "Provide a title or trip to update.",
+});
+
+export type TripStatus = "draft" | "generated" | "edited" | "archived";
+
+export type StoredTrip = {
+  id: string;
+  title: string;
+  status: TripStatus;
+  version: number;
+  request: ParsedMultiCityTripRequest;
+  plan: CorridorPlan;
+  /** The itinerary generated for this version of the plan, if any */
+  itinerary: CorridorItinerary | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TripSummary = {
+  id: string;
+  title: string;
+  status: TripStatus;
+  startDate: string | null;
+  totalDays: number;
+  version: number;
+  updatedAt: string;
+};
+
+export type TripVersion = {
+  version: number;
+  plannerVersion: string;
+  changeSummary: string | null;
+  plan: CorridorPlan;
+  createdAt: string;
+};
+
+export class TripStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NOT_FOUND" | "DATABASE",
+  ) {
+    super(message);
+    this.name = "TripStoreError";
+  }
+}
+
+const TRIP_SUMMARY_COLUMNS = "id,title,status,start_date,total_days,current_version,created_at,updated_at";
+
+type TripRow = {
+  id: string;
+  title: string;
+  status: TripStatus;
+  start_date: string | null;
+  total_days: number;
+  current_version: number;
+  created_at: string;
+  updated_at: string;
+};
+
+function sameJson(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Names the planner-relevant fields that differ between two requests, or
+ * returns null when a re-plan would be a no-op.
+ */
+export function describeTripChanges(
+  previous: ParsedMultiCityTripRequest,
+  next: ParsedMultiCityTripRequest,
+): string | null {
+  const changes: string[] = [];
+  const previousSlugs = previous.destinations.map((stop) => stop.destinationSlug);
+  const nextSlugs = next.destinations.map((stop) => stop.destinationSlug);
+  if (!sameJson([...previousSlugs].sort(), [...nextSlugs].sort())) {
+    changes.push("destinations");
+  } else if (
+    !sameJson(previousSlugs, nextSlugs) ||
+    previous.orderMode !== next.orderMode ||
+    // Versions saved before objectives existed were ranked the balanced way.
+    (previous.objective ?? "balanced") !== next.objective
+  ) {
+    changes.push("order");
+  }
+  const nightsOf = (request: ParsedMultiCityTripRequest) => request.destinations
+    .map((stop) => [stop.destinationSlug, stop.nights ?? null, stop.locked] as const)
+    .sort(([left], [right]) => left.localeCompare(right));
+  if (!changes.includes("destinations") && !sameJson(nightsOf(previous), nightsOf(next))) {
+    changes.push("nights");
+  }
+  if (previous.totalDays !== next.totalDays) changes.push("totalDays");
+  if ((previous.startDate ?? null) !== (next.startDate ?? null)) changes.push("startDate");
+  if (previous.budget !== next.budget) changes.push("budget");
+  if (previous.pace !== next.pace) changes.push("pace");
+  if (!sameJson(previous.group, next.group)) changes.push("group");
+  if (!sameJson(previous.interests, next.interests)) changes.push("interests");
+  return changes.length > 0 ? `Updated ${changes.join(", ")}.` : null;
+}
+
+async function callSaveTripPlan(
+  supabase: SupabaseClient,
+  args: {
+    tripId: string | null;
+    clerkUserId: string;
+    title: string | null;
+    request: ParsedMultiCityTripRequest;
+    plan: CorridorPlan;
+    changeSummary: string | null;
+  },
+): Promise<{ tripId: string; version: number }> {
+  const { data, error } = await supabase.rpc("save_trip_plan", {
+    p_trip_id: args.tripId,
+    p_clerk_user_id: args.clerkUserId,
+    p_title: args.title,
+    p_request: args.request,
+    p_plan: args.plan,
+    p_change_summary: args.changeSummary,
+  });
+  if (error) {
+    if (error.code === "P0002") throw new TripStoreError("Trip not found.", "NOT_FOUND");
+    throw new TripStoreError(`Could not save trip plan: ${error.message}`, "DATABASE");
+  }
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { saved_trip_id: string; saved_version: number }
+    | null;
+  if (!row) throw new TripStoreError("Trip plan save returned no row.", "DATABASE");
+  return { tripId: row.saved_trip_id, version: row.saved_version };
+}
+
+export function createTrip(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  title: string,
+  request: ParsedMultiCityTripRequest,
+  plan: CorridorPlan,
+): Promise<{ tripId: string; version: number }> {
+  return callSaveTripPlan(supabase, {
+    tripId: null,
+    clerkUserId,
+    title,
+    request,
+    plan,
+    changeSummary: "Created trip.",
+  });
+}
+
+export function saveTripReplan(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  tripId: string,
+  title: string | null,
+  request: ParsedMultiCityTripRequest,
+  plan: CorridorPlan,
+  changeSummary: string,
+): Promise<{ tripId: string; version: number }> {
+  return callSaveTripPlan(supabase, { tripId, clerkUserId, title, request, plan, changeSummary });
+}
+
+export async function loadTrip(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  tripId: string,
+): Promise<StoredTrip | null> {
+  const { data: trip, error } = await supabase
+    .from("trips")
+    .select(`${TRIP_SUMMARY_COLUMNS},itinerary,itinerary_version`)
+    .eq("id", tripId)
+    .eq("clerk_user_id", clerkUserId)
+    .maybeSingle<TripRow & { itinerary: CorridorItinerary | null; itinerary_version: number | null }>();
+  if (error) throw new TripStoreError(`Could not load trip: ${error.message}`, "DATABASE");
+  if (!trip || trip.current_version < 1) return null;
+
+  const { data: version, error: versionError } = await supabase
+    .from("trip_versions")
+    .select("request,plan")
+    .eq("trip_id", tripId)
+    .eq("version", trip.current_version)
+    .maybeSingle<{ request: ParsedMultiCityTripRequest; plan: CorridorPlan }>();
+  if (versionError) {
+    throw new TripStoreError(`Could not load trip version: ${versionError.message}`, "DATABASE");
+  }
+  if (!version) return null;
+
+  return {
+    id: trip.id,
+    title: trip.title,
+    status: trip.status,
+    version: trip.current_version,
+    request: version.request,
+    plan: version.plan,
+    itinerary: trip.itinerary_version === trip.current_version ? trip.itinerary : null,
+    createdAt: trip.created_at,
+    updatedAt: trip.updated_at,
+  };
+}
+
+export async function listTrips(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  limit = 50,
+): Promise<TripSummary[]> {
+  const { data, error } = await supabase
+    .from("trips")
+    .select(TRIP_SUMMARY_COLUMNS)
+    .eq("clerk_user_id", clerkUserId)
+    .neq("status", "archived")
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new TripStoreError(`Could not list trips: ${error.message}`, "DATABASE");
+  return ((data || []) as TripRow[]).map((row) => ({
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    startDate: row.start_date,
+    totalDays: row.total_days,
+    version: row.current_version,
+    updatedAt: row.updated_at,
+  }));
+}
+
+export async function renameTrip(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  tripId: string,
+  title: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("trips")
+    .update({ title, updated_at: new Date().toISOString() })
+    .eq("id", tripId)
+    .eq("clerk_user_id", clerkUserId)
+    .select("id");
+  if (error) throw new TripStoreError(`Could not rename trip: ${error.message}`, "DATABASE");
+  return (data || []).length > 0;
+}
+
+/**
+ * Saves a generated itinerary against the plan version it was generated from
+ * and marks the trip generated. Returns false when the trip was re-planned
+ * (or deleted) in the meantime, in which case nothing is saved.
+ */
+export async function saveTripItinerary(
+  supabase: SupabaseClient,
+  tripId: string,
+  version: number,
+  itinerary: CorridorItinerary,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("save_trip_itinerary", {
+    p_trip_id: tripId,
+    p_version: version,
+    p_itinerary: itinerary,
+  });
+  if (error) throw new TripStoreError(`Could not save trip itinerary: ${error.message}`, "DATABASE");
+  return data === true;
+}
+
+export async function deleteTrip(
+  supabase: SupabaseClient,
+  clerkUserId: string,
+  tripId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("trips")
+    .delete()
+    .eq("id", tripId)
+    .eq("clerk_user_id", clerkUserId)
+    .select("id");
+  if (error) throw new TripStoreError(`Could not delete trip: ${error.message}`, "DATABASE");
+  return (data || []).length > 0;
+}
+
+export async function listTripVersions(
+  supabase: SupabaseClient,
+  tripId: string,
+): Promise<TripVersion[]> {
+  const { data, error } = await supabase
+    .from("trip_versions")
+    .select("version,planner_version,change_summary,plan,created_at")
+    .eq("trip_id", tripId)
+    .order("version", { ascending: false });
+  if (error) throw new TripStoreError(`Could not load trip versions: ${error.message}`, "DATABASE");
+  return ((data || []) as Array<{
+    version: number;
+    planner_version: string;
+    change_summary: string | null;
+    plan: CorridorPlan;
+    created_at: string;
+  }>).map((row) => ({
+    version: row.version,
+    plannerVersion: row.planner_version,
+    changeSummary: row.change_summary,
+    plan: row.plan,
+    createdAt: row.created_at,
+  }));
+}
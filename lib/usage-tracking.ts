@@ -444,6 +444,33 @@ export async function checkAndIncrementUsageWeighted(
     return { allowed: result.allowed, usage, tier };
 }
 
+/**
+ * Give back usage charged up front for work that then failed.
+ * Never throws: a failed refund is logged, not surfaced to the user.
+ */
+export async function refundUsage(
+    clerkUserId: string,
+    usageType: UsageType,
+    amount: number = 1
+): Promise<{ success: boolean; newCount: number }> {
+    const config = usageTypeConfig[usageType];
+    const supabase = createSupabaseAdmin();
+
+    const { data, error } = await supabase.rpc("refund_usage", {
+        p_clerk_user_id: clerkUserId,
+        p_usage_type: usageType,
+        p_period_type: config.periodType,
+        p_amount: amount,
+    });
+
+    if (error) {
+        console.error("[usage-tracking] Refund failed:", error);
+        return { success: false, newCount: 0 };
+    }
+
+    return { success: true, newCount: data || 0 };
+}
+
 /**
  * Track usage after successful operation (legacy pattern).
  * Prefer using checkAndIncrementUsage() which does this atomically.
@@ -1,6 +1,7 @@
 import { z } from "zod";
 
-// Chat API validation
+// Chat API validation. Tool calls aren't accepted from the client: any sent
+// are stripped, and tool history only comes from the server's stored replies.
 export const chatSchema = z.object({
     messages: z.array(
         z.object({
@@ -9,6 +10,8 @@ export const chatSchema = z.object({
         })
     ).min(1).max(50),
     city: z.string().max(100).optional(),
+    itineraryId: z.string().uuid().optional(),
+    conversationId: z.string().uuid().optional(),
 });
 
 // Itinerary generation validation
@@ -56,16 +59,15 @@ export const updateItinerarySchema = z.object({
 // Gamification action validation
 export const gamificationActionSchema = z.object({
     action: z.enum([
-        "verify",
-        "verify_spot",
-        "share",
-        "share_spot",
         "checkin",
         "discover_spot",
         "create_itinerary",
         "daily_login",
         "streak_bonus",
     ]),
+    // The entity the XP is for; spot actions need spotId, create_itinerary an itineraryId
+    spotId: z.string().uuid().optional(),
+    itineraryId: z.string().uuid().optional(),
 });
 
 // Spot save validation
@@ -0,0 +1,361 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseAdmin } from "@/lib/supabase";
+import { XP_REWARDS, getLevel } from "@/lib/gamification";
+import { toCitySlug } from "@/lib/cities";
+
+/**
+ * Server-side XP. Every award is an append-only `xp_ledger` row with a reason
+ * and the entity that earned it; totals, level and streak are recomputed from
+ * the ledger rather than incremented, so they can always be explained and
+ * corrected by reversing rows.
+ */
+
+export type XpReason =
+    | "discover_spot"
+    | "verify_spot"
+    | "share_spot"
+    | "share_itinerary"
+    | "create_itinerary"
+    | "write_review"
+    | "follow_user"
+    | "daily_login"
+    | "streak_bonus"
+    | "challenge_completed"
+    | "season_award";
+
+export type XpSourceType = "spot" | "itinerary" | "review" | "user" | "challenge" | "season";
+
+/** Fixed amounts (challenges and seasons pay their own reward) and awards allowed per UTC day */
+export const XP_RULES: Record<XpReason, { amount: number | null; dailyCap: number | null }> = {
+    discover_spot: { amount: XP_REWARDS.DISCOVER_SPOT, dailyCap: 10 },
+    verify_spot: { amount: XP_REWARDS.VERIFY_SPOT, dailyCap: 5 },
+    share_spot: { amount: XP_REWARDS.SHARE_SPOT, dailyCap: 5 },
+    share_itinerary: { amount: XP_REWARDS.SHARE_SPOT, dailyCap: 5 },
+    create_itinerary: { amount: XP_REWARDS.CREATE_ITINERARY, dailyCap: 5 },
+    write_review: { amount: XP_REWARDS.WRITE_REVIEW, dailyCap: 5 },
+    follow_user: { amount: XP_REWARDS.FOLLOW_USER, dailyCap: 10 },
+    daily_login: { amount: XP_REWARDS.DAILY_LOGIN, dailyCap: 1 },
+    streak_bonus: { amount: XP_REWARDS.STREAK_BONUS, dailyCap: 1 },
+    challenge_completed: { amount: null, dailyCap: null },
+    season_award: { amount: null, dailyCap: null },
+};
+
+export interface XpAward {
+    clerkUserId: string;
+    reason: XpReason;
+    source?: { type: XpSourceType; id: string } | null;
+    /** Where it was earned, for city leaderboards */
+    city?: string | null;
+    /** Required for reasons without a fixed amount */
+    amount?: number;
+    /**
+     * What makes this award unique for the user. Defaults to the reason and
+     * source, or the reason and UTC day when there is no source.
+     */
+    idempotencyKey?: string;
+    metadata?: Record<string, unknown>;
+    at?: Date;
+}
+
+export interface XpTotals {
+    totalXp: number;
+    level: number;
+    streak: number;
+}
+
+export interface XpAwardResult extends XpTotals {
+    status: "awarded" | "duplicate" | "capped";
+    awarded: number;
+    previousLevel: number;
+}
+
+export class XpLedgerError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "UNKNOWN_USER" | "INVALID_AMOUNT" | "DATABASE",
+    ) {
+        super(message);
+        this.name = "XpLedgerError";
+    }
+}
+
+interface LedgerRow {
+    id: string;
+    amount: number;
+    reason: string;
+    reverses: string | null;
+    metadata?: Record<string, unknown> | null;
+    created_at: string;
+}
+
+const PAGE_SIZE = 1000;
+
+function utcDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Consecutive login days ending today or yesterday (a streak survives until
+ * a full day is missed). `days` are UTC dates as YYYY-MM-DD.
+ */
+export function countStreak(days: Iterable<string>, today: Date = new Date()): number {
+    const logged = new Set(days);
+    const cursor = new Date(`${utcDay(today)}T00:00:00Z`);
+    if (!logged.has(utcDay(cursor))) {
+        cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+
+    let streak = 0;
+    while (logged.has(utcDay(cursor))) {
+        streak++;
+        cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+    return streak;
+}
+
+/**
+ * The login days behind the streak a user had before the ledger existed,
+ * recorded on their opening balance as `streak` days ending on `streak_through`
+ */
+function openingStreakDays(row: LedgerRow): string[] {
+    const streak = Number(row.metadata?.streak);
+    const through = row.metadata?.streak_through;
+    if (!Number.isInteger(streak) || streak <= 0 || typeof through !== "string") return [];
+
+    const cursor = new Date(`${through}T00:00:00Z`);
+    if (Number.isNaN(cursor.getTime())) return [];
+
+    const days: string[] = [];
+    for (let index = 0; index < streak; index++) {
+        days.push(utcDay(cursor));
+        cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+    return days;
+}
+
+/**
+ * Totals from a user's full ledger; reversed login days don't count toward the
+ * streak, and a streak carried over on the opening balance continues it
+ */
+export function summarizeXpLedger(rows: LedgerRow[], today: Date = new Date()): XpTotals {
+    const reversed = new Set(rows.map((row) => row.reverses).filter(Boolean));
+    const totalXp = Math.max(0, rows.reduce((sum, row) => sum + row.amount, 0));
+    const loginDays = rows
+        .filter((row) => row.reason === "daily_login" && row.amount > 0 && !reversed.has(row.id))
+        .map((row) => utcDay(new Date(row.created_at)))
+        .concat(rows.filter((row) => row.reason === "opening_balance").flatMap(openingStreakDays));
+
+    return { totalXp, level: getLevel(totalXp), streak: countStreak(loginDays, today) };
+}
+
+async function loadLedger(supabase: SupabaseClient, userId: string): Promise<LedgerRow[]> {
+    const rows: LedgerRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from("xp_ledger")
+            .select("id, amount, reason, reverses, metadata, created_at")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw new XpLedgerError(`Could not load XP ledger: ${error.message}`, "DATABASE");
+
+        rows.push(...((data || []) as LedgerRow[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+}
+
+/** Rewrite `users.xp`/`level` and `user_progress.current_streak` from the ledger */
+export async function recomputeUserProgress(
+    supabase: SupabaseClient,
+    userId: string,
+    today: Date = new Date(),
+): Promise<XpTotals> {
+    const totals = summarizeXpLedger(await loadLedger(supabase, userId), today);
+
+    const { error: userError } = await supabase
+        .from("users")
+        .update({ xp: totals.totalXp, level: totals.level })
+        .eq("id", userId);
+    if (userError) throw new XpLedgerError(`Could not update user XP: ${userError.message}`, "DATABASE");
+
+    const { error: progressError } = await supabase
+        .from("user_progress")
+        .upsert(
+            { user_id: userId, current_streak: totals.streak, updated_at: today.toISOString() },
+            { onConflict: "user_id" }
+        );
+    if (progressError) {
+        throw new XpLedgerError(`Could not update user progress: ${progressError.message}`, "DATABASE");
+    }
+
+    return totals;
+}
+
+/**
+ * Append an award to the ledger and refresh the user's totals. Repeats of the
+ * same idempotency key and awards past the reason's daily cap are recorded as
+ * nothing and reported through `status`.
+ */
+export async function awardXp(award: XpAward, client?: SupabaseClient): Promise<XpAwardResult> {
+    const supabase = client ?? createSupabaseAdmin();
+    const at = award.at ?? new Date();
+    const rule = XP_RULES[award.reason];
+    const amount = rule.amount ?? award.amount ?? 0;
+    if (!Number.isInteger(amount) || amount <= 0) {
+        throw new XpLedgerError(`Invalid XP amount for ${award.reason}: ${amount}`, "INVALID_AMOUNT");
+    }
+
+    const { data: user, error: userError } = await supabase
+        .from("users")
+        .select("id, xp, level")
+        .eq("clerk_id", award.clerkUserId)
+        .maybeSingle();
+    if (userError) throw new XpLedgerError(`Could not load user: ${userError.message}`, "DATABASE");
+    if (!user) throw new XpLedgerError("User not found", "UNKNOWN_USER");
+
+    const previousLevel = user.level || getLevel(user.xp || 0);
+    const unchanged = async (status: "duplicate" | "capped"): Promise<XpAwardResult> => {
+        const { data: progress } = await supabase
+            .from("user_progress")
+            .select("current_streak")
+            .eq("user_id", user.id)
+            .maybeSingle();
+        return {
+            status,
+            awarded: 0,
+            previousLevel,
+            totalXp: user.xp || 0,
+            level: previousLevel,
+            streak: progress?.current_streak || 0,
+        };
+    };
+
+    const idempotencyKey = award.idempotencyKey
+        ?? (award.source ? `${award.reason}:${award.source.type}:${award.source.id}` : `${award.reason}:${utcDay(at)}`);
+
+    // The cap check and the insert happen under one lock in SQL, so parallel
+    // requests can't all squeeze in under the cap
+    const { data: status, error: appendError } = await supabase.rpc("append_xp_award", {
+        p_user_id: user.id,
+        p_clerk_user_id: award.clerkUserId,
+        p_amount: amount,
+        p_reason: award.reason,
+        p_source_type: award.source?.type ?? null,
+        p_source_id: award.source?.id ?? null,
+        p_city: toCitySlug(award.city),
+        p_idempotency_key: idempotencyKey,
+        p_metadata: award.metadata ?? {},
+        p_created_at: at.toISOString(),
+        p_daily_cap: rule.dailyCap,
+    });
+    if (appendError) throw new XpLedgerError(`Could not record XP: ${appendError.message}`, "DATABASE");
+    if (status === "capped" || status === "duplicate") return unchanged(status);
+
+    const totals = await recomputeUserProgress(supabase, user.id, at);
+    return { status: "awarded", awarded: amount, previousLevel, ...totals };
+}
+
+/**
+ * Cancel the XP a deleted (or moderated) entity earned by appending negative
+ * rows, then recompute everyone affected. Pass `clerkUserId` when the source
+ * alone doesn't identify the earner, e.g. a followed user. Returns the XP
+ * taken back.
+ */
+export async function reverseXpForSource(
+    target: { source: { type: XpSourceType; id: string }; reason?: XpReason; clerkUserId?: string },
+    client?: SupabaseClient,
+): Promise<number> {
+    const supabase = client ?? createSupabaseAdmin();
+
+    let query = supabase
+        .from("xp_ledger")
+        .select("id, user_id, clerk_user_id, amount, reason, city")
+        .eq("source_type", target.source.type)
+        .eq("source_id", target.source.id)
+        .gt("amount", 0);
+    if (target.reason) query = query.eq("reason", target.reason);
+    if (target.clerkUserId) query = query.eq("clerk_user_id", target.clerkUserId);
+
+    const { data: entries, error } = await query;
+    if (error) throw new XpLedgerError(`Could not load XP to reverse: ${error.message}`, "DATABASE");
+    if (!entries?.length) return 0;
+
+    const { data: existing, error: existingError } = await supabase
+        .from("xp_ledger")
+        .select("reverses")
+        .in("reverses", entries.map((entry) => entry.id));
+    if (existingError) {
+        throw new XpLedgerError(`Could not load XP reversals: ${existingError.message}`, "DATABASE");
+    }
+    const alreadyReversed = new Set((existing || []).map((row) => row.reverses));
+
+    let reversed = 0;
+    const affected = new Set<string>();
+    for (const entry of entries) {
+        if (alreadyReversed.has(entry.id)) continue;
+
+        const { error: insertError } = await supabase
+            .from("xp_ledger")
+            .insert({
+                user_id: entry.user_id,
+                clerk_user_id: entry.clerk_user_id,
+                amount: -entry.amount,
+                reason: entry.reason,
+                source_type: target.source.type,
+                source_id: target.source.id,
+                city: entry.city,
+                idempotency_key: `reversal:${entry.id}`,
+                reverses: entry.id,
+            });
+        if (insertError) {
+            if (insertError.code === "23505") continue;
+            throw new XpLedgerError(`Could not reverse XP: ${insertError.message}`, "DATABASE");
+        }
+        reversed += entry.amount;
+        affected.add(entry.user_id);
+    }
+
+    for (const userId of affected) {
+        await recomputeUserProgress(supabase, userId);
+    }
+    return reversed;
+}
+
+export interface XpLedgerEntry {
+    id: string;
+    amount: number;
+    reason: string;
+    sourceType: string | null;
+    sourceId: string | null;
+    city: string | null;
+    reverses: string | null;
+    metadata: Record<string, unknown>;
+    createdAt: string;
+}
+
+/** A user's most recent ledger rows, newest first, for audits */
+export async function listXpLedger(
+    supabase: SupabaseClient,
+    clerkUserId: string,
+    limit = 100,
+): Promise<XpLedgerEntry[]> {
+    const { data, error } = await supabase
+        .from("xp_ledger")
+        .select("id, amount, reason, source_type, source_id, city, reverses, metadata, created_at")
+        .eq("clerk_user_id", clerkUserId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+    if (error) throw new XpLedgerError(`Could not load XP ledger: ${error.message}`, "DATABASE");
+
+    return (data || []).map((row) => ({
+        id: row.id,
+        amount: row.amount,
+        reason: row.reason,
+        sourceType: row.source_type,
+        sourceId: row.source_id,
+        city: row.city,
+        reverses: row.reverses,
+        metadata: row.metadata ?? {},
+        createdAt: row.created_at,
+    }));
+}
@@ -1,4 +1,6 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { DEVICE_ID_COOKIE, DEVICE_ID_MAX_AGE_SECONDS } from "@/lib/device-id";
 
 // Define public routes that don't require authentication
 export const isPublicRoute = createRouteMatcher([
@@ -20,16 +22,31 @@ export const isPublicRoute = createRouteMatcher([
     '/api/cron/process-social-submissions',  // Vercel cron; route enforces CRON_SECRET
     '/api/cron/discover-spots-with-apify',  // Vercel cron; route enforces CRON_SECRET
     '/api/cron/refresh-weekly-social-trends',  // Vercel cron; route enforces CRON_SECRET
+    '/api/cron/refresh-leaderboards',  // Vercel cron; route enforces CRON_SECRET
     '/spots(.*)',  // Allow browsing spots without login
     '/templates(.*)',  // Allow browsing templates
     '/itineraries/:id/stories',  // Public stories download page
     '/api/itineraries/:id/story',  // Story render (PNG) — no auth needed, used by save route internally
+    '/api/calendar/(.*)',  // Calendar feeds; calendar apps can't sign in, route enforces the feed token
 ]);
 
 export default clerkMiddleware(async (auth, request) => {
     if (!isPublicRoute(request)) {
         await auth.protect();
     }
+
+    // Engagement screening tells browsers apart by this (lib/device-id.ts)
+    if (!request.cookies.has(DEVICE_ID_COOKIE)) {
+        const response = NextResponse.next();
+        response.cookies.set(DEVICE_ID_COOKIE, crypto.randomUUID(), {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: process.env.NODE_ENV === "production",
+            path: "/",
+            maxAge: DEVICE_ID_MAX_AGE_SECONDS,
+        });
+        return response;
+    }
 });
 
 export const config = {
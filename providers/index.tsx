@@ -3,12 +3,15 @@
 import { ReactNode } from "react";
 import { QueryProvider } from "@/lib/query-client";
 import { SubscriptionProvider } from "./subscription-provider";
+import { useOfflineDataOwner } from "@/hooks/use-offline-itinerary";
 
 interface ProvidersProps {
     children: ReactNode;
 }
 
 export function Providers({ children }: ProvidersProps) {
+    useOfflineDataOwner();
+
     return (
         <QueryProvider>
             <SubscriptionProvider>
@@ -1,5 +1,11 @@
-// Localley Service Worker for Push Notifications
+// Localley Service Worker for Push Notifications and offline itineraries
 const CACHE_NAME = "localley-v1";
+// Pages, data, scripts and photos of itineraries pinned for offline use
+const OFFLINE_CACHE = "localley-offline-v1";
+// Each pin is recorded in the offline cache under this path
+const PIN_RECORD_PATH = "/__offline/itineraries/";
+const PIN_FETCH_CONCURRENCY = 4;
+const MAX_PAGE_ASSETS = 300;
 
 // Handle push events
 self.addEventListener("push", (event) => {
@@ -95,10 +101,272 @@ self.addEventListener("activate", (event) => {
             caches.keys().then((cacheNames) => {
                 return Promise.all(
                     cacheNames
-                        .filter((name) => name !== CACHE_NAME)
+                        .filter((name) => name !== CACHE_NAME && name !== OFFLINE_CACHE)
                         .map((name) => caches.delete(name))
                 );
             }),
         ])
     );
 });
+
+// ============================================
+// Offline itineraries
+// ============================================
+
+// Pages and API responses are credentialed; cross-origin photos come back
+// opaque, which is still fine for <img>
+async function fetchForCache(url) {
+    const sameOrigin = url.origin === self.location.origin;
+    const response = await fetch(url.href, sameOrigin ? { credentials: "include" } : { mode: "no-cors" });
+    if (response.type === "opaque") return response;
+    // A redirect usually means the session expired; don't keep the sign-in page
+    if (!response.ok || response.redirected) return null;
+    return response;
+}
+
+// Scripts, styles, fonts and optimised images a page loads. Chunks loaded
+// later are named in the inline RSC payload, so scan the whole document.
+function findPageAssets(html, pageUrl) {
+    const assets = new Set();
+    const add = (raw) => {
+        try {
+            const url = new URL(raw.replace(/&amp;/g, "&").replace(/\\u0026/g, "&"), pageUrl);
+            if (url.origin === self.location.origin) assets.add(url.href);
+        } catch {
+            // Not a URL
+        }
+    };
+
+    for (const match of html.matchAll(/\/_next\/static\/[^"'\s\\)]+/g)) {
+        add(match[0]);
+    }
+    for (const match of html.matchAll(/\b(?:src|href)="(\/_next\/image\?[^"]+)"/g)) {
+        add(match[1]);
+    }
+    for (const match of html.matchAll(/\bsrcset="([^"]+)"/gi)) {
+        for (const candidate of match[1].split(",")) {
+            const src = candidate.trim().split(/\s+/)[0];
+            if (src.startsWith("/_next/image")) add(src);
+        }
+    }
+    return [...assets].slice(0, MAX_PAGE_ASSETS);
+}
+
+// Fetch URLs into the cache a few at a time. Returns what was stored and
+// anything found in the HTML pages among them.
+async function cacheUrls(cache, urls) {
+    const queue = [...urls];
+    const stored = [];
+    const assets = [];
+    let failed = 0;
+
+    const worker = async () => {
+        while (queue.length > 0) {
+            const url = queue.shift();
+            try {
+                const response = await fetchForCache(url);
+                if (!response) {
+                    failed++;
+                    continue;
+                }
+                if ((response.headers.get("Content-Type") || "").includes("text/html")) {
+                    assets.push(...findPageAssets(await response.clone().text(), url));
+                }
+                await cache.put(url.href, response);
+                stored.push(url.href);
+            } catch (error) {
+                console.warn("Could not cache for offline use:", url.href, error);
+                failed++;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: PIN_FETCH_CONCURRENCY }, worker));
+    return { stored, assets, failed };
+}
+
+async function readPins(cache) {
+    const keys = await cache.keys();
+    const pins = await Promise.all(
+        keys
+            .filter((request) => new URL(request.url).pathname.startsWith(PIN_RECORD_PATH))
+            .map(async (request) => {
+                const response = await cache.match(request);
+                return response ? response.json() : null;
+            })
+    );
+    return pins.filter(Boolean);
+}
+
+async function pinItinerary(itinerary, urls) {
+    if (!itinerary || typeof itinerary.id !== "string") {
+        throw new Error("Missing itinerary");
+    }
+
+    const cache = await caches.open(OFFLINE_CACHE);
+    const toUrl = (value) => new URL(value, self.location.origin);
+    const pages = await cacheUrls(cache, [...new Set(urls)].map(toUrl));
+    const seen = new Set(pages.stored);
+    const assets = await cacheUrls(
+        cache,
+        [...new Set(pages.assets)].filter((href) => !seen.has(href)).map(toUrl)
+    );
+
+    const record = {
+        id: itinerary.id,
+        title: itinerary.title,
+        city: itinerary.city,
+        pinnedAt: new Date().toISOString(),
+        urls: [...pages.stored, ...assets.stored],
+    };
+    await cache.put(
+        PIN_RECORD_PATH + encodeURIComponent(itinerary.id),
+        new Response(JSON.stringify(record), { headers: { "Content-Type": "application/json" } })
+    );
+
+    return { cached: record.urls.length, failed: pages.failed + assets.failed };
+}
+
+// Drop a pin and whatever no other pinned itinerary still uses
+async function unpinItinerary(id) {
+    const cache = await caches.open(OFFLINE_CACHE);
+    const pins = await readPins(cache);
+    const pin = pins.find((item) => item.id === id);
+    if (!pin) return;
+
+    const stillUsed = new Set(pins.filter((item) => item.id !== id).flatMap((item) => item.urls));
+    await Promise.all(pin.urls.filter((url) => !stillUsed.has(url)).map((url) => cache.delete(url)));
+    await cache.delete(PIN_RECORD_PATH + encodeURIComponent(id));
+}
+
+// Everything pinned, when the user who pinned it signs out
+async function clearPinnedItineraries() {
+    await caches.delete(OFFLINE_CACHE);
+}
+
+async function listPinnedItineraries() {
+    const cache = await caches.open(OFFLINE_CACHE);
+    const pins = await readPins(cache);
+    return pins
+        .map(({ id, title, city, pinnedAt }) => ({ id, title, city, pinnedAt }))
+        .sort((a, b) => b.pinnedAt.localeCompare(a.pinnedAt));
+}
+
+// Requests from the app, answered over the MessageChannel port they came with
+self.addEventListener("message", (event) => {
+    const message = event.data || {};
+    const port = event.ports && event.ports[0];
+    let task;
+
+    if (message.type === "PIN_ITINERARY") {
+        task = pinItinerary(message.itinerary, Array.isArray(message.urls) ? message.urls : []);
+    } else if (message.type === "UNPIN_ITINERARY") {
+        task = unpinItinerary(message.id).then(() => ({ ok: true }));
+    } else if (message.type === "CLEAR_OFFLINE") {
+        task = clearPinnedItineraries().then(() => ({ ok: true }));
+    } else if (message.type === "GET_PINNED_ITINERARIES") {
+        task = listPinnedItineraries().then((itineraries) => ({ itineraries }));
+    } else {
+        return;
+    }
+
+    event.waitUntil(
+        task.then(
+            (result) => port && port.postMessage(result),
+            (error) => port && port.postMessage({ error: error.message || "Offline storage failed" })
+        )
+    );
+});
+
+function escapeHtml(value) {
+    return String(value || "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+// Shown for pages that were never pinned
+async function offlinePage() {
+    const pinned = await listPinnedItineraries();
+    const items = pinned
+        .map(
+            (pin) =>
+                `<li><a href="/itineraries/${encodeURIComponent(pin.id)}">${escapeHtml(pin.title)}</a><span>${escapeHtml(pin.city)}</span></li>`
+        )
+        .join("");
+
+    return new Response(
+        `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Offline · Localley</title>
+<style>
+body{margin:0;min-height:100vh;background:#0b0714;color:#f5f3ff;font-family:system-ui,sans-serif;display:flex;align-items:center;justify-content:center}
+main{max-width:28rem;padding:2rem}
+h1{font-size:1.5rem;margin:0 0 .5rem}
+p{color:#c4b5fd}
+ul{list-style:none;padding:0;margin:1.5rem 0 0}
+li{display:flex;justify-content:space-between;gap:1rem;padding:.75rem 1rem;margin-bottom:.5rem;border:1px solid rgba(255,255,255,.1);border-radius:.75rem}
+a{color:#fff;font-weight:600;text-decoration:none}
+span{color:#a78bfa}
+</style>
+</head>
+<body>
+<main>
+<h1>You're offline</h1>
+<p>${pinned.length > 0 ? "These trips are saved on this device:" : "Save a trip for offline use to open it without a connection."}</p>
+${pinned.length > 0 ? `<ul>${items}</ul>` : ""}
+</main>
+</body>
+</html>`,
+        { status: 503, headers: { "Content-Type": "text/html; charset=utf-8" } }
+    );
+}
+
+// Network first so pinned copies stay fresh; the cached copy when offline
+async function networkFirst(event, options) {
+    const { request } = event;
+    const cache = await caches.open(OFFLINE_CACHE);
+
+    try {
+        const response = await fetch(request);
+        if ((response.ok && !response.redirected) || response.type === "opaque") {
+            const [pinned] = await cache.keys(request, options);
+            if (pinned) {
+                event.waitUntil(cache.put(pinned, response.clone()));
+            }
+        }
+        return response;
+    } catch (error) {
+        const cached = await cache.match(request, options);
+        if (cached) return cached;
+        if (request.mode === "navigate") return offlinePage();
+        throw error;
+    }
+}
+
+// Build assets are content-hashed, so a cached copy is always current
+async function cacheFirst(request) {
+    const cached = await caches.match(request, { cacheName: OFFLINE_CACHE });
+    return cached || fetch(request);
+}
+
+self.addEventListener("fetch", (event) => {
+    const { request } = event;
+    if (request.method !== "GET") return;
+
+    const url = new URL(request.url);
+    const sameOrigin = url.origin === self.location.origin;
+
+    if (request.mode === "navigate") {
+        // Next varies pages on its router headers, which navigations never send
+        event.respondWith(networkFirst(event, { ignoreSearch: true, ignoreVary: true }));
+    } else if (sameOrigin && url.pathname.startsWith("/_next/static/")) {
+        event.respondWith(cacheFirst(request));
+    } else if ((sameOrigin && url.pathname.startsWith("/api/itineraries/")) || request.destination === "image") {
+        event.respondWith(networkFirst(event));
+    }
+});
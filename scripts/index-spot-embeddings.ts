@@ -0,0 +1,69 @@
+/**
+ * Backfill the semantic spot index (spot_embeddings).
+ *
+ * Embeds every spot whose vector is missing or older than its content, using
+ * the same embedder as the app (OpenAI when OPENAI_API_KEY is set, otherwise
+ * the local hashed embedder). Safe to re-run; unchanged spots are skipped.
+ *
+ * Usage:
+ *   npx tsx scripts/index-spot-embeddings.ts
+ *   npx tsx scripts/index-spot-embeddings.ts --city=Seoul
+ *   npx tsx scripts/index-spot-embeddings.ts --env-file=/tmp/localley.env
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import * as dotenv from "dotenv";
+import {
+    createSpotEmbeddingStore,
+    embedSpots,
+    SPOT_EMBEDDING_COLUMNS,
+    type EmbeddableSpot,
+} from "../lib/spots/semantic-search";
+import { getEmbeddingProvider } from "../lib/llm/embeddings";
+
+const PAGE_SIZE = 500;
+
+function getValue(name: string): string | undefined {
+    const arg = process.argv.slice(2).find((value) => value.startsWith(`${name}=`));
+    return arg ? arg.slice(name.length + 1).trim() : undefined;
+}
+
+async function main() {
+    dotenv.config({ path: getValue("--env-file") || ".env.local", quiet: true });
+
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL || "";
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+    if (!url || !key) {
+        throw new Error("Missing Supabase credentials. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.");
+    }
+
+    const city = getValue("--city");
+    const supabase = createClient(url, key);
+    const store = createSpotEmbeddingStore(supabase);
+    const embeddings = getEmbeddingProvider();
+    let scanned = 0;
+    let embedded = 0;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase.from("spots").select(SPOT_EMBEDDING_COLUMNS);
+        if (city) query = query.ilike("address->>en", `%${city}%`);
+
+        const { data, error } = await query.order("id").range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        const result = await embedSpots(data as EmbeddableSpot[], { embeddings, store });
+        scanned += data.length;
+        embedded += result.embedded;
+        console.log(`Indexed ${scanned} spots (${embedded} embedded)`);
+
+        if (data.length < PAGE_SIZE) break;
+    }
+
+    console.log(JSON.stringify({ model: embeddings.name, city: city ?? null, scanned, embedded }, null, 2));
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
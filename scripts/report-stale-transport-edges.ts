@@ -0,0 +1,24 @@
+/**
+ * Report transport manifest routes that are due for a recheck.
+ * Pass --as-of=YYYY-MM-DD to report against another date and --check to fail
+ * when any route is stale.
+ */
+
+import { findStaleTransportRoutes, transportManifests } from "../lib/trips/transport-manifest";
+
+const checkOnly = process.argv.includes("--check");
+const asOfArg = process.argv.slice(2).find((arg) => arg.startsWith("--as-of="));
+const asOf = asOfArg?.slice("--as-of=".length) || new Date().toISOString().slice(0, 10);
+
+const stale = findStaleTransportRoutes(asOf);
+console.log(JSON.stringify({
+  asOf,
+  corridors: transportManifests.map((manifest) => manifest.corridor),
+  routes: transportManifests.reduce((sum, manifest) => sum + manifest.routes.length, 0),
+  stale,
+}, null, 2));
+
+if (checkOnly && stale.length > 0) {
+  console.error(`${stale.length} transport route(s) are past their recheck date.`);
+  process.exitCode = 1;
+}
@@ -7,7 +7,7 @@ import { createHash } from "node:crypto";
 import * as dotenv from "dotenv";
 import * as path from "node:path";
 import { createClient } from "@supabase/supabase-js";
-import { directedTransportEdges } from "../lib/trips/transport-manifest";
+import { directedTransportEdges, transportManifests } from "../lib/trips/transport-manifest";
 
 function argValue(name: string): string | undefined {
   const value = process.argv.slice(2).find((arg) => arg.startsWith(`${name}=`));
@@ -24,7 +24,7 @@ async function main(): Promise<void> {
   const apply = process.argv.includes("--apply");
   const target = argValue("--target") || "dry-run";
   const summary = {
-    corridor: "kr-jp",
+    corridors: transportManifests.map((manifest) => manifest.corridor),
     directedEdges: directedTransportEdges.length,
     fingerprint: fingerprint(),
   };
@@ -65,7 +65,7 @@ async function main(): Promise<void> {
       booking_hint: { summary: edge.bookingHint },
       schedule_notes: { liveScheduleRequired: true, recheckAfter: edge.recheckAfter },
       source_type: "curated",
-      source_meta: { sources: edge.sources, manifestVersion: 1 },
+      source_meta: { sources: edge.sources, corridor: edge.corridor, manifestVersion: edge.manifestVersion },
       confidence: edge.confidence,
       review_status: edge.reviewStatus,
       reviewed_at: edge.reviewedAt,
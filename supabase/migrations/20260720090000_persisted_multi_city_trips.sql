@@ -0,0 +1,181 @@
+-- Persist corridor planner output for signed-in travellers. Every re-plan writes
+-- an immutable trip_versions row; the normalized trip tables always mirror the
+-- latest version. Authored for branch rehearsal behind MULTI_CITY_TRIPS_API.
+
+ALTER TABLE public.trips
+  ADD COLUMN current_version INTEGER NOT NULL DEFAULT 0 CHECK (current_version >= 0);
+
+CREATE TABLE public.trip_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version >= 1),
+  planner_version TEXT NOT NULL CHECK (char_length(planner_version) BETWEEN 1 AND 80),
+  request JSONB NOT NULL CHECK (jsonb_typeof(request) = 'object'),
+  plan JSONB NOT NULL CHECK (jsonb_typeof(plan) = 'object'),
+  change_summary TEXT CHECK (change_summary IS NULL OR char_length(change_summary) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (trip_id, version)
+);
+
+CREATE INDEX trip_versions_trip_idx ON public.trip_versions (trip_id, version DESC);
+
+ALTER TABLE public.trip_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read trip versions"
+  ON public.trip_versions FOR SELECT TO authenticated
+  USING (trip_id IN (SELECT trip.id FROM public.trips trip));
+
+CREATE POLICY "Owners append trip versions"
+  ON public.trip_versions FOR INSERT TO authenticated
+  WITH CHECK (trip_id IN (SELECT trip.id FROM public.trips trip));
+
+-- Versions are append-only for travellers; trip deletion cascades.
+GRANT SELECT, INSERT ON public.trip_versions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.trip_versions TO service_role;
+
+-- Writes a CorridorPlan into the normalized trip tables and appends a version in
+-- one transaction. Runs as the caller so the owner RLS policies still apply.
+-- Re-planning replaces stops (and, by cascade, legs, days and activities).
+CREATE OR REPLACE FUNCTION public.save_trip_plan(
+  p_trip_id UUID,
+  p_clerk_user_id TEXT,
+  p_title TEXT,
+  p_request JSONB,
+  p_plan JSONB,
+  p_change_summary TEXT DEFAULT NULL
+)
+RETURNS TABLE(saved_trip_id UUID, saved_version INTEGER)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip_id UUID := p_trip_id;
+  v_version INTEGER;
+  v_preferences JSONB;
+  v_stop JSONB;
+  v_transfer JSONB;
+  v_day JSONB;
+  v_stop_ids JSONB := '{}'::jsonb;
+  v_stop_id UUID;
+  v_destination_id UUID;
+  v_edge_id UUID;
+BEGIN
+  v_preferences := jsonb_build_object(
+    'budget', p_request -> 'budget',
+    'pace', p_request -> 'pace',
+    'orderMode', p_request -> 'orderMode',
+    'interests', COALESCE(p_request -> 'interests', '[]'::jsonb)
+  );
+
+  IF v_trip_id IS NULL THEN
+    INSERT INTO public.trips (
+      clerk_user_id, title, start_date, total_days, party, preferences, planner_version
+    )
+    VALUES (
+      p_clerk_user_id,
+      p_title,
+      (p_request ->> 'startDate')::date,
+      (p_plan ->> 'totalDays')::smallint,
+      p_request -> 'group',
+      v_preferences,
+      p_plan ->> 'plannerVersion'
+    )
+    RETURNING id INTO v_trip_id;
+    v_version := 1;
+  ELSE
+    SELECT trip.current_version + 1 INTO v_version
+    FROM public.trips trip
+    WHERE trip.id = v_trip_id AND trip.clerk_user_id = p_clerk_user_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Trip % not found', v_trip_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    UPDATE public.trips trip SET
+      title = COALESCE(p_title, trip.title),
+      start_date = (p_request ->> 'startDate')::date,
+      total_days = (p_plan ->> 'totalDays')::smallint,
+      party = p_request -> 'group',
+      preferences = v_preferences,
+      planner_version = p_plan ->> 'plannerVersion'
+    WHERE trip.id = v_trip_id;
+
+    DELETE FROM public.trip_stops stop WHERE stop.trip_id = v_trip_id;
+  END IF;
+
+  FOR v_stop IN SELECT value FROM jsonb_array_elements(p_plan -> 'stops') LOOP
+    SELECT destination.id INTO v_destination_id
+    FROM public.geo_destinations destination
+    WHERE destination.slug = v_stop ->> 'destinationSlug';
+    IF v_destination_id IS NULL THEN
+      RAISE EXCEPTION 'Unknown destination %', v_stop ->> 'destinationSlug'
+        USING ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    INSERT INTO public.trip_stops (trip_id, destination_id, position, nights, is_locked)
+    VALUES (
+      v_trip_id,
+      v_destination_id,
+      (v_stop ->> 'position')::smallint,
+      (v_stop ->> 'nights')::smallint,
+      COALESCE((v_stop ->> 'locked')::boolean, false)
+    )
+    RETURNING id INTO v_stop_id;
+    v_stop_ids := v_stop_ids || jsonb_build_object(v_stop ->> 'destinationSlug', v_stop_id);
+  END LOOP;
+
+  FOR v_transfer IN SELECT value FROM jsonb_array_elements(p_plan -> 'transfers') LOOP
+    SELECT edge.id INTO v_edge_id
+    FROM public.transfer_edges edge
+    WHERE edge.slug = v_transfer ->> 'edgeId';
+    IF v_edge_id IS NULL THEN
+      RAISE EXCEPTION 'Unseeded transfer edge %', v_transfer ->> 'edgeId'
+        USING ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    INSERT INTO public.trip_transfer_legs (
+      trip_id, from_stop_id, to_stop_id, transfer_edge_id, position, normalized_snapshot, confidence
+    )
+    VALUES (
+      v_trip_id,
+      (v_stop_ids ->> (v_transfer ->> 'from'))::uuid,
+      (v_stop_ids ->> (v_transfer ->> 'to'))::uuid,
+      v_edge_id,
+      (v_transfer ->> 'position')::smallint,
+      v_transfer,
+      (v_transfer ->> 'confidence')::numeric
+    );
+  END LOOP;
+
+  FOR v_day IN SELECT value FROM jsonb_array_elements(p_plan -> 'days') LOOP
+    INSERT INTO public.trip_days (
+      trip_id, stop_id, day_index, local_date, day_type, active_minutes_budget
+    )
+    VALUES (
+      v_trip_id,
+      (v_stop_ids ->> (v_day ->> 'destinationSlug'))::uuid,
+      (v_day ->> 'dayIndex')::smallint,
+      (v_day ->> 'localDate')::date,
+      v_day ->> 'type',
+      (v_day ->> 'activeMinutesBudget')::integer
+    );
+  END LOOP;
+
+  INSERT INTO public.trip_versions (trip_id, version, planner_version, request, plan, change_summary)
+  VALUES (v_trip_id, v_version, p_plan ->> 'plannerVersion', p_request, p_plan, p_change_summary);
+
+  UPDATE public.trips trip
+  SET current_version = v_version, updated_at = now()
+  WHERE trip.id = v_trip_id;
+
+  RETURN QUERY SELECT v_trip_id, v_version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_trip_plan(UUID, TEXT, TEXT, JSONB, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_trip_plan(UUID, TEXT, TEXT, JSONB, JSONB, TEXT)
+  TO authenticated, service_role;
+
+COMMENT ON TABLE public.trip_versions IS
+  'Append-only planner snapshots; the request column is the parsed MultiCityTripRequest used to re-plan.';
@@ -0,0 +1,108 @@
+-- Per-user LLM token usage and estimated cost. The orchestrator appends one row
+-- per provider per orchestration; monthly totals drive the per-tier cost
+-- ceilings and the admin top-spenders report.
+
+CREATE TABLE public.llm_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clerk_user_id TEXT NOT NULL CHECK (char_length(clerk_user_id) BETWEEN 1 AND 200),
+  request_id TEXT NOT NULL CHECK (char_length(request_id) BETWEEN 1 AND 200),
+  request_type TEXT NOT NULL CHECK (request_type IN ('itinerary', 'chat', 'revision')),
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'pro', 'premium')),
+  provider TEXT NOT NULL CHECK (char_length(provider) BETWEEN 1 AND 64),
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  total_tokens INTEGER NOT NULL DEFAULT 0 CHECK (total_tokens >= 0),
+  estimated_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (estimated_cost_usd >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX llm_usage_events_user_month_idx
+  ON public.llm_usage_events (clerk_user_id, created_at DESC);
+CREATE INDEX llm_usage_events_created_idx
+  ON public.llm_usage_events (created_at DESC);
+
+-- Written and read by the server only.
+ALTER TABLE public.llm_usage_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.llm_usage_events FROM anon, authenticated;
+GRANT SELECT, INSERT ON public.llm_usage_events TO service_role;
+
+-- Estimated spend for one user in the calendar month (UTC) starting at p_month_start.
+CREATE OR REPLACE FUNCTION public.get_llm_monthly_spend(
+  p_clerk_user_id TEXT,
+  p_month_start DATE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(estimated_cost_usd), 0)
+  FROM public.llm_usage_events
+  WHERE clerk_user_id = p_clerk_user_id
+    AND created_at >= p_month_start::timestamp AT TIME ZONE 'UTC'
+    AND created_at < (p_month_start + INTERVAL '1 month')::timestamp AT TIME ZONE 'UTC';
+$$;
+
+-- Users with the highest estimated spend in a month, with per-provider totals.
+CREATE OR REPLACE FUNCTION public.get_top_llm_spenders(
+  p_month_start DATE,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE(
+  clerk_user_id TEXT,
+  tier TEXT,
+  orchestrations BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  total_tokens BIGINT,
+  estimated_cost_usd NUMERIC,
+  providers JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH month_events AS (
+    SELECT *
+    FROM public.llm_usage_events
+    WHERE created_at >= p_month_start::timestamp AT TIME ZONE 'UTC'
+      AND created_at < (p_month_start + INTERVAL '1 month')::timestamp AT TIME ZONE 'UTC'
+  ),
+  by_provider AS (
+    SELECT
+      event.clerk_user_id,
+      event.provider,
+      SUM(event.total_tokens) AS total_tokens,
+      SUM(event.estimated_cost_usd) AS estimated_cost_usd
+    FROM month_events event
+    GROUP BY event.clerk_user_id, event.provider
+  )
+  SELECT
+    event.clerk_user_id,
+    (ARRAY_AGG(event.tier ORDER BY event.created_at DESC))[1] AS tier,
+    COUNT(DISTINCT event.request_id) AS orchestrations,
+    SUM(event.input_tokens)::BIGINT AS input_tokens,
+    SUM(event.output_tokens)::BIGINT AS output_tokens,
+    SUM(event.total_tokens)::BIGINT AS total_tokens,
+    SUM(event.estimated_cost_usd) AS estimated_cost_usd,
+    (
+      SELECT jsonb_object_agg(
+        provider_total.provider,
+        jsonb_build_object(
+          'totalTokens', provider_total.total_tokens,
+          'estimatedCostUsd', provider_total.estimated_cost_usd
+        )
+      )
+      FROM by_provider provider_total
+      WHERE provider_total.clerk_user_id = event.clerk_user_id
+    ) AS providers
+  FROM month_events event
+  GROUP BY event.clerk_user_id
+  ORDER BY SUM(event.estimated_cost_usd) DESC, event.clerk_user_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+REVOKE ALL ON FUNCTION public.get_llm_monthly_spend(TEXT, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_top_llm_spenders(DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_llm_monthly_spend(TEXT, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_top_llm_spenders(DATE, INTEGER) TO service_role;
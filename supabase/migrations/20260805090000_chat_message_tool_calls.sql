@@ -0,0 +1,10 @@
+-- Tool calls Alley made before writing an assistant message: name, arguments,
+-- result and whether it failed. Replayed to the model on later turns so it
+-- remembers which spots it looked up and which itinerary edits it applied.
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS tool_calls JSONB
+  CHECK (tool_calls IS NULL OR jsonb_typeof(tool_calls) = 'array');
+
+COMMENT ON COLUMN public.messages.tool_calls IS
+  'Chat agent tool calls behind an assistant message. Format: [{"id", "name", "arguments", "result", "isError"}]';
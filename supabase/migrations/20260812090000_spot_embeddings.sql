@@ -0,0 +1,24 @@
+-- Embedding vectors for semantic spot retrieval, one row per spot per
+-- embedding model. content_hash is a SHA-256 of the text the vector was built
+-- from, so edited spots are re-embedded on their next lookup.
+--
+-- Vectors are compared in the app over an already-filtered candidate set (one
+-- city, a few hundred spots at most), so a plain REAL[] works for embedders of
+-- any width and no ANN index is needed.
+
+CREATE TABLE public.spot_embeddings (
+  spot_id UUID NOT NULL REFERENCES public.spots(id) ON DELETE CASCADE,
+  embedding_model TEXT NOT NULL CHECK (char_length(embedding_model) BETWEEN 1 AND 100),
+  content_hash TEXT NOT NULL CHECK (char_length(content_hash) = 64),
+  embedding REAL[] NOT NULL CHECK (cardinality(embedding) BETWEEN 1 AND 4096),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (spot_id, embedding_model)
+);
+
+CREATE INDEX spot_embeddings_model_idx
+  ON public.spot_embeddings (embedding_model, spot_id);
+
+-- Written and read by the server only.
+ALTER TABLE public.spot_embeddings ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.spot_embeddings FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.spot_embeddings TO service_role;
@@ -0,0 +1,23 @@
+-- Rolling memory for long chats. Once a conversation outgrows the prompt
+-- budget, /api/chat folds older turns into `summary` and stops loading
+-- messages created at or before `summarized_through`. Preferences the
+-- traveller mentioned (dates, budget, dietary needs, party) are pinned in
+-- `traveller_preferences` and injected into every system prompt.
+
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS summary TEXT
+  CHECK (summary IS NULL OR char_length(summary) <= 4000),
+ADD COLUMN IF NOT EXISTS summarized_through TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS traveller_preferences JSONB NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(traveller_preferences) = 'object');
+
+-- Server-side history loads page newest-first within one conversation.
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+  ON public.messages (conversation_id, created_at DESC);
+
+COMMENT ON COLUMN public.conversations.summary IS
+  'Rolling summary of messages up to summarized_through, written by the chat memory compactor';
+COMMENT ON COLUMN public.conversations.summarized_through IS
+  'created_at of the newest message folded into summary';
+COMMENT ON COLUMN public.conversations.traveller_preferences IS
+  'Pinned traveller preferences. Format: {"destinations", "dates", "budget", "dietary", "party", "other"}';
@@ -0,0 +1,11 @@
+-- Structured itinerary behind an assistant message. Itinerary replies carry
+-- the plan as JSON (title, city, dailyPlans, tips) alongside the markdown, so
+-- the chat preview renders and saves it without parsing the prose. Messages
+-- saved before this column keep working through the markdown parser.
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS itinerary JSONB
+  CHECK (itinerary IS NULL OR jsonb_typeof(itinerary) = 'object');
+
+COMMENT ON COLUMN public.messages.itinerary IS
+  'Validated chat itinerary. Format: {"title", "city", "dailyPlans": DailyPlan[], "tips"}';
@@ -0,0 +1,151 @@
+-- Version history for saved itineraries. Every write to a plan (AI revision,
+-- manual edit, chat tool, restore) goes through save_itinerary_version, which
+-- appends an immutable itinerary_versions row holding the typed patch
+-- operations that produced it and a snapshot of the result. Restoring an
+-- earlier version appends a new version, so nothing in the history is lost.
+
+ALTER TABLE public.itineraries
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 0 CHECK (current_version >= 0);
+
+CREATE TABLE public.itinerary_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version >= 1),
+  source TEXT NOT NULL CHECK (source IN ('original', 'revise', 'edit', 'chat', 'restore')),
+  operations JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(operations) = 'array'),
+  snapshot JSONB NOT NULL CHECK (jsonb_typeof(snapshot) = 'object'),
+  summary TEXT CHECK (summary IS NULL OR char_length(summary) <= 500),
+  restored_from INTEGER CHECK (restored_from IS NULL OR restored_from >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (itinerary_id, version)
+);
+
+CREATE INDEX itinerary_versions_itinerary_idx ON public.itinerary_versions (itinerary_id, version DESC);
+
+ALTER TABLE public.itinerary_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read itinerary versions"
+  ON public.itinerary_versions FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.itineraries itinerary
+    WHERE itinerary.id = itinerary_id AND itinerary.clerk_user_id = (SELECT auth.jwt() ->> 'sub')
+  ));
+
+CREATE POLICY "Owners append itinerary versions"
+  ON public.itinerary_versions FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.itineraries itinerary
+    WHERE itinerary.id = itinerary_id AND itinerary.clerk_user_id = (SELECT auth.jwt() ->> 'sub')
+  ));
+
+-- Versions are append-only for travellers; itinerary deletion cascades.
+GRANT SELECT, INSERT ON public.itinerary_versions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.itinerary_versions TO service_role;
+
+-- Applies p_changes (any of title, city, days, activities, local_score,
+-- highlights, estimated_cost) to an itinerary and appends a version in one
+-- transaction. The first write to an itinerary saved before versioning also
+-- records its existing plan as version 1, so it can be restored. Runs as the
+-- caller so the owner RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.save_itinerary_version(
+  p_itinerary_id UUID,
+  p_clerk_user_id TEXT,
+  p_changes JSONB,
+  p_source TEXT,
+  p_operations JSONB DEFAULT '[]'::jsonb,
+  p_summary TEXT DEFAULT NULL,
+  p_restored_from INTEGER DEFAULT NULL
+)
+RETURNS TABLE(saved_version INTEGER, saved_itinerary JSONB)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.itineraries%ROWTYPE;
+  v_version INTEGER;
+BEGIN
+  SELECT * INTO v_row
+  FROM public.itineraries itinerary
+  WHERE itinerary.id = p_itinerary_id AND itinerary.clerk_user_id = p_clerk_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Itinerary % not found', p_itinerary_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_version := v_row.current_version;
+  IF v_version = 0 THEN
+    INSERT INTO public.itinerary_versions (itinerary_id, version, source, snapshot, summary)
+    VALUES (
+      p_itinerary_id,
+      1,
+      'original',
+      jsonb_build_object(
+        'title', v_row.title,
+        'city', v_row.city,
+        'days', v_row.days,
+        'activities', v_row.activities,
+        'local_score', v_row.local_score,
+        'highlights', to_jsonb(v_row.highlights),
+        'estimated_cost', v_row.estimated_cost
+      ),
+      'Plan before version history.'
+    );
+    v_version := 1;
+  END IF;
+  v_version := v_version + 1;
+
+  UPDATE public.itineraries itinerary SET
+    title = CASE WHEN p_changes ? 'title' THEN p_changes ->> 'title' ELSE itinerary.title END,
+    city = CASE WHEN p_changes ? 'city' THEN p_changes ->> 'city' ELSE itinerary.city END,
+    days = CASE WHEN p_changes ? 'days' THEN (p_changes ->> 'days')::integer ELSE itinerary.days END,
+    activities = CASE WHEN p_changes ? 'activities' THEN p_changes -> 'activities' ELSE itinerary.activities END,
+    local_score = CASE
+      WHEN p_changes ? 'local_score' THEN (p_changes ->> 'local_score')::float
+      ELSE itinerary.local_score
+    END,
+    highlights = CASE
+      WHEN NOT p_changes ? 'highlights' THEN itinerary.highlights
+      WHEN jsonb_typeof(p_changes -> 'highlights') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(p_changes -> 'highlights'))
+      ELSE NULL
+    END,
+    estimated_cost = CASE
+      WHEN p_changes ? 'estimated_cost' THEN p_changes ->> 'estimated_cost'
+      ELSE itinerary.estimated_cost
+    END,
+    current_version = v_version
+  WHERE itinerary.id = p_itinerary_id
+  RETURNING * INTO v_row;
+
+  INSERT INTO public.itinerary_versions (
+    itinerary_id, version, source, operations, snapshot, summary, restored_from
+  )
+  VALUES (
+    p_itinerary_id,
+    v_version,
+    p_source,
+    COALESCE(p_operations, '[]'::jsonb),
+    jsonb_build_object(
+      'title', v_row.title,
+      'city', v_row.city,
+      'days', v_row.days,
+      'activities', v_row.activities,
+      'local_score', v_row.local_score,
+      'highlights', to_jsonb(v_row.highlights),
+      'estimated_cost', v_row.estimated_cost
+    ),
+    p_summary,
+    p_restored_from
+  );
+
+  RETURN QUERY SELECT v_version, to_jsonb(v_row);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_itinerary_version(UUID, TEXT, JSONB, TEXT, JSONB, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_itinerary_version(UUID, TEXT, JSONB, TEXT, JSONB, TEXT, INTEGER)
+  TO authenticated, service_role;
+
+COMMENT ON TABLE public.itinerary_versions IS
+  'Append-only itinerary history. operations: ItineraryOperation[] from the previous version; snapshot: {"title", "city", "days", "activities", "local_score", "highlights", "estimated_cost"}.';
@@ -0,0 +1,277 @@
+-- Group editing for saved itineraries. Owners invite collaborators through
+-- single-use links as editors (can change the plan) or viewers (can follow
+-- along, comment and vote). Edits still go through save_itinerary_version,
+-- which now accepts editors and records who made each version. Collaborators
+-- meet on the private Realtime topic "itinerary:<id>" for presence and
+-- change notifications.
+
+CREATE TABLE public.itinerary_collaborators (
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  clerk_user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  display_name TEXT CHECK (display_name IS NULL OR char_length(display_name) <= 100),
+  invited_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (itinerary_id, clerk_user_id)
+);
+
+CREATE INDEX itinerary_collaborators_user_idx ON public.itinerary_collaborators (clerk_user_id);
+
+CREATE TABLE public.itinerary_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE CHECK (char_length(token) >= 32),
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  created_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by TEXT,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX itinerary_invites_itinerary_idx ON public.itinerary_invites (itinerary_id);
+
+-- Comments and votes hang off an activity's identity (its normalised name,
+-- see activityKey in lib/itineraries/revisions.ts) rather than its position,
+-- so they follow the activity when it is moved to another slot or day.
+CREATE TABLE public.itinerary_activity_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  activity_key TEXT NOT NULL CHECK (char_length(activity_key) BETWEEN 1 AND 200),
+  clerk_user_id TEXT NOT NULL,
+  author_name TEXT CHECK (author_name IS NULL OR char_length(author_name) <= 100),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX itinerary_activity_comments_itinerary_idx
+  ON public.itinerary_activity_comments (itinerary_id, created_at);
+
+CREATE TABLE public.itinerary_activity_votes (
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  activity_key TEXT NOT NULL CHECK (char_length(activity_key) BETWEEN 1 AND 200),
+  clerk_user_id TEXT NOT NULL,
+  value SMALLINT NOT NULL CHECK (value IN (-1, 1)),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (itinerary_id, activity_key, clerk_user_id)
+);
+
+ALTER TABLE public.itinerary_versions ADD COLUMN IF NOT EXISTS created_by TEXT;
+
+-- 'owner', 'editor', 'viewer' or NULL for the requesting user. SECURITY
+-- DEFINER so policies can consult it without granting collaborators read
+-- access to each other's rows.
+CREATE OR REPLACE FUNCTION public.itinerary_access_role(p_itinerary_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN itinerary.clerk_user_id = (SELECT auth.jwt() ->> 'sub') THEN 'owner'
+    ELSE (
+      SELECT collaborator.role FROM public.itinerary_collaborators collaborator
+      WHERE collaborator.itinerary_id = itinerary.id
+        AND collaborator.clerk_user_id = (SELECT auth.jwt() ->> 'sub')
+    )
+  END
+  FROM public.itineraries itinerary
+  WHERE itinerary.id = p_itinerary_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.itinerary_access_role(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.itinerary_access_role(UUID) TO authenticated, service_role;
+
+ALTER TABLE public.itinerary_collaborators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_activity_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_activity_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read collaborators"
+  ON public.itinerary_collaborators FOR SELECT TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) IS NOT NULL);
+
+CREATE POLICY "Owners manage collaborators"
+  ON public.itinerary_collaborators FOR ALL TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) = 'owner')
+  WITH CHECK (public.itinerary_access_role(itinerary_id) = 'owner');
+
+CREATE POLICY "Collaborators leave itineraries"
+  ON public.itinerary_collaborators FOR DELETE TO authenticated
+  USING (clerk_user_id = (SELECT auth.jwt() ->> 'sub'));
+
+-- Invites are redeemed by token through the service role, never listed by
+-- the invitee.
+CREATE POLICY "Owners manage invites"
+  ON public.itinerary_invites FOR ALL TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) = 'owner')
+  WITH CHECK (public.itinerary_access_role(itinerary_id) = 'owner');
+
+CREATE POLICY "Members read comments"
+  ON public.itinerary_activity_comments FOR SELECT TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) IS NOT NULL);
+
+CREATE POLICY "Members add their own comments"
+  ON public.itinerary_activity_comments FOR INSERT TO authenticated
+  WITH CHECK (
+    clerk_user_id = (SELECT auth.jwt() ->> 'sub')
+    AND public.itinerary_access_role(itinerary_id) IS NOT NULL
+  );
+
+CREATE POLICY "Authors delete their comments"
+  ON public.itinerary_activity_comments FOR DELETE TO authenticated
+  USING (clerk_user_id = (SELECT auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Members read votes"
+  ON public.itinerary_activity_votes FOR SELECT TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) IS NOT NULL);
+
+CREATE POLICY "Members cast their own votes"
+  ON public.itinerary_activity_votes FOR ALL TO authenticated
+  USING (clerk_user_id = (SELECT auth.jwt() ->> 'sub'))
+  WITH CHECK (
+    clerk_user_id = (SELECT auth.jwt() ->> 'sub')
+    AND public.itinerary_access_role(itinerary_id) IS NOT NULL
+  );
+
+CREATE POLICY "Collaborators read itinerary versions"
+  ON public.itinerary_versions FOR SELECT TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) IN ('editor', 'viewer'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.itinerary_collaborators TO authenticated, service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.itinerary_invites TO authenticated, service_role;
+GRANT SELECT, INSERT, DELETE ON public.itinerary_activity_comments TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.itinerary_activity_comments TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.itinerary_activity_votes TO authenticated, service_role;
+
+-- Presence and change notifications on the private topic "itinerary:<id>".
+-- Anyone with access may listen; only owners and editors announce changes.
+CREATE POLICY "Itinerary members receive realtime messages"
+  ON realtime.messages FOR SELECT TO authenticated
+  USING (
+    realtime.topic() LIKE 'itinerary:%'
+    AND public.itinerary_access_role(substring(realtime.topic() FROM 11)::uuid) IS NOT NULL
+  );
+
+CREATE POLICY "Itinerary members send realtime messages"
+  ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.topic() LIKE 'itinerary:%'
+    AND public.itinerary_access_role(substring(realtime.topic() FROM 11)::uuid) IS NOT NULL
+  );
+
+-- Same contract as before; editors may now save too, and each version
+-- records who saved it. Collaborators cannot update itineraries under RLS, so
+-- their saves go through the service role after the route checks access.
+CREATE OR REPLACE FUNCTION public.save_itinerary_version(
+  p_itinerary_id UUID,
+  p_clerk_user_id TEXT,
+  p_changes JSONB,
+  p_source TEXT,
+  p_operations JSONB DEFAULT '[]'::jsonb,
+  p_summary TEXT DEFAULT NULL,
+  p_restored_from INTEGER DEFAULT NULL
+)
+RETURNS TABLE(saved_version INTEGER, saved_itinerary JSONB)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.itineraries%ROWTYPE;
+  v_version INTEGER;
+BEGIN
+  SELECT * INTO v_row
+  FROM public.itineraries itinerary
+  WHERE itinerary.id = p_itinerary_id
+    AND (
+      itinerary.clerk_user_id = p_clerk_user_id
+      OR EXISTS (
+        SELECT 1 FROM public.itinerary_collaborators collaborator
+        WHERE collaborator.itinerary_id = itinerary.id
+          AND collaborator.clerk_user_id = p_clerk_user_id
+          AND collaborator.role = 'editor'
+      )
+    )
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Itinerary % not found', p_itinerary_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_version := v_row.current_version;
+  IF v_version = 0 THEN
+    INSERT INTO public.itinerary_versions (itinerary_id, version, source, snapshot, summary, created_by)
+    VALUES (
+      p_itinerary_id,
+      1,
+      'original',
+      jsonb_build_object(
+        'title', v_row.title,
+        'city', v_row.city,
+        'days', v_row.days,
+        'activities', v_row.activities,
+        'local_score', v_row.local_score,
+        'highlights', to_jsonb(v_row.highlights),
+        'estimated_cost', v_row.estimated_cost
+      ),
+      'Plan before version history.',
+      v_row.clerk_user_id
+    );
+    v_version := 1;
+  END IF;
+  v_version := v_version + 1;
+
+  UPDATE public.itineraries itinerary SET
+    title = CASE WHEN p_changes ? 'title' THEN p_changes ->> 'title' ELSE itinerary.title END,
+    city = CASE WHEN p_changes ? 'city' THEN p_changes ->> 'city' ELSE itinerary.city END,
+    days = CASE WHEN p_changes ? 'days' THEN (p_changes ->> 'days')::integer ELSE itinerary.days END,
+    activities = CASE WHEN p_changes ? 'activities' THEN p_changes -> 'activities' ELSE itinerary.activities END,
+    local_score = CASE
+      WHEN p_changes ? 'local_score' THEN (p_changes ->> 'local_score')::float
+      ELSE itinerary.local_score
+    END,
+    highlights = CASE
+      WHEN NOT p_changes ? 'highlights' THEN itinerary.highlights
+      WHEN jsonb_typeof(p_changes -> 'highlights') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(p_changes -> 'highlights'))
+      ELSE NULL
+    END,
+    estimated_cost = CASE
+      WHEN p_changes ? 'estimated_cost' THEN p_changes ->> 'estimated_cost'
+      ELSE itinerary.estimated_cost
+    END,
+    current_version = v_version
+  WHERE itinerary.id = p_itinerary_id
+  RETURNING * INTO v_row;
+
+  INSERT INTO public.itinerary_versions (
+    itinerary_id, version, source, operations, snapshot, summary, restored_from, created_by
+  )
+  VALUES (
+    p_itinerary_id,
+    v_version,
+    p_source,
+    COALESCE(p_operations, '[]'::jsonb),
+    jsonb_build_object(
+      'title', v_row.title,
+      'city', v_row.city,
+      'days', v_row.days,
+      'activities', v_row.activities,
+      'local_score', v_row.local_score,
+      'highlights', to_jsonb(v_row.highlights),
+      'estimated_cost', v_row.estimated_cost
+    ),
+    p_summary,
+    p_restored_from,
+    p_clerk_user_id
+  );
+
+  RETURN QUERY SELECT v_version, to_jsonb(v_row);
+END;
+$$;
+
+COMMENT ON TABLE public.itinerary_collaborators IS
+  'People an owner invited to an itinerary. role: editor (changes the plan) or viewer (reads, comments, votes).';
+COMMENT ON TABLE public.itinerary_activity_comments IS
+  'Per-activity discussion; activity_key is the normalised activity name, so comments follow moves.';
@@ -0,0 +1,12 @@
+-- Calendar export for itineraries. start_date anchors day 1 to a real date;
+-- calendar_token is the secret in the itinerary's subscribable webcal:// feed
+-- (GET /api/calendar/<token>). The feed renders the current plan on every
+-- request, so subscribed calendars follow revisions; clearing the token
+-- revokes the feed.
+
+ALTER TABLE public.itineraries
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS calendar_token TEXT UNIQUE CHECK (calendar_token IS NULL OR char_length(calendar_token) >= 32);
+
+COMMENT ON COLUMN public.itineraries.start_date IS 'Date of day 1, used for calendar export; NULL when the trip is not scheduled.';
+COMMENT ON COLUMN public.itineraries.calendar_token IS 'Secret for the public calendar feed; NULL when the feed is off.';
@@ -0,0 +1,47 @@
+-- Actual spend logged by a trip's group, against an activity (by activityKey,
+-- like comments and votes) or a day, or for the trip as a whole. Amounts stay
+-- in the currency they were paid in; totals are converted when read (see
+-- lib/itineraries/budget.ts). split_with lists the members sharing the cost;
+-- empty means the whole group.
+
+CREATE TABLE public.itinerary_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+  activity_key TEXT CHECK (activity_key IS NULL OR char_length(activity_key) BETWEEN 1 AND 200),
+  day INTEGER CHECK (day IS NULL OR day BETWEEN 1 AND 60),
+  category TEXT NOT NULL CHECK (category IN ('food', 'activities', 'transport', 'shopping', 'stay', 'other')),
+  description TEXT NOT NULL DEFAULT '' CHECK (char_length(description) <= 200),
+  amount NUMERIC(14, 2) NOT NULL CHECK (amount > 0),
+  currency CHAR(3) NOT NULL,
+  paid_by TEXT NOT NULL,
+  split_with TEXT[] NOT NULL DEFAULT '{}',
+  spent_on DATE,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX itinerary_expenses_itinerary_idx
+  ON public.itinerary_expenses (itinerary_id, created_at);
+
+ALTER TABLE public.itinerary_expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read expenses"
+  ON public.itinerary_expenses FOR SELECT TO authenticated
+  USING (public.itinerary_access_role(itinerary_id) IS NOT NULL);
+
+CREATE POLICY "Members log expenses"
+  ON public.itinerary_expenses FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = (SELECT auth.jwt() ->> 'sub')
+    AND public.itinerary_access_role(itinerary_id) IS NOT NULL
+  );
+
+CREATE POLICY "Loggers and owners delete expenses"
+  ON public.itinerary_expenses FOR DELETE TO authenticated
+  USING (
+    created_by = (SELECT auth.jwt() ->> 'sub')
+    OR public.itinerary_access_role(itinerary_id) = 'owner'
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.itinerary_expenses TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.itinerary_expenses TO service_role;
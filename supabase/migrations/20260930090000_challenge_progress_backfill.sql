@@ -0,0 +1,47 @@
+-- Challenge progress is now stored incrementally in user_challenges.progress
+-- by the challenge engine (lib/challenges/engine.ts) as domain events happen,
+-- instead of being recounted on every GET /api/challenges. Challenges are
+-- data: `requirements` holds a declarative rule (lib/challenges/rules.ts),
+-- `city` scopes it and `starts_at`/`ends_at` time-box it. For example:
+--
+--   INSERT INTO public.challenges (name, description, city, xp_reward, requirements, starts_at, ends_at)
+--   VALUES ('Busan Gem Hunter', 'Review 3 hidden gems in Busan this month', 'Busan', 300,
+--     '{"type": "count", "event": "review_posted", "target": 3, "filter": {"minLocalleyScore": 5}}',
+--     '2026-10-01', '2026-11-01');
+--
+-- The original requirement shapes ({"type": "itinerary_count", "count": 5}
+-- and friends) are still read as-is. Seed their stored progress from the same
+-- counts the old endpoint used so nobody loses ground; anything already
+-- complete stays claimable from the challenges page.
+
+WITH legacy AS (
+  SELECT
+    id,
+    requirements->>'type' AS kind,
+    GREATEST(COALESCE((requirements->>'count')::INTEGER, (requirements->>'days')::INTEGER, 1), 1) AS target
+  FROM public.challenges
+  WHERE requirements->>'type' IN ('itinerary_count', 'saved_spots', 'following_count', 'followers_count', 'streak')
+),
+counts AS (
+  SELECT
+    u.id AS user_id,
+    u.clerk_id,
+    legacy.id AS challenge_id,
+    legacy.target,
+    CASE legacy.kind
+      WHEN 'itinerary_count' THEN (SELECT count(*) FROM public.itineraries i WHERE i.clerk_user_id = u.clerk_id)
+      WHEN 'saved_spots' THEN (SELECT count(*) FROM public.saved_spots s WHERE s.clerk_user_id = u.clerk_id)
+      WHEN 'following_count' THEN (SELECT count(*) FROM public.follows f WHERE f.follower_id = u.clerk_id)
+      WHEN 'followers_count' THEN (SELECT count(*) FROM public.follows f WHERE f.following_id = u.clerk_id)
+      WHEN 'streak' THEN (SELECT COALESCE(max(p.current_streak), 0) FROM public.user_progress p WHERE p.user_id = u.id)
+    END AS done
+  FROM public.users u
+  CROSS JOIN legacy
+)
+INSERT INTO public.user_challenges (user_id, clerk_user_id, challenge_id, progress)
+SELECT user_id, clerk_id, challenge_id, jsonb_build_object('count', LEAST(done, target))
+FROM counts
+WHERE done > 0
+ON CONFLICT (user_id, challenge_id) DO UPDATE
+  SET progress = EXCLUDED.progress
+  WHERE NOT COALESCE(public.user_challenges.completed, false);
@@ -0,0 +1,74 @@
+-- Append-only XP ledger. Every XP change is a row with the reason and the
+-- entity that earned it; users.xp/level and user_progress.current_streak are
+-- derived from it (see lib/xp-ledger.ts), so "why is this user level 10" is
+-- answerable and XP can be clawed back. Rows are never updated or deleted:
+-- a reversal (e.g. a spam review removed) is a negative row pointing at the
+-- row it cancels through `reverses`. idempotency_key makes repeated awards
+-- for the same thing (saving a spot twice, a retried request) no-ops.
+
+CREATE TABLE public.xp_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  clerk_user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 60),
+  source_type TEXT,
+  source_id TEXT,
+  idempotency_key TEXT NOT NULL CHECK (char_length(idempotency_key) BETWEEN 1 AND 200),
+  reverses UUID UNIQUE REFERENCES public.xp_ledger(id),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT xp_ledger_idempotency_unique UNIQUE (user_id, idempotency_key),
+  CONSTRAINT xp_ledger_source_pair CHECK ((source_type IS NULL) = (source_id IS NULL))
+);
+
+CREATE INDEX xp_ledger_user_idx
+  ON public.xp_ledger (user_id, created_at);
+
+-- Daily caps count today's awards per reason
+CREATE INDEX xp_ledger_user_reason_idx
+  ON public.xp_ledger (user_id, reason, created_at)
+  WHERE amount > 0;
+
+CREATE INDEX xp_ledger_source_idx
+  ON public.xp_ledger (source_type, source_id)
+  WHERE source_type IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.xp_ledger_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'xp_ledger is append-only; insert a reversal instead';
+END;
+$$;
+
+CREATE TRIGGER xp_ledger_no_update
+  BEFORE UPDATE ON public.xp_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.xp_ledger_append_only();
+
+ALTER TABLE public.xp_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own XP history"
+  ON public.xp_ledger FOR SELECT TO authenticated
+  USING (clerk_user_id = (SELECT auth.jwt() ->> 'sub'));
+
+-- Only the server writes, and nobody deletes (user deletion still cascades)
+GRANT SELECT ON public.xp_ledger TO authenticated;
+GRANT SELECT, INSERT ON public.xp_ledger TO service_role;
+
+-- Carry existing balances over as one opening entry each so recomputing from
+-- the ledger doesn't reset anyone. The running streak rides along in metadata
+-- (`streak` days ending on `streak_through`, the last day progress changed) and
+-- counts as login days when the streak is rebuilt.
+INSERT INTO public.xp_ledger (user_id, clerk_user_id, amount, reason, idempotency_key, metadata)
+SELECT u.id, u.clerk_id, u.xp, 'opening_balance', 'opening_balance',
+  jsonb_build_object(
+    'level', u.level,
+    'streak', COALESCE(p.current_streak, 0),
+    'streak_through', to_char((COALESCE(p.updated_at, now()) AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD')
+  )
+FROM public.users u
+LEFT JOIN public.user_progress p ON p.user_id = u.id
+WHERE COALESCE(u.xp, 0) > 0
+ON CONFLICT (user_id, idempotency_key) DO NOTHING;
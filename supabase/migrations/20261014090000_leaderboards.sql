@@ -0,0 +1,69 @@
+-- Leaderboards by week, month, season (calendar quarter) and all time, each
+-- globally and per city, materialised daily from the XP ledger by
+-- /api/cron/refresh-leaderboards (see lib/leaderboards.ts). Friends boards
+-- are the global rows filtered to whoever the viewer follows. previous_rank
+-- is the rank at the previous refresh, so the UI can show movement.
+
+ALTER TABLE public.xp_ledger ADD COLUMN city TEXT;
+
+CREATE INDEX xp_ledger_created_idx
+  ON public.xp_ledger (created_at);
+
+-- XP per user for a window, once overall (city = '') and once per city.
+-- Reversals count in the window of the award they cancel, so clawing back a
+-- spam review doesn't dent the current week.
+CREATE OR REPLACE FUNCTION public.xp_leaderboard_totals(
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ,
+  p_exclude_reasons TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (user_id UUID, clerk_user_id TEXT, city TEXT, xp BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.user_id,
+    l.clerk_user_id,
+    CASE WHEN GROUPING(l.city) = 1 THEN '' ELSE l.city END AS city,
+    SUM(l.amount)::BIGINT AS xp
+  FROM public.xp_ledger l
+  LEFT JOIN public.xp_ledger original ON original.id = l.reverses
+  WHERE COALESCE(original.created_at, l.created_at) < p_until
+    AND (p_since IS NULL OR COALESCE(original.created_at, l.created_at) >= p_since)
+    AND NOT (l.reason = ANY (p_exclude_reasons))
+  GROUP BY GROUPING SETS ((l.user_id, l.clerk_user_id), (l.user_id, l.clerk_user_id, l.city))
+  HAVING SUM(l.amount) > 0
+    AND (GROUPING(l.city) = 1 OR l.city IS NOT NULL);
+$$;
+
+REVOKE ALL ON FUNCTION public.xp_leaderboard_totals(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.xp_leaderboard_totals(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[]) TO service_role;
+
+CREATE TABLE public.leaderboard_entries (
+  board TEXT NOT NULL CHECK (board IN ('week', 'month', 'season', 'all_time')),
+  period TEXT NOT NULL,
+  city TEXT NOT NULL DEFAULT '',
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  clerk_user_id TEXT NOT NULL,
+  xp INTEGER NOT NULL,
+  rank INTEGER NOT NULL CHECK (rank > 0),
+  previous_rank INTEGER CHECK (previous_rank IS NULL OR previous_rank > 0),
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (board, period, city, user_id)
+);
+
+CREATE INDEX leaderboard_entries_rank_idx
+  ON public.leaderboard_entries (board, period, city, rank);
+
+CREATE INDEX leaderboard_entries_user_idx
+  ON public.leaderboard_entries (clerk_user_id, board, period);
+
+ALTER TABLE public.leaderboard_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone reads leaderboards"
+  ON public.leaderboard_entries FOR SELECT TO anon, authenticated
+  USING (true);
+
+GRANT SELECT ON public.leaderboard_entries TO anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.leaderboard_entries TO service_role;
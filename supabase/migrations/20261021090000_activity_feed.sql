@@ -0,0 +1,35 @@
+-- Activity feed for followed travellers. The feed is assembled on read from
+-- the source tables (see lib/activity-feed.ts), so this only adds what those
+-- reads need: who may see a user's activity, when an itinerary was
+-- published, and indexes for "newest first for these users" queries.
+
+-- Same shape as email_preferences: missing keys fall back to the defaults in
+-- lib/activity-feed.ts (audience 'followers', every kind shown).
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS activity_privacy JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.users.activity_privacy IS
+  'Who sees this user''s activity in followers'' feeds: audience (followers, mutuals, nobody) and per-kind switches';
+
+-- Publishing (sharing) is the feed event, not creation
+ALTER TABLE public.itineraries
+  ADD COLUMN IF NOT EXISTS shared_at TIMESTAMPTZ;
+
+UPDATE public.itineraries
+SET shared_at = created_at
+WHERE shared = true AND shared_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS itineraries_shared_feed_idx
+  ON public.itineraries (clerk_user_id, shared_at DESC)
+  WHERE shared = true;
+
+CREATE INDEX IF NOT EXISTS spot_reviews_feed_idx
+  ON public.spot_reviews (clerk_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS social_spot_submissions_feed_idx
+  ON public.social_spot_submissions (clerk_user_id, created_at DESC)
+  WHERE status IN ('spot_created', 'spot_reused');
+
+CREATE INDEX IF NOT EXISTS user_challenges_feed_idx
+  ON public.user_challenges (clerk_user_id, completed_at DESC)
+  WHERE completed = true;
@@ -0,0 +1,255 @@
+-- Fraud screening for guide revenue share. content_engagement only dedupes
+-- by viewer, content and day, so alt accounts, view bursts and guides
+-- boosting each other all paid out. Engagement now carries hashed network
+-- and browser signals; before each monthly calculation lib/engagement-
+-- anomalies.ts flags suspicious rows and they're held out of the pool.
+-- Every guide's monthly points get a stored explanation (guide_point_audits)
+-- that approve and execute require, and payout actions are logged
+-- append-only (payout_audit_log).
+
+-- ip_hash is the hashed client IP; device_hash the hashed IP + browser
+-- signature, i.e. one browser on one network. Older rows have neither.
+ALTER TABLE public.content_engagement
+  ADD COLUMN IF NOT EXISTS ip_hash TEXT,
+  ADD COLUMN IF NOT EXISTS device_hash TEXT,
+  ADD COLUMN IF NOT EXISTS held BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hold_reasons TEXT[] NOT NULL DEFAULT '{}',
+  -- An admin cleared the hold; screening leaves released rows alone
+  ADD COLUMN IF NOT EXISTS hold_released_by TEXT,
+  ADD COLUMN IF NOT EXISTS hold_released_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_engagement_month_held
+  ON public.content_engagement (engagement_month)
+  WHERE held = true;
+
+-- Every browser/network an account has been seen on, including guides
+-- viewing their own content (which never earns), so an alt account on the
+-- guide's own device gives itself away
+CREATE TABLE IF NOT EXISTS public.engagement_fingerprints (
+  clerk_user_id TEXT NOT NULL,
+  device_hash TEXT NOT NULL,
+  ip_hash TEXT NOT NULL,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (clerk_user_id, device_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_engagement_fingerprints_device
+  ON public.engagement_fingerprints (device_hash);
+
+CREATE INDEX IF NOT EXISTS idx_engagement_fingerprints_ip
+  ON public.engagement_fingerprints (ip_hash);
+
+ALTER TABLE public.engagement_fingerprints ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT, UPDATE ON public.engagement_fingerprints TO service_role;
+
+-- Why each guide earned what they did for a month: counted and held points,
+-- holds by reason with a plain explanation, top viewers. Rewritten by every
+-- calculation; approve/execute refuse earnings whose points don't match.
+CREATE TABLE IF NOT EXISTS public.guide_point_audits (
+  guide_clerk_user_id TEXT NOT NULL,
+  earning_month DATE NOT NULL,
+  total_points INTEGER NOT NULL DEFAULT 0,
+  counted_points INTEGER NOT NULL DEFAULT 0,
+  held_points INTEGER NOT NULL DEFAULT 0,
+  explanation JSONB NOT NULL DEFAULT '{}'::jsonb,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (guide_clerk_user_id, earning_month)
+);
+
+ALTER TABLE public.guide_point_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Guides can view own point audits"
+  ON public.guide_point_audits FOR SELECT
+  USING (guide_clerk_user_id = current_setting('request.jwt.claims', true)::json->>'sub');
+
+ALTER TABLE public.guide_earnings
+  ADD COLUMN IF NOT EXISTS held_engagement_points INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approved_by TEXT,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.payout_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  earning_month DATE NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('calculate', 'release_hold', 'approve', 'execute')),
+  admin_clerk_user_id TEXT NOT NULL,
+  guide_clerk_user_id TEXT,
+  earning_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_audit_log_month
+  ON public.payout_audit_log (earning_month, created_at);
+
+CREATE OR REPLACE FUNCTION public.payout_audit_log_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'payout_audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER payout_audit_log_no_change
+  BEFORE UPDATE OR DELETE ON public.payout_audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.payout_audit_log_append_only();
+
+ALTER TABLE public.payout_audit_log ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT ON public.payout_audit_log TO service_role;
+
+-- Tracking now records the signals alongside the engagement
+DROP FUNCTION IF EXISTS public.track_content_engagement(TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.track_content_engagement(
+    p_viewer_clerk_user_id TEXT,
+    p_viewer_tier TEXT,
+    p_content_type TEXT,
+    p_content_id TEXT,
+    p_creator_clerk_user_id TEXT,
+    p_ip_hash TEXT DEFAULT NULL,
+    p_device_hash TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_points INTEGER;
+BEGIN
+    -- Only track paid subscribers
+    IF p_viewer_tier NOT IN ('pro', 'premium') THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Don't track self-engagement
+    IF p_viewer_clerk_user_id = p_creator_clerk_user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Assign engagement points by type
+    v_points := CASE p_content_type
+        WHEN 'itinerary_view' THEN 1
+        WHEN 'itinerary_save' THEN 3
+        WHEN 'spot_view' THEN 1
+        WHEN 'spot_save' THEN 2
+        ELSE 1
+    END;
+
+    -- Insert with deduplication (unique constraint handles conflicts)
+    INSERT INTO content_engagement (
+        viewer_clerk_user_id, viewer_tier, content_type, content_id,
+        creator_clerk_user_id, engagement_points, engagement_date, engagement_month,
+        ip_hash, device_hash
+    ) VALUES (
+        p_viewer_clerk_user_id, p_viewer_tier, p_content_type, p_content_id,
+        p_creator_clerk_user_id, v_points, CURRENT_DATE, DATE_TRUNC('month', CURRENT_DATE)::DATE,
+        p_ip_hash, p_device_hash
+    )
+    ON CONFLICT (viewer_clerk_user_id, content_type, content_id, engagement_date) DO NOTHING;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Held engagement counts for neither the guide nor the platform total, so it
+-- doesn't dilute honest guides' shares either. Earnings already approved or
+-- paid are left as they were; this month's unapproved rows are rebuilt, so a
+-- guide whose points are all held no longer has one.
+CREATE OR REPLACE FUNCTION public.calculate_monthly_earnings(
+    p_month DATE, -- First day of the month to calculate
+    p_subscription_revenue NUMERIC, -- Total subscription revenue for that month
+    p_revenue_share_percent NUMERIC DEFAULT 20.0 -- Platform gives 20% to guide pool
+)
+RETURNS INTEGER AS $$ -- Returns number of guides with earnings
+DECLARE
+    v_revenue_pool NUMERIC;
+    v_total_points INTEGER;
+    v_guide_count INTEGER := 0;
+    v_guide RECORD;
+BEGIN
+    -- Calculate the revenue pool
+    v_revenue_pool := p_subscription_revenue * (p_revenue_share_percent / 100.0);
+
+    DELETE FROM guide_earnings
+    WHERE earning_month = p_month
+      AND status IN ('calculated', 'below_minimum');
+
+    -- Get total engagement points for the month
+    SELECT COALESCE(SUM(engagement_points), 0) INTO v_total_points
+    FROM content_engagement
+    WHERE engagement_month = p_month
+      AND NOT held;
+
+    IF v_total_points = 0 THEN
+        RETURN 0;
+    END IF;
+
+    -- Calculate each guide's earnings
+    FOR v_guide IN
+        SELECT
+            ce.creator_clerk_user_id,
+            SUM(ce.engagement_points) FILTER (WHERE NOT ce.held) as guide_points,
+            COALESCE(SUM(ce.engagement_points) FILTER (WHERE ce.held), 0) as held_points
+        FROM content_engagement ce
+        INNER JOIN guide_profiles gp ON gp.clerk_user_id = ce.creator_clerk_user_id
+        WHERE ce.engagement_month = p_month
+          AND gp.status = 'approved'
+          AND gp.stripe_onboarding_complete = TRUE
+        GROUP BY ce.creator_clerk_user_id
+        HAVING SUM(ce.engagement_points) FILTER (WHERE NOT ce.held) > 0
+    LOOP
+        -- Get any rollover from previous month
+        DECLARE
+            v_rollover NUMERIC := 0;
+            v_gross NUMERIC;
+            v_min_payout NUMERIC;
+            v_status TEXT;
+        BEGIN
+            SELECT COALESCE(rollover_amount, 0) + COALESCE(net_amount, 0)
+            INTO v_rollover
+            FROM guide_earnings
+            WHERE guide_clerk_user_id = v_guide.creator_clerk_user_id
+              AND status = 'below_minimum'
+              AND earning_month < p_month
+            ORDER BY earning_month DESC
+            LIMIT 1;
+
+            v_rollover := COALESCE(v_rollover, 0);
+
+            -- Calculate gross amount
+            v_gross := (v_guide.guide_points::NUMERIC / v_total_points::NUMERIC) * v_revenue_pool + v_rollover;
+
+            -- Get minimum payout for this guide
+            SELECT COALESCE(minimum_payout, 10.00)
+            INTO v_min_payout
+            FROM guide_profiles
+            WHERE clerk_user_id = v_guide.creator_clerk_user_id;
+
+            -- Determine status
+            IF v_gross < v_min_payout THEN
+                v_status := 'below_minimum';
+            ELSE
+                v_status := 'calculated';
+            END IF;
+
+            INSERT INTO guide_earnings (
+                guide_clerk_user_id, earning_month,
+                total_engagement_points, held_engagement_points, platform_engagement_points,
+                subscription_revenue, revenue_pool,
+                share_percent, gross_amount, net_amount,
+                rollover_amount, status
+            ) VALUES (
+                v_guide.creator_clerk_user_id, p_month,
+                v_guide.guide_points, v_guide.held_points, v_total_points,
+                p_subscription_revenue, v_revenue_pool,
+                v_guide.guide_points::NUMERIC / v_total_points::NUMERIC,
+                v_gross, v_gross, -- net_amount updated after Stripe fee deduction
+                v_rollover, v_status
+            )
+            ON CONFLICT (guide_clerk_user_id, earning_month) DO NOTHING;
+
+            v_guide_count := v_guide_count + 1;
+        END;
+    END LOOP;
+
+    RETURN v_guide_count;
+END;
+$$ LANGUAGE plpgsql;
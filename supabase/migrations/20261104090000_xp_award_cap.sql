@@ -0,0 +1,57 @@
+-- Daily XP caps are checked and the award appended in one transaction, under
+-- a lock on the user and reason, so concurrent requests can't both see room
+-- under the cap and both insert. Reversed awards still count towards the cap.
+-- Returns 'awarded', 'capped' or 'duplicate' (the idempotency key was used).
+
+CREATE OR REPLACE FUNCTION public.append_xp_award(
+  p_user_id UUID,
+  p_clerk_user_id TEXT,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_source_type TEXT,
+  p_source_id TEXT,
+  p_city TEXT,
+  p_idempotency_key TEXT,
+  p_metadata JSONB,
+  p_created_at TIMESTAMPTZ,
+  p_daily_cap INTEGER DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_awarded INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || ':' || p_reason));
+
+  IF p_daily_cap IS NOT NULL AND (
+    SELECT COUNT(*)
+    FROM public.xp_ledger
+    WHERE user_id = p_user_id
+      AND reason = p_reason
+      AND amount > 0
+      AND created_at >= date_trunc('day', p_created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  ) >= p_daily_cap THEN
+    RETURN 'capped';
+  END IF;
+
+  INSERT INTO public.xp_ledger (
+    user_id, clerk_user_id, amount, reason, source_type, source_id,
+    city, idempotency_key, metadata, created_at
+  ) VALUES (
+    p_user_id, p_clerk_user_id, p_amount, p_reason, p_source_type, p_source_id,
+    p_city, p_idempotency_key, COALESCE(p_metadata, '{}'::JSONB), p_created_at
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING;
+
+  GET DIAGNOSTICS v_awarded = ROW_COUNT;
+  RETURN CASE WHEN v_awarded = 0 THEN 'duplicate' ELSE 'awarded' END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_xp_award(
+  UUID, TEXT, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, TIMESTAMPTZ, INTEGER
+) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_xp_award(
+  UUID, TEXT, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, TIMESTAMPTZ, INTEGER
+) TO service_role;
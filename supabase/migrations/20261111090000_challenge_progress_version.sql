@@ -0,0 +1,8 @@
+-- The challenge engine reads progress, applies an event in TypeScript and
+-- writes it back. progress_version makes that write conditional on nobody
+-- having written since the read, so two events for the same user and
+-- challenge can't both start from the same progress and lose one of them;
+-- the loser re-reads and applies its event again (see lib/challenges/engine.ts).
+
+ALTER TABLE public.user_challenges
+  ADD COLUMN progress_version INTEGER NOT NULL DEFAULT 0;
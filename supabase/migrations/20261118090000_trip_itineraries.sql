@@ -0,0 +1,110 @@
+-- Generated corridor itineraries are saved with the trip they were generated
+-- for: the whole document on trips.itinerary, stamped with the plan version it
+-- fills, and each day's activities in trip_activities. A re-plan while the
+-- itinerary was generating wins, and the stale itinerary is not saved.
+
+ALTER TABLE public.trips
+  ADD COLUMN itinerary JSONB CHECK (itinerary IS NULL OR jsonb_typeof(itinerary) = 'object'),
+  ADD COLUMN itinerary_version INTEGER CHECK (itinerary_version IS NULL OR itinerary_version >= 1);
+
+-- Runs as the caller so the owner RLS policies still apply. Returns false when
+-- the trip is missing or has moved past p_version.
+CREATE OR REPLACE FUNCTION public.save_trip_itinerary(
+  p_trip_id UUID,
+  p_version INTEGER,
+  p_itinerary JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_day JSONB;
+  v_activity JSONB;
+  v_day_id UUID;
+  v_position SMALLINT;
+BEGIN
+  UPDATE public.trips trip
+  SET itinerary = p_itinerary,
+      itinerary_version = p_version,
+      status = 'generated',
+      updated_at = now()
+  WHERE trip.id = p_trip_id
+    AND trip.current_version = p_version;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM public.trip_activities activity WHERE activity.trip_id = p_trip_id;
+
+  FOR v_day IN SELECT value FROM jsonb_array_elements(p_itinerary -> 'dailyPlans') LOOP
+    UPDATE public.trip_days day
+    SET theme = v_day ->> 'theme', updated_at = now()
+    WHERE day.trip_id = p_trip_id
+      AND day.day_index = (v_day ->> 'day')::smallint
+    RETURNING day.id INTO v_day_id;
+    CONTINUE WHEN v_day_id IS NULL;
+
+    v_position := 0;
+    FOR v_activity IN
+      SELECT value FROM jsonb_array_elements(COALESCE(v_day -> 'activities', '[]'::jsonb))
+    LOOP
+      INSERT INTO public.trip_activities (trip_id, day_id, position, spot_id, kind, notes)
+      VALUES (
+        p_trip_id,
+        v_day_id,
+        v_position,
+        (SELECT spot.id FROM public.spots spot WHERE spot.id::text = v_activity ->> 'spotId'),
+        CASE WHEN v_activity ? 'spotId' THEN 'spot' ELSE 'free_time' END,
+        v_activity
+      );
+      v_position := v_position + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_trip_itinerary(UUID, INTEGER, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_trip_itinerary(UUID, INTEGER, JSONB)
+  TO authenticated, service_role;
+
+-- Gives back credits taken by check_and_increment_usage_weighted when the work
+-- they paid for failed. Never goes below zero.
+CREATE OR REPLACE FUNCTION refund_usage(
+    p_clerk_user_id TEXT,
+    p_usage_type TEXT,
+    p_period_type TEXT,
+    p_amount INTEGER DEFAULT 1
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_period_start DATE;
+    v_new_count INTEGER;
+BEGIN
+    IF p_period_type = 'daily' THEN
+        v_period_start := CURRENT_DATE;
+    ELSIF p_period_type = 'weekly' THEN
+        v_period_start := DATE_TRUNC('week', CURRENT_DATE)::DATE;
+    ELSE
+        v_period_start := DATE_TRUNC('month', CURRENT_DATE)::DATE;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(
+        hashtext(p_clerk_user_id || p_usage_type || p_period_type || v_period_start::TEXT)
+    );
+
+    UPDATE usage_tracking
+    SET count = GREATEST(count - p_amount, 0),
+        updated_at = NOW()
+    WHERE clerk_user_id = p_clerk_user_id
+    AND usage_type = p_usage_type
+    AND period_type = p_period_type
+    AND period_start = v_period_start
+    RETURNING count INTO v_new_count;
+
+    RETURN COALESCE(v_new_count, 0);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,64 @@
+-- Nearest-neighbour search over spot_embeddings, so retrieval can find a
+-- city's closest spots in the database instead of only re-ranking a candidate
+-- list fetched by other filters.
+--
+-- Vectors stay REAL[] because embedders differ in width. Each built-in
+-- embedder gets an HNSW index over its rows cast to a fixed-width vector;
+-- vectors from any other model are matched by an exact scan.
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE INDEX spot_embeddings_hashed_256_hnsw_idx
+  ON public.spot_embeddings
+  USING hnsw ((embedding::extensions.vector(256)) extensions.vector_cosine_ops)
+  WHERE embedding_model = 'hashed:256';
+
+CREATE INDEX spot_embeddings_openai_3_small_hnsw_idx
+  ON public.spot_embeddings
+  USING hnsw ((embedding::extensions.vector(1536)) extensions.vector_cosine_ops)
+  WHERE embedding_model = 'openai:text-embedding-3-small';
+
+-- Spots in p_city whose stored vector for p_model is closest to p_query,
+-- closest first. The width and model are written into the query so the
+-- planner can match the partial indexes above.
+CREATE OR REPLACE FUNCTION public.match_spot_embeddings(
+  p_model TEXT,
+  p_query REAL[],
+  p_city TEXT,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (spot_id UUID, similarity DOUBLE PRECISION)
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_width INTEGER := cardinality(p_query);
+BEGIN
+  IF v_width IS NULL OR v_width > 4096 OR p_city IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- The city filter runs after the index scan; keep scanning until enough of
+  -- the city's spots turn up
+  PERFORM set_config('hnsw.ef_search', '200', true);
+  PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+
+  RETURN QUERY EXECUTE format(
+    'SELECT stored.spot_id,
+            (1 - (stored.embedding::vector(%1$s) <=> $1::vector(%1$s)))::double precision
+     FROM public.spot_embeddings stored
+     JOIN public.spots spot ON spot.id = stored.spot_id
+     WHERE stored.embedding_model = %2$L
+       AND cardinality(stored.embedding) = %1$s
+       AND spot.address ->> ''en'' ILIKE ''%%'' || $2 || ''%%''
+     ORDER BY stored.embedding::vector(%1$s) <=> $1::vector(%1$s)
+     LIMIT $3',
+    v_width,
+    p_model
+  )
+  USING p_query, p_city, LEAST(GREATEST(COALESCE(p_limit, 20), 1), 200);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.match_spot_embeddings(TEXT, REAL[], TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.match_spot_embeddings(TEXT, REAL[], TEXT, INTEGER) TO service_role;
@@ -0,0 +1,123 @@
+-- save_itinerary_version takes the version the caller last read. When someone
+-- else has saved since, the save is refused with serialization_failure instead
+-- of silently replacing their version; callers reload and try again. Passing
+-- NULL keeps the old last-write-wins behaviour.
+
+DROP FUNCTION IF EXISTS public.save_itinerary_version(UUID, TEXT, JSONB, TEXT, JSONB, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.save_itinerary_version(
+  p_itinerary_id UUID,
+  p_clerk_user_id TEXT,
+  p_changes JSONB,
+  p_source TEXT,
+  p_operations JSONB DEFAULT '[]'::jsonb,
+  p_summary TEXT DEFAULT NULL,
+  p_restored_from INTEGER DEFAULT NULL,
+  p_base_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE(saved_version INTEGER, saved_itinerary JSONB)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.itineraries%ROWTYPE;
+  v_version INTEGER;
+BEGIN
+  SELECT * INTO v_row
+  FROM public.itineraries itinerary
+  WHERE itinerary.id = p_itinerary_id
+    AND (
+      itinerary.clerk_user_id = p_clerk_user_id
+      OR EXISTS (
+        SELECT 1 FROM public.itinerary_collaborators collaborator
+        WHERE collaborator.itinerary_id = itinerary.id
+          AND collaborator.clerk_user_id = p_clerk_user_id
+          AND collaborator.role = 'editor'
+      )
+    )
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Itinerary % not found', p_itinerary_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_base_version IS NOT NULL AND p_base_version <> v_row.current_version THEN
+    RAISE EXCEPTION 'Itinerary % is at version %, not %', p_itinerary_id, v_row.current_version, p_base_version
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  v_version := v_row.current_version;
+  IF v_version = 0 THEN
+    INSERT INTO public.itinerary_versions (itinerary_id, version, source, snapshot, summary, created_by)
+    VALUES (
+      p_itinerary_id,
+      1,
+      'original',
+      jsonb_build_object(
+        'title', v_row.title,
+        'city', v_row.city,
+        'days', v_row.days,
+        'activities', v_row.activities,
+        'local_score', v_row.local_score,
+        'highlights', to_jsonb(v_row.highlights),
+        'estimated_cost', v_row.estimated_cost
+      ),
+      'Plan before version history.',
+      v_row.clerk_user_id
+    );
+    v_version := 1;
+  END IF;
+  v_version := v_version + 1;
+
+  UPDATE public.itineraries itinerary SET
+    title = CASE WHEN p_changes ? 'title' THEN p_changes ->> 'title' ELSE itinerary.title END,
+    city = CASE WHEN p_changes ? 'city' THEN p_changes ->> 'city' ELSE itinerary.city END,
+    days = CASE WHEN p_changes ? 'days' THEN (p_changes ->> 'days')::integer ELSE itinerary.days END,
+    activities = CASE WHEN p_changes ? 'activities' THEN p_changes -> 'activities' ELSE itinerary.activities END,
+    local_score = CASE
+      WHEN p_changes ? 'local_score' THEN (p_changes ->> 'local_score')::float
+      ELSE itinerary.local_score
+    END,
+    highlights = CASE
+      WHEN NOT p_changes ? 'highlights' THEN itinerary.highlights
+      WHEN jsonb_typeof(p_changes -> 'highlights') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(p_changes -> 'highlights'))
+      ELSE NULL
+    END,
+    estimated_cost = CASE
+      WHEN p_changes ? 'estimated_cost' THEN p_changes ->> 'estimated_cost'
+      ELSE itinerary.estimated_cost
+    END,
+    current_version = v_version
+  WHERE itinerary.id = p_itinerary_id
+  RETURNING * INTO v_row;
+
+  INSERT INTO public.itinerary_versions (
+    itinerary_id, version, source, operations, snapshot, summary, restored_from, created_by
+  )
+  VALUES (
+    p_itinerary_id,
+    v_version,
+    p_source,
+    COALESCE(p_operations, '[]'::jsonb),
+    jsonb_build_object(
+      'title', v_row.title,
+      'city', v_row.city,
+      'days', v_row.days,
+      'activities', v_row.activities,
+      'local_score', v_row.local_score,
+      'highlights', to_jsonb(v_row.highlights),
+      'estimated_cost', v_row.estimated_cost
+    ),
+    p_summary,
+    p_restored_from,
+    p_clerk_user_id
+  );
+
+  RETURN QUERY SELECT v_version, to_jsonb(v_row);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_itinerary_version(UUID, TEXT, JSONB, TEXT, JSONB, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_itinerary_version(UUID, TEXT, JSONB, TEXT, JSONB, TEXT, INTEGER, INTEGER)
+  TO authenticated, service_role;
@@ -0,0 +1,43 @@
+-- The realtime policies on "itinerary:<id>" only checked that the sender had
+-- some access, so viewers could broadcast version and feedback notices, and a
+-- topic whose suffix was not a UUID made the cast raise instead of denying.
+-- Topics are now parsed by a helper that returns NULL for anything malformed,
+-- and only owners and editors may send anything other than presence.
+
+-- The itinerary id in a realtime topic, or NULL if the topic is not
+-- "itinerary:<uuid>"
+CREATE OR REPLACE FUNCTION public.itinerary_topic_id(p_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_topic ~* '^itinerary:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN substring(p_topic FROM 11)::uuid
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.itinerary_topic_id(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.itinerary_topic_id(TEXT) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Itinerary members receive realtime messages" ON realtime.messages;
+DROP POLICY IF EXISTS "Itinerary members send realtime messages" ON realtime.messages;
+
+CREATE POLICY "Itinerary members receive realtime messages"
+  ON realtime.messages FOR SELECT TO authenticated
+  USING (
+    public.itinerary_access_role(public.itinerary_topic_id(realtime.topic())) IS NOT NULL
+  );
+
+-- Every member shares presence; version and feedback broadcasts come from
+-- owners and editors only
+CREATE POLICY "Itinerary members send realtime messages"
+  ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (
+    CASE realtime.messages.extension
+      WHEN 'presence'
+        THEN public.itinerary_access_role(public.itinerary_topic_id(realtime.topic())) IS NOT NULL
+      ELSE public.itinerary_access_role(public.itinerary_topic_id(realtime.topic())) IN ('owner', 'editor')
+    END
+  );